@@ -22,6 +22,8 @@ const mockThreads: Array<DBThread> = [
     userId: "demo-user",
     title: "Example conversation 1",
     visibility: "private" as const,
+    pinned: false,
+    archived: false,
     lastContext: null,
     createdAt: new Date(Date.now() - 1000 * 60 * 60 * 24),
     updatedAt: new Date(Date.now() - 1000 * 60 * 60 * 24),
@@ -31,6 +33,8 @@ const mockThreads: Array<DBThread> = [
     userId: "demo-user",
     title: "Example conversation 2",
     visibility: "private" as const,
+    pinned: false,
+    archived: false,
     lastContext: null,
     createdAt: new Date(Date.now() - 1000 * 60 * 60 * 48),
     updatedAt: new Date(Date.now() - 1000 * 60 * 60 * 48),
@@ -80,16 +84,28 @@ export const mockClient = {
   thread: {
     list: createMockProcedure(
       "thread.list",
-      async (input?: { page?: number; pageSize?: number }) => {
+      async (input?: {
+        page?: number;
+        pageSize?: number;
+        pinned?: boolean;
+        archived?: boolean;
+      }) => {
+        const threads = mockThreads.filter(
+          (thread) =>
+            (input?.pinned === undefined || thread.pinned === input.pinned) &&
+            (input?.archived === undefined ||
+              thread.archived === input.archived),
+        );
         return {
-          threads: mockThreads,
+          threads,
           pageInfo: {
             page: input?.page ?? 1,
             pageSize: input?.pageSize ?? 20,
-            total: mockThreads.length,
+            total: threads.length,
             totalPages: 1,
             hasNextPage: false,
             hasPreviousPage: false,
+            nextCursor: null,
           },
         };
       },
@@ -97,7 +113,10 @@ export const mockClient = {
     loadMessages: createMockProcedure(
       "thread.loadMessages",
       async (_input: { threadId: string }) => {
-        return mockMessages;
+        return {
+          messages: mockMessages,
+          pageInfo: { hasPreviousPage: false, previousCursor: null },
+        };
       },
     ),
     create: createMockProcedure(
@@ -0,0 +1,243 @@
+/* agent-frontmatter:start
+AGENT: Agent Start handler tests
+PURPOSE: Verify the blob file and sandbox preview routes mounted by agentStart()
+USAGE: Run with vitest; calls the fetch handler with plain Requests
+EXPORTS: none
+FEATURES:
+  - Forwards GET, HEAD and PUT requests under the files prefix to the adapter
+  - Decodes pathnames before handing them to the adapter
+  - Responds 404 when the adapter does not serve files
+  - Proxies previews to declared sandbox ports and rewrites their redirects
+  - Sandboxes previews with CSP and runs the configured middleware first
+SEARCHABLE: agentStart handler test, blob files route test, local blob serve, sandbox preview test
+agent-frontmatter:end */
+
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { inMemoryAdapter } from "@agentstart/memory/in-memory";
+import type {
+  AgentStartOptions,
+  BlobAdapter,
+  MemoryAdapter,
+  SandboxAPI,
+} from "@agentstart/types";
+import { ORPCError, os } from "@orpc/server";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { agentStart } from "@/start";
+
+function createAdapter(overrides: Partial<BlobAdapter> = {}): BlobAdapter {
+  return {
+    provider: "local",
+    getConstraints: vi.fn(),
+    put: vi.fn(),
+    del: vi.fn(),
+    head: vi.fn(),
+    list: vi.fn(),
+    copy: vi.fn(),
+    createMultipartUpload: vi.fn(),
+    createMultipartUploader: vi.fn(),
+    uploadPart: vi.fn(),
+    completeMultipartUpload: vi.fn(),
+    ...overrides,
+  };
+}
+
+function createHandler(blob: BlobAdapter, basePath?: string) {
+  return agentStart({
+    agent: {} as AgentStartOptions["agent"],
+    memory: (() => ({})) as unknown as AgentStartOptions["memory"],
+    blob,
+    basePath,
+  } as AgentStartOptions).handler;
+}
+
+describe("agentStart blob files route", () => {
+  it("serves files through the blob adapter", async () => {
+    const serve = vi.fn(async () => new Response("file", { status: 206 }));
+    const handler = createHandler(createAdapter({ serve }));
+
+    const request = new Request(
+      "http://localhost/api/agent/blob/files/docs/read%20me.txt",
+      { headers: { range: "bytes=0-3" } },
+    );
+    const response = await handler(request);
+
+    expect(response.status).toBe(206);
+    await expect(response.text()).resolves.toBe("file");
+    expect(serve).toHaveBeenCalledWith("docs/read me.txt", request);
+  });
+
+  it("honors a custom base path and HEAD requests", async () => {
+    const serve = vi.fn(async () => new Response(null));
+    const handler = createHandler(createAdapter({ serve }), "/agent");
+
+    await handler(
+      new Request("http://localhost/agent/blob/files/a.png", {
+        method: "HEAD",
+      }),
+    );
+
+    expect(serve).toHaveBeenCalledWith("a.png", expect.any(Request));
+  });
+
+  it("forwards presigned uploads to the adapter", async () => {
+    const serve = vi.fn(async () => new Response(null, { status: 201 }));
+    const handler = createHandler(createAdapter({ serve }));
+
+    const response = await handler(
+      new Request("http://localhost/api/agent/blob/files/a.txt?expires=1", {
+        method: "PUT",
+        body: "hello",
+      }),
+    );
+
+    expect(response.status).toBe(201);
+    expect(serve).toHaveBeenCalledWith("a.txt", expect.any(Request));
+  });
+
+  it("returns 404 when the adapter cannot serve files", async () => {
+    const handler = createHandler(createAdapter());
+
+    const response = await handler(
+      new Request("http://localhost/api/agent/blob/files/a.png"),
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("agentStart sandbox preview route", () => {
+  let server: Server;
+  let port: number;
+  const received: { url?: string; cookie?: string }[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      received.push({ url: req.url, cookie: req.headers.cookie });
+      if (req.url === "/login") {
+        res.writeHead(302, { location: `http://127.0.0.1:${port}/home?x=1` });
+        res.end();
+        return;
+      }
+      res.writeHead(200, {
+        "content-type": "text/html",
+        "x-frame-options": "DENY",
+      });
+      res.end(`<p>${req.url}</p>`);
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function createPreviewHandler(
+    ports: number[],
+    overrides: Partial<AgentStartOptions> = {},
+  ) {
+    const sandbox = {
+      fs: {},
+      bash: {},
+      git: {},
+      getPorts: () => ports,
+      getPortUrl: async (target: number) => `http://127.0.0.1:${target}`,
+    } as unknown as SandboxAPI;
+    return agentStart({
+      agent: {} as AgentStartOptions["agent"],
+      memory: (() => ({})) as unknown as AgentStartOptions["memory"],
+      sandbox,
+      ...overrides,
+    } as AgentStartOptions).handler;
+  }
+
+  it("proxies requests to a declared port without the caller's cookies", async () => {
+    const handler = createPreviewHandler([port]);
+
+    const response = await handler(
+      new Request(
+        `http://localhost/api/agent/sandbox/preview/_/${port}/about?tab=2`,
+        { headers: { cookie: "session=secret" } },
+      ),
+    );
+
+    expect(response.status).toBe(200);
+    await expect(response.text()).resolves.toBe("<p>/about?tab=2</p>");
+    expect(response.headers.get("x-frame-options")).toBeNull();
+    expect(response.headers.get("content-security-policy")).toMatch(
+      /^sandbox allow-scripts/,
+    );
+    expect(response.headers.get("content-security-policy")).not.toContain(
+      "allow-same-origin",
+    );
+    expect(received.at(-1)).toEqual({ url: "/about?tab=2", cookie: undefined });
+  });
+
+  it("rewrites redirects to the sandbox back to the preview path", async () => {
+    const handler = createPreviewHandler([port]);
+
+    const response = await handler(
+      new Request(`http://localhost/api/agent/sandbox/preview/_/${port}/login`),
+    );
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get("location")).toBe(
+      `/api/agent/sandbox/preview/_/${port}/home?x=1`,
+    );
+  });
+
+  it("adds the trailing slash to the port root", async () => {
+    const handler = createPreviewHandler([port]);
+
+    const response = await handler(
+      new Request(`http://localhost/api/agent/sandbox/preview/_/${port}`),
+    );
+
+    expect(response.status).toBe(308);
+    expect(response.headers.get("location")).toBe(
+      `http://localhost/api/agent/sandbox/preview/_/${port}/`,
+    );
+  });
+
+  it("returns 404 for ports that are not declared", async () => {
+    const handler = createPreviewHandler([]);
+
+    const response = await handler(
+      new Request(`http://localhost/api/agent/sandbox/preview/_/${port}/`),
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it("returns 404 for threads that do not exist", async () => {
+    const handler = createPreviewHandler([port], {
+      memory: () => inMemoryAdapter()({}) as MemoryAdapter,
+    });
+
+    const response = await handler(
+      new Request(
+        `http://localhost/api/agent/sandbox/preview/thr_missing/${port}/`,
+      ),
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it("runs the configured middleware", async () => {
+    const handler = createPreviewHandler([port], {
+      middleware: [
+        os.middleware(() => {
+          throw new ORPCError("UNAUTHORIZED", { message: "Sign in first" });
+        }),
+      ],
+    });
+
+    const response = await handler(
+      new Request(`http://localhost/api/agent/sandbox/preview/_/${port}/`),
+    );
+
+    expect(response.status).toBe(401);
+    await expect(response.text()).resolves.toBe("Sign in first");
+  });
+});
@@ -0,0 +1,176 @@
+/* agent-frontmatter:start
+AGENT: Tool approval tests
+PURPOSE: Validate approval policies and decision bookkeeping for tool calls
+USAGE: Run with vitest to exercise the human-in-the-loop helpers
+EXPORTS: none
+FEATURES:
+  - Covers always/never/predicate policies mapped onto needsApproval
+  - Verifies approval request data parts are injected into UI streams
+  - Confirms decisions are recorded only on matching pending parts
+SEARCHABLE: tool approval test, needsApproval test, approve reject test
+agent-frontmatter:end */
+
+import type { RuntimeContext } from "@agentstart/types";
+import type { ToolSet, UIMessage, UIMessageChunk } from "ai";
+import { describe, expect, it } from "vitest";
+import {
+  applyToolApprovalPolicies,
+  findPendingToolApproval,
+  hasPendingToolApprovals,
+  respondToToolApproval,
+  withToolApprovalRequests,
+} from "../approval";
+
+const tools = {
+  bash: { inputSchema: {} },
+  write: { inputSchema: {} },
+  read: { inputSchema: {} },
+} as unknown as ToolSet;
+
+function approvalMessage(): UIMessage {
+  return {
+    id: "msg_1",
+    role: "assistant",
+    parts: [
+      {
+        type: "tool-bash",
+        toolCallId: "call_1",
+        state: "approval-requested",
+        input: { command: "rm -rf build" },
+        approval: { id: "apr_1" },
+      },
+      {
+        type: "tool-write",
+        toolCallId: "call_2",
+        state: "approval-requested",
+        input: { filePath: "a.txt", content: "" },
+        approval: { id: "apr_2" },
+      },
+    ],
+  };
+}
+
+describe("applyToolApprovalPolicies", () => {
+  it("maps static policies and leaves other tools untouched", () => {
+    const result = applyToolApprovalPolicies(tools, {
+      write: "always",
+      read: "never",
+      missing: "always",
+    });
+
+    expect(result?.write?.needsApproval).toBe(true);
+    expect(result?.read?.needsApproval).toBe(false);
+    expect(result?.bash).toBe(tools.bash);
+    expect(result).not.toHaveProperty("missing");
+  });
+
+  it("evaluates predicates with the tool input and runtime context", async () => {
+    const result = applyToolApprovalPolicies(tools, {
+      bash: (input, context) =>
+        /\b(rm|curl)\b/.test((input as { command: string }).command) &&
+        context.userId === "user_1",
+    });
+    const needsApproval = result?.bash?.needsApproval;
+    if (typeof needsApproval !== "function") {
+      throw new Error("Expected predicate");
+    }
+
+    const options = {
+      toolCallId: "call_1",
+      messages: [],
+      experimental_context: {
+        threadId: "thr_1",
+        userId: "user_1",
+      } as RuntimeContext,
+    };
+
+    expect(await needsApproval({ command: "rm -rf /" }, options)).toBe(true);
+    expect(await needsApproval({ command: "ls" }, options)).toBe(false);
+  });
+});
+
+describe("withToolApprovalRequests", () => {
+  it("adds a data part after each approval request", async () => {
+    const source = new ReadableStream<UIMessageChunk>({
+      start(controller) {
+        controller.enqueue({
+          type: "tool-input-available",
+          toolCallId: "call_1",
+          toolName: "bash",
+          input: { command: "rm -rf build" },
+        });
+        controller.enqueue({
+          type: "tool-approval-request",
+          approvalId: "apr_1",
+          toolCallId: "call_1",
+        });
+        controller.close();
+      },
+    });
+
+    const chunks: UIMessageChunk[] = [];
+    const reader = withToolApprovalRequests(source, "thr_1").getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+
+    expect(chunks.map((chunk) => chunk.type)).toEqual([
+      "tool-input-available",
+      "tool-approval-request",
+      "data-agentstart-tool_approval_request",
+    ]);
+    expect(chunks[2]).toMatchObject({
+      data: {
+        threadId: "thr_1",
+        approvalId: "apr_1",
+        toolCallId: "call_1",
+        toolName: "bash",
+      },
+      transient: true,
+    });
+  });
+});
+
+describe("approval decisions", () => {
+  it("finds the message holding an approval request", () => {
+    const message = approvalMessage();
+    const messages: UIMessage[] = [
+      { id: "msg_0", role: "user", parts: [{ type: "text", text: "hi" }] },
+      message,
+    ];
+
+    expect(findPendingToolApproval(messages, "apr_2")).toBe(message);
+    expect(findPendingToolApproval(messages, "apr_x")).toBeUndefined();
+  });
+
+  it("records decisions one approval at a time", () => {
+    const first = respondToToolApproval(approvalMessage(), {
+      approvalId: "apr_1",
+      approved: false,
+      reason: "Too risky",
+    });
+
+    expect(first.parts[0]).toMatchObject({
+      state: "approval-responded",
+      approval: { id: "apr_1", approved: false, reason: "Too risky" },
+    });
+    expect(hasPendingToolApprovals(first)).toBe(true);
+
+    const second = respondToToolApproval(first, {
+      approvalId: "apr_2",
+      approved: true,
+    });
+    expect(hasPendingToolApprovals(second)).toBe(false);
+
+    // Already answered approvals keep their original decision
+    const repeated = respondToToolApproval(second, {
+      approvalId: "apr_1",
+      approved: true,
+    });
+    expect(repeated.parts[0]).toMatchObject({
+      approval: { approved: false },
+    });
+  });
+});
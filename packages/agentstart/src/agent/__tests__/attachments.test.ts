@@ -0,0 +1,117 @@
+/* agent-frontmatter:start
+AGENT: Message blob attachment tests
+PURPOSE: Verify messages are linked to their blobs and private URLs are re-signed
+USAGE: Run with vitest; persists messages to the in-memory adapter
+EXPORTS: none
+FEATURES:
+  - Records referenced blob pathnames as message attachments
+  - Replaces file URLs of private blobs with signed URLs on read
+  - Unlinks file parts that point at blobs of another user
+  - Leaves public blobs and untagged files untouched
+SEARCHABLE: message attachments test, blob link test, signed url test
+agent-frontmatter:end */
+
+import { inMemoryAdapter } from "@agentstart/memory/in-memory";
+import type { BlobAdapter, MemoryAdapter } from "@agentstart/types";
+import { describe, expect, it, vi } from "vitest";
+import {
+  type AgentStartUIMessage,
+  BLOB_METADATA_KEY,
+  loadThread,
+  signBlobUrls,
+  upsertMessage,
+} from "@/agent";
+
+const message: AgentStartUIMessage = {
+  id: "msg_1",
+  role: "user",
+  parts: [
+    { type: "text", text: "See attached" },
+    {
+      type: "file",
+      mediaType: "image/png",
+      filename: "chart.png",
+      url: "https://storage.example.com/expired",
+      providerMetadata: {
+        [BLOB_METADATA_KEY]: { pathname: "users/user_1/drafts/chart.png" },
+      },
+    },
+    {
+      type: "file",
+      mediaType: "text/plain",
+      url: "https://elsewhere.example.com/notes.txt",
+    },
+  ],
+};
+
+function createAdapter(access: "public" | "private") {
+  return {
+    getAccess: () => access,
+    getSignedUrl: vi.fn(async (pathname: string) => `signed:${pathname}`),
+  } as unknown as BlobAdapter;
+}
+
+describe("message blob attachments", () => {
+  it("links messages to the blobs they reference", async () => {
+    const memory = inMemoryAdapter()({}) as MemoryAdapter;
+
+    await upsertMessage({
+      memory,
+      payload: { id: message.id, threadId: "thr_1", message },
+    });
+
+    const [stored] = await loadThread<
+      AgentStartUIMessage & { attachments?: unknown }
+    >({ memory, threadId: "thr_1" });
+    expect(stored?.attachments).toEqual([
+      {
+        pathname: "users/user_1/drafts/chart.png",
+        filename: "chart.png",
+        mediaType: "image/png",
+      },
+    ]);
+  });
+
+  it("re-signs URLs of private blobs", async () => {
+    const adapter = createAdapter("private");
+
+    const [signed] = await signBlobUrls([message], adapter, "user_1");
+
+    expect(signed?.parts[1]).toMatchObject({
+      url: "signed:users/user_1/drafts/chart.png",
+    });
+    expect(signed?.parts[2]).toMatchObject({
+      url: "https://elsewhere.example.com/notes.txt",
+    });
+    expect(message.parts[1]).toMatchObject({
+      url: "https://storage.example.com/expired",
+    });
+  });
+
+  it("does not sign blobs outside the thread owner's uploads", async () => {
+    const adapter = createAdapter("private");
+
+    const [signed] = await signBlobUrls([message], adapter, "user_2");
+
+    expect(signed?.parts[1]).toEqual({
+      type: "file",
+      mediaType: "image/png",
+      filename: "chart.png",
+      url: "https://storage.example.com/expired",
+      providerMetadata: undefined,
+    });
+    expect(adapter.getSignedUrl).not.toHaveBeenCalled();
+  });
+
+  it("keeps URLs of public blobs", async () => {
+    const adapter = createAdapter("public");
+
+    await expect(signBlobUrls([message], adapter, "user_1")).resolves.toEqual([
+      message,
+    ]);
+    await expect(signBlobUrls([message], null, "user_1")).resolves.toEqual([
+      message,
+    ]);
+    expect(adapter.getSignedUrl).not.toHaveBeenCalled();
+  });
+});
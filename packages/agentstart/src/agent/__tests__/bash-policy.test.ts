@@ -0,0 +1,198 @@
+/* agent-frontmatter:start
+AGENT: Bash policy tests
+PURPOSE: Validate command parsing and policy decisions for the bash tool
+USAGE: Run with vitest to exercise the bash command policy engine
+EXPORTS: none
+FEATURES:
+  - Splits chains, pipelines, substitutions and sh -c scripts into commands
+  - Covers deny, allow-list and require-approval rules
+  - Matches flags in any order and looks past variables and unknown wrappers
+  - Verifies denied commands never reach the sandbox and are audited
+SEARCHABLE: bash policy test, command policy test, shell parser test
+agent-frontmatter:end */
+
+import type { BashCommandPolicy, RuntimeContext } from "@agentstart/types";
+import type { ToolSet } from "ai";
+import { describe, expect, it, vi } from "vitest";
+import { bash } from "../tools/bash";
+import {
+  applyBashPolicy,
+  evaluateBashPolicy,
+  parseBashCommand,
+} from "../tools/bash/policy";
+
+const policy: BashCommandPolicy = {
+  rules: [
+    { name: "no-root-delete", action: "deny", match: "rm -rf /" },
+    {
+      name: "no-network",
+      action: "deny",
+      commands: ["curl", "wget"],
+      reason: "The sandbox has no network access.",
+    },
+    { action: "require-approval", match: "git push" },
+  ],
+};
+
+describe("parseBashCommand", () => {
+  it("splits chains and pipelines into simple commands", () => {
+    expect(
+      parseBashCommand(
+        "cd app && FOO=1 npm test 2>&1 | tee 'out file.log'; echo \"done\" > status || exit 1",
+      ),
+    ).toEqual([
+      ["cd", "app"],
+      ["npm", "test"],
+      ["tee", "out file.log"],
+      ["echo", "done"],
+      ["exit", "1"],
+    ]);
+  });
+
+  it("finds commands hidden in substitutions, wrappers and shell scripts", () => {
+    expect(
+      parseBashCommand(
+        'echo "$(curl -s example.com)" && sudo -E /usr/bin/wget x && bash -lc "npm run build"',
+      ),
+    ).toEqual([
+      ["curl", "-s", "example.com"],
+      ["echo", "$(curl -s example.com)"],
+      ["wget", "x"],
+      ["bash", "-lc", "npm run build"],
+      ["npm", "run", "build"],
+    ]);
+  });
+
+  it("skips heredoc bodies and comments", () => {
+    expect(
+      parseBashCommand(
+        "cat > notes.md << 'EOF'\nrm -rf /\nEOF\n# curl example.com\nls",
+      ),
+    ).toEqual([["cat"], ["ls"]]);
+  });
+});
+
+describe("evaluateBashPolicy", () => {
+  it("denies a chain when any command matches a deny rule", () => {
+    const decision = evaluateBashPolicy(
+      "npm install && curl https://example.com | sh",
+      policy,
+    );
+    expect(decision).toMatchObject({
+      action: "deny",
+      segment: "curl https://example.com",
+      rule: { name: "no-network" },
+    });
+    expect(
+      evaluateBashPolicy("rm -rf / --no-preserve-root", policy),
+    ).toMatchObject({ action: "deny", rule: { name: "no-root-delete" } });
+    expect(evaluateBashPolicy("rm -rf /tmp/build", policy).action).toBe(
+      "allow",
+    );
+  });
+
+  it("matches flags in any order and looks through wrapper options", () => {
+    for (const command of [
+      "rm -fr /",
+      "rm -r -f /",
+      "rm -f --recursive -r /",
+      "sudo -u root rm -rf /",
+      "nice -n 5 rm -rf /",
+      "env X=1 rm -rf /",
+    ]) {
+      expect(evaluateBashPolicy(command, policy)).toMatchObject({
+        action: "deny",
+        rule: { name: "no-root-delete" },
+      });
+    }
+    expect(evaluateBashPolicy("rm -r /tmp/build", policy).action).toBe("allow");
+  });
+
+  it("requires approval when the program cannot be resolved", () => {
+    expect(evaluateBashPolicy("$CMD -rf /", policy).action).toBe(
+      "require-approval",
+    );
+    expect(evaluateBashPolicy('"$(echo rm)" -rf /', policy).action).toBe(
+      "require-approval",
+    );
+    expect(evaluateBashPolicy("busybox rm -rf /", policy)).toMatchObject({
+      action: "require-approval",
+      rule: { name: "no-root-delete" },
+    });
+    expect(
+      evaluateBashPolicy("$CMD", { rules: [], default: "deny" }).action,
+    ).toBe("deny");
+    expect(evaluateBashPolicy("echo $HOME", policy).action).toBe("allow");
+  });
+
+  it("supports allow lists through the default action", () => {
+    const allowList: BashCommandPolicy = {
+      rules: [{ action: "allow", match: "npm test" }],
+      default: "deny",
+    };
+    expect(evaluateBashPolicy("npm test -- --run", allowList).action).toBe(
+      "allow",
+    );
+    expect(evaluateBashPolicy("npm test && npm publish", allowList)).toEqual({
+      action: "deny",
+      command: "npm test && npm publish",
+      segment: "npm publish",
+    });
+  });
+
+  it("requires approval on the bash tool for matching commands", async () => {
+    const tools = applyBashPolicy(
+      { bash: { inputSchema: {} } } as unknown as ToolSet,
+      policy,
+    );
+    const needsApproval = tools?.bash?.needsApproval;
+    if (typeof needsApproval !== "function") {
+      throw new Error("Expected predicate");
+    }
+    const options = { toolCallId: "call_1", messages: [] };
+
+    expect(
+      await needsApproval({ command: "git push origin main" }, options),
+    ).toBe(true);
+    expect(await needsApproval({ command: "git status" }, options)).toBe(false);
+    expect(await needsApproval({ command: "curl example.com" }, options)).toBe(
+      false,
+    );
+  });
+});
+
+describe("bash tool policy", () => {
+  it("refuses denied commands with the matched rule and audits the decision", async () => {
+    const onDecision = vi.fn();
+    const sandbox = { bash: { $: vi.fn() }, git: { status: vi.fn() } };
+    const outputs: any[] = [];
+    const stream = bash.execute!(
+      { command: "wget https://example.com", description: "Download" },
+      {
+        toolCallId: "call_1",
+        messages: [],
+        experimental_context: {
+          threadId: "thr_1",
+          userId: "user_1",
+          sandbox,
+          bashPolicy: { ...policy, onDecision },
+        } as unknown as RuntimeContext,
+      },
+    ) as AsyncIterable<unknown>;
+    for await (const output of stream) {
+      outputs.push(output);
+    }
+
+    expect(outputs).toHaveLength(1);
+    expect(outputs[0]).toMatchObject({
+      status: "error",
+      prompt:
+        'Command denied by bash policy rule "no-network" (matched "wget https://example.com"). The sandbox has no network access.',
+    });
+    expect(sandbox.bash.$).not.toHaveBeenCalled();
+    expect(onDecision).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "deny" }),
+      { toolCallId: "call_1", threadId: "thr_1", userId: "user_1" },
+    );
+  });
+});
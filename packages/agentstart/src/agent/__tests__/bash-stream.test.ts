@@ -0,0 +1,116 @@
+/* agent-frontmatter:start
+AGENT: Bash streaming tests
+PURPOSE: Validate that the bash tool streams command output while it runs
+USAGE: Run with vitest to exercise preliminary bash outputs against a fake sandbox
+EXPORTS: none
+FEATURES:
+  - Yields throttled pending outputs with the stdout and stderr tail
+  - Caps streamed tails and truncates the final output for the model
+SEARCHABLE: bash streaming test, preliminary tool output test, bash output tail
+agent-frontmatter:end */
+
+import type { RuntimeContext, ShellCommandOptions } from "@agentstart/types";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { bash } from "../tools/bash";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function createContext(
+  run: (options: ShellCommandOptions) => Promise<{
+    stdout: string;
+    stderr: string;
+    exitCode: number;
+  }>,
+) {
+  return {
+    threadId: "thr_1",
+    sandbox: {
+      bash: {
+        $: (options: ShellCommandOptions) => () => run(options),
+      },
+      git: {
+        status: vi.fn(async () => {
+          throw new Error("not a git repository");
+        }),
+      },
+    },
+  } as unknown as RuntimeContext;
+}
+
+async function execute(context: RuntimeContext, advance: number) {
+  const outputs: any[] = [];
+  const stream = bash.execute!(
+    { command: "npm install", description: "Install" },
+    { toolCallId: "call_1", messages: [], experimental_context: context },
+  ) as AsyncIterable<unknown>;
+  const done = (async () => {
+    for await (const output of stream) {
+      outputs.push(output);
+    }
+  })();
+  await vi.advanceTimersByTimeAsync(advance);
+  await done;
+  return outputs;
+}
+
+describe("bash output streaming", () => {
+  it("yields the output tail while the command runs", async () => {
+    vi.useFakeTimers();
+    const context = createContext(async ({ onStdout, onStderr }) => {
+      onStdout?.("\u001b[32mresolving\u001b[0m\n");
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      onStderr?.("warn deprecated\n");
+      onStdout?.("added 12 packages\n");
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      return {
+        stdout: "\u001b[32mresolving\u001b[0m\nadded 12 packages\n",
+        stderr: "warn deprecated\n",
+        exitCode: 0,
+      };
+    });
+
+    const outputs = await execute(context, 1000);
+
+    expect(outputs.map((output) => output.status)).toEqual([
+      "pending",
+      "pending",
+      "pending",
+      "done",
+    ]);
+    expect(outputs[1].metadata).toEqual({
+      description: "Install",
+      stdout: "\u001b[32mresolving\u001b[0m\n",
+      stderr: "",
+    });
+    expect(outputs[2].metadata).toMatchObject({
+      stdout: "\u001b[32mresolving\u001b[0m\nadded 12 packages\n",
+      stderr: "warn deprecated\n",
+    });
+    expect(outputs[3].metadata.exitCode).toBe(0);
+  });
+
+  it("keeps a rolling tail and truncates the final output for the model", async () => {
+    vi.useFakeTimers();
+    const line = `${"x".repeat(99)}\n`;
+    const context = createContext(async ({ onStdout }) => {
+      for (let i = 0; i < 400; i++) {
+        onStdout?.(line);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      return { stdout: line.repeat(400), stderr: "", exitCode: 0 };
+    });
+
+    const outputs = await execute(context, 1000);
+    const streamed = outputs[1].metadata.stdout as string;
+    const final = outputs.at(-1);
+
+    expect(streamed.length).toBeLessThanOrEqual(10000);
+    expect(streamed.startsWith("x")).toBe(true);
+    expect(final.prompt.length).toBeLessThan(30100);
+    expect(final.prompt).toContain(
+      "(Output was truncated due to length limit)",
+    );
+  });
+});
@@ -0,0 +1,160 @@
+/* agent-frontmatter:start
+AGENT: Context compaction tests
+PURPOSE: Validate compaction strategies for long thread histories
+USAGE: Run with vitest to exercise the compaction helpers
+EXPORTS: none
+FEATURES:
+  - Skips compaction below the threshold or without a known context window
+  - Covers summarize, drop-tool-outputs and truncate strategies
+  - Reapplies stored compactions on later runs
+SEARCHABLE: compaction test, context window test, summarize thread test
+agent-frontmatter:end */
+
+import type { UIMessage } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+import { describe, expect, it } from "vitest";
+import {
+  applyCompaction,
+  compactMessages,
+  estimateTokens,
+} from "../compaction";
+
+function createThread(turns: number): UIMessage[] {
+  return Array.from({ length: turns }, (_, index) => [
+    {
+      id: `user_${index}`,
+      role: "user" as const,
+      parts: [{ type: "text" as const, text: `Question ${index}` }],
+    },
+    {
+      id: `assistant_${index}`,
+      role: "assistant" as const,
+      parts: [
+        {
+          type: "tool-read" as const,
+          toolCallId: `call_${index}`,
+          state: "output-available" as const,
+          input: { filePath: `file_${index}.ts` },
+          output: { status: "done", prompt: "x".repeat(400) },
+        },
+        { type: "text" as const, text: `Answer ${index}` },
+      ],
+    },
+  ]).flat();
+}
+
+function createSummaryModel(text: string) {
+  return new MockLanguageModelV3({
+    doGenerate: async () => ({
+      content: [{ type: "text", text }],
+      finishReason: "stop",
+      usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+      warnings: [],
+    }),
+  });
+}
+
+describe("compactMessages", () => {
+  it("leaves messages alone below the threshold or without a window", async () => {
+    const messages = createThread(2);
+    const model = createSummaryModel("unused");
+
+    const unknownWindow = await compactMessages({
+      messages,
+      options: { strategy: "truncate" },
+      model,
+    });
+    const belowThreshold = await compactMessages({
+      messages,
+      options: { strategy: "truncate" },
+      model,
+      maxTokens: 1_000_000,
+    });
+
+    expect(unknownWindow).toEqual({ messages });
+    expect(belowThreshold).toEqual({ messages });
+  });
+
+  it("summarizes older turns and keeps recent messages verbatim", async () => {
+    const messages = createThread(6);
+    const result = await compactMessages({
+      messages,
+      options: { strategy: "summarize", keepRecentMessages: 2 },
+      model: createSummaryModel("The user asked six questions."),
+      maxTokens: 1000,
+    });
+
+    expect(result.compaction).toMatchObject({
+      strategy: "summarize",
+      upToMessageId: "assistant_4",
+      summary: "The user asked six questions.",
+    });
+    expect(result.messages.map((message) => message.id)).toEqual([
+      "compaction-assistant_4",
+      "user_5",
+      "assistant_5",
+    ]);
+    expect(result.messages[0]?.role).toBe("system");
+    expect(result.compaction!.tokensAfter).toBeLessThan(
+      result.compaction!.tokensBefore,
+    );
+  });
+
+  it("drops stale tool outputs but keeps every message", async () => {
+    const messages = createThread(6);
+    const result = await compactMessages({
+      messages,
+      options: { strategy: "drop-tool-outputs", keepRecentMessages: 2 },
+      model: createSummaryModel("unused"),
+      maxTokens: 1000,
+    });
+
+    expect(result.messages).toHaveLength(messages.length);
+    expect(result.messages[1]?.parts[0]).toMatchObject({
+      output: { status: "done", prompt: expect.stringContaining("removed") },
+    });
+    expect(result.messages.at(-1)).toBe(messages.at(-1));
+  });
+
+  it("truncates the oldest turns to fit the token budget", async () => {
+    const messages = createThread(6);
+    const maxTokens = 1000;
+    const result = await compactMessages({
+      messages,
+      options: { strategy: "truncate", threshold: 0.5 },
+      model: createSummaryModel("unused"),
+      maxTokens,
+    });
+
+    expect(result.compaction?.strategy).toBe("truncate");
+    expect(estimateTokens(result.messages)).toBeLessThanOrEqual(maxTokens / 4);
+    expect(result.messages.at(-1)?.id).toBe("assistant_5");
+  });
+
+  it("reapplies a stored compaction to later messages", async () => {
+    const messages = createThread(3);
+    const view = applyCompaction(messages, {
+      strategy: "truncate",
+      upToMessageId: "assistant_0",
+      tokensBefore: 100,
+      tokensAfter: 50,
+      createdAt: new Date().toISOString(),
+    });
+
+    expect(view.map((message) => message.id)).toEqual([
+      "user_1",
+      "assistant_1",
+      "user_2",
+      "assistant_2",
+    ]);
+    expect(
+      applyCompaction(messages, {
+        strategy: "truncate",
+        upToMessageId: "deleted",
+        tokensBefore: 100,
+        tokensAfter: 50,
+        createdAt: new Date().toISOString(),
+      }),
+    ).toBe(messages);
+  });
+});
@@ -0,0 +1,80 @@
+/* agent-frontmatter:start
+AGENT: MCP server test fixture
+PURPOSE: Minimal stdio MCP server used by the MCP client tests
+USAGE: node mcp-server.mjs (spawned by the tests through StdioClientTransport)
+EXPORTS: none
+FEATURES:
+  - echo, fail, pid and crash tools
+  - enable_extra adds a tool and sends a list_changed notification
+SEARCHABLE: mcp fixture, stdio mcp server, mcp test server
+agent-frontmatter:end */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+
+const emptySchema = { type: "object", properties: {} };
+let extraEnabled = false;
+
+const server = new Server(
+  { name: "fixture", version: "1.0.0" },
+  { capabilities: { tools: { listChanged: true } } },
+);
+
+server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  tools: [
+    {
+      name: "echo",
+      description: "Echo the given text",
+      inputSchema: {
+        type: "object",
+        properties: { text: { type: "string" } },
+        required: ["text"],
+      },
+    },
+    { name: "fail", description: "Always fails", inputSchema: emptySchema },
+    {
+      name: "pid",
+      description: "Report the process id",
+      inputSchema: emptySchema,
+    },
+    { name: "crash", description: "Exit the server", inputSchema: emptySchema },
+    {
+      name: "enable_extra",
+      description: "Add the extra tool",
+      inputSchema: emptySchema,
+    },
+    ...(extraEnabled
+      ? [{ name: "extra", description: "Extra tool", inputSchema: emptySchema }]
+      : []),
+  ],
+}));
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  /** @param {string} value */
+  const text = (value) => ({ content: [{ type: "text", text: value }] });
+
+  switch (request.params.name) {
+    case "echo":
+      return text(`echo: ${request.params.arguments?.text}`);
+    case "fail":
+      return { ...text("something went wrong"), isError: true };
+    case "pid":
+      return text(String(process.pid));
+    case "crash":
+      process.exit(1);
+      break;
+    case "enable_extra":
+      extraEnabled = true;
+      await server.sendToolListChanged();
+      return text("enabled");
+    case "extra":
+      return text("extra");
+  }
+  throw new Error(`Unknown tool ${request.params.name}`);
+});
+
+await server.connect(new StdioServerTransport());
@@ -0,0 +1,195 @@
+/* agent-frontmatter:start
+AGENT: MCP client tests
+PURPOSE: Validate MCP tool discovery, calls, restarts and list changes
+USAGE: Run with vitest; spawns a local stdio MCP server fixture
+EXPORTS: none
+FEATURES:
+  - Discovers and namespaces tools from a stdio server
+  - Maps tool results and MCP errors to tool outputs
+  - Refreshes tools on list_changed notifications
+  - Restarts servers that exit
+  - Validates imported tool parts against the agent and MCP tools
+SEARCHABLE: mcp client test, mcp tools test, model context protocol test
+agent-frontmatter:end */
+
+import { fileURLToPath } from "node:url";
+import { inMemoryAdapter } from "@agentstart/memory/in-memory";
+import type {
+  AgentStartOptions,
+  MCPServerConfig,
+  MemoryAdapter,
+} from "@agentstart/types";
+import type { Tool, ToolSet } from "ai";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  closeMCPServers,
+  getMCPTools,
+  type MCPToolOutput,
+  toMCPToolName,
+} from "../mcp";
+import { createThreadBundle, importThreads } from "../persistence/transfer";
+
+const fixture = fileURLToPath(
+  new URL("./fixtures/mcp-server.mjs", import.meta.url),
+);
+
+let servers: MCPServerConfig[] = [];
+
+function createServers(): MCPServerConfig[] {
+  servers = [
+    {
+      name: "fixture",
+      command: process.execPath,
+      args: [fixture],
+      restart: { maxRetries: 2, delayMs: 10 },
+    },
+  ];
+  return servers;
+}
+
+async function callTool(tools: ToolSet, name: string, input: unknown = {}) {
+  const tool = tools[toMCPToolName("fixture", name)] as Tool<
+    unknown,
+    MCPToolOutput
+  >;
+  return (await tool.execute!(input, {
+    toolCallId: "call_1",
+    messages: [],
+  })) as MCPToolOutput;
+}
+
+async function waitFor(check: () => Promise<boolean>, timeout = 5000) {
+  const startedAt = Date.now();
+  while (!(await check())) {
+    if (Date.now() - startedAt > timeout) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 25));
+  }
+}
+
+afterEach(async () => {
+  await closeMCPServers(servers);
+});
+
+describe("MCP client", () => {
+  it("discovers namespaced tools and calls them", async () => {
+    const tools = await getMCPTools(createServers());
+
+    expect(Object.keys(tools)).toEqual([
+      "mcp__fixture__echo",
+      "mcp__fixture__fail",
+      "mcp__fixture__pid",
+      "mcp__fixture__crash",
+      "mcp__fixture__enable_extra",
+    ]);
+    expect(tools.mcp__fixture__echo?.description).toBe("Echo the given text");
+    await expect(callTool(tools, "echo", { text: "hi" })).resolves.toEqual({
+      status: "done",
+      prompt: "echo: hi",
+      metadata: {
+        server: "fixture",
+        tool: "echo",
+        content: [{ type: "text", text: "echo: hi" }],
+      },
+    });
+    await expect(callTool(tools, "fail")).resolves.toMatchObject({
+      status: "error",
+      error: { message: "something went wrong" },
+    });
+  });
+
+  it("reuses the connection and honors includeTools", async () => {
+    const [config] = createServers();
+    config!.includeTools = ["echo"];
+    const tools = await getMCPTools(servers);
+    const echo = (await callTool(await getMCPTools(servers), "echo", {
+      text: "again",
+    })) as MCPToolOutput;
+
+    expect(Object.keys(tools)).toEqual(["mcp__fixture__echo"]);
+    expect(echo.prompt).toBe("echo: again");
+  });
+
+  it("refreshes tools when the server reports a list change", async () => {
+    const tools = await getMCPTools(createServers());
+    await callTool(tools, "enable_extra");
+
+    await waitFor(async () =>
+      Boolean((await getMCPTools(servers)).mcp__fixture__extra),
+    );
+    const refreshed = await getMCPTools(servers);
+    await expect(callTool(refreshed, "extra")).resolves.toMatchObject({
+      status: "done",
+      prompt: "extra",
+    });
+  });
+
+  it("restarts servers that exit", async () => {
+    const tools = await getMCPTools(createServers());
+    const before = await callTool(tools, "pid");
+
+    await expect(callTool(tools, "crash")).resolves.toMatchObject({
+      status: "error",
+    });
+    let after: MCPToolOutput | undefined;
+    await waitFor(async () => {
+      after = await callTool(tools, "pid");
+      return after.status === "done";
+    });
+
+    expect(after?.prompt).not.toBe(before.prompt);
+  });
+
+  it("skips servers that fail to start", async () => {
+    const tools = await getMCPTools([
+      { name: "missing", command: "agentstart-missing-mcp-server" },
+    ]);
+
+    expect(tools).toEqual({});
+  });
+
+  it("validates imported tool parts against the MCP tools", async () => {
+    const source = inMemoryAdapter()({}) as MemoryAdapter;
+    const now = new Date();
+    const bundle = await createThreadBundle({
+      memory: source,
+      thread: {
+        id: "thr_1",
+        title: "MCP",
+        userId: "user_1",
+        visibility: "private",
+        createdAt: now,
+        updatedAt: now,
+      } as never,
+    });
+    bundle.messages = [
+      {
+        id: "msg_1",
+        parentId: null,
+        role: "assistant",
+        parts: [
+          {
+            type: "tool-mcp__fixture__echo",
+            toolCallId: "call_1",
+            state: "input-available",
+            input: { text: "hi" },
+          },
+        ],
+        createdAt: now,
+        updatedAt: now,
+      },
+    ];
+    const options = {
+      memory: () => inMemoryAdapter()({}) as MemoryAdapter,
+      agent: { tools: {} },
+    } as unknown as AgentStartOptions;
+
+    await expect(importThreads(options, [bundle])).rejects.toThrow(
+      "No tool schema found for tool part mcp__fixture__echo",
+    );
+    await expect(
+      importThreads({ ...options, mcpServers: createServers() }, [bundle]),
+    ).resolves.toEqual({ imported: 1, skipped: [] });
+  });
+});
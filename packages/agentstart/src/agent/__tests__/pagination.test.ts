@@ -0,0 +1,270 @@
+/* agent-frontmatter:start
+AGENT: Cursor pagination tests
+PURPOSE: Verify thread and message pages are stable across shared timestamps
+USAGE: Run with vitest; stores records in the in-memory adapter
+EXPORTS: none
+FEATURES:
+  - Walks every record exactly once in (createdAt, id) order
+  - Keeps records sharing a timestamp together across page boundaries
+  - Pages a message branch backwards from the newest message
+  - Loads windows of a long thread instead of its whole history
+  - Pages a requested branch and threads stored without parent ids
+SEARCHABLE: cursor pagination test, keyset pagination test, message history paging
+agent-frontmatter:end */
+
+import { inMemoryAdapter } from "@agentstart/memory/in-memory";
+import type { MemoryAdapter } from "@agentstart/types";
+import { describe, expect, it, vi } from "vitest";
+import { loadThreadPage } from "@/agent";
+import {
+  decodeCursor,
+  encodeCursor,
+  findPageBefore,
+} from "@/agent/persistence/pagination";
+import type { DBThread } from "@/memory";
+
+async function createThreads(memory: MemoryAdapter, times: number[]) {
+  for (const [index, time] of times.entries()) {
+    await memory.create({
+      model: "thread",
+      data: {
+        id: `thr_${String(index).padStart(2, "0")}`,
+        title: `Thread ${index}`,
+        userId: "user_1",
+        visibility: "private",
+        createdAt: new Date(time),
+        updatedAt: new Date(time),
+      },
+    });
+  }
+}
+
+async function createMessages(
+  memory: MemoryAdapter,
+  messages: Array<{ id: string; parentId?: string | null; time: number }>,
+) {
+  for (const [index, message] of messages.entries()) {
+    await memory.create({
+      model: "message",
+      data: {
+        id: message.id,
+        threadId: "thr_1",
+        ...(message.parentId !== undefined
+          ? { parentId: message.parentId }
+          : {}),
+        role: index % 2 === 0 ? "user" : "assistant",
+        parts: JSON.stringify([{ type: "text", text: message.id }]),
+        createdAt: new Date(message.time),
+        updatedAt: new Date(message.time),
+      },
+    });
+  }
+}
+
+async function collectPages(memory: MemoryAdapter, limit: number) {
+  const ids: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await findPageBefore<DBThread>({
+      memory,
+      model: "thread",
+      cursor,
+      limit,
+    });
+    ids.push(...page.records.map((record) => record.id));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return ids;
+}
+
+describe("cursor pagination", () => {
+  it("round-trips cursors", () => {
+    const cursor = encodeCursor({
+      id: "thr.with.dots",
+      createdAt: new Date(1_700_000_000_000),
+    });
+    expect(decodeCursor(cursor)).toEqual({
+      id: "thr.with.dots",
+      createdAt: new Date(1_700_000_000_000),
+    });
+    expect(() => decodeCursor("nope")).toThrow("Invalid pagination cursor");
+  });
+
+  it("returns every thread once, newest first", async () => {
+    const memory = inMemoryAdapter()({}) as MemoryAdapter;
+    await createThreads(memory, [1000, 2000, 3000, 4000, 5000]);
+
+    await expect(collectPages(memory, 2)).resolves.toEqual([
+      "thr_04",
+      "thr_03",
+      "thr_02",
+      "thr_01",
+      "thr_00",
+    ]);
+  });
+
+  it("orders threads sharing a timestamp by id across pages", async () => {
+    const memory = inMemoryAdapter()({}) as MemoryAdapter;
+    await createThreads(memory, [1000, 2000, 2000, 2000, 2000, 3000]);
+
+    for (const limit of [1, 2, 3, 4]) {
+      await expect(collectPages(memory, limit)).resolves.toEqual([
+        "thr_05",
+        "thr_04",
+        "thr_03",
+        "thr_02",
+        "thr_01",
+        "thr_00",
+      ]);
+    }
+  });
+
+  it("pages a branch backwards from the newest message", async () => {
+    const memory = inMemoryAdapter()({}) as MemoryAdapter;
+    for (let index = 0; index < 5; index++) {
+      await memory.create({
+        model: "message",
+        data: {
+          id: `msg_${index}`,
+          threadId: "thr_1",
+          parentId: index > 0 ? `msg_${index - 1}` : null,
+          role: index % 2 === 0 ? "user" : "assistant",
+          parts: JSON.stringify([{ type: "text", text: `Message ${index}` }]),
+          createdAt: new Date(1000 + index),
+          updatedAt: new Date(1000 + index),
+        },
+      });
+    }
+
+    const latest = await loadThreadPage({
+      memory,
+      threadId: "thr_1",
+      limit: 2,
+    });
+    expect(latest.messages.map((message) => message.id)).toEqual([
+      "msg_3",
+      "msg_4",
+    ]);
+
+    const older = await loadThreadPage({
+      memory,
+      threadId: "thr_1",
+      limit: 2,
+      before: latest.previousCursor ?? undefined,
+    });
+    expect(older.messages.map((message) => message.id)).toEqual([
+      "msg_1",
+      "msg_2",
+    ]);
+
+    const oldest = await loadThreadPage({
+      memory,
+      threadId: "thr_1",
+      limit: 2,
+      before: older.previousCursor ?? undefined,
+    });
+    expect(oldest).toMatchObject({ previousCursor: null });
+    expect(oldest.messages.map((message) => message.id)).toEqual(["msg_0"]);
+  });
+
+  it("loads windows of a long thread instead of its whole history", async () => {
+    const memory = inMemoryAdapter()({}) as MemoryAdapter;
+    await createMessages(
+      memory,
+      Array.from({ length: 300 }, (_, index) => ({
+        id: `msg_${String(index).padStart(3, "0")}`,
+        parentId:
+          index > 0 ? `msg_${String(index - 1).padStart(3, "0")}` : null,
+        time: 1000 + index,
+      })),
+    );
+    const findMany = vi.spyOn(memory, "findMany");
+
+    const latest = await loadThreadPage({
+      memory,
+      threadId: "thr_1",
+      limit: 3,
+    });
+    const older = await loadThreadPage({
+      memory,
+      threadId: "thr_1",
+      limit: 3,
+      before: latest.previousCursor ?? undefined,
+    });
+
+    expect(latest.messages.map((message) => message.id)).toEqual([
+      "msg_297",
+      "msg_298",
+      "msg_299",
+    ]);
+    expect(older.messages.map((message) => message.id)).toEqual([
+      "msg_294",
+      "msg_295",
+      "msg_296",
+    ]);
+    const loaded = await Promise.all(
+      findMany.mock.results.map((result) => result.value as Promise<unknown[]>),
+    );
+    expect(loaded.flat().length).toBeLessThan(150);
+  });
+
+  it("pages the branch of a message whose reply shares its timestamp", async () => {
+    const memory = inMemoryAdapter()({}) as MemoryAdapter;
+    await createMessages(memory, [
+      { id: "msg_0", parentId: null, time: 1000 },
+      { id: "msg_1", parentId: "msg_0", time: 2000 },
+      { id: "msg_2", parentId: "msg_1", time: 2000 },
+      { id: "msg_edit", parentId: "msg_0", time: 3000 },
+      { id: "msg_edit_reply", parentId: "msg_edit", time: 4000 },
+    ]);
+
+    const branch = await loadThreadPage({
+      memory,
+      threadId: "thr_1",
+      messageId: "msg_1",
+      limit: 2,
+    });
+    const rest = await loadThreadPage({
+      memory,
+      threadId: "thr_1",
+      messageId: "msg_1",
+      limit: 2,
+      before: branch.previousCursor ?? undefined,
+    });
+
+    expect(branch.messages.map((message) => message.id)).toEqual([
+      "msg_1",
+      "msg_2",
+    ]);
+    expect(rest).toMatchObject({ previousCursor: null });
+    expect(rest.messages.map((message) => message.id)).toEqual(["msg_0"]);
+  });
+
+  it("pages threads stored without parent ids", async () => {
+    const memory = inMemoryAdapter()({}) as MemoryAdapter;
+    await createMessages(
+      memory,
+      [0, 1, 2, 3].map((index) => ({ id: `msg_${index}`, time: 1000 + index })),
+    );
+
+    const latest = await loadThreadPage({
+      memory,
+      threadId: "thr_1",
+      limit: 3,
+    });
+    const older = await loadThreadPage({
+      memory,
+      threadId: "thr_1",
+      limit: 3,
+      before: latest.previousCursor ?? undefined,
+    });
+
+    expect(latest.messages.map((message) => message.id)).toEqual([
+      "msg_1",
+      "msg_2",
+      "msg_3",
+    ]);
+    expect(older).toMatchObject({ previousCursor: null });
+    expect(older.messages.map((message) => message.id)).toEqual(["msg_0"]);
+  });
+});
@@ -0,0 +1,162 @@
+/* agent-frontmatter:start
+AGENT: Background process tool tests
+PURPOSE: Validate background bash commands and the process-list, process-logs and process-kill tools
+USAGE: Run with vitest to exercise the process tools against a fake sandbox
+EXPORTS: none
+FEATURES:
+  - Starts background commands through bash.spawn and returns the handle ID
+  - Lists handles and tails their output
+  - Escalates to SIGKILL when a process ignores SIGTERM
+SEARCHABLE: process tools test, background bash test, process kill test
+agent-frontmatter:end */
+
+import type { RuntimeContext, ShellCommandHandle } from "@agentstart/types";
+import { describe, expect, it, vi } from "vitest";
+import { bash } from "../tools/bash";
+import { processKill } from "../tools/process-kill";
+import { processList } from "../tools/process-list";
+import { processLogs } from "../tools/process-logs";
+
+function createHandle(overrides: { ignoreTerm?: boolean } = {}) {
+  let exitCode: number | undefined;
+  let resolveExit: () => void = () => {};
+  const exited = new Promise<void>((resolve) => {
+    resolveExit = resolve;
+  });
+  const handle = {
+    id: "proc_1",
+    pid: 42,
+    command: "npm run dev",
+    startedAt: 1_767_225_600_000,
+    stdout: "line 1\nline 2\nready on 3000\n",
+    stderr: "",
+    get exitCode() {
+      return exitCode;
+    },
+    wait: async () => {
+      await exited;
+      return { stdout: handle.stdout, stderr: handle.stderr, exitCode };
+    },
+    kill: vi.fn((signal?: string) => {
+      if (overrides.ignoreTerm && signal !== "SIGKILL") {
+        return true;
+      }
+      exitCode = 143;
+      resolveExit();
+      return true;
+    }),
+  };
+  return handle as unknown as ShellCommandHandle & {
+    kill: ReturnType<typeof vi.fn>;
+  };
+}
+
+async function collect(stream: unknown) {
+  const outputs: any[] = [];
+  for await (const output of stream as AsyncIterable<unknown>) {
+    outputs.push(output);
+  }
+  return outputs;
+}
+
+function createContext(handle: ShellCommandHandle) {
+  return {
+    threadId: "thr_1",
+    sandbox: {
+      bash: {
+        $: vi.fn(),
+        spawn: vi.fn(async () => handle),
+        listProcesses: () => [handle],
+        getProcess: (id: string) => (id === handle.id ? handle : undefined),
+      },
+      git: { status: vi.fn() },
+    },
+  } as unknown as RuntimeContext;
+}
+
+describe("background processes", () => {
+  it("starts background commands and returns the handle ID", async () => {
+    vi.useFakeTimers();
+    const handle = createHandle();
+    const context = createContext(handle);
+
+    const pending = collect(
+      bash.execute!(
+        { command: "npm run dev", description: "Start dev", background: true },
+        { toolCallId: "call_1", messages: [], experimental_context: context },
+      ),
+    );
+    await vi.advanceTimersByTimeAsync(3000);
+    const outputs = await pending;
+    vi.useRealTimers();
+
+    expect(context.sandbox?.bash.spawn).toHaveBeenCalledWith("npm run dev", {});
+    expect(context.sandbox?.bash.$).not.toHaveBeenCalled();
+    expect(outputs.at(-1)).toMatchObject({
+      status: "done",
+      metadata: { processId: "proc_1", exitCode: undefined },
+    });
+    expect(outputs.at(-1).prompt).toContain("Started background process");
+    expect(outputs.at(-1).prompt).toContain("ready on 3000");
+  });
+
+  it("lists processes and tails their logs", async () => {
+    const context = createContext(createHandle());
+    const options = {
+      toolCallId: "call_1",
+      messages: [],
+      experimental_context: context,
+    };
+
+    const [list] = await collect(processList.execute!({}, options));
+    expect(list.metadata.processes).toEqual([
+      {
+        id: "proc_1",
+        pid: 42,
+        command: "npm run dev",
+        startedAt: 1_767_225_600_000,
+        running: true,
+        exitCode: undefined,
+      },
+    ]);
+
+    const [logs] = await collect(
+      processLogs.execute!({ processId: "proc_1", tail: 1 }, options),
+    );
+    expect(logs.metadata).toMatchObject({
+      running: true,
+      stdout: "ready on 3000",
+    });
+
+    const [missing] = await collect(
+      processLogs.execute!({ processId: "proc_2" }, options),
+    );
+    expect(missing.status).toBe("error");
+  });
+
+  it("escalates to SIGKILL when the process ignores SIGTERM", async () => {
+    vi.useFakeTimers();
+    const handle = createHandle({ ignoreTerm: true });
+
+    const pending = collect(
+      processKill.execute!(
+        { processId: "proc_1" },
+        {
+          toolCallId: "call_1",
+          messages: [],
+          experimental_context: createContext(handle),
+        },
+      ),
+    );
+    await vi.advanceTimersByTimeAsync(5000);
+    const [output] = await pending;
+    vi.useRealTimers();
+
+    expect(handle.kill).toHaveBeenNthCalledWith(1);
+    expect(handle.kill).toHaveBeenNthCalledWith(2, "SIGKILL");
+    expect(output).toMatchObject({
+      status: "done",
+      metadata: { processId: "proc_1", exitCode: 143 },
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/* agent-frontmatter:start
+AGENT: Read tool tests
+PURPOSE: Validate image and PDF handling of the read tool
+USAGE: Run with vitest to exercise the read tool against a fake sandbox
+EXPORTS: none
+FEATURES:
+  - Returns images as image content for vision models
+  - Downscales oversized images through the sandbox
+  - Extracts PDF page ranges as text and rejects invalid ranges
+SEARCHABLE: read tool test, image read test, pdf read test
+agent-frontmatter:end */
+
+import type { RuntimeContext, SandboxAPI } from "@agentstart/types";
+import type { Tool } from "ai";
+import { describe, expect, it } from "vitest";
+import { read } from "../tools/read";
+import { getImageSize } from "../tools/read/image";
+
+function png(width: number, height: number, padding = 0) {
+  const buffer = Buffer.alloc(24 + padding);
+  buffer.writeUInt32BE(0x89504e47, 0);
+  buffer.writeUInt32BE(0x0d0a1a0a, 4);
+  buffer.writeUInt32BE(13, 8);
+  buffer.write("IHDR", 12, "ascii");
+  buffer.writeUInt32BE(width, 16);
+  buffer.writeUInt32BE(height, 20);
+  return buffer;
+}
+
+function createSandbox(
+  files: Record<string, Buffer | string>,
+  run: (command: string) => { exitCode: number; stdout: string },
+) {
+  const commands: string[] = [];
+  const sandbox = {
+    fs: {
+      stat: async (path: string) => {
+        if (!(path in files)) {
+          throw new Error("ENOENT");
+        }
+        return { isFile: () => true, isDirectory: () => false };
+      },
+      readdir: async () => [],
+      readFile: async (path: string) => files[path],
+    },
+    bash: {
+      $: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+        const command = String.raw({ raw: strings }, ...values);
+        commands.push(command);
+        return { stderr: "", ...run(command) };
+      },
+    },
+    git: {},
+  } as unknown as SandboxAPI;
+  return { sandbox, commands };
+}
+
+async function runRead(
+  input: { filePath: string; pages?: string },
+  sandbox: SandboxAPI,
+) {
+  const outputs: any[] = [];
+  const tool = read as Tool<typeof input, any>;
+  const stream = tool.execute!(input, {
+    toolCallId: "call_1",
+    messages: [],
+    experimental_context: { sandbox } as unknown as RuntimeContext,
+  }) as AsyncIterable<unknown>;
+  for await (const output of stream) {
+    outputs.push(output);
+  }
+  return outputs.at(-1);
+}
+
+describe("read tool", () => {
+  it("returns images as image content", async () => {
+    const image = png(640, 480);
+    const { sandbox, commands } = createSandbox(
+      { "/workspace/shot.png": image },
+      () => ({ exitCode: 1, stdout: "" }),
+    );
+
+    const output = await runRead({ filePath: "/workspace/shot.png" }, sandbox);
+
+    expect(commands).toEqual([]);
+    expect(output.prompt).toBe(
+      "Image file: /workspace/shot.png (image/png, 640x480)",
+    );
+    expect(output.metadata.image).toMatchObject({
+      mediaType: "image/png",
+      data: image.toString("base64"),
+      resized: false,
+    });
+    expect(read.toModelOutput?.(output)).toEqual({
+      type: "content",
+      value: [
+        { type: "text", text: output.prompt },
+        {
+          type: "image-data",
+          data: image.toString("base64"),
+          mediaType: "image/png",
+        },
+      ],
+    });
+  });
+
+  it("downscales oversized images in the sandbox", async () => {
+    const downscaled = png(1568, 1045);
+    const { sandbox, commands } = createSandbox(
+      { "/workspace/big.png": png(3000, 2000) },
+      () => ({ exitCode: 0, stdout: downscaled.toString("base64") }),
+    );
+
+    const output = await runRead({ filePath: "/workspace/big.png" }, sandbox);
+
+    expect(commands[0]).toContain("'/workspace/big.png[0]'");
+    expect(commands[0]).toContain("-resize '1568x1568>'");
+    expect(output.prompt).toBe(
+      "Image file: /workspace/big.png (image/png, 1568x1045, downscaled from 3000x2000)",
+    );
+    expect(output.metadata.image).toMatchObject({
+      width: 1568,
+      height: 1045,
+      originalSize: { width: 3000, height: 2000 },
+      resized: true,
+    });
+  });
+
+  it("rejects images over the byte limit without ImageMagick", async () => {
+    const { sandbox } = createSandbox(
+      { "/workspace/huge.png": png(100, 100, 6 * 1024 * 1024) },
+      () => ({ exitCode: 127, stdout: "" }),
+    );
+
+    const output = await runRead({ filePath: "/workspace/huge.png" }, sandbox);
+
+    expect(output.status).toBe("error");
+    expect(output.prompt).toContain("Image is too large");
+  });
+
+  it("extracts text from a PDF page range", async () => {
+    const { sandbox, commands } = createSandbox(
+      { "/workspace/spec.pdf": Buffer.from("%PDF-1.7") },
+      (command) =>
+        command.startsWith("pdfinfo")
+          ? { exitCode: 0, stdout: "Title: Spec\nPages:          5\n" }
+          : { exitCode: 0, stdout: "First page\fSecond page\f" },
+    );
+
+    const output = await runRead(
+      { filePath: "/workspace/spec.pdf", pages: "2-3" },
+      sandbox,
+    );
+
+    expect(commands[1]).toBe(
+      "pdftotext -layout -f 2 -l 3 '/workspace/spec.pdf' -",
+    );
+    expect(output.prompt).toBe(
+      '<file>\n<page number="2">\nFirst page\n</page>\n<page number="3">\nSecond page\n</page>\n\n(PDF has 5 pages. Use \'pages\' parameter to read beyond page 3)\n</file>',
+    );
+    expect(output.metadata.pdf).toEqual({ first: 2, last: 3, totalPages: 5 });
+  });
+
+  it("rejects invalid PDF page ranges", async () => {
+    const { sandbox } = createSandbox(
+      { "/workspace/spec.pdf": Buffer.from("%PDF-1.7") },
+      () => ({ exitCode: 0, stdout: "" }),
+    );
+
+    const output = await runRead(
+      { filePath: "/workspace/spec.pdf", pages: "5-2" },
+      sandbox,
+    );
+
+    expect(output.status).toBe("error");
+    expect(output.prompt).toContain('Invalid page range "5-2"');
+  });
+
+  it("reads image dimensions from file headers", () => {
+    const gif = Buffer.from("GIF89a\x20\x00\x10\x00", "latin1");
+    const jpeg = Buffer.from([
+      0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, 0xff, 0xc0, 0x00, 0x11,
+      0x08, 0x00, 0x78, 0x00, 0xa0, 0x03,
+    ]);
+
+    expect(getImageSize(png(10, 20))).toEqual({ width: 10, height: 20 });
+    expect(getImageSize(gif)).toEqual({ width: 32, height: 16 });
+    expect(getImageSize(jpeg)).toEqual({ width: 160, height: 120 });
+    expect(getImageSize(Buffer.from("not an image"))).toBeUndefined();
+  });
+});
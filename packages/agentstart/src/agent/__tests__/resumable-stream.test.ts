@@ -0,0 +1,140 @@
+/* agent-frontmatter:start
+AGENT: Resumable stream tests
+PURPOSE: Validate buffering run streams in secondary memory and replaying them
+USAGE: Run with vitest to exercise the thread.resume helpers
+EXPORTS: none
+FEATURES:
+  - Replays buffered chunks and tails live ones until the run finishes
+  - Keeps consuming the run after the live client disconnects
+  - Clears the active run marker once the run completes
+  - Aborts a detached run when a stop is requested
+SEARCHABLE: resumable stream test, resume run test, stream buffer test
+agent-frontmatter:end */
+
+import { inMemorySecondaryMemoryAdapter } from "@agentstart/memory/secondary-in-memory";
+import { describe, expect, it, vi } from "vitest";
+import {
+  bufferRunStream,
+  getActiveRunId,
+  requestRunStop,
+  resumeRunStream,
+} from "../resumable-stream";
+
+function controlledStream<T>() {
+  let controller!: ReadableStreamDefaultController<T>;
+  const stream = new ReadableStream<T>({
+    start(value) {
+      controller = value;
+    },
+  });
+  return { stream, controller };
+}
+
+async function readAll<T>(stream: ReadableStream<T>) {
+  const chunks: T[] = [];
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  return chunks;
+}
+
+describe("resumable run streams", () => {
+  it("replays buffered chunks and follows the run until it ends", async () => {
+    const secondaryMemory = inMemorySecondaryMemoryAdapter();
+    const source = controlledStream<string>();
+    const live = await bufferRunStream(source.stream, {
+      secondaryMemory,
+      threadId: "thr_1",
+      runId: "run_1",
+    });
+
+    expect(await getActiveRunId({ secondaryMemory, threadId: "thr_1" })).toBe(
+      "run_1",
+    );
+
+    source.controller.enqueue("a");
+    source.controller.enqueue("b");
+    const liveChunks = readAll(live);
+
+    const resumed = readAll(
+      await resumeRunStream<string>({ secondaryMemory, threadId: "thr_1" }),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    source.controller.enqueue("c");
+    source.controller.close();
+
+    expect(await resumed).toEqual(["a", "b", "c"]);
+    expect(await liveChunks).toEqual(["a", "b", "c"]);
+    expect(
+      await getActiveRunId({ secondaryMemory, threadId: "thr_1" }),
+    ).toBeNull();
+  });
+
+  it("keeps buffering after the live client disconnects", async () => {
+    const secondaryMemory = inMemorySecondaryMemoryAdapter();
+    const source = controlledStream<string>();
+    const live = await bufferRunStream(source.stream, {
+      secondaryMemory,
+      threadId: "thr_1",
+      runId: "run_1",
+    });
+
+    source.controller.enqueue("a");
+    await live.cancel();
+    source.controller.enqueue("b");
+
+    const resumed = readAll(
+      await resumeRunStream<string>({ secondaryMemory, threadId: "thr_1" }),
+    );
+    source.controller.close();
+
+    expect(await resumed).toEqual(["a", "b"]);
+  });
+
+  it("aborts a detached run when a stop is requested", async () => {
+    const secondaryMemory = inMemorySecondaryMemoryAdapter();
+    const source = controlledStream<string>();
+    const abortController = new AbortController();
+    abortController.signal.addEventListener("abort", () =>
+      source.controller.close(),
+    );
+    const live = await bufferRunStream(source.stream, {
+      secondaryMemory,
+      threadId: "thr_1",
+      runId: "run_1",
+      abortController,
+    });
+
+    source.controller.enqueue("a");
+    await live.cancel();
+    expect(abortController.signal.aborted).toBe(false);
+
+    await expect(
+      requestRunStop({ secondaryMemory, threadId: "thr_1" }),
+    ).resolves.toBe(true);
+    await vi.waitFor(() => expect(abortController.signal.aborted).toBe(true), {
+      timeout: 3000,
+    });
+    await vi.waitFor(async () =>
+      expect(
+        await getActiveRunId({ secondaryMemory, threadId: "thr_1" }),
+      ).toBeNull(),
+    );
+    await expect(
+      requestRunStop({ secondaryMemory, threadId: "thr_1" }),
+    ).resolves.toBe(false);
+  });
+
+  it("completes immediately when no run is active", async () => {
+    const secondaryMemory = inMemorySecondaryMemoryAdapter();
+    const resumed = await resumeRunStream<string>({
+      secondaryMemory,
+      threadId: "thr_1",
+    });
+
+    expect(await readAll(resumed)).toEqual([]);
+  });
+});
@@ -0,0 +1,215 @@
+/* agent-frontmatter:start
+AGENT: Task tool tests
+PURPOSE: Validate sub-agent delegation through the task tool
+USAGE: Run with vitest to exercise the task tool and registry binding
+EXPORTS: none
+FEATURES:
+  - Returns only the sub-agent's final report to the main agent
+  - Streams nested progress as task_progress data parts
+  - Binds or removes the task tool based on the sub-agent registry
+  - Refuses sub-agent tool calls that require approval
+SEARCHABLE: task tool test, sub-agent test, delegate test
+agent-frontmatter:end */
+
+import type { RuntimeContext } from "@agentstart/types";
+import { simulateReadableStream, type ToolSet, tool } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { BaseAgent } from "../agent";
+import { applySubAgents, createTaskTool, task } from "../tools/task";
+
+function createReportingAgent(report: string) {
+  return new BaseAgent({
+    model: new MockLanguageModelV3({
+      doStream: async () => ({
+        stream: simulateReadableStream({
+          chunks: [
+            { type: "stream-start", warnings: [] },
+            { type: "text-start", id: "text_1" },
+            { type: "text-delta", id: "text_1", delta: report },
+            { type: "text-end", id: "text_1" },
+            {
+              type: "finish",
+              finishReason: "stop",
+              usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+            },
+          ],
+        }),
+      }),
+    }),
+    instructions: "Report back.",
+  });
+}
+
+function createWritingAgent(execute: () => Promise<string>) {
+  let calls = 0;
+  return new BaseAgent({
+    model: new MockLanguageModelV3({
+      doStream: async () => ({
+        stream:
+          calls++ === 0
+            ? simulateReadableStream({
+                chunks: [
+                  { type: "stream-start", warnings: [] },
+                  {
+                    type: "tool-call",
+                    toolCallId: "sub_call_1",
+                    toolName: "write",
+                    input: JSON.stringify({ path: "notes.md" }),
+                  },
+                  {
+                    type: "finish",
+                    finishReason: "tool-calls",
+                    usage: {
+                      inputTokens: 10,
+                      outputTokens: 5,
+                      totalTokens: 15,
+                    },
+                  },
+                ],
+              })
+            : simulateReadableStream({
+                chunks: [
+                  { type: "stream-start", warnings: [] },
+                  { type: "text-start", id: "text_1" },
+                  {
+                    type: "text-delta",
+                    id: "text_1",
+                    delta: "Could not write.",
+                  },
+                  { type: "text-end", id: "text_1" },
+                  {
+                    type: "finish",
+                    finishReason: "stop",
+                    usage: {
+                      inputTokens: 10,
+                      outputTokens: 5,
+                      totalTokens: 15,
+                    },
+                  },
+                ],
+              }),
+      }),
+    }),
+    instructions: "Write notes.",
+    tools: {
+      write: tool({
+        description: "Write a file",
+        inputSchema: z.object({ path: z.string() }),
+        execute,
+      }),
+    },
+  });
+}
+
+async function runTask(tool: ReturnType<typeof createTaskTool>, agent: string) {
+  const writer = { write: vi.fn(), merge: vi.fn(), onError: undefined };
+  const outputs = [];
+  const stream = tool.execute!(
+    { agent, description: "Find files", prompt: "Find the router files" },
+    {
+      toolCallId: "call_1",
+      messages: [],
+      experimental_context: {
+        writer,
+        threadId: "thr_1",
+        memory: {},
+      } as unknown as RuntimeContext,
+    },
+  ) as AsyncIterable<unknown>;
+  for await (const output of stream) {
+    outputs.push(output);
+  }
+  return { outputs, writer };
+}
+
+describe("task tool", () => {
+  it("returns the sub-agent report and streams progress", async () => {
+    const tool = createTaskTool({
+      explorer: {
+        description: "Searches the codebase",
+        agent: createReportingAgent("Routers live in src/api/routers."),
+      },
+    });
+    const { outputs, writer } = await runTask(tool, "explorer");
+
+    expect(outputs.at(-1)).toMatchObject({
+      status: "done",
+      prompt: "Routers live in src/api/routers.",
+      metadata: { agent: "explorer", steps: 1 },
+    });
+    expect(writer.write).toHaveBeenLastCalledWith({
+      type: "data-agentstart-task_progress",
+      id: "call_1",
+      data: expect.objectContaining({
+        status: "done",
+        steps: [expect.objectContaining({ type: "text", status: "done" })],
+      }),
+    });
+  });
+
+  it("reports unknown sub-agents as errors", async () => {
+    const { outputs } = await runTask(createTaskTool({}), "missing");
+
+    expect(outputs).toEqual([
+      expect.objectContaining({
+        status: "error",
+        prompt: expect.stringContaining('Unknown sub-agent "missing"'),
+      }),
+    ]);
+  });
+
+  it("binds the registry or drops the tool when none is configured", () => {
+    const tools = { task } as ToolSet;
+    const subAgents = {
+      explorer: {
+        description: "Searches the codebase",
+        agent: createReportingAgent(""),
+      },
+    };
+
+    expect(applySubAgents(tools, undefined)).not.toHaveProperty("task");
+    expect(applySubAgents(tools, subAgents)?.task?.description).toContain(
+      "- explorer: Searches the codebase",
+    );
+    const withoutTask = {} as ToolSet;
+    expect(applySubAgents(withoutTask, subAgents)).toBe(withoutTask);
+  });
+
+  it("refuses sub-agent tool calls that require approval", async () => {
+    const execute = vi.fn(async () => "written");
+    const tools = applySubAgents(
+      { task } as ToolSet,
+      {
+        writer: {
+          description: "Writes notes",
+          agent: createWritingAgent(execute),
+        },
+      },
+      { toolApproval: { write: "always" } },
+    );
+    const { outputs, writer } = await runTask(
+      tools?.task as ReturnType<typeof createTaskTool>,
+      "writer",
+    );
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(outputs.at(-1)).toMatchObject({
+      status: "done",
+      prompt: "Could not write.",
+    });
+    expect(writer.write).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          steps: expect.arrayContaining([
+            expect.objectContaining({
+              type: "tool",
+              status: "error",
+            }),
+          ]),
+        }),
+      }),
+    );
+  });
+});
@@ -0,0 +1,247 @@
+/* agent-frontmatter:start
+AGENT: Web tools tests
+PURPOSE: Validate the webFetch and webSearch tools
+USAGE: Run with vitest to exercise web fetching and search providers
+EXPORTS: none
+FEATURES:
+  - Converts fetched HTML to markdown and cites the page
+  - Truncates fetched content to the token budget
+  - Refuses private addresses, including behind redirects
+  - Delegates searches to a fake provider with domain filters
+SEARCHABLE: web fetch test, web search test, html to markdown test
+agent-frontmatter:end */
+
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { RuntimeContext, WebSearchProvider } from "@agentstart/types";
+import type { Tool } from "ai";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { webFetch } from "../tools/web-fetch";
+import { htmlToMarkdown } from "../tools/web-fetch/html-to-markdown";
+import { webSearch } from "../tools/web-search";
+
+const PAGE = `<!doctype html>
+<html>
+  <head><title>Docs &amp; Guides</title><style>body { color: red; }</style></head>
+  <body>
+    <nav><a href="/">Home</a></nav>
+    <main>
+      <h1>Getting started</h1>
+      <p>Read the <a href="/guide">guide</a> and <strong>install</strong> it.</p>
+      <ul><li>One</li><li>Two</li></ul>
+      <pre><code>npm install agentstart</code></pre>
+      <script>alert("nope")</script>
+    </main>
+  </body>
+</html>`;
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    if (request.url === "/page") {
+      response.writeHead(200, { "content-type": "text/html; charset=utf-8" });
+      response.end(PAGE);
+    } else if (request.url === "/long") {
+      response.writeHead(200, { "content-type": "text/plain" });
+      response.end("a".repeat(2000));
+    } else if (request.url === "/redirect") {
+      response.writeHead(302, {
+        location: `http://localhost:${(server.address() as AddressInfo).port}/page`,
+      });
+      response.end();
+    } else if (request.url === "/image") {
+      response.writeHead(200, { "content-type": "image/png" });
+      response.end(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    } else {
+      response.writeHead(404);
+      response.end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+async function runTool<INPUT>(
+  tool: Tool<INPUT, any>,
+  input: INPUT,
+  context: Partial<RuntimeContext> = {},
+) {
+  const writer = { write: vi.fn(), merge: vi.fn(), onError: undefined };
+  const outputs: any[] = [];
+  const stream = tool.execute!(input, {
+    toolCallId: "call_1",
+    messages: [],
+    experimental_context: { writer, ...context } as unknown as RuntimeContext,
+  }) as AsyncIterable<unknown>;
+  for await (const output of stream) {
+    outputs.push(output);
+  }
+  return { output: outputs.at(-1), writer };
+}
+
+describe("htmlToMarkdown", () => {
+  it("keeps the main content and resolves links", () => {
+    const { title, markdown } = htmlToMarkdown(PAGE, "https://docs.example");
+
+    expect(title).toBe("Docs & Guides");
+    expect(markdown).toContain("# Getting started");
+    expect(markdown).toContain(
+      "Read the [guide](https://docs.example/guide) and **install** it.",
+    );
+    expect(markdown).toContain("- One\n- Two");
+    expect(markdown).toContain("```\nnpm install agentstart\n```");
+    expect(markdown).not.toContain("alert");
+    expect(markdown).not.toContain("Home");
+  });
+});
+
+describe("webFetch tool", () => {
+  const context = { webFetch: { allowedHosts: ["127.0.0.1"] } };
+
+  it("returns markdown and cites the page", async () => {
+    const { output, writer } = await runTool(
+      webFetch,
+      { url: `${baseUrl}/page` },
+      context,
+    );
+
+    expect(output).toMatchObject({
+      status: "done",
+      metadata: {
+        url: `${baseUrl}/page`,
+        title: "Docs & Guides",
+        contentType: "text/html",
+        status: 200,
+        truncated: false,
+      },
+    });
+    expect(output.prompt).toContain("# Getting started");
+    expect(writer.write).toHaveBeenCalledWith({
+      type: "source-url",
+      sourceId: "call_1-source",
+      url: `${baseUrl}/page`,
+      title: "Docs & Guides",
+    });
+  });
+
+  it("truncates content to the token budget", async () => {
+    const { output } = await runTool(
+      webFetch,
+      { url: `${baseUrl}/long`, maxTokens: 100 },
+      context,
+    );
+
+    expect(output.metadata.truncated).toBe(true);
+    expect(output.prompt).toContain(`${"a".repeat(400)}\n\n[Content truncated`);
+    expect(output.prompt).not.toContain("a".repeat(401));
+  });
+
+  it("reports failed requests and binary content as errors", async () => {
+    const missing = await runTool(
+      webFetch,
+      { url: `${baseUrl}/missing` },
+      context,
+    );
+    const image = await runTool(webFetch, { url: `${baseUrl}/image` }, context);
+
+    expect(missing.output).toMatchObject({ status: "error" });
+    expect(missing.output.prompt).toContain("status 404");
+    expect(image.output.prompt).toContain(
+      'Unsupported content type "image/png"',
+    );
+    expect(image.writer.write).not.toHaveBeenCalled();
+  });
+
+  it("refuses private addresses unless the host is allowed", async () => {
+    const direct = await runTool(webFetch, { url: `${baseUrl}/page` });
+    const metadata = await runTool(webFetch, {
+      url: "http://[::ffff:169.254.169.254]/latest/meta-data",
+    });
+    const redirected = await runTool(
+      webFetch,
+      { url: `${baseUrl}/redirect` },
+      context,
+    );
+
+    expect(direct.output).toMatchObject({ status: "error" });
+    expect(direct.output.prompt).toContain(
+      "resolves to the private address 127.0.0.1",
+    );
+    expect(metadata.output.prompt).toContain("resolves to the private address");
+    expect(redirected.output.prompt).toContain('Refusing to fetch "localhost"');
+  });
+
+  it("sends requests through the configured fetch", async () => {
+    const fetch = vi.fn(
+      async () =>
+        new Response("hello", { headers: { "content-type": "text/plain" } }),
+    );
+    const { output } = await runTool(
+      webFetch,
+      { url: `${baseUrl}/anything` },
+      { webFetch: { allowedHosts: ["127.0.0.1"], fetch } },
+    );
+
+    expect(fetch).toHaveBeenCalledOnce();
+    expect(output).toMatchObject({ status: "done" });
+    expect(output.prompt).toContain("hello");
+  });
+});
+
+describe("webSearch tool", () => {
+  const provider: WebSearchProvider = {
+    name: "fake",
+    search: vi.fn(async () => [
+      { title: "AgentStart", url: "https://agentstart.dev", snippet: "Docs" },
+      { title: "Blocked", url: "https://spam.example/agentstart" },
+      { title: "Blog", url: "https://blog.agentstart.dev/post" },
+    ]),
+  };
+
+  it("returns filtered provider results and cites them", async () => {
+    const { output, writer } = await runTool(
+      webSearch,
+      { query: "agentstart", blockedDomains: ["spam.example"] },
+      { webSearch: provider },
+    );
+
+    expect(provider.search).toHaveBeenCalledWith(
+      "agentstart",
+      expect.objectContaining({
+        maxResults: 5,
+        blockedDomains: ["spam.example"],
+      }),
+    );
+    expect(output).toMatchObject({
+      status: "done",
+      metadata: { query: "agentstart", provider: "fake" },
+    });
+    expect(output.metadata.results.map((result: any) => result.url)).toEqual([
+      "https://agentstart.dev",
+      "https://blog.agentstart.dev/post",
+    ]);
+    expect(output.prompt).toContain("1. AgentStart\n   https://agentstart.dev");
+    expect(writer.write).toHaveBeenCalledTimes(2);
+    expect(writer.write).toHaveBeenCalledWith({
+      type: "source-url",
+      sourceId: "call_1-1",
+      url: "https://blog.agentstart.dev/post",
+      title: "Blog",
+    });
+  });
+
+  it("reports a missing provider as an error", async () => {
+    const { output } = await runTool(webSearch, { query: "agentstart" });
+
+    expect(output).toMatchObject({
+      status: "error",
+      prompt: expect.stringContaining("no search provider is configured"),
+    });
+  });
+});
@@ -2,12 +2,13 @@
 AGENT: AI SDK v6 Agent implementation
 PURPOSE: Implement AI SDK Agent interface with tool loop execution support
 USAGE: new BaseAgent({ settings, tools, instructions })
-EXPORTS: BaseAgent, AgentCallParameters
+EXPORTS: BaseAgent, AgentCallParameters, withAgentSettings
 FEATURES:
   - Implements AI SDK v6 Agent protocol
   - Supports tool loop execution with configurable stop conditions
   - Provides runtime context injection for call options
   - Exposes agent ID and tools via getters
+  - Copies an agent with some of its settings replaced
 SEARCHABLE: base agent, ai sdk agent, tool loop agent, agent v6
 agent-frontmatter:end */
 
@@ -128,3 +129,16 @@ export class BaseAgent<
     return streamText(await this.prepareCall(options));
   }
 }
+
+/**
+ * Create an agent of the same class with some of its settings replaced
+ */
+export function withAgentSettings(
+  agent: BaseAgent,
+  settings: Partial<BaseAgent["settings"]>,
+): BaseAgent {
+  const AgentClass = agent.constructor as new (
+    settings: BaseAgent["settings"],
+  ) => BaseAgent;
+  return new AgentClass({ ...agent.settings, ...settings });
+}
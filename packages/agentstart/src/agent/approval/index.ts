@@ -0,0 +1,168 @@
+/* agent-frontmatter:start
+AGENT: Tool approval helpers
+PURPOSE: Apply per-tool approval policies and record client approval decisions
+USAGE: const tools = applyToolApprovalPolicies(agent.tools, options.toolApproval)
+EXPORTS: applyToolApprovalPolicies, withToolApprovalRequests, findPendingToolApproval, respondToToolApproval, hasPendingToolApprovals
+FEATURES:
+  - Maps always/never/predicate policies onto AI SDK needsApproval
+  - Emits an approval request data part next to SDK approval chunks
+  - Locates and resolves approval-requested tool parts in stored messages
+SEARCHABLE: tool approval, human in the loop, needsApproval, approve tool call
+agent-frontmatter:end */
+
+import type { RuntimeContext, ToolApprovalPolicy } from "@agentstart/types";
+import type { Tool, ToolSet, UIMessage, UIMessageChunk } from "ai";
+import { isToolOrDynamicToolUIPart } from "ai";
+
+/**
+ * Attach approval requirements to the tools covered by a policy map.
+ * Tools without a policy are returned unchanged.
+ */
+export function applyToolApprovalPolicies<TOOLS extends ToolSet>(
+  tools: TOOLS | undefined,
+  policies: Record<string, ToolApprovalPolicy> | undefined,
+): TOOLS | undefined {
+  if (!tools || !policies) {
+    return tools;
+  }
+
+  const result: ToolSet = { ...tools };
+
+  for (const [toolName, policy] of Object.entries(policies)) {
+    const tool = result[toolName];
+    if (!tool) {
+      continue;
+    }
+
+    if (policy === "always" || policy === "never") {
+      result[toolName] = { ...tool, needsApproval: policy === "always" };
+      continue;
+    }
+
+    const needsApproval: Tool["needsApproval"] = async (
+      input,
+      { toolCallId, experimental_context },
+    ) => {
+      const context = experimental_context as RuntimeContext | undefined;
+      return policy(input, {
+        toolName,
+        toolCallId,
+        threadId: context?.threadId ?? "",
+        userId: context?.userId,
+      });
+    };
+
+    result[toolName] = { ...tool, needsApproval };
+  }
+
+  return result as TOOLS;
+}
+
+/**
+ * Follow every SDK approval request chunk with an
+ * `agentstart-tool_approval_request` data part carrying the tool details.
+ */
+export function withToolApprovalRequests<CHUNK extends UIMessageChunk>(
+  stream: ReadableStream<CHUNK>,
+  threadId: string,
+): ReadableStream<CHUNK> {
+  const toolCalls = new Map<string, { toolName: string; input: unknown }>();
+
+  return stream.pipeThrough(
+    new TransformStream<CHUNK, CHUNK>({
+      transform(chunk, controller) {
+        controller.enqueue(chunk);
+
+        if (chunk.type === "tool-input-available") {
+          toolCalls.set(chunk.toolCallId, {
+            toolName: chunk.toolName,
+            input: chunk.input,
+          });
+          return;
+        }
+
+        if (chunk.type === "tool-approval-request") {
+          const toolCall = toolCalls.get(chunk.toolCallId);
+          controller.enqueue({
+            type: "data-agentstart-tool_approval_request",
+            data: {
+              threadId,
+              approvalId: chunk.approvalId,
+              toolCallId: chunk.toolCallId,
+              toolName: toolCall?.toolName ?? "unknown",
+              input: toolCall?.input,
+            },
+            transient: true,
+          } as unknown as CHUNK);
+        }
+      },
+    }),
+  );
+}
+
+/**
+ * Find the message that contains the given approval request.
+ */
+export function findPendingToolApproval<Message extends UIMessage>(
+  messages: Message[],
+  approvalId: string,
+): Message | undefined {
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const message = messages[index]!;
+    if (message.role !== "assistant") {
+      continue;
+    }
+
+    const found = message.parts.some(
+      (part) =>
+        isToolOrDynamicToolUIPart(part) && part.approval?.id === approvalId,
+    );
+    if (found) {
+      return message;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Record an approval decision on the matching tool part.
+ * Parts that already carry a decision are left untouched.
+ */
+export function respondToToolApproval<Message extends UIMessage>(
+  message: Message,
+  decision: { approvalId: string; approved: boolean; reason?: string },
+): Message {
+  return {
+    ...message,
+    parts: message.parts.map((part) => {
+      if (
+        !isToolOrDynamicToolUIPart(part) ||
+        part.state !== "approval-requested" ||
+        part.approval.id !== decision.approvalId
+      ) {
+        return part;
+      }
+
+      return {
+        ...part,
+        state: "approval-responded",
+        approval: {
+          id: decision.approvalId,
+          approved: decision.approved,
+          reason: decision.reason,
+        },
+      };
+    }),
+  };
+}
+
+/**
+ * Whether any tool call in the message is still waiting for a decision.
+ */
+export function hasPendingToolApprovals(message: UIMessage): boolean {
+  return message.parts.some(
+    (part) =>
+      isToolOrDynamicToolUIPart(part) && part.state === "approval-requested",
+  );
+}
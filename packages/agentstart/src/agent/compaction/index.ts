@@ -0,0 +1,296 @@
+/* agent-frontmatter:start
+AGENT: Context compaction helpers
+PURPOSE: Keep long threads inside the model context window without touching stored history
+USAGE: const { messages, compaction } = await compactMessages({ messages, options, model, maxTokens })
+EXPORTS: compactMessages, applyCompaction, estimateTokens, ThreadCompaction, CompactMessagesOptions
+FEATURES:
+  - Summarizes older turns with a configured model
+  - Strips stale tool outputs such as large read/grep results
+  - Truncates the oldest turns to fit a token budget
+  - Produces a compaction record that later runs reuse until the next trigger
+SEARCHABLE: context compaction, summarize thread, context window, truncate messages
+agent-frontmatter:end */
+
+import type {
+  ContextCompactionOptions,
+  ContextCompactionStrategy,
+} from "@agentstart/types";
+import {
+  generateText,
+  getToolName,
+  isToolUIPart,
+  type LanguageModel,
+  type UIMessage,
+} from "ai";
+
+const DEFAULT_THRESHOLD = 0.8;
+const DEFAULT_KEEP_RECENT_MESSAGES = 6;
+const DEFAULT_COMPACTABLE_TOOLS = ["read", "grep", "glob", "ls", "bash"];
+const CHARS_PER_TOKEN = 4;
+const MAX_TRANSCRIPT_PART_LENGTH = 2000;
+
+const DROPPED_OUTPUT_PROMPT =
+  "[Output removed to save context. Run the tool again if you need it.]";
+
+const DEFAULT_SUMMARIZE_PROMPT = `Summarize the conversation so far so that it can replace the original messages. Keep the user's goals, decisions made, files touched, commands run and their outcomes, open problems, and any facts needed to continue the work. Use concise plain text.`;
+
+/**
+ * Compaction state persisted on the thread.
+ * Messages up to and including `upToMessageId` are compacted for the model.
+ */
+export interface ThreadCompaction {
+  strategy: ContextCompactionStrategy;
+  upToMessageId: string;
+  summary?: string;
+  tokensBefore: number;
+  tokensAfter: number;
+  createdAt: string;
+}
+
+export interface CompactMessagesOptions<Message extends UIMessage> {
+  messages: Message[];
+  options: ContextCompactionOptions;
+  /** Compaction stored on the thread by a previous run */
+  compaction?: ThreadCompaction | null;
+  /** Fallback model for the summarize strategy */
+  model: LanguageModel;
+  /** Context window size in tokens, when known */
+  maxTokens?: number;
+}
+
+/**
+ * Rough token estimate for a list of messages.
+ */
+export function estimateTokens(messages: UIMessage[]): number {
+  return Math.ceil(JSON.stringify(messages).length / CHARS_PER_TOKEN);
+}
+
+function dropToolOutputs<Message extends UIMessage>(
+  message: Message,
+  tools: string[],
+): Message {
+  return {
+    ...message,
+    parts: message.parts.map((part) => {
+      if (
+        !isToolUIPart(part) ||
+        part.state !== "output-available" ||
+        !tools.includes(getToolName(part))
+      ) {
+        return part;
+      }
+
+      const output = part.output as Record<string, unknown> | undefined;
+      // Built-in tools expose their model-facing text through `prompt`
+      const dropped =
+        output && typeof output === "object" && "prompt" in output
+          ? { status: output.status, prompt: DROPPED_OUTPUT_PROMPT }
+          : DROPPED_OUTPUT_PROMPT;
+
+      return { ...part, output: dropped };
+    }),
+  };
+}
+
+function createSummaryMessage<Message extends UIMessage>(
+  compaction: ThreadCompaction,
+): Message {
+  return {
+    id: `compaction-${compaction.upToMessageId}`,
+    role: "system",
+    parts: [
+      {
+        type: "text",
+        text: `Summary of the earlier conversation:\n\n${compaction.summary ?? ""}`,
+      },
+    ],
+  } as Message;
+}
+
+/**
+ * Build the model view of a thread from its stored compaction.
+ * Returns the messages unchanged when the compaction no longer applies.
+ */
+export function applyCompaction<Message extends UIMessage>(
+  messages: Message[],
+  compaction: ThreadCompaction | null | undefined,
+  options?: Pick<ContextCompactionOptions, "tools">,
+): Message[] {
+  if (!compaction) {
+    return messages;
+  }
+
+  const index = messages.findIndex(
+    (message) => message.id === compaction.upToMessageId,
+  );
+  if (index === -1) {
+    return messages;
+  }
+
+  switch (compaction.strategy) {
+    case "summarize":
+      return [
+        createSummaryMessage<Message>(compaction),
+        ...messages.slice(index + 1),
+      ];
+    case "truncate":
+      return messages.slice(index + 1);
+    case "drop-tool-outputs": {
+      const tools = options?.tools ?? DEFAULT_COMPACTABLE_TOOLS;
+      return messages.map((message, messageIndex) =>
+        messageIndex <= index ? dropToolOutputs(message, tools) : message,
+      );
+    }
+  }
+}
+
+function truncateForTranscript(value: string) {
+  return value.length > MAX_TRANSCRIPT_PART_LENGTH
+    ? `${value.slice(0, MAX_TRANSCRIPT_PART_LENGTH)}…`
+    : value;
+}
+
+function toTranscript(messages: UIMessage[]) {
+  return messages
+    .map((message) => {
+      const lines = message.parts.flatMap((part) => {
+        if (part.type === "text") {
+          return [truncateForTranscript(part.text)];
+        }
+        if (isToolUIPart(part)) {
+          const output =
+            part.state === "output-available"
+              ? ` -> ${truncateForTranscript(JSON.stringify(part.output))}`
+              : "";
+          return [
+            `[tool ${getToolName(part)}] ${truncateForTranscript(JSON.stringify(part.input))}${output}`,
+          ];
+        }
+        return [];
+      });
+
+      return lines.length > 0 ? `${message.role}: ${lines.join("\n")}` : "";
+    })
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+async function summarizeMessages(options: {
+  model: LanguageModel;
+  instructions?: string;
+  previousSummary?: string;
+  messages: UIMessage[];
+}) {
+  const transcript = toTranscript(options.messages);
+  const prompt = options.previousSummary
+    ? `Previous summary:\n${options.previousSummary}\n\nConversation since then:\n${transcript}`
+    : transcript;
+
+  const result = await generateText({
+    model: options.model,
+    temperature: 0,
+    system: options.instructions ?? DEFAULT_SUMMARIZE_PROMPT,
+    prompt,
+  });
+
+  return result.text;
+}
+
+/**
+ * Find the last message to truncate so the remaining messages fit the target.
+ * Always keeps the final message.
+ */
+function findTruncateIndex(
+  messages: UIMessage[],
+  startIndex: number,
+  targetTokens: number,
+) {
+  let index = startIndex;
+  while (
+    index < messages.length - 2 &&
+    estimateTokens(messages.slice(index + 1)) > targetTokens
+  ) {
+    index++;
+  }
+  return index;
+}
+
+/**
+ * Compact the model view of a thread once it crosses the configured
+ * threshold. Returns a new compaction record only when one was created;
+ * otherwise the stored compaction is applied as-is.
+ */
+export async function compactMessages<Message extends UIMessage>({
+  messages,
+  options,
+  compaction,
+  model,
+  maxTokens = options.maxTokens,
+}: CompactMessagesOptions<Message>): Promise<{
+  messages: Message[];
+  compaction?: ThreadCompaction;
+}> {
+  const current = applyCompaction(messages, compaction, options);
+  if (!maxTokens || maxTokens <= 1) {
+    return { messages: current };
+  }
+
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const tokensBefore = estimateTokens(current);
+  if (tokensBefore < maxTokens * threshold) {
+    return { messages: current };
+  }
+
+  const previousIndex = compaction
+    ? messages.findIndex((message) => message.id === compaction.upToMessageId)
+    : -1;
+  const keepRecentMessages = Math.max(
+    1,
+    options.keepRecentMessages ?? DEFAULT_KEEP_RECENT_MESSAGES,
+  );
+  const cutIndex =
+    options.strategy === "truncate"
+      ? findTruncateIndex(
+          messages,
+          Math.max(previousIndex + 1, 0),
+          (maxTokens * threshold) / 2,
+        )
+      : messages.length - keepRecentMessages - 1;
+
+  // Nothing new to compact beyond what is already compacted
+  if (cutIndex <= previousIndex || cutIndex < 0) {
+    return { messages: current };
+  }
+
+  let summary: string | undefined;
+  if (options.strategy === "summarize") {
+    const reuseSummary = compaction?.strategy === "summarize";
+    try {
+      summary = await summarizeMessages({
+        model: options.model ?? model,
+        instructions: options.instructions,
+        previousSummary: reuseSummary ? compaction?.summary : undefined,
+        messages: messages.slice(
+          reuseSummary ? previousIndex + 1 : 0,
+          cutIndex + 1,
+        ),
+      });
+    } catch (error) {
+      console.error("Failed to summarize thread for compaction:", error);
+      return { messages: current };
+    }
+  }
+
+  const next: ThreadCompaction = {
+    strategy: options.strategy,
+    upToMessageId: messages[cutIndex]!.id,
+    summary,
+    tokensBefore,
+    tokensAfter: 0,
+    createdAt: new Date().toISOString(),
+  };
+  const compacted = applyCompaction(messages, next, options);
+  next.tokensAfter = estimateTokens(compacted);
+
+  return { messages: compacted, compaction: next };
+}
@@ -2,7 +2,7 @@
 AGENT: Core entry point
 PURPOSE: Re-export Agent runtime modules and database helpers
 USAGE: import { Agent, AgentStartUIMessage, loadThread } from "agentstart"
-EXPORTS: Agent, context helpers, message utils, persistence helpers, tools
+EXPORTS: Agent, context helpers, MCP helpers, message utils, persistence helpers, thread export and import, tools
 FEATURES:
   - Aggregates the batteries-included adapter set
   - Surfaces shared database utilities for external consumption
@@ -11,8 +11,10 @@ SEARCHABLE: core exports, adapter re-exports, database helpers
 agent-frontmatter:end */
 
 export { BaseAgent as Agent } from "./agent";
+export * from "./mcp";
 export * from "./messages";
 export * from "./persistence";
+export * from "./persistence/transfer";
 export * from "./run";
 export * from "./tools";
 export * from "./usage";
@@ -0,0 +1,366 @@
+/* agent-frontmatter:start
+AGENT: MCP client integration
+PURPOSE: Connect to configured MCP servers and expose their tools to the agent
+USAGE: const tools = await getMCPTools(options.mcpServers)
+EXPORTS: getMCPTools, withMCPTools, closeMCPServers, toMCPToolName, MCPToolOutput
+FEATURES:
+  - Connects to stdio and streamable HTTP servers
+  - Discovers tools and namespaces them as mcp__<server>__<tool>
+  - Reconnects with backoff when a server exits or drops the connection
+  - Refreshes tools on list_changed notifications
+  - Merges MCP tools into the agent's tools the same way for runs and imports
+SEARCHABLE: mcp client, model context protocol, mcp tools, tool discovery
+agent-frontmatter:end */
+
+import type { MCPServerConfig } from "@agentstart/types";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  getDefaultEnvironment,
+  StdioClientTransport,
+} from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  type CallToolResult,
+  ToolListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { dynamicTool, type JSONSchema7, jsonSchema, type ToolSet } from "ai";
+import { getRichError } from "@/agent/tools/get-rich-error";
+
+const TOOL_PREFIX = "mcp";
+const MAX_TOOL_NAME_LENGTH = 64;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RESTART_DELAY_MS = 1000;
+
+export interface MCPToolOutput {
+  status: "done" | "error";
+  prompt: string;
+  metadata: {
+    server: string;
+    tool: string;
+    content?: CallToolResult["content"];
+    structuredContent?: Record<string, unknown>;
+  };
+  error?: { message: string };
+}
+
+interface MCPConnection {
+  config: MCPServerConfig;
+  client?: Client;
+  connecting?: Promise<Client>;
+  tools: ToolSet;
+  retries: number;
+  restartTimer?: ReturnType<typeof setTimeout>;
+  closed: boolean;
+}
+
+// One connection per server config object, shared by every run
+const connections = new WeakMap<MCPServerConfig, MCPConnection>();
+
+function sanitizeName(name: string) {
+  return name.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+/**
+ * Build the namespaced tool name the agent sees for an MCP tool.
+ */
+export function toMCPToolName(server: string, tool: string) {
+  return `${TOOL_PREFIX}__${sanitizeName(server)}__${sanitizeName(tool)}`.slice(
+    0,
+    MAX_TOOL_NAME_LENGTH,
+  );
+}
+
+function createTransport(config: MCPServerConfig): Transport {
+  if (config.type === "http") {
+    return new StreamableHTTPClientTransport(new URL(config.url), {
+      requestInit: { headers: config.headers },
+    });
+  }
+
+  return new StdioClientTransport({
+    command: config.command,
+    args: config.args,
+    cwd: config.cwd,
+    // A custom env replaces the default one, so keep PATH and friends
+    env: config.env ? { ...getDefaultEnvironment(), ...config.env } : undefined,
+    stderr: "inherit",
+  });
+}
+
+function formatContent(content: CallToolResult["content"]) {
+  return content
+    .map((item) => {
+      switch (item.type) {
+        case "text":
+          return item.text;
+        case "image":
+        case "audio":
+          return `[${item.type}: ${item.mimeType}]`;
+        case "resource":
+          return "text" in item.resource
+            ? item.resource.text
+            : `[resource: ${item.resource.uri}]`;
+        case "resource_link":
+          return `[resource: ${item.uri}]`;
+        default:
+          return "";
+      }
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+async function callTool(
+  connection: MCPConnection,
+  toolName: string,
+  input: unknown,
+  abortSignal?: AbortSignal,
+): Promise<MCPToolOutput> {
+  const { name: server } = connection.config;
+  const metadata = { server, tool: toolName };
+
+  try {
+    const client = await getClient(connection);
+    const result = (await client.callTool(
+      {
+        name: toolName,
+        arguments: (input ?? {}) as Record<string, unknown>,
+      },
+      undefined,
+      { signal: abortSignal },
+    )) as CallToolResult;
+    const text =
+      formatContent(result.content ?? []) ||
+      (result.structuredContent
+        ? JSON.stringify(result.structuredContent)
+        : "");
+
+    if (result.isError) {
+      return {
+        status: "error",
+        prompt: text || `${toolName} failed`,
+        error: { message: text || `${toolName} failed` },
+        metadata: { ...metadata, content: result.content },
+      };
+    }
+
+    return {
+      status: "done",
+      prompt: text || `${toolName} completed without output`,
+      metadata: {
+        ...metadata,
+        content: result.content,
+        structuredContent: result.structuredContent,
+      },
+    };
+  } catch (error) {
+    const richError = getRichError({
+      action: `call ${toolName} on MCP server ${server}`,
+      args: { input },
+      error,
+    });
+
+    return {
+      status: "error",
+      prompt: richError.message,
+      error: richError.error,
+      metadata,
+    };
+  }
+}
+
+async function loadTools(connection: MCPConnection, client: Client) {
+  const { config } = connection;
+  const tools: ToolSet = {};
+  let cursor: string | undefined;
+
+  do {
+    const page = await client.listTools(cursor ? { cursor } : undefined);
+    for (const definition of page.tools) {
+      if (
+        config.includeTools &&
+        !config.includeTools.includes(definition.name)
+      ) {
+        continue;
+      }
+
+      tools[toMCPToolName(config.name, definition.name)] = dynamicTool({
+        title: definition.title ?? definition.annotations?.title,
+        description:
+          definition.description ?? `${definition.name} (MCP: ${config.name})`,
+        inputSchema: jsonSchema(definition.inputSchema as JSONSchema7),
+        execute: (input, { abortSignal }) =>
+          callTool(connection, definition.name, input, abortSignal),
+        toModelOutput: (output) => {
+          const { status, prompt } = output as MCPToolOutput;
+          return {
+            type:
+              status === "error" ? ("error-text" as const) : ("text" as const),
+            value: prompt,
+          };
+        },
+      });
+    }
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return tools;
+}
+
+function scheduleRestart(connection: MCPConnection) {
+  const { name, restart } = connection.config;
+  const maxRetries = restart?.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  if (connection.closed) {
+    return;
+  }
+  if (connection.retries >= maxRetries) {
+    console.error(
+      `MCP server "${name}" stopped after ${maxRetries} restart attempts`,
+    );
+    connection.tools = {};
+    return;
+  }
+
+  const delay =
+    (restart?.delayMs ?? DEFAULT_RESTART_DELAY_MS) * 2 ** connection.retries;
+  connection.retries += 1;
+  connection.restartTimer = setTimeout(() => {
+    connection.restartTimer = undefined;
+    getClient(connection).catch((error) => {
+      console.error(`Failed to restart MCP server "${name}":`, error);
+      scheduleRestart(connection);
+    });
+  }, delay);
+  connection.restartTimer.unref?.();
+}
+
+async function connect(connection: MCPConnection) {
+  const client = new Client({ name: "agentstart", version: "1.0.0" });
+
+  client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+    try {
+      connection.tools = await loadTools(connection, client);
+    } catch (error) {
+      console.error(
+        `Failed to refresh tools for MCP server "${connection.config.name}":`,
+        error,
+      );
+    }
+  });
+  client.onclose = () => {
+    // Ignore clients that were replaced or closed on purpose
+    if (connection.client !== client || connection.closed) {
+      return;
+    }
+    connection.client = undefined;
+    scheduleRestart(connection);
+  };
+
+  try {
+    await client.connect(createTransport(connection.config));
+    connection.tools = await loadTools(connection, client);
+  } catch (error) {
+    await client.close().catch(() => {});
+    throw error;
+  }
+
+  connection.client = client;
+  connection.retries = 0;
+  return client;
+}
+
+async function getClient(connection: MCPConnection) {
+  if (connection.closed) {
+    throw new Error(`MCP server "${connection.config.name}" is closed`);
+  }
+  if (connection.client) {
+    return connection.client;
+  }
+  if (!connection.connecting) {
+    if (connection.restartTimer) {
+      clearTimeout(connection.restartTimer);
+      connection.restartTimer = undefined;
+    }
+    connection.connecting = connect(connection).finally(() => {
+      connection.connecting = undefined;
+    });
+  }
+  return connection.connecting;
+}
+
+/**
+ * Connect to the configured MCP servers and return their tools.
+ * Servers that fail to connect are logged and skipped.
+ */
+export async function getMCPTools(
+  servers: MCPServerConfig[] | undefined,
+): Promise<ToolSet> {
+  if (!servers?.length) {
+    return {};
+  }
+
+  const toolSets = await Promise.all(
+    servers.map(async (config) => {
+      let connection = connections.get(config);
+      if (!connection) {
+        connection = { config, tools: {}, retries: 0, closed: false };
+        connections.set(config, connection);
+      }
+
+      try {
+        await getClient(connection);
+        return connection.tools;
+      } catch (error) {
+        console.error(
+          `Failed to connect to MCP server "${config.name}":`,
+          error,
+        );
+        return {};
+      }
+    }),
+  );
+
+  return Object.assign({}, ...toolSets);
+}
+
+/**
+ * Add the tools of the configured MCP servers to `tools`. Returns `tools`
+ * itself when no server provides any.
+ */
+export async function withMCPTools(
+  tools: ToolSet | undefined,
+  servers: MCPServerConfig[] | undefined,
+): Promise<ToolSet | undefined> {
+  const mcpTools = await getMCPTools(servers);
+  if (Object.keys(mcpTools).length === 0) {
+    return tools;
+  }
+  return { ...tools, ...mcpTools };
+}
+
+/**
+ * Disconnect from the given MCP servers and stop restarting them.
+ */
+export async function closeMCPServers(
+  servers: MCPServerConfig[] | undefined,
+): Promise<void> {
+  await Promise.all(
+    (servers ?? []).map(async (config) => {
+      const connection = connections.get(config);
+      if (!connection) {
+        return;
+      }
+
+      connection.closed = true;
+      connections.delete(config);
+      if (connection.restartTimer) {
+        clearTimeout(connection.restartTimer);
+      }
+      const client =
+        connection.client ?? (await connection.connecting?.catch(() => null));
+      await client?.close();
+    }),
+  );
+}
@@ -0,0 +1,168 @@
+/* agent-frontmatter:start
+AGENT: Message blob attachments
+PURPOSE: Link file parts of messages to the blobs they were uploaded to
+USAGE: const attachments = collectBlobAttachments(message)
+EXPORTS: BLOB_METADATA_KEY, BlobAttachment, getBlobPathname, collectBlobAttachments, getReferencedBlobPathnames, signBlobUrls
+FEATURES:
+  - Reads blob pathnames that uploads store in file part provider metadata
+  - Collects the blobs a message references for persistence
+  - Reads referenced pathnames back from stored message records
+  - Replaces file URLs of private blobs with fresh signed URLs
+  - Signs only blobs of the thread owner and unlinks file parts pointing elsewhere
+SEARCHABLE: message attachments, blob attachments, file part, signed url, private blob
+agent-frontmatter:end */
+
+import type { BlobAdapter } from "@agentstart/types";
+import type { FileUIPart, UIMessage } from "ai";
+import { getBlobOwnerId } from "@/api/utils/blob-scope";
+
+/**
+ * Provider metadata key uploads use to tag file parts with their blob.
+ * Model providers ignore keys that are not their own.
+ */
+export const BLOB_METADATA_KEY = "agentstart";
+
+/**
+ * A blob referenced by a message, stored in the message's attachments
+ */
+export interface BlobAttachment {
+  pathname: string;
+  filename?: string;
+  mediaType: string;
+}
+
+/**
+ * Return the blob pathname a file part was uploaded to, if any
+ */
+export function getBlobPathname(part: FileUIPart): string | undefined {
+  const pathname = part.providerMetadata?.[BLOB_METADATA_KEY]?.pathname;
+  return typeof pathname === "string" && pathname ? pathname : undefined;
+}
+
+/**
+ * Collect the blobs referenced by the file parts of a message
+ */
+export function collectBlobAttachments(message: UIMessage): BlobAttachment[] {
+  return message.parts.flatMap((part) => {
+    if (part.type !== "file") {
+      return [];
+    }
+    const pathname = getBlobPathname(part);
+    return pathname
+      ? [
+          {
+            pathname,
+            ...(part.filename ? { filename: part.filename } : {}),
+            mediaType: part.mediaType,
+          },
+        ]
+      : [];
+  });
+}
+
+function parseStored(value: unknown): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Pathnames of the blobs a stored message references. Reads the recorded
+ * attachments and, for messages stored before they were recorded, the
+ * file parts themselves.
+ */
+export function getReferencedBlobPathnames(record: {
+  parts?: unknown;
+  attachments?: unknown;
+}): string[] {
+  const pathnames = new Set<string>();
+
+  const attachments = parseStored(record.attachments);
+  if (Array.isArray(attachments)) {
+    for (const attachment of attachments) {
+      const pathname = (attachment as Partial<BlobAttachment> | null)?.pathname;
+      if (typeof pathname === "string" && pathname) {
+        pathnames.add(pathname);
+      }
+    }
+  }
+
+  const parts = parseStored(record.parts);
+  if (Array.isArray(parts)) {
+    for (const part of parts as UIMessage["parts"]) {
+      const pathname =
+        part?.type === "file" ? getBlobPathname(part) : undefined;
+      if (pathname) {
+        pathnames.add(pathname);
+      }
+    }
+  }
+
+  return [...pathnames];
+}
+
+// Drop the blob link of a file part, keeping the URL it was sent with
+function unlinkBlob(part: FileUIPart): FileUIPart {
+  const { [BLOB_METADATA_KEY]: _blob, ...providerMetadata } =
+    part.providerMetadata ?? {};
+  return {
+    ...part,
+    providerMetadata: Object.keys(providerMetadata).length
+      ? providerMetadata
+      : undefined,
+  };
+}
+
+/**
+ * Point file parts of private blobs at fresh signed URLs. URLs stored with
+ * a message expire, so they are re-signed whenever messages are read.
+ * Message parts come from clients, so only blobs of the thread owner are
+ * signed; file parts pointing at other blobs are unlinked instead.
+ */
+export async function signBlobUrls<Message extends UIMessage>(
+  messages: Message[],
+  adapter: BlobAdapter | null,
+  ownerId: string | undefined,
+): Promise<Message[]> {
+  if (adapter?.getAccess?.() !== "private" || !adapter.getSignedUrl) {
+    return messages;
+  }
+
+  const getSignedUrl = adapter.getSignedUrl.bind(adapter);
+  const signedUrls = new Map<string, Promise<string>>();
+  const sign = (pathname: string) => {
+    let url = signedUrls.get(pathname);
+    if (!url) {
+      url = getSignedUrl(pathname);
+      signedUrls.set(pathname, url);
+    }
+    return url;
+  };
+
+  return Promise.all(
+    messages.map(async (message) => {
+      if (!message.parts.some((part) => part.type === "file")) {
+        return message;
+      }
+      const parts = await Promise.all(
+        message.parts.map(async (part) => {
+          const pathname =
+            part.type === "file" ? getBlobPathname(part) : undefined;
+          if (!pathname || part.type !== "file") {
+            return part;
+          }
+          if (!ownerId || getBlobOwnerId(pathname) !== ownerId) {
+            return unlinkBlob(part);
+          }
+          return { ...part, url: await sign(pathname) };
+        }),
+      );
+      return { ...message, parts };
+    }),
+  );
+}
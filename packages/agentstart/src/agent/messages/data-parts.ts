@@ -5,6 +5,9 @@ USAGE: Import dataPartSchema and AgentStartDataPart for type-safe custom data
 EXPORTS: dataPartSchema, AgentStartDataPart
 FEATURES:
   - Zod schema for title update events
+  - Tool approval request events for human-in-the-loop tools
+  - Context compaction notices for long threads
+  - Nested sub-agent progress for the task tool
   - Type inference for custom data parts
 SEARCHABLE: data parts, custom events, title update, stream data
 agent-frontmatter:end */
@@ -45,6 +48,33 @@ export const dataPartSchema = z.object({
     usedTurns: z.number().int().nonnegative(),
     message: z.string().optional(),
   }),
+  "agentstart-tool_approval_request": z.object({
+    threadId: z.string(),
+    approvalId: z.string(),
+    toolCallId: z.string(),
+    toolName: z.string(),
+    input: z.unknown().optional(),
+  }),
+  "agentstart-context_compacted": z.object({
+    threadId: z.string(),
+    strategy: z.enum(["summarize", "drop-tool-outputs", "truncate"]),
+    tokensBefore: z.number().int().nonnegative(),
+    tokensAfter: z.number().int().nonnegative(),
+  }),
+  "agentstart-task_progress": z.object({
+    toolCallId: z.string(),
+    agent: z.string(),
+    status: z.enum(["running", "done", "error"]),
+    steps: z.array(
+      z.object({
+        id: z.string(),
+        type: z.enum(["text", "tool"]),
+        title: z.string(),
+        toolName: z.string().optional(),
+        status: z.enum(["running", "done", "error"]),
+      }),
+    ),
+  }),
 });
 
 export type AgentStartDataPart = z.infer<typeof dataPartSchema>;
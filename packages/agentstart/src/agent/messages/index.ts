@@ -2,15 +2,17 @@
 AGENT: Message module exports
 PURPOSE: Central export point for all message-related types, schemas, and utilities
 USAGE: Import message types and converters from this module
-EXPORTS: AgentStartUIMessage, AgentStartDataPart, AgentStartMetadata, AgentStartToolSet, message converters
+EXPORTS: AgentStartUIMessage, AgentStartDataPart, AgentStartMetadata, AgentStartToolSet, message converters, blob attachment helpers, sanitizeSharedMessages
 FEATURES:
   - Re-exports all message types and schemas
   - Provides unified access to message processing utilities
 SEARCHABLE: message exports, message types, message schemas
 agent-frontmatter:end */
 
+export * from "./attachments";
 export * from "./data-parts";
 export * from "./message-processing";
 export * from "./messages";
 export * from "./metadata";
+export * from "./share";
 export * from "./tool";
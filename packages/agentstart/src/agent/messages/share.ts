@@ -0,0 +1,114 @@
+/* agent-frontmatter:start
+AGENT: Shared message sanitizer
+PURPOSE: Strip internals from messages shown through a public share link
+USAGE: const messages = sanitizeSharedMessages(history, context.share)
+EXPORTS: sanitizeSharedMessages
+FEATURES:
+  - Drops provider metadata, tool approval details, data parts and sandbox ids
+  - Optionally removes tool calls and reasoning entirely
+  - Replaces configured absolute path prefixes with "."
+SEARCHABLE: share link, shared thread, sanitize messages, redact paths
+agent-frontmatter:end */
+
+import type { ThreadShareOptions } from "@agentstart/types";
+import { isToolOrDynamicToolUIPart } from "ai";
+import type { AgentStartUIMessage } from "./messages";
+
+type MessagePart = AgentStartUIMessage["parts"][number];
+
+// Keys that only matter to providers and the approval flow
+const INTERNAL_PART_KEYS = ["providerMetadata", "callProviderMetadata"];
+const INTERNAL_TOOL_KEYS = ["approval"];
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function createPathRedactor(prefixes: string[] = []) {
+  const normalized = prefixes
+    .map((prefix) => prefix.replace(/[/\\]+$/, ""))
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length);
+  if (normalized.length === 0) {
+    return <T>(value: T) => value;
+  }
+
+  // A prefix only matches whole path segments, so /app does not touch /apple
+  const pattern = new RegExp(
+    `(?:${normalized.map(escapeRegExp).join("|")})(?![\\w.-])`,
+    "g",
+  );
+
+  const redact = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      return value.replace(pattern, ".");
+    }
+    if (Array.isArray(value)) {
+      return value.map(redact);
+    }
+    if (value && typeof value === "object" && !(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [key, redact(entry)]),
+      );
+    }
+    return value;
+  };
+  return <T>(value: T) => redact(value) as T;
+}
+
+function stripInternals(part: MessagePart): MessagePart {
+  const keys = isToolOrDynamicToolUIPart(part)
+    ? [...INTERNAL_PART_KEYS, ...INTERNAL_TOOL_KEYS]
+    : INTERNAL_PART_KEYS;
+  if (!keys.some((key) => key in part)) {
+    return part;
+  }
+  const copy = { ...part } as Record<string, unknown>;
+  for (const key of keys) {
+    delete copy[key];
+  }
+  return copy as MessagePart;
+}
+
+/**
+ * Prepare stored messages for readers of a share link.
+ *
+ * System messages and data parts are dropped, as are provider metadata,
+ * tool approval details and the sandbox id in message metadata. Sign blob
+ * URLs before calling this; the blob pathname lives in provider metadata.
+ */
+export function sanitizeSharedMessages(
+  messages: AgentStartUIMessage[],
+  options: ThreadShareOptions = {},
+): AgentStartUIMessage[] {
+  const redact = createPathRedactor(options.redactPaths);
+
+  return messages
+    .filter((message) => message.role !== "system")
+    .map((message) => {
+      const parts = message.parts
+        .filter((part) => {
+          if (part.type.startsWith("data-")) {
+            return false;
+          }
+          if (options.hideToolCalls) {
+            return (
+              !isToolOrDynamicToolUIPart(part) && part.type !== "reasoning"
+            );
+          }
+          return true;
+        })
+        .map((part) => redact(stripInternals(part)));
+
+      const sanitized: AgentStartUIMessage = {
+        id: message.id,
+        role: message.role,
+        parts,
+      };
+      if (message.metadata) {
+        const { sandboxId: _sandboxId, ...metadata } = message.metadata;
+        sanitized.metadata = metadata;
+      }
+      return sanitized;
+    });
+}
@@ -6,7 +6,7 @@ EXPORTS: toolInputSchema, toolOutputSchema, ChatToolInput, AgentStartToolOutput,
 FEATURES:
   - Zod schemas for tool inputs and outputs
   - Type inference for tool invocations
-  - Comprehensive tool definitions for read, write, edit, bash, ls, glob, grep, etc.
+  - Comprehensive tool definitions for read, write, edit, bash, process-list/logs/kill, ls, glob, grep, task, web-fetch, web-search, etc.
 SEARCHABLE: tool schema, tool types, thread tools, zod schemas
 agent-frontmatter:end */
 
@@ -35,6 +35,12 @@ export const toolInputSchema = z.object({
       .describe(
         "The number of lines to read. Only provide if the file is too large to read at once.",
       ),
+    pages: z
+      .string()
+      .optional()
+      .describe(
+        'Page range for PDF files, e.g. "3" or "1-5". Defaults to the first 20 pages; read at most 20 pages at a time.',
+      ),
   }),
   // write tool
   write: z.object({
@@ -73,6 +79,31 @@ export const toolInputSchema = z.object({
       .describe(
         "Clear, concise description of what this command does in 5-10 words",
       ),
+    background: z
+      .boolean()
+      .optional()
+      .describe(
+        "Start the command in the background and return a process ID instead of waiting for it (for dev servers and watchers)",
+      ),
+  }),
+  // process-list tool
+  "process-list": z
+    .object({})
+    .describe("List the background processes of the sandbox"),
+  // process-logs tool
+  "process-logs": z.object({
+    processId: z.string().describe("The ID of the background process"),
+    tail: z
+      .number()
+      .int()
+      .min(1)
+      .max(2000)
+      .optional()
+      .describe("Number of trailing lines to return (default: 200)"),
+  }),
+  // process-kill tool
+  "process-kill": z.object({
+    processId: z.string().describe("The ID of the background process to stop"),
   }),
   // ls tool
   ls: z.object({
@@ -188,6 +219,18 @@ export const toolInputSchema = z.object({
   }),
   // todo-read tool
   "todo-read": z.object({}).describe("Read the current todo list"),
+  // task tool
+  task: z.object({
+    agent: z.string().describe("The name of the sub-agent to run"),
+    description: z
+      .string()
+      .describe("A short (3-5 words) description of the task"),
+    prompt: z
+      .string()
+      .describe(
+        "The task for the sub-agent to perform, including all context it needs",
+      ),
+  }),
   // screenshot tool
   screenshot: z
     .object({
@@ -230,6 +273,42 @@ export const toolInputSchema = z.object({
         "Optional time in milliseconds to wait for page load (default: 3000ms)",
       ),
   }),
+  // web-fetch tool
+  "web-fetch": z.object({
+    url: z
+      .url()
+      .describe(
+        "The URL to fetch (must be a fully-formed valid URL, e.g., https://example.com)",
+      ),
+    maxTokens: z
+      .number()
+      .int()
+      .min(100)
+      .max(50000)
+      .optional()
+      .describe(
+        "Optional token budget for the returned content (default: 8000)",
+      ),
+  }),
+  // web-search tool
+  "web-search": z.object({
+    query: z.string().min(1).describe("The search query to use"),
+    maxResults: z
+      .number()
+      .int()
+      .min(1)
+      .max(10)
+      .optional()
+      .describe("Optional maximum number of results (default: 5)"),
+    allowedDomains: z
+      .array(z.string())
+      .optional()
+      .describe("Only include results from these domains"),
+    blockedDomains: z
+      .array(z.string())
+      .optional()
+      .describe("Never include results from these domains"),
+  }),
 });
 
 export const baseToolOutputSchema = z.object({
@@ -247,6 +326,26 @@ export const toolOutputSchema = z.object({
       .object({
         content: z.string().optional(),
         preview: z.string().optional(),
+        image: z
+          .object({
+            mediaType: z.string(),
+            data: z.string().describe("Base64 encoded image data"),
+            width: z.number().optional(),
+            height: z.number().optional(),
+            originalBytes: z.number(),
+            originalSize: z
+              .object({ width: z.number(), height: z.number() })
+              .optional(),
+            resized: z.boolean(),
+          })
+          .optional(),
+        pdf: z
+          .object({
+            first: z.number(),
+            last: z.number(),
+            totalPages: z.number().optional(),
+          })
+          .optional(),
       })
       .optional(),
   }),
@@ -303,6 +402,17 @@ export const toolOutputSchema = z.object({
       })
       .optional(),
   }),
+  // task
+  task: z.object({
+    ...baseToolOutputSchema.shape,
+    metadata: z
+      .object({
+        agent: z.string(),
+        description: z.string().optional(),
+        steps: z.number().optional(),
+      })
+      .optional(),
+  }),
   // bash
   bash: z.object({
     ...baseToolOutputSchema.shape,
@@ -314,6 +424,48 @@ export const toolOutputSchema = z.object({
         exitCode: z.number().optional(),
         duration: z.number().optional(),
         commitHash: z.string().optional(),
+        processId: z.string().optional(),
+      })
+      .optional(),
+  }),
+  // process-list
+  "process-list": z.object({
+    ...baseToolOutputSchema.shape,
+    metadata: z
+      .object({
+        processes: z.array(
+          z.object({
+            id: z.string(),
+            pid: z.number().optional(),
+            command: z.string(),
+            startedAt: z.number(),
+            running: z.boolean(),
+            exitCode: z.number().optional(),
+          }),
+        ),
+      })
+      .optional(),
+  }),
+  // process-logs
+  "process-logs": z.object({
+    ...baseToolOutputSchema.shape,
+    metadata: z
+      .object({
+        processId: z.string(),
+        running: z.boolean(),
+        exitCode: z.number().optional(),
+        stdout: z.string(),
+        stderr: z.string(),
+      })
+      .optional(),
+  }),
+  // process-kill
+  "process-kill": z.object({
+    ...baseToolOutputSchema.shape,
+    metadata: z
+      .object({
+        processId: z.string(),
+        exitCode: z.number().optional(),
       })
       .optional(),
   }),
@@ -392,6 +544,39 @@ export const toolOutputSchema = z.object({
       })
       .optional(),
   }),
+  // web-fetch
+  "web-fetch": z.object({
+    ...baseToolOutputSchema.shape,
+    metadata: z
+      .object({
+        url: z.string(),
+        title: z.string().optional(),
+        contentType: z.string().optional(),
+        status: z.number().optional(),
+        truncated: z.boolean().optional(),
+      })
+      .optional(),
+  }),
+  // web-search
+  "web-search": z.object({
+    ...baseToolOutputSchema.shape,
+    metadata: z
+      .object({
+        query: z.string(),
+        provider: z.string().optional(),
+        results: z
+          .array(
+            z.object({
+              title: z.string(),
+              url: z.string(),
+              snippet: z.string().optional(),
+              publishedAt: z.string().optional(),
+            }),
+          )
+          .optional(),
+      })
+      .optional(),
+  }),
   // screenshot
   screenshot: z.object({
     ...baseToolOutputSchema.shape,
@@ -2,11 +2,16 @@
 AGENT: Agent memory actions
 PURPOSE: Provide persistence helpers backed by the configured db
 USAGE: Import to read or mutate thread and message records
-EXPORTS: updateThreadTitle, upsertMessage, deleteMessagesAfter, loadThread, getCompleteMessages, getThreads
+EXPORTS: updateThreadTitle, upsertMessage, deleteMessagesAfter, loadThread, loadThreadPage, findThreadMessage, loadThreadTree, LoadThreadTreeOptions, ThreadMessageNode, getMessageBranches, copyThreadMessages, getCompleteMessages, getThreads, MessageBranchPoint
 FEATURES:
   - Works with any db implementing the shared MemoryAdapter interface
   - Applies consistent timestamp handling and payload sanitization
   - Uses object-based parameters for extensibility
+  - Stores messages as a parent-id tree and loads one branch at a time
+  - Copies a branch into another thread for forks
+  - Links messages to the uploaded blobs their file parts reference
+  - Pages through a branch with (createdAt, id) cursors, newest messages first
+  - Loads only the windows of older messages a page walks through
 SEARCHABLE: agent actions, memory helpers, thread persistence
 agent-frontmatter:end */
 
@@ -14,9 +19,18 @@ import type {
   MemoryAdapter,
   Where as MemoryAdapterWhere,
 } from "@agentstart/types";
+import { generateId } from "@agentstart/utils";
 import type { UIMessage } from "ai";
-import type { AgentStartUIMessage } from "@/agent/messages";
+import {
+  type AgentStartUIMessage,
+  collectBlobAttachments,
+} from "@/agent/messages";
 import type { DBThread } from "@/memory";
+import {
+  compareByCreatedAtDesc,
+  decodeCursor,
+  encodeCursor,
+} from "./pagination";
 
 export interface MemoryAdapterContextOptions {
   memory: MemoryAdapter;
@@ -48,6 +62,10 @@ export interface UpsertMessagePayload<Message extends UIMessage = UIMessage> {
   id: string;
   threadId: string;
   message: Message;
+  /**
+   * Message this one replies to. Only applied when the message is created.
+   */
+  parentId?: string | null;
 }
 
 export interface UpsertMessageOptions<Message extends UIMessage>
@@ -71,20 +89,20 @@ export async function upsertMessage<Message extends UIMessage>({
     payload.message.metadata !== undefined
       ? JSON.stringify(payload.message.metadata)
       : undefined;
-  const attachmentsValue = (
-    payload.message as {
-      attachments?: unknown;
-    }
-  ).attachments;
-  const serializedAttachments =
-    attachmentsValue !== undefined
-      ? JSON.stringify(attachmentsValue)
-      : undefined;
+  // Messages without explicit attachments record the blobs they reference.
+  // Always written so edits that drop a file release its blob for GC.
+  const attachmentsValue =
+    (
+      payload.message as {
+        attachments?: unknown;
+      }
+    ).attachments ?? collectBlobAttachments(payload.message);
+  const serializedAttachments = JSON.stringify(attachmentsValue);
 
   const updateDocument: Record<string, unknown> = {
     parts: serializedParts,
     ...(serializedMetadata ? { metadata: serializedMetadata } : {}),
-    ...(serializedAttachments ? { attachments: serializedAttachments } : {}),
+    attachments: serializedAttachments,
     updatedAt: now,
   };
 
@@ -94,6 +112,7 @@ export async function upsertMessage<Message extends UIMessage>({
     create: {
       id: payload.id,
       threadId: payload.threadId,
+      ...(payload.parentId ? { parentId: payload.parentId } : {}),
       role: payload.message.role,
       createdAt: now,
     },
@@ -135,99 +154,697 @@ export async function deleteMessagesAfter({
   });
 }
 
+type MessageRecord = Record<string, unknown>;
+
+// Most messages loaded per query while walking a branch towards its root
+const BRANCH_WINDOW_LIMIT = 500;
+
+async function findMessageRecords(memory: MemoryAdapter, threadId: string) {
+  return memory.findMany<MessageRecord>({
+    model: "message",
+    where: [{ field: "threadId", value: threadId }],
+    sortBy: { field: "createdAt", direction: "asc" },
+  });
+}
+
+/**
+ * Map every message to its parent. Threads stored before branching existed
+ * carry no parent ids at all and are read as a single linear branch.
+ */
+function resolveParentIds(records: MessageRecord[]) {
+  const isLinear = !records.some(
+    (record) => typeof record.parentId === "string" && record.parentId,
+  );
+  const parentIds = new Map<string, string | null>();
+
+  records.forEach((record, index) => {
+    const parentId = isLinear
+      ? records[index - 1]?.id
+      : (record.parentId as string | null | undefined);
+    parentIds.set(String(record.id), parentId ? String(parentId) : null);
+  });
+
+  return { parentIds, isLinear };
+}
+
+/**
+ * Walk from a message up to the root and return the ids in thread order.
+ */
+function getBranchPath(parentIds: Map<string, string | null>, leafId: string) {
+  const path: string[] = [];
+  const visited = new Set<string>();
+  let currentId: string | null | undefined = leafId;
+
+  while (currentId && parentIds.has(currentId) && !visited.has(currentId)) {
+    visited.add(currentId);
+    path.push(currentId);
+    currentId = parentIds.get(currentId);
+  }
+
+  return path.reverse();
+}
+
+/**
+ * Create a check for whether a message descends from `messageId` or is the
+ * message itself. Results are remembered so every ancestor chain is walked
+ * only once.
+ */
+function createDescendantCheck(
+  parentIds: Map<string, string | null>,
+  messageId: string,
+) {
+  const descends = new Map<string, boolean>([[messageId, true]]);
+  return (id: string) => {
+    const chain: string[] = [];
+    let currentId: string | null | undefined = id;
+    let result = false;
+    while (currentId) {
+      const known = descends.get(currentId);
+      if (known !== undefined) {
+        result = known;
+        break;
+      }
+      descends.set(currentId, false);
+      chain.push(currentId);
+      currentId = parentIds.get(currentId);
+    }
+    for (const chainId of chain) {
+      descends.set(chainId, result);
+    }
+    return result;
+  };
+}
+
+/**
+ * Pick the leaf of the active branch: the most recent message overall, or
+ * the most recent one below `messageId` when a specific branch is requested.
+ */
+function findActiveLeaf(
+  records: MessageRecord[],
+  parentIds: Map<string, string | null>,
+  messageId?: string,
+) {
+  const isDescendant = messageId
+    ? createDescendantCheck(parentIds, messageId)
+    : () => true;
+  for (let index = records.length - 1; index >= 0; index--) {
+    const leafId = String(records[index]?.id);
+    if (isDescendant(leafId)) {
+      return leafId;
+    }
+  }
+  return undefined;
+}
+
+function toUIMessage<Message extends UIMessage>(
+  record: MessageRecord,
+  threadId: string,
+): Message | undefined {
+  let parts: Message["parts"] | undefined;
+
+  if (Array.isArray(record.parts)) {
+    parts = record.parts as Message["parts"];
+  } else if (typeof record.parts === "string") {
+    try {
+      const parsed = JSON.parse(record.parts);
+      if (Array.isArray(parsed)) {
+        parts = parsed as Message["parts"];
+      }
+    } catch (error) {
+      console.error("Failed to parse message parts", {
+        threadId,
+        messageId: record.id,
+        error,
+      });
+    }
+  }
+  if (!parts || parts.length === 0) {
+    return undefined;
+  }
+  let metadata: Message["metadata"] | undefined;
+  let attachments: unknown;
+  if (typeof record.metadata === "string") {
+    try {
+      metadata = JSON.parse(record.metadata) as Message["metadata"];
+    } catch (error) {
+      console.error("Failed to parse message metadata", {
+        threadId,
+        messageId: record.id,
+        error,
+      });
+    }
+  } else if (typeof record.metadata === "object" && record.metadata !== null) {
+    metadata = JSON.parse(
+      JSON.stringify(record.metadata),
+    ) as Message["metadata"];
+  }
+  if (typeof record.attachments === "string") {
+    try {
+      attachments = JSON.parse(record.attachments);
+    } catch (error) {
+      console.error("Failed to parse message attachments", {
+        threadId,
+        messageId: record.id,
+        error,
+      });
+    }
+  } else if (
+    Array.isArray(record.attachments) ||
+    (typeof record.attachments === "object" && record.attachments !== null)
+  ) {
+    attachments = JSON.parse(JSON.stringify(record.attachments));
+  }
+
+  const message = {
+    id: String(record.id ?? ""),
+    role: record.role as Message["role"],
+    parts,
+    ...(metadata ? { metadata } : {}),
+  } as Message;
+  if (attachments !== undefined) {
+    (message as Message & { attachments?: unknown }).attachments = attachments;
+  }
+  return message;
+}
+
+function toBranchMessages<Message extends UIMessage>(
+  records: MessageRecord[],
+  path: string[],
+  threadId: string,
+) {
+  const recordsById = new Map(
+    records.map((record) => [String(record.id), record]),
+  );
+  return path
+    .map((id) => {
+      const record = recordsById.get(id);
+      return record ? toUIMessage<Message>(record, threadId) : undefined;
+    })
+    .filter((message): message is Message => Boolean(message));
+}
+
 export interface LoadThreadOptions extends MemoryAdapterContextOptions {
   threadId: string;
+  /**
+   * Load the branch that contains this message instead of the active one.
+   * The branch continues to the most recent reply below the message.
+   */
+  messageId?: string;
 }
 
+/**
+ * Load the messages of one branch of a thread, root first.
+ * Defaults to the active branch, the one holding the most recent message.
+ */
 export async function loadThread<Message extends UIMessage>({
   memory,
   threadId,
+  messageId,
 }: LoadThreadOptions): Promise<Message[]> {
-  const records = await memory.findMany<Record<string, unknown>>({
+  const records = await findMessageRecords(memory, threadId);
+  const { parentIds } = resolveParentIds(records);
+  const leafId = findActiveLeaf(records, parentIds, messageId);
+  if (!leafId) {
+    return [];
+  }
+
+  return toBranchMessages<Message>(
+    records,
+    getBranchPath(parentIds, leafId),
+    threadId,
+  );
+}
+
+export interface LoadThreadPageOptions extends LoadThreadOptions {
+  /**
+   * Cursor of the oldest message already loaded; returns the messages
+   * before it. Loads the most recent messages when omitted.
+   */
+  before?: string;
+  limit: number;
+}
+
+type ThreadPage<Message extends UIMessage> = {
+  messages: Message[];
+  previousCursor: string | null;
+};
+
+function getRecordParentId(record: MessageRecord) {
+  return typeof record.parentId === "string" && record.parentId
+    ? record.parentId
+    : undefined;
+}
+
+function toCursorPosition(record: MessageRecord) {
+  return {
+    id: String(record.id),
+    createdAt: record.createdAt as Date | string,
+  };
+}
+
+/**
+ * Pick the most recent record no other record replies to. Messages of one
+ * run can share a timestamp, so the newest record may be a parent.
+ */
+function pickLeafRecord(records: MessageRecord[]) {
+  const parents = new Set(records.map(getRecordParentId));
+  return [...records]
+    .sort((a, b) =>
+      compareByCreatedAtDesc(toCursorPosition(a), toCursorPosition(b)),
+    )
+    .find((record) => !parents.has(String(record.id)));
+}
+
+/**
+ * Find the leaf of the branch to page through without loading older
+ * messages: the most recent message, or the most recent reply below
+ * `messageId`. Resolves to null when the thread or message is empty and to
+ * undefined when the thread has no parent ids to follow.
+ */
+async function findLeafRecord(
+  memory: MemoryAdapter,
+  threadId: string,
+  messageId?: string,
+): Promise<MessageRecord | null | undefined> {
+  if (!messageId) {
+    const [latest] = await memory.findMany<MessageRecord>({
+      model: "message",
+      where: [{ field: "threadId", value: threadId }],
+      sortBy: { field: "createdAt", direction: "desc" },
+      limit: 1,
+    });
+    if (!latest) {
+      return null;
+    }
+    const group = await memory.findMany<MessageRecord>({
+      model: "message",
+      where: [
+        { field: "threadId", value: threadId },
+        {
+          field: "createdAt",
+          value: new Date(latest.createdAt as Date | string),
+        },
+      ],
+      limit: BRANCH_WINDOW_LIMIT,
+    });
+    return pickLeafRecord(group.length > 0 ? group : [latest]) ?? latest;
+  }
+
+  const target = await memory.findOne<MessageRecord>({
     model: "message",
-    where: [{ field: "threadId", value: threadId }],
+    where: [
+      { field: "id", value: messageId },
+      { field: "threadId", value: threadId },
+    ],
+  });
+  if (!target) {
+    return null;
+  }
+  // Replies are never older than the message they descend from
+  const newer = await memory.findMany<MessageRecord>({
+    model: "message",
+    where: [
+      { field: "threadId", value: threadId },
+      {
+        field: "createdAt",
+        operator: "gte",
+        value: new Date(target.createdAt as Date | string),
+      },
+    ],
     sortBy: { field: "createdAt", direction: "asc" },
   });
+  if (!newer.some(getRecordParentId)) {
+    return newer.length > 1 ? undefined : target;
+  }
 
-  return records
-    .map((record: Record<string, unknown>) => {
-      let parts: Message["parts"] | undefined;
-
-      if (Array.isArray(record.parts)) {
-        parts = record.parts as Message["parts"];
-      } else if (typeof record.parts === "string") {
-        try {
-          const parsed = JSON.parse(record.parts);
-          if (Array.isArray(parsed)) {
-            parts = parsed as Message["parts"];
-          }
-        } catch (error) {
-          console.error("Failed to parse message parts", {
-            threadId,
-            messageId: record.id,
-            error,
-          });
-        }
-      }
-      if (!parts || parts.length === 0) {
-        return undefined;
-      }
-      let metadata: Message["metadata"] | undefined;
-      let attachments: unknown;
-      if (typeof record.metadata === "string") {
-        try {
-          metadata = JSON.parse(record.metadata) as Message["metadata"];
-        } catch (error) {
-          console.error("Failed to parse message metadata", {
-            threadId,
-            messageId: record.id,
-            error,
-          });
-        }
-      } else if (
-        typeof record.metadata === "object" &&
-        record.metadata !== null
-      ) {
-        metadata = JSON.parse(
-          JSON.stringify(record.metadata),
-        ) as Message["metadata"];
+  const isDescendant = createDescendantCheck(
+    new Map(
+      newer.map((record) => [
+        String(record.id),
+        getRecordParentId(record) ?? null,
+      ]),
+    ),
+    messageId,
+  );
+  return (
+    pickLeafRecord(newer.filter((record) => isDescendant(String(record.id)))) ??
+    target
+  );
+}
+
+/**
+ * Walk a branch from `leaf` towards its root and return up to `take`
+ * records, leaf first. Older messages are loaded in windows sorted by
+ * createdAt instead of loading the whole thread. Resolves to undefined when
+ * `leaf` has no parent id, as messages stored before branching existed
+ * cannot be told apart from the root of a branch.
+ */
+async function walkBranch(
+  memory: MemoryAdapter,
+  threadId: string,
+  leaf: MessageRecord,
+  take: number,
+): Promise<MessageRecord[] | undefined> {
+  if (!getRecordParentId(leaf)) {
+    return undefined;
+  }
+
+  const windowLimit = Math.min(
+    Math.max(take * 2, BRANCH_WINDOW_LIMIT / 10),
+    BRANCH_WINDOW_LIMIT,
+  );
+  const loaded = new Map<string, MessageRecord>();
+  let boundary = new Date(leaf.createdAt as Date | string);
+  let exhausted = false;
+
+  const branch = [leaf];
+  const visited = new Set([String(leaf.id)]);
+  let parentId = getRecordParentId(leaf);
+  while (parentId && branch.length < take) {
+    while (!loaded.has(parentId) && !exhausted) {
+      const window = await memory.findMany<MessageRecord>({
+        model: "message",
+        where: [
+          { field: "threadId", value: threadId },
+          { field: "createdAt", operator: "lte", value: boundary },
+        ],
+        sortBy: { field: "createdAt", direction: "desc" },
+        limit: windowLimit,
+      });
+      for (const record of window) {
+        loaded.set(String(record.id), record);
       }
-      if (typeof record.attachments === "string") {
-        try {
-          attachments = JSON.parse(record.attachments);
-        } catch (error) {
-          console.error("Failed to parse message attachments", {
-            threadId,
-            messageId: record.id,
-            error,
-          });
-        }
-      } else if (
-        Array.isArray(record.attachments) ||
-        (typeof record.attachments === "object" && record.attachments !== null)
-      ) {
-        attachments = JSON.parse(JSON.stringify(record.attachments));
+      const last = window.at(-1);
+      const oldest = last && new Date(last.createdAt as Date | string);
+      // Stop paging once a window holds nothing older than the last one,
+      // e.g. when more messages than fit in a window share a timestamp
+      exhausted =
+        window.length < windowLimit ||
+        !oldest ||
+        oldest.getTime() >= boundary.getTime();
+      if (oldest) {
+        boundary = oldest;
       }
+    }
 
-      const message = {
-        id: String(record.id ?? ""),
-        role: record.role as Message["role"],
-        parts,
-        ...(metadata ? { metadata } : {}),
-      } as Message;
-      if (attachments !== undefined) {
-        (message as Message & { attachments?: unknown }).attachments =
-          attachments;
-      }
-      return message;
-    })
-    .filter((message): message is Message => Boolean(message));
+    const parent =
+      loaded.get(parentId) ??
+      (await memory.findOne<MessageRecord>({
+        model: "message",
+        where: [
+          { field: "id", value: parentId },
+          { field: "threadId", value: threadId },
+        ],
+      }));
+    if (!parent || visited.has(String(parent.id))) {
+      break;
+    }
+    visited.add(String(parent.id));
+    branch.push(parent);
+    parentId = getRecordParentId(parent);
+  }
+
+  return branch;
+}
+
+/**
+ * Page through a branch from the full message history of a thread.
+ */
+function pageFromRecords<Message extends UIMessage>(
+  records: MessageRecord[],
+  { threadId, messageId, before, limit }: Omit<LoadThreadPageOptions, "memory">,
+): ThreadPage<Message> {
+  const { parentIds } = resolveParentIds(records);
+  const leafId = findActiveLeaf(records, parentIds, messageId);
+  if (!leafId) {
+    return { messages: [], previousCursor: null };
+  }
+
+  const positions = new Map(
+    records.map((record) => [String(record.id), toCursorPosition(record)]),
+  );
+  let path = getBranchPath(parentIds, leafId);
+  if (before) {
+    const cursor = decodeCursor(before);
+    const index = path.indexOf(cursor.id);
+    // Messages of one run can share a timestamp, so prefer the branch order
+    // and compare positions only when the cursor left the branch
+    path =
+      index === -1
+        ? path.filter((id) => {
+            const position = positions.get(id);
+            return position && compareByCreatedAtDesc(position, cursor) > 0;
+          })
+        : path.slice(0, index);
+  }
+
+  const start = Math.max(0, path.length - limit);
+  const oldest = positions.get(path[start] ?? "");
+  return {
+    messages: toBranchMessages<Message>(records, path.slice(start), threadId),
+    previousCursor: start > 0 && oldest ? encodeCursor(oldest) : null,
+  };
+}
+
+/**
+ * Load the last `limit` messages of a branch before a cursor, root first.
+ * `previousCursor` points at the oldest returned message and is null once
+ * the root has been reached.
+ *
+ * Only the messages of the page and the windows walked to find them are
+ * loaded. Threads stored before branching existed are paged from their full
+ * history until their next message gives them parent ids.
+ */
+export async function loadThreadPage<Message extends UIMessage>({
+  memory,
+  threadId,
+  messageId,
+  before,
+  limit,
+}: LoadThreadPageOptions): Promise<ThreadPage<Message>> {
+  const loadAll = async () =>
+    pageFromRecords<Message>(await findMessageRecords(memory, threadId), {
+      threadId,
+      messageId,
+      before,
+      limit,
+    });
+  if (!Number.isFinite(limit)) {
+    return loadAll();
+  }
+
+  // The page before a cursor holds the ancestors of the cursor message
+  const cursor = before ? decodeCursor(before) : undefined;
+  const leaf = cursor
+    ? await memory.findOne<MessageRecord>({
+        model: "message",
+        where: [
+          { field: "id", value: cursor.id },
+          { field: "threadId", value: threadId },
+        ],
+      })
+    : await findLeafRecord(memory, threadId, messageId);
+  if (leaf === null && !cursor) {
+    return { messages: [], previousCursor: null };
+  }
+  if (!leaf) {
+    return loadAll();
+  }
+
+  const skip = cursor ? 1 : 0;
+  const branch = await walkBranch(memory, threadId, leaf, skip + limit + 1);
+  if (!branch) {
+    return loadAll();
+  }
+
+  const page = branch.slice(skip, skip + limit).reverse();
+  const oldest = page[0];
+  return {
+    messages: toBranchMessages<Message>(
+      page,
+      page.map((record) => String(record.id)),
+      threadId,
+    ),
+    previousCursor:
+      branch.length > skip + limit && oldest
+        ? encodeCursor(toCursorPosition(oldest))
+        : null,
+  };
+}
+
+export interface FindThreadMessageOptions extends MemoryAdapterContextOptions {
+  threadId: string;
+  messageId: string;
+}
+
+/**
+ * Find a single message of a thread together with its parent id.
+ */
+export async function findThreadMessage<Message extends UIMessage>({
+  memory,
+  threadId,
+  messageId,
+}: FindThreadMessageOptions): Promise<
+  { message: Message; parentId: string | null } | undefined
+> {
+  const records = await findMessageRecords(memory, threadId);
+  const record = records.find((item) => String(item.id) === messageId);
+  const message = record ? toUIMessage<Message>(record, threadId) : undefined;
+  if (!message) {
+    return undefined;
+  }
+
+  const { parentIds } = resolveParentIds(records);
+  return { message, parentId: parentIds.get(messageId) ?? null };
+}
+
+export interface LoadThreadTreeOptions extends MemoryAdapterContextOptions {
+  threadId: string;
+}
+
+export interface ThreadMessageNode<Message extends UIMessage = UIMessage> {
+  message: Message;
+  parentId: string | null;
+  createdAt: unknown;
+  updatedAt: unknown;
+}
+
+/**
+ * Load every message of a thread across all branches, oldest first, each
+ * with its parent id and stored timestamps.
+ */
+export async function loadThreadTree<Message extends UIMessage>({
+  memory,
+  threadId,
+}: LoadThreadTreeOptions): Promise<ThreadMessageNode<Message>[]> {
+  const records = await findMessageRecords(memory, threadId);
+  const { parentIds } = resolveParentIds(records);
+
+  return records.flatMap((record) => {
+    const message = toUIMessage<Message>(record, threadId);
+    if (!message) {
+      return [];
+    }
+    return [
+      {
+        message,
+        parentId: parentIds.get(message.id) ?? null,
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt,
+      },
+    ];
+  });
+}
+
+export interface MessageBranchPoint {
+  /**
+   * Message the branches reply to, or null for alternative first messages
+   */
+  parentId: string | null;
+  /**
+   * Sibling messages in creation order, one per branch
+   */
+  messageIds: string[];
+}
+
+export interface GetMessageBranchesOptions extends MemoryAdapterContextOptions {
+  threadId: string;
+}
+
+/**
+ * List the points where a thread splits into more than one branch.
+ */
+export async function getMessageBranches({
+  memory,
+  threadId,
+}: GetMessageBranchesOptions): Promise<MessageBranchPoint[]> {
+  const records = await findMessageRecords(memory, threadId);
+  const { parentIds } = resolveParentIds(records);
+  const siblings = new Map<string | null, string[]>();
+
+  for (const [messageId, parentId] of parentIds) {
+    siblings.set(parentId, [...(siblings.get(parentId) ?? []), messageId]);
+  }
+
+  return Array.from(siblings, ([parentId, messageIds]) => ({
+    parentId,
+    messageIds,
+  })).filter((branchPoint) => branchPoint.messageIds.length > 1);
+}
+
+export interface CopyThreadMessagesOptions extends MemoryAdapterContextOptions {
+  threadId: string;
+  targetThreadId: string;
+  /**
+   * Last message to copy. Copies the branch that contains it, up to and
+   * including the message. Defaults to the whole active branch.
+   */
+  upToMessageId?: string;
+}
+
+/**
+ * Copy one branch of a thread into another thread as a linear history.
+ * Copies get new ids but keep their content and timestamps.
+ * Resolves to undefined when `upToMessageId` is not part of the thread.
+ */
+export async function copyThreadMessages({
+  memory,
+  threadId,
+  targetThreadId,
+  upToMessageId,
+}: CopyThreadMessagesOptions): Promise<string[] | undefined> {
+  const records = await findMessageRecords(memory, threadId);
+  const { parentIds } = resolveParentIds(records);
+  if (upToMessageId && !parentIds.has(upToMessageId)) {
+    return undefined;
+  }
+
+  const leafId = findActiveLeaf(records, parentIds, upToMessageId);
+  let path = leafId ? getBranchPath(parentIds, leafId) : [];
+  if (upToMessageId) {
+    path = path.slice(0, path.indexOf(upToMessageId) + 1);
+  }
+
+  const recordsById = new Map(
+    records.map((record) => [String(record.id), record]),
+  );
+  const messageIds: string[] = [];
+  for (const sourceId of path) {
+    const record = recordsById.get(sourceId);
+    if (!record) {
+      continue;
+    }
+    const id = generateId();
+    await memory.create({
+      model: "message",
+      data: {
+        id,
+        threadId: targetThreadId,
+        ...(messageIds.length > 0 ? { parentId: messageIds.at(-1) } : {}),
+        role: record.role,
+        parts: record.parts,
+        ...(record.metadata != null ? { metadata: record.metadata } : {}),
+        ...(record.attachments != null
+          ? { attachments: record.attachments }
+          : {}),
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt,
+      },
+    });
+    messageIds.push(id);
+  }
+
+  return messageIds;
 }
 
 export interface GetThreadsOptions extends MemoryAdapterContextOptions {
   userId?: string;
   limit?: number;
   offset?: number;
+  /**
+   * Extra filters, e.g. on visibility or createdAt
+   */
+  where?: MemoryAdapterWhere[];
 }
 
 export const getThreads = async ({
@@ -235,10 +852,11 @@ export const getThreads = async ({
   userId,
   limit,
   offset,
+  where: filters = [],
 }: GetThreadsOptions): Promise<DBThread[]> => {
-  const where = userId
-    ? ([{ field: "userId", value: userId }] as MemoryAdapterWhere[])
-    : undefined;
+  const where: MemoryAdapterWhere[] = userId
+    ? [{ field: "userId", value: userId }, ...filters]
+    : filters;
 
   const records = await memory.findMany<DBThread>({
     model: "thread",
@@ -255,19 +873,62 @@ export interface GetCompleteMessagesOptions<Message extends UIMessage>
   extends MemoryAdapterContextOptions {
   message: Message;
   threadId: string;
+  /**
+   * Message a new message replies to. Defaults to the end of the active
+   * branch; ignored when the message is already stored.
+   */
+  parentId?: string | null;
 }
 
+/**
+ * Persist the incoming message and return the branch that ends with it.
+ * Sending a stored message again (e.g. to regenerate its reply) keeps the
+ * existing replies as sibling branches instead of deleting them.
+ */
 export async function getCompleteMessages<
   Message extends UIMessage = AgentStartUIMessage,
 >({
   memory,
   message,
   threadId,
+  parentId,
 }: GetCompleteMessagesOptions<Message>): Promise<Message[] | undefined> {
-  await deleteMessagesAfter({ memory, threadId, messageId: message.id });
+  const records = await findMessageRecords(memory, threadId);
+  const { parentIds, isLinear } = resolveParentIds(records);
+
+  // Give linear history explicit parents before the thread starts branching
+  if (isLinear) {
+    await Promise.all(
+      records.slice(1).map((record) =>
+        memory.update({
+          model: "message",
+          where: [{ field: "id", value: String(record.id) }],
+          update: { parentId: parentIds.get(String(record.id)) },
+        }),
+      ),
+    );
+  }
+
+  const isStored = parentIds.has(message.id);
+  const resolvedParentId =
+    parentId !== undefined && (parentId === null || parentIds.has(parentId))
+      ? parentId
+      : (findActiveLeaf(records, parentIds) ?? null);
+
   await upsertMessage({
     memory,
-    payload: { threadId, id: message.id, message },
+    payload: {
+      threadId,
+      id: message.id,
+      message,
+      ...(isStored ? {} : { parentId: resolvedParentId }),
+    },
   });
-  return loadThread<Message>({ memory, threadId });
+
+  const updatedRecords = await findMessageRecords(memory, threadId);
+  return toBranchMessages<Message>(
+    updatedRecords,
+    getBranchPath(resolveParentIds(updatedRecords).parentIds, message.id),
+    threadId,
+  );
 }
@@ -0,0 +1,146 @@
+/* agent-frontmatter:start
+AGENT: Cursor pagination
+PURPOSE: Page through records newest first with stable (createdAt, id) cursors
+USAGE: const { records, nextCursor } = await findPageBefore({ memory, model: "thread", limit: 20 })
+EXPORTS: PageCursor, encodeCursor, decodeCursor, compareByCreatedAtDesc, FindPageBeforeOptions, findPageBefore
+FEATURES:
+  - Opaque cursors that survive records sharing a timestamp
+  - Works with any MemoryAdapter, which sorts by one field only
+  - Skips the total count that offset pagination needs
+SEARCHABLE: cursor pagination, keyset pagination, page cursor, infinite scroll
+agent-frontmatter:end */
+
+import type { MemoryAdapter, Where } from "@agentstart/types";
+import { AgentStartError } from "@agentstart/utils";
+
+// Records sharing one timestamp are loaded as a whole to order them by id
+const TIMESTAMP_GROUP_LIMIT = 1000;
+
+export interface PageCursor {
+  createdAt: Date;
+  id: string;
+}
+
+type CursorRecord = { id: string; createdAt: Date | string };
+
+/**
+ * Encode the position of a record as an opaque cursor string
+ */
+export function encodeCursor(record: CursorRecord): string {
+  return `${new Date(record.createdAt).getTime().toString(36)}.${record.id}`;
+}
+
+/**
+ * Decode a cursor created by encodeCursor
+ */
+export function decodeCursor(cursor: string): PageCursor {
+  const separator = cursor.indexOf(".");
+  const time = Number.parseInt(cursor.slice(0, separator), 36);
+  const id = cursor.slice(separator + 1);
+  if (separator <= 0 || !id || Number.isNaN(time)) {
+    throw new AgentStartError("INVALID_CURSOR", "Invalid pagination cursor");
+  }
+  return { createdAt: new Date(time), id };
+}
+
+/**
+ * Newest first, ties broken by descending id
+ */
+export function compareByCreatedAtDesc(a: CursorRecord, b: CursorRecord) {
+  const delta =
+    new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+  if (delta !== 0) {
+    return delta;
+  }
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+export interface FindPageBeforeOptions {
+  memory: MemoryAdapter;
+  model: string;
+  where?: Where[];
+  /**
+   * Return records older than this cursor; the newest records when omitted
+   */
+  cursor?: string;
+  limit: number;
+}
+
+/**
+ * Load one page of records ordered by (createdAt, id) descending.
+ *
+ * Adapters sort by a single field and order ties differently, so records
+ * sharing the timestamp of a page boundary are loaded together and ordered
+ * here. `nextCursor` is null on the last page.
+ */
+export async function findPageBefore<T extends CursorRecord>({
+  memory,
+  model,
+  where = [],
+  cursor,
+  limit,
+}: FindPageBeforeOptions): Promise<{
+  records: T[];
+  nextCursor: string | null;
+}> {
+  const position = cursor ? decodeCursor(cursor) : undefined;
+  const take = limit + 1;
+
+  const findGroup = async (createdAt: Date) => {
+    const group = await memory.findMany<T>({
+      model,
+      where: [...where, { field: "createdAt", value: createdAt }],
+      limit: TIMESTAMP_GROUP_LIMIT,
+    });
+    return group.sort(compareByCreatedAtDesc);
+  };
+
+  let records: T[] = [];
+  if (position) {
+    const group = await findGroup(position.createdAt);
+    records = group.filter((record) => record.id < position.id).slice(0, take);
+  }
+
+  if (records.length < take) {
+    const older = await memory.findMany<T>({
+      model,
+      where: position
+        ? [
+            ...where,
+            { field: "createdAt", operator: "lt", value: position.createdAt },
+          ]
+        : where,
+      sortBy: { field: "createdAt", direction: "desc" },
+      limit: take - records.length,
+    });
+    records = [...records, ...older.sort(compareByCreatedAtDesc)];
+  }
+
+  const last = records[limit - 1];
+  const next = records[limit];
+  if (
+    last &&
+    next &&
+    new Date(last.createdAt).getTime() === new Date(next.createdAt).getTime() &&
+    (!position ||
+      new Date(last.createdAt).getTime() !== position.createdAt.getTime())
+  ) {
+    // The page ends inside a group of records with the same timestamp,
+    // which the adapter may have cut at an arbitrary id
+    const boundary = new Date(last.createdAt);
+    const group = await findGroup(boundary);
+    records = [
+      ...records.filter(
+        (record) => new Date(record.createdAt).getTime() !== boundary.getTime(),
+      ),
+      ...group,
+    ];
+  }
+
+  const page = records.slice(0, limit);
+  const tail = page[page.length - 1];
+  return {
+    records: page,
+    nextCursor: records.length > limit && tail ? encodeCursor(tail) : null,
+  };
+}
@@ -0,0 +1,333 @@
+/* agent-frontmatter:start
+AGENT: Thread search
+PURPOSE: Find a user's threads by title and message text with highlighted snippets
+USAGE: const results = await searchThreads({ memory, userId, query })
+EXPORTS: SearchSnippet, ThreadSearchMessage, ThreadSearchResult, SearchThreadsOptions, searchThreads, createSearchSnippet
+FEATURES:
+  - Uses MemoryAdapter.search for native full-text search when available
+  - Falls back to `contains` filters on adapters without a search index
+  - Only matches text parts, not tool payloads or JSON keys
+  - Groups matching messages under their thread, title matches first
+  - Searches a user's messages in batches of threads, stopping once enough match
+  - Fetches more candidates when tool payloads crowd out text matches
+SEARCHABLE: thread search, message search, search snippets, highlight
+agent-frontmatter:end */
+
+import type { MemoryAdapter, Where } from "@agentstart/types";
+import { type DBMessage, type DBThread, getSearchTerms } from "@/memory";
+import type { MemoryAdapterContextOptions } from "./index";
+import { findPageBefore } from "./pagination";
+
+// Characters of context kept on each side of the first match
+const SNIPPET_CONTEXT = 60;
+// Threads whose messages are searched per query, keeping `in` filters small
+const THREAD_BATCH_SIZE = 200;
+// Matching messages shown per thread
+const MESSAGES_PER_THREAD = 3;
+// Upper bound on message candidates fetched for one batch of threads
+const MAX_MESSAGE_CANDIDATES = 1000;
+
+export interface SearchSnippet {
+  text: string;
+  /**
+   * Ranges of `text` that match a search term, sorted and non-overlapping
+   */
+  highlights: Array<{ start: number; end: number }>;
+}
+
+export interface ThreadSearchMessage {
+  messageId: string;
+  role: DBMessage["role"];
+  snippet: SearchSnippet;
+  createdAt: Date;
+}
+
+export interface ThreadSearchResult {
+  thread: DBThread;
+  /**
+   * Highlighted title, present when the title itself matches
+   */
+  title?: SearchSnippet;
+  messages: ThreadSearchMessage[];
+}
+
+export interface SearchThreadsOptions extends MemoryAdapterContextOptions {
+  query: string;
+  userId?: string;
+  /**
+   * Maximum number of threads returned. Defaults to 20.
+   */
+  limit?: number;
+}
+
+function findHighlights(text: string, terms: string[]) {
+  const lower = text.toLowerCase();
+  const ranges: Array<{ start: number; end: number }> = [];
+  for (const term of terms) {
+    const needle = term.toLowerCase();
+    for (
+      let start = lower.indexOf(needle);
+      start !== -1;
+      start = lower.indexOf(needle, start + needle.length)
+    ) {
+      ranges.push({ start, end: start + needle.length });
+    }
+  }
+  ranges.sort((a, b) => a.start - b.start);
+
+  const merged: typeof ranges = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+function matchesEveryTerm(text: string, terms: string[]) {
+  const lower = text.toLowerCase();
+  return terms.every((term) => lower.includes(term.toLowerCase()));
+}
+
+/**
+ * Cut `text` around its first match and mark every term inside the excerpt.
+ * Returns undefined when a term is missing from the text.
+ */
+export function createSearchSnippet(
+  text: string,
+  terms: string[],
+): SearchSnippet | undefined {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  if (!terms.length || !matchesEveryTerm(normalized, terms)) {
+    return undefined;
+  }
+  const [first] = findHighlights(normalized, terms);
+  const from = Math.max(0, (first?.start ?? 0) - SNIPPET_CONTEXT);
+  const to = Math.min(
+    normalized.length,
+    (first?.end ?? 0) + SNIPPET_CONTEXT * 2,
+  );
+  const prefix = from > 0 ? "…" : "";
+  const suffix = to < normalized.length ? "…" : "";
+  const excerpt = `${prefix}${normalized.slice(from, to)}${suffix}`;
+
+  return {
+    text: excerpt,
+    highlights: findHighlights(excerpt, terms),
+  };
+}
+
+function getMessageText(record: DBMessage) {
+  let parts: unknown = record.parts;
+  if (typeof parts === "string") {
+    try {
+      parts = JSON.parse(parts);
+    } catch {
+      return "";
+    }
+  }
+  if (!Array.isArray(parts)) {
+    return "";
+  }
+  return parts
+    .filter(
+      (part): part is { type: "text"; text: string } =>
+        part?.type === "text" && typeof part.text === "string",
+    )
+    .map((part) => part.text)
+    .join(" ");
+}
+
+async function findMatches<T>(
+  memory: MemoryAdapter,
+  options: {
+    model: "thread" | "message";
+    field: string;
+    query: string;
+    terms: string[];
+    where: Where[];
+    limit: number;
+  },
+) {
+  const { model, field, query, terms, where, limit } = options;
+  if (memory.search) {
+    return memory.search<T>({
+      model,
+      fields: [field],
+      query,
+      where,
+      limit,
+    });
+  }
+  return memory.findMany<T>({
+    model,
+    where: [
+      ...where,
+      ...terms.map(
+        (term): Where => ({ field, operator: "contains", value: term }),
+      ),
+    ],
+    sortBy: { field: "createdAt", direction: "desc" },
+    limit,
+  });
+}
+
+/**
+ * Find messages whose text parts contain every term, at most `limit`
+ * threads' worth. The index also matches JSON keys and tool payloads, which
+ * are dropped here, so the candidate limit grows until enough text matches.
+ */
+async function findMessageMatches(
+  memory: MemoryAdapter,
+  options: { query: string; terms: string[]; where: Where[]; limit: number },
+) {
+  const { query, terms, where, limit } = options;
+  for (let candidates = limit * MESSAGES_PER_THREAD * 2; ; candidates *= 2) {
+    const records = await findMatches<DBMessage>(memory, {
+      model: "message",
+      field: "parts",
+      query,
+      terms,
+      where,
+      limit: Math.min(candidates, MAX_MESSAGE_CANDIDATES),
+    });
+    const matches = records.flatMap((record) => {
+      const snippet = createSearchSnippet(getMessageText(record), terms);
+      return snippet ? [{ record, snippet }] : [];
+    });
+    const threads = new Set(matches.map(({ record }) => record.threadId));
+    if (
+      records.length < candidates ||
+      threads.size >= limit ||
+      candidates >= MAX_MESSAGE_CANDIDATES
+    ) {
+      return matches;
+    }
+  }
+}
+
+/**
+ * Search thread titles and the text parts of their messages. Without a
+ * `userId` every thread is searched, matching `getThreads`.
+ */
+export async function searchThreads({
+  memory,
+  query,
+  userId,
+  limit = 20,
+}: SearchThreadsOptions): Promise<ThreadSearchResult[]> {
+  const terms = getSearchTerms(query);
+  if (!terms.length) {
+    return [];
+  }
+
+  const titleMatches = await findMatches<DBThread>(memory, {
+    model: "thread",
+    field: "title",
+    query,
+    terms,
+    where: userId ? [{ field: "userId", value: userId }] : [],
+    limit,
+  });
+
+  const results = new Map<string, ThreadSearchResult>();
+  for (const thread of titleMatches) {
+    const title = createSearchSnippet(thread.title, terms);
+    if (title) {
+      results.set(thread.id, { thread, title, messages: [] });
+    }
+  }
+
+  const messagesByThread = new Map<string, ThreadSearchMessage[]>();
+  const addMessages = (
+    matches: Awaited<ReturnType<typeof findMessageMatches>>,
+  ) => {
+    for (const { record, snippet } of matches) {
+      const messages = messagesByThread.get(record.threadId) ?? [];
+      if (messages.length < MESSAGES_PER_THREAD) {
+        messages.push({
+          messageId: record.id,
+          role: record.role,
+          snippet,
+          createdAt: new Date(record.createdAt),
+        });
+      }
+      messagesByThread.set(record.threadId, messages);
+    }
+  };
+  const countResults = () =>
+    new Set([...results.keys(), ...messagesByThread.keys()]).size;
+
+  const threadsById = new Map<string, DBThread>();
+  if (userId) {
+    // Search the user's threads newest first, a batch at a time
+    let cursor: string | undefined;
+    while (countResults() < limit) {
+      const { records, nextCursor } = await findPageBefore<DBThread>({
+        memory,
+        model: "thread",
+        where: [{ field: "userId", value: userId }],
+        cursor,
+        limit: THREAD_BATCH_SIZE,
+      });
+      if (!records.length) {
+        break;
+      }
+      for (const thread of records) {
+        threadsById.set(thread.id, thread);
+      }
+      addMessages(
+        await findMessageMatches(memory, {
+          query,
+          terms,
+          where: [
+            {
+              field: "threadId",
+              operator: "in",
+              value: records.map((thread) => thread.id),
+            },
+          ],
+          limit: limit - countResults(),
+        }),
+      );
+      if (!nextCursor) {
+        break;
+      }
+      cursor = nextCursor;
+    }
+  } else {
+    addMessages(
+      await findMessageMatches(memory, { query, terms, where: [], limit }),
+    );
+    const missing = [...messagesByThread.keys()].filter(
+      (threadId) => !results.has(threadId),
+    );
+    const loaded = missing.length
+      ? await memory.findMany<DBThread>({
+          model: "thread",
+          where: [{ field: "id", operator: "in", value: missing }],
+          limit: missing.length,
+        })
+      : [];
+    for (const thread of loaded) {
+      threadsById.set(thread.id, thread);
+    }
+  }
+
+  for (const [threadId, messages] of messagesByThread) {
+    const existing = results.get(threadId);
+    if (existing) {
+      existing.messages = messages;
+      continue;
+    }
+    const thread = threadsById.get(threadId);
+    if (thread) {
+      results.set(threadId, { thread, messages });
+    }
+  }
+
+  return [...results.values()].slice(0, limit);
+}
@@ -0,0 +1,560 @@
+/* agent-frontmatter:start
+AGENT: Thread export and import
+PURPOSE: Move threads in and out of memory as Markdown, JSON bundles or UIMessage arrays
+USAGE: const result = await exportThread({ memory, thread, format: "json" })
+EXPORTS: THREAD_EXPORT_FORMATS, ThreadExportFormat, THREAD_BUNDLE_VERSION, threadBundleSchema, ThreadBundle, ThreadExport, createThreadBundle, formatThreadMarkdown, exportThread, validateImportedMessages, importThread, exportThreads, importThreads
+FEATURES:
+  - Markdown transcripts of the active branch with tool calls in collapsible sections
+  - Lossless JSON bundles with every branch, todos and the usage summary
+  - Raw AI SDK UIMessage arrays of the active branch
+  - Validates imported messages against data part, metadata and current tool schemas
+  - Mints new ids on import and keeps the branch structure intact
+  - Streams whole databases thread by thread for CLI backups and restores
+SEARCHABLE: thread export, thread import, markdown transcript, json bundle, backup, restore
+agent-frontmatter:end */
+
+import type { AgentStartOptions } from "@agentstart/types";
+import {
+  AgentStartError,
+  generateId,
+  generateUuidFromData,
+} from "@agentstart/utils";
+import {
+  getToolOrDynamicToolName,
+  isToolOrDynamicToolUIPart,
+  type ToolSet,
+  type UIMessage,
+  validateUIMessages,
+} from "ai";
+import z from "zod";
+import { withMCPTools } from "@/agent/mcp";
+import type { AgentStartUIMessage } from "@/agent/messages";
+import { dataPartSchema } from "@/agent/messages/data-parts";
+import { metadataSchema } from "@/agent/messages/metadata";
+import {
+  type DBThread,
+  type DBTodo,
+  getAdapter,
+  threadSchema,
+  todoPayloadSchema,
+} from "@/memory";
+import {
+  loadThread,
+  loadThreadTree,
+  type MemoryAdapterContextOptions,
+} from "./index";
+
+export const THREAD_EXPORT_FORMATS = [
+  "markdown",
+  "json",
+  "uimessages",
+] as const;
+
+export type ThreadExportFormat = (typeof THREAD_EXPORT_FORMATS)[number];
+
+export const THREAD_BUNDLE_VERSION = 1;
+
+const THREAD_PAGE_SIZE = 100;
+
+const bundleMessageSchema = z.object({
+  id: z.string(),
+  parentId: z.string().nullable(),
+  role: z.enum(["system", "user", "assistant"]),
+  parts: z.array(z.any()).min(1),
+  metadata: z.any().optional(),
+  attachments: z.any().optional(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+});
+
+export const threadBundleSchema = z.object({
+  version: z.literal(THREAD_BUNDLE_VERSION),
+  exportedAt: z.coerce.date(),
+  // Share tokens are secrets and usage travels separately
+  thread: threadSchema.omit({ lastContext: true, shareToken: true }).extend({
+    createdAt: z.coerce.date(),
+    updatedAt: z.coerce.date(),
+  }),
+  /**
+   * Every message of every branch, oldest first
+   */
+  messages: z.array(bundleMessageSchema),
+  todos: todoPayloadSchema.nullable(),
+  /**
+   * The thread's AgentUsageSummary, if any run finished
+   */
+  usage: z.any().nullable(),
+});
+
+export type ThreadBundle = z.infer<typeof threadBundleSchema>;
+
+export type ThreadExport =
+  | { format: "markdown"; content: string }
+  | { format: "json"; bundle: ThreadBundle }
+  | { format: "uimessages"; messages: AgentStartUIMessage[] };
+
+function toDate(value: unknown) {
+  const date =
+    value instanceof Date ? value : new Date(value as string | number);
+  return Number.isNaN(date.getTime()) ? new Date() : date;
+}
+
+function parseJson(value: unknown) {
+  if (typeof value !== "string") {
+    return value ?? null;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+export interface CreateThreadBundleOptions extends MemoryAdapterContextOptions {
+  thread: DBThread;
+}
+
+/**
+ * Collect a thread with all of its branches, todos and usage into a bundle
+ * that importThread restores without loss.
+ */
+export async function createThreadBundle({
+  memory,
+  thread,
+}: CreateThreadBundleOptions): Promise<ThreadBundle> {
+  const threadId = String(thread.id);
+  const nodes = await loadThreadTree({ memory, threadId });
+  const todo = await memory.findOne<DBTodo>({
+    model: "todo",
+    where: [{ field: "threadId", value: threadId }],
+  });
+  const {
+    lastContext,
+    shareToken: _shareToken,
+    ...threadFields
+  } = thread as DBThread;
+
+  return {
+    version: THREAD_BUNDLE_VERSION,
+    exportedAt: new Date(),
+    thread: {
+      ...threadFields,
+      id: threadId,
+      compaction: parseJson(thread.compaction),
+      createdAt: toDate(thread.createdAt),
+      updatedAt: toDate(thread.updatedAt),
+    },
+    messages: nodes.map(({ message, parentId, createdAt, updatedAt }) => {
+      const { attachments } = message as UIMessage & { attachments?: unknown };
+      return {
+        id: message.id,
+        parentId,
+        role: message.role,
+        parts: message.parts,
+        ...(message.metadata !== undefined
+          ? { metadata: message.metadata }
+          : {}),
+        ...(attachments !== undefined ? { attachments } : {}),
+        createdAt: toDate(createdAt),
+        updatedAt: toDate(updatedAt),
+      };
+    }),
+    todos: todo ? (parseJson(todo.todos) as DBTodo["todos"]) : null,
+    usage: parseJson(lastContext),
+  };
+}
+
+/**
+ * Wrap text in a code fence longer than any backtick run inside it.
+ */
+function fence(text: string, language = "") {
+  const longestRun = Math.max(
+    0,
+    ...Array.from(text.matchAll(/`+/g), (match) => match[0].length),
+  );
+  const marker = "`".repeat(Math.max(3, longestRun + 1));
+  return `${marker}${language}\n${text}\n${marker}`;
+}
+
+function toJsonBlock(value: unknown) {
+  return fence(
+    typeof value === "string" ? value : JSON.stringify(value, null, 2),
+    typeof value === "string" ? "" : "json",
+  );
+}
+
+function details(summary: string, body: string[]) {
+  return [
+    "<details>",
+    `<summary>${summary}</summary>`,
+    "",
+    ...body,
+    "</details>",
+  ].join("\n");
+}
+
+function formatPart(part: UIMessage["parts"][number]): string | undefined {
+  if (isToolOrDynamicToolUIPart(part)) {
+    const body: string[] = [];
+    if (part.input !== undefined) {
+      body.push("**Input**", "", toJsonBlock(part.input), "");
+    }
+    if (part.state === "output-available") {
+      body.push("**Output**", "", toJsonBlock(part.output), "");
+    } else if (part.state === "output-error") {
+      body.push("**Error**", "", toJsonBlock(part.errorText), "");
+    }
+    return details(
+      `Tool: ${getToolOrDynamicToolName(part)} (${part.state})`,
+      body,
+    );
+  }
+
+  switch (part.type) {
+    case "text":
+      return part.text;
+    case "reasoning":
+      return part.text.trim()
+        ? details("Reasoning", [part.text, ""])
+        : undefined;
+    case "file": {
+      const label = part.filename ?? part.mediaType;
+      return part.mediaType.startsWith("image/")
+        ? `![${label}](${part.url})`
+        : `[${label}](${part.url})`;
+    }
+    case "source-url":
+      return `- [${part.title ?? part.url}](${part.url})`;
+    default:
+      // Data parts, step markers and document sources have no transcript form
+      return undefined;
+  }
+}
+
+const ROLE_HEADINGS: Record<UIMessage["role"], string> = {
+  system: "System",
+  user: "User",
+  assistant: "Assistant",
+};
+
+/**
+ * Render a branch of a thread as a Markdown transcript. Tool calls and
+ * reasoning become collapsible <details> sections.
+ */
+export function formatThreadMarkdown({
+  thread,
+  messages,
+}: {
+  thread: Pick<DBThread, "title">;
+  messages: UIMessage[];
+}): string {
+  const sections = [`# ${thread.title}`];
+
+  for (const message of messages) {
+    const blocks = message.parts
+      .map(formatPart)
+      .filter((block): block is string => Boolean(block?.trim()));
+    if (blocks.length > 0) {
+      sections.push(`## ${ROLE_HEADINGS[message.role]}`, ...blocks);
+    }
+  }
+
+  return `${sections.join("\n\n")}\n`;
+}
+
+export interface ExportThreadOptions extends MemoryAdapterContextOptions {
+  thread: DBThread;
+  format: ThreadExportFormat;
+}
+
+/**
+ * Export a thread. Markdown and UIMessage exports hold the active branch;
+ * JSON bundles hold every branch.
+ */
+export async function exportThread({
+  memory,
+  thread,
+  format,
+}: ExportThreadOptions): Promise<ThreadExport> {
+  if (format === "json") {
+    return { format, bundle: await createThreadBundle({ memory, thread }) };
+  }
+
+  const messages = await loadThread<AgentStartUIMessage>({
+    memory,
+    threadId: String(thread.id),
+  });
+  if (format === "markdown") {
+    return { format, content: formatThreadMarkdown({ thread, messages }) };
+  }
+  return { format, messages };
+}
+
+/**
+ * Check messages against the UIMessage shape, the agent's data part and
+ * metadata schemas and, when given, the input and output schemas of tools.
+ */
+export async function validateImportedMessages({
+  messages,
+  tools,
+}: {
+  messages: UIMessage[];
+  tools?: ToolSet;
+}): Promise<AgentStartUIMessage[]> {
+  if (messages.length === 0) {
+    return [];
+  }
+  try {
+    return await validateUIMessages({
+      messages: messages as AgentStartUIMessage[],
+      // Messages from other apps often carry no metadata at all
+      metadataSchema: metadataSchema.optional(),
+      dataSchemas: dataPartSchema.shape,
+      tools: tools as Parameters<typeof validateUIMessages>[0]["tools"],
+    });
+  } catch (error) {
+    throw new AgentStartError(
+      "INVALID_THREAD_IMPORT",
+      `Imported messages do not match the current schemas: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+}
+
+export interface ImportThreadOptions extends MemoryAdapterContextOptions {
+  /**
+   * A bundle from createThreadBundle or a plain UIMessage array, read as
+   * a single branch
+   */
+  data: ThreadBundle | UIMessage[];
+  /**
+   * Owner of the new thread
+   */
+  userId: string;
+  /**
+   * Defaults to the bundle's title, or "Imported Thread" for message arrays
+   */
+  title?: string;
+  /**
+   * Defaults to the bundle's visibility, or private for message arrays
+   */
+  visibility?: DBThread["visibility"];
+  /**
+   * Tools whose schemas tool parts must match, usually the agent's tools
+   * merged with its MCP tools
+   */
+  tools?: ToolSet;
+  /**
+   * Keep the thread and message ids of the bundle, e.g. when restoring a
+   * backup into an empty database. Defaults to minting new ids.
+   */
+  preserveIds?: boolean;
+}
+
+export interface ImportThreadResult {
+  threadId: string;
+  thread: DBThread;
+  messageIds: string[];
+}
+
+function toBundleMessages(messages: UIMessage[]): ThreadBundle["messages"] {
+  const now = Date.now();
+  return messages.map((message, index) => {
+    const { id, role, parts, metadata, ...rest } = message as UIMessage & {
+      attachments?: unknown;
+    };
+    return {
+      id,
+      parentId: index > 0 ? (messages[index - 1]?.id ?? null) : null,
+      role,
+      parts,
+      ...(metadata !== undefined ? { metadata } : {}),
+      ...(rest.attachments !== undefined
+        ? { attachments: rest.attachments }
+        : {}),
+      // Keep the order stable for adapters that sort by createdAt
+      createdAt: new Date(now + index),
+      updatedAt: new Date(now + index),
+    };
+  });
+}
+
+/**
+ * Create a thread from an exported bundle or a UIMessage array. Everything
+ * is validated before the first record is written.
+ */
+export async function importThread({
+  memory,
+  data,
+  userId,
+  title,
+  visibility,
+  tools,
+  preserveIds = false,
+}: ImportThreadOptions): Promise<ImportThreadResult> {
+  const bundle = Array.isArray(data)
+    ? undefined
+    : threadBundleSchema.parse(data);
+  const messages = bundle?.messages ?? toBundleMessages(data as UIMessage[]);
+
+  await validateImportedMessages({
+    messages: messages.map(({ id, role, parts, metadata }) => ({
+      id,
+      role,
+      parts,
+      ...(metadata !== undefined ? { metadata } : {}),
+    })),
+    tools,
+  });
+
+  const messageIds = new Map(
+    messages.map((message) => [
+      message.id,
+      preserveIds ? message.id : generateId(),
+    ]),
+  );
+  const now = new Date();
+  // Compaction points at a message; drop it when that message is missing
+  const compaction = bundle?.thread.compaction as
+    | { upToMessageId?: string }
+    | null
+    | undefined;
+  const compactedUpTo = compaction?.upToMessageId
+    ? messageIds.get(compaction.upToMessageId)
+    : undefined;
+
+  const thread = (await memory.create({
+    model: "thread",
+    data: {
+      ...(preserveIds && bundle ? { id: bundle.thread.id } : {}),
+      userId,
+      title: title ?? bundle?.thread.title ?? "Imported Thread",
+      visibility: visibility ?? bundle?.thread.visibility ?? "private",
+      pinned: bundle?.thread.pinned ?? false,
+      archived: bundle?.thread.archived ?? false,
+      ...(bundle?.thread.tags ? { tags: bundle.thread.tags } : {}),
+      ...(bundle?.usage ? { lastContext: bundle.usage } : {}),
+      ...(compaction && compactedUpTo
+        ? { compaction: { ...compaction, upToMessageId: compactedUpTo } }
+        : {}),
+      createdAt: bundle?.thread.createdAt ?? now,
+      updatedAt: bundle?.thread.updatedAt ?? now,
+    },
+  })) as DBThread;
+  const threadId = String(thread.id);
+
+  for (const message of messages) {
+    const parentId = message.parentId
+      ? messageIds.get(message.parentId)
+      : undefined;
+    await memory.create({
+      model: "message",
+      data: {
+        id: messageIds.get(message.id),
+        threadId,
+        ...(parentId ? { parentId } : {}),
+        role: message.role,
+        parts: JSON.stringify(message.parts),
+        ...(message.metadata !== undefined
+          ? { metadata: JSON.stringify(message.metadata) }
+          : {}),
+        ...(message.attachments !== undefined
+          ? { attachments: JSON.stringify(message.attachments) }
+          : {}),
+        createdAt: message.createdAt,
+        updatedAt: message.updatedAt,
+      },
+    });
+  }
+
+  if (bundle?.todos) {
+    await memory.create({
+      model: "todo",
+      data: {
+        id: generateUuidFromData(threadId),
+        threadId,
+        todos: bundle.todos,
+        createdAt: now,
+        updatedAt: now,
+      },
+    });
+  }
+
+  return {
+    threadId,
+    thread,
+    messageIds: Array.from(messageIds.values()),
+  };
+}
+
+/**
+ * Yield a bundle for every thread in the database, oldest thread first.
+ */
+export async function* exportThreads(
+  options: AgentStartOptions,
+): AsyncGenerator<ThreadBundle> {
+  const memory = await getAdapter(options);
+  let offset = 0;
+  while (true) {
+    const threads = await memory.findMany<DBThread>({
+      model: "thread",
+      sortBy: { field: "createdAt", direction: "asc" },
+      limit: THREAD_PAGE_SIZE,
+      offset,
+    });
+    for (const thread of threads) {
+      yield await createThreadBundle({ memory, thread });
+    }
+    if (threads.length < THREAD_PAGE_SIZE) {
+      return;
+    }
+    offset += threads.length;
+  }
+}
+
+export interface ImportThreadsResult {
+  imported: number;
+  /**
+   * Ids of bundled threads that already exist and were left untouched
+   */
+  skipped: string[];
+}
+
+/**
+ * Restore bundles with their original ids and owners. Threads that already
+ * exist are skipped, so a restore can be re-run after a failure.
+ */
+export async function importThreads(
+  options: AgentStartOptions,
+  bundles: Iterable<unknown> | AsyncIterable<unknown>,
+): Promise<ImportThreadsResult> {
+  const memory = await getAdapter(options);
+  const tools = await withMCPTools(
+    options.agent?.tools as ToolSet | undefined,
+    options.mcpServers,
+  );
+  const result: ImportThreadsResult = { imported: 0, skipped: [] };
+
+  for await (const data of bundles) {
+    const bundle = threadBundleSchema.parse(data);
+    const existing = await memory.findOne<DBThread>({
+      model: "thread",
+      where: [{ field: "id", value: bundle.thread.id }],
+    });
+    if (existing) {
+      result.skipped.push(bundle.thread.id);
+      continue;
+    }
+    await importThread({
+      memory,
+      data: bundle,
+      userId: bundle.thread.userId,
+      tools,
+      preserveIds: true,
+    });
+    result.imported += 1;
+  }
+
+  return result;
+}
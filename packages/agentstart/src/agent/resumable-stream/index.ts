@@ -0,0 +1,266 @@
+/* agent-frontmatter:start
+AGENT: Resumable run streams
+PURPOSE: Buffer run UI message chunks in secondary memory so clients can reconnect
+USAGE: const live = await bufferRunStream(stream, { secondaryMemory, threadId, runId })
+EXPORTS: bufferRunStream, resumeRunStream, getActiveRunId, requestRunStop
+FEATURES:
+  - Persists chunks in batched segments keyed by thread and run id
+  - Keeps consuming the run after the original client disconnects
+  - Aborts the run when a stop is requested, from any server instance
+  - Replays buffered segments and tails new ones until the run finishes
+  - Uses heartbeats so crashed runs stop being reported as active
+SEARCHABLE: resumable stream, stream buffer, reconnect run, resume thread
+agent-frontmatter:end */
+
+import type { SecondaryMemoryAdapter } from "@agentstart/types";
+
+/** How long buffered segments are kept after they are written (seconds) */
+const SEGMENT_TTL_SECONDS = 60 * 60;
+/** How long a run stays active without a heartbeat (seconds) */
+const ACTIVE_RUN_TTL_SECONDS = 60;
+const HEARTBEAT_INTERVAL_MS = 20_000;
+const STOP_POLL_INTERVAL_MS = 1000;
+const FLUSH_INTERVAL_MS = 100;
+const POLL_INTERVAL_MS = 250;
+
+interface BufferedSegment<CHUNK> {
+  chunks: CHUNK[];
+  done: boolean;
+}
+
+interface RunStreamOptions {
+  secondaryMemory: SecondaryMemoryAdapter;
+  threadId: string;
+}
+
+function activeRunKey(threadId: string) {
+  return `agentstart:thread:${threadId}:active-run`;
+}
+
+function segmentKey(threadId: string, runId: string, index: number) {
+  return `agentstart:thread:${threadId}:run:${runId}:${index}`;
+}
+
+function stopRunKey(threadId: string, runId: string) {
+  return `agentstart:thread:${threadId}:run:${runId}:stop`;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Get the id of the run currently streaming for a thread, if any.
+ */
+export async function getActiveRunId({
+  secondaryMemory,
+  threadId,
+}: RunStreamOptions): Promise<string | null> {
+  return secondaryMemory.get(activeRunKey(threadId));
+}
+
+/**
+ * Ask the thread's active run to stop. The instance buffering the run polls
+ * for the request and aborts it. Returns false when no run is active.
+ */
+export async function requestRunStop(
+  options: RunStreamOptions,
+): Promise<boolean> {
+  const runId = await getActiveRunId(options);
+  if (!runId) {
+    return false;
+  }
+  await options.secondaryMemory.set(
+    stopRunKey(options.threadId, runId),
+    "1",
+    ACTIVE_RUN_TTL_SECONDS,
+  );
+  return true;
+}
+
+/**
+ * Tee a run stream into secondary memory.
+ *
+ * The source stream is always consumed to completion, so the run finishes and
+ * persists its response even when the returned live stream is cancelled by a
+ * disconnected client. Only a stop request aborts it, through `abortController`.
+ */
+export async function bufferRunStream<CHUNK>(
+  stream: ReadableStream<CHUNK>,
+  options: RunStreamOptions & {
+    runId: string;
+    abortController?: AbortController;
+  },
+): Promise<ReadableStream<CHUNK>> {
+  const { secondaryMemory, threadId, runId, abortController } = options;
+  const markActive = () =>
+    secondaryMemory.set(activeRunKey(threadId), runId, ACTIVE_RUN_TTL_SECONDS);
+
+  await markActive();
+
+  let pending: CHUNK[] = [];
+  let segmentIndex = 0;
+  let flushTimer: ReturnType<typeof setTimeout> | undefined;
+  let writes = Promise.resolve();
+
+  const flush = (done: boolean) => {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = undefined;
+    }
+    if (pending.length === 0 && !done) {
+      return;
+    }
+
+    const segment: BufferedSegment<CHUNK> = { chunks: pending, done };
+    const key = segmentKey(threadId, runId, segmentIndex++);
+    pending = [];
+    writes = writes
+      .then(() =>
+        secondaryMemory.set(key, JSON.stringify(segment), SEGMENT_TTL_SECONDS),
+      )
+      .catch((error) => {
+        console.error("Failed to buffer run stream segment:", error);
+      });
+  };
+
+  const heartbeat = setInterval(() => {
+    markActive().catch((error) => {
+      console.error("Failed to refresh active run heartbeat:", error);
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref?.();
+
+  const stopPoll = abortController
+    ? setInterval(() => {
+        secondaryMemory
+          .get(stopRunKey(threadId, runId))
+          .then((stop) => {
+            if (stop) {
+              abortController.abort();
+            }
+          })
+          .catch((error) => {
+            console.error("Failed to check for a run stop request:", error);
+          });
+      }, STOP_POLL_INTERVAL_MS)
+    : undefined;
+  stopPoll?.unref?.();
+
+  let liveController!: ReadableStreamDefaultController<CHUNK>;
+  let detached = false;
+  const live = new ReadableStream<CHUNK>({
+    start(controller) {
+      liveController = controller;
+    },
+    cancel() {
+      // The client went away; keep consuming so the run can be resumed
+      detached = true;
+    },
+  });
+
+  const pump = async () => {
+    const reader = stream.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        pending.push(value);
+        flushTimer ??= setTimeout(() => flush(false), FLUSH_INTERVAL_MS);
+
+        if (!detached) {
+          liveController.enqueue(value);
+        }
+      }
+    } catch (error) {
+      console.error("Run stream failed while buffering:", error);
+      if (!detached) {
+        detached = true;
+        liveController.error(error);
+      }
+    } finally {
+      clearInterval(heartbeat);
+      clearInterval(stopPoll);
+      flush(true);
+      await writes;
+
+      // A newer run may already own the thread; only clear our own marker
+      if ((await secondaryMemory.get(activeRunKey(threadId))) === runId) {
+        await secondaryMemory.delete(activeRunKey(threadId));
+      }
+      if (abortController) {
+        await secondaryMemory.delete(stopRunKey(threadId, runId));
+      }
+
+      if (!detached) {
+        liveController.close();
+      }
+    }
+  };
+
+  void pump().catch((error) => {
+    console.error("Failed to finalize buffered run stream:", error);
+  });
+
+  return live;
+}
+
+/**
+ * Replay the buffered chunks of the thread's active run, then tail new
+ * chunks until the run finishes. Returns an empty stream when no run is active.
+ */
+export async function resumeRunStream<CHUNK>(
+  options: RunStreamOptions & { signal?: AbortSignal },
+): Promise<ReadableStream<CHUNK>> {
+  const { secondaryMemory, threadId, signal } = options;
+  const runId = await getActiveRunId(options);
+  let segmentIndex = 0;
+  let cancelled = false;
+
+  return new ReadableStream<CHUNK>({
+    async pull(controller) {
+      if (!runId) {
+        controller.close();
+        return;
+      }
+
+      while (!cancelled && !signal?.aborted) {
+        const key = segmentKey(threadId, runId, segmentIndex);
+        let raw = await secondaryMemory.get(key);
+
+        if (!raw) {
+          const activeRunId = await getActiveRunId(options);
+          if (activeRunId !== runId) {
+            // The run ended; its final segment is written before the marker is cleared
+            raw = await secondaryMemory.get(key);
+            if (!raw) {
+              controller.close();
+              return;
+            }
+          } else {
+            await sleep(POLL_INTERVAL_MS);
+            continue;
+          }
+        }
+
+        const segment = JSON.parse(raw) as BufferedSegment<CHUNK>;
+        segmentIndex++;
+        for (const chunk of segment.chunks) {
+          controller.enqueue(chunk);
+        }
+        if (segment.done) {
+          controller.close();
+        }
+        return;
+      }
+
+      controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+}
@@ -9,14 +9,22 @@ FEATURES:
   - Persists thread messages and metadata to database
   - Generates thread titles and suggestions automatically
   - Fixes empty assistant messages from tool-only responses
+  - Applies per-tool approval policies and resumes approved tool calls
+  - Compacts long threads for the model while keeping stored history intact
+  - Binds the task tool to the configured sub-agent registry
+  - Passes the configured web search provider and bash policy to tools
+  - Requires approval for bash commands the bash policy flags
+  - Merges namespaced tools from the configured MCP servers
 SEARCHABLE: agent run, run orchestrator, message streaming, thread persistence
 agent-frontmatter:end */
 
+import { getBlob } from "@agentstart/blob";
 import type { DBThread } from "@agentstart/memory";
 import type {
   AgentGenerateSuggestionsOptions,
   AgentGenerateTitleOptions,
   AgentStartOptions,
+  ContextCompactionOptions,
   MemoryAdapter,
   RuntimeContext,
 } from "@agentstart/types";
@@ -24,6 +32,7 @@ import { generateId } from "@agentstart/utils";
 import {
   convertToModelMessages,
   createUIMessageStream,
+  type LanguageModel,
   type ModelMessage,
   type UIMessage,
   type UIMessageStreamOnFinishCallback,
@@ -35,12 +44,19 @@ import {
   createUsageSummary,
   mergeUsageSummaries,
 } from "@/agent/usage";
-import type { BaseAgent } from "./agent";
+import { type BaseAgent, withAgentSettings } from "./agent";
+import {
+  applyToolApprovalPolicies,
+  withToolApprovalRequests,
+} from "./approval";
+import { compactMessages, type ThreadCompaction } from "./compaction";
 import { countAssistantTurns, normalizeMaxTurns } from "./limits/max-turns";
+import { withMCPTools } from "./mcp";
 import {
   type AgentStartUIMessage,
   dataPartSchema,
   metadataSchema,
+  signBlobUrls,
 } from "./messages";
 import {
   addProviderOptionsToMessages,
@@ -52,6 +68,8 @@ import {
   updateThreadTitle,
   upsertMessage,
 } from "./persistence";
+import { applyBashPolicy } from "./tools/bash/policy";
+import { applySubAgents } from "./tools/task";
 
 type InferUIMessageMetadata<T extends UIMessage> = T extends UIMessage<
   infer METADATA
@@ -77,6 +95,11 @@ interface StartOptions {
   input: {
     message: AgentStartUIMessage;
     modelId?: string;
+    /**
+     * Message the input replies to when it starts a new branch.
+     * Defaults to the end of the thread's active branch.
+     */
+    parentId?: string | null;
   };
   runtimeContext: Omit<RuntimeContext, "writer">;
   onFinish?: RunOnFinishCallback;
@@ -141,15 +164,9 @@ export class Run {
 
       if (requestedModel) {
         // Create a temporary agent with the requested model
-        // We need to cast because we're creating a new instance with the same constructor
-        agent = new (
-          baseAgent.constructor as new (
-            settings: typeof baseAgent.settings,
-          ) => BaseAgent
-        )({
-          ...baseAgent.settings,
+        agent = withAgentSettings(baseAgent, {
           model: requestedModel,
-        }) as BaseAgent;
+        });
 
         modelId = options.input.modelId;
       } else {
@@ -170,28 +187,78 @@ export class Run {
           : baseAgent.settings.model.modelId;
     }
 
+    // Point the task tool at the configured sub-agents, if the agent uses it
+    const subAgentTools = applySubAgents(
+      agent.settings.tools,
+      this.agentStartOptions.subAgents,
+      {
+        toolApproval: this.agentStartOptions.toolApproval,
+        bashPolicy: this.agentStartOptions.bashPolicy,
+      },
+    );
+    if (subAgentTools !== agent.settings.tools) {
+      agent = withAgentSettings(agent, {
+        tools: subAgentTools,
+      });
+    }
+
+    // Add the tools discovered on the configured MCP servers
+    const mcpTools = await withMCPTools(
+      agent.settings.tools,
+      this.agentStartOptions.mcpServers,
+    );
+    if (mcpTools !== agent.settings.tools) {
+      agent = withAgentSettings(agent, { tools: mcpTools });
+    }
+
+    // Require approval for tools covered by the configured policies
+    if (this.agentStartOptions.toolApproval) {
+      agent = withAgentSettings(agent, {
+        tools: applyToolApprovalPolicies(
+          agent.settings.tools,
+          this.agentStartOptions.toolApproval,
+        ),
+      });
+    }
+
+    // Pause bash commands that the policy marks as require-approval
+    if (this.agentStartOptions.bashPolicy) {
+      agent = withAgentSettings(agent, {
+        tools: applyBashPolicy(
+          agent.settings.tools,
+          this.agentStartOptions.bashPolicy,
+        ),
+      });
+    }
+
     // Ensure message has metadata with defaults
     ensureMessageMetadata(options.input.message, {
       createdAt,
       modelId: modelId,
     });
 
-    const uiMessages = (await getCompleteMessages({
-      memory: options.runtimeContext.memory,
-      message: options.input.message,
-      threadId: options.runtimeContext.threadId,
-    })) ?? [options.input.message];
+    const threadRecord = await options.runtimeContext.memory.findOne<DBThread>({
+      model: "thread",
+      where: [{ field: "id", value: options.runtimeContext.threadId }],
+    });
+
+    // Stored URLs of private blobs have expired; the model needs fresh ones
+    const uiMessages = await signBlobUrls(
+      (await getCompleteMessages({
+        memory: options.runtimeContext.memory,
+        message: options.input.message,
+        threadId: options.runtimeContext.threadId,
+        parentId: options.input.parentId,
+      })) ?? [options.input.message],
+      await getBlob(this.agentStartOptions),
+      threadRecord?.userId,
+    );
 
     const normalizedMaxTurns = normalizeMaxTurns(
       this.agentStartOptions.maxTurns,
     );
     const assistantTurnsBeforeRun = countAssistantTurns(uiMessages);
 
-    const threadRecord = await options.runtimeContext.memory.findOne<DBThread>({
-      model: "thread",
-      where: [{ field: "id", value: options.runtimeContext.threadId }],
-    });
-
     let aggregatedUsageSummary = deserializeUsageSummary(
       threadRecord?.lastContext,
     );
@@ -223,8 +290,20 @@ export class Run {
           generateTitle: this.agentStartOptions.advanced?.generateTitle,
         });
 
+        // Older turns may be compacted; the stored history stays untouched
+        const modelViewMessages = await this.maybeCompactMessages({
+          writer,
+          uiMessages: validatedMessages,
+          threadId: options.runtimeContext.threadId,
+          memory: options.runtimeContext.memory,
+          compaction: threadRecord?.compaction,
+          maxTokens: aggregatedUsageSummary?.maxTokens,
+          model: agent.settings.model,
+          options: this.agentStartOptions.compaction,
+        });
+
         // Prepare the model messages
-        const converted = convertToModelMessages(validatedMessages, {
+        const converted = convertToModelMessages(modelViewMessages, {
           tools: agent.settings.tools,
         });
 
@@ -255,8 +334,12 @@ export class Run {
             runtimeContext: {
               writer,
               threadId: options.runtimeContext.threadId,
+              userId: options.runtimeContext.userId,
               sandbox: options.runtimeContext.sandbox,
               memory: options.runtimeContext.memory,
+              webSearch: this.agentStartOptions.webSearch,
+              webFetch: this.agentStartOptions.webFetch,
+              bashPolicy: this.agentStartOptions.bashPolicy,
             },
           },
           abortSignal: options.abortSignal,
@@ -271,7 +354,7 @@ export class Run {
 
         result.consumeStream();
 
-        writer.merge(
+        const uiMessageStream: Parameters<typeof writer.merge>[0] =
           result.toUIMessageStream({
             sendReasoning: true,
             messageMetadata: (options) => {
@@ -349,7 +432,13 @@ export class Run {
                 }
               }
             },
-          }),
+          });
+
+        writer.merge(
+          withToolApprovalRequests(
+            uiMessageStream,
+            options.runtimeContext.threadId,
+          ),
         );
       },
       onFinish: async (setting) => {
@@ -364,6 +453,7 @@ export class Run {
               id: setting.responseMessage.id,
               threadId: options.runtimeContext.threadId,
               message: setting.responseMessage,
+              parentId: options.input.message.id,
             },
           });
         }
@@ -453,6 +543,75 @@ export class Run {
     }
   }
 
+  /**
+   * Compact the messages sent to the model once the thread nears the
+   * context window, persisting new compactions on the thread.
+   *
+   * @param uiMessages - Validated thread messages
+   * @param compaction - Compaction stored by a previous run
+   * @param maxTokens - Context window reported for the thread's model
+   * @param options - Compaction configuration
+   */
+  private async maybeCompactMessages<Message extends UIMessage>({
+    writer,
+    uiMessages,
+    threadId,
+    memory,
+    compaction,
+    maxTokens,
+    model,
+    options,
+  }: {
+    writer: UIMessageStreamWriter<AgentStartUIMessage>;
+    uiMessages: Message[];
+    threadId: string;
+    memory: MemoryAdapter;
+    compaction?: ThreadCompaction | null;
+    maxTokens?: number;
+    model: LanguageModel;
+    options?: ContextCompactionOptions;
+  }): Promise<Message[]> {
+    // Only compact if config is provided
+    if (!options) {
+      return uiMessages;
+    }
+
+    const result = await compactMessages({
+      messages: uiMessages,
+      options,
+      compaction,
+      model,
+      maxTokens,
+    });
+
+    if (!result.compaction) {
+      return result.messages;
+    }
+
+    try {
+      await memory.update({
+        model: "thread",
+        where: [{ field: "id", value: threadId }],
+        update: { compaction: result.compaction },
+      });
+    } catch (error) {
+      console.error("Failed to persist thread compaction:", error);
+    }
+
+    writer.write({
+      type: "data-agentstart-context_compacted",
+      data: {
+        threadId,
+        strategy: result.compaction.strategy,
+        tokensBefore: result.compaction.tokensBefore,
+        tokensAfter: result.compaction.tokensAfter,
+      },
+      transient: true,
+    });
+
+    return result.messages;
+  }
+
   /**
    * Generate thread suggestions after the agent response completes.
    * Analyzes the conversation context and produces follow-up prompts.
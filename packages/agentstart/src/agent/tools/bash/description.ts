@@ -31,6 +31,7 @@ Usage notes:
 
 - The command argument is required.
 - You can specify an optional timeout in milliseconds (up to 600000ms / 10 minutes). If not specified, commands will timeout after 120000ms (2 minutes).
+- Set background to true for commands that keep running, such as dev servers or file watchers. The tool returns a process ID after a few seconds of startup output instead of waiting. Use the process-logs tool to read its output, the process-list tool to see running processes and the process-kill tool to stop it. Do not append \`&\` to run commands in the background.
 - It is very helpful if you write a clear, concise description of what this command does in 5-10 words.
 - If the output exceeds 30000 characters, output will be truncated before being returned to you.
 - VERY IMPORTANT: You MUST avoid using search commands like \`find\` and \`grep\`. Instead use Grep, Glob, or Task to search. You MUST avoid read tools like \`cat\`, \`head\`, \`tail\`, and \`ls\`, and use Read and LS to read files.
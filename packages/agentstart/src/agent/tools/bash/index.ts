@@ -5,6 +5,9 @@ USAGE: Register the "bash" tool when composing the agent configuration to expose
 EXPORTS: bash
 FEATURES:
   - Bridges sandbox APIs into the Bash workflow
+  - Refuses commands denied by the configured bash policy and audits every decision
+  - Starts background processes and returns their handle ID
+  - Streams a throttled rolling tail of stdout and stderr while commands run
   - Streams structured progress updates and normalizes tool output
 SEARCHABLE: packages, agentstart, src, agent, tools, bash, index, tool, runtime
 agent-frontmatter:end */
@@ -19,21 +22,60 @@ import {
 import { commitChanges } from "@/agent/tools/commit-changes";
 import { getRichError } from "@/agent/tools/get-rich-error";
 import description from "./description";
+import {
+  describeBashPolicyDecision,
+  evaluateBashPolicy,
+  recordBashPolicyDecision,
+} from "./policy";
 
 // Constants
 const MAX_OUTPUT_LENGTH = 30000; // Maximum output length (30000 characters)
 const DEFAULT_TIMEOUT = 120000; // Default timeout (2 minutes)
 const MAX_TIMEOUT = 600000; // Maximum timeout (10 minutes)
+const BACKGROUND_STARTUP_WAIT = 3000; // Startup output collected for background commands
+const STREAM_THROTTLE = 250; // Minimum time between streamed output updates
+const STREAM_TAIL_LENGTH = 10000; // Trailing characters of each stream shown while running
+
+// Truncate output if it exceeds maximum length
+const truncateOutput = (str: string) => {
+  if (str.length > MAX_OUTPUT_LENGTH) {
+    return `${str.slice(0, MAX_OUTPUT_LENGTH)}\n\n(Output was truncated due to length limit)`;
+  }
+  return str;
+};
+
+// Keep the trailing characters of a stream, starting at a line boundary
+const appendTail = (tail: string, chunk: string) => {
+  const next = tail + chunk;
+  if (next.length <= STREAM_TAIL_LENGTH) {
+    return next;
+  }
+  const sliced = next.slice(-STREAM_TAIL_LENGTH);
+  const newline = sliced.indexOf("\n");
+  return newline === -1 ? sliced : sliced.slice(newline + 1);
+};
+
+// Resolve after the promise settles or the delay passes, whichever is first
+const settleOrDelay = async (promise: Promise<unknown>, delay: number) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  await Promise.race([
+    promise.catch(() => undefined),
+    new Promise((resolve) => {
+      timer = setTimeout(resolve, delay);
+    }),
+  ]);
+  clearTimeout(timer);
+};
 
 export const bash = tool({
   description,
   inputSchema: toolInputSchema.shape.bash,
   outputSchema: toolOutputSchema.shape.bash,
   async *execute(
-    { command, timeout, description },
-    { experimental_context: context },
+    { command, timeout, description, background },
+    { experimental_context: context, toolCallId },
   ) {
-    const { sandbox } = context as RuntimeContext;
+    const { sandbox, bashPolicy, threadId, userId } = context as RuntimeContext;
 
     // Check if sandbox is configured
     if (!sandbox) {
@@ -48,6 +90,27 @@ export const bash = tool({
       return;
     }
 
+    // Check the command against the configured policy
+    if (bashPolicy) {
+      const decision = evaluateBashPolicy(command, bashPolicy);
+      await recordBashPolicyDecision(bashPolicy, decision, {
+        toolCallId,
+        threadId,
+        userId,
+      });
+
+      if (decision.action === "deny") {
+        const message = describeBashPolicyDecision(decision);
+        yield {
+          status: "error" as const,
+          prompt: message,
+          error: { message },
+          metadata: { description },
+        } satisfies AgentStartToolOutput["bash"];
+        return;
+      }
+    }
+
     // Calculate effective timeout (not exceeding maximum)
     const effectiveTimeout = Math.min(timeout || DEFAULT_TIMEOUT, MAX_TIMEOUT);
 
@@ -58,6 +121,65 @@ export const bash = tool({
       metadata: { description },
     } satisfies AgentStartToolOutput["bash"];
 
+    // Background commands return a process handle instead of waiting
+    if (background) {
+      if (!sandbox.bash.spawn) {
+        yield {
+          status: "error" as const,
+          prompt: "Background commands are not supported by this sandbox",
+          error: {
+            message:
+              "The configured sandbox adapter cannot start background processes. Run the command without background instead.",
+          },
+          metadata: { description },
+        } satisfies AgentStartToolOutput["bash"];
+        return;
+      }
+
+      try {
+        const handle = await sandbox.bash.spawn(
+          command,
+          timeout ? { timeout: Math.min(timeout, MAX_TIMEOUT) } : {},
+        );
+
+        // Give the process a moment so startup output and early exits show up
+        await settleOrDelay(handle.wait(), BACKGROUND_STARTUP_WAIT);
+
+        const stdout = handle.stdout;
+        const stderr = handle.stderr;
+        const output = [stdout, stderr].filter(Boolean).join("\n");
+
+        yield {
+          status: "done" as const,
+          metadata: {
+            description,
+            stdout: truncateOutput(stdout),
+            stderr: truncateOutput(stderr),
+            exitCode: handle.exitCode,
+            processId: handle.id,
+          },
+          prompt:
+            handle.exitCode !== undefined
+              ? `Background process ${handle.id} exited with code ${handle.exitCode}:\n${truncateOutput(output) || "(no output)"}`
+              : `Started background process ${handle.id}${handle.pid ? ` (pid ${handle.pid})` : ""}. Use the process-logs tool to read its output and the process-kill tool to stop it.${output ? `\n\nOutput so far:\n${truncateOutput(output)}` : ""}`,
+        } satisfies AgentStartToolOutput["bash"];
+      } catch (error) {
+        const richError = getRichError({
+          action: "start background bash command",
+          args: { command },
+          error,
+        });
+
+        yield {
+          status: "error" as const,
+          prompt: richError.message,
+          error: richError.error,
+          metadata: { description },
+        } satisfies AgentStartToolOutput["bash"];
+      }
+      return;
+    }
+
     try {
       // Get git status before executing command
       let statusBefore: GitStatus | null = null;
@@ -68,18 +190,46 @@ export const bash = tool({
         statusBefore = null;
       }
 
-      // Execute the command using the Bash adapter
-      const result = await sandbox.bash.$({
+      // Execute the command using the Bash adapter, collecting output as it arrives
+      let stdoutTail = "";
+      let stderrTail = "";
+      let hasNewOutput = false;
+      const execution = sandbox.bash.$({
         timeout: effectiveTimeout,
+        onStdout: (data) => {
+          stdoutTail = appendTail(stdoutTail, data);
+          hasNewOutput = true;
+        },
+        onStderr: (data) => {
+          stderrTail = appendTail(stderrTail, data);
+          hasNewOutput = true;
+        },
       })`${command}`;
 
-      // Truncate output if it exceeds maximum length
-      const truncateOutput = (str: string) => {
-        if (str.length > MAX_OUTPUT_LENGTH) {
-          return `${str.slice(0, MAX_OUTPUT_LENGTH)}\n\n(Output was truncated due to length limit)`;
+      let finished = false;
+      execution.then(
+        () => {
+          finished = true;
+        },
+        () => {
+          finished = true;
+        },
+      );
+
+      // Stream the output tail as preliminary results until the command exits
+      while (!finished) {
+        await settleOrDelay(execution, STREAM_THROTTLE);
+        if (!finished && hasNewOutput) {
+          hasNewOutput = false;
+          yield {
+            status: "pending" as const,
+            prompt: `Executing: ${command}`,
+            metadata: { description, stdout: stdoutTail, stderr: stderrTail },
+          } satisfies AgentStartToolOutput["bash"];
         }
-        return str;
-      };
+      }
+
+      const result = await execution;
 
       // Combine stdout and stderr for output
       const stdout = result.stdout?.toString() || "";
@@ -117,8 +267,9 @@ export const bash = tool({
                 commitHash,
               },
               prompt: result.stderr
-                ? `Command failed with exit code ${result.exitCode}:\n${stderr || stdout}`
-                : stdout || "Command executed successfully (no output)",
+                ? `Command failed with exit code ${result.exitCode}:\n${truncateOutput(stderr || stdout)}`
+                : truncateOutput(stdout) ||
+                  "Command executed successfully (no output)",
             } satisfies AgentStartToolOutput["bash"];
           } else {
             yield {
@@ -131,8 +282,9 @@ export const bash = tool({
                 duration: result.duration,
               },
               prompt: result.stderr
-                ? `Command failed with exit code ${result.exitCode}:\n${stderr || stdout}`
-                : stdout || "Command executed successfully (no output)",
+                ? `Command failed with exit code ${result.exitCode}:\n${truncateOutput(stderr || stdout)}`
+                : truncateOutput(stdout) ||
+                  "Command executed successfully (no output)",
             } satisfies AgentStartToolOutput["bash"];
           }
         } catch (commitError) {
@@ -152,8 +304,9 @@ export const bash = tool({
               duration: result.duration,
             },
             prompt: result.stderr
-              ? `Command failed with exit code ${result.exitCode}:\n${stderr || stdout}`
-              : stdout || "Command executed successfully (no output)",
+              ? `Command failed with exit code ${result.exitCode}:\n${truncateOutput(stderr || stdout)}`
+              : truncateOutput(stdout) ||
+                "Command executed successfully (no output)",
           } satisfies AgentStartToolOutput["bash"];
         }
       } else {
@@ -168,8 +321,9 @@ export const bash = tool({
             duration: result.duration,
           },
           prompt: result.stderr
-            ? `Command failed with exit code ${result.exitCode}:\n${stderr || stdout}`
-            : stdout || "Command executed successfully (no output)",
+            ? `Command failed with exit code ${result.exitCode}:\n${truncateOutput(stderr || stdout)}`
+            : truncateOutput(stdout) ||
+              "Command executed successfully (no output)",
         } satisfies AgentStartToolOutput["bash"];
       }
     } catch (error) {
@@ -0,0 +1,596 @@
+/* agent-frontmatter:start
+AGENT: Bash command policy
+PURPOSE: Evaluate allow, deny and require-approval rules for commands run by the bash tool
+USAGE: const decision = evaluateBashPolicy(command, options.bashPolicy)
+EXPORTS: parseBashCommand, evaluateBashPolicy, describeBashPolicyDecision, recordBashPolicyDecision, applyBashPolicy
+FEATURES:
+  - Splits pipelines, &&/|| chains, ; lists, subshells and command substitutions
+  - Honors quotes, escapes, redirections, comments and heredocs
+  - Looks through env assignments, wrappers such as sudo or env, and sh -c scripts
+  - Denies a chain when any command is denied; requires approval when any needs it
+  - Maps require-approval decisions onto the bash tool's needsApproval
+  - Matches flags in any order and grouped or split
+  - Requires approval for programs named by variables and denied commands behind unknown wrappers
+  - Sends every decision to the audit hook when one is configured
+SEARCHABLE: bash policy, command policy, allow list, deny list, shell parser, audit
+agent-frontmatter:end */
+
+import type {
+  BashCommandPolicy,
+  BashPolicyAuditContext,
+  BashPolicyDecision,
+  BashPolicyRule,
+} from "@agentstart/types";
+import type { Tool, ToolSet } from "ai";
+
+// Words that start a compound command rather than naming a program
+const RESERVED_WORDS = new Set([
+  "!",
+  "{",
+  "}",
+  "do",
+  "done",
+  "elif",
+  "else",
+  "esac",
+  "fi",
+  "if",
+  "then",
+  "until",
+  "while",
+]);
+
+// Segments that only declare loop or case variables
+const DECLARATION_WORDS = new Set(["case", "for", "select", "function"]);
+
+// Programs that run the command given in their arguments, with the
+// options that take a value
+const WRAPPERS = new Map<string, Set<string>>([
+  ["builtin", new Set()],
+  ["command", new Set()],
+  ["doas", new Set(["-C", "-u"])],
+  ["env", new Set(["-C", "-u", "--chdir", "--unset"])],
+  ["exec", new Set(["-a"])],
+  ["ionice", new Set(["-c", "-n", "-p"])],
+  ["nice", new Set(["-n", "--adjustment"])],
+  ["nohup", new Set()],
+  ["setsid", new Set()],
+  ["stdbuf", new Set(["-e", "-i", "-o"])],
+  [
+    "sudo",
+    new Set(["-C", "-D", "-g", "-p", "-R", "-r", "-T", "-t", "-U", "-u"]),
+  ],
+  ["time", new Set(["-f", "-o"])],
+  ["timeout", new Set(["-k", "-s", "--kill-after", "--signal"])],
+  ["xargs", new Set(["-a", "-d", "-E", "-I", "-L", "-n", "-P", "-s"])],
+]);
+
+const SHELLS = new Set(["ash", "bash", "dash", "ksh", "sh", "zsh"]);
+
+const ASSIGNMENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+/**
+ * Index of the `)` closing a group opened just before `start`
+ */
+function findClosingParen(source: string, start: number) {
+  let depth = 1;
+  let index = start;
+  while (index < source.length) {
+    const char = source[index];
+    if (char === "\\") {
+      index += 2;
+      continue;
+    }
+    if (char === "'" || char === '"') {
+      const end = source.indexOf(char, index + 1);
+      index = end === -1 ? source.length : end + 1;
+      continue;
+    }
+    if (char === "(") {
+      depth++;
+    } else if (char === ")") {
+      depth--;
+      if (depth === 0) {
+        return index;
+      }
+    }
+    index++;
+  }
+  return source.length;
+}
+
+/**
+ * Split a shell command line into the words of each simple command
+ */
+function splitCommands(source: string): string[][] {
+  const segments: string[][] = [];
+  const heredocs: string[] = [];
+  let words: string[] = [];
+  let word = "";
+  let inWord = false;
+  let skipWord = false;
+  let heredocWord = false;
+
+  const endWord = () => {
+    if (inWord) {
+      if (heredocWord) {
+        heredocs.push(word);
+      } else if (!skipWord) {
+        words.push(word);
+      }
+      skipWord = false;
+      heredocWord = false;
+    }
+    word = "";
+    inWord = false;
+  };
+
+  const endSegment = () => {
+    endWord();
+    if (words.length > 0) {
+      segments.push(words);
+    }
+    words = [];
+  };
+
+  // Parse `$(...)` or backtick bodies as commands of their own
+  const substitute = (body: string, raw: string) => {
+    segments.push(...splitCommands(body));
+    word += raw;
+    inWord = true;
+  };
+
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index]!;
+
+    if (char === "\\") {
+      if (source[index + 1] !== "\n") {
+        word += source[index + 1] ?? "";
+        inWord = true;
+      }
+      index += 2;
+      continue;
+    }
+
+    if (char === "'") {
+      const end = source.indexOf("'", index + 1);
+      const stop = end === -1 ? source.length : end;
+      word += source.slice(index + 1, stop);
+      inWord = true;
+      index = stop + 1;
+      continue;
+    }
+
+    if (char === '"') {
+      inWord = true;
+      index++;
+      while (index < source.length && source[index] !== '"') {
+        if (source[index] === "\\" && index + 1 < source.length) {
+          word += source[index + 1];
+          index += 2;
+        } else if (source.startsWith("$(", index)) {
+          const end = findClosingParen(source, index + 2);
+          substitute(
+            source.slice(index + 2, end),
+            source.slice(index, end + 1),
+          );
+          index = end + 1;
+        } else if (source[index] === "`") {
+          const end = source.indexOf("`", index + 1);
+          const stop = end === -1 ? source.length : end;
+          substitute(
+            source.slice(index + 1, stop),
+            source.slice(index, stop + 1),
+          );
+          index = stop + 1;
+        } else {
+          word += source[index];
+          index++;
+        }
+      }
+      index++;
+      continue;
+    }
+
+    // Arithmetic expansion holds no commands
+    if (source.startsWith("$((", index)) {
+      const end = source.indexOf("))", index + 3);
+      const stop = end === -1 ? source.length : end + 2;
+      word += source.slice(index, stop);
+      inWord = true;
+      index = stop;
+      continue;
+    }
+
+    if (source.startsWith("$(", index)) {
+      const end = findClosingParen(source, index + 2);
+      substitute(source.slice(index + 2, end), source.slice(index, end + 1));
+      index = end + 1;
+      continue;
+    }
+
+    if (char === "`") {
+      const end = source.indexOf("`", index + 1);
+      const stop = end === -1 ? source.length : end;
+      substitute(source.slice(index + 1, stop), source.slice(index, stop + 1));
+      index = stop + 1;
+      continue;
+    }
+
+    if (char === "#" && !inWord) {
+      const end = source.indexOf("\n", index);
+      index = end === -1 ? source.length : end;
+      continue;
+    }
+
+    if (char === "\n") {
+      endSegment();
+      index++;
+      // Heredoc bodies are input, not commands
+      while (heredocs.length > 0 && index < source.length) {
+        const end = source.indexOf("\n", index);
+        const stop = end === -1 ? source.length : end;
+        if (source.slice(index, stop).trim() === heredocs[0]) {
+          heredocs.shift();
+        }
+        index = stop + 1;
+      }
+      continue;
+    }
+
+    if (char === " " || char === "\t" || char === "\r") {
+      endWord();
+      index++;
+      continue;
+    }
+
+    if (char === ">" || char === "<") {
+      // A leading file descriptor number belongs to the redirection
+      if (inWord && /^\d+$/.test(word)) {
+        word = "";
+        inWord = false;
+      } else {
+        endWord();
+      }
+
+      // Process substitution runs a command of its own
+      if (source[index + 1] === "(") {
+        const end = findClosingParen(source, index + 2);
+        segments.push(...splitCommands(source.slice(index + 2, end)));
+        index = end + 1;
+        continue;
+      }
+
+      if (source.startsWith("<<<", index)) {
+        index += 3;
+        skipWord = true;
+      } else if (source.startsWith("<<", index)) {
+        index += source[index + 2] === "-" ? 3 : 2;
+        heredocWord = true;
+      } else {
+        index++;
+        while (source[index] === ">" || source[index] === "|") {
+          index++;
+        }
+        if (source[index] === "&") {
+          index++;
+        }
+        skipWord = true;
+      }
+      continue;
+    }
+
+    if (char === "&" && source[index + 1] === ">") {
+      endWord();
+      index += source[index + 2] === ">" ? 3 : 2;
+      skipWord = true;
+      continue;
+    }
+
+    if (
+      char === ";" ||
+      char === "&" ||
+      char === "|" ||
+      char === "(" ||
+      char === ")"
+    ) {
+      endSegment();
+      index++;
+      continue;
+    }
+
+    word += char;
+    inWord = true;
+    index++;
+  }
+
+  endSegment();
+  return segments;
+}
+
+function basename(program: string) {
+  const slash = program.lastIndexOf("/");
+  return slash === -1 ? program : program.slice(slash + 1);
+}
+
+/**
+ * Reduce a simple command to the program it runs and that program's
+ * arguments, collecting commands hidden in wrappers and `sh -c` scripts
+ */
+function normalizeSegment(words: string[], nested: string[][]): string[] {
+  let start = 0;
+  const skip = (predicate: (word: string) => boolean) => {
+    while (start < words.length && predicate(words[start]!)) {
+      start++;
+    }
+  };
+
+  skip((word) => RESERVED_WORDS.has(word));
+  if (start < words.length && DECLARATION_WORDS.has(words[start]!)) {
+    return [];
+  }
+  skip((word) => ASSIGNMENT_PATTERN.test(word));
+
+  while (start < words.length && WRAPPERS.has(basename(words[start]!))) {
+    const wrapper = basename(words[start]!);
+    const valueOptions = WRAPPERS.get(wrapper)!;
+    start++;
+    while (
+      start < words.length &&
+      (words[start]!.startsWith("-") || ASSIGNMENT_PATTERN.test(words[start]!))
+    ) {
+      start += valueOptions.has(words[start]!) ? 2 : 1;
+    }
+    // timeout takes a duration before the command
+    if (wrapper === "timeout" && start < words.length) {
+      start++;
+    }
+  }
+
+  const rest = words.slice(start);
+  if (rest.length === 0) {
+    return [];
+  }
+  const program = basename(rest[0]!);
+  const args = rest.slice(1);
+
+  if (SHELLS.has(program)) {
+    const scriptIndex = args.findIndex(
+      (arg) =>
+        arg.startsWith("-") && !arg.startsWith("--") && arg.includes("c"),
+    );
+    const script = scriptIndex === -1 ? undefined : args[scriptIndex + 1];
+    if (script !== undefined) {
+      nested.push(...parseBashCommand(script));
+    }
+  } else if (program === "eval" && args.length > 0) {
+    nested.push(...parseBashCommand(args.join(" ")));
+  }
+
+  return [program, ...args];
+}
+
+/**
+ * Split a command line into its simple commands. Each entry holds the
+ * program name (without its directory) followed by its arguments, with
+ * quotes removed and redirections dropped. Commands inside substitutions,
+ * subshells and `sh -c` scripts are returned as separate entries.
+ *
+ * @example
+ * ```ts
+ * parseBashCommand("cd app && FOO=1 npm test | tee out.log")
+ * // [["cd", "app"], ["npm", "test"], ["tee"]]
+ * ```
+ */
+export function parseBashCommand(command: string): string[][] {
+  const result: string[][] = [];
+  for (const words of splitCommands(command)) {
+    const nested: string[][] = [];
+    const normalized = normalizeSegment(words, nested);
+    if (normalized.length > 0) {
+      result.push(normalized);
+    }
+    result.push(...nested);
+  }
+  return result;
+}
+
+/**
+ * Split arguments into flags and operands. Grouped short flags are split
+ * (`-rf` is `-r` and `-f`), long flags lose their `=value` and everything
+ * after `--` is an operand.
+ */
+function splitArguments(args: string[]) {
+  const flags = new Set<string>();
+  const operands: string[] = [];
+  let inOptions = true;
+  for (const arg of args) {
+    if (inOptions && arg === "--") {
+      inOptions = false;
+    } else if (inOptions && /^--[^-]/.test(arg)) {
+      flags.add(arg.split("=")[0]!);
+    } else if (inOptions && /^-[^-]/.test(arg)) {
+      for (const letter of arg.slice(1)) {
+        flags.add(`-${letter}`);
+      }
+    } else {
+      operands.push(arg);
+    }
+  }
+  return { flags, operands };
+}
+
+function matchesPattern(pattern: string | RegExp, words: string[]) {
+  if (pattern instanceof RegExp) {
+    pattern.lastIndex = 0;
+    return pattern.test(words.join(" "));
+  }
+
+  const [program, ...args] = pattern.trim().split(/\s+/).filter(Boolean);
+  if (!program || (program !== "*" && basename(program) !== words[0])) {
+    return false;
+  }
+  // Flags match in any order, so `rm -rf /` also covers `rm -r -f /`
+  const expected = splitArguments(args);
+  const actual = splitArguments(words.slice(1));
+  return (
+    [...expected.flags].every((flag) => actual.flags.has(flag)) &&
+    expected.operands.length <= actual.operands.length &&
+    expected.operands.every(
+      (part, index) => part === "*" || part === actual.operands[index],
+    )
+  );
+}
+
+function matchesRule(rule: BashPolicyRule, words: string[]) {
+  if (
+    rule.commands &&
+    !rule.commands.some((name) => basename(name) === words[0])
+  ) {
+    return false;
+  }
+  if (rule.match !== undefined && !matchesPattern(rule.match, words)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Decide one simple command. Commands whose program only a variable or
+ * substitution names, and commands that pass a denied command to a program
+ * the parser does not know as a wrapper, need at least approval.
+ */
+function evaluateSegment(
+  command: string,
+  words: string[],
+  policy: BashCommandPolicy,
+): BashPolicyDecision {
+  const rule = policy.rules.find((candidate) => matchesRule(candidate, words));
+  let action = rule?.action ?? policy.default ?? "allow";
+  let matched = rule;
+
+  if (/[$`]/.test(words[0] ?? "")) {
+    action = action === "deny" ? "deny" : "require-approval";
+  } else if (action === "allow") {
+    for (let index = 1; index < words.length; index++) {
+      const rest = [basename(words[index]!), ...words.slice(index + 1)];
+      const wrapped = policy.rules.find(
+        (candidate) =>
+          candidate.action === "deny" && matchesRule(candidate, rest),
+      );
+      if (wrapped) {
+        action = "require-approval";
+        matched = wrapped;
+        break;
+      }
+    }
+  }
+
+  return {
+    action,
+    command,
+    segment: words.join(" "),
+    ...(matched ? { rule: matched } : {}),
+  };
+}
+
+/**
+ * Decide whether a command may run. The first denied command wins, then
+ * the first one that needs approval; otherwise the chain is allowed.
+ */
+export function evaluateBashPolicy(
+  command: string,
+  policy: BashCommandPolicy,
+): BashPolicyDecision {
+  const fallback = policy.default ?? "allow";
+  let pending: BashPolicyDecision | undefined;
+  let allowed: BashPolicyDecision | undefined;
+
+  for (const words of parseBashCommand(command)) {
+    const decision = evaluateSegment(command, words, policy);
+
+    if (decision.action === "deny") {
+      return decision;
+    }
+    if (decision.action === "require-approval") {
+      pending ??= decision;
+    } else {
+      allowed ??= decision;
+    }
+  }
+
+  return pending ?? allowed ?? { action: fallback, command };
+}
+
+function describeRule(rule: BashPolicyRule) {
+  if (rule.name) {
+    return rule.name;
+  }
+  if (rule.match !== undefined) {
+    return String(rule.match);
+  }
+  return rule.commands?.length ? rule.commands.join(", ") : "match all";
+}
+
+/**
+ * Explain a denial to the model so it can pick another approach
+ */
+export function describeBashPolicyDecision(decision: BashPolicyDecision) {
+  const target = decision.segment ?? decision.command;
+  if (!decision.rule) {
+    return `Command denied by bash policy: "${target}" is not allowed by any rule.`;
+  }
+  const reason = decision.rule.reason ? ` ${decision.rule.reason}` : "";
+  return `Command denied by bash policy rule "${describeRule(decision.rule)}" (matched "${target}").${reason}`;
+}
+
+/**
+ * Hand a decision to the policy's audit hook, if one is configured
+ */
+export async function recordBashPolicyDecision(
+  policy: BashCommandPolicy,
+  decision: BashPolicyDecision,
+  context: BashPolicyAuditContext,
+) {
+  if (!policy.onDecision) {
+    return;
+  }
+
+  try {
+    await policy.onDecision(decision, context);
+  } catch (error) {
+    console.error("Failed to record bash policy decision:", error);
+  }
+}
+
+/**
+ * Pause bash calls that the policy marks as require-approval. Denied calls
+ * skip approval since the tool refuses them anyway; other calls keep any
+ * approval policy already set on the tool.
+ */
+export function applyBashPolicy<TOOLS extends ToolSet>(
+  tools: TOOLS | undefined,
+  policy: BashCommandPolicy | undefined,
+): TOOLS | undefined {
+  const bash = tools?.bash;
+  if (!tools || !bash || !policy) {
+    return tools;
+  }
+
+  const previous = bash.needsApproval;
+  const needsApproval: Tool["needsApproval"] = async (input, options) => {
+    const { action } = evaluateBashPolicy(
+      String((input as { command?: unknown })?.command ?? ""),
+      policy,
+    );
+    if (action !== "allow") {
+      return action === "require-approval";
+    }
+    return typeof previous === "function"
+      ? previous(input, options)
+      : (previous ?? false);
+  };
+
+  return { ...tools, bash: { ...bash, needsApproval } };
+}
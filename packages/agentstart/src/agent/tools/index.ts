@@ -6,8 +6,11 @@ EXPORTS: Tools, AgentStartToolCall, AgentStartToolResult, agentTools, osTools, w
 FEATURES:
   - Collects sandbox-aware tool implementations in a single map
   - Organizes tools by category (inner, os, web)
+  - Includes the task tool for delegating to configured sub-agents
+  - Includes webFetch and webSearch backed by a pluggable search provider
+  - Includes process tools for background commands started by bash
   - Provides typed tool call and result types
-SEARCHABLE: tool registry, agent tools, inner tools, os tools
+SEARCHABLE: tool registry, agent tools, inner tools, os tools, web tools
 agent-frontmatter:end */
 
 import type { TypedToolCall, TypedToolResult } from "ai";
@@ -16,9 +19,15 @@ import { edit } from "./edit";
 import { glob } from "./glob";
 import { grep } from "./grep";
 import { ls } from "./ls";
+import { processKill } from "./process-kill";
+import { processList } from "./process-list";
+import { processLogs } from "./process-logs";
 import { read } from "./read";
+import { task } from "./task";
 import { todoRead } from "./todo-read";
 import { todoWrite } from "./todo-write";
+import { webFetch } from "./web-fetch";
+import { webSearch } from "./web-search";
 import { write } from "./write";
 
 const tools = {
@@ -27,9 +36,15 @@ const tools = {
   glob,
   grep,
   ls,
+  processKill,
+  processList,
+  processLogs,
   read,
+  task,
   todoRead,
   todoWrite,
+  webFetch,
+  webSearch,
   write,
 } as const;
 
@@ -38,6 +53,7 @@ export type AgentStartToolCall = TypedToolCall<Tools>;
 export type AgentStartToolResult = TypedToolResult<Tools>;
 
 export const agentTools = {
+  task,
   todoRead,
   todoWrite,
 } as const;
@@ -47,7 +63,13 @@ export const osTools = {
   glob,
   grep,
   ls,
+  processKill,
+  processList,
+  processLogs,
   read,
   write,
 } as const;
-export const webTools = {} as const;
+export const webTools = {
+  webFetch,
+  webSearch,
+} as const;
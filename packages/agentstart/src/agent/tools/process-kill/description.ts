@@ -0,0 +1,18 @@
+/* agent-frontmatter:start
+AGENT: Agent runtime tool metadata
+PURPOSE: Provides prompt guidance and guardrails for the Process Kill tool.
+USAGE: Referenced by the "process-kill" tool definition to describe expected behavior.
+EXPORTS: default
+FEATURES:
+  - Summarizes capabilities, inputs, and cautions for Process Kill
+  - Feeds documentation into adapter surfaces when exposing the tool
+SEARCHABLE: packages, agentstart, src, agent, tools, process, kill, description, tool, runtime
+agent-frontmatter:end */
+
+export default `Stops a background process started with the bash tool's background option, together with the processes it started.
+
+Usage:
+- The processId argument is required. It is returned by the bash tool and the process-list tool.
+- Stop dev servers and watchers once you no longer need them
+- Stop a server before starting it again on the same port
+`;
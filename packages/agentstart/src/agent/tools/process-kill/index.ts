@@ -0,0 +1,119 @@
+/* agent-frontmatter:start
+AGENT: Agent runtime tool module
+PURPOSE: Implements Process Kill tool execution within the AgentStart runtime.
+USAGE: Register the "process-kill" tool next to "bash" so the agent can stop background processes.
+EXPORTS: processKill
+FEATURES:
+  - Stops a background process and the processes it started
+  - Escalates to SIGKILL when the process ignores SIGTERM
+SEARCHABLE: packages, agentstart, src, agent, tools, process, kill, background, tool, runtime
+agent-frontmatter:end */
+
+import type { RuntimeContext, ShellCommandHandle } from "@agentstart/types";
+import { tool } from "ai";
+import {
+  type AgentStartToolOutput,
+  toolInputSchema,
+  toolOutputSchema,
+} from "@/agent/messages/tool";
+import { getRichError } from "@/agent/tools/get-rich-error";
+import description from "./description";
+
+const KILL_GRACE_PERIOD = 5000; // Time given to exit before SIGKILL
+
+async function waitForExit(handle: ShellCommandHandle, timeout: number) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  await Promise.race([
+    handle.wait().catch(() => undefined),
+    new Promise((resolve) => {
+      timer = setTimeout(resolve, timeout);
+    }),
+  ]);
+  clearTimeout(timer);
+  return handle.exitCode !== undefined;
+}
+
+export const processKill = tool({
+  description,
+  inputSchema: toolInputSchema.shape["process-kill"],
+  outputSchema: toolOutputSchema.shape["process-kill"],
+  async *execute({ processId }, { experimental_context: context }) {
+    const { sandbox } = context as RuntimeContext;
+
+    if (!sandbox?.bash.getProcess) {
+      yield {
+        status: "error" as const,
+        prompt: "Background processes are not supported",
+        error: {
+          message: sandbox
+            ? "The configured sandbox adapter cannot run background processes."
+            : "Process tools require a sandbox to be configured. Please configure a sandbox adapter in your AgentStart options.",
+        },
+      } satisfies AgentStartToolOutput["process-kill"];
+      return;
+    }
+
+    const handle = sandbox.bash.getProcess(processId);
+    if (!handle) {
+      const message = `No background process with ID ${processId}. Use the process-list tool to see the available processes.`;
+      yield {
+        status: "error" as const,
+        prompt: message,
+        error: { message },
+      } satisfies AgentStartToolOutput["process-kill"];
+      return;
+    }
+
+    if (handle.exitCode !== undefined) {
+      yield {
+        status: "done" as const,
+        metadata: { processId, exitCode: handle.exitCode },
+        prompt: `Process ${processId} already exited with code ${handle.exitCode}.`,
+      } satisfies AgentStartToolOutput["process-kill"];
+      return;
+    }
+
+    try {
+      await handle.kill();
+      if (!(await waitForExit(handle, KILL_GRACE_PERIOD))) {
+        await handle.kill("SIGKILL");
+        await waitForExit(handle, KILL_GRACE_PERIOD);
+      }
+
+      yield {
+        status: "done" as const,
+        metadata: { processId, exitCode: handle.exitCode },
+        prompt:
+          handle.exitCode !== undefined
+            ? `Stopped process ${processId}.`
+            : `Sent SIGKILL to process ${processId}, but it has not exited yet.`,
+      } satisfies AgentStartToolOutput["process-kill"];
+    } catch (error) {
+      const richError = getRichError({
+        action: "kill background process",
+        args: { processId },
+        error,
+      });
+
+      yield {
+        status: "error" as const,
+        prompt: richError.message,
+        error: richError.error,
+        metadata: { processId },
+      } satisfies AgentStartToolOutput["process-kill"];
+    }
+  },
+  toModelOutput: (output) => {
+    if (output.error) {
+      return {
+        type: "error-text" as const,
+        value: output.prompt,
+      };
+    }
+
+    return {
+      type: "text" as const,
+      value: output.prompt,
+    };
+  },
+});
@@ -0,0 +1,18 @@
+/* agent-frontmatter:start
+AGENT: Agent runtime tool metadata
+PURPOSE: Provides prompt guidance and guardrails for the Process List tool.
+USAGE: Referenced by the "process-list" tool definition to describe expected behavior.
+EXPORTS: default
+FEATURES:
+  - Summarizes capabilities, inputs, and cautions for Process List
+  - Feeds documentation into adapter surfaces when exposing the tool
+SEARCHABLE: packages, agentstart, src, agent, tools, process, list, description, tool, runtime
+agent-frontmatter:end */
+
+export default `Lists the background processes started with the bash tool's background option, including ones that already exited.
+
+Usage:
+- This tool takes in no parameters. So leave the input blank or empty.
+- Returns each process ID, its command, whether it is still running and its exit code once it has exited
+- Use it to find the process ID of a dev server before reading its logs or stopping it
+`;
@@ -0,0 +1,76 @@
+/* agent-frontmatter:start
+AGENT: Agent runtime tool module
+PURPOSE: Implements Process List tool execution within the AgentStart runtime.
+USAGE: Register the "process-list" tool next to "bash" so the agent can track background processes.
+EXPORTS: processList
+FEATURES:
+  - Lists background processes started by the bash tool
+  - Reports whether each process is running and its exit code
+SEARCHABLE: packages, agentstart, src, agent, tools, process, list, background, tool, runtime
+agent-frontmatter:end */
+
+import type { RuntimeContext } from "@agentstart/types";
+import { tool } from "ai";
+import {
+  type AgentStartToolOutput,
+  toolInputSchema,
+  toolOutputSchema,
+} from "@/agent/messages/tool";
+import description from "./description";
+
+export const processList = tool({
+  description,
+  inputSchema: toolInputSchema.shape["process-list"],
+  outputSchema: toolOutputSchema.shape["process-list"],
+  async *execute(_, { experimental_context: context }) {
+    const { sandbox } = context as RuntimeContext;
+
+    if (!sandbox?.bash.listProcesses) {
+      yield {
+        status: "error" as const,
+        prompt: "Background processes are not supported",
+        error: {
+          message: sandbox
+            ? "The configured sandbox adapter cannot run background processes."
+            : "Process tools require a sandbox to be configured. Please configure a sandbox adapter in your AgentStart options.",
+        },
+      } satisfies AgentStartToolOutput["process-list"];
+      return;
+    }
+
+    const processes = sandbox.bash.listProcesses().map((handle) => ({
+      id: handle.id,
+      pid: handle.pid,
+      command: handle.command,
+      startedAt: handle.startedAt,
+      running: handle.exitCode === undefined,
+      exitCode: handle.exitCode,
+    }));
+
+    const lines = processes.map(
+      (process) =>
+        `${process.id}: ${process.running ? "running" : `exited with code ${process.exitCode}`} (started ${new Date(process.startedAt).toISOString()})\n  ${process.command}`,
+    );
+
+    yield {
+      status: "done" as const,
+      metadata: { processes },
+      prompt: processes.length
+        ? `${processes.length} background process(es):\n${lines.join("\n")}`
+        : "No background processes have been started.",
+    } satisfies AgentStartToolOutput["process-list"];
+  },
+  toModelOutput: (output) => {
+    if (output.error) {
+      return {
+        type: "error-text" as const,
+        value: output.prompt,
+      };
+    }
+
+    return {
+      type: "text" as const,
+      value: output.prompt,
+    };
+  },
+});
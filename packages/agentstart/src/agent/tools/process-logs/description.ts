@@ -0,0 +1,19 @@
+/* agent-frontmatter:start
+AGENT: Agent runtime tool metadata
+PURPOSE: Provides prompt guidance and guardrails for the Process Logs tool.
+USAGE: Referenced by the "process-logs" tool definition to describe expected behavior.
+EXPORTS: default
+FEATURES:
+  - Summarizes capabilities, inputs, and cautions for Process Logs
+  - Feeds documentation into adapter surfaces when exposing the tool
+SEARCHABLE: packages, agentstart, src, agent, tools, process, logs, description, tool, runtime
+agent-frontmatter:end */
+
+export default `Reads the recent output of a background process started with the bash tool's background option.
+
+Usage:
+- The processId argument is required. It is returned by the bash tool and the process-list tool.
+- Returns the last 200 lines of stdout and stderr by default; set tail to read more or fewer lines
+- Only the most recent output of long-running processes is kept
+- Use it to check that a dev server started, to find the URL it listens on, or to read errors after a request
+`;
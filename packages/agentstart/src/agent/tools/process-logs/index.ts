@@ -0,0 +1,95 @@
+/* agent-frontmatter:start
+AGENT: Agent runtime tool module
+PURPOSE: Implements Process Logs tool execution within the AgentStart runtime.
+USAGE: Register the "process-logs" tool next to "bash" so the agent can read background process output.
+EXPORTS: processLogs
+FEATURES:
+  - Returns the trailing stdout and stderr lines of a background process
+  - Reports whether the process is still running
+SEARCHABLE: packages, agentstart, src, agent, tools, process, logs, background, tool, runtime
+agent-frontmatter:end */
+
+import type { RuntimeContext } from "@agentstart/types";
+import { tool } from "ai";
+import {
+  type AgentStartToolOutput,
+  toolInputSchema,
+  toolOutputSchema,
+} from "@/agent/messages/tool";
+import description from "./description";
+
+const DEFAULT_TAIL = 200;
+const MAX_OUTPUT_LENGTH = 30000;
+
+function tailLines(text: string, count: number) {
+  const lines = text.replace(/\n$/, "").split("\n");
+  const tail = lines.slice(-count).join("\n");
+  return tail.length > MAX_OUTPUT_LENGTH
+    ? tail.slice(-MAX_OUTPUT_LENGTH)
+    : tail;
+}
+
+export const processLogs = tool({
+  description,
+  inputSchema: toolInputSchema.shape["process-logs"],
+  outputSchema: toolOutputSchema.shape["process-logs"],
+  async *execute({ processId, tail }, { experimental_context: context }) {
+    const { sandbox } = context as RuntimeContext;
+
+    if (!sandbox?.bash.getProcess) {
+      yield {
+        status: "error" as const,
+        prompt: "Background processes are not supported",
+        error: {
+          message: sandbox
+            ? "The configured sandbox adapter cannot run background processes."
+            : "Process tools require a sandbox to be configured. Please configure a sandbox adapter in your AgentStart options.",
+        },
+      } satisfies AgentStartToolOutput["process-logs"];
+      return;
+    }
+
+    const handle = sandbox.bash.getProcess(processId);
+    if (!handle) {
+      const message = `No background process with ID ${processId}. Use the process-list tool to see the available processes.`;
+      yield {
+        status: "error" as const,
+        prompt: message,
+        error: { message },
+      } satisfies AgentStartToolOutput["process-logs"];
+      return;
+    }
+
+    const running = handle.exitCode === undefined;
+    const stdout = tailLines(handle.stdout, tail ?? DEFAULT_TAIL);
+    const stderr = tailLines(handle.stderr, tail ?? DEFAULT_TAIL);
+    const state = running
+      ? "is running"
+      : `exited with code ${handle.exitCode}`;
+
+    yield {
+      status: "done" as const,
+      metadata: {
+        processId,
+        running,
+        exitCode: handle.exitCode,
+        stdout,
+        stderr,
+      },
+      prompt: `Process ${processId} ${state}.\n\nstdout:\n${stdout || "(empty)"}\n\nstderr:\n${stderr || "(empty)"}`,
+    } satisfies AgentStartToolOutput["process-logs"];
+  },
+  toModelOutput: (output) => {
+    if (output.error) {
+      return {
+        type: "error-text" as const,
+        value: output.prompt,
+      };
+    }
+
+    return {
+      type: "text" as const,
+      value: output.prompt,
+    };
+  },
+});
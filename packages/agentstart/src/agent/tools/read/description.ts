@@ -20,8 +20,8 @@ Usage:
 - You can optionally specify a line offset and limit (especially handy for long files), but it's recommended to read the whole file by not providing these parameters
 - Any lines longer than 2000 characters will be truncated
 - Results are returned using cat -n format, with line numbers starting at 1
-- This tool allows Same++ to read images (eg PNG, JPG, etc). When reading an image file the contents are presented visually as Same++ is a multimodal LLM.
-- This tool can read PDF files (.pdf). PDFs are processed page by page, extracting both text and visual content for analysis.
+- This tool allows Same++ to read images (eg PNG, JPG, GIF, WebP). When reading an image file the contents are presented visually as Same++ is a multimodal LLM. Large images are downscaled before they are returned
+- This tool can read PDF files (.pdf). PDFs are returned as extracted text, page by page. Use the pages parameter (eg "3" or "1-5") to read up to 20 pages at a time
 - You have the capability to call multiple tools in a single response. It is always better to speculatively read multiple files as a batch that are potentially useful.
 - If you read a file that exists but has empty contents you will receive a system reminder warning in place of file contents.
 `;
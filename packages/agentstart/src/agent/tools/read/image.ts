@@ -0,0 +1,231 @@
+/* agent-frontmatter:start
+AGENT: Agent runtime tool helper
+PURPOSE: Prepare image files for vision models in the Read tool.
+USAGE: const image = await readImage(sandbox, "/workspace/screenshot.png", buffer)
+EXPORTS: IMAGE_MEDIA_TYPES, MAX_IMAGE_BYTES, MAX_IMAGE_DIMENSION, getImageSize, readImage, shellQuote
+FEATURES:
+  - Reads PNG, JPEG, GIF and WebP dimensions from file headers
+  - Downscales large images inside the sandbox with ImageMagick
+  - Converts formats vision models reject (BMP, ICO) to PNG
+  - Enforces a byte limit when images cannot be downscaled
+SEARCHABLE: packages, agentstart, src, agent, tools, read, image, vision, downscale, imagemagick
+agent-frontmatter:end */
+
+import type { SandboxAPI } from "@agentstart/types";
+
+/**
+ * Image extensions the Read tool returns as model-visible content
+ */
+export const IMAGE_MEDIA_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".bmp": "image/bmp",
+  ".ico": "image/x-icon",
+};
+
+// Formats accepted by the major vision models as-is
+const MODEL_MEDIA_TYPES = new Set([
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+]);
+
+/**
+ * Largest image sent to the model, in bytes
+ */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Longest edge sent to the model; larger images are downscaled
+ */
+export const MAX_IMAGE_DIMENSION = 1568;
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export interface ReadImageResult extends Partial<ImageSize> {
+  mediaType: string;
+  /** Base64 encoded image data */
+  data: string;
+  /** Size of the file on disk */
+  originalBytes: number;
+  /** Dimensions of the file on disk when they differ from the returned image */
+  originalSize?: ImageSize;
+  resized: boolean;
+}
+
+/**
+ * Quote a value for a POSIX shell command
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Read the dimensions of PNG, GIF, JPEG and WebP images from their headers.
+ * Returns undefined for other formats or truncated files.
+ */
+export function getImageSize(buffer: Buffer): ImageSize | undefined {
+  // PNG: IHDR chunk right after the signature
+  if (
+    buffer.length >= 24 &&
+    buffer.readUInt32BE(0) === 0x89504e47 &&
+    buffer.toString("ascii", 12, 16) === "IHDR"
+  ) {
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+
+  // GIF: logical screen size
+  if (buffer.length >= 10 && buffer.toString("ascii", 0, 3) === "GIF") {
+    return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+  }
+
+  // WebP: lossy, lossless and extended bitstreams
+  if (
+    buffer.length >= 30 &&
+    buffer.toString("ascii", 0, 4) === "RIFF" &&
+    buffer.toString("ascii", 8, 12) === "WEBP"
+  ) {
+    const chunk = buffer.toString("ascii", 12, 16);
+    if (chunk === "VP8 ") {
+      return {
+        width: buffer.readUInt16LE(26) & 0x3fff,
+        height: buffer.readUInt16LE(28) & 0x3fff,
+      };
+    }
+    if (chunk === "VP8L") {
+      const bits = buffer.readUInt32LE(21);
+      return {
+        width: (bits & 0x3fff) + 1,
+        height: ((bits >> 14) & 0x3fff) + 1,
+      };
+    }
+    if (chunk === "VP8X") {
+      return {
+        width: buffer.readUIntLE(24, 3) + 1,
+        height: buffer.readUIntLE(27, 3) + 1,
+      };
+    }
+    return undefined;
+  }
+
+  // JPEG: walk the segments up to the first start-of-frame marker
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+      if (buffer[offset] !== 0xff) {
+        return undefined;
+      }
+      const marker = buffer[offset + 1] ?? 0;
+      const isStartOfFrame =
+        marker >= 0xc0 &&
+        marker <= 0xcf &&
+        marker !== 0xc4 &&
+        marker !== 0xc8 &&
+        marker !== 0xcc;
+      if (isStartOfFrame) {
+        return {
+          height: buffer.readUInt16BE(offset + 5),
+          width: buffer.readUInt16BE(offset + 7),
+        };
+      }
+      offset += 2 + buffer.readUInt16BE(offset + 2);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Downscale or convert an image inside the sandbox. Resolves to undefined
+ * when ImageMagick is not installed or the conversion fails.
+ */
+async function convertImage(
+  sandbox: SandboxAPI,
+  filePath: string,
+  mediaType: "image/png" | "image/jpeg",
+) {
+  const format = mediaType === "image/png" ? "png" : "jpeg";
+  const geometry = `${MAX_IMAGE_DIMENSION}x${MAX_IMAGE_DIMENSION}>`;
+  // `[0]` keeps the first frame of animations and icon sets
+  const command = [
+    "convert=$(command -v magick || command -v convert) || exit 127;",
+    `"$convert" ${shellQuote(`${filePath}[0]`)}`,
+    `-auto-orient -resize ${shellQuote(geometry)} -quality 85`,
+    `${format}:- | base64 | tr -d '\\n'`,
+  ].join(" ");
+
+  const result = await sandbox.bash.$`${command}`;
+  if (result.exitCode !== 0 || !result.stdout) {
+    return undefined;
+  }
+
+  const buffer = Buffer.from(result.stdout.trim(), "base64");
+  return { buffer, size: getImageSize(buffer) };
+}
+
+/**
+ * Turn an image file into base64 content a vision model accepts, downscaling
+ * it when it is too large and converting formats models do not support.
+ */
+export async function readImage(
+  sandbox: SandboxAPI,
+  filePath: string,
+  buffer: Buffer,
+  mediaType: string,
+): Promise<ReadImageResult> {
+  const size = getImageSize(buffer);
+  const isSupported = MODEL_MEDIA_TYPES.has(mediaType);
+  const isOversized =
+    buffer.length > MAX_IMAGE_BYTES ||
+    (size !== undefined &&
+      Math.max(size.width, size.height) > MAX_IMAGE_DIMENSION);
+
+  if (isSupported && !isOversized) {
+    return {
+      mediaType,
+      data: buffer.toString("base64"),
+      ...size,
+      originalBytes: buffer.length,
+      resized: false,
+    };
+  }
+
+  // Keep transparency for PNGs and convert everything else to JPEG
+  const targetType =
+    mediaType === "image/png" || !isSupported ? "image/png" : "image/jpeg";
+  const converted = await convertImage(sandbox, filePath, targetType);
+  if (converted && converted.buffer.length <= MAX_IMAGE_BYTES) {
+    return {
+      mediaType: targetType,
+      data: converted.buffer.toString("base64"),
+      ...converted.size,
+      originalBytes: buffer.length,
+      ...(size ? { originalSize: size } : {}),
+      resized: true,
+    };
+  }
+
+  // Models downscale large dimensions themselves; bytes are a hard limit
+  if (isSupported && buffer.length <= MAX_IMAGE_BYTES) {
+    return {
+      mediaType,
+      data: buffer.toString("base64"),
+      ...size,
+      originalBytes: buffer.length,
+      resized: false,
+    };
+  }
+
+  throw new Error(
+    isSupported
+      ? `Image is too large (${buffer.length} bytes, limit ${MAX_IMAGE_BYTES}). Install ImageMagick in the sandbox so it can be downscaled, or resize it first.`
+      : `Cannot convert ${mediaType} images without ImageMagick in the sandbox. Convert the image to PNG or JPEG first.`,
+  );
+}
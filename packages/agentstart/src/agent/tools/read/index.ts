@@ -6,6 +6,8 @@ EXPORTS: read
 FEATURES:
   - Bridges sandbox APIs into the Read workflow
   - Streams structured progress updates and normalizes tool output
+  - Returns images as model-visible content, downscaled to the size limits
+  - Extracts text from PDF page ranges
 SEARCHABLE: packages, agentstart, src, agent, tools, read, index, tool, runtime
 agent-frontmatter:end */
 
@@ -19,6 +21,8 @@ import {
 } from "@/agent/messages";
 import { getRichError } from "@/agent/tools/get-rich-error";
 import description from "./description";
+import { IMAGE_MEDIA_TYPES, readImage } from "./image";
+import { readPdf } from "./pdf";
 
 const DEFAULT_READ_LIMIT = 2000;
 const MAX_LINE_LENGTH = 2000;
@@ -53,7 +57,6 @@ const BINARY_EXTENSIONS = new Set([
   ".wasm",
   ".pyc",
   ".pyo",
-  ".pdf",
   ".mp3",
   ".mp4",
   ".avi",
@@ -62,18 +65,6 @@ const BINARY_EXTENSIONS = new Set([
   ".wav",
 ]);
 
-// Image file extensions
-const IMAGE_EXTENSIONS: Record<string, string> = {
-  ".jpg": "JPEG",
-  ".jpeg": "JPEG",
-  ".png": "PNG",
-  ".gif": "GIF",
-  ".bmp": "BMP",
-  ".webp": "WebP",
-  ".svg": "SVG",
-  ".ico": "Icon",
-};
-
 export const read = tool({
   description,
   inputSchema: toolInputSchema.shape.read,
@@ -139,13 +130,69 @@ export const read = tool({
         throw new Error(`Path is not a regular file: ${input.filePath}`);
       }
 
-      // Check for image files
+      // Images are returned to the model as image content
       const ext = path.extname(input.filePath).toLowerCase();
-      const imageType = IMAGE_EXTENSIONS[ext];
-      if (imageType) {
-        throw new Error(
-          `This is an image file of type: ${imageType}\nUse a different tool to process images`,
+      const imageMediaType = IMAGE_MEDIA_TYPES[ext];
+      if (imageMediaType) {
+        const buffer = await sandbox.fs.readFile(input.filePath, {
+          encoding: null,
+        });
+        const image = await readImage(
+          sandbox,
+          input.filePath,
+          buffer,
+          imageMediaType,
         );
+        const dimensions =
+          image.width && image.height ? `, ${image.width}x${image.height}` : "";
+        const resizedFrom = image.originalSize
+          ? `, downscaled from ${image.originalSize.width}x${image.originalSize.height}`
+          : image.resized
+            ? ", converted"
+            : "";
+
+        yield {
+          status: "done" as const,
+          metadata: { image },
+          prompt: `Image file: ${input.filePath} (${image.mediaType}${dimensions}${resizedFrom})`,
+        } satisfies AgentStartToolOutput["read"];
+        return;
+      }
+
+      // PDFs are read as extracted text, a page range at a time
+      if (ext === ".pdf") {
+        const pdf = await readPdf(sandbox, input.filePath, input.pages);
+        const pages = pdf.pages.map((text, index) => {
+          const lines = text.split("\n").map((line) => {
+            return line.length > MAX_LINE_LENGTH
+              ? `${line.substring(0, MAX_LINE_LENGTH)}...`
+              : line;
+          });
+          return `<page number="${pdf.first + index}">\n${lines.join("\n").trim()}\n</page>`;
+        });
+
+        let prompt = "<file>\n";
+        prompt += pages.join("\n");
+        if (pdf.totalPages && pdf.totalPages > pdf.last) {
+          prompt += `\n\n(PDF has ${pdf.totalPages} pages. Use 'pages' parameter to read beyond page ${pdf.last})`;
+        }
+        prompt += "\n</file>";
+
+        const content = pdf.pages.join("\n");
+        yield {
+          status: "done" as const,
+          metadata: {
+            content,
+            preview: content.split("\n").slice(0, 20).join("\n"),
+            pdf: {
+              first: pdf.first,
+              last: pdf.last,
+              totalPages: pdf.totalPages,
+            },
+          },
+          prompt,
+        } satisfies AgentStartToolOutput["read"];
+        return;
       }
 
       // Check for binary files by extension
@@ -226,6 +273,21 @@ export const read = tool({
       };
     }
 
+    const image = output.metadata?.image;
+    if (image) {
+      return {
+        type: "content" as const,
+        value: [
+          { type: "text" as const, text: output.prompt },
+          {
+            type: "image-data" as const,
+            data: image.data,
+            mediaType: image.mediaType,
+          },
+        ],
+      };
+    }
+
     return {
       type: "text" as const,
       value: output.prompt,
@@ -0,0 +1,104 @@
+/* agent-frontmatter:start
+AGENT: Agent runtime tool helper
+PURPOSE: Extract text from PDF page ranges for the Read tool.
+USAGE: const pdf = await readPdf(sandbox, "/workspace/spec.pdf", "3-5")
+EXPORTS: MAX_PDF_PAGES, parsePageRange, readPdf
+FEATURES:
+  - Parses "3" and "1-5" style page ranges
+  - Extracts layout-preserving text per page with poppler's pdftotext
+  - Reports the total page count so the agent can continue reading
+SEARCHABLE: packages, agentstart, src, agent, tools, read, pdf, pdftotext, page range
+agent-frontmatter:end */
+
+import type { SandboxAPI } from "@agentstart/types";
+import { shellQuote } from "./image";
+
+/**
+ * Most pages extracted by a single read
+ */
+export const MAX_PDF_PAGES = 20;
+
+export interface PageRange {
+  first: number;
+  last: number;
+}
+
+export interface ReadPdfResult extends PageRange {
+  /** Extracted text of each page in the range */
+  pages: string[];
+  totalPages?: number;
+}
+
+/**
+ * Parse a 1-based "3" or "1-5" page range. Defaults to the first pages.
+ */
+export function parsePageRange(pages?: string): PageRange {
+  if (!pages?.trim()) {
+    return { first: 1, last: MAX_PDF_PAGES };
+  }
+
+  const match = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(pages);
+  const first = Number(match?.[1]);
+  const last = match?.[2] ? Number(match[2]) : first;
+  if (!match || first < 1 || last < first) {
+    throw new Error(
+      `Invalid page range "${pages}". Use a page number like "3" or a range like "1-5".`,
+    );
+  }
+  if (last - first + 1 > MAX_PDF_PAGES) {
+    throw new Error(
+      `Page range "${pages}" is too large. Read at most ${MAX_PDF_PAGES} pages at a time.`,
+    );
+  }
+
+  return { first, last };
+}
+
+/**
+ * Extract the text of a page range with pdftotext inside the sandbox
+ */
+export async function readPdf(
+  sandbox: SandboxAPI,
+  filePath: string,
+  pages?: string,
+): Promise<ReadPdfResult> {
+  const range = parsePageRange(pages);
+  const file = shellQuote(filePath);
+
+  const info = await sandbox.bash.$`pdfinfo ${file}`;
+  const totalPages = Number(/^Pages:\s*(\d+)/m.exec(info.stdout)?.[1]);
+  if (Number.isFinite(totalPages) && range.first > totalPages) {
+    throw new Error(
+      `Page ${range.first} is out of range. The PDF has ${totalPages} pages.`,
+    );
+  }
+
+  const last = Number.isFinite(totalPages)
+    ? Math.min(range.last, totalPages)
+    : range.last;
+  const command = `pdftotext -layout -f ${range.first} -l ${last} ${file} -`;
+  const result = await sandbox.bash.$`${command}`;
+  if (result.exitCode === 127) {
+    throw new Error(
+      "Reading PDFs requires pdftotext in the sandbox. Install poppler-utils and try again.",
+    );
+  }
+  if (result.exitCode !== 0) {
+    throw new Error(
+      `Failed to extract text from PDF: ${result.stderr.trim() || result.error}`,
+    );
+  }
+
+  // pdftotext ends every page with a form feed
+  const extracted = result.stdout.split("\f");
+  if (extracted.at(-1)?.trim() === "") {
+    extracted.pop();
+  }
+
+  return {
+    first: range.first,
+    last: range.first + Math.max(extracted.length, 1) - 1,
+    pages: extracted,
+    ...(Number.isFinite(totalPages) ? { totalPages } : {}),
+  };
+}
@@ -0,0 +1,27 @@
+/* agent-frontmatter:start
+AGENT: Agent runtime tool metadata
+PURPOSE: Provides prompt guidance and guardrails for the Task tool.
+USAGE: Referenced by the "task" tool definition to describe expected behavior.
+EXPORTS: default
+FEATURES:
+  - Summarizes capabilities, inputs, and cautions for Task
+  - Feeds documentation into adapter surfaces when exposing the tool
+SEARCHABLE: packages, agentstart, src, agent, tools, task, description, tool, runtime
+agent-frontmatter:end */
+
+export default `Launch a sub-agent to handle a focused, self-contained subtask on your behalf. The sub-agent works in the same sandbox with its own instructions and tools, and returns a single final report when it is done.
+
+When to use the Task tool:
+- The subtask matches the description of one of the available sub-agents
+- The subtask needs many searches or file reads whose details you do not need to keep
+- You can describe the subtask completely in one prompt
+
+When NOT to use the Task tool:
+- For a single file read or search, use the read, glob or grep tools directly
+- When the work needs back-and-forth with the user
+
+Usage notes:
+1. The sub-agent does not see this conversation. Include every detail it needs in the prompt, and say exactly what it should report back.
+2. The sub-agent's report is not shown to the user. Summarize the relevant parts of it in your reply.
+3. Launch independent subtasks in parallel by calling the tool several times in one message.
+4. Trust the report, but verify claims that are critical before acting on them.`;
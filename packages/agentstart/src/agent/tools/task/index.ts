@@ -0,0 +1,326 @@
+/* agent-frontmatter:start
+AGENT: Agent runtime tool module
+PURPOSE: Implements Task tool execution within the AgentStart runtime.
+USAGE: Register the "task" tool and configure `subAgents` in AgentStart options.
+EXPORTS: task, createTaskTool, applySubAgents, SubAgentPolicies
+FEATURES:
+  - Runs a named sub-agent from the configured registry
+  - Shares the thread, memory and sandbox with the sub-agent
+  - Streams nested progress as task_progress data parts
+  - Returns only the sub-agent's final report to the main agent
+  - Applies tool approval and bash policies to sub-agent tools and refuses calls that need approval
+SEARCHABLE: packages, agentstart, src, agent, tools, task, sub-agent, delegate, tool, runtime
+agent-frontmatter:end */
+
+import type {
+  BashCommandPolicy,
+  RuntimeContext,
+  SubAgentDefinition,
+  ToolApprovalPolicy,
+} from "@agentstart/types";
+import { AgentStartError } from "@agentstart/utils";
+import { type Tool, type ToolSet, tool } from "ai";
+import { type BaseAgent, withAgentSettings } from "@/agent/agent";
+import { applyToolApprovalPolicies } from "@/agent/approval";
+import type { AgentStartDataPart } from "@/agent/messages/data-parts";
+import {
+  type AgentStartToolOutput,
+  toolInputSchema,
+  toolOutputSchema,
+} from "@/agent/messages/tool";
+import { applyBashPolicy } from "@/agent/tools/bash/policy";
+import { getRichError } from "@/agent/tools/get-rich-error";
+import description from "./description";
+
+const MAX_STEP_TITLE_LENGTH = 120;
+
+type TaskProgress = AgentStartDataPart["agentstart-task_progress"];
+
+function toStepTitle(value: unknown) {
+  const text = typeof value === "string" ? value : JSON.stringify(value ?? "");
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > MAX_STEP_TITLE_LENGTH
+    ? `${line.slice(0, MAX_STEP_TITLE_LENGTH)}…`
+    : line;
+}
+
+function describeSubAgents(subAgents: Record<string, SubAgentDefinition>) {
+  const entries = Object.entries(subAgents);
+  if (entries.length === 0) {
+    return description;
+  }
+
+  const list = entries
+    .map(([name, subAgent]) => `- ${name}: ${subAgent.description}`)
+    .join("\n");
+  return `${description}\n\nAvailable sub-agents:\n${list}`;
+}
+
+/**
+ * Create a task tool bound to a sub-agent registry.
+ */
+export function createTaskTool(subAgents: Record<string, SubAgentDefinition>) {
+  return tool({
+    description: describeSubAgents(subAgents),
+    inputSchema: toolInputSchema.shape.task,
+    outputSchema: toolOutputSchema.shape.task,
+    async *execute(
+      { agent: name, description, prompt },
+      { experimental_context: context, toolCallId, abortSignal },
+    ) {
+      const runtimeContext = context as RuntimeContext;
+      const subAgent = subAgents[name];
+
+      if (!subAgent) {
+        const available = Object.keys(subAgents).join(", ") || "none";
+        yield {
+          status: "error" as const,
+          prompt: `Unknown sub-agent "${name}". Available sub-agents: ${available}`,
+          error: { message: `Sub-agent "${name}" is not configured` },
+          metadata: { agent: name, description },
+        } satisfies AgentStartToolOutput["task"];
+        return;
+      }
+
+      const progress: TaskProgress = {
+        toolCallId,
+        agent: name,
+        status: "running",
+        steps: [],
+      };
+      // Same id on every write so the client updates the part in place
+      const writeProgress = () => {
+        runtimeContext.writer.write({
+          type: "data-agentstart-task_progress",
+          id: toolCallId,
+          data: progress,
+        });
+      };
+      const updateStep = (id: string, status: TaskProgress["status"]) => {
+        const step = progress.steps.find((item) => item.id === id);
+        if (step) {
+          step.status = status;
+          writeProgress();
+        }
+      };
+
+      yield {
+        status: "pending" as const,
+        prompt: `Running ${name}: ${description}`,
+        metadata: { agent: name, description },
+      } satisfies AgentStartToolOutput["task"];
+      writeProgress();
+
+      try {
+        const result = await subAgent.agent.stream({
+          prompt,
+          options: { runtimeContext },
+          abortSignal,
+        });
+
+        const texts = new Map<string, string>();
+        for await (const part of result.fullStream) {
+          switch (part.type) {
+            case "text-delta":
+              texts.set(part.id, (texts.get(part.id) ?? "") + part.text);
+              break;
+            case "text-end": {
+              const text = texts.get(part.id)?.trim();
+              if (text) {
+                progress.steps.push({
+                  id: part.id,
+                  type: "text",
+                  title: toStepTitle(text),
+                  status: "done",
+                });
+                writeProgress();
+              }
+              break;
+            }
+            case "tool-call":
+              progress.steps.push({
+                id: part.toolCallId,
+                type: "tool",
+                toolName: part.toolName,
+                title: toStepTitle(part.input),
+                status: "running",
+              });
+              writeProgress();
+              break;
+            case "tool-result":
+              if (!part.preliminary) {
+                updateStep(part.toolCallId, "done");
+              }
+              break;
+            case "tool-error":
+              updateStep(part.toolCallId, "error");
+              break;
+            case "error":
+              throw part.error;
+          }
+        }
+
+        const report = (await result.text).trim();
+        progress.status = "done";
+        writeProgress();
+
+        yield {
+          status: "done" as const,
+          prompt: report || `Sub-agent "${name}" finished without a report.`,
+          metadata: {
+            agent: name,
+            description,
+            steps: progress.steps.length,
+          },
+        } satisfies AgentStartToolOutput["task"];
+      } catch (error) {
+        progress.status = "error";
+        writeProgress();
+
+        const richError = getRichError({
+          action: `run sub-agent ${name}`,
+          args: { description },
+          error,
+        });
+
+        yield {
+          status: "error" as const,
+          prompt: richError.message,
+          error: richError.error,
+          metadata: {
+            agent: name,
+            description,
+            steps: progress.steps.length,
+          },
+        } satisfies AgentStartToolOutput["task"];
+      }
+    },
+    toModelOutput: (output) => {
+      if (output.error) {
+        return {
+          type: "error-text" as const,
+          value: output.prompt,
+        };
+      }
+
+      return {
+        type: "text" as const,
+        value: output.prompt,
+      };
+    },
+  });
+}
+
+export interface SubAgentPolicies {
+  toolApproval?: Record<string, ToolApprovalPolicy>;
+  bashPolicy?: BashCommandPolicy;
+}
+
+/**
+ * Sub-agents run inside the task tool and cannot pause for approval, so
+ * calls that would need it are refused and the sub-agent is told why.
+ */
+function refuseApprovalRequests(tools: ToolSet): ToolSet {
+  const result: ToolSet = { ...tools };
+
+  for (const [toolName, original] of Object.entries(tools)) {
+    const { needsApproval, execute } = original;
+    if (!needsApproval || !execute) {
+      continue;
+    }
+
+    result[toolName] = {
+      ...original,
+      needsApproval: false,
+      async *execute(input, options) {
+        const required =
+          typeof needsApproval === "function"
+            ? await needsApproval(input, options)
+            : needsApproval;
+        if (required) {
+          throw new AgentStartError(
+            "TOOL_APPROVAL_UNAVAILABLE",
+            `Calling "${toolName}" with this input requires user approval, which sub-agents cannot request. Report back so the main agent can run it.`,
+          );
+        }
+
+        const output = execute(input, options);
+        if (Symbol.asyncIterator in Object(output)) {
+          yield* output as AsyncIterable<unknown>;
+        } else {
+          yield await output;
+        }
+      },
+    } as Tool;
+  }
+
+  return result;
+}
+
+/**
+ * Give every sub-agent the approval and bash policies of the main agent.
+ */
+function applySubAgentPolicies(
+  subAgents: Record<string, SubAgentDefinition>,
+  { toolApproval, bashPolicy }: SubAgentPolicies,
+): Record<string, SubAgentDefinition> {
+  if (!toolApproval && !bashPolicy) {
+    return subAgents;
+  }
+
+  return Object.fromEntries(
+    Object.entries(subAgents).map(([name, subAgent]) => {
+      // Rebuilding an agent needs its settings, as BaseAgent keeps them
+      if (!("settings" in subAgent.agent)) {
+        throw new AgentStartError(
+          "SUB_AGENT_POLICY_UNSUPPORTED",
+          `Sub-agent "${name}" does not expose its settings, so tool approval and bash policies cannot be applied to it`,
+        );
+      }
+
+      const agent = subAgent.agent as BaseAgent;
+      const tools = applyBashPolicy(
+        applyToolApprovalPolicies(agent.settings.tools, toolApproval),
+        bashPolicy,
+      );
+      if (!tools) {
+        return [name, subAgent];
+      }
+      return [
+        name,
+        {
+          ...subAgent,
+          agent: withAgentSettings(agent, {
+            tools: refuseApprovalRequests(tools),
+          }),
+        },
+      ];
+    }),
+  );
+}
+
+/**
+ * Bind the task tool to the configured sub-agents, or remove it when no
+ * sub-agents are configured. Sub-agent tools follow the same approval and
+ * bash policies as the main agent's.
+ */
+export function applySubAgents<TOOLS extends ToolSet>(
+  tools: TOOLS | undefined,
+  subAgents: Record<string, SubAgentDefinition> | undefined,
+  policies: SubAgentPolicies = {},
+): TOOLS | undefined {
+  if (!tools?.task) {
+    return tools;
+  }
+
+  const result: ToolSet = { ...tools };
+  if (!subAgents || Object.keys(subAgents).length === 0) {
+    delete result.task;
+  } else {
+    result.task = createTaskTool(applySubAgentPolicies(subAgents, policies));
+  }
+
+  return result as TOOLS;
+}
+
+export const task = createTaskTool({});
@@ -0,0 +1,70 @@
+/* agent-frontmatter:start
+AGENT: Agent runtime tool module
+PURPOSE: Keeps the Web Fetch tool away from private network addresses.
+USAGE: await assertPublicHost(new URL(url), allowedHosts) before every request and redirect hop
+EXPORTS: assertPublicHost
+FEATURES:
+  - Resolves the hostname and checks every address it resolves to
+  - Refuses loopback, private, link-local, unique-local, CGNAT and reserved ranges
+  - Applies IPv4 rules to IPv4-mapped IPv6 addresses
+  - Skips the check for explicitly allowed hosts
+SEARCHABLE: web fetch, ssrf, private address, loopback, link-local, allowlist
+agent-frontmatter:end */
+
+import { lookup } from "node:dns/promises";
+import { BlockList } from "node:net";
+
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b:1::", 48],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["fec0::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+function normalizeHost(hostname: string) {
+  return hostname
+    .replace(/^\[(.*)\]$/, "$1")
+    .replace(/\.$/, "")
+    .toLowerCase();
+}
+
+/**
+ * Throw unless the URL's host only resolves to public addresses or is
+ * listed in `allowedHosts`.
+ */
+export async function assertPublicHost(url: URL, allowedHosts: string[] = []) {
+  const host = normalizeHost(url.hostname);
+  if (allowedHosts.some((allowed) => normalizeHost(allowed) === host)) {
+    return;
+  }
+
+  const addresses = await lookup(host, { all: true, verbatim: true });
+  for (const { address, family } of addresses) {
+    if (blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4")) {
+      throw new Error(
+        `Refusing to fetch "${url.hostname}": it resolves to the private address ${address}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,27 @@
+/* agent-frontmatter:start
+AGENT: Agent runtime tool metadata
+PURPOSE: Provides prompt guidance and guardrails for the Web Fetch tool.
+USAGE: Referenced by the "web-fetch" tool definition to describe expected behavior.
+EXPORTS: default
+FEATURES:
+  - Summarizes capabilities, inputs, and cautions for Web Fetch
+  - Feeds documentation into adapter surfaces when exposing the tool
+SEARCHABLE: packages, agentstart, src, agent, tools, web, fetch, description, tool, runtime
+agent-frontmatter:end */
+
+export default `Fetch a web page and return its content as markdown.
+
+Usage:
+- The url must be a fully-formed, valid http or https URL
+- HTML pages are converted to markdown; plain text, markdown and JSON are returned as-is
+- Content longer than the token budget is truncated; pass maxTokens to raise or lower the budget
+- Binary content such as images, PDFs or archives is not supported
+- The fetched page is cited as a source in the conversation
+
+When to use:
+- Reading documentation, articles or API references the user points you to
+- Following up on a URL returned by the webSearch tool
+
+When NOT to use:
+- For files inside the sandbox, use the read tool instead
+- For searching the web when you do not know the URL, use the webSearch tool first`;
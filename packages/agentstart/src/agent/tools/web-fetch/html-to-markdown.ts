@@ -0,0 +1,204 @@
+/* agent-frontmatter:start
+AGENT: Agent runtime tool helper
+PURPOSE: Convert fetched HTML pages into compact markdown for the Web Fetch tool.
+USAGE: const { title, markdown } = htmlToMarkdown(html, "https://example.com")
+EXPORTS: htmlToMarkdown
+FEATURES:
+  - Drops scripts, styles and other non-content elements
+  - Prefers main/article content when the page provides it
+  - Keeps headings, links, lists, emphasis, code and preformatted blocks
+  - Resolves relative links against the page URL
+SEARCHABLE: packages, agentstart, src, agent, tools, web, fetch, html, markdown, converter
+agent-frontmatter:end */
+
+const REMOVED_ELEMENTS = [
+  "head",
+  "script",
+  "style",
+  "noscript",
+  "svg",
+  "template",
+  "iframe",
+  "canvas",
+  "form",
+];
+
+const BLOCK_ELEMENTS = [
+  "p",
+  "div",
+  "section",
+  "article",
+  "main",
+  "header",
+  "footer",
+  "nav",
+  "aside",
+  "ul",
+  "ol",
+  "table",
+  "tr",
+  "figure",
+  "figcaption",
+  "dl",
+  "dt",
+  "dd",
+];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  laquo: "«",
+  raquo: "»",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+};
+
+function decodeEntities(text: string) {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (match, entity: string) => {
+      if (entity[0] === "#") {
+        const codePoint =
+          entity[1]?.toLowerCase() === "x"
+            ? Number.parseInt(entity.slice(2), 16)
+            : Number.parseInt(entity.slice(1), 10);
+        return Number.isFinite(codePoint) && codePoint <= 0x10ffff
+          ? String.fromCodePoint(codePoint)
+          : match;
+      }
+      return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    },
+  );
+}
+
+function stripTags(html: string) {
+  return html.replace(/<[^>]*>/g, "");
+}
+
+function getAttribute(tag: string, name: string) {
+  const match = tag.match(
+    new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"),
+  );
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3] ?? "") : "";
+}
+
+function resolveUrl(href: string, baseUrl?: string) {
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+}
+
+function extractElement(html: string, tagName: string) {
+  const match = html.match(
+    new RegExp(`<${tagName}\\b[^>]*>([\\s\\S]*?)</${tagName}>`, "i"),
+  );
+  return match?.[1];
+}
+
+/**
+ * Convert an HTML document into markdown.
+ * This is a lightweight converter aimed at readable text for the model,
+ * not a faithful round-trip of the page.
+ */
+export function htmlToMarkdown(
+  html: string,
+  baseUrl?: string,
+): { title?: string; markdown: string } {
+  const rawTitle = extractElement(html, "title");
+  const title = rawTitle
+    ? decodeEntities(stripTags(rawTitle)).replace(/\s+/g, " ").trim()
+    : undefined;
+
+  let content =
+    extractElement(html, "main") ??
+    extractElement(html, "article") ??
+    extractElement(html, "body") ??
+    html;
+
+  content = content.replace(/<!--[\s\S]*?-->/g, "");
+  for (const element of REMOVED_ELEMENTS) {
+    content = content.replace(
+      new RegExp(`<${element}\\b[^>]*>[\\s\\S]*?</${element}>`, "gi"),
+      "",
+    );
+  }
+
+  // Preformatted blocks keep their whitespace, so park them until the end
+  const preformatted: string[] = [];
+  content = content.replace(
+    /<pre\b[^>]*>([\s\S]*?)<\/pre>/gi,
+    (_, inner: string) => {
+      const code = decodeEntities(stripTags(inner)).replace(/\n+$/, "");
+      preformatted.push(`\n\n\`\`\`\n${code}\n\`\`\`\n\n`);
+      return `@@PRE${preformatted.length - 1}@@`;
+    },
+  );
+
+  content = content
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, inner) => {
+      const text = stripTags(inner).replace(/\s+/g, " ").trim();
+      return text ? `\n\n${"#".repeat(Number(level))} ${text}\n\n` : "";
+    })
+    .replace(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi, (_, attributes, inner) => {
+      const text = stripTags(inner).replace(/\s+/g, " ").trim();
+      const href = getAttribute(`<a ${attributes}>`, "href");
+      if (!text) {
+        return "";
+      }
+      if (!href || /^(javascript|mailto):|^#/i.test(href)) {
+        return text;
+      }
+      return `[${text}](${resolveUrl(href, baseUrl)})`;
+    })
+    .replace(/<img\b[^>]*>/gi, (tag) => {
+      const src = getAttribute(tag, "src");
+      const alt = getAttribute(tag, "alt");
+      return src && alt ? `![${alt}](${resolveUrl(src, baseUrl)})` : "";
+    })
+    .replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, (_, inner) => {
+      const text = stripTags(inner);
+      return text ? `\`${text}\`` : "";
+    })
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, __, inner) => {
+      const text = inner.trim();
+      return text ? `**${text}**` : "";
+    })
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, __, inner) => {
+      const text = inner.trim();
+      return text ? `*${text}*` : "";
+    })
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<blockquote\b[^>]*>/gi, "\n\n> ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<hr\b[^>]*>/gi, "\n\n---\n\n")
+    .replace(/<\/?(td|th)\b[^>]*>/gi, " ")
+    .replace(
+      new RegExp(`</?(${BLOCK_ELEMENTS.join("|")}|blockquote)\\b[^>]*>`, "gi"),
+      "\n\n",
+    );
+
+  const markdown = decodeEntities(stripTags(content))
+    .split("\n")
+    .map((line) => line.replace(/[ \t\f\v ]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(/@@PRE(\d+)@@/g, (_, index) => preformatted[Number(index)] ?? "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return { title, markdown };
+}
@@ -0,0 +1,210 @@
+/* agent-frontmatter:start
+AGENT: Agent runtime tool module
+PURPOSE: Implements Web Fetch tool execution within the AgentStart runtime.
+USAGE: Register the "web-fetch" tool when composing the agent configuration to expose this capability.
+EXPORTS: webFetch
+FEATURES:
+  - Fetches http(s) URLs with a timeout and response size cap
+  - Refuses private network addresses and re-checks every redirect hop
+  - Honors the allowed hosts and fetch override from the webFetch options
+  - Converts HTML into markdown and passes text formats through
+  - Truncates content to a token budget
+  - Cites the fetched page as a source-url part
+SEARCHABLE: packages, agentstart, src, agent, tools, web, fetch, url, markdown, tool, runtime
+agent-frontmatter:end */
+
+import type { RuntimeContext } from "@agentstart/types";
+import { tool } from "ai";
+import {
+  type AgentStartToolOutput,
+  toolInputSchema,
+  toolOutputSchema,
+} from "@/agent/messages";
+import { getRichError } from "@/agent/tools/get-rich-error";
+import { assertPublicHost } from "./address";
+import description from "./description";
+import { htmlToMarkdown } from "./html-to-markdown";
+
+const DEFAULT_MAX_TOKENS = 8000;
+const CHARS_PER_TOKEN = 4;
+const FETCH_TIMEOUT_MS = 30_000;
+const MAX_RESPONSE_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+const TEXT_CONTENT_TYPES = [
+  "text/plain",
+  "text/markdown",
+  "text/x-markdown",
+  "text/csv",
+  "application/json",
+  "application/xml",
+  "text/xml",
+];
+
+async function readBody(response: Response) {
+  const contentLength = Number(response.headers.get("content-length"));
+  if (contentLength > MAX_RESPONSE_BYTES) {
+    throw new Error(
+      `Response is too large (${contentLength} bytes, limit ${MAX_RESPONSE_BYTES})`,
+    );
+  }
+  if (!response.body) {
+    return "";
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    received += value.byteLength;
+    if (received > MAX_RESPONSE_BYTES) {
+      await reader.cancel();
+      throw new Error(
+        `Response is too large (over ${MAX_RESPONSE_BYTES} bytes)`,
+      );
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+export const webFetch = tool({
+  description,
+  inputSchema: toolInputSchema.shape["web-fetch"],
+  outputSchema: toolOutputSchema.shape["web-fetch"],
+  async *execute(
+    { url, maxTokens = DEFAULT_MAX_TOKENS },
+    { experimental_context: context, toolCallId, abortSignal },
+  ) {
+    const { writer, webFetch: options } = context as RuntimeContext;
+
+    yield {
+      status: "pending" as const,
+      prompt: `Fetching ${url}`,
+      metadata: { url },
+    } satisfies AgentStartToolOutput["web-fetch"];
+
+    try {
+      const timeoutSignal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+      const signal = abortSignal
+        ? AbortSignal.any([abortSignal, timeoutSignal])
+        : timeoutSignal;
+
+      // Follow redirects by hand so every hop is checked before it is sent
+      let target = new URL(url);
+      let response: Response;
+      for (let redirects = 0; ; redirects++) {
+        if (target.protocol !== "http:" && target.protocol !== "https:") {
+          throw new Error(`Unsupported protocol "${target.protocol}"`);
+        }
+        await assertPublicHost(target, options?.allowedHosts);
+
+        response = await (options?.fetch ?? fetch)(target, {
+          headers: {
+            accept:
+              "text/html,text/markdown,text/plain,application/json;q=0.9,*/*;q=0.5",
+            "user-agent": "AgentStart-WebFetch/1.0",
+          },
+          redirect: "manual",
+          signal,
+        });
+
+        const location = response.headers.get("location");
+        if (response.status < 300 || response.status >= 400 || !location) {
+          break;
+        }
+        await response.body?.cancel();
+        if (redirects === MAX_REDIRECTS) {
+          throw new Error(`Too many redirects (limit ${MAX_REDIRECTS})`);
+        }
+        target = new URL(location, target);
+      }
+      const finalUrl = target.href;
+      const contentType =
+        response.headers.get("content-type")?.split(";")[0]?.trim() ??
+        "text/plain";
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw new Error(
+          `Request failed with status ${response.status} ${response.statusText}`.trim(),
+        );
+      }
+
+      let content: string;
+      let title: string | undefined;
+      if (contentType === "text/html" || contentType.endsWith("+xml")) {
+        const converted = htmlToMarkdown(await readBody(response), finalUrl);
+        content = converted.markdown;
+        title = converted.title || undefined;
+      } else if (
+        TEXT_CONTENT_TYPES.includes(contentType) ||
+        contentType.endsWith("+json")
+      ) {
+        content = (await readBody(response)).trim();
+      } else {
+        await response.body?.cancel();
+        throw new Error(`Unsupported content type "${contentType}"`);
+      }
+
+      const maxLength = maxTokens * CHARS_PER_TOKEN;
+      const truncated = content.length > maxLength;
+      if (truncated) {
+        content = `${content.slice(0, maxLength)}\n\n[Content truncated at ~${maxTokens} tokens]`;
+      }
+
+      writer.write({
+        type: "source-url",
+        sourceId: `${toolCallId}-source`,
+        url: finalUrl,
+        title,
+      });
+
+      const header = title
+        ? `# ${title}\nSource: ${finalUrl}`
+        : `Source: ${finalUrl}`;
+      yield {
+        status: "done" as const,
+        prompt: `${header}\n\n${content || "(empty page)"}`,
+        metadata: {
+          url: finalUrl,
+          title,
+          contentType,
+          status: response.status,
+          truncated,
+        },
+      } satisfies AgentStartToolOutput["web-fetch"];
+    } catch (error) {
+      const richError = getRichError({
+        action: "fetch url",
+        args: { url },
+        error,
+      });
+
+      yield {
+        status: "error" as const,
+        prompt: richError.message,
+        error: richError.error,
+        metadata: { url },
+      } satisfies AgentStartToolOutput["web-fetch"];
+    }
+  },
+  toModelOutput: (output) => {
+    if (output.error) {
+      return {
+        type: "error-text" as const,
+        value: output.prompt,
+      };
+    }
+
+    return {
+      type: "text" as const,
+      value: output.prompt,
+    };
+  },
+});
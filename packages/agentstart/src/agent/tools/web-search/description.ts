@@ -0,0 +1,25 @@
+/* agent-frontmatter:start
+AGENT: Agent runtime tool metadata
+PURPOSE: Provides prompt guidance and guardrails for the Web Search tool.
+USAGE: Referenced by the "web-search" tool definition to describe expected behavior.
+EXPORTS: default
+FEATURES:
+  - Summarizes capabilities, inputs, and cautions for Web Search
+  - Feeds documentation into adapter surfaces when exposing the tool
+SEARCHABLE: packages, agentstart, src, agent, tools, web, search, description, tool, runtime
+agent-frontmatter:end */
+
+export default `Search the web and return a list of matching pages with titles, URLs and snippets.
+
+Usage:
+- Write a focused query, as you would type into a search engine
+- Use allowedDomains or blockedDomains to restrict results to, or away from, specific sites
+- Results only include short snippets; use the webFetch tool to read a page in full
+- Every result is cited as a source in the conversation
+
+When to use:
+- The user asks about recent events, releases or anything beyond your knowledge
+- You need documentation or references but do not know the exact URL
+
+When NOT to use:
+- For searching files inside the sandbox, use the grep or glob tools instead`;
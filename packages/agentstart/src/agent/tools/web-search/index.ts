@@ -0,0 +1,140 @@
+/* agent-frontmatter:start
+AGENT: Agent runtime tool module
+PURPOSE: Implements Web Search tool execution within the AgentStart runtime.
+USAGE: Register the "web-search" tool and configure `webSearch` in AgentStart options.
+EXPORTS: webSearch
+FEATURES:
+  - Delegates queries to the configured WebSearchProvider
+  - Applies result limits and domain filters
+  - Cites every result as a source-url part
+SEARCHABLE: packages, agentstart, src, agent, tools, web, search, provider, tool, runtime
+agent-frontmatter:end */
+
+import type { RuntimeContext, WebSearchResult } from "@agentstart/types";
+import { tool } from "ai";
+import {
+  type AgentStartToolOutput,
+  toolInputSchema,
+  toolOutputSchema,
+} from "@/agent/messages";
+import { getRichError } from "@/agent/tools/get-rich-error";
+import description from "./description";
+
+const DEFAULT_MAX_RESULTS = 5;
+
+function matchesDomain(url: string, domains: string[]) {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  return domains.some((domain) => {
+    const normalized = domain.toLowerCase().replace(/^\*?\./, "");
+    return hostname === normalized || hostname.endsWith(`.${normalized}`);
+  });
+}
+
+function formatResults(query: string, results: WebSearchResult[]) {
+  if (results.length === 0) {
+    return `No results found for "${query}".`;
+  }
+
+  const lines = results.map((result, index) => {
+    const snippet = result.snippet ? `\n   ${result.snippet}` : "";
+    return `${index + 1}. ${result.title}\n   ${result.url}${snippet}`;
+  });
+  return `Search results for "${query}":\n\n${lines.join("\n\n")}`;
+}
+
+export const webSearch = tool({
+  description,
+  inputSchema: toolInputSchema.shape["web-search"],
+  outputSchema: toolOutputSchema.shape["web-search"],
+  async *execute(
+    { query, maxResults = DEFAULT_MAX_RESULTS, allowedDomains, blockedDomains },
+    { experimental_context: context, toolCallId, abortSignal },
+  ) {
+    const { writer, webSearch: provider } = context as RuntimeContext;
+
+    if (!provider) {
+      yield {
+        status: "error" as const,
+        prompt:
+          "Web search is not available: no search provider is configured.",
+        error: { message: "No web search provider configured" },
+        metadata: { query },
+      } satisfies AgentStartToolOutput["web-search"];
+      return;
+    }
+
+    yield {
+      status: "pending" as const,
+      prompt: `Searching the web for "${query}"`,
+      metadata: { query, provider: provider.name },
+    } satisfies AgentStartToolOutput["web-search"];
+
+    try {
+      const found = await provider.search(query, {
+        maxResults,
+        allowedDomains,
+        blockedDomains,
+        signal: abortSignal,
+      });
+
+      // Providers may ignore filters, so enforce them here as well
+      const results = found
+        .filter(
+          (result) =>
+            (!allowedDomains?.length ||
+              matchesDomain(result.url, allowedDomains)) &&
+            !(
+              blockedDomains?.length &&
+              matchesDomain(result.url, blockedDomains)
+            ),
+        )
+        .slice(0, maxResults);
+
+      results.forEach((result, index) => {
+        writer.write({
+          type: "source-url",
+          sourceId: `${toolCallId}-${index}`,
+          url: result.url,
+          title: result.title,
+        });
+      });
+
+      yield {
+        status: "done" as const,
+        prompt: formatResults(query, results),
+        metadata: { query, provider: provider.name, results },
+      } satisfies AgentStartToolOutput["web-search"];
+    } catch (error) {
+      const richError = getRichError({
+        action: "search the web",
+        args: { query },
+        error,
+      });
+
+      yield {
+        status: "error" as const,
+        prompt: richError.message,
+        error: richError.error,
+        metadata: { query, provider: provider.name },
+      } satisfies AgentStartToolOutput["web-search"];
+    }
+  },
+  toModelOutput: (output) => {
+    if (output.error) {
+      return {
+        type: "error-text" as const,
+        value: output.prompt,
+      };
+    }
+
+    return {
+      type: "text" as const,
+      value: output.prompt,
+    };
+  },
+});
@@ -7,10 +7,20 @@ FEATURES:
   - Mocks adapter instances directly in context
   - Covers constraint failures (size, MIME type) and missing configuration
   - Confirms successful uploads invoke adapter.put with expected payload
+  - Scopes uploads to the caller and thread, signing URLs of private blobs
+  - Presigns direct uploads, multipart for large files, and confirms them
+  - Lists and deletes only the caller's uploads
+  - Rejects pathnames with dot segments that resolve to other users' uploads
+  - Runs garbage collection only for server-side calls
 SEARCHABLE: blob router test, upload constraints test
 agent-frontmatter:end */
 
-import type { BlobAdapter } from "@agentstart/types";
+import { inMemoryAdapter } from "@agentstart/memory/in-memory";
+import type {
+  BlobAdapter,
+  BlobUploadUrl,
+  MemoryAdapter,
+} from "@agentstart/types";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { createBlobRouter } from "../routers/blob";
 
@@ -68,6 +78,18 @@ function createAdapter(overrides: Partial<BlobAdapter> = {}): BlobAdapter {
   };
 }
 
+function createContext(
+  adapter: BlobAdapter,
+  extra: Record<string, unknown> = {},
+) {
+  return {
+    blob: adapter,
+    headers: new Headers(),
+    getUserId: () => "user_1",
+    ...extra,
+  };
+}
+
 describe("blob router", () => {
   const router = createBlobRouter(createTestProcedure() as any) as any;
 
@@ -105,9 +127,7 @@ describe("blob router", () => {
 
       await expect(
         router.upload({
-          context: {
-            blob: adapter,
-          },
+          context: createContext(adapter),
           input: {
             files: [
               {
@@ -132,9 +152,7 @@ describe("blob router", () => {
 
       await expect(
         router.upload({
-          context: {
-            blob: adapter,
-          },
+          context: createContext(adapter),
           input: {
             files: [
               {
@@ -168,9 +186,7 @@ describe("blob router", () => {
       });
 
       const result = await router.upload({
-        context: {
-          blob: adapter,
-        },
+        context: createContext(adapter),
         input: {
           files: [
             {
@@ -185,7 +201,7 @@ describe("blob router", () => {
       expect(put).toHaveBeenCalledTimes(1);
       const callArgs = put.mock.calls[0]!;
       const [pathname, buffer, options] = callArgs;
-      expect(pathname.startsWith("uploads/")).toBe(true);
+      expect(pathname).toMatch(/^users\/user_1\/drafts\/.+-file\.txt$/);
       expect(buffer).toBeInstanceOf(Buffer);
       expect((buffer as Buffer).toString()).toBe("ok");
       expect(options).toMatchObject({
@@ -202,9 +218,432 @@ describe("blob router", () => {
             pathname: "uploads/file.txt",
             contentType: "text/plain",
             contentDisposition: "inline",
+            access: "public",
+          },
+        ],
+      });
+    });
+
+    it("scopes uploads to threads the caller owns", async () => {
+      const memory = inMemoryAdapter()({}) as MemoryAdapter;
+      await memory.create({
+        model: "thread",
+        data: {
+          id: "thr_1",
+          title: "Mine",
+          userId: "user_1",
+          visibility: "private",
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      });
+      const put = vi.fn(async (pathname: string) => ({
+        url: `https://example.com/${pathname}`,
+        downloadUrl: `https://example.com/${pathname}`,
+        pathname,
+        contentType: "text/plain",
+        contentDisposition: "inline",
+      }));
+      const adapter = createAdapter({ put });
+      const input = {
+        threadId: "thr_1",
+        files: [
+          { name: "../notes.txt", data: base64("ok"), type: "text/plain" },
+        ],
+      };
+
+      const result = await router.upload({
+        context: createContext(adapter, { memory: () => memory }),
+        input,
+      });
+      expect(result.files[0].pathname).toMatch(
+        /^users\/user_1\/threads\/thr_1\/[^/]+-\.\.-notes\.txt$/,
+      );
+
+      await expect(
+        router.upload({
+          context: createContext(adapter, {
+            memory: () => memory,
+            getUserId: () => "user_2",
+          }),
+          input,
+        }),
+      ).rejects.toThrowError("You don't have permission to access this thread");
+    });
+
+    it("returns signed URLs for private adapters", async () => {
+      const getSignedUrl = vi.fn(
+        async (pathname: string, options?: { download?: boolean }) =>
+          `https://signed.example.com/${pathname}?download=${Boolean(options?.download)}`,
+      );
+      const adapter = createAdapter({
+        put: vi.fn(async (pathname: string) => ({
+          url: `https://example.com/${pathname}`,
+          downloadUrl: `https://example.com/${pathname}`,
+          pathname,
+          contentType: "text/plain",
+          contentDisposition: "inline",
+        })),
+        getAccess: () => "private",
+        getSignedUrl,
+      });
+
+      const result = await router.upload({
+        context: createContext(adapter),
+        input: {
+          files: [{ name: "a.txt", data: base64("ok"), type: "text/plain" }],
+        },
+      });
+
+      const [file] = result.files;
+      expect(file.access).toBe("private");
+      expect(file.url).toBe(
+        `https://signed.example.com/${file.pathname}?download=false`,
+      );
+      expect(file.downloadUrl).toBe(
+        `https://signed.example.com/${file.pathname}?download=true`,
+      );
+    });
+  });
+
+  describe("createUploadUrl", () => {
+    const createUploadUrl = vi.fn(
+      async (
+        pathname: string,
+        options?: { part?: { partNumber: number } },
+      ): Promise<BlobUploadUrl> => ({
+        url: `https://upload.example.com/${pathname}?part=${options?.part?.partNumber ?? 0}`,
+        method: "PUT",
+        headers: options?.part ? {} : { "content-type": "text/plain" },
+      }),
+    );
+
+    it("requires an adapter that can presign uploads", async () => {
+      await expect(
+        router.createUploadUrl({
+          context: createContext(createAdapter()),
+          input: { files: [{ name: "a.txt", type: "text/plain", size: 2 }] },
+        }),
+      ).rejects.toThrowError(
+        "The vercelBlob blob adapter does not support direct uploads",
+      );
+    });
+
+    it("validates declared sizes before presigning", async () => {
+      const adapter = createAdapter({
+        getConstraints: vi.fn().mockReturnValue({ maxFileSize: 1 }),
+        createUploadUrl,
+      });
+
+      await expect(
+        router.createUploadUrl({
+          context: createContext(adapter),
+          input: { files: [{ name: "a.txt", type: "text/plain", size: 2 }] },
+        }),
+      ).rejects.toThrowError(
+        'File "a.txt" size (2 bytes) exceeds maximum allowed size of 1 bytes',
+      );
+      expect(createUploadUrl).not.toHaveBeenCalled();
+    });
+
+    it("presigns small files as a single upload", async () => {
+      const adapter = createAdapter({ createUploadUrl });
+
+      const result = await router.createUploadUrl({
+        context: createContext(adapter),
+        input: { files: [{ name: "a.txt", type: "text/plain", size: 2 }] },
+      });
+
+      const [file] = result.files;
+      expect(file.pathname).toMatch(/^users\/user_1\/drafts\/[^/]+-a\.txt$/);
+      expect(file.upload).toEqual({
+        url: `https://upload.example.com/${file.pathname}?part=0`,
+        method: "PUT",
+        headers: { "content-type": "text/plain" },
+      });
+      expect(createUploadUrl).toHaveBeenCalledWith(file.pathname, {
+        contentType: "text/plain",
+      });
+    });
+
+    it("splits large files into presigned parts", async () => {
+      const createMultipartUpload = vi.fn(async (pathname: string) => ({
+        key: `prefix/${pathname}`,
+        uploadId: "up_1",
+      }));
+      const adapter = createAdapter({ createUploadUrl, createMultipartUpload });
+      const size = 40 * 1024 * 1024 * 2 + 1;
+
+      const result = await router.createUploadUrl({
+        context: createContext(adapter),
+        input: { files: [{ name: "clip.mp4", type: "video/mp4", size }] },
+      });
+
+      const [file] = result.files;
+      expect(file.upload).toBeUndefined();
+      expect(file.multipart).toMatchObject({
+        key: `prefix/${file.pathname}`,
+        uploadId: "up_1",
+        partSize: 16 * 1024 * 1024,
+      });
+      expect(file.multipart.parts).toHaveLength(6);
+      expect(file.multipart.parts[5]).toEqual({
+        partNumber: 6,
+        url: `https://upload.example.com/${file.pathname}?part=6`,
+        method: "PUT",
+        headers: {},
+      });
+      expect(createMultipartUpload).toHaveBeenCalledWith(file.pathname, {
+        contentType: "video/mp4",
+        access: "public",
+      });
+    });
+  });
+
+  describe("confirm", () => {
+    const head = vi.fn(async (pathname: string) => ({
+      url: `https://example.com/${pathname}`,
+      downloadUrl: `https://example.com/${pathname}?download=1`,
+      pathname,
+      contentType: "text/plain",
+      contentDisposition: "inline",
+      size: 2,
+      uploadedAt: new Date(),
+      cacheControl: "public",
+    }));
+
+    it("completes multipart uploads and returns file metadata", async () => {
+      const completeMultipartUpload = vi.fn();
+      const adapter = createAdapter({ head, completeMultipartUpload });
+      const pathname = "users/user_1/drafts/x-a.txt";
+
+      const result = await router.confirm({
+        context: createContext(adapter),
+        input: {
+          files: [
+            {
+              name: "a.txt",
+              pathname,
+              multipart: {
+                key: pathname,
+                uploadId: "up_1",
+                parts: [{ partNumber: 1, etag: '"e1"' }],
+              },
+            },
+          ],
+        },
+      });
+
+      expect(completeMultipartUpload).toHaveBeenCalledWith(
+        pathname,
+        [{ partNumber: 1, etag: '"e1"' }],
+        { access: "public", key: pathname, uploadId: "up_1" },
+      );
+      expect(result).toEqual({
+        success: true,
+        files: [
+          {
+            name: "a.txt",
+            url: `https://example.com/${pathname}`,
+            downloadUrl: `https://example.com/${pathname}?download=1`,
+            pathname,
+            contentType: "text/plain",
+            contentDisposition: "inline",
+            access: "public",
           },
         ],
       });
     });
+
+    it("deletes uploads that break the constraints", async () => {
+      const del = vi.fn();
+      const adapter = createAdapter({
+        head,
+        del,
+        getConstraints: vi
+          .fn()
+          .mockReturnValue({ allowedMimeTypes: ["image/png"] }),
+      });
+
+      await expect(
+        router.confirm({
+          context: createContext(adapter),
+          input: {
+            files: [{ name: "a.png", pathname: "users/user_1/drafts/a.png" }],
+          },
+        }),
+      ).rejects.toThrowError(
+        'File "a.png" type "text/plain" is not allowed. Allowed types: image/png',
+      );
+      expect(del).toHaveBeenCalledWith(["users/user_1/drafts/a.png"]);
+    });
+
+    it("refuses to confirm uploads of other users", async () => {
+      const adapter = createAdapter({ head });
+
+      await expect(
+        router.confirm({
+          context: createContext(adapter),
+          input: {
+            files: [{ name: "a.txt", pathname: "users/user_2/drafts/a.txt" }],
+          },
+        }),
+      ).rejects.toThrowError(
+        'You don\'t have permission to confirm "users/user_2/drafts/a.txt"',
+      );
+      expect(head).not.toHaveBeenCalled();
+    });
+
+    it("refuses pathnames that climb into another user's uploads", async () => {
+      const del = vi.fn();
+      const adapter = createAdapter({ head, del });
+      const pathname = "users/user_1/../user_2/drafts/a.txt";
+
+      await expect(
+        router.confirm({
+          context: createContext(adapter),
+          input: { files: [{ name: "a.txt", pathname }] },
+        }),
+      ).rejects.toThrowError(
+        `You don't have permission to confirm "${pathname}"`,
+      );
+      expect(head).not.toHaveBeenCalled();
+      expect(del).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("list", () => {
+    it("lists the caller's uploads", async () => {
+      const list = vi.fn().mockResolvedValue({
+        blobs: [
+          {
+            pathname: "users/user_1/drafts/a.txt",
+            url: "https://example.com/a.txt",
+            downloadUrl: "https://example.com/a.txt?download=1",
+            size: 2,
+            uploadedAt: new Date("2025-01-01T00:00:00Z"),
+          },
+        ],
+        cursor: "next",
+        hasMore: true,
+      });
+
+      const result = await router.list({
+        context: createContext(createAdapter({ list })),
+        input: { limit: 1 },
+      });
+
+      expect(list).toHaveBeenCalledWith({
+        prefix: "users/user_1/",
+        cursor: undefined,
+        limit: 1,
+      });
+      expect(result).toEqual({
+        blobs: [
+          {
+            pathname: "users/user_1/drafts/a.txt",
+            url: "https://example.com/a.txt",
+            downloadUrl: "https://example.com/a.txt?download=1",
+            size: 2,
+            uploadedAt: new Date("2025-01-01T00:00:00Z"),
+          },
+        ],
+        cursor: "next",
+        hasMore: true,
+      });
+    });
+  });
+
+  describe("delete", () => {
+    it("deletes the caller's uploads", async () => {
+      const del = vi.fn();
+
+      const result = await router.delete({
+        context: createContext(createAdapter({ del })),
+        input: {
+          pathnames: [
+            "users/user_1/drafts/a.txt",
+            "prefix/users/user_1/threads/thr_1/b.txt",
+          ],
+        },
+      });
+
+      expect(result).toEqual({ success: true, deleted: 2 });
+      expect(del).toHaveBeenCalledWith([
+        "users/user_1/drafts/a.txt",
+        "prefix/users/user_1/threads/thr_1/b.txt",
+      ]);
+    });
+
+    it("refuses to delete uploads of other users", async () => {
+      const del = vi.fn();
+
+      await expect(
+        router.delete({
+          context: createContext(createAdapter({ del })),
+          input: {
+            pathnames: ["users/user_1/a.txt", "users/user_2/drafts/b.txt"],
+          },
+        }),
+      ).rejects.toThrowError(
+        'You don\'t have permission to delete "users/user_2/drafts/b.txt"',
+      );
+      expect(del).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      "users/user_1/../user_2/threads/thr_2/b.txt",
+      "users/user_1/%2e%2e/user_2/drafts/b.txt",
+      "users/user_1/drafts\\..\\..\\user_2/b.txt",
+      "/users/user_1/drafts/b.txt",
+    ])("refuses pathnames that resolve elsewhere: %s", async (pathname) => {
+      const del = vi.fn();
+
+      await expect(
+        router.delete({
+          context: createContext(createAdapter({ del })),
+          input: { pathnames: [pathname] },
+        }),
+      ).rejects.toThrowError(
+        `You don't have permission to delete "${pathname}"`,
+      );
+      expect(del).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("gc", () => {
+    it("refuses to run over HTTP", async () => {
+      const list = vi.fn();
+
+      await expect(
+        router.gc({
+          context: createContext(createAdapter({ list })),
+          input: { dryRun: true },
+        }),
+      ).rejects.toThrowError(
+        "Blob garbage collection can only run through the server-side API",
+      );
+      expect(list).not.toHaveBeenCalled();
+    });
+
+    it("runs for server-side calls", async () => {
+      const list = vi.fn().mockResolvedValue({ blobs: [], hasMore: false });
+
+      const result = await router.gc({
+        context: createContext(createAdapter({ list }), {
+          isServer: true,
+          memory: () => inMemoryAdapter()({}),
+        }),
+        input: { dryRun: true },
+      });
+
+      expect(result).toEqual({
+        scanned: 0,
+        referenced: 0,
+        orphaned: [],
+        deleted: 0,
+        dryRun: true,
+      });
+    });
   });
 });
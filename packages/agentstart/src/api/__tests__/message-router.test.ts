@@ -0,0 +1,253 @@
+/* agent-frontmatter:start
+AGENT: Message router tests
+PURPOSE: Verify message editing, regeneration and branch loading
+USAGE: Run with vitest; drives the message API of an Agent Start instance
+EXPORTS: none
+FEATURES:
+  - Regenerates replies as sibling branches
+  - Edits user messages into new branches that keep the originals
+  - Loads the active branch or any other branch by message id
+  - Reads linear history stored before branching existed
+  - Hides the branches of private threads from other users
+SEARCHABLE: message router test, edit message test, regenerate test, branching test
+agent-frontmatter:end */
+
+import { inMemoryAdapter } from "@agentstart/memory/in-memory";
+import type { MemoryAdapter } from "@agentstart/types";
+import { simulateReadableStream } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+import { describe, expect, it, vi } from "vitest";
+import { type AgentStartUIMessage, loadThread } from "@/agent";
+import { BaseAgent } from "@/agent/agent";
+import { agentStart } from "@/start";
+
+// Usage summaries would otherwise fetch the model catalog over the network
+vi.mock("tokenlens/fetch", () => ({ fetchModels: async () => ({}) }));
+
+function createAgent() {
+  let replies = 0;
+  return new BaseAgent({
+    model: new MockLanguageModelV3({
+      doGenerate: async () => ({
+        content: [{ type: "text", text: "Title" }],
+        finishReason: "stop",
+        usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+        warnings: [],
+      }),
+      doStream: async () => {
+        replies += 1;
+        return {
+          stream: simulateReadableStream({
+            chunks: [
+              { type: "stream-start", warnings: [] },
+              { type: "text-start", id: "text_1" },
+              { type: "text-delta", id: "text_1", delta: `Reply ${replies}` },
+              { type: "text-end", id: "text_1" },
+              {
+                type: "finish",
+                finishReason: "stop",
+                usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+              },
+            ],
+          }),
+        };
+      },
+    }),
+    instructions: "Reply.",
+  });
+}
+
+function userMessage(id: string, text: string): AgentStartUIMessage {
+  return {
+    id,
+    role: "user",
+    parts: [{ type: "text", text }],
+    metadata: { createdAt: Date.now() },
+  };
+}
+
+function toText(messages: AgentStartUIMessage[]) {
+  return messages.map((message) =>
+    message.parts
+      .map((part) => (part.type === "text" ? part.text : ""))
+      .join(""),
+  );
+}
+
+async function drain(stream: AsyncIterable<unknown> | undefined) {
+  for await (const _ of stream ?? []) {
+    // Wait for the run to finish and persist its reply
+  }
+}
+
+async function setup() {
+  const memory = inMemoryAdapter()({}) as MemoryAdapter;
+  const start = agentStart({
+    agent: createAgent(),
+    memory: () => memory,
+    getUserId: () => "user_1",
+  });
+  const { threadId } = await start.api.thread.create({});
+
+  const send = async (id: string, text: string) =>
+    drain(
+      (await start.api.thread.stream({
+        threadId,
+        message: userMessage(id, text),
+      })) as AsyncIterable<unknown>,
+    );
+
+  return { start, memory, threadId, send };
+}
+
+describe("message router", () => {
+  it("regenerates a reply as a sibling branch", async () => {
+    const { start, threadId, send } = await setup();
+    await send("msg_1", "Hello");
+
+    const [, firstReply] = await start.api.message.get({ threadId });
+    await drain(
+      await start.api.message.regenerate({
+        threadId,
+        messageId: firstReply!.id,
+      }),
+    );
+
+    const messages = await start.api.message.get({ threadId });
+    expect(toText(messages)).toEqual(["Hello", "Reply 2"]);
+
+    const branchPoints = await start.api.message.branches({ threadId });
+    expect(branchPoints).toEqual([
+      { parentId: "msg_1", messageIds: [firstReply!.id, messages[1]!.id] },
+    ]);
+
+    const previous = await start.api.message.get({
+      threadId,
+      messageId: firstReply!.id,
+    });
+    expect(toText(previous)).toEqual(["Hello", "Reply 1"]);
+  });
+
+  it("edits a user message into a new branch", async () => {
+    const { start, threadId, send } = await setup();
+    await send("msg_1", "Hello");
+    await send("msg_2", "Tell me more");
+
+    await drain(
+      await start.api.message.edit({
+        threadId,
+        messageId: "msg_2",
+        id: "msg_2b",
+        parts: [{ type: "text", text: "Tell me less" }],
+      }),
+    );
+
+    const messages = await start.api.message.get({ threadId });
+    expect(toText(messages)).toEqual([
+      "Hello",
+      "Reply 1",
+      "Tell me less",
+      "Reply 3",
+    ]);
+
+    const branchPoints = await start.api.message.branches({ threadId });
+    expect(branchPoints).toEqual([
+      { parentId: messages[1]!.id, messageIds: ["msg_2", "msg_2b"] },
+    ]);
+
+    // The original branch keeps its reply
+    const original = await start.api.message.get({
+      threadId,
+      messageId: "msg_2",
+    });
+    expect(toText(original)).toEqual([
+      "Hello",
+      "Reply 1",
+      "Tell me more",
+      "Reply 2",
+    ]);
+  });
+
+  it("continues a non-active branch when a parent is given", async () => {
+    const { start, threadId, send } = await setup();
+    await send("msg_1", "Hello");
+    const [, firstReply] = await start.api.message.get({ threadId });
+    await drain(
+      await start.api.message.regenerate({ threadId, messageId: "msg_1" }),
+    );
+
+    await drain(
+      (await start.api.thread.stream({
+        threadId,
+        message: userMessage("msg_2", "Follow up"),
+        parentId: firstReply!.id,
+      })) as AsyncIterable<unknown>,
+    );
+
+    const messages = await start.api.message.get({ threadId });
+    expect(toText(messages)).toEqual([
+      "Hello",
+      "Reply 1",
+      "Follow up",
+      "Reply 3",
+    ]);
+  });
+
+  it("only edits user messages", async () => {
+    const { start, threadId, send } = await setup();
+    await send("msg_1", "Hello");
+    const [, reply] = await start.api.message.get({ threadId });
+
+    await expect(
+      start.api.message.edit({
+        threadId,
+        messageId: reply!.id,
+        parts: [{ type: "text", text: "Changed" }],
+      }),
+    ).rejects.toThrow("Only user messages can be edited");
+    await expect(
+      start.api.message.edit({
+        threadId,
+        messageId: "missing",
+        parts: [{ type: "text", text: "Changed" }],
+      }),
+    ).rejects.toThrow("Message not found");
+  });
+
+  it("hides the branches of private threads from other users", async () => {
+    const { memory, threadId, send } = await setup();
+    await send("msg_1", "Hello");
+    const intruder = agentStart({
+      agent: createAgent(),
+      memory: () => memory,
+      getUserId: () => "user_2",
+    });
+
+    await expect(intruder.api.message.branches({ threadId })).rejects.toThrow(
+      "You don't have permission to access this thread",
+    );
+  });
+
+  it("reads history stored without parent ids as one branch", async () => {
+    const { memory, threadId } = await setup();
+    for (const [index, role] of ["user", "assistant", "user"].entries()) {
+      await memory.create({
+        model: "message",
+        data: {
+          id: `legacy_${index}`,
+          threadId,
+          role,
+          parts: JSON.stringify([{ type: "text", text: `Text ${index}` }]),
+          createdAt: new Date(Date.UTC(2025, 0, 1, 0, index)).toISOString(),
+          updatedAt: new Date(Date.UTC(2025, 0, 1, 0, index)).toISOString(),
+        },
+      });
+    }
+
+    const messages = await loadThread<AgentStartUIMessage>({
+      memory,
+      threadId,
+    });
+    expect(toText(messages)).toEqual(["Text 0", "Text 1", "Text 2"]);
+  });
+});
@@ -0,0 +1,112 @@
+/* agent-frontmatter:start
+AGENT: Sandbox router tests
+PURPOSE: Verify the workspace watch stream of the sandbox API
+USAGE: Run with vitest; drives the sandbox API of an Agent Start instance against a fake sandbox
+EXPORTS: none
+FEATURES:
+  - Streams file events with the requested watch options
+  - Stops the sandbox watcher when the client stops reading
+  - Rejects threads that do not exist
+SEARCHABLE: sandbox router test, sandbox watch test, file events stream test
+agent-frontmatter:end */
+
+import { inMemoryAdapter } from "@agentstart/memory/in-memory";
+import type {
+  AgentStartOptions,
+  FileSystemEvent,
+  MemoryAdapter,
+  SandboxAPI,
+  WatchOptions,
+} from "@agentstart/types";
+import { describe, expect, it, vi } from "vitest";
+import { agentStart } from "@/start";
+
+function createWatchingSandbox() {
+  const stop = vi.fn(async () => {});
+  let emit: (event: FileSystemEvent) => void = () => {};
+  const watch = vi.fn(
+    async (
+      _path: string,
+      callback: (event: FileSystemEvent) => void,
+      _options?: WatchOptions,
+    ) => {
+      emit = callback;
+      return { stop, isActive: () => stop.mock.calls.length === 0 };
+    },
+  );
+  const sandbox = {
+    fs: { watch },
+    bash: {},
+    git: {},
+  } as unknown as SandboxAPI;
+  return {
+    sandbox,
+    watch,
+    stop,
+    emit: (event: FileSystemEvent) => emit(event),
+  };
+}
+
+function setup(sandbox: SandboxAPI) {
+  const memory = inMemoryAdapter()({}) as MemoryAdapter;
+  return agentStart({
+    agent: {} as AgentStartOptions["agent"],
+    memory: () => memory,
+    getUserId: () => "user_1",
+    sandbox,
+  } as AgentStartOptions);
+}
+
+describe("sandbox.watch", () => {
+  it("streams file events until the client stops reading", async () => {
+    const fake = createWatchingSandbox();
+    const start = setup(fake.sandbox);
+
+    const events = await start.api.sandbox.watch({
+      ignore: ["node_modules"],
+      debounceMs: 50,
+    });
+
+    expect(fake.watch).toHaveBeenCalledWith("/", expect.any(Function), {
+      recursive: true,
+      ignore: ["node_modules"],
+      debounceMs: 50,
+      initialScan: false,
+    });
+
+    fake.emit({
+      type: "create",
+      path: "/notes.txt",
+      isDirectory: false,
+      timestamp: 1,
+    });
+    fake.emit({
+      type: "delete",
+      path: "/old.txt",
+      isDirectory: false,
+      timestamp: 2,
+    });
+
+    const received: FileSystemEvent[] = [];
+    for await (const event of events) {
+      received.push(event);
+      if (received.length === 2) break;
+    }
+
+    expect(received.map((event) => [event.type, event.path])).toEqual([
+      ["create", "/notes.txt"],
+      ["delete", "/old.txt"],
+    ]);
+    await vi.waitFor(() => expect(fake.stop).toHaveBeenCalledTimes(1));
+  });
+
+  it("rejects threads that do not exist", async () => {
+    const fake = createWatchingSandbox();
+    const start = setup(fake.sandbox);
+
+    await expect(
+      start.api.sandbox.watch({ threadId: "thr_missing" }),
+    ).rejects.toThrow("Thread not found");
+    expect(fake.watch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,831 @@
+/* agent-frontmatter:start
+AGENT: Thread router tests
+PURPOSE: Verify thread forking and search through the thread API
+USAGE: Run with vitest; drives the thread API of an Agent Start instance
+EXPORTS: none
+FEATURES:
+  - Forks messages and todos into a thread owned by the caller
+  - Stops the copy at a message of any branch
+  - Restores a workspace snapshot into the forked thread's sandbox and deletes it
+  - Starts forks of other users' public threads with an empty workspace
+  - Enforces visibility rules on the source thread
+  - Searches titles and message text of the caller's threads
+  - Looks past tool payloads and across batches of threads for text matches
+  - Pages threads and message history with cursors
+  - Lets only the owner read the messages of private threads and start runs
+  - Stops buffered runs that keep going after their client disconnected
+  - Pins, archives and tags threads and filters the list by those flags
+  - Shares threads read-only and sanitizes the shared messages
+  - Exports threads in every format and imports bundles and UIMessages
+SEARCHABLE: thread router test, fork thread test, sandbox snapshot test
+agent-frontmatter:end */
+
+import { inMemoryAdapter } from "@agentstart/memory/in-memory";
+import { inMemorySecondaryMemoryAdapter } from "@agentstart/memory/secondary-in-memory";
+import type {
+  MemoryAdapter,
+  SandboxAPI,
+  SandboxSnapshot,
+  SecondaryMemoryAdapter,
+  ThreadShareOptions,
+} from "@agentstart/types";
+import { simulateReadableStream } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+import { describe, expect, it, vi } from "vitest";
+import type { AgentStartUIMessage } from "@/agent";
+import { BaseAgent } from "@/agent/agent";
+import type { DBTodo } from "@/memory";
+import { agentStart } from "@/start";
+
+// Usage summaries would otherwise fetch the model catalog over the network
+vi.mock("tokenlens/fetch", () => ({ fetchModels: async () => ({}) }));
+
+function createAgent() {
+  let replies = 0;
+  return new BaseAgent({
+    model: new MockLanguageModelV3({
+      doGenerate: async () => ({
+        content: [{ type: "text", text: "Title" }],
+        finishReason: "stop",
+        usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+        warnings: [],
+      }),
+      doStream: async () => {
+        replies += 1;
+        return {
+          stream: simulateReadableStream({
+            chunks: [
+              { type: "stream-start", warnings: [] },
+              { type: "text-start", id: "text_1" },
+              { type: "text-delta", id: "text_1", delta: `Reply ${replies}` },
+              { type: "text-end", id: "text_1" },
+              {
+                type: "finish",
+                finishReason: "stop",
+                usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+              },
+            ],
+          }),
+        };
+      },
+    }),
+    instructions: "Reply.",
+  });
+}
+
+function toText(messages: AgentStartUIMessage[]) {
+  return messages.map((message) =>
+    message.parts
+      .map((part) => (part.type === "text" ? part.text : ""))
+      .join(""),
+  );
+}
+
+function createSandboxFactory() {
+  const sandboxes = new Map<
+    string,
+    SandboxAPI & { restored: SandboxSnapshot[]; deleted: SandboxSnapshot[] }
+  >();
+  const factory = (_options: unknown, context?: { key: string }) => {
+    const key = context?.key ?? "global";
+    const sandbox = {
+      fs: {},
+      bash: {},
+      git: {},
+      restored: [] as SandboxSnapshot[],
+      deleted: [] as SandboxSnapshot[],
+      isActive: async () => true,
+      snapshot: async (name: string): Promise<SandboxSnapshot> => ({
+        type: "git",
+        ref: `agentstart/snapshots/${name}`,
+        commit: `commit-of-${key}`,
+        bundle: new Uint8Array([1, 2, 3]),
+      }),
+      restore: async (snapshot: SandboxSnapshot) => {
+        sandbox.restored.push(snapshot);
+      },
+      deleteSnapshot: async (snapshot: SandboxSnapshot) => {
+        sandbox.deleted.push(snapshot);
+      },
+    } as unknown as SandboxAPI & {
+      restored: SandboxSnapshot[];
+      deleted: SandboxSnapshot[];
+    };
+    sandboxes.set(key, sandbox);
+    return sandbox;
+  };
+  return { factory, sandboxes };
+}
+
+// Streams until the run is aborted
+function createHangingAgent() {
+  return new BaseAgent({
+    model: new MockLanguageModelV3({
+      doGenerate: async () => ({
+        content: [{ type: "text", text: "Title" }],
+        finishReason: "stop",
+        usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+        warnings: [],
+      }),
+      doStream: async ({ abortSignal }) => ({
+        stream: new ReadableStream({
+          start(controller) {
+            controller.enqueue({ type: "stream-start", warnings: [] });
+            controller.enqueue({ type: "text-start", id: "text_1" });
+            controller.enqueue({
+              type: "text-delta",
+              id: "text_1",
+              delta: "Partial",
+            });
+            abortSignal?.addEventListener("abort", () =>
+              controller.error(abortSignal.reason),
+            );
+          },
+        }),
+      }),
+    }),
+    instructions: "Reply.",
+  });
+}
+
+async function setup(
+  options: {
+    agent?: BaseAgent;
+    sandbox?: ReturnType<typeof createSandboxFactory>;
+    secondaryMemory?: SecondaryMemoryAdapter;
+    share?: ThreadShareOptions;
+  } = {},
+) {
+  const memory = inMemoryAdapter()({}) as MemoryAdapter;
+  let userId = "user_1";
+  const start = agentStart({
+    agent: options.agent ?? createAgent(),
+    memory: () => memory,
+    secondaryMemory: options.secondaryMemory,
+    getUserId: () => userId,
+    share: options.share,
+    ...(options.sandbox
+      ? {
+          sandbox: options.sandbox.factory as never,
+          sandboxPool: { scope: "thread" as const },
+        }
+      : {}),
+  });
+  const { threadId } = await start.api.thread.create({ title: "Original" });
+
+  const send = async (id: string, text: string) => {
+    const stream = (await start.api.thread.stream({
+      threadId,
+      message: {
+        id,
+        role: "user",
+        parts: [{ type: "text", text }],
+        metadata: { createdAt: Date.now() },
+      },
+    })) as AsyncIterable<unknown>;
+    for await (const _ of stream) {
+      // Wait for the run to finish and persist its reply
+    }
+  };
+
+  const signInAs = (id: string) => {
+    userId = id;
+  };
+
+  return { start, memory, threadId, send, signInAs };
+}
+
+describe("thread router fork", () => {
+  it("copies messages and todos into a thread owned by the caller", async () => {
+    const { start, memory, threadId, send, signInAs } = await setup();
+    await send("msg_1", "Hello");
+    await send("msg_2", "More");
+    await start.api.thread.update({
+      threadId,
+      data: { visibility: "public" },
+    });
+    await memory.create({
+      model: "todo",
+      data: {
+        id: "todo_1",
+        threadId,
+        todos: [{ id: "t1", content: "Ship it", status: "pending" }],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    });
+
+    signInAs("user_2");
+    const fork = await start.api.thread.fork({ threadId });
+
+    expect(fork.thread).toMatchObject({
+      title: "Original",
+      userId: "user_2",
+      visibility: "private",
+    });
+    expect(fork.snapshot).toBeUndefined();
+
+    const messages = await start.api.message.get({ threadId: fork.threadId });
+    expect(toText(messages)).toEqual(["Hello", "Reply 1", "More", "Reply 2"]);
+    expect(messages.map((message) => message.id)).not.toContain("msg_1");
+
+    const todo = await memory.findOne<DBTodo>({
+      model: "todo",
+      where: [{ field: "threadId", value: fork.threadId }],
+    });
+    expect(todo?.todos).toEqual([
+      { id: "t1", content: "Ship it", status: "pending" },
+    ]);
+
+    // The fork continues on its own without touching the source
+    await expect(
+      start.api.message.get({ threadId }).then(toText),
+    ).resolves.toHaveLength(4);
+  });
+
+  it("stops the copy at the given message", async () => {
+    const { start, threadId, send } = await setup();
+    await send("msg_1", "Hello");
+    await send("msg_2", "More");
+
+    const fork = await start.api.thread.fork({
+      threadId,
+      upToMessageId: "msg_2",
+    });
+
+    const messages = await start.api.message.get({ threadId: fork.threadId });
+    expect(toText(messages)).toEqual(["Hello", "Reply 1", "More"]);
+    await expect(
+      start.api.thread.fork({ threadId, upToMessageId: "missing" }),
+    ).rejects.toThrow("Message not found");
+  });
+
+  it("restores a workspace snapshot into the fork's sandbox", async () => {
+    const sandbox = createSandboxFactory();
+    const { start, threadId, send } = await setup({ sandbox });
+    await send("msg_1", "Hello");
+
+    const fork = await start.api.thread.fork({ threadId });
+
+    expect(fork.snapshot).toEqual({
+      type: "git",
+      ref: `agentstart/snapshots/fork-${fork.threadId}`,
+      commit: `commit-of-thread:${threadId}`,
+    });
+    expect(sandbox.sandboxes.get(`thread:${fork.threadId}`)?.restored).toEqual([
+      expect.objectContaining({ commit: `commit-of-thread:${threadId}` }),
+    ]);
+    expect(sandbox.sandboxes.get(`thread:${threadId}`)?.deleted).toEqual([
+      expect.objectContaining({ commit: `commit-of-thread:${threadId}` }),
+    ]);
+  });
+
+  it("does not copy the workspace of another user's public thread", async () => {
+    const sandbox = createSandboxFactory();
+    const { start, threadId, send, signInAs } = await setup({ sandbox });
+    await send("msg_1", "Hello");
+    await start.api.thread.update({
+      threadId,
+      data: { visibility: "public" },
+    });
+
+    signInAs("user_2");
+    const fork = await start.api.thread.fork({ threadId });
+
+    expect(fork.snapshot).toBeUndefined();
+    expect(sandbox.sandboxes.has(`thread:${fork.threadId}`)).toBe(false);
+  });
+
+  it("refuses to fork private threads of other users", async () => {
+    const { start, threadId, signInAs } = await setup();
+
+    signInAs("user_2");
+    await expect(start.api.thread.fork({ threadId })).rejects.toThrow(
+      "You don't have permission to access this thread",
+    );
+  });
+});
+
+describe("thread router export", () => {
+  it("exports transcripts and round-trips bundles with every branch", async () => {
+    const { start, memory, threadId, send } = await setup();
+    await send("msg_1", "Hello");
+    const now = new Date().toISOString();
+    await memory.create({
+      model: "message",
+      data: {
+        id: "msg_alt",
+        threadId,
+        parentId: "msg_1",
+        role: "assistant",
+        parts: JSON.stringify([
+          {
+            type: "tool-bash",
+            toolCallId: "call_1",
+            state: "output-available",
+            input: { command: "ls" },
+            output: { stdout: "src" },
+          },
+          { type: "text", text: "Found src" },
+        ]),
+        createdAt: now,
+        updatedAt: now,
+      },
+    });
+    await memory.create({
+      model: "todo",
+      data: {
+        id: "todo_1",
+        threadId,
+        todos: [
+          { id: "t1", content: "Ship it", status: "pending", priority: "high" },
+        ],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    });
+
+    const markdown = await start.api.thread.export({
+      threadId,
+      format: "markdown",
+    });
+    expect(markdown.format === "markdown" && markdown.content).toBe(
+      [
+        "# Original",
+        "## User",
+        "Hello",
+        "## Assistant",
+        [
+          "<details>",
+          "<summary>Tool: bash (output-available)</summary>",
+          "",
+          "**Input**",
+          "",
+          "```json",
+          '{\n  "command": "ls"\n}',
+          "```",
+          "",
+          "**Output**",
+          "",
+          "```json",
+          '{\n  "stdout": "src"\n}',
+          "```",
+          "",
+          "</details>",
+        ].join("\n"),
+        "Found src\n",
+      ].join("\n\n"),
+    );
+
+    const raw = await start.api.thread.export({
+      threadId,
+      format: "uimessages",
+    });
+    expect(raw.format === "uimessages" && toText(raw.messages)).toEqual([
+      "Hello",
+      "Found src",
+    ]);
+
+    const exported = await start.api.thread.export({ threadId });
+    if (exported.format !== "json") {
+      throw new Error("Expected a JSON bundle");
+    }
+    expect(
+      exported.bundle.messages.map(({ id, parentId }) => ({ id, parentId })),
+    ).toEqual([
+      { id: "msg_1", parentId: null },
+      { id: expect.any(String), parentId: "msg_1" },
+      { id: "msg_alt", parentId: "msg_1" },
+    ]);
+    expect(exported.bundle.todos).toHaveLength(1);
+    expect(exported.bundle.thread).not.toHaveProperty("shareToken");
+
+    const imported = await start.api.thread.import({
+      data: JSON.parse(JSON.stringify(exported.bundle)),
+    });
+    expect(imported.thread).toMatchObject({
+      title: "Original",
+      userId: "user_1",
+      visibility: "private",
+    });
+    const messages = await start.api.message.get({
+      threadId: imported.threadId,
+    });
+    expect(toText(messages)).toEqual(["Hello", "Found src"]);
+    expect(messages.map((message) => message.id)).not.toContain("msg_1");
+    await expect(
+      memory.count({
+        model: "message",
+        where: [{ field: "threadId", value: imported.threadId }],
+      }),
+    ).resolves.toBe(3);
+    const todo = await memory.findOne<DBTodo>({
+      model: "todo",
+      where: [{ field: "threadId", value: imported.threadId }],
+    });
+    expect(todo?.todos).toEqual(exported.bundle.todos);
+  });
+
+  it("imports UIMessages and rejects ones that fail validation", async () => {
+    const { start, memory } = await setup();
+
+    const { threadId } = await start.api.thread.import({
+      data: [
+        { id: "m1", role: "user", parts: [{ type: "text", text: "Hi" }] },
+        { id: "m2", role: "assistant", parts: [{ type: "text", text: "Yo" }] },
+      ],
+      title: "Pasted",
+    });
+    await expect(
+      start.api.message.get({ threadId }).then(toText),
+    ).resolves.toEqual(["Hi", "Yo"]);
+
+    const threads = await memory.count({ model: "thread" });
+    await expect(
+      start.api.thread.import({
+        data: [
+          {
+            id: "m1",
+            role: "assistant",
+            parts: [{ type: "data-agentstart-unknown", data: {} }],
+          },
+        ],
+      }),
+    ).rejects.toThrow("No data schema found for data part agentstart-unknown");
+    await expect(
+      start.api.thread.import({
+        data: [
+          {
+            id: "m1",
+            role: "user",
+            parts: [{ type: "text", text: "Hi" }],
+            metadata: { createdAt: "yesterday" },
+          },
+        ],
+      }),
+    ).rejects.toThrow("Imported messages do not match the current schemas");
+    await expect(memory.count({ model: "thread" })).resolves.toBe(threads);
+  });
+});
+
+describe("thread router search", () => {
+  it("matches message text and highlights the snippet", async () => {
+    const { start, threadId, send } = await setup();
+    await send("msg_1", "How do I configure the Postgres connection pool?");
+
+    const { results } = await start.api.thread.search({ query: "postgres" });
+
+    expect(results).toHaveLength(1);
+    expect(results[0]?.thread.id).toBe(threadId);
+    expect(results[0]?.title).toBeUndefined();
+    const [match] = results[0]?.messages ?? [];
+    expect(match).toMatchObject({ messageId: "msg_1", role: "user" });
+    const { text, highlights } = match!.snippet;
+    expect(highlights.map(({ start, end }) => text.slice(start, end))).toEqual([
+      "Postgres",
+    ]);
+  });
+
+  it("matches titles and requires every term", async () => {
+    const { start, threadId, send } = await setup();
+    await send("msg_1", "Hello");
+
+    const { results } = await start.api.thread.search({ query: "orig" });
+    expect(results.map((result) => result.thread.id)).toEqual([threadId]);
+    expect(results[0]?.title?.highlights).toEqual([{ start: 0, end: 4 }]);
+
+    await expect(
+      start.api.thread.search({ query: "hello missing" }),
+    ).resolves.toEqual({ results: [] });
+  });
+
+  it("falls back to contains filters without a search index", async () => {
+    const { start, memory, threadId, send } = await setup();
+    await send("msg_1", "Deploy the preview branch");
+    memory.search = undefined;
+
+    const { results } = await start.api.thread.search({
+      query: "preview Deploy",
+    });
+
+    expect(results.map((result) => result.thread.id)).toEqual([threadId]);
+    expect(results[0]?.messages[0]?.snippet).toEqual({
+      text: "Deploy the preview branch",
+      highlights: [
+        { start: 0, end: 6 },
+        { start: 11, end: 18 },
+      ],
+    });
+  });
+
+  it("looks past tool payloads and older threads for text matches", async () => {
+    const { start, memory, threadId, send } = await setup();
+    await send("msg_1", "Tune the Postgres pool");
+    const createdAt = new Date();
+    for (let index = 0; index < 130; index++) {
+      await memory.create({
+        model: "message",
+        data: {
+          id: `msg_tool_${index}`,
+          threadId,
+          role: "assistant",
+          parts: JSON.stringify([
+            {
+              type: "tool-bash",
+              toolCallId: `call_${index}`,
+              state: "output-available",
+              input: { command: "psql" },
+              output: { prompt: "postgres is running" },
+            },
+          ]),
+          createdAt,
+          updatedAt: createdAt,
+        },
+      });
+    }
+    for (let index = 0; index < 210; index++) {
+      await memory.create({
+        model: "thread",
+        data: {
+          id: `thr_newer_${index}`,
+          title: `Newer ${index}`,
+          userId: "user_1",
+          visibility: "private",
+          createdAt: new Date(Date.now() + 1000 + index),
+          updatedAt: new Date(Date.now() + 1000 + index),
+        },
+      });
+    }
+
+    const { results } = await start.api.thread.search({ query: "postgres" });
+
+    expect(results.map((result) => result.thread.id)).toEqual([threadId]);
+    expect(results[0]?.messages.map((message) => message.messageId)).toEqual([
+      "msg_1",
+    ]);
+  });
+
+  it("only searches threads of the current user", async () => {
+    const { start, send, signInAs } = await setup();
+    await send("msg_1", "Secret plans");
+
+    signInAs("user_2");
+    await expect(start.api.thread.search({ query: "secret" })).resolves.toEqual(
+      { results: [] },
+    );
+  });
+});
+
+describe("thread router list", () => {
+  it("pages with cursors and filters by visibility and date", async () => {
+    const { start, threadId } = await setup();
+    const { threadId: second } = await start.api.thread.create({
+      title: "Second",
+    });
+    const { threadId: third } = await start.api.thread.create({
+      title: "Third",
+      visibility: "public",
+    });
+
+    const first = await start.api.thread.list({ pageSize: 2 });
+    expect(first.pageInfo).toMatchObject({ hasNextPage: true, pageSize: 2 });
+    expect(first.pageInfo.total).toBeUndefined();
+    const rest = await start.api.thread.list({
+      pageSize: 2,
+      cursor: first.pageInfo.nextCursor ?? undefined,
+    });
+    expect(rest.pageInfo).toMatchObject({
+      hasNextPage: false,
+      nextCursor: null,
+    });
+    expect(
+      [...first.threads, ...rest.threads].map((thread) => thread.id).sort(),
+    ).toEqual([threadId, second, third].sort());
+
+    const shared = await start.api.thread.list({ visibility: "public" });
+    expect(shared.threads.map((thread) => thread.id)).toEqual([third]);
+
+    const future = await start.api.thread.list({
+      createdAfter: new Date(Date.now() + 60_000),
+    });
+    expect(future.threads).toEqual([]);
+
+    const paged = await start.api.thread.list({ page: 1, pageSize: 2 });
+    expect(paged.pageInfo).toMatchObject({ total: 3, totalPages: 2 });
+  });
+
+  it("pins, archives and tags threads", async () => {
+    const { start, threadId } = await setup();
+    const { threadId: second } = await start.api.thread.create({
+      title: "Second",
+    });
+    const { threadId: third } = await start.api.thread.create({
+      title: "Third",
+    });
+
+    await start.api.thread.update({ threadId, data: { pinned: true } });
+    const updated = await start.api.thread.update({
+      threadId: second,
+      data: { archived: true, tags: [" work ", "ideas", "work"] },
+    });
+    expect(updated.thread).toMatchObject({
+      pinned: false,
+      archived: true,
+      tags: ["work", "ideas"],
+    });
+
+    const ids = async (filter: { pinned?: boolean; archived?: boolean }) =>
+      (await start.api.thread.list(filter)).threads.map((thread) => thread.id);
+    await expect(ids({ pinned: true })).resolves.toEqual([threadId]);
+    await expect(ids({ archived: true })).resolves.toEqual([second]);
+    await expect(ids({ pinned: false, archived: false })).resolves.toEqual([
+      third,
+    ]);
+
+    await expect(
+      start.api.thread.update({ threadId, data: { tags: ["   "] } }),
+    ).rejects.toThrow();
+  });
+
+  it("loads the newest messages first and older ones by cursor", async () => {
+    const { start, threadId, send } = await setup();
+    await send("msg_1", "Hello");
+    await send("msg_2", "More");
+
+    const latest = await start.api.thread.loadMessages({ threadId, limit: 3 });
+    expect(toText(latest.messages)).toEqual(["Reply 1", "More", "Reply 2"]);
+    expect(latest.pageInfo.hasPreviousPage).toBe(true);
+
+    const older = await start.api.thread.loadMessages({
+      threadId,
+      limit: 3,
+      before: latest.pageInfo.previousCursor ?? undefined,
+    });
+    expect(toText(older.messages)).toEqual(["Hello"]);
+    expect(older.pageInfo).toEqual({
+      hasPreviousPage: false,
+      previousCursor: null,
+    });
+  });
+});
+
+describe("thread router stop", () => {
+  it("aborts a buffered run after its client detached", async () => {
+    const { start, threadId, signInAs } = await setup({
+      agent: createHangingAgent(),
+      secondaryMemory: inMemorySecondaryMemoryAdapter(),
+    });
+    await expect(start.api.thread.stop({ threadId })).resolves.toEqual({
+      stopped: false,
+    });
+
+    const stream = (await start.api.thread.stream({
+      threadId,
+      message: {
+        id: "msg_1",
+        role: "user",
+        parts: [{ type: "text", text: "Hello" }],
+        metadata: { createdAt: Date.now() },
+      },
+    })) as AsyncIterable<unknown>;
+    // Read one event, then disconnect
+    for await (const _ of stream) {
+      break;
+    }
+
+    signInAs("user_2");
+    await expect(start.api.thread.stop({ threadId })).rejects.toThrow(
+      "You don't have permission to access this thread",
+    );
+    signInAs("user_1");
+    await expect(start.api.thread.stop({ threadId })).resolves.toEqual({
+      stopped: true,
+    });
+
+    // Resuming only completes once the run has ended
+    const resumed = (await start.api.thread.resume({
+      threadId,
+    })) as AsyncIterable<unknown>;
+    for await (const _ of resumed) {
+      // Drain the buffered events
+    }
+    await expect(start.api.thread.stop({ threadId })).resolves.toEqual({
+      stopped: false,
+    });
+  });
+});
+
+describe("thread router message access", () => {
+  it("only lets the owner read a private thread's messages", async () => {
+    const { start, threadId, send, signInAs } = await setup();
+    await send("msg_1", "Hello");
+
+    signInAs("user_2");
+    await expect(start.api.thread.loadMessages({ threadId })).rejects.toThrow(
+      "You don't have permission to access this thread",
+    );
+    await expect(start.api.message.get({ threadId })).rejects.toThrow(
+      "You don't have permission to access this thread",
+    );
+    await expect(
+      start.api.message.get({ threadId: "missing" }),
+    ).rejects.toThrow("Thread not found");
+    await expect(send("msg_2", "Run in your sandbox")).rejects.toThrow(
+      "You don't have permission to access this thread",
+    );
+
+    signInAs("user_1");
+    await start.api.thread.update({
+      threadId,
+      data: { visibility: "public" },
+    });
+    signInAs("user_2");
+    const { messages } = await start.api.thread.loadMessages({ threadId });
+    expect(toText(messages)).toEqual(["Hello", "Reply 1"]);
+  });
+});
+
+describe("thread router share", () => {
+  it("reads a shared thread until the link is revoked", async () => {
+    const { start, threadId, send, signInAs } = await setup();
+    await send("msg_1", "Hello");
+
+    const { token, thread } = await start.api.thread.share({ threadId });
+    expect(thread.shareToken).toBe(token);
+    await expect(start.api.thread.share({ threadId })).resolves.toMatchObject({
+      token,
+    });
+
+    signInAs("user_2");
+    await expect(start.api.thread.share({ threadId })).rejects.toThrow(
+      "You don't have permission to access this thread",
+    );
+    const shared = await start.api.thread.getShared({ token });
+    expect(shared.thread).toEqual({
+      id: threadId,
+      title: "Original",
+      createdAt: expect.any(Date),
+      updatedAt: expect.any(Date),
+    });
+    expect(toText(shared.messages)).toEqual(["Hello", "Reply 1"]);
+
+    signInAs("user_1");
+    await start.api.thread.unshare({ threadId });
+    await expect(start.api.thread.getShared({ token })).rejects.toThrow(
+      "Shared thread not found",
+    );
+    const { token: next } = await start.api.thread.share({ threadId });
+    expect(next).not.toBe(token);
+  });
+
+  it("strips internals, tool calls and sandbox paths", async () => {
+    const { start, memory, threadId } = await setup({
+      share: { hideToolCalls: true, redactPaths: ["/workspace/app/"] },
+    });
+    await memory.create({
+      model: "message",
+      data: {
+        id: "msg_1",
+        threadId,
+        parentId: null,
+        role: "assistant",
+        parts: JSON.stringify([
+          { type: "reasoning", text: "Listing files" },
+          {
+            type: "tool-bash",
+            toolCallId: "call_1",
+            state: "output-available",
+            input: { command: "ls /workspace/app" },
+            output: { stdout: "src" },
+          },
+          { type: "data-usage", data: { totalTokens: 10 } },
+          {
+            type: "text",
+            text: "Sources live in /workspace/app/src, not /workspace/apple",
+            providerMetadata: { openai: { itemId: "item_1" } },
+          },
+        ]),
+        metadata: { sandboxId: "sbx_1", createdAt: 1 },
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    });
+    const { token } = await start.api.thread.share({ threadId });
+
+    const { messages } = await start.api.thread.getShared({ token });
+
+    expect(messages).toEqual([
+      {
+        id: "msg_1",
+        role: "assistant",
+        parts: [
+          {
+            type: "text",
+            text: "Sources live in ./src, not /workspace/apple",
+          },
+        ],
+        metadata: { createdAt: 1 },
+      },
+    ]);
+  });
+});
@@ -7,6 +7,7 @@ FEATURES:
   - Injects the active Agent instance into RPC handlers
   - Provides a default in-memory adapter when none is supplied
   - Preserves request headers for downstream tooling
+  - Marks calls made through the server-side API
 SEARCHABLE: agent context, rpc context, memory adapter
 agent-frontmatter:end */
 
@@ -16,6 +17,11 @@ import type { AgentStartOptions } from "@agentstart/types";
 export interface Context extends AgentStartOptions {
   headers: Headers;
   getUserId: (headers: Headers) => string | Promise<string>;
+  /**
+   * True for calls made through `agentStart().api` on the server.
+   * Maintenance procedures refuse to run without it.
+   */
+  isServer?: boolean;
 }
 
 export interface CreateContextOptions extends Omit<Context, "getUserId"> {
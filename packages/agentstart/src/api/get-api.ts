@@ -8,6 +8,7 @@ FEATURES:
   - Always reads the latest agent context when invoking procedures
   - Throws descriptive errors when context is unavailable
   - Dynamically loads routers based on configuration
+  - Marks its calls as server-side so maintenance procedures can run
 SEARCHABLE: server api, getApi helper, orpc router client
 agent-frontmatter:end */
 
@@ -30,7 +31,7 @@ export type AgentStartAPI = RouterClient<AppRouter, ContextOverride>;
  * Router is created only once and cached for subsequent calls.
  */
 export function getApi(options: AgentStartOptions): AgentStartAPI {
-  const context = createContext(options as Context);
+  const context = createContext({ ...options, isServer: true } as Context);
 
   // Cache the router promise to avoid recreating it
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
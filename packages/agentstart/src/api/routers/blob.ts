@@ -1,20 +1,33 @@
 /* agent-frontmatter:start
 AGENT: Blob router using oRPC
 PURPOSE: Expose blob storage upload endpoints
-USAGE: blob.upload() to upload files
+USAGE: blob.upload() to upload files, blob.createUploadUrl() + blob.confirm() for direct uploads, blob.list() and blob.delete() to manage them, blob.gc() to clean up
 EXPORTS: blobRouter, createBlobRouter
 FEATURES:
   - Handles file uploads via ORPC with base64 encoding
+  - Hands out presigned upload URLs, multipart for large files, and confirms them
   - Works with any configured blob adapter on the context
   - Supports dynamic middleware via procedure builder
   - Validates files against constraints (see config.get for constraints)
-SEARCHABLE: blob router, file upload, upload api
+  - Namespaces uploads by user and thread and checks ownership on list/delete
+  - Returns short-lived signed URLs when the adapter stores blobs privately
+  - Collects orphaned uploads from the server-side API only
+SEARCHABLE: blob router, file upload, upload api, presigned upload, multipart upload, list uploads, delete uploads, private blob, blob gc
 agent-frontmatter:end */
 
 import { getBlob } from "@agentstart/blob";
+import type { BlobAdapter, BlobConstraints } from "@agentstart/types";
 import { z } from "zod";
 import { publicProcedure } from "@/api/procedures";
+import {
+  createBlobPathname,
+  getBlobOwnerId,
+  getBlobPrefix,
+} from "@/api/utils/blob-scope";
 import { handleRouterError } from "@/api/utils/error-handler";
+import { verifyThreadOwnership } from "@/api/utils/thread-run";
+import { collectOrphanedBlobs } from "@/blob/gc";
+import { getAdapter } from "@/memory";
 
 const uploadFileSchema = z.object({
   name: z.string().min(1),
@@ -29,8 +42,120 @@ const uploadedFileSchema = z.object({
   pathname: z.string(),
   contentType: z.string().nullable(),
   contentDisposition: z.string().nullable(),
+  access: z.enum(["public", "private"]),
 });
 
+const directUploadFileSchema = z.object({
+  name: z.string().min(1),
+  type: z.string(), // MIME type
+  size: z.number().int().nonnegative(), // bytes
+});
+
+const uploadTargetSchema = z.object({
+  url: z.string(),
+  method: z.literal("PUT"),
+  headers: z.record(z.string(), z.string()),
+});
+
+const uploadTicketSchema = z.object({
+  name: z.string(),
+  pathname: z.string(),
+  upload: uploadTargetSchema.optional(),
+  multipart: z
+    .object({
+      key: z.string(),
+      uploadId: z.string(),
+      partSize: z.number(),
+      parts: z.array(uploadTargetSchema.extend({ partNumber: z.number() })),
+    })
+    .optional(),
+});
+
+const confirmFileSchema = z.object({
+  name: z.string().min(1),
+  pathname: z.string().min(1),
+  multipart: z
+    .object({
+      key: z.string(),
+      uploadId: z.string(),
+      parts: z
+        .array(z.object({ partNumber: z.number().int(), etag: z.string() }))
+        .min(1),
+    })
+    .optional(),
+});
+
+const listedFileSchema = z.object({
+  pathname: z.string(),
+  url: z.string(),
+  downloadUrl: z.string(),
+  size: z.number(),
+  uploadedAt: z.date(),
+});
+
+// Files above this size are uploaded in parts
+const MULTIPART_THRESHOLD = 64 * 1024 * 1024;
+const MIN_PART_SIZE = 16 * 1024 * 1024;
+// S3 allows at most 10,000 parts per upload
+const MAX_PARTS = 10_000;
+
+/**
+ * Validate files against the adapter's constraints
+ * @throws FORBIDDEN naming the first file that breaks a constraint
+ */
+function assertConstraints(
+  constraints: BlobConstraints | undefined,
+  files: Array<{ name: string; type: string; size: number }>,
+  errors: { FORBIDDEN: (opts: { message: string }) => Error },
+) {
+  if (!constraints) {
+    return;
+  }
+
+  // Validate file count
+  if (constraints.maxFiles && files.length > constraints.maxFiles) {
+    throw errors.FORBIDDEN({
+      message: `Too many files. Maximum allowed: ${constraints.maxFiles}, received: ${files.length}`,
+    });
+  }
+
+  for (const file of files) {
+    // Validate file size
+    if (constraints.maxFileSize && file.size > constraints.maxFileSize) {
+      throw errors.FORBIDDEN({
+        message: `File "${file.name}" size (${file.size} bytes) exceeds maximum allowed size of ${constraints.maxFileSize} bytes`,
+      });
+    }
+
+    // Validate MIME type
+    if (
+      constraints.allowedMimeTypes?.length &&
+      !constraints.allowedMimeTypes.includes(file.type)
+    ) {
+      throw errors.FORBIDDEN({
+        message: `File "${file.name}" type "${file.type}" is not allowed. Allowed types: ${constraints.allowedMimeTypes.join(", ")}`,
+      });
+    }
+  }
+}
+
+/**
+ * Resolve readable URLs for a blob; private blobs get short-lived signed URLs
+ */
+async function resolveBlobUrls(
+  adapter: BlobAdapter,
+  blob: { pathname: string; url: string; downloadUrl: string },
+) {
+  if (adapter.getAccess?.() !== "private" || !adapter.getSignedUrl) {
+    return { url: blob.url, downloadUrl: blob.downloadUrl };
+  }
+  const [url, downloadUrl] = await Promise.all([
+    adapter.getSignedUrl(blob.pathname),
+    adapter.getSignedUrl(blob.pathname, { download: true }),
+  ]);
+  return { url, downloadUrl };
+}
+
 /**
  * Create blob router with optional custom procedure builder
  */
@@ -41,17 +166,25 @@ export function createBlobRouter(procedure = publicProcedure) {
         doc: {
           summary: "Upload one or more files to the configured blob store",
           description:
-            "Validates files against configured constraints and stores them using the active blob adapter, returning public URLs where applicable.",
+            "Validates files against configured constraints and stores them under the caller's namespace, scoped to the thread when one is given. Returns public URLs, or short-lived signed URLs when the adapter stores blobs privately.",
           examples: [
             {
               title: "Upload a PNG",
               code: "await start.api.blob.upload({ files: [{ name: 'diagram.png', type: 'image/png', data: base64Data }] });",
             },
+            {
+              title: "Upload into a thread",
+              code: "await start.api.blob.upload({ threadId: 'thr_123', files: [{ name: 'notes.txt', type: 'text/plain', data: base64Data }] });",
+            },
           ],
         },
       })
       .input(
         z.object({
+          threadId: z
+            .string()
+            .optional()
+            .describe("Thread the files are attached to"),
           files: z
             .array(uploadFileSchema)
             .min(1, "At least one file is required"),
@@ -72,54 +205,46 @@ export function createBlobRouter(procedure = publicProcedure) {
             });
           }
 
-          // Validate files against constraints
-          const constraints = adapter.getConstraints();
-          if (constraints) {
-            // Validate file count
-            if (
-              constraints.maxFiles &&
-              input.files.length > constraints.maxFiles
-            ) {
-              throw errors.FORBIDDEN({
-                message: `Too many files. Maximum allowed: ${constraints.maxFiles}, received: ${input.files.length}`,
-              });
-            }
-
-            // Validate each file
-            for (const file of input.files) {
-              const buffer = Buffer.from(file.data, "base64");
-
-              // Validate file size
-              if (
-                constraints.maxFileSize &&
-                buffer.length > constraints.maxFileSize
-              ) {
-                throw errors.FORBIDDEN({
-                  message: `File "${file.name}" size (${buffer.length} bytes) exceeds maximum allowed size of ${constraints.maxFileSize} bytes`,
-                });
-              }
-
-              // Validate MIME type
-              if (constraints.allowedMimeTypes?.length) {
-                if (!constraints.allowedMimeTypes.includes(file.type)) {
-                  throw errors.FORBIDDEN({
-                    message: `File "${file.name}" type "${file.type}" is not allowed. Allowed types: ${constraints.allowedMimeTypes.join(", ")}`,
-                  });
-                }
-              }
-            }
+          const userId = await context.getUserId(context.headers);
+          if (input.threadId) {
+            await verifyThreadOwnership({
+              memory: await getAdapter(context),
+              threadId: input.threadId,
+              userId,
+              errors,
+            });
+          }
+          const access = adapter.getAccess?.() ?? "public";
+          if (access === "private" && !adapter.getSignedUrl) {
+            throw errors.FORBIDDEN({
+              message: `The ${adapter.provider} blob adapter cannot serve private files`,
+            });
           }
 
+          // Validate files against constraints
+          assertConstraints(
+            adapter.getConstraints(),
+            input.files.map((file) => ({
+              name: file.name,
+              type: file.type,
+              size: Buffer.byteLength(file.data, "base64"),
+            })),
+            errors,
+          );
+
           // Upload each file
           const uploadedFiles = await Promise.all(
             input.files.map(async (file) => {
               // Convert base64 to buffer
               const buffer = Buffer.from(file.data, "base64");
 
-              // Generate pathname
-              const pathname = `uploads/${Date.now()}-${file.name}`;
+              const pathname = createBlobPathname({
+                userId,
+                threadId: input.threadId,
+                filename: file.name,
+              });
 
-              // Upload to blob storage
+              // Private adapters store the object privately regardless
               const result = await adapter.put(pathname, buffer, {
                 contentType: file.type,
                 access: "public",
@@ -127,11 +252,11 @@ export function createBlobRouter(procedure = publicProcedure) {
 
               return {
                 name: file.name,
-                url: result.url,
-                downloadUrl: result.downloadUrl,
+                ...(await resolveBlobUrls(adapter, result)),
                 pathname: result.pathname,
                 contentType: result.contentType,
                 contentDisposition: result.contentDisposition,
+                access,
               };
             }),
           );
@@ -145,5 +270,408 @@ export function createBlobRouter(procedure = publicProcedure) {
           handleRouterError(error, errors);
         }
       }),
+
+    createUploadUrl: procedure
+      .meta({
+        doc: {
+          summary: "Presign direct uploads to the blob store",
+          description:
+            "Validates the files' declared size and type, then returns presigned PUT requests the browser sends the files with, bypassing the server. Files above 64 MiB are split into parts. Call blob.confirm once the uploads finish. Only available when config.get reports blob.directUpload.",
+          examples: [
+            {
+              title: "Presign an upload",
+              code: "const { files } = await start.api.blob.createUploadUrl({ threadId: 'thr_123', files: [{ name: 'clip.mp4', type: 'video/mp4', size: file.size }] });\nawait fetch(files[0].upload.url, { method: 'PUT', headers: files[0].upload.headers, body: file });",
+            },
+          ],
+        },
+      })
+      .input(
+        z.object({
+          threadId: z
+            .string()
+            .optional()
+            .describe("Thread the files are attached to"),
+          files: z
+            .array(directUploadFileSchema)
+            .min(1, "At least one file is required"),
+        }),
+      )
+      .output(z.object({ files: z.array(uploadTicketSchema) }))
+      .handler(async ({ input, context, errors }) => {
+        try {
+          const adapter = await getBlob(context);
+          if (!adapter) {
+            throw errors.FORBIDDEN({
+              message: "Blob storage is not configured",
+            });
+          }
+          if (!adapter.createUploadUrl) {
+            throw errors.FORBIDDEN({
+              message: `The ${adapter.provider} blob adapter does not support direct uploads`,
+            });
+          }
+          const createUploadUrl = adapter.createUploadUrl.bind(adapter);
+
+          const userId = await context.getUserId(context.headers);
+          if (input.threadId) {
+            await verifyThreadOwnership({
+              memory: await getAdapter(context),
+              threadId: input.threadId,
+              userId,
+              errors,
+            });
+          }
+          if (adapter.getAccess?.() === "private" && !adapter.getSignedUrl) {
+            throw errors.FORBIDDEN({
+              message: `The ${adapter.provider} blob adapter cannot serve private files`,
+            });
+          }
+
+          // Declared sizes are checked again in blob.confirm
+          assertConstraints(adapter.getConstraints(), input.files, errors);
+
+          const files = await Promise.all(
+            input.files.map(async (file) => {
+              const pathname = createBlobPathname({
+                userId,
+                threadId: input.threadId,
+                filename: file.name,
+              });
+
+              if (file.size <= MULTIPART_THRESHOLD) {
+                return {
+                  name: file.name,
+                  pathname,
+                  upload: await createUploadUrl(pathname, {
+                    contentType: file.type,
+                  }),
+                };
+              }
+
+              const { key, uploadId } = await adapter.createMultipartUpload(
+                pathname,
+                { contentType: file.type, access: "public" },
+              );
+              const partSize = Math.max(
+                MIN_PART_SIZE,
+                Math.ceil(file.size / MAX_PARTS),
+              );
+              const parts = await Promise.all(
+                Array.from(
+                  { length: Math.ceil(file.size / partSize) },
+                  async (_, index) => ({
+                    partNumber: index + 1,
+                    ...(await createUploadUrl(pathname, {
+                      part: { key, uploadId, partNumber: index + 1 },
+                    })),
+                  }),
+                ),
+              );
+
+              return {
+                name: file.name,
+                pathname,
+                multipart: { key, uploadId, partSize, parts },
+              };
+            }),
+          );
+
+          return { files };
+        } catch (error) {
+          console.error("Error creating upload URLs:", error);
+          handleRouterError(error, errors);
+        }
+      }),
+
+    confirm: procedure
+      .meta({
+        doc: {
+          summary: "Confirm direct uploads",
+          description:
+            "Completes multipart uploads, then checks the stored files against the configured constraints. Files that break a constraint are deleted and the request fails; otherwise returns the same file metadata as blob.upload.",
+          examples: [
+            {
+              title: "Confirm an upload",
+              code: "const { files } = await start.api.blob.confirm({ files: [{ name: 'clip.mp4', pathname: ticket.pathname }] });",
+            },
+          ],
+        },
+      })
+      .input(
+        z.object({
+          files: z
+            .array(confirmFileSchema)
+            .min(1, "At least one file is required"),
+        }),
+      )
+      .output(
+        z.object({
+          success: z.boolean(),
+          files: z.array(uploadedFileSchema),
+        }),
+      )
+      .handler(async ({ input, context, errors }) => {
+        try {
+          const adapter = await getBlob(context);
+          if (!adapter) {
+            throw errors.FORBIDDEN({
+              message: "Blob storage is not configured",
+            });
+          }
+
+          const userId = await context.getUserId(context.headers);
+          const foreign = input.files.find(
+            (file) => getBlobOwnerId(file.pathname) !== userId,
+          );
+          if (foreign) {
+            throw errors.FORBIDDEN({
+              message: `You don't have permission to confirm "${foreign.pathname}"`,
+            });
+          }
+
+          const stored = await Promise.all(
+            input.files.map(async (file) => {
+              // Adapters refuse keys their upload was not started for, so
+              // the client-sent key cannot move the upload out of pathname
+              if (file.multipart) {
+                await adapter.completeMultipartUpload(
+                  file.pathname,
+                  file.multipart.parts,
+                  {
+                    access: "public",
+                    key: file.multipart.key,
+                    uploadId: file.multipart.uploadId,
+                  },
+                );
+              }
+              return {
+                name: file.name,
+                blob: await adapter.head(file.pathname),
+              };
+            }),
+          );
+
+          // The browser declared sizes and types up front; check what arrived
+          try {
+            assertConstraints(
+              adapter.getConstraints(),
+              stored.map(({ name, blob }) => ({
+                name,
+                type: blob.contentType,
+                size: blob.size,
+              })),
+              errors,
+            );
+          } catch (error) {
+            await adapter.del(input.files.map((file) => file.pathname));
+            throw error;
+          }
+
+          const access = adapter.getAccess?.() ?? "public";
+          const files = await Promise.all(
+            stored.map(async ({ name, blob }) => ({
+              name,
+              ...(await resolveBlobUrls(adapter, blob)),
+              pathname: blob.pathname,
+              contentType: blob.contentType,
+              contentDisposition: blob.contentDisposition,
+              access,
+            })),
+          );
+
+          return { success: true, files };
+        } catch (error) {
+          console.error("Error confirming uploads:", error);
+          handleRouterError(error, errors);
+        }
+      }),
+
+    list: procedure
+      .meta({
+        doc: {
+          summary: "List files uploaded by the caller",
+          description:
+            "Pages through the caller's uploads, optionally limited to one thread they own. URLs of private blobs are short-lived signed URLs.",
+          examples: [
+            {
+              title: "List a thread's uploads",
+              code: "const { blobs, cursor } = await start.api.blob.list({ threadId: 'thr_123', limit: 50 });",
+            },
+          ],
+        },
+      })
+      .input(
+        z.object({
+          threadId: z.string().optional(),
+          cursor: z.string().optional(),
+          limit: z.number().int().min(1).max(1000).optional(),
+        }),
+      )
+      .output(
+        z.object({
+          blobs: z.array(listedFileSchema),
+          cursor: z.string().optional(),
+          hasMore: z.boolean(),
+        }),
+      )
+      .handler(async ({ input, context, errors }) => {
+        try {
+          const adapter = await getBlob(context);
+          if (!adapter) {
+            throw errors.FORBIDDEN({
+              message: "Blob storage is not configured",
+            });
+          }
+
+          const userId = await context.getUserId(context.headers);
+          if (input.threadId) {
+            await verifyThreadOwnership({
+              memory: await getAdapter(context),
+              threadId: input.threadId,
+              userId,
+              errors,
+            });
+          }
+
+          const result = await adapter.list({
+            prefix: getBlobPrefix({ userId, threadId: input.threadId }),
+            cursor: input.cursor,
+            limit: input.limit,
+          });
+
+          const blobs = await Promise.all(
+            result.blobs.map(async (blob) => ({
+              pathname: blob.pathname,
+              ...(await resolveBlobUrls(adapter, blob)),
+              size: blob.size,
+              uploadedAt: new Date(blob.uploadedAt),
+            })),
+          );
+
+          return {
+            blobs,
+            ...(result.cursor ? { cursor: result.cursor } : {}),
+            hasMore: result.hasMore,
+          };
+        } catch (error) {
+          console.error("Error listing files:", error);
+          handleRouterError(error, errors);
+        }
+      }),
+
+    delete: procedure
+      .meta({
+        doc: {
+          summary: "Delete files uploaded by the caller",
+          description:
+            "Removes blobs by pathname. Every pathname must belong to the caller; otherwise nothing is deleted.",
+          examples: [
+            {
+              title: "Delete an upload",
+              code: "await start.api.blob.delete({ pathnames: [file.pathname] });",
+            },
+          ],
+        },
+      })
+      .input(
+        z.object({
+          pathnames: z
+            .array(z.string().min(1))
+            .min(1, "At least one pathname is required"),
+        }),
+      )
+      .output(z.object({ success: z.boolean(), deleted: z.number() }))
+      .handler(async ({ input, context, errors }) => {
+        try {
+          const adapter = await getBlob(context);
+          if (!adapter) {
+            throw errors.FORBIDDEN({
+              message: "Blob storage is not configured",
+            });
+          }
+
+          const userId = await context.getUserId(context.headers);
+          const foreign = input.pathnames.find(
+            (pathname) => getBlobOwnerId(pathname) !== userId,
+          );
+          if (foreign) {
+            throw errors.FORBIDDEN({
+              message: `You don't have permission to delete "${foreign}"`,
+            });
+          }
+
+          await adapter.del(input.pathnames);
+
+          return { success: true, deleted: input.pathnames.length };
+        } catch (error) {
+          console.error("Error deleting files:", error);
+          handleRouterError(error, errors);
+        }
+      }),
+
+    gc: procedure
+      .meta({
+        doc: {
+          summary: "Delete orphaned uploads",
+          description:
+            "Deletes uploads that no stored message references and that are older than the grace period (24 hours by default), such as files of deleted threads or attachments removed before sending. Only callable through the server-side API. Pass dryRun to list the orphans without deleting them.",
+          examples: [
+            {
+              title: "Preview what would be deleted",
+              code: "const { orphaned } = await start.api.blob.gc({ dryRun: true });",
+            },
+            {
+              title: "Delete uploads orphaned for a week",
+              code: "await start.api.blob.gc({ gracePeriod: 7 * 24 * 60 * 60 * 1000 });",
+            },
+          ],
+        },
+      })
+      .input(
+        z.object({
+          prefix: z
+            .string()
+            .optional()
+            .describe("Only consider blobs under this prefix"),
+          gracePeriod: z
+            .number()
+            .int()
+            .nonnegative()
+            .optional()
+            .describe("Milliseconds an orphan must have existed"),
+          dryRun: z.boolean().optional(),
+        }),
+      )
+      .output(
+        z.object({
+          scanned: z.number(),
+          referenced: z.number(),
+          orphaned: z.array(
+            z.object({
+              pathname: z.string(),
+              size: z.number(),
+              uploadedAt: z.date(),
+            }),
+          ),
+          deleted: z.number(),
+          dryRun: z.boolean(),
+        }),
+      )
+      .handler(async ({ input, context, errors }) => {
+        try {
+          // Spans every user's uploads, so it is never exposed over HTTP
+          if (!context.isServer) {
+            throw errors.FORBIDDEN({
+              message:
+                "Blob garbage collection can only run through the server-side API",
+            });
+          }
+
+          return await collectOrphanedBlobs(context, input);
+        } catch (error) {
+          console.error("Error collecting orphaned blobs:", error);
+          handleRouterError(error, errors);
+        }
+      }),
   };
 }
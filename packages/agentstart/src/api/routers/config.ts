@@ -63,12 +63,13 @@ const blobConstraintsSchema = z.object({
   uploadTiming: z.enum(["onSubmit", "immediate"]).optional(),
 });
 
-const providerEnum = z.enum(["vercelBlob", "awsS3", "cloudflareR2"]);
+const providerEnum = z.enum(["vercelBlob", "awsS3", "cloudflareR2", "local"]);
 
 const blobConfigSchema = z.object({
   enabled: z.boolean(),
   constraints: blobConstraintsSchema.nullable(),
   provider: providerEnum.nullable(),
+  directUpload: z.boolean(),
 });
 
 const conversationLimitsSchema = z.object({
@@ -162,6 +163,8 @@ export function createConfigRouter(procedure = publicProcedure) {
             enabled: Boolean(adapter),
             constraints: adapter?.getConstraints() ?? null,
             provider: adapter?.provider ?? null,
+            // Browsers upload straight to storage when the adapter can presign
+            directUpload: Boolean(adapter?.createUploadUrl),
           };
 
           const normalizedMaxTurns = normalizeMaxTurns(context.maxTurns);
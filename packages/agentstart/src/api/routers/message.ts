@@ -1,21 +1,38 @@
 /* agent-frontmatter:start
 AGENT: Messages router using oRPC
-PURPOSE: Expose read-only thread history endpoints
+PURPOSE: Expose thread history endpoints and branch-aware message actions
 USAGE: messages.get({ threadId })
 EXPORTS: messagesRouter, createMessageRouter
 FEATURES:
   - Loads persisted AgentStart UI messages via loadThread
   - Works with any configured memory adapter on the context
   - Returns normalized message arrays for clients
+  - Re-signs file URLs of private blobs on every read
   - Supports dynamic middleware via procedure builder
-SEARCHABLE: messages router, thread history, loadThread api
+  - Edits and regenerates messages as new branches, keeping the originals
+  - Lists branch points and loads any branch for branch switchers
+SEARCHABLE: messages router, thread history, loadThread api, edit message, regenerate, conversation branches
 agent-frontmatter:end */
 
+import { getBlob } from "@agentstart/blob";
+import { AgentStartError, generateId } from "@agentstart/utils";
+import { streamToEventIterator } from "@orpc/server";
 import { z } from "zod";
-import { type AgentStartUIMessage, loadThread } from "@/agent";
+import {
+  type AgentStartUIMessage,
+  findThreadMessage,
+  getMessageBranches,
+  loadThread,
+  signBlobUrls,
+} from "@/agent";
 import { metadataSchema } from "@/agent/messages/metadata";
 import { publicProcedure } from "@/api/procedures";
 import { handleRouterError } from "@/api/utils/error-handler";
+import {
+  startThreadRun,
+  verifyThreadAccess,
+  verifyThreadOwnership,
+} from "@/api/utils/thread-run";
 import { getAdapter, messageSchema } from "@/memory";
 
 /**
@@ -25,6 +42,7 @@ export function createMessageRouter(procedure = publicProcedure) {
   const uiMessageSchema = messageSchema
     .omit({
       threadId: true,
+      parentId: true,
       attachments: true,
       createdAt: true,
       updatedAt: true,
@@ -52,33 +70,248 @@ export function createMessageRouter(procedure = publicProcedure) {
         doc: {
           summary: "Get all persisted messages for a thread",
           description:
-            "Fetches the normalized AgentStart UI message sequence so clients can hydrate conversational views.",
+            "Fetches the normalized AgentStart UI message sequence of the active branch so clients can hydrate conversational views. Pass a messageId to load the branch that contains that message instead.",
           examples: [
             {
               title: "Load UI messages",
               code: "await start.api.message.get({ threadId: 'thr_123' });",
             },
+            {
+              title: "Load another branch",
+              code: "await start.api.message.get({ threadId: 'thr_123', messageId: 'msg_456' });",
+            },
           ],
         },
       })
       .input(
         z.object({
           threadId: z.string().min(1, "Thread ID is required"),
+          messageId: z
+            .string()
+            .optional()
+            .describe("Load the branch that contains this message"),
         }),
       )
       .output(z.array(uiMessageSchema))
       .handler(async ({ input, context, errors }) => {
         try {
           const memory = await getAdapter(context);
+          const userId = await context.getUserId(context.headers);
+          const thread = await verifyThreadAccess({
+            memory,
+            threadId: input.threadId,
+            userId,
+            errors,
+          });
           const messages = await loadThread<AgentStartUIMessage>({
             memory,
             threadId: input.threadId,
+            messageId: input.messageId,
           });
-          return messages;
+          return signBlobUrls(messages, await getBlob(context), thread.userId);
         } catch (error) {
           console.error("Error loading thread messages:", error);
           handleRouterError(error, errors);
         }
       }),
+
+    branches: procedure
+      .meta({
+        doc: {
+          summary: "List the branch points of a thread",
+          description:
+            "Returns every message that has alternative versions, grouped by the message they reply to. Use it to render branch switchers next to edited or regenerated messages.",
+          examples: [
+            {
+              title: "Find alternative versions",
+              code: "const branchPoints = await start.api.message.branches({ threadId: 'thr_123' });",
+            },
+          ],
+        },
+      })
+      .input(
+        z.object({
+          threadId: z.string().min(1, "Thread ID is required"),
+        }),
+      )
+      .output(
+        z.array(
+          z.object({
+            parentId: z.string().nullable(),
+            messageIds: z.array(z.string()),
+          }),
+        ),
+      )
+      .handler(async ({ input, context, errors }) => {
+        try {
+          const memory = await getAdapter(context);
+          const userId = await context.getUserId(context.headers);
+          await verifyThreadAccess({
+            memory,
+            threadId: input.threadId,
+            userId,
+            errors,
+          });
+          return await getMessageBranches({
+            memory,
+            threadId: input.threadId,
+          });
+        } catch (error) {
+          console.error("Error loading message branches:", error);
+          handleRouterError(error, errors);
+        }
+      }),
+
+    edit: procedure
+      .meta({
+        doc: {
+          summary: "Edit a user message and answer it on a new branch",
+          description:
+            "Stores the edited content as a sibling of the original message and streams a fresh agent reply. The original message and everything after it stay available as another branch.",
+          returnType: "AsyncIterable<AgentStreamEvent>",
+          examples: [
+            {
+              title: "Rewrite a question",
+              code: "for await (const event of await start.api.message.edit({ threadId: 'thr_123', messageId: 'msg_456', parts: [{ type: 'text', text: 'Use TypeScript instead' }] })) {\n  console.log(event);\n}",
+            },
+          ],
+        },
+      })
+      .input(
+        z.object({
+          threadId: z.string().min(1, "Thread ID is required"),
+          messageId: z.string().min(1, "Message ID is required"),
+          parts: z.array(z.any()).min(1, "Provide at least one message part"),
+          id: z
+            .string()
+            .optional()
+            .describe("ID for the edited message; generated when omitted"),
+          modelId: z.string().optional(),
+        }),
+      )
+      .handler(async ({ input, context, errors, signal }) => {
+        try {
+          const memory = await getAdapter(context);
+          const userId = await context.getUserId(context.headers);
+
+          await verifyThreadOwnership({
+            memory,
+            threadId: input.threadId,
+            userId,
+            errors,
+          });
+
+          const target = await findThreadMessage<AgentStartUIMessage>({
+            memory,
+            threadId: input.threadId,
+            messageId: input.messageId,
+          });
+          if (!target) {
+            throw errors.NOT_FOUND({ message: "Message not found" });
+          }
+          if (target.message.role !== "user") {
+            throw new AgentStartError(
+              "MESSAGE_NOT_EDITABLE",
+              "Only user messages can be edited",
+            );
+          }
+
+          const result = await startThreadRun({
+            context,
+            memory,
+            threadId: input.threadId,
+            message: {
+              id: input.id ?? generateId(),
+              role: "user",
+              parts: input.parts as AgentStartUIMessage["parts"],
+              metadata: { createdAt: Date.now() },
+            },
+            modelId: input.modelId,
+            parentId: target.parentId,
+            signal,
+          });
+
+          return streamToEventIterator(result);
+        } catch (error) {
+          console.error("Failed to edit message:", error);
+          handleRouterError(error, errors);
+        }
+      }),
+
+    regenerate: procedure
+      .meta({
+        doc: {
+          summary: "Regenerate a reply on a new branch",
+          description:
+            "Streams a new agent reply to a user message, or replaces an assistant reply by answering its user message again. Previous replies stay available as sibling branches.",
+          returnType: "AsyncIterable<AgentStreamEvent>",
+          examples: [
+            {
+              title: "Retry an answer",
+              code: "for await (const event of await start.api.message.regenerate({ threadId: 'thr_123', messageId: 'msg_789' })) {\n  console.log(event);\n}",
+            },
+          ],
+        },
+      })
+      .input(
+        z.object({
+          threadId: z.string().min(1, "Thread ID is required"),
+          messageId: z
+            .string()
+            .min(1, "Message ID is required")
+            .describe("The assistant reply to replace or the user message"),
+          modelId: z.string().optional(),
+        }),
+      )
+      .handler(async ({ input, context, errors, signal }) => {
+        try {
+          const memory = await getAdapter(context);
+          const userId = await context.getUserId(context.headers);
+
+          await verifyThreadOwnership({
+            memory,
+            threadId: input.threadId,
+            userId,
+            errors,
+          });
+
+          let target = await findThreadMessage<AgentStartUIMessage>({
+            memory,
+            threadId: input.threadId,
+            messageId: input.messageId,
+          });
+          // An assistant reply is regenerated by answering its prompt again
+          if (target?.message.role === "assistant" && target.parentId) {
+            target = await findThreadMessage<AgentStartUIMessage>({
+              memory,
+              threadId: input.threadId,
+              messageId: target.parentId,
+            });
+          }
+          if (!target) {
+            throw errors.NOT_FOUND({ message: "Message not found" });
+          }
+          if (target.message.role !== "user") {
+            throw new AgentStartError(
+              "MESSAGE_NOT_REGENERABLE",
+              "Only replies to user messages can be regenerated",
+            );
+          }
+
+          const result = await startThreadRun({
+            context,
+            memory,
+            threadId: input.threadId,
+            message: target.message,
+            modelId: input.modelId,
+            signal,
+          });
+
+          return streamToEventIterator(result);
+        } catch (error) {
+          console.error("Failed to regenerate message:", error);
+          handleRouterError(error, errors);
+        }
+      }),
   };
 }
@@ -9,23 +9,56 @@ FEATURES:
   - Supports recursive directory scanning
   - Type-safe file node schema
   - Handles missing sandbox configuration gracefully
+  - Resolves the pooled sandbox for the requesting user and thread
+  - Lists declared ports with their preview paths and proxies HTTP requests to them
+  - Streams workspace file events so file trees update without polling
 SEARCHABLE: sandbox router, file tree, filesystem api, orpc router
 agent-frontmatter:end */
 
-import type { AgentStartOptions, SandboxAPI } from "@agentstart/types";
+import type {
+  FileSystemEvent,
+  SandboxAPI,
+  WatchHandle,
+} from "@agentstart/types";
 import { AgentStartError } from "@agentstart/utils";
+import { streamToEventIterator } from "@orpc/server";
 import z from "zod";
 import { type AgentStartUIMessage, loadThread } from "@/agent";
+import type { Context } from "@/api/context";
 import { publicProcedure } from "@/api/procedures";
 import { handleRouterError } from "@/api/utils/error-handler";
+import {
+  getSandboxPreviewPath,
+  proxySandboxPort,
+} from "@/api/utils/sandbox-preview";
+import { verifyThreadOwnership } from "@/api/utils/thread-run";
 import { getAdapter } from "@/memory";
 import { getSandbox } from "@/sandbox";
 
 /**
- * Helper function to get sandbox and throw error if not configured
+ * Helper function to get sandbox and throw error if not configured.
+ * When a thread is given, it must exist and the caller must own it so pooled sandboxes stay isolated.
  */
-async function requireSandbox(context: AgentStartOptions): Promise<SandboxAPI> {
-  const sandbox = await getSandbox(context);
+async function requireSandbox(
+  context: Context,
+  errors: {
+    NOT_FOUND: (opts: { message: string }) => Error;
+    FORBIDDEN: (opts: { message: string }) => Error;
+  },
+  threadId?: string,
+): Promise<SandboxAPI> {
+  const userId = await context.getUserId(context.headers);
+
+  if (threadId) {
+    await verifyThreadOwnership({
+      memory: await getAdapter(context),
+      threadId,
+      userId,
+      errors,
+    });
+  }
+
+  const sandbox = await getSandbox(context, { threadId, userId });
   if (!sandbox) {
     throw new AgentStartError(
       "SANDBOX_NOT_CONFIGURED",
@@ -81,12 +114,16 @@ export function createSandboxRouter(procedure = publicProcedure) {
         z.object({
           path: z.string().describe("The absolute path of the file to rename"),
           newName: z.string().describe("The new name (without path)"),
+          threadId: z
+            .string()
+            .optional()
+            .describe("Thread ID used to resolve the scoped sandbox"),
         }),
       )
       .output(z.object({ success: z.boolean(), newPath: z.string() }))
       .handler(async ({ input, context, errors }) => {
         try {
-          const sandbox = await requireSandbox(context);
+          const sandbox = await requireSandbox(context, errors, input.threadId);
 
           // Extract parent directory and construct new path
           const pathParts = input.path.split("/");
@@ -130,12 +167,16 @@ export function createSandboxRouter(procedure = publicProcedure) {
             .optional()
             .default("")
             .describe("Initial content of the file"),
+          threadId: z
+            .string()
+            .optional()
+            .describe("Thread ID used to resolve the scoped sandbox"),
         }),
       )
       .output(z.object({ success: z.boolean() }))
       .handler(async ({ input, context, errors }) => {
         try {
-          const sandbox = await requireSandbox(context);
+          const sandbox = await requireSandbox(context, errors, input.threadId);
 
           const pathWithoutLeadingSlash = input.path.startsWith("/")
             ? input.path.substring(1)
@@ -171,12 +212,16 @@ export function createSandboxRouter(procedure = publicProcedure) {
           path: z
             .string()
             .describe("The absolute path of the folder to create"),
+          threadId: z
+            .string()
+            .optional()
+            .describe("Thread ID used to resolve the scoped sandbox"),
         }),
       )
       .output(z.object({ success: z.boolean() }))
       .handler(async ({ input, context, errors }) => {
         try {
-          const sandbox = await requireSandbox(context);
+          const sandbox = await requireSandbox(context, errors, input.threadId);
 
           const pathWithoutLeadingSlash = input.path.startsWith("/")
             ? input.path.substring(1)
@@ -212,6 +257,10 @@ export function createSandboxRouter(procedure = publicProcedure) {
           path: z
             .string()
             .describe("The absolute path of the file to download"),
+          threadId: z
+            .string()
+            .optional()
+            .describe("Thread ID used to resolve the scoped sandbox"),
         }),
       )
       .output(
@@ -223,7 +272,7 @@ export function createSandboxRouter(procedure = publicProcedure) {
       )
       .handler(async ({ input, context, errors }) => {
         try {
-          const sandbox = await requireSandbox(context);
+          const sandbox = await requireSandbox(context, errors, input.threadId);
 
           const pathWithoutLeadingSlash = input.path.startsWith("/")
             ? input.path.substring(1)
@@ -267,12 +316,16 @@ export function createSandboxRouter(procedure = publicProcedure) {
       .input(
         z.object({
           path: z.string().describe("The absolute path of the file to delete"),
+          threadId: z
+            .string()
+            .optional()
+            .describe("Thread ID used to resolve the scoped sandbox"),
         }),
       )
       .output(z.object({ success: z.boolean() }))
       .handler(async ({ input, context, errors }) => {
         try {
-          const sandbox = await requireSandbox(context);
+          const sandbox = await requireSandbox(context, errors, input.threadId);
 
           const pathWithoutLeadingSlash = input.path.startsWith("/")
             ? input.path.substring(1)
@@ -328,14 +381,14 @@ export function createSandboxRouter(procedure = publicProcedure) {
             .string()
             .optional()
             .describe(
-              "Thread ID to extract file changes from agent operations",
+              "Thread ID used to resolve the scoped sandbox and extract file changes from agent operations",
             ),
         }),
       )
       .output(z.array(fileNodeSchema))
       .handler(async ({ input, context, errors }) => {
         try {
-          const sandbox = await requireSandbox(context);
+          const sandbox = await requireSandbox(context, errors, input.threadId);
 
           // Use sandbox fs.readdir to list directory contents
           const entries = await sandbox.fs.readdir(input.path || "/", {
@@ -600,5 +653,218 @@ export function createSandboxRouter(procedure = publicProcedure) {
           handleRouterError(error, errors);
         }
       }),
+
+    /**
+     * List the ports that the sandbox exposes for previews
+     */
+    ports: procedure
+      .meta({
+        doc: {
+          summary: "List preview ports",
+          description:
+            "Returns the ports declared in the sandbox `ports` config with the path that serves their preview. Load the path in an iframe to show a dev server running in the sandbox.",
+          examples: [
+            {
+              title: "Get preview paths",
+              code: 'const { ports } = await start.api.sandbox.ports({ threadId: "thread_123" });',
+            },
+          ],
+        },
+      })
+      .input(
+        z.object({
+          threadId: z
+            .string()
+            .optional()
+            .describe("Thread ID used to resolve the scoped sandbox"),
+        }),
+      )
+      .output(
+        z.object({
+          ports: z.array(z.object({ port: z.number(), path: z.string() })),
+        }),
+      )
+      .handler(async ({ input, context, errors }) => {
+        try {
+          const sandbox = await requireSandbox(context, errors, input.threadId);
+          const basePath = context.basePath ?? "/api/agent";
+
+          return {
+            ports: (sandbox.getPorts?.() ?? []).map((port) => ({
+              port,
+              path: getSandboxPreviewPath(basePath, {
+                port,
+                threadId: input.threadId,
+              }),
+            })),
+          };
+        } catch (error) {
+          console.error("Failed to list preview ports:", error);
+          handleRouterError(error, errors);
+        }
+      }),
+
+    /**
+     * Proxy an HTTP request to a declared sandbox port
+     */
+    preview: procedure
+      .meta({
+        doc: {
+          summary: "Request a sandbox port",
+          description:
+            "Sends an HTTP request to a server listening on a declared sandbox port and returns the response as text. Cookies and authorization headers are not forwarded.",
+          examples: [
+            {
+              title: "Fetch the dev server home page",
+              code: 'const { status, body } = await start.api.sandbox.preview({ threadId: "thread_123", port: 3000, path: "/" });',
+            },
+          ],
+        },
+      })
+      .input(
+        z.object({
+          port: z.number().int().min(1).max(65535).describe("Declared port"),
+          path: z
+            .string()
+            .default("/")
+            .describe("Path and query string on the sandbox server"),
+          method: z
+            .enum(["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"])
+            .default("GET"),
+          headers: z.record(z.string(), z.string()).optional(),
+          body: z.string().optional(),
+          threadId: z
+            .string()
+            .optional()
+            .describe("Thread ID used to resolve the scoped sandbox"),
+        }),
+      )
+      .output(
+        z.object({
+          status: z.number(),
+          headers: z.record(z.string(), z.string()),
+          body: z.string(),
+        }),
+      )
+      .handler(async ({ input, context, errors }) => {
+        try {
+          const sandbox = await requireSandbox(context, errors, input.threadId);
+          if (!sandbox.getPorts?.().includes(input.port)) {
+            throw errors.NOT_FOUND({
+              message: `Port ${input.port} is not declared in the sandbox ports`,
+            });
+          }
+
+          const response = await proxySandboxPort(
+            sandbox,
+            input.port,
+            input.path.startsWith("/") ? input.path : `/${input.path}`,
+            {
+              method: input.method,
+              headers: input.headers,
+              body: input.body,
+            },
+          );
+
+          return {
+            status: response.status,
+            headers: Object.fromEntries(response.headers.entries()),
+            body: await response.text(),
+          };
+        } catch (error) {
+          console.error("Failed to proxy sandbox port:", error);
+          handleRouterError(error, errors);
+        }
+      }),
+
+    /**
+     * Stream file events from the sandbox workspace
+     */
+    watch: procedure
+      .meta({
+        doc: {
+          summary: "Watch workspace files",
+          description:
+            "Streams create, modify and delete events for files in the sandbox, including changes made by bash commands. Events are debounced, and the stream stays open until the client disconnects.",
+          returnType: "AsyncIterable<FileSystemEvent>",
+          examples: [
+            {
+              title: "Log file changes",
+              code: 'for await (const event of await start.api.sandbox.watch({ threadId: "thread_123", ignore: ["node_modules"] })) {\n  console.log(event.type, event.path);\n}',
+            },
+          ],
+        },
+      })
+      .input(
+        z.object({
+          path: z
+            .string()
+            .optional()
+            .default("/")
+            .describe("The absolute path to watch"),
+          ignore: z
+            .array(z.string())
+            .optional()
+            .describe("Glob patterns to ignore"),
+          debounceMs: z
+            .number()
+            .int()
+            .min(0)
+            .optional()
+            .describe("Delay before a batch of events is sent"),
+          initialScan: z
+            .boolean()
+            .optional()
+            .default(false)
+            .describe("Send a create event for every existing entry first"),
+          threadId: z
+            .string()
+            .optional()
+            .describe("Thread ID used to resolve the scoped sandbox"),
+        }),
+      )
+      .handler(async ({ input, context, errors, signal }) => {
+        try {
+          const sandbox = await requireSandbox(context, errors, input.threadId);
+
+          let handle: WatchHandle | undefined;
+          let closed = false;
+          const close = async () => {
+            closed = true;
+            await handle?.stop();
+          };
+
+          const stream = new ReadableStream<FileSystemEvent>({
+            async start(controller) {
+              handle = await sandbox.fs.watch(
+                input.path,
+                (event) => {
+                  if (!closed) controller.enqueue(event);
+                },
+                {
+                  recursive: true,
+                  ignore: input.ignore,
+                  debounceMs: input.debounceMs,
+                  initialScan: input.initialScan,
+                },
+              );
+              // Stop watching once the client disconnects
+              const onAbort = () => {
+                if (closed) return;
+                void close();
+                controller.close();
+              };
+              if (signal?.aborted) onAbort();
+              signal?.addEventListener("abort", onAbort, { once: true });
+            },
+            cancel: close,
+          });
+
+          return streamToEventIterator(stream);
+        } catch (error) {
+          console.error("Failed to watch sandbox files:", error);
+          handleRouterError(error, errors);
+        }
+      }),
   };
 }
@@ -8,62 +8,152 @@ FEATURES:
   - Forwards client-provided thread identifiers to persistence
   - Returns AI SDK UI message event streams via oRPC
   - Supports dynamic middleware via procedure builder
-  - Provides thread list endpoint with pagination
-  - Provides thread load endpoint with message history
+  - Provides thread list endpoint with cursor or page pagination and filters
+  - Pins, archives and tags threads through thread.update
+  - Searches thread titles and message text with highlighted snippets
+  - Provides thread load endpoint with message history, paged from the newest message
+  - Accepts a parent message id to continue a non-active branch
+  - Approves or rejects pending tool calls and resumes the run
+  - Buffers runs in secondary memory and replays them via thread.resume
+  - Stops the active run of a thread through thread.stop
+  - Forks threads with their todos and a snapshot of the sandbox workspace
+  - Shares threads read-only through revocable tokens and sanitized messages
+  - Exports threads as Markdown, JSON bundles or UIMessages and imports them back
 SEARCHABLE: thread router, agent stream, rpc thread, orpc router
 agent-frontmatter:end */
 
-import type { MemoryAdapter, RuntimeContext } from "@agentstart/types";
-import { AgentStartError } from "@agentstart/utils";
+import { getBlob } from "@agentstart/blob";
+import type { Where } from "@agentstart/types";
+import { AgentStartError, generateUuidFromData } from "@agentstart/utils";
 import { streamToEventIterator } from "@orpc/server";
+import type { ToolSet, UIMessageChunk } from "ai";
 import z from "zod";
 import type { AgentStartUIMessage } from "@/agent";
-import { getThreads, loadThread, Run } from "@/agent";
+import {
+  copyThreadMessages,
+  getThreads,
+  loadThread,
+  loadThreadPage,
+  sanitizeSharedMessages,
+  signBlobUrls,
+  upsertMessage,
+} from "@/agent";
+import {
+  findPendingToolApproval,
+  hasPendingToolApprovals,
+  respondToToolApproval,
+} from "@/agent/approval";
 import { normalizeMaxTurns } from "@/agent/limits/max-turns";
+import { withMCPTools } from "@/agent/mcp";
 import { metadataSchema } from "@/agent/messages/metadata";
-import type { RunFinishEvent } from "@/agent/run";
+import { findPageBefore } from "@/agent/persistence/pagination";
+import { searchThreads } from "@/agent/persistence/search";
+import {
+  exportThread,
+  importThread,
+  THREAD_EXPORT_FORMATS,
+  threadBundleSchema,
+} from "@/agent/persistence/transfer";
+import { resumeRunStream } from "@/agent/resumable-stream";
+import type { Context } from "@/api/context";
 import { publicProcedure } from "@/api/procedures";
 import { handleRouterError } from "@/api/utils/error-handler";
+import {
+  startThreadRun,
+  stopThreadRun,
+  verifyThreadAccess,
+  verifyThreadOwnership,
+} from "@/api/utils/thread-run";
 import {
   type DBThread,
+  type DBTodo,
   getAdapter,
   messageSchema,
   threadSchema,
 } from "@/memory";
 import { getSandbox } from "@/sandbox";
 
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+
+/**
+ * Mint an unguessable token for a share link
+ */
+function createShareToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
+}
+
+const searchSnippetSchema = z.object({
+  text: z.string(),
+  highlights: z.array(z.object({ start: z.number(), end: z.number() })),
+});
+
 /**
- * Verify thread ownership and return the thread if authorized
- * @throws NOT_FOUND if thread doesn't exist
- * @throws FORBIDDEN if user doesn't own the thread
+ * Record an approval decision and resume the run once every pending
+ * tool call in the message has been approved or rejected.
  */
-async function verifyThreadOwnership(options: {
-  memory: MemoryAdapter;
-  threadId: string;
-  userId: string;
+async function resolveToolApproval(options: {
+  context: Context;
+  input: { threadId: string; approvalId: string; reason?: string };
+  approved: boolean;
   errors: {
     NOT_FOUND: (opts: { message: string }) => Error;
     FORBIDDEN: (opts: { message: string }) => Error;
   };
-}): Promise<DBThread> {
-  const thread = await options.memory.findOne<DBThread>({
-    model: "thread",
-    where: [{ field: "id", value: options.threadId }],
+  signal?: AbortSignal;
+}) {
+  const { context, input, errors } = options;
+  const memory = await getAdapter(context);
+  const userId = await context.getUserId(context.headers);
+
+  await verifyThreadOwnership({
+    memory,
+    threadId: input.threadId,
+    userId,
+    errors,
+  });
+
+  const messages = await loadThread<AgentStartUIMessage>({
+    memory,
+    threadId: input.threadId,
   });
+  const pending = findPendingToolApproval(messages, input.approvalId);
 
-  if (!thread) {
-    throw options.errors.NOT_FOUND({
-      message: "Thread not found",
+  if (!pending) {
+    throw errors.NOT_FOUND({
+      message: "Tool approval request not found",
     });
   }
 
-  if (thread.userId !== options.userId) {
-    throw options.errors.FORBIDDEN({
-      message: "You don't have permission to access this thread",
+  const message = respondToToolApproval(pending, {
+    approvalId: input.approvalId,
+    approved: options.approved,
+    reason: input.reason,
+  });
+
+  if (hasPendingToolApprovals(message)) {
+    await upsertMessage({
+      memory,
+      payload: { id: message.id, threadId: input.threadId, message },
+    });
+    // Other tool calls are still waiting; nothing to stream yet
+    return new ReadableStream<never>({
+      start(controller) {
+        controller.close();
+      },
     });
   }
 
-  return thread;
+  return startThreadRun({
+    context,
+    memory,
+    threadId: input.threadId,
+    message,
+    signal: options.signal,
+  });
 }
 
 /**
@@ -73,6 +163,7 @@ export function createThreadRouter(procedure = publicProcedure) {
   const uiMessageSchema = messageSchema
     .omit({
       threadId: true,
+      parentId: true,
       attachments: true,
       createdAt: true,
       updatedAt: true,
@@ -100,14 +191,26 @@ export function createThreadRouter(procedure = publicProcedure) {
         doc: {
           summary: "List threads accessible to the current session",
           description:
-            "Retrieves a paginated collection of threads that the requester is allowed to see. Defaults to page 1 with 20 items per page when pagination arguments are omitted.",
+            "Retrieves the requester's threads, newest first. Pass the returned `pageInfo.nextCursor` as `cursor` to load the next page. Passing `page` switches to offset pagination ordered by last update, which also reports totals. Filters narrow the list by visibility, pinned and archived state, and creation date.",
           examples: [
             {
-              title: "Default pagination",
+              title: "First page",
               code: "await start.api.thread.list();",
             },
             {
-              title: "Custom page size",
+              title: "Next page",
+              code: "await start.api.thread.list({ cursor: pageInfo.nextCursor });",
+            },
+            {
+              title: "Pinned threads that are not archived",
+              code: "await start.api.thread.list({ pinned: true, archived: false });",
+            },
+            {
+              title: "Public threads created this year",
+              code: "await start.api.thread.list({ visibility: 'public', createdAfter: new Date('2025-01-01') });",
+            },
+            {
+              title: "Offset pagination",
               code: "await start.api.thread.list({ page: 2, pageSize: 10 });",
             },
           ],
@@ -116,8 +219,17 @@ export function createThreadRouter(procedure = publicProcedure) {
       .input(
         z
           .object({
+            cursor: z
+              .string()
+              .optional()
+              .describe("Cursor returned as pageInfo.nextCursor"),
             page: z.number().int().min(1).optional(),
-            pageSize: z.number().int().min(1).max(20).optional(),
+            pageSize: z.number().int().min(1).max(100).optional(),
+            visibility: z.enum(["public", "private"]).optional(),
+            pinned: z.boolean().optional(),
+            archived: z.boolean().optional(),
+            createdAfter: z.coerce.date().optional(),
+            createdBefore: z.coerce.date().optional(),
           })
           .optional(),
       )
@@ -125,12 +237,14 @@ export function createThreadRouter(procedure = publicProcedure) {
         z.object({
           threads: z.array(threadSchema),
           pageInfo: z.object({
-            page: z.number(),
             pageSize: z.number(),
-            total: z.number(),
-            totalPages: z.number(),
             hasNextPage: z.boolean(),
-            hasPreviousPage: z.boolean(),
+            nextCursor: z.string().nullable(),
+            // Only reported for offset pagination
+            page: z.number().optional(),
+            total: z.number().optional(),
+            totalPages: z.number().optional(),
+            hasPreviousPage: z.boolean().optional(),
           }),
         }),
       )
@@ -141,20 +255,70 @@ export function createThreadRouter(procedure = publicProcedure) {
             ? await context.getUserId(context.headers)
             : undefined;
 
-          const page = input?.page ?? 1;
           const pageSize = input?.pageSize ?? 20;
-          const offset = (page - 1) * pageSize;
+          const filters: Where[] = [];
+          if (input?.visibility) {
+            filters.push({ field: "visibility", value: input.visibility });
+          }
+          for (const flag of ["pinned", "archived"] as const) {
+            const value = input?.[flag];
+            if (value === true) {
+              filters.push({ field: flag, value: true });
+            } else if (value === false) {
+              // Documents written before the flag existed have no value
+              filters.push({ field: flag, operator: "ne", value: true });
+            }
+          }
+          if (input?.createdAfter) {
+            filters.push({
+              field: "createdAt",
+              operator: "gte",
+              value: input.createdAfter,
+            });
+          }
+          if (input?.createdBefore) {
+            filters.push({
+              field: "createdAt",
+              operator: "lt",
+              value: input.createdBefore,
+            });
+          }
+
+          if (input?.page === undefined) {
+            const { records, nextCursor } = await findPageBefore<DBThread>({
+              memory,
+              model: "thread",
+              where: userId
+                ? [{ field: "userId", value: userId }, ...filters]
+                : filters,
+              cursor: input?.cursor,
+              limit: pageSize,
+            });
+            return {
+              threads: records,
+              pageInfo: {
+                pageSize,
+                hasNextPage: nextCursor !== null,
+                nextCursor,
+              },
+            };
+          }
 
+          const page = input.page;
+          const offset = (page - 1) * pageSize;
           const [threads, total] = await Promise.all([
             getThreads({
               memory,
               userId,
               limit: pageSize,
               offset,
+              where: filters,
             }),
             memory.count({
               model: "thread",
-              where: userId ? [{ field: "userId", value: userId }] : undefined,
+              where: userId
+                ? [{ field: "userId", value: userId }, ...filters]
+                : filters,
             }),
           ]);
 
@@ -170,6 +334,7 @@ export function createThreadRouter(procedure = publicProcedure) {
               totalPages,
               hasNextPage,
               hasPreviousPage: page > 1,
+              nextCursor: null,
             },
           };
         } catch (error) {
@@ -181,34 +346,138 @@ export function createThreadRouter(procedure = publicProcedure) {
     loadMessages: procedure
       .meta({
         doc: {
-          summary: "Load the full message history for a thread",
+          summary: "Load the message history for a thread",
           description:
-            "Returns all persisted AgentStart UI messages for the requested thread so clients can hydrate chat interfaces.",
+            "Returns the persisted AgentStart UI messages of the thread's active branch, root first. With `limit`, only the most recent messages are returned; pass `pageInfo.previousCursor` as `before` to load older ones when the user scrolls up.",
           examples: [
             {
               title: "Load history",
               code: "await start.api.thread.loadMessages({ threadId: 'thr_123' });",
             },
+            {
+              title: "Load the latest 30 messages, then older ones",
+              code: "const { messages, pageInfo } = await start.api.thread.loadMessages({ threadId: 'thr_123', limit: 30 });\nawait start.api.thread.loadMessages({ threadId: 'thr_123', limit: 30, before: pageInfo.previousCursor });",
+            },
           ],
         },
       })
-      .input(z.object({ threadId: z.string() }))
-      .output(z.array(uiMessageSchema))
+      .input(
+        z.object({
+          threadId: z.string(),
+          messageId: z
+            .string()
+            .optional()
+            .describe("Load the branch that contains this message"),
+          before: z
+            .string()
+            .optional()
+            .describe("Cursor returned as pageInfo.previousCursor"),
+          limit: z.number().int().min(1).max(200).optional(),
+        }),
+      )
+      .output(
+        z.object({
+          messages: z.array(uiMessageSchema),
+          pageInfo: z.object({
+            hasPreviousPage: z.boolean(),
+            previousCursor: z.string().nullable(),
+          }),
+        }),
+      )
       .handler(async ({ input, context, errors }) => {
         try {
           const memory = await getAdapter(context);
-
-          const messages = await loadThread<AgentStartUIMessage>({
+          const userId = await context.getUserId(context.headers);
+          const thread = await verifyThreadAccess({
             memory,
             threadId: input.threadId,
+            userId,
+            errors,
           });
-          return messages;
+
+          const { messages, previousCursor } =
+            await loadThreadPage<AgentStartUIMessage>({
+              memory,
+              threadId: input.threadId,
+              messageId: input.messageId,
+              before: input.before,
+              limit: input.limit ?? Number.POSITIVE_INFINITY,
+            });
+          return {
+            messages: await signBlobUrls(
+              messages,
+              await getBlob(context),
+              thread.userId,
+            ),
+            pageInfo: {
+              hasPreviousPage: previousCursor !== null,
+              previousCursor,
+            },
+          };
         } catch (error) {
           console.error("Failed to load messages:", error);
           handleRouterError(error, errors);
         }
       }),
 
+    search: procedure
+      .meta({
+        doc: {
+          summary: "Search threads by title and message text",
+          description:
+            "Finds the current user's threads whose title or message text contains every term of the query. Each result carries highlighted snippets of the matching title and up to three matching messages. Uses the memory adapter's full-text index when it has one.",
+          examples: [
+            {
+              title: "Search conversations",
+              code: "await start.api.thread.search({ query: 'deploy preview' });",
+            },
+          ],
+        },
+      })
+      .input(
+        z.object({
+          query: z.string().trim().min(1).max(200),
+          limit: z.number().int().min(1).max(50).optional(),
+        }),
+      )
+      .output(
+        z.object({
+          results: z.array(
+            z.object({
+              thread: threadSchema,
+              title: searchSnippetSchema.optional(),
+              messages: z.array(
+                z.object({
+                  messageId: z.string(),
+                  role: messageSchema.shape.role,
+                  snippet: searchSnippetSchema,
+                  createdAt: z.date(),
+                }),
+              ),
+            }),
+          ),
+        }),
+      )
+      .handler(async ({ input, context, errors }) => {
+        try {
+          const memory = await getAdapter(context);
+          const userId = context.getUserId
+            ? await context.getUserId(context.headers)
+            : undefined;
+
+          const results = await searchThreads({
+            memory,
+            userId,
+            query: input.query,
+            limit: input.limit,
+          });
+          return { results };
+        } catch (error) {
+          console.error("Failed to search threads:", error);
+          handleRouterError(error, errors);
+        }
+      }),
+
     get: procedure
       .meta({
         doc: {
@@ -254,7 +523,13 @@ export function createThreadRouter(procedure = publicProcedure) {
             });
           }
 
-          return { thread: thread as DBThread };
+          // Only the owner may see the token behind the share link
+          return {
+            thread:
+              thread.userId === userId
+                ? thread
+                : { ...thread, shareToken: null },
+          };
         } catch (error) {
           console.error("Failed to get thread:", error);
           handleRouterError(error, errors);
@@ -324,12 +599,20 @@ export function createThreadRouter(procedure = publicProcedure) {
         doc: {
           summary: "Update an existing thread",
           description:
-            "Applies partial updates to thread metadata such as title, visibility, or cached context after verifying ownership.",
+            "Applies partial updates to thread metadata such as title, visibility, pinned and archived flags, tags, or cached context after verifying ownership. Tags replace the existing list; they are trimmed and deduplicated.",
           examples: [
             {
               title: "Rename a thread",
               code: "await start.api.thread.update({ threadId: 'thr_123', data: { title: 'Renamed thread' } });",
             },
+            {
+              title: "Pin and tag a thread",
+              code: "await start.api.thread.update({ threadId: 'thr_123', data: { pinned: true, tags: ['research', 'q3'] } });",
+            },
+            {
+              title: "Archive a thread",
+              code: "await start.api.thread.update({ threadId: 'thr_123', data: { archived: true } });",
+            },
           ],
         },
       })
@@ -340,13 +623,20 @@ export function createThreadRouter(procedure = publicProcedure) {
             .object({
               title: z.string().min(1).optional(),
               visibility: z.enum(["public", "private"]).optional(),
+              pinned: z.boolean().optional(),
+              archived: z.boolean().optional(),
+              tags: z
+                .array(z.string().trim().min(1).max(MAX_TAG_LENGTH))
+                .max(MAX_TAGS)
+                .transform((tags) => [...new Set(tags)])
+                .optional(),
               lastContext: z.any().nullable().optional(),
             })
             .refine(
               (fields) =>
-                typeof fields.title !== "undefined" ||
-                typeof fields.visibility !== "undefined" ||
-                typeof fields.lastContext !== "undefined",
+                Object.values(fields).some(
+                  (value) => typeof value !== "undefined",
+                ),
               {
                 message: "Provide at least one field to update.",
               },
@@ -393,6 +683,11 @@ export function createThreadRouter(procedure = publicProcedure) {
           ) {
             updatePayload.lastContext = input.data.lastContext;
           }
+          for (const field of ["pinned", "archived", "tags"] as const) {
+            if (typeof input.data[field] !== "undefined") {
+              updatePayload[field] = input.data[field];
+            }
+          }
 
           updatePayload.updatedAt = new Date();
 
@@ -409,6 +704,173 @@ export function createThreadRouter(procedure = publicProcedure) {
         }
       }),
 
+    share: procedure
+      .meta({
+        doc: {
+          summary: "Create a read-only share link for a thread",
+          description:
+            "Returns the thread's share token, minting one when the thread is not shared yet. Anyone with the token can read the thread through `thread.getShared` until `thread.unshare` revokes it.",
+          examples: [
+            {
+              title: "Share a thread",
+              code: "const { token } = await start.api.thread.share({ threadId: 'thr_123' });",
+            },
+          ],
+        },
+      })
+      .input(z.object({ threadId: z.string() }))
+      .output(
+        z.object({
+          token: z.string(),
+          thread: threadSchema,
+        }),
+      )
+      .handler(async ({ input, context, errors }) => {
+        try {
+          const memory = await getAdapter(context);
+          const userId = context.getUserId
+            ? await context.getUserId(context.headers)
+            : "anonymous";
+
+          const thread = await verifyThreadOwnership({
+            memory,
+            threadId: input.threadId,
+            userId,
+            errors,
+          });
+          if (thread.shareToken) {
+            return { token: thread.shareToken, thread };
+          }
+
+          const token = createShareToken();
+          const updatedThread = (await memory.update({
+            model: "thread",
+            where: [{ field: "id", value: input.threadId }],
+            update: { shareToken: token },
+          })) as DBThread;
+
+          return { token, thread: updatedThread };
+        } catch (error) {
+          console.error("Failed to share thread:", error);
+          handleRouterError(error, errors);
+        }
+      }),
+
+    unshare: procedure
+      .meta({
+        doc: {
+          summary: "Revoke a thread's share link",
+          description:
+            "Clears the share token so existing links stop working. Sharing the thread again mints a new token.",
+          examples: [
+            {
+              title: "Stop sharing a thread",
+              code: "await start.api.thread.unshare({ threadId: 'thr_123' });",
+            },
+          ],
+        },
+      })
+      .input(z.object({ threadId: z.string() }))
+      .output(
+        z.object({
+          thread: threadSchema,
+        }),
+      )
+      .handler(async ({ input, context, errors }) => {
+        try {
+          const memory = await getAdapter(context);
+          const userId = context.getUserId
+            ? await context.getUserId(context.headers)
+            : "anonymous";
+
+          await verifyThreadOwnership({
+            memory,
+            threadId: input.threadId,
+            userId,
+            errors,
+          });
+
+          const updatedThread = (await memory.update({
+            model: "thread",
+            where: [{ field: "id", value: input.threadId }],
+            update: { shareToken: null },
+          })) as DBThread;
+
+          return { thread: updatedThread };
+        } catch (error) {
+          console.error("Failed to unshare thread:", error);
+          handleRouterError(error, errors);
+        }
+      }),
+
+    // Share links are opened by readers who are not signed in, so this
+    // skips custom middleware such as authentication
+    getShared: publicProcedure
+      .meta({
+        doc: {
+          summary: "Read a shared thread",
+          description:
+            "Returns the title and active branch of the thread behind a share token without requiring a user. Messages are sanitized: provider metadata, tool approvals, data parts and sandbox ids are removed, and the `share` option can also hide tool calls and redact paths.",
+          examples: [
+            {
+              title: "Open a share link",
+              code: "await start.api.thread.getShared({ token });",
+            },
+          ],
+        },
+      })
+      .input(z.object({ token: z.string().min(1) }))
+      .output(
+        z.object({
+          thread: threadSchema.pick({
+            id: true,
+            title: true,
+            createdAt: true,
+            updatedAt: true,
+          }),
+          messages: z.array(uiMessageSchema),
+        }),
+      )
+      .handler(async ({ input, context, errors }) => {
+        try {
+          const memory = await getAdapter(context);
+          const thread = await memory.findOne<DBThread>({
+            model: "thread",
+            where: [{ field: "shareToken", value: input.token }],
+          });
+
+          if (!thread) {
+            throw errors.NOT_FOUND({
+              message: "Shared thread not found",
+            });
+          }
+
+          const messages = await loadThread<AgentStartUIMessage>({
+            memory,
+            threadId: thread.id,
+          });
+          // Signing reads blob pathnames from metadata that sanitizing drops
+          const signed = await signBlobUrls(
+            messages,
+            await getBlob(context),
+            thread.userId,
+          );
+
+          return {
+            thread: {
+              id: thread.id,
+              title: thread.title,
+              createdAt: thread.createdAt,
+              updatedAt: thread.updatedAt,
+            },
+            messages: sanitizeSharedMessages(signed, context.share),
+          };
+        } catch (error) {
+          console.error("Failed to get shared thread:", error);
+          handleRouterError(error, errors);
+        }
+      }),
+
     delete: procedure
       .meta({
         doc: {
@@ -464,39 +926,320 @@ export function createThreadRouter(procedure = publicProcedure) {
         }
       }),
 
-    stream: procedure
+    fork: procedure
       .meta({
         doc: {
-          summary: "Stream agent responses for a thread",
+          summary: "Fork a thread into a new thread",
           description:
-            "Starts an agent run for the supplied message and streams tokenized events that clients can render incrementally.",
-          returnType: "AsyncIterable<AgentStreamEvent>",
+            "Copies the messages and todos of a thread into a new private thread owned by the caller. Pass upToMessageId to stop the copy at a message of any branch. When a sandbox is configured and the caller owns the source thread, the workspace is snapshotted so the fork starts from the same files; forks of other users' public threads start with an empty workspace.",
           examples: [
             {
-              title: "Consume as async iterable",
-              code: "for await (const event of await start.api.thread.stream({ threadId: 'thr_123', message: 'Hello agent!' })) {\n  console.log(event);\n}",
+              title: "Fork a whole thread",
+              code: "const { threadId } = await start.api.thread.fork({ threadId: 'thr_123' });",
+            },
+            {
+              title: "Fork from an earlier message",
+              code: "await start.api.thread.fork({ threadId: 'thr_123', upToMessageId: 'msg_456' });",
             },
           ],
         },
       })
       .input(
         z.object({
-          threadId: z.string().min(1, "Thread ID is required"),
-          message: z.any(),
-          modelId: z.string().optional(),
+          threadId: z.string(),
+          upToMessageId: z
+            .string()
+            .optional()
+            .describe("Last message to copy into the fork"),
         }),
       )
-      .handler(async ({ input, context, errors, signal }) => {
+      .output(
+        z.object({
+          threadId: z.string(),
+          thread: threadSchema,
+          snapshot: z
+            .object({
+              type: z.enum(["directory", "git"]),
+              ref: z.string(),
+              commit: z.string().optional(),
+            })
+            .optional(),
+        }),
+      )
+      .handler(async ({ input, context, errors }) => {
         try {
-          const agent = context.agent;
-          if (!agent) {
-            throw new AgentStartError(
-              "AGENT_NOT_CONFIGURED",
-              "No agent configured",
-            );
-          }
-
           const memory = await getAdapter(context);
+          const userId = context.getUserId
+            ? await context.getUserId(context.headers)
+            : "anonymous";
+
+          const source = await memory.findOne<DBThread>({
+            model: "thread",
+            where: [{ field: "id", value: input.threadId }],
+          });
+          if (!source) {
+            throw errors.NOT_FOUND({
+              message: "Thread not found",
+            });
+          }
+          // Same visibility rules as thread.get
+          if (source.visibility === "private" && source.userId !== userId) {
+            throw errors.FORBIDDEN({
+              message: "You don't have permission to access this thread",
+            });
+          }
+
+          const now = new Date();
+          const thread = (await memory.create({
+            model: "thread",
+            data: {
+              userId,
+              title: source.title,
+              visibility: "private",
+              createdAt: now,
+              updatedAt: now,
+            },
+          })) as DBThread;
+          const threadId = thread.id.toString();
+
+          const messageIds = await copyThreadMessages({
+            memory,
+            threadId: input.threadId,
+            targetThreadId: threadId,
+            upToMessageId: input.upToMessageId,
+          });
+          if (!messageIds) {
+            await memory.delete({
+              model: "thread",
+              where: [{ field: "id", value: threadId }],
+            });
+            throw errors.NOT_FOUND({
+              message: "Message not found",
+            });
+          }
+
+          const todo = await memory.findOne<DBTodo>({
+            model: "todo",
+            where: [{ field: "threadId", value: input.threadId }],
+          });
+          if (todo) {
+            await memory.create({
+              model: "todo",
+              data: {
+                id: generateUuidFromData(threadId),
+                threadId,
+                todos: todo.todos,
+                createdAt: now,
+                updatedAt: now,
+              },
+            });
+          }
+
+          // Workspaces may hold files of the owner's other threads, so
+          // forks of someone else's public thread start empty
+          if (!context.sandbox || source.userId !== userId) {
+            return { threadId, thread };
+          }
+
+          const sourceSandbox = await getSandbox(context, {
+            threadId: input.threadId,
+            userId: source.userId,
+          });
+          if (!sourceSandbox?.snapshot) {
+            console.warn(
+              "[thread.fork] Sandbox does not support snapshots; the fork starts with an empty workspace",
+            );
+            return { threadId, thread };
+          }
+
+          const snapshot = await sourceSandbox.snapshot(`fork-${threadId}`);
+          try {
+            const targetSandbox = await getSandbox(context, {
+              threadId,
+              userId,
+            });
+            // Scopes shared by both threads already hold the files
+            if (targetSandbox && targetSandbox !== sourceSandbox) {
+              await targetSandbox.restore?.(snapshot);
+            }
+          } finally {
+            await sourceSandbox.deleteSnapshot?.(snapshot).catch((error) => {
+              console.error("[thread.fork] Failed to delete snapshot:", error);
+            });
+          }
+
+          return {
+            threadId,
+            thread,
+            snapshot: {
+              type: snapshot.type,
+              ref: snapshot.ref,
+              commit: snapshot.commit,
+            },
+          };
+        } catch (error) {
+          console.error("Failed to fork thread:", error);
+          handleRouterError(error, errors);
+        }
+      }),
+
+    export: procedure
+      .meta({
+        doc: {
+          summary: "Export a thread",
+          description:
+            "Exports a thread owned by the caller. `markdown` renders the active branch as a transcript with tool calls in collapsible sections, `json` returns a lossless bundle with every branch, todos and usage, and `uimessages` returns the active branch as AI SDK UIMessages.",
+          examples: [
+            {
+              title: "Markdown transcript",
+              code: "const { content } = await start.api.thread.export({ threadId: 'thr_123', format: 'markdown' });",
+            },
+            {
+              title: "Backup bundle",
+              code: "const { bundle } = await start.api.thread.export({ threadId: 'thr_123', format: 'json' });",
+            },
+          ],
+        },
+      })
+      .input(
+        z.object({
+          threadId: z.string(),
+          format: z.enum(THREAD_EXPORT_FORMATS).default("json"),
+        }),
+      )
+      .output(
+        z.discriminatedUnion("format", [
+          z.object({ format: z.literal("markdown"), content: z.string() }),
+          z.object({ format: z.literal("json"), bundle: threadBundleSchema }),
+          z.object({
+            format: z.literal("uimessages"),
+            messages: z.array(uiMessageSchema),
+          }),
+        ]),
+      )
+      .handler(async ({ input, context, errors }) => {
+        try {
+          const memory = await getAdapter(context);
+          const userId = context.getUserId
+            ? await context.getUserId(context.headers)
+            : "anonymous";
+
+          const thread = await verifyThreadOwnership({
+            memory,
+            threadId: input.threadId,
+            userId,
+            errors,
+          });
+
+          return await exportThread({ memory, thread, format: input.format });
+        } catch (error) {
+          console.error("Failed to export thread:", error);
+          handleRouterError(error, errors);
+        }
+      }),
+
+    import: procedure
+      .meta({
+        doc: {
+          summary: "Import a thread",
+          description:
+            "Creates a private thread owned by the caller from a `json` export bundle or a UIMessage array. Messages must match the agent's data part and metadata schemas and its current tool schemas; nothing is written when validation fails. Imported threads get new ids.",
+          examples: [
+            {
+              title: "Restore a bundle",
+              code: "await start.api.thread.import({ data: bundle });",
+            },
+            {
+              title: "Import UIMessages",
+              code: "await start.api.thread.import({ data: messages, title: 'From another app' });",
+            },
+          ],
+        },
+      })
+      .input(
+        z.object({
+          data: z.union([threadBundleSchema, z.array(z.any())]),
+          title: z.string().optional(),
+        }),
+      )
+      .output(
+        z.object({
+          threadId: z.string(),
+          thread: threadSchema,
+        }),
+      )
+      .handler(async ({ input, context, errors }) => {
+        try {
+          const memory = await getAdapter(context);
+          const userId = context.getUserId
+            ? await context.getUserId(context.headers)
+            : "anonymous";
+
+          const { threadId, thread } = await importThread({
+            memory,
+            data: input.data,
+            userId,
+            title: input.title,
+            visibility: "private",
+            tools: await withMCPTools(
+              context.agent?.tools as ToolSet | undefined,
+              context.mcpServers,
+            ),
+          });
+
+          return { threadId, thread };
+        } catch (error) {
+          console.error("Failed to import thread:", error);
+          handleRouterError(error, errors);
+        }
+      }),
+
+    stream: procedure
+      .meta({
+        doc: {
+          summary: "Stream agent responses for a thread",
+          description:
+            "Starts an agent run for the supplied message and streams tokenized events that clients can render incrementally.",
+          returnType: "AsyncIterable<AgentStreamEvent>",
+          examples: [
+            {
+              title: "Consume as async iterable",
+              code: "for await (const event of await start.api.thread.stream({ threadId: 'thr_123', message: 'Hello agent!' })) {\n  console.log(event);\n}",
+            },
+          ],
+        },
+      })
+      .input(
+        z.object({
+          threadId: z.string().min(1, "Thread ID is required"),
+          message: z.any(),
+          modelId: z.string().optional(),
+          parentId: z
+            .string()
+            .nullish()
+            .describe(
+              "Message the new message replies to. Defaults to the end of the active branch.",
+            ),
+        }),
+      )
+      .handler(async ({ input, context, errors, signal }) => {
+        try {
+          const agent = context.agent;
+          if (!agent) {
+            throw new AgentStartError(
+              "AGENT_NOT_CONFIGURED",
+              "No agent configured",
+            );
+          }
+
+          const memory = await getAdapter(context);
+          // Runs use the sandbox scoped to the thread, so only its owner may start one
+          await verifyThreadOwnership({
+            memory,
+            threadId: input.threadId,
+            userId: await context.getUserId(context.headers),
+            errors,
+          });
           const normalizedMaxTurns = normalizeMaxTurns(context.maxTurns);
 
           if (normalizedMaxTurns !== null) {
@@ -516,52 +1259,195 @@ export function createThreadRouter(procedure = publicProcedure) {
             }
           }
 
-          const run = new Run(context);
+          const result = await startThreadRun({
+            context,
+            memory,
+            threadId: input.threadId,
+            message: input.message,
+            modelId: input.modelId,
+            parentId: input.parentId,
+            signal,
+          });
+
+          return streamToEventIterator(result);
+        } catch (error) {
+          console.error("Failed to stream thread response:", error);
+          handleRouterError(error, errors);
+        }
+      }),
+
+    approve: procedure
+      .meta({
+        doc: {
+          summary: "Approve a pending tool call",
+          description:
+            "Approves a tool call that is waiting for a decision and resumes the agent run once no other approvals are pending.",
+          returnType: "AsyncIterable<AgentStreamEvent>",
+          examples: [
+            {
+              title: "Approve and consume the resumed run",
+              code: "for await (const event of await start.api.thread.approve({ threadId: 'thr_123', approvalId: 'apr_123' })) {\n  console.log(event);\n}",
+            },
+          ],
+        },
+      })
+      .input(
+        z.object({
+          threadId: z.string().min(1, "Thread ID is required"),
+          approvalId: z.string().min(1, "Approval ID is required"),
+          reason: z.string().optional(),
+        }),
+      )
+      .handler(async ({ input, context, errors, signal }) => {
+        try {
+          const result = await resolveToolApproval({
+            context,
+            input,
+            approved: true,
+            errors,
+            signal,
+          });
+
+          return streamToEventIterator(result);
+        } catch (error) {
+          console.error("Failed to approve tool call:", error);
+          handleRouterError(error, errors);
+        }
+      }),
+
+    reject: procedure
+      .meta({
+        doc: {
+          summary: "Reject a pending tool call",
+          description:
+            "Rejects a tool call that is waiting for a decision. The agent is told the call was denied and continues once no other approvals are pending.",
+          returnType: "AsyncIterable<AgentStreamEvent>",
+          examples: [
+            {
+              title: "Reject with a reason",
+              code: "for await (const event of await start.api.thread.reject({ threadId: 'thr_123', approvalId: 'apr_123', reason: 'Do not touch production' })) {\n  console.log(event);\n}",
+            },
+          ],
+        },
+      })
+      .input(
+        z.object({
+          threadId: z.string().min(1, "Thread ID is required"),
+          approvalId: z.string().min(1, "Approval ID is required"),
+          reason: z.string().optional(),
+        }),
+      )
+      .handler(async ({ input, context, errors, signal }) => {
+        try {
+          const result = await resolveToolApproval({
+            context,
+            input,
+            approved: false,
+            errors,
+            signal,
+          });
+
+          return streamToEventIterator(result);
+        } catch (error) {
+          console.error("Failed to reject tool call:", error);
+          handleRouterError(error, errors);
+        }
+      }),
 
-          // Only include sandbox if configured
-          const runtimeContext: Omit<RuntimeContext, "writer"> = {
+    resume: procedure
+      .meta({
+        doc: {
+          summary: "Resume the active run of a thread",
+          description:
+            "Replays the buffered events of the run currently streaming for the thread and then follows it live until it finishes. Completes immediately when no run is active. Requires secondaryMemory to be configured.",
+          returnType: "AsyncIterable<AgentStreamEvent>",
+          examples: [
+            {
+              title: "Reconnect after a page reload",
+              code: "for await (const event of await start.api.thread.resume({ threadId: 'thr_123' })) {\n  console.log(event);\n}",
+            },
+          ],
+        },
+      })
+      .input(
+        z.object({
+          threadId: z.string().min(1, "Thread ID is required"),
+        }),
+      )
+      .handler(async ({ input, context, errors, signal }) => {
+        try {
+          const memory = await getAdapter(context);
+          const userId = await context.getUserId(context.headers);
+
+          await verifyThreadOwnership({
             memory,
             threadId: input.threadId,
-          };
+            userId,
+            errors,
+          });
 
-          if (context.sandbox) {
-            runtimeContext.sandbox = await getSandbox(context);
+          if (!context.secondaryMemory) {
+            return streamToEventIterator(
+              new ReadableStream<never>({
+                start(controller) {
+                  controller.close();
+                },
+              }),
+            );
           }
 
-          const result = await run.start({
-            input: {
-              message: input.message,
-              modelId: input.modelId,
-            },
-            runtimeContext,
-            onFinish: async (event: RunFinishEvent) => {
-              if (!event.usageSummary) {
-                return;
-              }
-
-              try {
-                await memory.update({
-                  model: "thread",
-                  where: [{ field: "id", value: input.threadId }],
-                  update: {
-                    lastContext: event.usageSummary,
-                    updatedAt: new Date(),
-                  },
-                });
-              } catch (persistError) {
-                console.error("Failed to persist usage summary:", persistError);
-              }
-            },
-            onError: (error) => {
-              console.error("Agent stream error:", error);
-              return "An error occurred while processing your request.";
-            },
-            abortSignal: signal,
+          const result = await resumeRunStream<UIMessageChunk>({
+            secondaryMemory: context.secondaryMemory,
+            threadId: input.threadId,
+            signal,
           });
 
           return streamToEventIterator(result);
         } catch (error) {
-          console.error("Failed to stream thread response:", error);
+          console.error("Failed to resume thread stream:", error);
+          handleRouterError(error, errors);
+        }
+      }),
+
+    stop: procedure
+      .meta({
+        doc: {
+          summary: "Stop the active run of a thread",
+          description:
+            "Aborts the run currently streaming for the thread, including runs that keep going after their client disconnected. The partial response is kept. Returns `stopped: false` when no run is active.",
+          examples: [
+            {
+              title: "Stop generating",
+              code: "await start.api.thread.stop({ threadId: 'thr_123' });",
+            },
+          ],
+        },
+      })
+      .input(
+        z.object({
+          threadId: z.string().min(1, "Thread ID is required"),
+        }),
+      )
+      .output(z.object({ stopped: z.boolean() }))
+      .handler(async ({ input, context, errors }) => {
+        try {
+          const memory = await getAdapter(context);
+          const userId = await context.getUserId(context.headers);
+
+          await verifyThreadOwnership({
+            memory,
+            threadId: input.threadId,
+            userId,
+            errors,
+          });
+
+          const stopped = await stopThreadRun({
+            context,
+            threadId: input.threadId,
+          });
+          return { stopped };
+        } catch (error) {
+          console.error("Failed to stop thread run:", error);
           handleRouterError(error, errors);
         }
       }),
@@ -0,0 +1,94 @@
+/* agent-frontmatter:start
+AGENT: Blob scope helpers
+PURPOSE: Namespace blob pathnames by user and thread and check who owns them
+USAGE: const pathname = createBlobPathname({ userId, threadId, filename })
+EXPORTS: BLOB_UPLOADS_PREFIX, getBlobPrefix, createBlobPathname, getBlobOwnerId
+FEATURES:
+  - Stores uploads under users/<userId>/threads/<threadId>/
+  - Keeps uploads made before a thread exists under users/<userId>/drafts/
+  - Resolves the owner of a pathname, tolerating provider key prefixes
+  - Treats pathnames with dot segments, backslashes or a leading slash as unowned
+SEARCHABLE: blob scope, blob pathname, blob ownership, upload namespace
+agent-frontmatter:end */
+
+import { generateId } from "@agentstart/utils";
+
+const USERS_SEGMENT = "users";
+
+/**
+ * Prefix shared by every upload made through the blob router
+ */
+export const BLOB_UPLOADS_PREFIX = `${USERS_SEGMENT}/`;
+
+function toSegment(value: string) {
+  return encodeURIComponent(value);
+}
+
+/**
+ * Pathname prefix of a user's uploads, or of the uploads of one thread
+ */
+export function getBlobPrefix(options: {
+  userId: string;
+  threadId?: string;
+}): string {
+  const userPrefix = `${USERS_SEGMENT}/${toSegment(options.userId)}/`;
+  return options.threadId
+    ? `${userPrefix}threads/${toSegment(options.threadId)}/`
+    : userPrefix;
+}
+
+/**
+ * Unique pathname for a new upload. Uploads made before the thread exists
+ * are kept with the user's drafts.
+ */
+export function createBlobPathname(options: {
+  userId: string;
+  threadId?: string;
+  filename: string;
+}): string {
+  const prefix = options.threadId
+    ? getBlobPrefix(options)
+    : `${getBlobPrefix({ userId: options.userId })}drafts/`;
+  // Strip path separators and control characters from client-provided names
+  const filename =
+    options.filename
+      // biome-ignore lint/suspicious/noControlCharactersInRegex: control characters are what we strip
+      .replace(/[\u0000-\u001f\u007f/\\]+/g, "-")
+      .slice(-128) || "file";
+  return `${prefix}${generateId()}-${filename}`;
+}
+
+// Storage providers normalize dot segments and backslashes, so a pathname
+// containing them may resolve outside the users/<userId>/ prefix it names
+function isPlainPathname(pathname: string) {
+  if (
+    pathname.startsWith("/") ||
+    // biome-ignore lint/suspicious/noControlCharactersInRegex: control characters are rejected
+    /[\\\u0000-\u001f\u007f]/.test(pathname)
+  ) {
+    return false;
+  }
+  return pathname
+    .split("/")
+    .every((segment) => segment !== "" && !/^(?:\.|%2e){1,2}$/i.test(segment));
+}
+
+/**
+ * Id of the user a pathname belongs to. Providers may prepend their own
+ * key prefix, so the first users/<userId>/ segment pair wins. Pathnames
+ * that storage could resolve elsewhere have no owner.
+ */
+export function getBlobOwnerId(pathname: string): string | undefined {
+  if (!isPlainPathname(pathname)) {
+    return undefined;
+  }
+  const match = new RegExp(`(?:^|/)${USERS_SEGMENT}/([^/]+)/`).exec(pathname);
+  if (!match?.[1]) {
+    return undefined;
+  }
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,266 @@
+/* agent-frontmatter:start
+AGENT: Sandbox preview helpers
+PURPOSE: Proxy HTTP requests to ports declared by the sandbox so the UI can preview dev servers
+USAGE: const response = await handleSandboxPreview(request, context, prefix)
+EXPORTS: SANDBOX_PREVIEW_SEGMENT, getSandboxPreviewPath, proxySandboxPort, handleSandboxPreview
+FEATURES:
+  - Addresses previews as `<prefix><threadId>/<port>/<path>`, with `_` for sandboxes without a thread
+  - Only forwards to ports listed in the sandbox `ports` config
+  - Keeps the caller's cookies and authorization away from the sandbox
+  - Drops headers that stop the preview from loading in an iframe
+  - Sandboxes previews with CSP so their scripts run in an opaque origin, away from the app
+  - Runs the configured middleware and serves only threads the caller owns
+  - Rewrites redirects that point at the sandbox back to the preview path
+SEARCHABLE: sandbox preview, port proxy, dev server preview, iframe preview
+agent-frontmatter:end */
+
+import type { SandboxAPI } from "@agentstart/types";
+import { type AnyMiddleware, call, ORPCError } from "@orpc/server";
+import type { Context } from "@/api/context";
+import { createProcedureBuilder } from "@/api/procedures";
+import { type DBThread, getAdapter } from "@/memory";
+import { getSandbox } from "@/sandbox";
+
+/**
+ * Path segment after `basePath` that serves sandbox previews
+ */
+export const SANDBOX_PREVIEW_SEGMENT = "sandbox/preview/";
+
+// Placeholder thread segment for sandboxes that are not scoped to a thread
+const NO_THREAD_SEGMENT = "_";
+
+// Headers that describe a single connection and must not be forwarded
+const HOP_BY_HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+];
+
+const STRIPPED_REQUEST_HEADERS = [
+  ...HOP_BY_HOP_HEADERS,
+  "host",
+  "cookie",
+  "authorization",
+  "origin",
+  "referer",
+];
+
+// fetch decodes bodies, so encoding and length no longer match what we send
+const STRIPPED_RESPONSE_HEADERS = [
+  ...HOP_BY_HOP_HEADERS,
+  "content-encoding",
+  "content-length",
+  "set-cookie",
+  "x-frame-options",
+  "content-security-policy",
+];
+
+// Previews share the app's origin; without allow-same-origin the browser gives
+// them an opaque origin, so their scripts cannot read app data or call the API
+const PREVIEW_CONTENT_SECURITY_POLICY =
+  "sandbox allow-scripts allow-forms allow-popups allow-modals allow-downloads";
+
+/**
+ * Path of a port preview, relative to the host of the agent handler
+ */
+export function getSandboxPreviewPath(
+  basePath: string,
+  options: { port: number; threadId?: string },
+): string {
+  const threadSegment = options.threadId
+    ? encodeURIComponent(options.threadId)
+    : NO_THREAD_SEGMENT;
+  return `${basePath}/${SANDBOX_PREVIEW_SEGMENT}${threadSegment}/${options.port}/`;
+}
+
+function parsePreviewPath(pathname: string, prefix: string) {
+  const [threadSegment, portSegment, ...rest] = pathname
+    .slice(prefix.length)
+    .split("/");
+  const port = Number(portSegment);
+  if (!threadSegment || !Number.isInteger(port) || port <= 0 || port > 65535) {
+    return null;
+  }
+  return {
+    previewPath: `${prefix}${threadSegment}/${portSegment}/`,
+    hasTrailingSlash: rest.length > 0,
+    threadId:
+      threadSegment === NO_THREAD_SEGMENT
+        ? undefined
+        : decodeURIComponent(threadSegment),
+    port,
+    path: `/${rest.join("/")}`,
+  };
+}
+
+/**
+ * Forward a request to a declared sandbox port.
+ * Throws when the port is not declared or the sandbox cannot expose ports.
+ *
+ * @param sandbox - Sandbox that runs the server
+ * @param port - Declared port to forward to
+ * @param path - Path and query string on the sandbox server
+ * @param init - Method, headers and body of the forwarded request
+ * @param previewPath - Preview path of the port, used to rewrite redirects
+ */
+export async function proxySandboxPort(
+  sandbox: SandboxAPI,
+  port: number,
+  path: string,
+  init: {
+    method?: string;
+    headers?: HeadersInit;
+    body?: BodyInit | null;
+  } = {},
+  previewPath?: string,
+): Promise<Response> {
+  if (!sandbox.getPortUrl) {
+    throw new Error("The sandbox adapter does not support port previews");
+  }
+  const target = new URL(path, await sandbox.getPortUrl(port));
+
+  const headers = new Headers(init.headers);
+  for (const header of STRIPPED_REQUEST_HEADERS) {
+    headers.delete(header);
+  }
+
+  const method = (init.method ?? "GET").toUpperCase();
+  const upstream = await fetch(target, {
+    method,
+    headers,
+    body: method === "GET" || method === "HEAD" ? undefined : init.body,
+    redirect: "manual",
+    // Required by Node.js when streaming a request body
+    ...(init.body instanceof ReadableStream ? { duplex: "half" } : {}),
+  } as RequestInit);
+
+  const responseHeaders = new Headers(upstream.headers);
+  for (const header of STRIPPED_RESPONSE_HEADERS) {
+    responseHeaders.delete(header);
+  }
+
+  const location = responseHeaders.get("location");
+  if (location && previewPath) {
+    const redirect = new URL(location, target);
+    if (redirect.origin === target.origin) {
+      responseHeaders.set(
+        "location",
+        `${previewPath}${redirect.pathname.slice(1)}${redirect.search}${redirect.hash}`,
+      );
+    }
+  }
+
+  return new Response(upstream.body, {
+    status: upstream.status,
+    statusText: upstream.statusText,
+    headers: responseHeaders,
+  });
+}
+
+async function servePreview(
+  request: Request,
+  context: Context,
+  target: NonNullable<ReturnType<typeof parsePreviewPath>>,
+): Promise<Response> {
+  const url = new URL(request.url);
+  const userId = await context.getUserId(context.headers);
+  if (target.threadId) {
+    const memory = await getAdapter(context);
+    const thread = await memory.findOne<DBThread>({
+      model: "thread",
+      where: [{ field: "id", value: target.threadId }],
+    });
+    if (!thread) {
+      return new Response("Not found", { status: 404 });
+    }
+    if (thread.userId !== userId) {
+      return new Response("Forbidden", { status: 403 });
+    }
+  }
+
+  const sandbox = await getSandbox(context, {
+    threadId: target.threadId,
+    userId,
+  });
+  if (!sandbox?.getPorts?.().includes(target.port)) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  // Relative asset URLs only resolve against the port root with a trailing slash
+  if (!target.hasTrailingSlash) {
+    return Response.redirect(
+      new URL(`${target.previewPath}${url.search}`, url),
+      308,
+    );
+  }
+
+  try {
+    const response = await proxySandboxPort(
+      sandbox,
+      target.port,
+      `${target.path}${url.search}`,
+      {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+      },
+      target.previewPath,
+    );
+    response.headers.set(
+      "content-security-policy",
+      PREVIEW_CONTENT_SECURITY_POLICY,
+    );
+    return response;
+  } catch (error) {
+    console.error(
+      `[sandbox.preview] Failed to reach port ${target.port}:`,
+      error,
+    );
+    return new Response("Bad gateway", { status: 502 });
+  }
+}
+
+/**
+ * Serve a preview request for the raw HTTP route of the agent handler.
+ * The configured middleware runs first, as it does for API procedures,
+ * and the caller must own the thread in the path.
+ *
+ * @param request - Incoming request under `prefix`
+ * @param context - Request context with the agent options
+ * @param prefix - `${basePath}/sandbox/preview/`
+ * @param middleware - Middleware from the agent options
+ */
+export async function handleSandboxPreview(
+  request: Request,
+  context: Context,
+  prefix: string,
+  middleware?: AnyMiddleware[],
+): Promise<Response> {
+  let target: ReturnType<typeof parsePreviewPath>;
+  try {
+    target = parsePreviewPath(new URL(request.url).pathname, prefix);
+  } catch {
+    target = null;
+  }
+  if (!target) {
+    return new Response("Bad request", { status: 400 });
+  }
+
+  const preview = target;
+  const procedure = createProcedureBuilder(middleware).handler(({ context }) =>
+    servePreview(request, context, preview),
+  );
+  try {
+    return await call(procedure, undefined, { context });
+  } catch (error) {
+    if (error instanceof ORPCError) {
+      return new Response(error.message, { status: error.status });
+    }
+    throw error;
+  }
+}
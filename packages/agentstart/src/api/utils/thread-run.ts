@@ -0,0 +1,220 @@
+/* agent-frontmatter:start
+AGENT: Thread run utilities
+PURPOSE: Share thread ownership checks and agent run startup across routers
+USAGE: import { startThreadRun, verifyThreadOwnership } from "@/api/utils/thread-run"
+EXPORTS: verifyThreadOwnership, verifyThreadAccess, startThreadRun, stopThreadRun
+FEATURES:
+  - Rejects access to missing threads and threads owned by other users
+  - Lets anyone read public threads while private ones stay with their owner
+  - Starts an agent run with sandbox and usage persistence wired in
+  - Buffers runs for thread.resume when secondary memory is configured
+  - Gives every run its own abort controller so thread.stop can end it
+  - Leases the sandbox for the length of the run
+SEARCHABLE: thread run, start run, thread ownership, api utils
+agent-frontmatter:end */
+
+import type { MemoryAdapter, RuntimeContext } from "@agentstart/types";
+import { generateId } from "@agentstart/utils";
+import type { AgentStartUIMessage } from "@/agent";
+import { Run } from "@/agent";
+import { bufferRunStream, requestRunStop } from "@/agent/resumable-stream";
+import type { RunFinishEvent } from "@/agent/run";
+import type { Context } from "@/api/context";
+import type { DBThread } from "@/memory";
+import { acquireSandbox } from "@/sandbox";
+
+/**
+ * Verify thread ownership and return the thread if authorized
+ * @throws NOT_FOUND if thread doesn't exist
+ * @throws FORBIDDEN if user doesn't own the thread
+ */
+export async function verifyThreadOwnership(options: {
+  memory: MemoryAdapter;
+  threadId: string;
+  userId: string;
+  errors: {
+    NOT_FOUND: (opts: { message: string }) => Error;
+    FORBIDDEN: (opts: { message: string }) => Error;
+  };
+}): Promise<DBThread> {
+  const thread = await options.memory.findOne<DBThread>({
+    model: "thread",
+    where: [{ field: "id", value: options.threadId }],
+  });
+
+  if (!thread) {
+    throw options.errors.NOT_FOUND({
+      message: "Thread not found",
+    });
+  }
+
+  if (thread.userId !== options.userId) {
+    throw options.errors.FORBIDDEN({
+      message: "You don't have permission to access this thread",
+    });
+  }
+
+  return thread;
+}
+
+/**
+ * Verify the user may read a thread and return it. Public threads are
+ * readable by anyone, private threads only by their owner.
+ * @throws NOT_FOUND if thread doesn't exist
+ * @throws FORBIDDEN if the thread is private and owned by another user
+ */
+export async function verifyThreadAccess(options: {
+  memory: MemoryAdapter;
+  threadId: string;
+  userId: string;
+  errors: {
+    NOT_FOUND: (opts: { message: string }) => Error;
+    FORBIDDEN: (opts: { message: string }) => Error;
+  };
+}): Promise<DBThread> {
+  const thread = await options.memory.findOne<DBThread>({
+    model: "thread",
+    where: [{ field: "id", value: options.threadId }],
+  });
+
+  if (!thread) {
+    throw options.errors.NOT_FOUND({
+      message: "Thread not found",
+    });
+  }
+
+  if (thread.visibility === "private" && thread.userId !== options.userId) {
+    throw options.errors.FORBIDDEN({
+      message: "You don't have permission to access this thread",
+    });
+  }
+
+  return thread;
+}
+
+// Abort controllers of the runs this server is executing, by thread
+const activeRuns = new Map<string, AbortController>();
+
+/**
+ * Start an agent run for a thread and return its UI message stream.
+ * Shared by streaming new messages and resuming after tool approvals.
+ *
+ * With secondary memory configured the run is buffered for `thread.resume`
+ * and keeps going when the client disconnects, so the request signal only
+ * detaches the caller instead of aborting the run. `stopThreadRun` aborts it.
+ */
+export async function startThreadRun(options: {
+  context: Context;
+  memory: MemoryAdapter;
+  threadId: string;
+  message: AgentStartUIMessage;
+  modelId?: string;
+  parentId?: string | null;
+  signal?: AbortSignal;
+}) {
+  const { context, memory, threadId } = options;
+  const run = new Run(context);
+
+  // Only include sandbox if configured
+  const runtimeContext: Omit<RuntimeContext, "writer"> = {
+    memory,
+    threadId,
+    userId: await context.getUserId(context.headers),
+  };
+
+  // Hold the sandbox so the pool does not dispose it while the run uses it
+  const lease = context.sandbox
+    ? await acquireSandbox(context, runtimeContext)
+    : undefined;
+  runtimeContext.sandbox = lease?.sandbox;
+
+  const resumable = context.secondaryMemory;
+
+  const abortController = new AbortController();
+  const release = () => {
+    lease?.release();
+    if (activeRuns.get(threadId) === abortController) {
+      activeRuns.delete(threadId);
+    }
+  };
+  activeRuns.set(threadId, abortController);
+  abortController.signal.addEventListener("abort", release);
+  // Without a buffer nobody can reconnect, so a disconnect ends the run
+  if (!resumable) {
+    options.signal?.addEventListener("abort", () => abortController.abort());
+  }
+
+  let stream: Awaited<ReturnType<Run["start"]>>;
+  try {
+    stream = await run.start({
+      input: {
+        message: options.message,
+        modelId: options.modelId,
+        parentId: options.parentId,
+      },
+      runtimeContext,
+      onFinish: async (event: RunFinishEvent) => {
+        if (!event.usageSummary) {
+          return;
+        }
+
+        try {
+          await memory.update({
+            model: "thread",
+            where: [{ field: "id", value: threadId }],
+            update: {
+              lastContext: event.usageSummary,
+              updatedAt: new Date(),
+            },
+          });
+        } catch (persistError) {
+          console.error("Failed to persist usage summary:", persistError);
+        }
+      },
+      onError: (error) => {
+        console.error("Agent stream error:", error);
+        return "An error occurred while processing your request.";
+      },
+      abortSignal: abortController.signal,
+    });
+  } catch (error) {
+    release();
+    throw error;
+  }
+
+  // Release the sandbox and forget the controller once the run is over
+  const tracked = stream.pipeThrough(new TransformStream({ flush: release }));
+
+  if (!resumable) {
+    return tracked;
+  }
+
+  return bufferRunStream(tracked, {
+    secondaryMemory: resumable,
+    threadId,
+    runId: generateId(),
+    abortController,
+  });
+}
+
+/**
+ * Stop the run in progress for a thread. Runs buffered in secondary memory
+ * are stopped on whichever server executes them.
+ * Returns false when no run was found.
+ */
+export async function stopThreadRun(options: {
+  context: Context;
+  threadId: string;
+}): Promise<boolean> {
+  const local = activeRuns.get(options.threadId);
+  local?.abort();
+
+  const remote = options.context.secondaryMemory
+    ? await requestRunStop({
+        secondaryMemory: options.context.secondaryMemory,
+        threadId: options.threadId,
+      })
+    : false;
+
+  return Boolean(local) || remote;
+}
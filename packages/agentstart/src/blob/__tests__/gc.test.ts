@@ -0,0 +1,188 @@
+/* agent-frontmatter:start
+AGENT: Blob garbage collector tests
+PURPOSE: Verify orphaned uploads are found and deleted safely
+USAGE: Run with vitest; uses the in-memory adapter and a mocked blob adapter
+EXPORTS: none
+FEATURES:
+  - Keeps blobs referenced by message attachments or file parts
+  - Spares orphans younger than the grace period
+  - Deletes nothing in dry-run mode
+  - Reads every message when many share a timestamp
+SEARCHABLE: blob gc test, orphaned blobs test
+agent-frontmatter:end */
+
+import { inMemoryAdapter } from "@agentstart/memory/in-memory";
+import type {
+  AgentStartOptions,
+  BlobAdapter,
+  MemoryAdapter,
+} from "@agentstart/types";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { collectOrphanedBlobs } from "../gc";
+
+const HOUR = 60 * 60 * 1000;
+
+function listedBlob(pathname: string, ageInHours: number) {
+  return {
+    pathname,
+    url: `https://example.com/${pathname}`,
+    downloadUrl: `https://example.com/${pathname}?download=1`,
+    size: 4,
+    uploadedAt: new Date(Date.now() - ageInHours * HOUR),
+  };
+}
+
+describe("collectOrphanedBlobs", () => {
+  let memory: MemoryAdapter;
+  let blob: BlobAdapter;
+  let options: AgentStartOptions;
+
+  beforeEach(async () => {
+    memory = inMemoryAdapter()({}) as MemoryAdapter;
+    await memory.create({
+      model: "message",
+      data: {
+        id: "msg_1",
+        threadId: "thr_1",
+        role: "user",
+        parts: "[]",
+        attachments: JSON.stringify([
+          {
+            pathname: "users/u1/threads/thr_1/kept.png",
+            mediaType: "image/png",
+          },
+        ]),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    });
+    // Stored before attachments were recorded
+    await memory.create({
+      model: "message",
+      data: {
+        id: "msg_2",
+        threadId: "thr_1",
+        role: "user",
+        parts: JSON.stringify([
+          {
+            type: "file",
+            mediaType: "text/plain",
+            url: "https://example.com/legacy.txt",
+            providerMetadata: {
+              agentstart: { pathname: "users/u1/drafts/legacy.txt" },
+            },
+          },
+        ]),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    });
+
+    blob = {
+      provider: "local",
+      getConstraints: vi.fn(),
+      put: vi.fn(),
+      del: vi.fn(),
+      head: vi.fn(),
+      list: vi
+        .fn()
+        .mockResolvedValueOnce({
+          blobs: [
+            listedBlob("users/u1/threads/thr_1/kept.png", 48),
+            listedBlob("users/u1/drafts/legacy.txt", 48),
+          ],
+          cursor: "page_2",
+          hasMore: true,
+        })
+        .mockResolvedValueOnce({
+          blobs: [
+            listedBlob("users/u1/threads/thr_9/deleted.pdf", 48),
+            listedBlob("users/u1/drafts/pending.png", 1),
+          ],
+          hasMore: false,
+        }),
+      copy: vi.fn(),
+      createMultipartUpload: vi.fn(),
+      createMultipartUploader: vi.fn(),
+      uploadPart: vi.fn(),
+      completeMultipartUpload: vi.fn(),
+    };
+    options = {
+      memory: () => memory,
+      blob: () => blob,
+    } as unknown as AgentStartOptions;
+  });
+
+  it("deletes unreferenced uploads older than the grace period", async () => {
+    const result = await collectOrphanedBlobs(options);
+
+    expect(blob.list).toHaveBeenNthCalledWith(1, {
+      prefix: "users/",
+      cursor: undefined,
+      limit: 1000,
+    });
+    expect(blob.list).toHaveBeenNthCalledWith(2, {
+      prefix: "users/",
+      cursor: "page_2",
+      limit: 1000,
+    });
+    expect(result).toMatchObject({
+      scanned: 4,
+      referenced: 2,
+      orphaned: [{ pathname: "users/u1/threads/thr_9/deleted.pdf", size: 4 }],
+      deleted: 1,
+      dryRun: false,
+    });
+    expect(blob.del).toHaveBeenCalledWith([
+      "users/u1/threads/thr_9/deleted.pdf",
+    ]);
+  });
+
+  it("reports orphans without deleting them in dry-run mode", async () => {
+    const result = await collectOrphanedBlobs(options, {
+      dryRun: true,
+      gracePeriod: 0,
+    });
+
+    expect(result.orphaned.map((orphan) => orphan.pathname)).toEqual([
+      "users/u1/threads/thr_9/deleted.pdf",
+      "users/u1/drafts/pending.png",
+    ]);
+    expect(result.deleted).toBe(0);
+    expect(blob.del).not.toHaveBeenCalled();
+  });
+
+  it("reads every message when many share a timestamp", async () => {
+    const createdAt = new Date(Date.now() - HOUR);
+    for (let index = 0; index < 700; index++) {
+      await memory.create({
+        model: "message",
+        data: {
+          id: `msg_bulk_${String(index).padStart(3, "0")}`,
+          threadId: "thr_2",
+          role: "user",
+          parts: "[]",
+          attachments: JSON.stringify([
+            { pathname: `users/u1/threads/thr_2/${index}.png` },
+          ]),
+          createdAt,
+          updatedAt: createdAt,
+        },
+      });
+    }
+    const findMany = vi.spyOn(memory, "findMany");
+
+    const result = await collectOrphanedBlobs(options, { dryRun: true });
+
+    expect(result.referenced).toBe(702);
+    expect(findMany).not.toHaveBeenCalledWith(
+      expect.objectContaining({ offset: expect.anything() }),
+    );
+  });
+
+  it("requires a blob adapter", async () => {
+    await expect(
+      collectOrphanedBlobs({ ...options, blob: undefined }),
+    ).rejects.toThrowError("Blob storage is not configured");
+  });
+});
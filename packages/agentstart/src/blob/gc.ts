@@ -0,0 +1,163 @@
+/* agent-frontmatter:start
+AGENT: Blob garbage collector
+PURPOSE: Delete uploaded blobs that no stored message references anymore
+USAGE: const result = await collectOrphanedBlobs(options, { dryRun: true })
+EXPORTS: DEFAULT_BLOB_GC_GRACE_PERIOD, CollectOrphanedBlobsOptions, CollectOrphanedBlobsResult, OrphanedBlob, collectOrphanedBlobs
+FEATURES:
+  - Gathers referenced pathnames from the attachments and file parts of every message
+  - Pages through messages with stable (createdAt, id) cursors
+  - Pages through uploads with BlobAdapter.list
+  - Spares blobs younger than a grace period, e.g. attachments of unsent drafts
+  - Dry-run mode reports orphans without deleting them
+SEARCHABLE: blob gc, garbage collection, orphaned blobs, unreferenced uploads, blob cleanup
+agent-frontmatter:end */
+
+import { getBlob } from "@agentstart/blob";
+import type { AgentStartOptions } from "@agentstart/types";
+import { AgentStartError } from "@agentstart/utils";
+import { getReferencedBlobPathnames } from "@/agent/messages/attachments";
+import { findPageBefore } from "@/agent/persistence/pagination";
+import { BLOB_UPLOADS_PREFIX } from "@/api/utils/blob-scope";
+import { type DBMessage, getAdapter } from "@/memory";
+
+/**
+ * Blobs younger than this are kept even when unreferenced (24 hours)
+ */
+export const DEFAULT_BLOB_GC_GRACE_PERIOD = 24 * 60 * 60 * 1000;
+
+const MESSAGE_PAGE_SIZE = 500;
+const BLOB_PAGE_SIZE = 1000;
+const DELETE_BATCH_SIZE = 100;
+
+export interface CollectOrphanedBlobsOptions {
+  /**
+   * Only consider blobs under this prefix. Defaults to every upload made
+   * through the blob router.
+   */
+  prefix?: string;
+  /**
+   * Milliseconds an unreferenced blob must have existed before it is deleted.
+   * Defaults to 24 hours.
+   */
+  gracePeriod?: number;
+  /**
+   * Report orphaned blobs without deleting them
+   */
+  dryRun?: boolean;
+}
+
+export interface OrphanedBlob {
+  pathname: string;
+  size: number;
+  uploadedAt: Date;
+}
+
+export interface CollectOrphanedBlobsResult {
+  /**
+   * Number of blobs listed under the prefix
+   */
+  scanned: number;
+  /**
+   * Number of distinct pathnames referenced by stored messages
+   */
+  referenced: number;
+  /**
+   * Unreferenced blobs older than the grace period
+   */
+  orphaned: OrphanedBlob[];
+  /**
+   * Number of blobs deleted, always 0 in dry-run mode
+   */
+  deleted: number;
+  dryRun: boolean;
+}
+
+async function collectReferencedPathnames(
+  options: AgentStartOptions,
+): Promise<Set<string>> {
+  const memory = await getAdapter(options);
+  const referenced = new Set<string>();
+
+  // Offsets skip messages when ties reorder or rows are deleted mid-scan
+  let cursor: string | undefined;
+  do {
+    const { records, nextCursor } = await findPageBefore<DBMessage>({
+      memory,
+      model: "message",
+      cursor,
+      limit: MESSAGE_PAGE_SIZE,
+    });
+    for (const message of records) {
+      for (const pathname of getReferencedBlobPathnames(message)) {
+        referenced.add(pathname);
+      }
+    }
+    cursor = nextCursor ?? undefined;
+  } while (cursor);
+
+  return referenced;
+}
+
+/**
+ * Delete uploaded blobs that no stored message references and that are
+ * older than the grace period. Blobs of deleted threads and attachments
+ * removed before sending end up here.
+ *
+ * References are gathered before listing blobs, so a message saved while
+ * the collector runs can only point at a blob younger than the grace period.
+ */
+export async function collectOrphanedBlobs(
+  options: AgentStartOptions,
+  gcOptions: CollectOrphanedBlobsOptions = {},
+): Promise<CollectOrphanedBlobsResult> {
+  const adapter = await getBlob(options);
+  if (!adapter) {
+    throw new AgentStartError(
+      "BLOB_NOT_CONFIGURED",
+      "Blob storage is not configured. Please configure a blob adapter in your AgentStart options.",
+    );
+  }
+
+  const dryRun = gcOptions.dryRun ?? false;
+  const cutoff =
+    Date.now() - (gcOptions.gracePeriod ?? DEFAULT_BLOB_GC_GRACE_PERIOD);
+  const referenced = await collectReferencedPathnames(options);
+
+  let scanned = 0;
+  const orphaned: OrphanedBlob[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await adapter.list({
+      prefix: gcOptions.prefix ?? BLOB_UPLOADS_PREFIX,
+      cursor,
+      limit: BLOB_PAGE_SIZE,
+    });
+    scanned += page.blobs.length;
+    for (const blob of page.blobs) {
+      const uploadedAt = new Date(blob.uploadedAt);
+      if (!referenced.has(blob.pathname) && uploadedAt.getTime() <= cutoff) {
+        orphaned.push({ pathname: blob.pathname, size: blob.size, uploadedAt });
+      }
+    }
+    cursor = page.hasMore ? page.cursor : undefined;
+  } while (cursor);
+
+  let deleted = 0;
+  if (!dryRun) {
+    for (let index = 0; index < orphaned.length; index += DELETE_BATCH_SIZE) {
+      const batch = orphaned
+        .slice(index, index + DELETE_BATCH_SIZE)
+        .map((blob) => blob.pathname);
+      await adapter.del(batch);
+      deleted += batch.length;
+    }
+  }
+
+  return {
+    scanned,
+    referenced: referenced.size,
+    orphaned,
+    deleted,
+    dryRun,
+  };
+}
@@ -1 +1,2 @@
 export * from "@agentstart/blob";
+export * from "./gc";
@@ -0,0 +1 @@
+export * from "@agentstart/blob/local";
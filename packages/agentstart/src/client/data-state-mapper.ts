@@ -38,7 +38,7 @@ export function useDataStateMapper(client: AgentStartAPI, storeId: string) {
 
     switch (dataPart.type) {
       case "data-agentstart-title_update": {
-        queryClient.invalidateQueries(orpc.thread.list.queryOptions());
+        queryClient.invalidateQueries({ queryKey: orpc.thread.list.key() });
         break;
       }
       default:
@@ -0,0 +1,153 @@
+/* agent-frontmatter:start
+AGENT: Direct blob upload utilities
+PURPOSE: Send files straight to presigned blob storage URLs from the browser
+USAGE: const confirmed = await uploadToTicket(ticket, file, (loaded) => ...)
+EXPORTS: UploadTicket, UploadTarget, ConfirmUploadInput, putWithProgress, uploadToTicket
+FEATURES:
+  - PUTs files with XMLHttpRequest so upload progress is observable
+  - Uploads multipart tickets part by part with limited concurrency
+  - Collects part ETags for blob.confirm
+SEARCHABLE: direct upload, presigned upload, multipart upload, upload progress
+agent-frontmatter:end */
+
+/**
+ * A presigned request returned by blob.createUploadUrl
+ */
+export interface UploadTarget {
+  url: string;
+  method: "PUT";
+  headers: Record<string, string>;
+}
+
+/**
+ * Upload instructions for one file returned by blob.createUploadUrl
+ */
+export interface UploadTicket {
+  name: string;
+  pathname: string;
+  upload?: UploadTarget;
+  multipart?: {
+    key: string;
+    uploadId: string;
+    partSize: number;
+    parts: Array<UploadTarget & { partNumber: number }>;
+  };
+}
+
+/**
+ * One entry of the blob.confirm input
+ */
+export interface ConfirmUploadInput {
+  name: string;
+  pathname: string;
+  multipart?: {
+    key: string;
+    uploadId: string;
+    parts: Array<{ partNumber: number; etag: string }>;
+  };
+}
+
+// Parts uploaded at the same time for a multipart ticket
+const PART_CONCURRENCY = 4;
+
+/**
+ * PUT a body to a presigned URL, reporting uploaded bytes as they go.
+ * Resolves with the response's ETag header, if storage exposes it.
+ */
+export function putWithProgress(
+  target: UploadTarget,
+  body: Blob,
+  onProgress?: (loaded: number) => void,
+): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(target.method, target.url);
+    for (const [name, value] of Object.entries(target.headers)) {
+      xhr.setRequestHeader(name, value);
+    }
+    xhr.upload.onprogress = (event) => {
+      onProgress?.(event.loaded);
+    };
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new Error(`Upload failed with status ${xhr.status}`));
+        return;
+      }
+      onProgress?.(body.size);
+      resolve(xhr.getResponseHeader("etag"));
+    };
+    xhr.onerror = () => {
+      reject(new Error("Upload failed: network error"));
+    };
+    xhr.onabort = () => {
+      reject(new Error("Upload aborted"));
+    };
+    xhr.send(body);
+  });
+}
+
+/**
+ * Upload a file as described by its ticket and return the blob.confirm entry.
+ * `onProgress` receives the total bytes uploaded for this file.
+ */
+export async function uploadToTicket(
+  ticket: UploadTicket,
+  file: Blob,
+  onProgress?: (loaded: number) => void,
+): Promise<ConfirmUploadInput> {
+  if (ticket.upload) {
+    await putWithProgress(ticket.upload, file, onProgress);
+    return { name: ticket.name, pathname: ticket.pathname };
+  }
+
+  if (!ticket.multipart) {
+    throw new Error(`Upload ticket for "${ticket.name}" has no target`);
+  }
+
+  const { key, uploadId, partSize, parts } = ticket.multipart;
+  const loadedByPart = new Map<number, number>();
+  const report = () => {
+    let loaded = 0;
+    for (const value of loadedByPart.values()) {
+      loaded += value;
+    }
+    onProgress?.(loaded);
+  };
+
+  const etags: Array<{ partNumber: number; etag: string }> = [];
+  const queue = [...parts];
+  const worker = async () => {
+    for (let part = queue.shift(); part; part = queue.shift()) {
+      const { partNumber } = part;
+      const start = (partNumber - 1) * partSize;
+      const etag = await putWithProgress(
+        part,
+        file.slice(start, start + partSize),
+        (loaded) => {
+          loadedByPart.set(partNumber, loaded);
+          report();
+        },
+      );
+      if (!etag) {
+        // S3 buckets must list ETag in the CORS ExposeHeaders
+        throw new Error(
+          "Upload failed: storage did not expose the ETag header of a part",
+        );
+      }
+      etags.push({ partNumber, etag });
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(PART_CONCURRENCY, parts.length) }, worker),
+  );
+
+  return {
+    name: ticket.name,
+    pathname: ticket.pathname,
+    multipart: {
+      key,
+      uploadId,
+      parts: etags.sort((a, b) => a.partNumber - b.partNumber),
+    },
+  };
+}
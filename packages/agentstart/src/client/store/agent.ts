@@ -6,6 +6,7 @@ EXPORTS: ThreadDraft, QueuedAgentMessage, AgentStore, AgentStoreWithSync, getAge
 FEATURES:
   - Initializes per-thread agent store instances on demand
   - Provides typed selectors compatible with AI SDK message helpers
+  - Tracks the history cursor used to load older messages on scroll
 SEARCHABLE: packages, agentstart, src, client, store, agent, zustand
 agent-frontmatter:end */
 
@@ -61,6 +62,13 @@ export interface AgentStore<TMessage extends UIMessage = UIMessage>
   removeDataPart: (type: DataUIPart<AgentStartDataPart>["type"]) => void;
   thinkingStatus: string | null;
   setThinkingStatus: (status: string | null) => void;
+  /**
+   * Cursor of the oldest loaded message, null once the branch root is loaded
+   */
+  historyCursor: string | null;
+  setHistoryCursor: (cursor: string | null) => void;
+  isLoadingOlderMessages: boolean;
+  loadOlderMessages: () => Promise<void>;
 }
 // Internal sync method for connecting with useThread
 export interface AgentStoreWithSync<TMessage extends UIMessage = UIMessage>
@@ -84,6 +92,7 @@ function createAgentStore<TMessage extends UIMessage = UIMessage>() {
         stop: async () => {},
         resumeStream: async () => {},
         addToolResult: async () => {},
+        addToolApprovalResponse: async () => {},
         setMessages: () => {},
         clearError: () => {},
         newThreadDraft: null,
@@ -240,6 +249,19 @@ function createAgentStore<TMessage extends UIMessage = UIMessage>() {
             "setThinkingStatus",
           ),
 
+        historyCursor: null,
+        setHistoryCursor: (cursor) =>
+          set(
+            {
+              historyCursor: cursor,
+            },
+            false,
+            "setHistoryCursor",
+          ),
+        isLoadingOlderMessages: false,
+        // Replaced by useThread
+        loadOlderMessages: async () => {},
+
         // Internal sync method for useThread integration
         _syncState: (newState: Partial<AgentStore<TMessage>>) => {
           set(newState, false, "syncFromUseThread");
@@ -1,17 +1,20 @@
 /* agent-frontmatter:start
 AGENT: Blob files hook
 PURPOSE: Handle file validation and upload for blob storage
-USAGE: const { files, setFiles, processFiles, clearFiles, isUploading, uploadTiming } = useBlobFiles()
-EXPORTS: useBlobFiles, UseBlobFilesResult
+USAGE: const { files, setFiles, processFiles, clearFiles, isUploading, uploadProgress, uploadTiming } = useBlobFiles({ threadId })
+EXPORTS: useBlobFiles, UseBlobFilesOptions, UseBlobFilesResult
 FEATURES:
   - Automatic file processing: upload to blob if enabled, return FileList if disabled
   - Built-in validation against blob constraints
-  - Handles base64 encoding and ORPC upload internally
+  - Uploads straight to storage through presigned URLs when the adapter supports it
+  - Falls back to base64 encoding and ORPC upload otherwise
+  - Reports upload progress across all files
   - Support for immediate and onSubmit upload timing strategies
   - Immediate mode: auto-upload on file selection
   - OnSubmit mode: upload on manual processFiles() call
   - Error handling with clear error messages
-SEARCHABLE: blob files, file upload hook, blob validation, processFiles, immediate upload, onSubmit upload
+  - Scopes uploads to the current thread and tags file parts with their blob pathname
+SEARCHABLE: blob files, file upload hook, blob validation, processFiles, immediate upload, onSubmit upload, upload progress, direct upload
 agent-frontmatter:end */
 
 "use client";
@@ -20,7 +23,9 @@ import { useMutation } from "@tanstack/react-query";
 import type { FileUIPart } from "ai";
 import { isFileUIPart } from "ai";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { BLOB_METADATA_KEY } from "@/agent/messages/attachments";
 import { arrayBufferToBase64 } from "./internal/base64";
+import { uploadToTicket } from "./internal/upload";
 import { useAgentStartContext } from "./provider";
 
 /**
@@ -44,6 +49,13 @@ interface FileUploadData {
 export type BlobFile = File | FileUIPart;
 export type BlobFileList = FileList | BlobFile[];
 
+export interface UseBlobFilesOptions {
+  /**
+   * Thread the uploads belong to. Omit it before the thread exists.
+   */
+  threadId?: string;
+}
+
 export interface UseBlobFilesResult {
   /**
    * Current files (FileList in onSubmit mode, FileUIPart[] in immediate mode after upload)
@@ -70,6 +82,10 @@ export interface UseBlobFilesResult {
    * Whether files are currently being uploaded
    */
   isUploading: boolean;
+  /**
+   * Fraction of bytes uploaded (0 to 1) while an upload runs, otherwise null
+   */
+  uploadProgress: number | null;
   /**
    * Upload timing strategy
    */
@@ -81,7 +97,7 @@ export interface UseBlobFilesResult {
  *
  * @example
  * ```tsx
- * const { files, setFiles, processFiles, clearFiles, isUploading } = useBlobFiles();
+ * const { files, setFiles, processFiles, clearFiles, isUploading } = useBlobFiles({ threadId });
  *
  * // File selection (automatic upload in immediate mode)
  * const handleFileSelect = (selectedFiles: FileList) => {
@@ -96,15 +112,20 @@ export interface UseBlobFilesResult {
  * };
  * ```
  */
-export function useBlobFiles(): UseBlobFilesResult {
+export function useBlobFiles(
+  options: UseBlobFilesOptions = {},
+): UseBlobFilesResult {
+  const { threadId } = options;
   const { client, config } = useAgentStartContext();
 
   const blobConfig = config?.blob;
   const isEnabled = Boolean(blobConfig?.enabled);
+  const isDirectUpload = Boolean(blobConfig?.directUpload);
   const uploadTiming = blobConfig?.constraints?.uploadTiming ?? "onSubmit";
 
   // Internal state
   const [files, setFilesState] = useState<BlobFileList>([] as BlobFile[]);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
   const lastAutoUploadSignatureRef = useRef<string | null>(null);
 
   const inferFilename = useCallback((url?: string): string => {
@@ -275,6 +296,76 @@ export function useBlobFiles(): UseBlobFilesResult {
     [blobConfig, validateFile],
   );
 
+  /**
+   * Upload files through the blob router as base64
+   */
+  const uploadBase64 = useCallback(
+    async (files: File[]) => {
+      setUploadProgress(0);
+      try {
+        const filesData: FileUploadData[] = await Promise.all(
+          files.map(async (file) => {
+            const buffer = await file.arrayBuffer();
+            const base64 = arrayBufferToBase64(buffer);
+            return {
+              name: file.name,
+              data: base64,
+              type: file.type,
+            };
+          }),
+        );
+
+        return await client.blob.upload({
+          threadId,
+          files: filesData,
+        });
+      } finally {
+        setUploadProgress(null);
+      }
+    },
+    [client, threadId],
+  );
+
+  /**
+   * Upload files straight to storage through presigned URLs, then confirm them
+   */
+  const uploadDirect = useCallback(
+    async (files: File[]) => {
+      const { files: tickets } = await client.blob.createUploadUrl({
+        threadId,
+        files: files.map((file) => ({
+          name: file.name,
+          type: file.type,
+          size: file.size,
+        })),
+      });
+
+      const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+      const loadedBytes = files.map(() => 0);
+      setUploadProgress(0);
+      try {
+        const uploaded = await Promise.all(
+          tickets.map((ticket, index) => {
+            const file = files[index];
+            if (!file) {
+              throw new Error("Upload response missing expected file");
+            }
+            return uploadToTicket(ticket, file, (loaded) => {
+              loadedBytes[index] = loaded;
+              const sum = loadedBytes.reduce((total, n) => total + n, 0);
+              setUploadProgress(totalBytes > 0 ? sum / totalBytes : 1);
+            });
+          }),
+        );
+
+        return await client.blob.confirm({ files: uploaded });
+      } finally {
+        setUploadProgress(null);
+      }
+    },
+    [client, threadId],
+  );
+
   /**
    * Core upload function (shared by uploadFiles and processFiles)
    */
@@ -301,23 +392,9 @@ export function useBlobFiles(): UseBlobFilesResult {
         );
       }
 
-      // Convert files to base64
-      const filesData: FileUploadData[] = await Promise.all(
-        normalizedFiles.map(async (file) => {
-          const buffer = await file.arrayBuffer();
-          const base64 = arrayBufferToBase64(buffer);
-          return {
-            name: file.name,
-            data: base64,
-            type: file.type,
-          };
-        }),
-      );
-
-      // Upload using ORPC
-      const result = await client.blob.upload({
-        files: filesData,
-      });
+      const result = await (isDirectUpload
+        ? uploadDirect(normalizedFiles)
+        : uploadBase64(normalizedFiles));
 
       if (!result.success || !result.files) {
         throw new Error("Upload failed: Invalid response");
@@ -330,10 +407,22 @@ export function useBlobFiles(): UseBlobFilesResult {
           filename: file.name,
           mediaType: file.contentType ?? "application/octet-stream",
           url: file.url,
+          // Lets the server link the message to the blob and re-sign its URL
+          providerMetadata: {
+            [BLOB_METADATA_KEY]: { pathname: file.pathname },
+          },
         }),
       );
     },
-    [client, isEnabled, prepareFilesForUpload, shouldUpload, validateFiles],
+    [
+      isDirectUpload,
+      isEnabled,
+      prepareFilesForUpload,
+      shouldUpload,
+      uploadBase64,
+      uploadDirect,
+      validateFiles,
+    ],
   );
 
   /**
@@ -482,6 +571,7 @@ export function useBlobFiles(): UseBlobFilesResult {
       clearFiles,
       processFiles,
       isUploading: uploadMutation.isPending,
+      uploadProgress,
       uploadTiming,
     }),
     [
@@ -490,6 +580,7 @@ export function useBlobFiles(): UseBlobFilesResult {
       clearFiles,
       processFiles,
       uploadMutation.isPending,
+      uploadProgress,
       uploadTiming,
     ],
   );
@@ -6,6 +6,11 @@ EXPORTS: createUseThread
 FEATURES:
   - Wraps AI SDK Chat with thread identifiers
   - Streams responses via the oRPC client transport
+  - Sends tool approval decisions and resumes the run automatically
+  - Routes regenerations and edits to branch-creating message procedures
+  - Reconnects to an in-flight run on mount via thread.resume
+  - Stops the server-side run through thread.stop when generation is stopped
+  - Loads older messages page by page with thread.loadMessages cursors
   - Provides toast-based error reporting
 SEARCHABLE: thread hook, agent client, streaming thread
 agent-frontmatter:end */
@@ -21,9 +26,13 @@ import {
   useChat as useOriginalChat,
 } from "@ai-sdk/react";
 import { eventIteratorToUnproxiedDataStream } from "@orpc/client";
-import type { ChatTransport, FileUIPart } from "ai";
-import { isFileUIPart } from "ai";
-import { useEffect, useMemo, useRef } from "react";
+import type { ChatTransport, FileUIPart, UIMessageChunk } from "ai";
+import {
+  isFileUIPart,
+  isToolOrDynamicToolUIPart,
+  lastAssistantMessageIsCompleteWithApprovalResponses,
+} from "ai";
+import { useCallback, useEffect, useMemo, useRef } from "react";
 import type { StoreApi, UseBoundStore } from "zustand";
 import type { AgentStartUIMessage } from "@/agent";
 import type { AgentStartAPI } from "@/api";
@@ -33,6 +42,9 @@ import { useSettingStore } from "./store";
 import { type AgentStoreWithSync, getAgentStore } from "./store/agent";
 import type { BlobFileList } from "./use-blob-files";
 
+// Older messages fetched per scroll to the top of the conversation
+const HISTORY_PAGE_SIZE = 30;
+
 function toSendableFiles(
   files?: BlobFileList,
 ): FileList | FileUIPart[] | undefined {
@@ -72,6 +84,76 @@ function toSendableFiles(
   return undefined;
 }
 
+/**
+ * Forward every approval decision in the message to the server.
+ * Only the last call resumes the run, so earlier streams are drained.
+ */
+async function sendToolApprovalResponses(
+  client: AgentStartAPI,
+  threadId: string,
+  message: AgentStartUIMessage,
+  signal?: AbortSignal,
+) {
+  const decisions = message.parts.flatMap((part) =>
+    isToolOrDynamicToolUIPart(part) && part.state === "approval-responded"
+      ? [part.approval]
+      : [],
+  );
+
+  let result: Awaited<ReturnType<typeof client.thread.approve>> | undefined;
+  for (const decision of decisions) {
+    if (result) {
+      for await (const _ of result) {
+        // Intermediate decisions produce empty streams
+      }
+    }
+    const input = {
+      threadId,
+      approvalId: decision.id,
+      reason: decision.reason,
+    };
+    result = decision.approved
+      ? await client.thread.approve(input, { signal })
+      : await client.thread.reject(input, { signal });
+  }
+
+  if (!result) {
+    throw new Error("No tool approval responses to send");
+  }
+  return result;
+}
+
+/**
+ * Reconnect to the thread's active run. Resolves to null when no run is
+ * streaming so the chat stays idle.
+ */
+async function reconnectToThreadRun(client: AgentStartAPI, threadId: string) {
+  const reader = eventIteratorToUnproxiedDataStream(
+    await client.thread.resume({ threadId }),
+  ).getReader();
+  const first = await reader.read();
+  if (first.done) {
+    return null;
+  }
+
+  return new ReadableStream<UIMessageChunk>({
+    start(controller) {
+      controller.enqueue(first.value);
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
 export function createUseThread(client: AgentStartAPI) {
   const hook = (storeId: string = "default") => {
     const storeInstances = useStoreRegistry();
@@ -96,27 +178,91 @@ export function createUseThread(client: AgentStartAPI) {
               const lastMessage = options.messages.at(-1)!;
               const body = options.body as {
                 threadId: string;
+                editMessageId?: string;
               };
 
+              // Runs buffered for resuming outlive the request; stop them explicitly
+              options.abortSignal?.addEventListener(
+                "abort",
+                () => {
+                  client.thread
+                    .stop({ threadId: body.threadId })
+                    .catch((error) => {
+                      console.error("Failed to stop thread run:", error);
+                    });
+                },
+                { once: true },
+              );
+
+              // Approval decisions resume the existing assistant message
+              if (lastMessage.role === "assistant") {
+                return eventIteratorToUnproxiedDataStream(
+                  await sendToolApprovalResponses(
+                    client,
+                    body.threadId,
+                    lastMessage,
+                    options.abortSignal,
+                  ),
+                );
+              }
+
               // Get selected model ID from global settings store
               const selectedModelId =
                 useSettingStore.getState().selectedModelId;
 
+              // Regenerating answers the same user message on a new branch
+              if (options.trigger === "regenerate-message") {
+                return eventIteratorToUnproxiedDataStream(
+                  await client.message.regenerate(
+                    {
+                      threadId: body.threadId,
+                      messageId: lastMessage.id,
+                      modelId: selectedModelId ?? undefined,
+                    },
+                    { signal: options.abortSignal },
+                  ),
+                );
+              }
+
+              // Edits become a sibling of the original message
+              if (body.editMessageId) {
+                return eventIteratorToUnproxiedDataStream(
+                  await client.message.edit(
+                    {
+                      threadId: body.threadId,
+                      messageId: body.editMessageId,
+                      id: lastMessage.id,
+                      parts: lastMessage.parts,
+                      modelId: selectedModelId ?? undefined,
+                    },
+                    { signal: options.abortSignal },
+                  ),
+                );
+              }
+
               return eventIteratorToUnproxiedDataStream(
                 await client.thread.stream(
                   {
                     threadId: body.threadId,
                     message: lastMessage,
                     modelId: selectedModelId ?? undefined,
+                    // Continue the branch that is on screen
+                    parentId: options.messages.at(-2)?.id ?? null,
                   },
                   { signal: options.abortSignal },
                 ),
               );
             },
-            reconnectToStream() {
-              throw new Error("Reconnection not supported");
+            reconnectToStream(options) {
+              const body = options.body as { threadId?: string } | undefined;
+              return reconnectToThreadRun(
+                client,
+                body?.threadId ?? options.chatId,
+              );
             },
           } satisfies ChatTransport<AgentStartUIMessage>,
+          sendAutomaticallyWhen:
+            lastAssistantMessageIsCompleteWithApprovalResponses,
           onData: (data) => mapDataToStateRef.current(data as any),
           onFinish: ({ message, isAbort, isDisconnect, isError }) => {
             if (isAbort || isDisconnect || isError) {
@@ -171,11 +317,79 @@ export function createUseThread(client: AgentStartAPI) {
       [],
     );
 
-    return useCreateThread({
+    // Prepend the page of messages before the oldest one on screen
+    // biome-ignore lint/correctness/useExhaustiveDependencies: client is bound once per hook
+    const loadOlderMessages = useCallback(async () => {
+      const store = getAgentStore<AgentStartUIMessage>(
+        storeInstancesRef.current,
+        storeIdRef.current,
+      );
+      const { historyCursor, isLoadingOlderMessages } = store.getState();
+      const oldest = thread.messages[0];
+      if (!historyCursor || isLoadingOlderMessages || !oldest) {
+        return;
+      }
+
+      store.setState({ isLoadingOlderMessages: true });
+      try {
+        const { messages, pageInfo } = await client.thread.loadMessages({
+          threadId: storeIdRef.current,
+          // Every branch through the oldest message shares its ancestors
+          messageId: oldest.id,
+          before: historyCursor,
+          limit: HISTORY_PAGE_SIZE,
+        });
+        const loadedIds = new Set(thread.messages.map((message) => message.id));
+        thread.messages = [
+          ...messages.filter((message) => !loadedIds.has(message.id)),
+          ...thread.messages,
+        ];
+        store.setState({ historyCursor: pageInfo.previousCursor });
+      } catch (error) {
+        console.error("Failed to load older messages", error);
+      } finally {
+        store.setState({ isLoadingOlderMessages: false });
+      }
+    }, [thread]);
+
+    useEffect(() => {
+      getAgentStore<AgentStartUIMessage>(storeInstances, storeId)
+        .getState()
+        ._syncState({ loadOlderMessages });
+    }, [storeInstances, storeId, loadOlderMessages]);
+
+    const helpers = useCreateThread({
       storeId,
       chat: thread,
       experimental_throttle: 50,
     });
+
+    // Reconnect once per thread after its history has loaded, so a run that
+    // is still streaming (e.g. after a page reload) picks up where it left off
+    const resumedStoreIdRef = useRef<string | null>(null);
+    const hasMessages = helpers.messages.length > 0;
+    const { status, resumeStream } = helpers;
+    useEffect(() => {
+      if (
+        storeId === "default" ||
+        !hasMessages ||
+        resumedStoreIdRef.current === storeId
+      ) {
+        return;
+      }
+      resumedStoreIdRef.current = storeId;
+
+      // A request started in this session is already being streamed
+      if (status !== "ready") {
+        return;
+      }
+
+      void resumeStream({ body: { threadId: storeId } }).catch((error) => {
+        console.error("Failed to resume thread stream", error);
+      });
+    }, [storeId, hasMessages, status, resumeStream]);
+
+    return helpers;
   };
 
   return hook;
@@ -220,6 +434,7 @@ function useCreateThread<TMessage extends UIMessage = UIMessage>(
       stop: threadHelpers.stop,
       resumeStream: threadHelpers.resumeStream,
       addToolResult: threadHelpers.addToolResult,
+      addToolApprovalResponse: threadHelpers.addToolApprovalResponse,
       setMessages: threadHelpers.setMessages,
       clearError: threadHelpers.clearError,
     };
@@ -244,6 +459,7 @@ function useCreateThread<TMessage extends UIMessage = UIMessage>(
     threadHelpers.stop,
     threadHelpers.resumeStream,
     threadHelpers.addToolResult,
+    threadHelpers.addToolApprovalResponse,
     threadHelpers.setMessages,
     threadHelpers.clearError,
   ]);
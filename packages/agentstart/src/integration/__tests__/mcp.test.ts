@@ -0,0 +1,237 @@
+/* agent-frontmatter:start
+AGENT: MCP server integration tests
+PURPOSE: Validate the MCP server exposed by an Agent Start instance
+USAGE: Run with vitest; connects an MCP client over an in-memory transport
+EXPORTS: none
+FEATURES:
+  - Lists and calls thread tools as the user resolved by getUserId
+  - Streams agent replies as progress notifications
+  - Reads the sandbox file tree through sandbox:// resources
+SEARCHABLE: mcp server test, mcp integration test, thread tools test
+agent-frontmatter:end */
+
+import { inMemoryAdapter } from "@agentstart/memory/in-memory";
+import type { SandboxAPI } from "@agentstart/types";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { simulateReadableStream } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { BaseAgent } from "@/agent/agent";
+import { agentStart } from "@/start";
+import { createMCPServer } from "../mcp";
+
+// Usage summaries would otherwise fetch the model catalog over the network
+vi.mock("tokenlens/fetch", () => ({ fetchModels: async () => ({}) }));
+
+function createAgent(reply: string) {
+  return new BaseAgent({
+    model: new MockLanguageModelV3({
+      doGenerate: async () => ({
+        content: [{ type: "text", text: "Title" }],
+        finishReason: "stop",
+        usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+        warnings: [],
+      }),
+      doStream: async () => ({
+        stream: simulateReadableStream({
+          chunks: [
+            { type: "stream-start", warnings: [] },
+            { type: "text-start", id: "text_1" },
+            ...reply.split(" ").map((word, index) => ({
+              type: "text-delta" as const,
+              id: "text_1",
+              delta: index === 0 ? word : ` ${word}`,
+            })),
+            { type: "text-end", id: "text_1" },
+            {
+              type: "finish",
+              finishReason: "stop",
+              usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+            },
+          ],
+        }),
+      }),
+    }),
+    instructions: "Reply.",
+  });
+}
+
+function createSandbox() {
+  const entry = (path: string, isDirectory: boolean) => ({
+    path,
+    parentPath: path.split("/").slice(0, -1).join("/") || "/",
+    isFile: () => !isDirectory,
+    isDirectory: () => isDirectory,
+  });
+
+  return {
+    fs: {
+      readdir: vi.fn(async () => [
+        entry("/src", true),
+        entry("/README.md", false),
+      ]),
+      readFile: vi.fn(async (path: string) => `contents of ${path}`),
+    },
+    bash: {},
+    git: {},
+  } as unknown as SandboxAPI;
+}
+
+const clients: Client[] = [];
+
+async function connect(start: ReturnType<typeof agentStart>, userId: string) {
+  const server = createMCPServer(start, { headers: { "x-user-id": userId } });
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "test", version: "1.0.0" });
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  clients.push(client);
+  return client;
+}
+
+function createStart(options: { sandbox?: SandboxAPI } = {}) {
+  return agentStart({
+    agent: createAgent("Hello from the agent"),
+    memory: inMemoryAdapter(),
+    getUserId: (headers) => headers.get("x-user-id") ?? "anonymous",
+    ...options,
+  });
+}
+
+afterEach(async () => {
+  await Promise.all(clients.splice(0).map((client) => client.close()));
+});
+
+describe("MCP server integration", () => {
+  it("scopes thread tools to the user from getUserId", async () => {
+    const start = createStart();
+    const alice = await connect(start, "alice");
+    const bob = await connect(start, "bob");
+
+    const { tools } = await alice.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual([
+      "thread_create",
+      "thread_list",
+      "thread_messages",
+      "thread_send_message",
+    ]);
+
+    const created = await alice.callTool({
+      name: "thread_create",
+      arguments: { title: "Plans" },
+    });
+    const { threadId } = created.structuredContent as { threadId: string };
+
+    const aliceThreads = await alice.callTool({
+      name: "thread_list",
+      arguments: {},
+    });
+    const bobThreads = await bob.callTool({
+      name: "thread_list",
+      arguments: {},
+    });
+    expect(aliceThreads.content).toEqual([
+      { type: "text", text: `- ${threadId}: Plans` },
+    ]);
+    expect(bobThreads.content).toEqual([
+      { type: "text", text: "No threads found." },
+    ]);
+  });
+
+  it("sends a message and streams the reply as progress", async () => {
+    const start = createStart();
+    const client = await connect(start, "alice");
+    const created = await client.callTool({
+      name: "thread_create",
+      arguments: {},
+    });
+    const { threadId } = created.structuredContent as { threadId: string };
+
+    const progress: string[] = [];
+    const result = await client.callTool(
+      {
+        name: "thread_send_message",
+        arguments: { threadId, message: "Hi" },
+      },
+      undefined,
+      {
+        onprogress: (notification) => {
+          progress.push(notification.message ?? "");
+        },
+      },
+    );
+
+    expect(result.content).toEqual([
+      { type: "text", text: "Hello from the agent" },
+    ]);
+    expect(progress.join("")).toBe("Hello from the agent");
+
+    const history = await client.callTool({
+      name: "thread_messages",
+      arguments: { threadId },
+    });
+    expect(history.content).toEqual([
+      {
+        type: "text",
+        text: "user: Hi\n\nassistant: Hello from the agent",
+      },
+    ]);
+  });
+
+  it("rejects invalid tool arguments", async () => {
+    const client = await connect(createStart(), "alice");
+
+    await expect(
+      client.callTool({ name: "thread_messages", arguments: {} }),
+    ).rejects.toThrow("Invalid arguments for thread_messages");
+  });
+
+  it("exposes the sandbox file tree as resources", async () => {
+    const sandbox = createSandbox();
+    const start = createStart({ sandbox });
+    const client = await connect(start, "alice");
+    const created = await client.callTool({
+      name: "thread_create",
+      arguments: { title: "Repo" },
+    });
+    const { threadId } = created.structuredContent as { threadId: string };
+
+    const { resources } = await client.listResources();
+    expect(resources).toEqual([
+      expect.objectContaining({
+        uri: `sandbox://${threadId}/`,
+        name: "Repo files",
+      }),
+    ]);
+
+    const root = await client.readResource({ uri: `sandbox://${threadId}/` });
+    const [listing] = root.contents as Array<{ text: string }>;
+    expect(JSON.parse(listing?.text ?? "")).toEqual([
+      { name: "src", uri: `sandbox://${threadId}/src/`, type: "directory" },
+      {
+        name: "README.md",
+        uri: `sandbox://${threadId}/README.md`,
+        type: "file",
+      },
+    ]);
+
+    const file = await client.readResource({
+      uri: `sandbox://${threadId}/README.md`,
+    });
+    expect(file.contents).toEqual([
+      {
+        uri: `sandbox://${threadId}/README.md`,
+        mimeType: "text/plain",
+        text: "contents of README.md",
+      },
+    ]);
+  });
+
+  it("omits resources when no sandbox is configured", async () => {
+    const client = await connect(createStart(), "alice");
+
+    expect(client.getServerCapabilities()?.resources).toBeUndefined();
+  });
+});
@@ -1,11 +1,12 @@
 /* agent-frontmatter:start
 AGENT: Integration entry exports
 PURPOSE: Export integration types (types only, no adapters)
-USAGE: For adapters, use granular imports: agentstart/integration/next, agentstart/integration/node
+USAGE: For adapters, use granular imports: agentstart/integration/next, agentstart/integration/node, agentstart/integration/mcp
 FEATURES:
   - Type-safe integration configuration
   - For Next.js handler: import from agentstart/integration/next
   - For Node.js handler: import from agentstart/integration/node
+  - For the MCP server: import from agentstart/integration/mcp
 SEARCHABLE: agent integrations, runtime adapters, integration types
 agent-frontmatter:end */
 
@@ -13,4 +14,5 @@ agent-frontmatter:end */
 // Use granular imports for specific adapters:
 // - agentstart/integration/next
 // - agentstart/integration/node
+// - agentstart/integration/mcp
 
@@ -0,0 +1,414 @@
+/* agent-frontmatter:start
+AGENT: MCP server integration
+PURPOSE: Expose an Agent Start instance to MCP clients over stdio and streamable HTTP
+USAGE: await serveMCPStdio(start) or http.createServer(toMCPNodeHandler(start))
+EXPORTS: createMCPServer, serveMCPStdio, toMCPNodeHandler, MCPServerOptions
+FEATURES:
+  - Thread tools: create, list, read messages, send a message and stream the reply
+  - Sandbox file tree exposed as sandbox://<threadId>/<path> resources
+  - Streams reply text as MCP progress notifications
+  - Routes every call through the API so getUserId and middleware apply
+SEARCHABLE: mcp server, model context protocol, stdio server, streamable http, agent integration
+agent-frontmatter:end */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { generateId } from "@agentstart/utils";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import {
+  CallToolRequestSchema,
+  type CallToolResult,
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { UIMessageChunk } from "ai";
+import z from "zod";
+import type { AgentStart } from "@/start";
+
+const SANDBOX_URI_PREFIX = "sandbox://";
+
+export interface MCPServerOptions {
+  /**
+   * Server name reported to MCP clients
+   * @default "agentstart"
+   */
+  name?: string;
+  version?: string;
+  /**
+   * Headers passed to getUserId and middleware. Stdio sessions have no
+   * request of their own, so put credentials here (e.g. an API token).
+   */
+  headers?: HeadersInit;
+}
+
+const toolInputSchemas = {
+  thread_create: z.object({
+    title: z.string().optional().describe("Title of the new thread"),
+    visibility: z
+      .enum(["public", "private"])
+      .optional()
+      .describe("Thread visibility (default: private)"),
+  }),
+  thread_list: z.object({
+    cursor: z
+      .string()
+      .optional()
+      .describe("pageInfo.nextCursor of the previous page"),
+    page: z.number().int().min(1).optional().describe("Page number"),
+    pageSize: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .optional()
+      .describe("Threads per page"),
+  }),
+  thread_messages: z.object({
+    threadId: z.string().describe("The thread to read"),
+  }),
+  thread_send_message: z.object({
+    threadId: z.string().describe("The thread to send the message to"),
+    message: z.string().min(1).describe("The user message for the agent"),
+    modelId: z.string().optional().describe("Optional model override"),
+  }),
+};
+
+type ToolName = keyof typeof toolInputSchemas;
+
+const toolDescriptions: Record<ToolName, string> = {
+  thread_create: "Create a new agent thread and return its id.",
+  thread_list: "List the threads owned by the current user.",
+  thread_messages: "Return the message history of a thread as text.",
+  thread_send_message:
+    "Send a message to the agent in a thread and return its reply. The reply is streamed as progress notifications while the agent works.",
+};
+
+function textResult(text: string, structured?: unknown): CallToolResult {
+  return {
+    content: [{ type: "text", text }],
+    ...(structured
+      ? { structuredContent: structured as Record<string, unknown> }
+      : {}),
+  };
+}
+
+function toErrorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function toSandboxUri(threadId: string, path: string) {
+  return `${SANDBOX_URI_PREFIX}${threadId}/${path.replace(/^\/+/, "")}`;
+}
+
+function parseSandboxUri(uri: string) {
+  if (!uri.startsWith(SANDBOX_URI_PREFIX)) {
+    return null;
+  }
+  const rest = uri.slice(SANDBOX_URI_PREFIX.length);
+  const slash = rest.indexOf("/");
+  const threadId = slash === -1 ? rest : rest.slice(0, slash);
+  const path = slash === -1 ? "/" : `/${decodeURI(rest.slice(slash + 1))}`;
+  return threadId ? { threadId, path } : null;
+}
+
+/**
+ * Create an MCP server bound to an Agent Start instance.
+ * Connect it to any MCP transport; serveMCPStdio and toMCPNodeHandler
+ * cover the common cases.
+ */
+export function createMCPServer(
+  start: AgentStart,
+  options: MCPServerOptions = {},
+) {
+  const hasSandbox = Boolean(start.options.sandbox);
+  const callOptions = (signal?: AbortSignal) => ({
+    context: { headers: new Headers(options.headers) },
+    signal,
+  });
+
+  const server = new Server(
+    { name: options.name ?? "agentstart", version: options.version ?? "1.0.0" },
+    {
+      capabilities: {
+        tools: {},
+        ...(hasSandbox ? { resources: {} } : {}),
+      },
+    },
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: Object.entries(toolInputSchemas).map(([name, schema]) => ({
+      name,
+      description: toolDescriptions[name as ToolName],
+      inputSchema: z.toJSONSchema(schema) as {
+        type: "object";
+        [key: string]: unknown;
+      },
+    })),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const name = request.params.name as ToolName;
+    const schema = toolInputSchemas[name];
+    if (!schema) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+    }
+
+    const parsed = schema.safeParse(request.params.arguments ?? {});
+    if (!parsed.success) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid arguments for ${name}: ${z.prettifyError(parsed.error)}`,
+      );
+    }
+
+    try {
+      switch (name) {
+        case "thread_create": {
+          const input = parsed.data as z.infer<
+            (typeof toolInputSchemas)["thread_create"]
+          >;
+          const { threadId, thread } = await start.api.thread.create(
+            input,
+            callOptions(extra.signal),
+          );
+          return textResult(`Created thread ${threadId}`, {
+            threadId,
+            title: thread.title,
+          });
+        }
+        case "thread_list": {
+          const input = parsed.data as z.infer<
+            (typeof toolInputSchemas)["thread_list"]
+          >;
+          const { threads, pageInfo } = await start.api.thread.list(
+            input,
+            callOptions(extra.signal),
+          );
+          const lines = threads.map(
+            (thread) => `- ${thread.id}: ${thread.title ?? "Untitled"}`,
+          );
+          return textResult(
+            lines.length > 0 ? lines.join("\n") : "No threads found.",
+            {
+              threads: threads.map((thread) => ({
+                id: thread.id,
+                title: thread.title,
+                updatedAt: thread.updatedAt,
+              })),
+              pageInfo,
+            },
+          );
+        }
+        case "thread_messages": {
+          const input = parsed.data as z.infer<
+            (typeof toolInputSchemas)["thread_messages"]
+          >;
+          const { messages } = await start.api.thread.loadMessages(
+            input,
+            callOptions(extra.signal),
+          );
+          const transcript = messages
+            .map((message) => {
+              const text = message.parts
+                .map((part) => (part.type === "text" ? part.text : ""))
+                .filter(Boolean)
+                .join("\n");
+              return text ? `${message.role}: ${text}` : "";
+            })
+            .filter(Boolean)
+            .join("\n\n");
+          return textResult(transcript || "No messages yet.");
+        }
+        case "thread_send_message": {
+          const input = parsed.data as z.infer<
+            (typeof toolInputSchemas)["thread_send_message"]
+          >;
+          const progressToken = request.params._meta?.progressToken;
+          const stream = await start.api.thread.stream(
+            {
+              threadId: input.threadId,
+              modelId: input.modelId,
+              message: {
+                id: generateId(),
+                role: "user",
+                parts: [{ type: "text", text: input.message }],
+                metadata: { createdAt: Date.now() },
+              },
+            },
+            callOptions(extra.signal),
+          );
+
+          let reply = "";
+          let progress = 0;
+          const toolCalls: string[] = [];
+          for await (const chunk of stream as AsyncIterable<UIMessageChunk>) {
+            if (chunk.type === "text-delta") {
+              reply += chunk.delta;
+              if (progressToken !== undefined) {
+                progress += 1;
+                await extra.sendNotification({
+                  method: "notifications/progress",
+                  params: { progressToken, progress, message: chunk.delta },
+                });
+              }
+            } else if (chunk.type === "tool-input-available") {
+              toolCalls.push(chunk.toolName);
+            } else if (chunk.type === "error") {
+              throw new Error(chunk.errorText);
+            }
+          }
+
+          return textResult(reply.trim() || "The agent did not reply.", {
+            reply: reply.trim(),
+            toolCalls,
+          });
+        }
+      }
+    } catch (error) {
+      return {
+        isError: true,
+        content: [{ type: "text", text: toErrorMessage(error) }],
+      };
+    }
+  });
+
+  if (hasSandbox) {
+    server.setRequestHandler(ListResourcesRequestSchema, async (_, extra) => {
+      const { threads } = await start.api.thread.list(
+        {},
+        callOptions(extra.signal),
+      );
+      return {
+        resources: threads.map((thread) => ({
+          uri: toSandboxUri(thread.id, "/"),
+          name: `${thread.title ?? thread.id} files`,
+          description: `Sandbox file tree of thread ${thread.id}`,
+          mimeType: "application/json",
+        })),
+      };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: [
+        {
+          uriTemplate: `${SANDBOX_URI_PREFIX}{threadId}/{+path}`,
+          name: "Sandbox file",
+          description:
+            "A file or directory in a thread's sandbox. Directory URIs end with a slash and return a JSON listing.",
+        },
+      ],
+    }));
+
+    server.setRequestHandler(
+      ReadResourceRequestSchema,
+      async (request, extra) => {
+        const { uri } = request.params;
+        const target = parseSandboxUri(uri);
+        if (!target) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Unsupported resource URI: ${uri}`,
+          );
+        }
+
+        try {
+          if (target.path.endsWith("/")) {
+            const entries = await start.api.sandbox.list(
+              { path: target.path, threadId: target.threadId },
+              callOptions(extra.signal),
+            );
+            const listing = entries.map((entry) => ({
+              name: entry.name,
+              uri: toSandboxUri(
+                target.threadId,
+                entry.isDirectory ? `${entry.path}/` : entry.path,
+              ),
+              type: entry.isDirectory ? "directory" : "file",
+            }));
+            return {
+              contents: [
+                {
+                  uri,
+                  mimeType: "application/json",
+                  text: JSON.stringify(listing, null, 2),
+                },
+              ],
+            };
+          }
+
+          const { content } = await start.api.sandbox.download(
+            { path: target.path, threadId: target.threadId },
+            callOptions(extra.signal),
+          );
+          return { contents: [{ uri, mimeType: "text/plain", text: content }] };
+        } catch (error) {
+          throw new McpError(ErrorCode.InternalError, toErrorMessage(error));
+        }
+      },
+    );
+  }
+
+  return server;
+}
+
+/**
+ * Serve an Agent Start instance over stdio, e.g. as a command in an IDE's
+ * MCP configuration.
+ */
+export async function serveMCPStdio(
+  start: AgentStart,
+  options?: MCPServerOptions,
+) {
+  const server = createMCPServer(start, options);
+  await server.connect(new StdioServerTransport());
+  return server;
+}
+
+/**
+ * Adapt an Agent Start instance to a Node.js HTTP handler speaking the MCP
+ * streamable HTTP transport. Each request is served statelessly, and its
+ * headers are what getUserId and middleware see.
+ */
+export function toMCPNodeHandler(
+  start: AgentStart,
+  options?: Omit<MCPServerOptions, "headers">,
+) {
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    try {
+      const headers = new Headers();
+      for (const [key, value] of Object.entries(req.headers)) {
+        if (value === undefined) continue;
+        for (const item of Array.isArray(value) ? value : [value]) {
+          headers.append(key, item);
+        }
+      }
+
+      const server = createMCPServer(start, { ...options, headers });
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: undefined,
+      });
+      res.on("close", () => {
+        void transport.close();
+        void server.close();
+      });
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res);
+    } catch (error) {
+      console.error("Error in toMCPNodeHandler:", error);
+      if (!res.headersSent) {
+        res.statusCode = 500;
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify({ error: "Internal Server Error" }));
+      } else {
+        res.end();
+      }
+    }
+  };
+}
@@ -8,22 +8,74 @@ FEATURES:
   - Binds request-specific context for router execution
   - Provides a server-side API client via getApi
   - Supports user-defined middleware injection
+  - Connects to configured MCP servers at startup
+  - Serves files of adapters that store blobs locally under `${basePath}/blob/files/`
+  - Accepts presigned direct uploads to those adapters on the same route
+  - Proxies previews of declared sandbox ports under `${basePath}/sandbox/preview/`
 SEARCHABLE: agent runtime, orpc handler, server api
 agent-frontmatter:end */
 
+import { getBlob } from "@agentstart/blob";
 import type { AgentStartOptions } from "@agentstart/types";
 import { RPCHandler } from "@orpc/server/fetch";
+import { getMCPTools } from "@/agent/mcp";
 import type { Context, CreateContextOptions } from "@/api";
 import { createAppRouter, createContext } from "@/api";
 import { getApi } from "@/api/get-api";
+import {
+  handleSandboxPreview,
+  SANDBOX_PREVIEW_SEGMENT,
+} from "@/api/utils/sandbox-preview";
 
 export function agentStart(options: AgentStartOptions) {
   const context = { current: null as Context | null };
 
+  // Discover MCP tools up front so the first run does not wait for servers
+  void getMCPTools(options.mcpServers);
+
   return {
     handler: async (request: Request) => {
       const basePath = options.basePath ?? ("/api/agent" as const);
 
+      // Blob adapters without their own storage URLs serve files through here
+      // and receive presigned uploads as PUT requests
+      const filesPrefix = `${basePath}/blob/files/`;
+      const { pathname } = new URL(request.url);
+      if (
+        ["GET", "HEAD", "PUT"].includes(request.method) &&
+        pathname.startsWith(filesPrefix)
+      ) {
+        const blob = await getBlob(options);
+        if (!blob?.serve) {
+          return new Response("Not found", { status: 404 });
+        }
+        let blobPathname: string;
+        try {
+          blobPathname = decodeURIComponent(pathname.slice(filesPrefix.length));
+        } catch {
+          return new Response("Bad request", { status: 400 });
+        }
+        return blob.serve(blobPathname, request);
+      }
+
+      const contextOptions: CreateContextOptions = {
+        headers: new Headers(request.headers),
+        ...options,
+        // HTTP requests never reach server-only procedures
+        isServer: false,
+      };
+
+      // Previews of sandbox dev servers load in iframes, outside of oRPC
+      const previewPrefix = `${basePath}/${SANDBOX_PREVIEW_SEGMENT}`;
+      if (options.sandbox && pathname.startsWith(previewPrefix)) {
+        return handleSandboxPreview(
+          request,
+          createContext(contextOptions),
+          previewPrefix,
+          options.middleware,
+        );
+      }
+
       const router = await createAppRouter({
         middleware: options.middleware,
         enabledRouters: {
@@ -36,11 +88,6 @@ export function agentStart(options: AgentStartOptions) {
       });
       const rpcHandler = new RPCHandler(router);
 
-      const contextOptions: CreateContextOptions = {
-        headers: new Headers(request.headers),
-        ...options,
-      };
-
       context.current = createContext(contextOptions);
 
       const { response } = await rpcHandler.handle(request, {
@@ -19,6 +19,7 @@ export default defineConfig({
     "./src/blob/index.ts",
     "./src/blob/vercel.ts",
     "./src/blob/s3.ts",
+    "./src/blob/local.ts",
     "./src/client/index.ts",
     "./src/memory/index.ts",
     "./src/memory/drizzle.ts",
@@ -34,6 +35,7 @@ export default defineConfig({
     "./src/integration/index.ts",
     "./src/integration/nextjs.ts",
     "./src/integration/nodejs.ts",
+    "./src/integration/mcp.ts",
     "./src/sandbox/index.ts",
     "./src/sandbox/nodejs.ts",
     "./src/sandbox/e2b.ts",
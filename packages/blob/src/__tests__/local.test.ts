@@ -0,0 +1,362 @@
+/* agent-frontmatter:start
+AGENT: Local blob adapter tests
+PURPOSE: Verify the filesystem blob adapter against a temporary directory
+USAGE: Run with vitest; every test gets a fresh blob root
+EXPORTS: none
+FEATURES:
+  - Covers put, head, copy, del and cursor/folded listing
+  - Assembles multipart uploads from staged parts
+  - Completes multipart uploads only at the key they were started for
+  - Serves blobs with content types, HEAD and byte ranges
+  - Sandboxes served blobs and downloads anything but passive types
+  - Requires valid, unexpired signatures for private blobs
+  - Accepts presigned PUT uploads of whole blobs and multipart parts
+SEARCHABLE: local blob test, filesystem blob test, blob range request test
+agent-frontmatter:end */
+
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { BlobAdapter } from "@agentstart/types";
+import type { ListFoldedBlobResult } from "@vercel/blob";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { localBlobAdapter } from "../adapters/local";
+
+type MultipartUploader = {
+  uploadPart(
+    partNumber: number,
+    body: unknown,
+  ): Promise<{ etag: string; partNumber: number }>;
+  complete(
+    parts: { etag: string; partNumber: number }[],
+  ): Promise<{ contentType: string }>;
+};
+
+const BASE_URL = "http://localhost:3000/api/agent/blob/files";
+
+describe("localBlobAdapter", () => {
+  let root: string;
+  let blob: BlobAdapter;
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(tmpdir(), "agentstart-blob-"));
+    blob = await localBlobAdapter({ root, publicBaseURL: BASE_URL })(
+      {} as never,
+    );
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("stores blobs and reports their metadata", async () => {
+    const result = await blob.put("docs/read me.txt", "hello", {
+      access: "public",
+    });
+
+    expect(result).toMatchObject({
+      pathname: "docs/read me.txt",
+      url: `${BASE_URL}/docs/read%20me.txt`,
+      downloadUrl: `${BASE_URL}/docs/read%20me.txt?download=1`,
+      contentType: "text/plain",
+    });
+    await expect(blob.head(result.url)).resolves.toMatchObject({
+      pathname: "docs/read me.txt",
+      size: 5,
+      contentType: "text/plain",
+    });
+    await expect(
+      blob.put("docs/read me.txt", "again", { access: "public" }),
+    ).rejects.toThrow("Blob already exists");
+    await expect(blob.put("../escape.txt", "x")).rejects.toThrow(
+      "invalid pathname",
+    );
+  });
+
+  it("adds random suffixes, copies and deletes blobs", async () => {
+    const uploaded = await blob.put("image.png", Buffer.from([1, 2, 3]), {
+      access: "public",
+      addRandomSuffix: true,
+    });
+    expect(uploaded.pathname).toMatch(/^image-[a-f0-9]+\.png$/);
+
+    const copied = await blob.copy({
+      source: uploaded.url,
+      target: "copies/image.png",
+      access: "public",
+    } as never);
+    expect(copied.contentType).toBe("image/png");
+
+    await blob.del([uploaded.url, "copies/image.png"]);
+    await expect(blob.head(uploaded.pathname)).rejects.toThrow(
+      "Blob not found",
+    );
+    await expect(blob.head("copies/image.png")).rejects.toThrow(
+      "Blob not found",
+    );
+  });
+
+  it("lists blobs with cursors and folded folders", async () => {
+    for (const pathname of ["a.txt", "b.txt", "c.txt", "nested/d.txt"]) {
+      await blob.put(pathname, pathname, { access: "public" });
+    }
+
+    const first = await blob.list({ limit: 2 });
+    expect(first.blobs.map((item) => item.pathname)).toEqual([
+      "a.txt",
+      "b.txt",
+    ]);
+    expect(first.hasMore).toBe(true);
+
+    const second = await blob.list({ limit: 2, cursor: first.cursor });
+    expect(second.blobs.map((item) => item.pathname)).toEqual([
+      "c.txt",
+      "nested/d.txt",
+    ]);
+    expect(second.hasMore).toBe(false);
+    expect(second.cursor).toBeUndefined();
+
+    const folded = (await blob.list({
+      mode: "folded",
+    } as never)) as ListFoldedBlobResult;
+    expect(folded.blobs).toHaveLength(3);
+    expect(folded.folders).toEqual(["nested/"]);
+
+    const prefixed = await blob.list({ prefix: "nested/" });
+    expect(prefixed.blobs.map((item) => item.pathname)).toEqual([
+      "nested/d.txt",
+    ]);
+  });
+
+  it("assembles multipart uploads", async () => {
+    const uploader = (await blob.createMultipartUploader("video.mp4", {
+      access: "public",
+    })) as MultipartUploader;
+    const parts = [
+      await uploader.uploadPart(2, "world"),
+      await uploader.uploadPart(1, "hello "),
+    ];
+
+    const result = await uploader.complete(parts);
+    expect(result.contentType).toBe("video/mp4");
+
+    const response = await blob.serve?.(
+      "video.mp4",
+      new Request(`${BASE_URL}/video.mp4`),
+    );
+    await expect(response?.text()).resolves.toBe("hello world");
+
+    const { key, uploadId } = await blob.createMultipartUpload("other.bin", {
+      access: "public",
+    });
+    const part = await blob.uploadPart("other.bin", "data", {
+      access: "public",
+      key,
+      uploadId,
+      partNumber: 1,
+    });
+    await expect(
+      blob.completeMultipartUpload("other.bin", [{ ...part, etag: "wrong" }], {
+        access: "public",
+        key,
+        uploadId,
+      }),
+    ).rejects.toThrow();
+    await expect(
+      blob.completeMultipartUpload("other.bin", [part], {
+        access: "public",
+        key: "users/user_2/other.bin",
+        uploadId,
+      }),
+    ).rejects.toThrow('was not started for "users/user_2/other.bin"');
+    await expect(blob.head("users/user_2/other.bin")).rejects.toThrow();
+
+    await blob.completeMultipartUpload("users/user_2/other.bin", [part], {
+      access: "public",
+      key,
+      uploadId,
+    });
+    await expect(blob.head("other.bin")).resolves.toMatchObject({ size: 4 });
+  });
+
+  it("serves blobs with content types and byte ranges", async () => {
+    await blob.put("notes.md", "0123456789", { access: "public" });
+    const url = `${BASE_URL}/notes.md`;
+
+    const full = await blob.serve?.("notes.md", new Request(url));
+    expect(full?.status).toBe(200);
+    expect(full?.headers.get("content-type")).toBe("text/markdown");
+    expect(full?.headers.get("accept-ranges")).toBe("bytes");
+    expect(full?.headers.get("content-disposition")).toMatch(/^attachment/);
+    await expect(full?.text()).resolves.toBe("0123456789");
+
+    const partial = await blob.serve?.(
+      "notes.md",
+      new Request(url, { headers: { range: "bytes=2-5" } }),
+    );
+    expect(partial?.status).toBe(206);
+    expect(partial?.headers.get("content-range")).toBe("bytes 2-5/10");
+    await expect(partial?.text()).resolves.toBe("2345");
+
+    const suffix = await blob.serve?.(
+      "notes.md",
+      new Request(url, { headers: { range: "bytes=-3" } }),
+    );
+    await expect(suffix?.text()).resolves.toBe("789");
+
+    const unsatisfiable = await blob.serve?.(
+      "notes.md",
+      new Request(url, { headers: { range: "bytes=20-" } }),
+    );
+    expect(unsatisfiable?.status).toBe(416);
+    expect(unsatisfiable?.headers.get("content-range")).toBe("bytes */10");
+
+    const headOnly = await blob.serve?.(
+      "notes.md",
+      new Request(url, { method: "HEAD" }),
+    );
+    expect(headOnly?.headers.get("content-length")).toBe("10");
+    await expect(headOnly?.text()).resolves.toBe("");
+
+    const download = await blob.serve?.(
+      "notes.md",
+      new Request(`${url}?download=1`),
+    );
+    expect(download?.headers.get("content-disposition")).toMatch(/^attachment/);
+
+    const missing = await blob.serve?.("missing.md", new Request(url));
+    expect(missing?.status).toBe(404);
+  });
+
+  it("only shows passive content inline and sandboxes everything", async () => {
+    await blob.put("photo.png", "png", { access: "public" });
+    await blob.put("page.html", "<script>alert(1)</script>", {
+      access: "public",
+      contentType: "text/html",
+    });
+
+    const image = await blob.serve?.(
+      "photo.png",
+      new Request(`${BASE_URL}/photo.png`),
+    );
+    const page = await blob.serve?.(
+      "page.html",
+      new Request(`${BASE_URL}/page.html`),
+    );
+
+    expect(image?.headers.get("content-disposition")).toMatch(/^inline/);
+    expect(page?.headers.get("content-disposition")).toMatch(/^attachment/);
+    expect(page?.headers.get("content-security-policy")).toBe("sandbox");
+    expect(image?.headers.get("content-security-policy")).toBe("sandbox");
+  });
+
+  it("serves private blobs only through signed URLs", async () => {
+    const privateBlob = await localBlobAdapter({
+      root,
+      publicBaseURL: BASE_URL,
+      access: "private",
+      secret: "test-secret",
+    })({} as never);
+    const stored = await privateBlob.put("secret.txt", "classified", {
+      access: "public",
+    });
+
+    expect(privateBlob.getAccess?.()).toBe("private");
+    const unsigned = await privateBlob.serve?.(
+      "secret.txt",
+      new Request(stored.url),
+    );
+    expect(unsigned?.status).toBe(403);
+
+    const signedUrl = await privateBlob.getSignedUrl?.("secret.txt", {
+      download: true,
+    });
+    const signed = await privateBlob.serve?.(
+      "secret.txt",
+      new Request(signedUrl ?? ""),
+    );
+    expect(signed?.status).toBe(200);
+    expect(signed?.headers.get("cache-control")).toMatch(/^private/);
+    expect(signed?.headers.get("content-disposition")).toMatch(/^attachment/);
+    await expect(signed?.text()).resolves.toBe("classified");
+
+    const tampered = new URL(signedUrl ?? "");
+    tampered.searchParams.set("expires", "9999999999");
+    const forged = await privateBlob.serve?.(
+      "secret.txt",
+      new Request(tampered),
+    );
+    expect(forged?.status).toBe(403);
+
+    const expiredUrl = await privateBlob.getSignedUrl?.("secret.txt", {
+      expiresIn: -1,
+    });
+    const expired = await privateBlob.serve?.(
+      "secret.txt",
+      new Request(expiredUrl ?? ""),
+    );
+    expect(expired?.status).toBe(403);
+  });
+
+  it("accepts presigned uploads", async () => {
+    const target = await blob.createUploadUrl?.("direct/report.pdf", {
+      contentType: "application/pdf",
+    });
+    expect(target?.headers).toEqual({ "content-type": "application/pdf" });
+
+    const upload = await blob.serve?.(
+      "direct/report.pdf",
+      new Request(target?.url ?? "", {
+        method: "PUT",
+        headers: target?.headers,
+        body: "%PDF-1.7",
+      }),
+    );
+    expect(upload?.status).toBe(201);
+    await expect(blob.head("direct/report.pdf")).resolves.toMatchObject({
+      size: 8,
+      contentType: "application/pdf",
+    });
+
+    const forged = new URL(target?.url ?? "");
+    forged.pathname = forged.pathname.replace("report", "other");
+    const rejected = await blob.serve?.(
+      "direct/other.pdf",
+      new Request(forged, { method: "PUT", body: "x" }),
+    );
+    expect(rejected?.status).toBe(403);
+  });
+
+  it("assembles multipart uploads from presigned parts", async () => {
+    const { key, uploadId } = await blob.createMultipartUpload("big.bin", {
+      access: "public",
+    });
+    const parts = [];
+    for (const [index, chunk] of ["first-", "second"].entries()) {
+      const target = await blob.createUploadUrl?.("big.bin", {
+        part: { key, uploadId, partNumber: index + 1 },
+      });
+      const response = await blob.serve?.(
+        key,
+        new Request(target?.url ?? "", { method: "PUT", body: chunk }),
+      );
+      expect(response?.status).toBe(200);
+      parts.push({
+        partNumber: index + 1,
+        etag: response?.headers.get("etag") ?? "",
+      });
+    }
+
+    await blob.completeMultipartUpload("big.bin", parts, {
+      access: "public",
+      key,
+      uploadId,
+    });
+
+    const response = await blob.serve?.(
+      "big.bin",
+      new Request(`${BASE_URL}/big.bin`),
+    );
+    await expect(response?.text()).resolves.toBe("first-second");
+  });
+});
@@ -0,0 +1,136 @@
+/* agent-frontmatter:start
+AGENT: S3 blob adapter tests
+PURPOSE: Verify presigned uploads and multipart uploads against a mocked S3 API
+USAGE: Run with vitest; stubs global fetch with canned S3 responses
+EXPORTS: none
+FEATURES:
+  - Presigns whole-object and part uploads with the headers they must send
+  - Keeps objects private for private adapters
+  - Runs multipart uploads through initiate, upload part and complete calls
+  - Refuses to complete multipart uploads at a key other than their pathname's
+SEARCHABLE: s3 blob test, presigned upload test, multipart upload test
+agent-frontmatter:end */
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createS3BlobAdapter } from "../providers/s3";
+
+function createAdapter(access?: "public" | "private") {
+  return createS3BlobAdapter(
+    { access },
+    {
+      provider: "awsS3",
+      credentials: { accessKeyId: "AKIA", secretAccessKey: "secret" },
+      bucket: "uploads",
+      region: "us-east-1",
+    },
+  );
+}
+
+describe("createS3BlobAdapter", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("presigns uploads with the headers the browser must send", async () => {
+    const adapter = createAdapter("private");
+
+    const target = await adapter.createUploadUrl?.("users/u1/a.txt", {
+      contentType: "text/plain",
+      expiresIn: 300,
+    });
+
+    expect(target?.method).toBe("PUT");
+    expect(target?.headers).toEqual({
+      "content-type": "text/plain",
+      "x-amz-acl": "private",
+    });
+    const url = new URL(target?.url ?? "");
+    expect(url.hostname).toBe("uploads.s3.us-east-1.amazonaws.com");
+    expect(url.pathname).toBe("/users/u1/a.txt");
+    expect(url.searchParams.get("X-Amz-Expires")).toBe("300");
+    expect(url.searchParams.get("X-Amz-SignedHeaders")).toContain("x-amz-acl");
+    expect(url.searchParams.get("X-Amz-Signature")).toBeTruthy();
+
+    const part = await adapter.createUploadUrl?.("users/u1/a.txt", {
+      part: { key: "users/u1/a.txt", uploadId: "up-1", partNumber: 2 },
+    });
+    const partUrl = new URL(part?.url ?? "");
+    expect(part?.headers).toEqual({});
+    expect(partUrl.searchParams.get("partNumber")).toBe("2");
+    expect(partUrl.searchParams.get("uploadId")).toBe("up-1");
+  });
+
+  it("runs multipart uploads through the S3 API", async () => {
+    const requests: { method: string; url: URL; body?: string }[] = [];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (input: Request) => {
+        const url = new URL(input.url);
+        requests.push({
+          method: input.method,
+          url,
+          body: input.method === "POST" ? await input.text() : undefined,
+        });
+        if (input.method === "POST" && url.searchParams.has("uploads")) {
+          return new Response(
+            "<InitiateMultipartUploadResult><UploadId>up-1</UploadId></InitiateMultipartUploadResult>",
+          );
+        }
+        if (input.method === "PUT") {
+          return new Response(null, {
+            headers: { etag: `"etag-${url.searchParams.get("partNumber")}"` },
+          });
+        }
+        if (input.method === "HEAD") {
+          return new Response(null, {
+            headers: { "content-type": "video/mp4", "content-length": "10" },
+          });
+        }
+        return new Response("<CompleteMultipartUploadResult/>");
+      }),
+    );
+    const adapter = createAdapter();
+
+    const { key, uploadId } = await adapter.createMultipartUpload("v.mp4", {
+      access: "public",
+      contentType: "video/mp4",
+    });
+    const part = await adapter.uploadPart("v.mp4", new Uint8Array([1, 2]), {
+      access: "public",
+      key,
+      uploadId,
+      partNumber: 1,
+    });
+    const result = await adapter.completeMultipartUpload("v.mp4", [part], {
+      access: "public",
+      key,
+      uploadId,
+    });
+
+    expect(uploadId).toBe("up-1");
+    expect(part).toEqual({ etag: '"etag-1"', partNumber: 1 });
+    expect(requests.map((request) => request.method)).toEqual([
+      "POST",
+      "PUT",
+      "POST",
+      "HEAD",
+    ]);
+    expect(requests[2]?.url.searchParams.get("uploadId")).toBe("up-1");
+    expect(requests[2]?.body).toBe(
+      "<CompleteMultipartUpload><Part><PartNumber>1</PartNumber><ETag>&quot;etag-1&quot;</ETag></Part></CompleteMultipartUpload>",
+    );
+    expect(result).toMatchObject({
+      pathname: "v.mp4",
+      contentType: "video/mp4",
+    });
+
+    await expect(
+      adapter.completeMultipartUpload("v.mp4", [part], {
+        access: "public",
+        key: "users/u2/v.mp4",
+        uploadId,
+      }),
+    ).rejects.toThrow('was not started for "users/u2/v.mp4"');
+    expect(requests).toHaveLength(4);
+  });
+});
@@ -0,0 +1,64 @@
+/* agent-frontmatter:start
+AGENT: Local blob adapter factory
+PURPOSE: Create BlobAdapterFactory for blobs stored on the local filesystem
+USAGE: blob: localBlobAdapter({ root: "./.agentstart/blobs", publicBaseURL: "http://localhost:3000/api/agent/blob/files" })
+EXPORTS: localBlobAdapter, LocalBlobConfig
+FEATURES:
+  - Returns factory function compatible with AgentStartOptions
+  - Wraps createLocalBlobAdapter with cleaner config interface
+  - Needs no external storage service for development or air-gapped installs
+  - Optional private access through signed, expiring URLs
+SEARCHABLE: local blob adapter factory, filesystem blob storage, offline blob
+agent-frontmatter:end */
+
+import type {
+  AgentStartOptions,
+  BlobAccess,
+  BlobAdapter,
+  BlobAdapterFactory,
+  BlobConstraints,
+} from "@agentstart/types";
+import { createLocalBlobAdapter } from "../providers/local";
+
+export interface LocalBlobConfig {
+  /**
+   * Directory blobs are stored in. Created on first upload.
+   */
+  root: string;
+  /**
+   * Absolute URL of the blob route mounted by `agentStart()`,
+   * i.e. `${origin}${basePath}/blob/files`.
+   */
+  publicBaseURL: string;
+  /**
+   * Constraints enforced before blob requests are dispatched.
+   */
+  constraints?: BlobConstraints;
+  /**
+   * Who can read uploads. Private blobs are only served for requests
+   * carrying a valid signed token (defaults to public).
+   */
+  access?: BlobAccess;
+  /**
+   * Key used to sign URLs of private blobs. Set it when running several
+   * server instances or to keep signed URLs valid across restarts.
+   */
+  secret?: string;
+}
+
+export function localBlobAdapter(config: LocalBlobConfig): BlobAdapterFactory {
+  return (_options: AgentStartOptions): BlobAdapter => {
+    return createLocalBlobAdapter(
+      {
+        constraints: config.constraints,
+        access: config.access,
+      },
+      {
+        provider: "local",
+        root: config.root,
+        publicBaseURL: config.publicBaseURL,
+        secret: config.secret,
+      },
+    );
+  };
+}
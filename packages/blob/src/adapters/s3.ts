@@ -7,11 +7,13 @@ FEATURES:
   - Returns factory function compatible with AgentStartOptions
   - Wraps createS3BlobAdapter with cleaner config interface
   - Supports both AWS S3 and Cloudflare R2
+  - Stores private objects read through presigned URLs
 SEARCHABLE: s3 blob adapter factory, r2 blob adapter factory, blob storage
 agent-frontmatter:end */
 
 import type {
   AgentStartOptions,
+  BlobAccess,
   BlobAdapter,
   BlobAdapterFactory,
   BlobConstraints,
@@ -57,6 +59,11 @@ interface S3BlobConfigBase {
    * Constraints enforced before blob requests are dispatched
    */
   constraints?: BlobConstraints;
+  /**
+   * Who can read uploads. Private objects are only reachable through
+   * presigned URLs (defaults to public)
+   */
+  access?: BlobAccess;
 }
 
 export interface S3BlobConfig extends S3BlobConfigBase {
@@ -75,6 +82,7 @@ export function s3BlobAdapter(config: S3BlobConfig): BlobAdapterFactory {
     return createS3BlobAdapter(
       {
         constraints: config.constraints,
+        access: config.access,
       },
       {
         provider: "awsS3",
@@ -103,6 +111,7 @@ export function r2BlobAdapter(config: R2BlobConfig): BlobAdapterFactory {
     return createS3BlobAdapter(
       {
         constraints: config.constraints,
+        access: config.access,
       },
       {
         provider: "cloudflareR2",
@@ -6,7 +6,7 @@ EXPORTS: getBlob utility, BlobAdapter types
 FEATURES:
   - Unified blob storage abstraction
   - Type-safe configuration
-  - For adapters, use granular imports: @agentstart/blob/vercel, @agentstart/blob/s3
+  - For adapters, use granular imports: @agentstart/blob/vercel, @agentstart/blob/s3, @agentstart/blob/local
 SEARCHABLE: blob storage, file upload, storage types
 agent-frontmatter:end */
 
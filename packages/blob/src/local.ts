@@ -0,0 +1,13 @@
+/* agent-frontmatter:start
+AGENT: Local blob adapter export
+PURPOSE: Export the local filesystem blob storage adapter
+USAGE: import { localBlobAdapter } from "@agentstart/blob/local"
+EXPORTS: localBlobAdapter, createLocalBlobAdapter, LocalBlobConfig
+FEATURES:
+  - Stores blobs in a directory on the server
+  - Served through the blob route of agentStart() with range requests
+SEARCHABLE: local blob, filesystem storage, offline blob, self-hosted blob
+agent-frontmatter:end */
+
+export { type LocalBlobConfig, localBlobAdapter } from "./adapters/local";
+export { createLocalBlobAdapter } from "./providers/local";
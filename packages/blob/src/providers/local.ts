@@ -0,0 +1,711 @@
+/* agent-frontmatter:start
+AGENT: Local filesystem blob adapter
+PURPOSE: Provide BlobAdapter implementation that stores blobs in a local directory
+USAGE: Resolved internally when BlobOptions.provider is local
+EXPORTS: createLocalBlobAdapter
+FEATURES:
+  - Stores blobs as plain files with JSON sidecars for content metadata
+  - Lists blobs in pathname order with opaque cursors and folded folders
+  - Copies blobs and assembles multipart uploads from staged parts
+  - Completes multipart uploads at the key they were started for
+  - Serves blobs over HTTP with range requests and content types
+  - Sandboxes served blobs and only shows passive images and PDFs inline
+  - Signs expiring URLs for private blobs and rejects unsigned requests
+  - Accepts presigned PUT uploads of whole blobs or multipart parts
+SEARCHABLE: local blob adapter, filesystem storage, offline blob, self-hosted blob
+agent-frontmatter:end */
+
+import {
+  createHash,
+  createHmac,
+  randomBytes,
+  randomUUID,
+  timingSafeEqual,
+} from "node:crypto";
+import { createReadStream, type Dirent } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { Readable } from "node:stream";
+import type {
+  BlobAdapter,
+  BlobConstraints,
+  BlobOptions,
+  BlobProviderLocal,
+  BlobSignedUrlOptions,
+  BlobUploadUrl,
+  BlobUploadUrlOptions,
+} from "@agentstart/types";
+import type {
+  CompleteMultipartUploadCommandOptions,
+  CopyCommandOptions,
+  HeadBlobResult,
+  ListBlobResultBlob,
+  ListCommandOptions,
+  Part,
+  PutBlobResult,
+  PutCommandOptions,
+  UploadPartCommandOptions,
+} from "@vercel/blob";
+
+// Bookkeeping lives next to the blobs but is hidden from list()
+const METADATA_DIRECTORY = ".metadata";
+const UPLOADS_DIRECTORY = ".uploads";
+const UPLOAD_KEY_FILE = "key";
+const DEFAULT_LIST_LIMIT = 1000;
+const DEFAULT_SIGNED_URL_EXPIRATION = 60 * 60; // 1 hour
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".css": "text/css",
+  ".csv": "text/csv",
+  ".gif": "image/gif",
+  ".htm": "text/html",
+  ".html": "text/html",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".js": "text/javascript",
+  ".json": "application/json",
+  ".md": "text/markdown",
+  ".mp3": "audio/mpeg",
+  ".mp4": "video/mp4",
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".svg": "image/svg+xml",
+  ".txt": "text/plain",
+  ".wav": "audio/wav",
+  ".webm": "video/webm",
+  ".webp": "image/webp",
+  ".xml": "application/xml",
+  ".zip": "application/zip",
+};
+
+// Uploads are served from the app's origin, so only types that cannot run
+// scripts are shown inline; everything else is downloaded
+const INLINE_CONTENT_TYPES = new Set([
+  "image/avif",
+  "image/gif",
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "application/pdf",
+]);
+
+type BlobMetadata = {
+  contentType: string;
+  contentDisposition: string;
+  cacheControl: string;
+  uploadedAt: string;
+};
+
+function guessContentType(pathname: string) {
+  return (
+    CONTENT_TYPES[path.extname(pathname).toLowerCase()] ??
+    "application/octet-stream"
+  );
+}
+
+function normalizePathname(pathname: string) {
+  const normalized = path.posix
+    .normalize(pathname.replace(/\\/g, "/"))
+    .replace(/^\/+/, "");
+  const [firstSegment] = normalized.split("/");
+  if (
+    !normalized ||
+    normalized === "." ||
+    normalized.startsWith("..") ||
+    firstSegment === METADATA_DIRECTORY ||
+    firstSegment === UPLOADS_DIRECTORY
+  ) {
+    throw new Error(
+      `Local blob adapter received an invalid pathname: ${pathname}`,
+    );
+  }
+  return normalized;
+}
+
+function addRandomSuffix(pathname: string) {
+  const extension = path.posix.extname(pathname);
+  const base = pathname.slice(0, pathname.length - extension.length);
+  return `${base}-${randomUUID().replace(/-/g, "").slice(0, 21)}${extension}`;
+}
+
+async function readBody(body: unknown): Promise<Buffer> {
+  if (body === null || body === undefined) {
+    throw new Error(
+      "Local blob adapter expects a body but received null/undefined",
+    );
+  }
+  if (typeof body === "string") {
+    return Buffer.from(body);
+  }
+  if (Buffer.isBuffer(body)) {
+    return body;
+  }
+  if (body instanceof ArrayBuffer) {
+    return Buffer.from(body);
+  }
+  if (ArrayBuffer.isView(body)) {
+    return Buffer.from(body.buffer, body.byteOffset, body.byteLength);
+  }
+  if (typeof Blob !== "undefined" && body instanceof Blob) {
+    return Buffer.from(await body.arrayBuffer());
+  }
+  if (typeof ReadableStream !== "undefined" && body instanceof ReadableStream) {
+    return Buffer.from(await new Response(body).arrayBuffer());
+  }
+  if (body instanceof Readable) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of body) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+  throw new Error("Local blob adapter received an unsupported body type");
+}
+
+function encodePathname(pathname: string) {
+  return pathname
+    .split("/")
+    .map((segment) => encodeURIComponent(segment))
+    .join("/");
+}
+
+function isNotFound(error: unknown) {
+  return (error as NodeJS.ErrnoException | undefined)?.code === "ENOENT";
+}
+
+/**
+ * Parse a single `bytes=start-end` range. Multipart ranges are not supported
+ * and fall back to the whole file, which RFC 9110 allows.
+ */
+function parseRange(header: string | null, size: number) {
+  const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null;
+  if (!match || (!match[1] && !match[2])) {
+    return undefined;
+  }
+  if (!match[1]) {
+    const suffix = Number(match[2]);
+    return suffix > 0
+      ? { start: Math.max(size - suffix, 0), end: size - 1 }
+      : null;
+  }
+  const start = Number(match[1]);
+  const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  return start < size && start <= end ? { start, end } : null;
+}
+
+export function createLocalBlobAdapter(
+  blobOptions: BlobOptions,
+  provider: BlobProviderLocal,
+): BlobAdapter {
+  const constraints: BlobConstraints | undefined = blobOptions.constraints;
+  const root = path.resolve(provider.root);
+  const publicBaseURL = provider.publicBaseURL.replace(/\/+$/, "");
+  const access = blobOptions.access ?? "public";
+  const secret = provider.secret ?? randomBytes(32).toString("hex");
+
+  const filePath = (pathname: string) => path.join(root, pathname);
+  const metadataPath = (pathname: string) =>
+    path.join(root, METADATA_DIRECTORY, `${pathname}.json`);
+  const uploadPath = (uploadId: string, partNumber?: number) =>
+    path.join(
+      root,
+      UPLOADS_DIRECTORY,
+      path.basename(uploadId),
+      partNumber === undefined ? "" : String(partNumber),
+    );
+  const toUrl = (pathname: string) =>
+    `${publicBaseURL}/${encodePathname(pathname)}`;
+  const toDownloadUrl = (pathname: string) => `${toUrl(pathname)}?download=1`;
+  // Signatures cover every value that scopes the URL, e.g. method and part
+  const sign = (values: unknown[], expires: number) =>
+    createHmac("sha256", secret)
+      .update(JSON.stringify([...values, expires]))
+      .digest("base64url");
+
+  const signUrl = (
+    pathname: string,
+    values: unknown[],
+    expiresIn = DEFAULT_SIGNED_URL_EXPIRATION,
+  ) => {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const url = new URL(toUrl(pathname));
+    url.searchParams.set("expires", String(expires));
+    url.searchParams.set("signature", sign(values, expires));
+    return url;
+  };
+
+  const hasValidSignature = (values: unknown[], url: URL) => {
+    const expires = Number(url.searchParams.get("expires"));
+    const signature = Buffer.from(url.searchParams.get("signature") ?? "");
+    const expected = Buffer.from(sign(values, expires));
+    return (
+      Number.isFinite(expires) &&
+      expires * 1000 > Date.now() &&
+      signature.length === expected.length &&
+      timingSafeEqual(signature, expected)
+    );
+  };
+
+  const toPathname = (urlOrPathname: string) => {
+    if (urlOrPathname.startsWith(`${publicBaseURL}/`)) {
+      const url = new URL(urlOrPathname);
+      const pathname = decodeURIComponent(
+        url.pathname.slice(new URL(publicBaseURL).pathname.length),
+      );
+      return normalizePathname(pathname);
+    }
+    if (/^https?:\/\//.test(urlOrPathname)) {
+      throw new Error(
+        `Local blob adapter cannot resolve URLs outside ${publicBaseURL}`,
+      );
+    }
+    return normalizePathname(urlOrPathname);
+  };
+
+  const readMetadata = async (pathname: string): Promise<BlobMetadata> => {
+    const stat = await fs.stat(filePath(pathname));
+    if (!stat.isFile()) {
+      throw new Error(`Blob not found: ${pathname}`);
+    }
+    try {
+      return JSON.parse(
+        await fs.readFile(metadataPath(pathname), "utf8"),
+      ) as BlobMetadata;
+    } catch {
+      // Files dropped into the root by hand have no sidecar
+      return {
+        contentType: guessContentType(pathname),
+        contentDisposition: `inline; filename="${path.posix.basename(pathname)}"`,
+        cacheControl: "public, max-age=0",
+        uploadedAt: stat.mtime.toISOString(),
+      };
+    }
+  };
+
+  const head = async (urlOrPathname: string): Promise<HeadBlobResult> => {
+    const pathname = toPathname(urlOrPathname);
+    try {
+      const [stat, metadata] = await Promise.all([
+        fs.stat(filePath(pathname)),
+        readMetadata(pathname),
+      ]);
+      return {
+        size: stat.size,
+        uploadedAt: new Date(metadata.uploadedAt),
+        pathname,
+        contentType: metadata.contentType,
+        contentDisposition: metadata.contentDisposition,
+        url: toUrl(pathname),
+        downloadUrl: toDownloadUrl(pathname),
+        cacheControl: metadata.cacheControl,
+      };
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw new Error(`Blob not found: ${pathname}`);
+      }
+      throw error;
+    }
+  };
+
+  const write = async (
+    requestedPathname: string,
+    content: Buffer,
+    options?: PutCommandOptions,
+  ): Promise<PutBlobResult> => {
+    const normalized = normalizePathname(requestedPathname);
+    const pathname = options?.addRandomSuffix
+      ? addRandomSuffix(normalized)
+      : normalized;
+    const target = filePath(pathname);
+
+    if (!options?.allowOverwrite) {
+      const exists = await fs
+        .access(target)
+        .then(() => true)
+        .catch(() => false);
+      if (exists) {
+        throw new Error(
+          `Blob already exists: ${pathname}. Pass allowOverwrite or addRandomSuffix to store it.`,
+        );
+      }
+    }
+
+    const metadata: BlobMetadata = {
+      contentType: options?.contentType ?? guessContentType(pathname),
+      contentDisposition: `inline; filename="${path.posix.basename(pathname)}"`,
+      cacheControl: `${access}, max-age=${options?.cacheControlMaxAge ?? 0}`,
+      uploadedAt: new Date().toISOString(),
+    };
+
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.mkdir(path.dirname(metadataPath(pathname)), { recursive: true });
+    // Write to a temporary file first so readers never see partial blobs
+    const temporary = `${target}.${randomUUID()}.tmp`;
+    await fs.writeFile(temporary, content);
+    await fs.rename(temporary, target);
+    await fs.writeFile(metadataPath(pathname), JSON.stringify(metadata));
+
+    return {
+      url: toUrl(pathname),
+      downloadUrl: toDownloadUrl(pathname),
+      pathname,
+      contentType: metadata.contentType,
+      contentDisposition: metadata.contentDisposition,
+    };
+  };
+
+  const listPathnames = async (directory = ""): Promise<string[]> => {
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(path.join(root, directory), {
+        withFileTypes: true,
+      });
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const pathnames = await Promise.all(
+      entries.map(async (entry) => {
+        const pathname = directory ? `${directory}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          const isBookkeeping =
+            !directory &&
+            (entry.name === METADATA_DIRECTORY ||
+              entry.name === UPLOADS_DIRECTORY);
+          return isBookkeeping ? [] : listPathnames(pathname);
+        }
+        return entry.isFile() && !entry.name.endsWith(".tmp") ? [pathname] : [];
+      }),
+    );
+    return pathnames.flat();
+  };
+
+  const completeUpload = async (
+    parts: Part[],
+    options: CompleteMultipartUploadCommandOptions,
+  ) => {
+    // Uploads remember their key so callers cannot complete them elsewhere
+    const key = await fs
+      .readFile(
+        path.join(uploadPath(options.uploadId), UPLOAD_KEY_FILE),
+        "utf8",
+      )
+      .catch(() => {
+        throw new Error(`Multipart upload ${options.uploadId} does not exist`);
+      });
+    if (options.key !== key) {
+      throw new Error(
+        `Multipart upload ${options.uploadId} was not started for "${options.key}"`,
+      );
+    }
+
+    const ordered = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+    const buffers = await Promise.all(
+      ordered.map(async (part) => {
+        const content = await fs.readFile(
+          uploadPath(options.uploadId, part.partNumber),
+        );
+        const etag = createHash("md5").update(content).digest("hex");
+        if (etag !== part.etag) {
+          throw new Error(
+            `Part ${part.partNumber} of upload ${options.uploadId} does not match its etag`,
+          );
+        }
+        return content;
+      }),
+    );
+
+    const result = await write(key, Buffer.concat(buffers), {
+      ...options,
+      addRandomSuffix: false,
+    });
+    await fs.rm(uploadPath(options.uploadId), {
+      recursive: true,
+      force: true,
+    });
+    return result;
+  };
+
+  const stagePart = async (
+    uploadId: string,
+    partNumber: number,
+    body: unknown,
+  ) => {
+    const content = await readBody(body);
+    await fs.mkdir(uploadPath(uploadId), { recursive: true });
+    await fs.writeFile(uploadPath(uploadId, partNumber), content);
+    return {
+      etag: createHash("md5").update(content).digest("hex"),
+      partNumber,
+    };
+  };
+
+  const startUpload = async (pathname: string, options?: PutCommandOptions) => {
+    const normalized = normalizePathname(pathname);
+    const key = options?.addRandomSuffix
+      ? addRandomSuffix(normalized)
+      : normalized;
+    const uploadId = randomUUID();
+    await fs.mkdir(uploadPath(uploadId), { recursive: true });
+    await fs.writeFile(path.join(uploadPath(uploadId), UPLOAD_KEY_FILE), key);
+    return { key, uploadId };
+  };
+
+  const receiveUpload = async (
+    pathname: string,
+    url: URL,
+    request: Request,
+  ): Promise<Response> => {
+    const uploadId = url.searchParams.get("uploadId");
+    const partNumber = url.searchParams.has("partNumber")
+      ? Number(url.searchParams.get("partNumber"))
+      : null;
+    if (!hasValidSignature(["PUT", pathname, uploadId, partNumber], url)) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    const length = Number(request.headers.get("content-length"));
+    if (constraints?.maxFileSize && length > constraints.maxFileSize) {
+      return new Response("Payload too large", { status: 413 });
+    }
+
+    const content = Buffer.from(await request.arrayBuffer());
+    if (uploadId && partNumber !== null) {
+      const { etag } = await stagePart(uploadId, partNumber, content);
+      return new Response(null, { status: 200, headers: { etag } });
+    }
+    try {
+      await write(pathname, content, {
+        access: "public",
+        contentType: request.headers.get("content-type") ?? undefined,
+      });
+    } catch (error) {
+      return new Response(
+        error instanceof Error ? error.message : "Upload failed",
+        { status: 409 },
+      );
+    }
+    return new Response(null, {
+      status: 201,
+      headers: { etag: createHash("md5").update(content).digest("hex") },
+    });
+  };
+
+  return {
+    provider: provider.provider,
+    getConstraints: () => constraints,
+    getAccess: () => access,
+    getSignedUrl: async (
+      urlOrPathname: string,
+      options?: BlobSignedUrlOptions,
+    ) => {
+      const pathname = toPathname(urlOrPathname);
+      const url = signUrl(pathname, ["GET", pathname], options?.expiresIn);
+      if (options?.download) {
+        url.searchParams.set("download", "1");
+      }
+      return url.toString();
+    },
+    createUploadUrl: async (
+      pathname: string,
+      options?: BlobUploadUrlOptions,
+    ): Promise<BlobUploadUrl> => {
+      const part = options?.part;
+      const target = part ? normalizePathname(part.key) : toPathname(pathname);
+      const url = signUrl(
+        target,
+        ["PUT", target, part?.uploadId ?? null, part?.partNumber ?? null],
+        options?.expiresIn,
+      );
+      if (part) {
+        url.searchParams.set("uploadId", part.uploadId);
+        url.searchParams.set("partNumber", String(part.partNumber));
+      }
+      return {
+        url: url.toString(),
+        method: "PUT",
+        headers:
+          options?.contentType && !part
+            ? { "content-type": options.contentType }
+            : {},
+      };
+    },
+    put: async (pathname: string, body: unknown, options?: PutCommandOptions) =>
+      write(pathname, await readBody(body), options),
+    del: async (urlOrPathname: string | string[]) => {
+      const targets = Array.isArray(urlOrPathname)
+        ? urlOrPathname
+        : [urlOrPathname];
+      await Promise.all(
+        targets.map(async (target) => {
+          const pathname = toPathname(target);
+          await fs.rm(filePath(pathname), { force: true });
+          await fs.rm(metadataPath(pathname), { force: true });
+        }),
+      );
+    },
+    head,
+    list: async (options?: ListCommandOptions) => {
+      const prefix = options?.prefix ?? "";
+      const limit = options?.limit ?? DEFAULT_LIST_LIMIT;
+      const after = options?.cursor
+        ? Buffer.from(options.cursor, "base64url").toString("utf8")
+        : undefined;
+      const folded =
+        (options as ListCommandOptions<"folded"> | undefined)?.mode ===
+        "folded";
+
+      const folders = new Set<string>();
+      const matches: string[] = [];
+      for (const pathname of (await listPathnames()).sort()) {
+        if (!pathname.startsWith(prefix) || (after && pathname <= after)) {
+          continue;
+        }
+        const slash = pathname.indexOf("/", prefix.length);
+        if (folded && slash !== -1) {
+          folders.add(pathname.slice(0, slash + 1));
+          continue;
+        }
+        matches.push(pathname);
+      }
+
+      const page = matches.slice(0, limit);
+      const hasMore = matches.length > page.length;
+      const blobs = await Promise.all(
+        page.map(async (pathname): Promise<ListBlobResultBlob> => {
+          const [stat, metadata] = await Promise.all([
+            fs.stat(filePath(pathname)),
+            readMetadata(pathname),
+          ]);
+          return {
+            url: toUrl(pathname),
+            downloadUrl: toDownloadUrl(pathname),
+            pathname,
+            size: stat.size,
+            uploadedAt: new Date(metadata.uploadedAt),
+          };
+        }),
+      );
+
+      return {
+        blobs,
+        cursor: hasMore
+          ? Buffer.from(page.at(-1) ?? "", "utf8").toString("base64url")
+          : undefined,
+        hasMore,
+        ...(folded ? { folders: [...folders] } : {}),
+      };
+    },
+    copy: async (options: CopyCommandOptions) => {
+      const { source, target, ...rest } = options as CopyCommandOptions & {
+        source: string;
+        target: string;
+      };
+      const sourcePathname = toPathname(source);
+      const metadata = await readMetadata(sourcePathname);
+      const content = await fs.readFile(filePath(sourcePathname));
+      return write(target, content, {
+        contentType: metadata.contentType,
+        ...rest,
+      });
+    },
+    createMultipartUpload: startUpload,
+    createMultipartUploader: async (
+      pathname: string,
+      options?: PutCommandOptions,
+    ) => {
+      const { key, uploadId } = await startUpload(pathname, options);
+      return {
+        key,
+        uploadId,
+        uploadPart: (partNumber: number, body: unknown) =>
+          stagePart(uploadId, partNumber, body),
+        complete: (parts: Part[]) =>
+          completeUpload(parts, {
+            access: "public",
+            ...options,
+            key,
+            uploadId,
+          }),
+      };
+    },
+    uploadPart: async (
+      _pathname: string,
+      body: unknown,
+      options: UploadPartCommandOptions,
+    ) => stagePart(options.uploadId, options.partNumber, body),
+    completeMultipartUpload: async (
+      _pathname: string,
+      parts: Part[],
+      options: CompleteMultipartUploadCommandOptions,
+    ) => completeUpload(parts, options),
+    serve: async (urlOrPathname: string, request: Request) => {
+      let pathname: string;
+      let blob: HeadBlobResult;
+      try {
+        pathname = toPathname(urlOrPathname);
+      } catch {
+        return new Response("Not found", { status: 404 });
+      }
+
+      // Check the token first so unsigned requests cannot probe for blobs
+      const requestUrl = new URL(request.url);
+      if (request.method === "PUT") {
+        return receiveUpload(pathname, requestUrl, request);
+      }
+      if (
+        access === "private" &&
+        !hasValidSignature(["GET", pathname], requestUrl)
+      ) {
+        return new Response("Forbidden", { status: 403 });
+      }
+
+      try {
+        blob = await head(pathname);
+      } catch {
+        return new Response("Not found", { status: 404 });
+      }
+
+      const download =
+        requestUrl.searchParams.has("download") ||
+        !INLINE_CONTENT_TYPES.has(
+          blob.contentType.split(";")[0]!.trim().toLowerCase(),
+        );
+      const headers = new Headers({
+        "accept-ranges": "bytes",
+        "cache-control": blob.cacheControl,
+        "content-type": blob.contentType,
+        "content-disposition": download
+          ? blob.contentDisposition.replace(/^inline/, "attachment")
+          : blob.contentDisposition,
+        "content-security-policy": "sandbox",
+        "last-modified": blob.uploadedAt.toUTCString(),
+        "x-content-type-options": "nosniff",
+      });
+
+      const range = parseRange(request.headers.get("range"), blob.size);
+      if (range === null) {
+        headers.set("content-range", `bytes */${blob.size}`);
+        return new Response(null, { status: 416, headers });
+      }
+
+      const start = range?.start ?? 0;
+      const end = range?.end ?? blob.size - 1;
+      headers.set("content-length", String(Math.max(end - start + 1, 0)));
+      if (range) {
+        headers.set("content-range", `bytes ${start}-${end}/${blob.size}`);
+      }
+
+      const body =
+        request.method === "HEAD" || blob.size === 0
+          ? null
+          : (Readable.toWeb(
+              createReadStream(filePath(pathname), { start, end }),
+            ) as ReadableStream);
+      return new Response(body, { status: range ? 206 : 200, headers });
+    },
+  };
+}
@@ -7,6 +7,9 @@ FEATURES:
   - Implements S3-compatible operations using aws4fetch + signed fetch calls
   - Generates presigned URLs that mirror Vercel Blob semantics
   - Applies provider defaults for ACLs, prefixes, and metadata constraints
+  - Keeps objects private and issues short-lived presigned URLs on request
+  - Presigns browser uploads and runs multipart uploads through the S3 API
+  - Completes multipart uploads at the key derived from their pathname
   - Parses XML responses with fast-xml-parser for worker-safe list handling
 SEARCHABLE: s3 blob adapter, vercel blob compatibility, aws sdk
 agent-frontmatter:end */
@@ -18,6 +21,8 @@ import type {
   BlobProviderAwsS3,
   BlobProviderCloudflareR2,
   BlobS3ACL,
+  BlobSignedUrlOptions,
+  BlobUploadUrlOptions,
 } from "@agentstart/types";
 import type {
   CompleteMultipartUploadCommandOptions,
@@ -61,6 +66,12 @@ type S3LikeProvider = BlobProviderAwsS3 | BlobProviderCloudflareR2;
 
 type ListCommandResult = ListBlobResult & { folders: string[] };
 type SignedUrlFactory = (key: string) => Promise<string>;
+type PresignOptions = {
+  expiresIn: number;
+  method?: "GET" | "PUT";
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+};
 type BinaryBody = ArrayBuffer | Blob | ReadableStream;
 type S3RequestOptions = {
   method: string;
@@ -507,12 +518,17 @@ function createPresignUrlFactory(
   awsClient: AwsClient,
   endpoint: string,
   useVirtualHostedStyle: boolean,
-): (key: string, expiresIn: number) => Promise<string> {
-  return async (key: string, expiresIn: number) => {
+): (key: string, options: PresignOptions) => Promise<string> {
+  return async (key, options) => {
     const url = buildObjectUrl(endpoint, provider, key, useVirtualHostedStyle);
-    url.searchParams.set("X-Amz-Expires", String(expiresIn));
+    for (const [name, value] of Object.entries(options.query ?? {})) {
+      url.searchParams.set(name, value);
+    }
+    url.searchParams.set("X-Amz-Expires", String(options.expiresIn));
+    // Headers passed here (except content-type) are signed and must be sent unchanged
     const signedRequest = await awsClient.sign(url.toString(), {
-      method: "GET",
+      method: options.method ?? "GET",
+      headers: options.headers,
       aws: {
         service: "s3",
         region,
@@ -583,6 +599,18 @@ async function mapListResult(
   };
 }
 
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function toArrayBuffer(text: string): ArrayBuffer {
+  return cloneToArrayBuffer(new TextEncoder().encode(text));
+}
+
 function ensurePathname(pathname: string, prefix?: string) {
   if (/^https?:\/\//.test(pathname)) {
     throw new Error("S3 adapter expects a pathname, received URL");
@@ -620,15 +648,166 @@ export function createS3BlobAdapter(
     useVirtualHostedStyle,
   );
   const getSignedUrl: SignedUrlFactory = (key) =>
-    presignUrlFactory(key, presignExpiresIn);
+    presignUrlFactory(key, { expiresIn: presignExpiresIn });
+  const access = blobOptions.access ?? "public";
 
   const putDefaults: PutCommandOptions = {
     access: "public",
   };
 
+  const uploadHeaders = (
+    contentType?: string,
+    requestedAccess?: PutCommandOptions["access"],
+  ) => {
+    const headers: Record<string, string> = {};
+    // Private adapters never expose objects, whatever the caller asks for
+    const aclHeader =
+      access === "private"
+        ? "private"
+        : mapAccessToACL(requestedAccess, provider.defaultACL);
+    if (contentType) {
+      headers["content-type"] = contentType;
+    }
+    if (aclHeader) {
+      headers["x-amz-acl"] = aclHeader;
+    }
+    return headers;
+  };
+
+  const headObject = async (key: string) => {
+    try {
+      const response = await ensureSuccessfulResponse(
+        await request({ method: "HEAD", key }),
+        "head object",
+      );
+      return parseHeadResponse(response);
+    } catch {
+      return undefined;
+    }
+  };
+
+  const startMultipartUpload = async (
+    pathname: string,
+    options?: PutCommandOptions,
+  ) => {
+    const key = resolveKey(pathname, provider.keyPrefix);
+    const response = await ensureSuccessfulResponse(
+      await request({
+        method: "POST",
+        key,
+        query: { uploads: "" },
+        headers: uploadHeaders(options?.contentType, options?.access),
+      }),
+      "create multipart upload",
+    );
+    const parsed = xmlParser.parse(await response.text()) as {
+      InitiateMultipartUploadResult?: { UploadId?: unknown };
+    };
+    const uploadId = readNodeText(
+      parsed.InitiateMultipartUploadResult?.UploadId,
+    );
+    if (!uploadId) {
+      throw new Error("S3 create multipart upload returned no UploadId");
+    }
+    return { key, uploadId };
+  };
+
+  const sendPart = async (
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: unknown,
+  ) => {
+    const response = await ensureSuccessfulResponse(
+      await request({
+        method: "PUT",
+        key,
+        query: { partNumber: String(partNumber), uploadId },
+        body: normalizeBody(body),
+      }),
+      "upload part",
+    );
+    const etag = response.headers.get("etag");
+    if (!etag) {
+      throw new Error("S3 upload part returned no ETag");
+    }
+    return { etag, partNumber };
+  };
+
+  const finishMultipartUpload = async (
+    key: string,
+    uploadId: string,
+    parts: Part[],
+    options?: PutCommandOptions,
+  ) => {
+    const xml = `<CompleteMultipartUpload>${[...parts]
+      .sort((a, b) => a.partNumber - b.partNumber)
+      .map(
+        (part) =>
+          `<Part><PartNumber>${part.partNumber}</PartNumber><ETag>${escapeXml(part.etag)}</ETag></Part>`,
+      )
+      .join("")}</CompleteMultipartUpload>`;
+    const response = await ensureSuccessfulResponse(
+      await request({
+        method: "POST",
+        key,
+        query: { uploadId },
+        headers: { "content-type": "application/xml" },
+        body: toArrayBuffer(xml),
+      }),
+      "complete multipart upload",
+    );
+    // S3 reports some failures with a 200 status and an error document
+    const result = await response.text();
+    if (result.includes("<Error>")) {
+      throw new Error(`S3 complete multipart upload failed - ${result}`);
+    }
+    return buildPutResult(
+      getSignedUrl,
+      key,
+      await headObject(key),
+      options ?? putDefaults,
+    );
+  };
+
   return {
     provider: provider.provider,
     getConstraints: () => constraints,
+    getAccess: () => access,
+    getSignedUrl: async (
+      urlOrPathname: string,
+      options?: BlobSignedUrlOptions,
+    ) =>
+      presignUrlFactory(ensurePathname(urlOrPathname, provider.keyPrefix), {
+        expiresIn: options?.expiresIn
+          ? resolvePresignExpiration(options.expiresIn)
+          : presignExpiresIn,
+        query: options?.download
+          ? { "response-content-disposition": "attachment" }
+          : undefined,
+      }),
+    createUploadUrl: async (
+      pathname: string,
+      options?: BlobUploadUrlOptions,
+    ) => {
+      const part = options?.part;
+      // Parts inherit content type and ACL from the multipart upload
+      const headers = part ? {} : uploadHeaders(options?.contentType);
+      const url = await presignUrlFactory(
+        part?.key ?? resolveKey(pathname, provider.keyPrefix),
+        {
+          expiresIn: options?.expiresIn
+            ? resolvePresignExpiration(options.expiresIn)
+            : presignExpiresIn,
+          method: "PUT",
+          headers,
+          query: part
+            ? { partNumber: String(part.partNumber), uploadId: part.uploadId }
+            : undefined,
+        },
+      );
+      return { url, method: "PUT" as const, headers };
+    },
     put: async (
       pathname: string,
       body: unknown,
@@ -636,14 +815,7 @@ export function createS3BlobAdapter(
     ) => {
       const key = resolveKey(pathname, provider.keyPrefix);
       const normalizedBody = normalizeBody(body);
-      const headers: Record<string, string> = {};
-      const aclHeader = mapAccessToACL(options?.access, provider.defaultACL);
-      if (options?.contentType) {
-        headers["content-type"] = options.contentType;
-      }
-      if (aclHeader) {
-        headers["x-amz-acl"] = aclHeader;
-      }
+      const headers = uploadHeaders(options?.contentType, options?.access);
       const requestHeaders =
         Object.keys(headers).length > 0 ? headers : undefined;
       await ensureSuccessfulResponse(
@@ -656,21 +828,12 @@ export function createS3BlobAdapter(
         "put object",
       );
 
-      let stat: HeadObjectStat | undefined;
-      try {
-        const headResponse = await ensureSuccessfulResponse(
-          await request({
-            method: "HEAD",
-            key,
-          }),
-          "head object",
-        );
-        stat = parseHeadResponse(headResponse);
-      } catch {
-        stat = undefined;
-      }
-
-      return buildPutResult(getSignedUrl, key, stat, options ?? putDefaults);
+      return buildPutResult(
+        getSignedUrl,
+        key,
+        await headObject(key),
+        options ?? putDefaults,
+      );
     },
     del: async (urlOrPathname: string | string[]) => {
       const targets = Array.isArray(urlOrPathname)
@@ -723,39 +886,39 @@ export function createS3BlobAdapter(
     copy: async (_options: CopyCommandOptions) => {
       throw new Error("copy is not yet implemented for the S3 upload adapter");
     },
-    createMultipartUpload: async (
-      _pathname: string,
-      _options?: PutCommandOptions,
-    ) => {
-      throw new Error(
-        "createMultipartUpload is not yet implemented for the S3 upload adapter",
-      );
-    },
+    createMultipartUpload: startMultipartUpload,
     createMultipartUploader: async (
-      _pathname: string,
-      _options?: PutCommandOptions,
+      pathname: string,
+      options?: PutCommandOptions,
     ) => {
-      throw new Error(
-        "createMultipartUploader is not yet implemented for the S3 upload adapter",
-      );
+      const { key, uploadId } = await startMultipartUpload(pathname, options);
+      return {
+        key,
+        uploadId,
+        uploadPart: (partNumber: number, body: unknown) =>
+          sendPart(key, uploadId, partNumber, body),
+        complete: (parts: Part[]) =>
+          finishMultipartUpload(key, uploadId, parts, options),
+      };
     },
     uploadPart: async (
       _pathname: string,
-      _body: unknown,
-      _options: UploadPartCommandOptions,
-    ) => {
-      throw new Error(
-        "uploadPart is not yet implemented for the S3 upload adapter",
-      );
-    },
+      body: unknown,
+      options: UploadPartCommandOptions,
+    ) => sendPart(options.key, options.uploadId, options.partNumber, body),
     completeMultipartUpload: async (
-      _pathname: string,
-      _parts: Part[],
-      _options: CompleteMultipartUploadCommandOptions,
+      pathname: string,
+      parts: Part[],
+      options: CompleteMultipartUploadCommandOptions,
     ) => {
-      throw new Error(
-        "completeMultipartUpload is not yet implemented for the S3 upload adapter",
-      );
+      // Derive the key so a caller-supplied one cannot move the upload
+      const key = resolveKey(pathname, provider.keyPrefix);
+      if (options.key !== key) {
+        throw new Error(
+          `Multipart upload ${options.uploadId} was not started for "${options.key}"`,
+        );
+      }
+      return finishMultipartUpload(key, options.uploadId, parts, options);
     },
   };
 }
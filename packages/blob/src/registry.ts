@@ -4,13 +4,14 @@ PURPOSE: Resolve BlobAdapter instances for configured storage providers
 USAGE: await createBlobAdapter(options)
 EXPORTS: createBlobAdapter
 FEATURES:
-  - Dispatches to provider-specific adapters (Vercel Blob, S3)
+  - Dispatches to provider-specific adapters (Vercel Blob, S3, local filesystem)
   - Memoizes adapter instances per BlobOptions object
   - Provides descriptive errors for unsupported configurations
 SEARCHABLE: blob adapter registry, storage provider factory, blob index
 agent-frontmatter:end */
 
 import type { BlobAdapter, BlobOptions, BlobProvider } from "@agentstart/types";
+import { createLocalBlobAdapter } from "./providers/local";
 import { createS3BlobAdapter } from "./providers/s3";
 import { createVercelBlobAdapter } from "./providers/vercel-blob";
 
@@ -49,6 +50,8 @@ async function resolveAdapter(
     case "awsS3":
     case "cloudflareR2":
       return createS3BlobAdapter(options, provider);
+    case "local":
+      return createLocalBlobAdapter(options, provider);
     default:
       assertNever(provider);
   }
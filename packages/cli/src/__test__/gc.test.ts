@@ -0,0 +1,75 @@
+/* agent-frontmatter:start
+AGENT: CLI test module
+PURPOSE: Exercises the gc command against an in-memory project configuration.
+USAGE: Executed with Vitest to validate blob garbage collection from the CLI.
+EXPORTS: None
+FEATURES:
+  - Dry runs report orphans without deleting them
+  - Confirmed runs delete orphaned blobs
+SEARCHABLE: packages, cli, src, test, gc, blob, vitest
+agent-frontmatter:end */
+
+import type { BlobAdapter } from "@agentstart/types";
+import { agentStart } from "agentstart";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { gcAction } from "../commands/gc";
+
+const blob = {
+  provider: "local",
+  getConstraints: vi.fn(),
+  put: vi.fn(),
+  del: vi.fn(),
+  head: vi.fn(),
+  list: vi.fn(),
+  copy: vi.fn(),
+  createMultipartUpload: vi.fn(),
+  createMultipartUploader: vi.fn(),
+  uploadPart: vi.fn(),
+  completeMultipartUpload: vi.fn(),
+} satisfies BlobAdapter;
+
+const start = agentStart({
+  agent: {} as any,
+  blob: () => blob,
+});
+
+vi.mock("../utils/get-config", () => ({
+  getConfig: vi.fn(async () => start.options),
+}));
+
+describe("gc command", () => {
+  beforeEach(() => {
+    vi.spyOn(process, "exit").mockImplementation((code) => {
+      return code as never;
+    });
+    blob.list.mockResolvedValue({
+      blobs: [
+        {
+          pathname: "users/u1/drafts/old.png",
+          url: "https://example.com/old.png",
+          downloadUrl: "https://example.com/old.png",
+          size: 4,
+          uploadedAt: new Date("2020-01-01T00:00:00Z"),
+        },
+      ],
+      hasMore: false,
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    blob.del.mockReset();
+  });
+
+  it("only reports orphans in dry-run mode", async () => {
+    await gcAction({ cwd: process.cwd(), dryRun: true });
+
+    expect(blob.del).not.toHaveBeenCalled();
+  });
+
+  it("deletes orphans when confirmed", async () => {
+    await gcAction({ cwd: process.cwd(), gracePeriod: 1, y: true });
+
+    expect(blob.del).toHaveBeenCalledWith(["users/u1/drafts/old.png"]);
+  });
+});
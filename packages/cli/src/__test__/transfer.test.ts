@@ -0,0 +1,131 @@
+/* agent-frontmatter:start
+AGENT: CLI test module
+PURPOSE: Exercises the export and import commands against in-memory databases.
+USAGE: Executed with Vitest to validate thread backups from the CLI.
+EXPORTS: None
+FEATURES:
+  - Exports every thread to a JSONL file
+  - Restores threads with their ids into another database
+  - Skips threads that already exist
+SEARCHABLE: packages, cli, src, test, export, import, backup, vitest
+agent-frontmatter:end */
+
+import path from "node:path";
+import type { MemoryAdapter } from "@agentstart/types";
+import { agentStart } from "agentstart";
+import { inMemoryAdapter } from "agentstart/memory/in-memory";
+import fs from "fs-extra";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { exportAction } from "../commands/export";
+import { importAction } from "../commands/import";
+import { getConfig } from "../utils/get-config";
+
+vi.mock("../utils/get-config", () => ({
+  getConfig: vi.fn(),
+}));
+
+function createStart() {
+  const memory = inMemoryAdapter()({}) as MemoryAdapter;
+  const start = agentStart({
+    agent: {} as any,
+    memory: () => memory,
+  });
+  return { memory, options: start.options };
+}
+
+async function seed(memory: MemoryAdapter) {
+  const now = new Date();
+  await memory.create({
+    model: "thread",
+    data: {
+      id: "thr_1",
+      userId: "user_1",
+      title: "Backup me",
+      visibility: "private",
+      createdAt: now,
+      updatedAt: now,
+    },
+  });
+  for (const [index, text] of ["Hello", "Hi there"].entries()) {
+    await memory.create({
+      model: "message",
+      data: {
+        id: `msg_${index + 1}`,
+        threadId: "thr_1",
+        ...(index > 0 ? { parentId: "msg_1" } : {}),
+        role: index === 0 ? "user" : "assistant",
+        parts: JSON.stringify([{ type: "text", text }]),
+        createdAt: new Date(now.getTime() + index),
+        updatedAt: new Date(now.getTime() + index),
+      },
+    });
+  }
+}
+
+describe("export and import commands", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    vi.spyOn(process, "exit").mockImplementation((code) => {
+      return code as never;
+    });
+    const tempRoot = path.join(
+      process.cwd(),
+      "src",
+      "__test__",
+      "temp",
+      "transfer",
+    );
+    await fs.ensureDir(tempRoot);
+    tmpDir = await fs.mkdtemp(path.join(tempRoot, "case-"));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.remove(tmpDir);
+  });
+
+  it("restores exported threads with their ids", async () => {
+    const source = createStart();
+    const target = createStart();
+    await seed(source.memory);
+
+    vi.mocked(getConfig).mockResolvedValueOnce(source.options);
+    await exportAction({ cwd: tmpDir, output: "threads.jsonl" });
+
+    const lines = (
+      await fs.readFile(path.join(tmpDir, "threads.jsonl"), "utf8")
+    )
+      .trim()
+      .split("\n");
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0] ?? "{}")).toMatchObject({
+      version: 1,
+      thread: { id: "thr_1", title: "Backup me" },
+    });
+
+    vi.mocked(getConfig).mockResolvedValue(target.options);
+    await importAction("threads.jsonl", { cwd: tmpDir });
+    await importAction("threads.jsonl", { cwd: tmpDir });
+
+    await expect(
+      target.memory.findOne({
+        model: "thread",
+        where: [{ field: "id", value: "thr_1" }],
+      }),
+    ).resolves.toMatchObject({ userId: "user_1", title: "Backup me" });
+    const messages = await target.memory.findMany<{
+      id: string;
+      parentId?: string;
+    }>({
+      model: "message",
+      where: [{ field: "threadId", value: "thr_1" }],
+      sortBy: { field: "createdAt", direction: "asc" },
+    });
+    expect(messages.map(({ id, parentId }) => ({ id, parentId }))).toEqual([
+      { id: "msg_1", parentId: undefined },
+      { id: "msg_2", parentId: "msg_1" },
+    ]);
+    expect(process.exit).not.toHaveBeenCalledWith(1);
+  });
+});
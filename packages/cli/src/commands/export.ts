@@ -0,0 +1,96 @@
+/* agent-frontmatter:start
+AGENT: Agent Start CLI export command
+PURPOSE: Back up every thread of the configured database to a JSONL file
+USAGE: await exportAction(commandOptions)
+EXPORTS: exportAction, exportCommand
+FEATURES:
+  - Loads the project's memory configuration
+  - Writes one lossless thread bundle per line, branches, todos and usage included
+  - Streams threads so large databases are never held in memory at once
+SEARCHABLE: cli export, thread backup, jsonl export, agent start
+agent-frontmatter:end */
+
+import { once } from "node:events";
+import path from "node:path";
+import { logger } from "@agentstart/utils";
+import { exportThreads } from "agentstart/agent";
+import chalk from "chalk";
+import { Command } from "commander";
+import fs from "fs-extra";
+import yoctoSpinner from "yocto-spinner";
+import { z } from "zod";
+import { getConfig } from "../utils/get-config";
+
+const exportActionSchema = z.object({
+  cwd: z.string(),
+  config: z.string().optional(),
+  output: z.string().default("agentstart-threads.jsonl"),
+});
+
+export async function exportAction(opts: z.input<typeof exportActionSchema>) {
+  const options = exportActionSchema.parse(opts);
+  const cwd = path.resolve(options.cwd);
+  if (!fs.existsSync(cwd)) {
+    logger.error(`The directory "${cwd}" does not exist.`);
+    process.exit(1);
+  }
+  const config = await getConfig({
+    cwd,
+    configPath: options.config,
+  });
+  if (!config) {
+    logger.error(
+      "No configuration file found. Add a `agent.ts` file to your project or pass the path to the configuration file using the `--config` flag.",
+    );
+    return;
+  }
+
+  const output = path.resolve(cwd, options.output);
+  await fs.ensureDir(path.dirname(output));
+  const stream = fs.createWriteStream(output);
+
+  const spinner = yoctoSpinner({ text: "exporting threads..." }).start();
+  let exported = 0;
+  try {
+    for await (const bundle of exportThreads(config)) {
+      if (!stream.write(`${JSON.stringify(bundle)}\n`)) {
+        await once(stream, "drain");
+      }
+      exported += 1;
+      spinner.text = `exported ${exported} thread(s)...`;
+    }
+  } catch (error) {
+    spinner.stop();
+    stream.destroy();
+    logger.error(
+      `Failed to export threads: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    process.exit(1);
+    return;
+  }
+  stream.end();
+  await once(stream, "finish");
+  spinner.stop();
+
+  logger.info(
+    `🚀 Exported ${exported} thread(s) to ${chalk.yellow(path.relative(cwd, output))}.`,
+  );
+  process.exit(0);
+}
+
+export const exportCommand = new Command("export")
+  .option(
+    "-c, --cwd <cwd>",
+    "the working directory. defaults to the current directory.",
+    process.cwd(),
+  )
+  .option(
+    "--config <config>",
+    "the path to the configuration file. defaults to the first configuration file found.",
+  )
+  .option(
+    "-o, --output <output>",
+    "the JSONL file to write, one thread bundle per line.",
+    "agentstart-threads.jsonl",
+  )
+  .action(exportAction);
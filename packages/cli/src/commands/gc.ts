@@ -0,0 +1,138 @@
+/* agent-frontmatter:start
+AGENT: Agent Start CLI gc command
+PURPOSE: Delete uploaded blobs that no stored message references
+USAGE: await gcAction(commandOptions)
+EXPORTS: gcAction, gc
+FEATURES:
+  - Loads the project's blob and memory configuration
+  - Lists orphaned uploads older than the grace period
+  - Dry-run mode that only reports what would be deleted
+  - Asks for confirmation unless --y is passed
+SEARCHABLE: cli gc, blob garbage collection, orphaned uploads, agent start
+agent-frontmatter:end */
+
+import path from "node:path";
+import { logger } from "@agentstart/utils";
+import { collectOrphanedBlobs, type OrphanedBlob } from "agentstart/blob";
+import chalk from "chalk";
+import { Command } from "commander";
+import fs from "fs-extra";
+import prompts from "prompts";
+import yoctoSpinner from "yocto-spinner";
+import { z } from "zod";
+import { getConfig } from "../utils/get-config";
+
+const HOUR = 60 * 60 * 1000;
+
+const gcActionSchema = z.object({
+  cwd: z.string(),
+  config: z.string().optional(),
+  gracePeriod: z.coerce.number().nonnegative().default(24),
+  prefix: z.string().optional(),
+  dryRun: z.boolean().optional(),
+  y: z.boolean().optional(),
+});
+
+export async function gcAction(opts: z.input<typeof gcActionSchema>) {
+  const options = gcActionSchema.parse(opts);
+  const cwd = path.resolve(options.cwd);
+  if (!fs.existsSync(cwd)) {
+    logger.error(`The directory "${cwd}" does not exist.`);
+    process.exit(1);
+  }
+  const config = await getConfig({
+    cwd,
+    configPath: options.config,
+  });
+  if (!config) {
+    logger.error(
+      "No configuration file found. Add a `agent.ts` file to your project or pass the path to the configuration file using the `--config` flag.",
+    );
+    return;
+  }
+  if (!config.blob) {
+    logger.error(
+      "Blob storage is not configured. Add a `blob` adapter to your configuration first.",
+    );
+    process.exit(1);
+  }
+
+  const gcOptions = {
+    prefix: options.prefix,
+    gracePeriod: options.gracePeriod * HOUR,
+  };
+
+  const spinner = yoctoSpinner({
+    text: "looking for orphaned blobs...",
+  }).start();
+  const preview = await collectOrphanedBlobs(config, {
+    ...gcOptions,
+    dryRun: true,
+  });
+  spinner.stop();
+
+  logger.info(
+    `🔍 Scanned ${preview.scanned} blob(s); ${preview.referenced} are referenced by messages.`,
+  );
+  if (!preview.orphaned.length) {
+    logger.info("🚀 No orphaned blobs found.");
+  } else if (options.dryRun) {
+    printOrphans(preview.orphaned);
+    logger.info(
+      `Dry run: ${preview.orphaned.length} orphaned blob(s) would be deleted.`,
+    );
+  } else {
+    printOrphans(preview.orphaned);
+    let confirmed = options.y;
+    if (!confirmed) {
+      const response = await prompts({
+        type: "confirm",
+        name: "confirmed",
+        message: `Are you sure you want to delete ${preview.orphaned.length} blob(s)?`,
+        initial: false,
+      });
+      confirmed = response.confirmed;
+    }
+
+    if (confirmed) {
+      spinner.start("deleting orphaned blobs...");
+      const result = await collectOrphanedBlobs(config, gcOptions);
+      spinner.stop();
+      logger.info(`🚀 Deleted ${result.deleted} orphaned blob(s).`);
+    } else {
+      logger.info("Garbage collection cancelled.");
+    }
+  }
+  process.exit(0);
+}
+
+function printOrphans(orphans: OrphanedBlob[]) {
+  for (const blob of orphans) {
+    console.log(
+      "->",
+      chalk.yellow(blob.pathname),
+      chalk.white(`${blob.size} bytes, uploaded`),
+      chalk.magenta(blob.uploadedAt.toISOString()),
+    );
+  }
+}
+
+export const gc = new Command("gc")
+  .option(
+    "-c, --cwd <cwd>",
+    "the working directory. defaults to the current directory.",
+    process.cwd(),
+  )
+  .option(
+    "--config <config>",
+    "the path to the configuration file. defaults to the first configuration file found.",
+  )
+  .option(
+    "--grace-period <hours>",
+    "only delete blobs uploaded at least this many hours ago.",
+    "24",
+  )
+  .option("--prefix <prefix>", "only consider blobs under this prefix.")
+  .option("--dry-run", "list orphaned blobs without deleting them.", false)
+  .option("-y, --y", "delete without prompting for confirmation", false)
+  .action(gcAction);
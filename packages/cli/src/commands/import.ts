@@ -0,0 +1,117 @@
+/* agent-frontmatter:start
+AGENT: Agent Start CLI import command
+PURPOSE: Restore threads from a JSONL file written by the export command
+USAGE: await importAction(commandOptions)
+EXPORTS: importAction, importCommand
+FEATURES:
+  - Loads the project's memory and agent configuration
+  - Keeps the original thread ids, message ids and owners
+  - Validates messages against the agent's current tool schemas before writing
+  - Skips threads that already exist, so a restore can be re-run
+SEARCHABLE: cli import, thread restore, jsonl import, agent start
+agent-frontmatter:end */
+
+import path from "node:path";
+import readline from "node:readline";
+import { logger } from "@agentstart/utils";
+import { importThreads } from "agentstart/agent";
+import chalk from "chalk";
+import { Command } from "commander";
+import fs from "fs-extra";
+import yoctoSpinner from "yocto-spinner";
+import { z } from "zod";
+import { getConfig } from "../utils/get-config";
+
+const importActionSchema = z.object({
+  cwd: z.string(),
+  config: z.string().optional(),
+  file: z.string().default("agentstart-threads.jsonl"),
+});
+
+/**
+ * Parse one bundle per non-empty line
+ */
+async function* readBundles(file: string) {
+  const lines = readline.createInterface({
+    input: fs.createReadStream(file),
+    crlfDelay: Number.POSITIVE_INFINITY,
+  });
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber += 1;
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      yield JSON.parse(line) as unknown;
+    } catch {
+      throw new Error(`Line ${lineNumber} is not valid JSON.`);
+    }
+  }
+}
+
+export async function importAction(
+  file: string | undefined,
+  opts: z.input<typeof importActionSchema>,
+) {
+  const options = importActionSchema.parse({ ...opts, file });
+  const cwd = path.resolve(options.cwd);
+  if (!fs.existsSync(cwd)) {
+    logger.error(`The directory "${cwd}" does not exist.`);
+    process.exit(1);
+  }
+  const input = path.resolve(cwd, options.file);
+  if (!fs.existsSync(input)) {
+    logger.error(`The file "${input}" does not exist.`);
+    process.exit(1);
+  }
+  const config = await getConfig({
+    cwd,
+    configPath: options.config,
+  });
+  if (!config) {
+    logger.error(
+      "No configuration file found. Add a `agent.ts` file to your project or pass the path to the configuration file using the `--config` flag.",
+    );
+    return;
+  }
+
+  const spinner = yoctoSpinner({ text: "importing threads..." }).start();
+  try {
+    const result = await importThreads(config, readBundles(input));
+    spinner.stop();
+    logger.info(`🚀 Imported ${result.imported} thread(s).`);
+    if (result.skipped.length) {
+      logger.info(
+        `Skipped ${result.skipped.length} thread(s) that already exist:`,
+      );
+      for (const threadId of result.skipped) {
+        console.log("->", chalk.yellow(threadId));
+      }
+    }
+  } catch (error) {
+    spinner.stop();
+    logger.error(
+      `Failed to import threads: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    process.exit(1);
+    return;
+  }
+  process.exit(0);
+}
+
+export const importCommand = new Command("import")
+  .argument(
+    "[file]",
+    "the JSONL file written by `agentstart export`. defaults to agentstart-threads.jsonl.",
+  )
+  .option(
+    "-c, --cwd <cwd>",
+    "the working directory. defaults to the current directory.",
+    process.cwd(),
+  )
+  .option(
+    "--config <config>",
+    "the path to the configuration file. defaults to the first configuration file found.",
+  )
+  .action(importAction);
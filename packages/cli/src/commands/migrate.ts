@@ -73,9 +73,10 @@ export async function migrateAction(opts: z.infer<typeof migrateActionSchema>) {
 
   const spinner = yoctoSpinner({ text: "preparing migration..." }).start();
 
-  const { toBeAdded, toBeCreated, runMigrations } = await getMigrations(config);
+  const { toBeAdded, toBeCreated, toBeIndexed, runMigrations } =
+    await getMigrations(config);
 
-  if (!toBeAdded.length && !toBeCreated.length) {
+  if (!toBeAdded.length && !toBeCreated.length && !toBeIndexed.length) {
     spinner.stop();
     logger.info("🚀 No migrations needed.");
     process.exit(0);
@@ -93,6 +94,15 @@ export async function migrateAction(opts: z.infer<typeof migrateActionSchema>) {
       chalk.white("table."),
     );
   }
+  for (const index of toBeIndexed) {
+    console.log(
+      "->",
+      chalk.magenta(index.fields.join(", ")),
+      chalk.white("search index on"),
+      chalk.yellow(`${index.table}`),
+      chalk.white("table."),
+    );
+  }
 
   let migrate = options.y;
   if (!migrate) {
@@ -7,12 +7,13 @@ FEATURES:
   - Maps Agent Start models into drizzle table definitions
   - Respects adapter options like provider and pluralization
   - Generates or updates agent schema files on demand
+  - Adds .default() to boolean flags so existing rows can be migrated
 SEARCHABLE: drizzle schema, cli generator, database scaffolding
 agent-frontmatter:end */
 
 import type { FieldAttribute } from "@agentstart/types";
 import { convertToSnakeCase } from "@agentstart/utils";
-import { getTables } from "agentstart/memory";
+import { getColumnDefault, getTables } from "agentstart/memory";
 import fs from "fs-extra";
 import type { SchemaGenerator } from "./types";
 
@@ -149,13 +150,16 @@ export const generateDrizzleSchema: SchemaGenerator = async ({
         }
         const base = resolveField(fieldKey, attr);
         const notNull = attr.required ? ".notNull()" : "";
+        const columnDefault = getColumnDefault(attr);
+        const defaultValue =
+          columnDefault === undefined ? "" : `.default(${columnDefault})`;
         const unique = attr.unique ? ".unique()" : "";
         const reference = attr.references
           ? `.references(() => ${
               usePlural ? `${attr.references.model}s` : attr.references.model
             }.${attr.references.field}, { onDelete: 'cascade' })`
           : "";
-        return `  ${fieldKey}: ${base}${notNull}${unique}${reference},`;
+        return `  ${fieldKey}: ${base}${notNull}${defaultValue}${unique}${reference},`;
       })
       .filter(Boolean) as string[];
 
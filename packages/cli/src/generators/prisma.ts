@@ -7,6 +7,7 @@ FEATURES:
   - Inspects existing schema and merges new model definitions
   - Handles many-to-many relationships via AST transforms
   - Seeds generator when schema file is missing
+  - Adds @default to boolean flags so existing rows can be migrated
 SEARCHABLE: prisma schema, cli generator, database scaffolding
 agent-frontmatter:end */
 
@@ -14,7 +15,7 @@ import path from "node:path";
 import type { FieldType } from "@agentstart/types";
 import { capitalizeFirstLetter } from "@agentstart/utils";
 import { produceSchema } from "@mrleebo/prisma-ast";
-import { getTables } from "agentstart/memory";
+import { getColumnDefault, getTables } from "agentstart/memory";
 import fs from "fs-extra";
 import type { SchemaGenerator } from "./types";
 
@@ -131,6 +132,13 @@ export const generatePrismaSchema: SchemaGenerator = async ({
             field,
             getType(attr.type, !attr?.required, attr?.bigint || false),
           );
+        const columnDefault = getColumnDefault(attr);
+        if (columnDefault !== undefined) {
+          builder
+            .model(modelName)
+            .field(field)
+            .attribute(`default(${columnDefault})`);
+        }
         if (attr.unique) {
           builder.model(modelName).blockAttribute(`unique([${field}])`);
         }
@@ -7,7 +7,7 @@ USAGE: invoked via `agentstart` after package installation
 EXPORTS: main
 FEATURES:
   - Loads package metadata for version reporting
-  - Registers generate/migrate/init commands
+  - Registers generate/migrate/init/gc/export/import commands
   - Ensures graceful shutdown on termination signals
 SEARCHABLE: cli entrypoint, commander setup, agentstart binary
 agent-frontmatter:end */
@@ -15,7 +15,10 @@ agent-frontmatter:end */
 import chalk from "chalk";
 import { Command } from "commander";
 import figlet from "figlet";
+import { exportCommand } from "./commands/export";
+import { gc } from "./commands/gc";
 import { generate } from "./commands/generate";
+import { importCommand } from "./commands/import";
 import { init } from "./commands/init";
 import { migrate } from "./commands/migrate";
 import { getPackageInfo } from "./utils/get-package-info";
@@ -47,6 +50,9 @@ async function main() {
     .addCommand(migrate)
     .addCommand(generate)
     .addCommand(init)
+    .addCommand(gc)
+    .addCommand(exportCommand)
+    .addCommand(importCommand)
     .version(packageInfo.version || "1.1.2")
     .description("Agent Start CLI");
   program.parse();
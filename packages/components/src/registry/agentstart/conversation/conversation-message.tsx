@@ -6,8 +6,10 @@ EXPORTS: ConversationMessage, ConversationMessageProps
 FEATURES:
   - Renders user messages with image attachments and text
   - Renders assistant messages with tool parts and streaming
-  - Includes message actions (copy, retry, timestamp)
-  - Handles source citations display
+  - Includes message actions (copy, retry, edit, timestamp)
+  - Handles source citations display, one entry per cited URL
+  - Switches between edited or regenerated versions with a "< 2/3 >" control
+  - Read-only mode without retry, edit or branch controls
 SEARCHABLE: conversation message, message renderer, user message, assistant message
 agent-frontmatter:end */
 
@@ -15,8 +17,11 @@ agent-frontmatter:end */
 
 import {
   ArrowsClockwiseIcon,
+  CaretLeftIcon,
+  CaretRightIcon,
   CheckIcon,
   CopyIcon,
+  PencilSimpleIcon,
 } from "@phosphor-icons/react";
 import type { AgentStartUIMessage } from "agentstart/agent";
 import { type AgentStore, useAgentStartContext } from "agentstart/client";
@@ -24,6 +29,7 @@ import { isToolUIPart } from "ai";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
 import { Message, MessageContent } from "../message";
 import { RelativeTime } from "../relative-time";
@@ -216,11 +222,75 @@ const CopyButton = ({
   );
 };
 
+type BranchSwitcherProps = {
+  messageId: string;
+  branchIds: string[];
+  disabled?: boolean;
+  onSwitch: (messageId: string) => void;
+};
+
+const BranchSwitcher = ({
+  messageId,
+  branchIds,
+  disabled,
+  onSwitch,
+}: BranchSwitcherProps) => {
+  const index = branchIds.indexOf(messageId);
+  if (branchIds.length < 2 || index === -1) {
+    return null;
+  }
+
+  const previousId = branchIds[index - 1];
+  const nextId = branchIds[index + 1];
+
+  return (
+    <div className="flex items-center text-muted-foreground text-xs tabular-nums">
+      <Button
+        className="size-7"
+        size="icon-sm"
+        variant="ghost"
+        disabled={disabled || !previousId}
+        onClick={() => previousId && onSwitch(previousId)}
+      >
+        <CaretLeftIcon className="size-4" />
+        <span className="sr-only">Previous version</span>
+      </Button>
+      <span>
+        {index + 1}/{branchIds.length}
+      </span>
+      <Button
+        className="size-7"
+        size="icon-sm"
+        variant="ghost"
+        disabled={disabled || !nextId}
+        onClick={() => nextId && onSwitch(nextId)}
+      >
+        <CaretRightIcon className="size-4" />
+        <span className="sr-only">Next version</span>
+      </Button>
+    </div>
+  );
+};
+
 export type ConversationMessageProps = {
   message: AgentStartUIMessage;
   isLastMessage: boolean;
   status: AgentStore<AgentStartUIMessage>["status"];
   regenerate: AgentStore<AgentStartUIMessage>["regenerate"];
+  /**
+   * IDs of every version of this message, including its own, when it has
+   * been edited or regenerated.
+   */
+  branchIds?: string[];
+  onSwitchBranch?: (messageId: string) => void;
+  /**
+   * Send an edited copy of a user message on a new branch.
+   */
+  onEdit?: (text: string) => void;
+  /**
+   * Hide retry, edit and branch controls, e.g. for shared threads.
+   */
+  readOnly?: boolean;
 };
 
 export function ConversationMessage({
@@ -228,8 +298,14 @@ export function ConversationMessage({
   isLastMessage,
   status,
   regenerate,
+  branchIds,
+  onSwitchBranch,
+  onEdit,
+  readOnly = false,
 }: ConversationMessageProps) {
   const { threadId, config } = useAgentStartContext();
+  const [draft, setDraft] = useState<string | null>(null);
+  const isIdle = ["ready", "error"].includes(status);
 
   const logo = config?.logo;
   const logoSrc = typeof logo === "string" ? logo : logo?.src;
@@ -358,50 +434,132 @@ export function ConversationMessage({
     );
   }, []);
 
-  const renderUserActions = (message: AgentStartUIMessage) => (
-    <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100">
-      <CopyButton
-        className="size-7"
-        size="icon-sm"
-        variant="ghost"
-        onCopy={() => copyMessageText(message)}
+  const branchSwitcher =
+    branchIds && onSwitchBranch && !readOnly ? (
+      <BranchSwitcher
+        messageId={message.id}
+        branchIds={branchIds}
+        disabled={!isIdle}
+        onSwitch={onSwitchBranch}
       />
+    ) : null;
+
+  const startEditing = (message: AgentStartUIMessage) => {
+    const text = ((message.parts ?? []) as MessagePartType[])
+      .filter(isTextPart)
+      .map((part) => part.text)
+      .join("\n\n");
+    setDraft(text);
+  };
+
+  const submitEdit = () => {
+    const text = draft?.trim();
+    if (!text || !onEdit) {
+      return;
+    }
+    setDraft(null);
+    onEdit(text);
+  };
 
-      <RelativeTime timestamp={message.metadata?.createdAt} />
+  const renderEditor = () => (
+    <div className="flex w-full flex-col gap-2 sm:min-w-[390px]">
+      <Textarea
+        autoFocus
+        value={draft ?? ""}
+        onChange={(event) => setDraft(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === "Enter" && !event.shiftKey) {
+            event.preventDefault();
+            submitEdit();
+          } else if (event.key === "Escape") {
+            setDraft(null);
+          }
+        }}
+      />
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="ghost" onClick={() => setDraft(null)}>
+          Cancel
+        </Button>
+        <Button size="sm" disabled={!draft?.trim()} onClick={submitEdit}>
+          Send
+        </Button>
+      </div>
     </div>
   );
 
-  const renderAssistantActions = (message: AgentStartUIMessage) => {
-    const parts = message.parts ?? [];
-    const sourceParts = parts.filter((part) => part.type === "source-url");
+  const renderUserActions = (message: AgentStartUIMessage) => (
+    <div className="flex items-center gap-1">
+      {branchSwitcher}
 
-    return (
-      <>
-        <div className="flex w-full items-center justify-start gap-1 opacity-0 group-hover:opacity-100">
+      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100">
+        {onEdit && isIdle && !readOnly ? (
           <Button
             className="size-7"
             size="icon-sm"
             variant="ghost"
-            onClick={() =>
-              regenerate({
-                body: {
-                  threadId,
-                },
-              })
-            }
+            onClick={() => startEditing(message)}
           >
-            <ArrowsClockwiseIcon className="size-4" weight="duotone" />
-            <span className="sr-only">Retry</span>
+            <PencilSimpleIcon className="size-4" weight="duotone" />
+            <span className="sr-only">Edit</span>
           </Button>
+        ) : null}
 
-          <CopyButton
-            className="size-7"
-            size="icon-sm"
-            variant="ghost"
-            onCopy={() => copyMessageText(message)}
-          />
+        <CopyButton
+          className="size-7"
+          size="icon-sm"
+          variant="ghost"
+          onCopy={() => copyMessageText(message)}
+        />
 
-          <RelativeTime timestamp={message.metadata?.createdAt} />
+        <RelativeTime timestamp={message.metadata?.createdAt} />
+      </div>
+    </div>
+  );
+
+  const renderAssistantActions = (message: AgentStartUIMessage) => {
+    const parts = message.parts ?? [];
+    // Tools may cite the same page more than once, so list each URL once
+    const sourceParts = parts
+      .filter((part) => part.type === "source-url")
+      .filter(
+        (part, index, all) =>
+          all.findIndex((other) => other.url === part.url) === index,
+      );
+
+    return (
+      <>
+        <div className="flex w-full items-center justify-start gap-1">
+          {branchSwitcher}
+
+          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100">
+            {!readOnly && (
+              <Button
+                className="size-7"
+                size="icon-sm"
+                variant="ghost"
+                onClick={() =>
+                  regenerate({
+                    messageId: message.id,
+                    body: {
+                      threadId,
+                    },
+                  })
+                }
+              >
+                <ArrowsClockwiseIcon className="size-4" weight="duotone" />
+                <span className="sr-only">Retry</span>
+              </Button>
+            )}
+
+            <CopyButton
+              className="size-7"
+              size="icon-sm"
+              variant="ghost"
+              onCopy={() => copyMessageText(message)}
+            />
+
+            <RelativeTime timestamp={message.metadata?.createdAt} />
+          </div>
         </div>
 
         {sourceParts.length > 0 && (
@@ -409,10 +567,10 @@ export function ConversationMessage({
             <Sources>
               <SourcesTrigger count={sourceParts.length} />
               <SourcesContent>
-                {sourceParts.map((part, index) => {
+                {sourceParts.map((part) => {
                   return (
                     <Source
-                      key={`${message.id}-source-${index}`}
+                      key={`${message.id}-source-${part.url}`}
                       href={part.url}
                       title={part.title || part.url}
                     />
@@ -439,7 +597,7 @@ export function ConversationMessage({
         "items-end": message.role === "user",
       })}
     >
-      {message.role === "user" && renderUserActions(message)}
+      {message.role === "user" && draft === null && renderUserActions(message)}
 
       <MessageContent
         className={cn({
@@ -452,10 +610,12 @@ export function ConversationMessage({
       >
         {message.role === "assistant"
           ? renderAssistantMessage(message, isLastMessage)
-          : renderUserMessage(message)}
+          : draft !== null
+            ? renderEditor()
+            : renderUserMessage(message)}
       </MessageContent>
 
-      {message.role === "assistant" && ["ready", "error"].includes(status)
+      {message.role === "assistant" && isIdle
         ? renderAssistantActions(message)
         : null}
     </Message>
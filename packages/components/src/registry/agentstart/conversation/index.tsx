@@ -7,6 +7,8 @@ FEATURES:
   - Loads thread transcripts with TanStack Query and the AgentStart client
   - Displays AI responses and tool interactions with timeline styling
   - Keeps the conversation pinned to the latest message with scroll controls
+  - Loads the latest messages first and older ones when scrolled to the top
+  - Edits user messages and switches between conversation branches
 SEARCHABLE: conversation viewer, thread messages, agentstart conversation, auto scroll
 agent-frontmatter:end */
 
@@ -26,8 +28,16 @@ import {
   useAgentStore,
   useThinkingExtractor,
 } from "agentstart/client";
+import { isFileUIPart } from "ai";
 import type { ComponentProps, ReactNode } from "react";
-import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import { useStickToBottom } from "use-stick-to-bottom";
 import { Button } from "@/components/ui/button";
 import {
@@ -62,6 +72,9 @@ const hasNewThreadDraftContent = (draft: unknown): boolean => {
 
 const tailwindSpacingToPx = (value: number): number => value * 4;
 
+// Messages fetched when a thread opens and per scroll to the top
+const HISTORY_PAGE_SIZE = 30;
+
 // Internal hook: Safe store access with fallback when useThread is not used
 type SetMessagesFn = (
   messages:
@@ -73,6 +86,10 @@ interface UseSafeStoreReturn {
   messages: AgentStartUIMessage[];
   safeSetMessages: SetMessagesFn;
   isUsingThread: boolean;
+  historyCursor: string | null;
+  setHistoryCursor: (cursor: string | null) => void;
+  isLoadingOlderMessages: boolean;
+  safeLoadOlderMessages: () => Promise<void>;
 }
 
 /**
@@ -82,6 +99,8 @@ interface UseSafeStoreReturn {
  * using _syncState to update the store directly.
  */
 function useSafeStore(storeId: string = "default"): UseSafeStoreReturn {
+  const { client } = useAgentStartContext();
+
   // Get current messages
   const messages = useAgentStore<AgentStartUIMessage, AgentStartUIMessage[]>(
     (state) => state.messages,
@@ -127,10 +146,72 @@ function useSafeStore(storeId: string = "default"): UseSafeStoreReturn {
     [isUsingThread, setMessages, _syncState, messages],
   );
 
+  const historyCursor = useAgentStore<AgentStartUIMessage, string | null>(
+    (state) => state.historyCursor,
+    storeId,
+  );
+  const setHistoryCursor = useAgentStore<
+    AgentStartUIMessage,
+    AgentStore<AgentStartUIMessage>["setHistoryCursor"]
+  >((state) => state.setHistoryCursor, storeId);
+  const isLoadingOlderMessages = useAgentStore<AgentStartUIMessage, boolean>(
+    (state) => state.isLoadingOlderMessages,
+    storeId,
+  );
+  const loadOlderMessages = useAgentStore<
+    AgentStartUIMessage,
+    AgentStore<AgentStartUIMessage>["loadOlderMessages"]
+  >((state) => state.loadOlderMessages, storeId);
+
+  // Load older messages through useThread, or directly into the store
+  const safeLoadOlderMessages = useCallback(async () => {
+    if (isUsingThread) {
+      return loadOlderMessages();
+    }
+    const oldest = messages[0];
+    if (!historyCursor || isLoadingOlderMessages || !oldest || !_syncState) {
+      return;
+    }
+    _syncState({ isLoadingOlderMessages: true });
+    try {
+      const page = await client.thread.loadMessages({
+        threadId: storeId,
+        messageId: oldest.id,
+        before: historyCursor,
+        limit: HISTORY_PAGE_SIZE,
+      });
+      const loadedIds = new Set(messages.map((message) => message.id));
+      _syncState({
+        messages: [
+          ...page.messages.filter((message) => !loadedIds.has(message.id)),
+          ...messages,
+        ],
+        historyCursor: page.pageInfo.previousCursor,
+      });
+    } catch (error) {
+      console.error("Failed to load older messages", error);
+    } finally {
+      _syncState({ isLoadingOlderMessages: false });
+    }
+  }, [
+    isUsingThread,
+    loadOlderMessages,
+    messages,
+    historyCursor,
+    isLoadingOlderMessages,
+    _syncState,
+    client,
+    storeId,
+  ]);
+
   return {
     messages,
     safeSetMessages,
     isUsingThread,
+    historyCursor,
+    setHistoryCursor,
+    isLoadingOlderMessages,
+    safeLoadOlderMessages,
   };
 }
 
@@ -237,7 +318,7 @@ export function Conversation({
   layout = "default",
   ...props
 }: ConversationProps) {
-  const { orpc, threadId } = useAgentStartContext();
+  const { client, orpc, threadId } = useAgentStartContext();
   const isMobileLayout = layout === "mobile";
   const rootRef = useRef<HTMLDivElement | null>(null);
   const [promptFooterHeight, setPromptFooterHeight] = useState<number | null>(
@@ -290,7 +371,14 @@ export function Conversation({
   const resolvedStoreId = threadId ?? "default";
 
   // Use safe store hook that handles both with and without useThread
-  const { messages, safeSetMessages } = useSafeStore(resolvedStoreId);
+  const {
+    messages,
+    safeSetMessages,
+    historyCursor,
+    setHistoryCursor,
+    isLoadingOlderMessages,
+    safeLoadOlderMessages,
+  } = useSafeStore(resolvedStoreId);
 
   // Extract thinking status from reasoning parts
   useThinkingExtractor(resolvedStoreId);
@@ -307,6 +395,10 @@ export function Conversation({
     AgentStartUIMessage,
     UIAgentStore["regenerate"]
   >((state) => state.regenerate, resolvedStoreId);
+  const sendMessage = useAgentStore<
+    AgentStartUIMessage,
+    UIAgentStore["sendMessage"]
+  >((state) => state.sendMessage, resolvedStoreId);
   const newThreadDraft = useAgentStore<
     AgentStartUIMessage,
     UIAgentStore["newThreadDraft"]
@@ -338,21 +430,28 @@ export function Conversation({
   );
 
   const queryResult = useQuery(
-    orpc.message.get.queryOptions({
-      input: { threadId: threadId! },
+    orpc.thread.loadMessages.queryOptions({
+      input: { threadId: threadId!, limit: HISTORY_PAGE_SIZE },
       enabled: Boolean(threadId) && !hasNewThreadDraft,
-      initialData: threadId ? initialMessages : undefined,
+      initialData:
+        threadId && initialMessages
+          ? {
+              messages: initialMessages,
+              pageInfo: { hasPreviousPage: false, previousCursor: null },
+            }
+          : undefined,
     }),
   );
 
   const {
-    data: fetchedMessages,
+    data: fetchedPage,
     error: queryError,
     isError,
     isLoading,
     isFetching,
     refetch,
   } = queryResult;
+  const fetchedMessages = fetchedPage?.messages;
 
   useEffect(() => {
     // If no threadId is provided, clear messages
@@ -375,10 +474,136 @@ export function Conversation({
 
     // Set the fetched messages into the store
     safeSetMessages(fetchedMessages);
-  }, [fetchedMessages, messages, safeSetMessages, threadId]);
+    setHistoryCursor(fetchedPage?.pageInfo.previousCursor ?? null);
+  }, [
+    fetchedMessages,
+    fetchedPage,
+    messages,
+    safeSetMessages,
+    setHistoryCursor,
+    threadId,
+  ]);
+
+  // Keep the first visible message in place while older ones are prepended
+  const scrollAnchorRef = useRef<{
+    messageId: string;
+    scrollHeight: number;
+  } | null>(null);
+  const [historyTarget, setHistoryTarget] = useState<HTMLDivElement | null>(
+    null,
+  );
+
+  useEffect(() => {
+    const viewport = scrollRef.current;
+    if (
+      !historyTarget ||
+      !viewport ||
+      !historyCursor ||
+      isLoadingOlderMessages ||
+      typeof IntersectionObserver === "undefined"
+    ) {
+      return;
+    }
+    const observer = new IntersectionObserver(
+      (entries) => {
+        const oldest = messages[0];
+        if (!oldest || !entries.some((entry) => entry.isIntersecting)) {
+          return;
+        }
+        scrollAnchorRef.current = {
+          messageId: oldest.id,
+          scrollHeight: viewport.scrollHeight,
+        };
+        void safeLoadOlderMessages();
+      },
+      { root: viewport, rootMargin: "200px 0px 0px 0px" },
+    );
+    observer.observe(historyTarget);
+    return () => observer.disconnect();
+  }, [
+    historyTarget,
+    historyCursor,
+    isLoadingOlderMessages,
+    messages,
+    safeLoadOlderMessages,
+    scrollRef,
+  ]);
+
+  useLayoutEffect(() => {
+    const anchor = scrollAnchorRef.current;
+    const viewport = scrollRef.current;
+    if (!anchor || !viewport || messages[0]?.id === anchor.messageId) {
+      return;
+    }
+    scrollAnchorRef.current = null;
+    // A branch switch replaced the messages instead of prepending to them
+    if (!messages.some((message) => message.id === anchor.messageId)) {
+      return;
+    }
+    viewport.scrollTop += viewport.scrollHeight - anchor.scrollHeight;
+  }, [messages, scrollRef]);
 
-  const fetchError = isError ? (queryError as Error) : null;
   const hasMessages = messages.length > 0;
+
+  const { data: branchPoints, refetch: refetchBranches } = useQuery(
+    orpc.message.branches.queryOptions({
+      input: { threadId: threadId! },
+      enabled: Boolean(threadId) && hasMessages,
+    }),
+  );
+
+  // Edits and regenerations add branches, so refresh once each run settles
+  useEffect(() => {
+    if (threadId && hasMessages && status === "ready") {
+      void refetchBranches();
+    }
+  }, [threadId, hasMessages, status, refetchBranches]);
+
+  const branchIdsByMessageId = useMemo(() => {
+    const map = new Map<string, string[]>();
+    for (const branchPoint of branchPoints ?? []) {
+      for (const messageId of branchPoint.messageIds) {
+        map.set(messageId, branchPoint.messageIds);
+      }
+    }
+    return map;
+  }, [branchPoints]);
+
+  const switchBranch = useCallback(
+    async (messageId: string) => {
+      if (!threadId) return;
+      try {
+        const branch = await client.thread.loadMessages({
+          threadId,
+          messageId,
+          limit: HISTORY_PAGE_SIZE,
+        });
+        safeSetMessages(branch.messages);
+        setHistoryCursor(branch.pageInfo.previousCursor);
+      } catch (error) {
+        console.error("Failed to switch branch", error);
+      }
+    },
+    [client, threadId, safeSetMessages, setHistoryCursor],
+  );
+
+  const editMessage = useCallback(
+    (index: number, text: string) => {
+      const original = messages[index];
+      if (!threadId || !original) return;
+      const files = original.parts.filter(isFileUIPart);
+
+      // The edited message replaces the original and everything after it
+      safeSetMessages(messages.slice(0, index));
+      void sendMessage(
+        { text, ...(files.length > 0 ? { files } : {}) },
+        { body: { threadId, editMessageId: original.id } },
+      );
+    },
+    [messages, threadId, safeSetMessages, sendMessage],
+  );
+
+  const fetchError = isError ? (queryError as Error) : null;
   const showInitialLoading =
     Boolean(threadId) &&
     !hasMessages &&
@@ -477,6 +702,19 @@ export function Conversation({
             resolvedErrorState
           ) : hasMessages ? (
             <div className="flex flex-col gap-2">
+              {historyCursor && (
+                <div
+                  ref={setHistoryTarget}
+                  className="flex flex-col items-center gap-1 py-2"
+                >
+                  {isLoadingOlderMessages && (
+                    <>
+                      <Skeleton className="h-3 w-48" />
+                      <Skeleton className="h-3 w-32" />
+                    </>
+                  )}
+                </div>
+              )}
               {messages.map((message, index) => {
                 const isLastMessage = index === messages.length - 1;
                 return (
@@ -486,6 +724,13 @@ export function Conversation({
                     isLastMessage={isLastMessage}
                     status={status}
                     regenerate={regenerate}
+                    branchIds={branchIdsByMessageId.get(message.id)}
+                    onSwitchBranch={switchBranch}
+                    onEdit={
+                      message.role === "user"
+                        ? (text) => editMessage(index, text)
+                        : undefined
+                    }
                   />
                 );
               })}
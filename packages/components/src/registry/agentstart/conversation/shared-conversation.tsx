@@ -0,0 +1,159 @@
+/* agent-frontmatter:start
+AGENT: Shared conversation viewer
+PURPOSE: Render a thread opened through a share link in read-only mode
+USAGE: <SharedConversation token={token} />
+EXPORTS: SharedConversation, SharedConversationProps
+FEATURES:
+  - Loads the shared thread with thread.getShared via TanStack Query
+  - Works for readers who are not signed in
+  - Renders messages without retry, edit or branch controls
+SEARCHABLE: shared conversation, share link, read-only thread, public thread
+agent-frontmatter:end */
+
+"use client";
+
+import { ChatSlashIcon, LinkBreakIcon } from "@phosphor-icons/react";
+import { useQuery } from "@tanstack/react-query";
+import { useAgentStartContext } from "agentstart/client";
+import type { ComponentProps, ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Empty,
+  EmptyContent,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import { RelativeTime } from "../relative-time";
+import { ConversationMessage } from "./conversation-message";
+
+export type SharedConversationProps = ComponentProps<"div"> & {
+  /**
+   * Token from the share link, as returned by thread.share
+   */
+  token: string;
+  /**
+   * Custom loading state element while fetching the shared thread.
+   */
+  loadingState?: ReactNode;
+  /**
+   * Provide a custom error renderer, e.g. for revoked links.
+   */
+  errorState?: (error: Error, retry: () => void) => ReactNode;
+};
+
+export function SharedConversation({
+  token,
+  className,
+  loadingState,
+  errorState,
+  ...props
+}: SharedConversationProps) {
+  const { orpc } = useAgentStartContext();
+  const { data, error, isLoading, isError, refetch } = useQuery(
+    orpc.thread.getShared.queryOptions({ input: { token } }),
+  );
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        loadingState ?? (
+          <div className="flex flex-col gap-3">
+            <Skeleton className="h-6 w-64" />
+            <Skeleton className="h-4 w-48" />
+            <Skeleton className="h-4 w-56" />
+          </div>
+        )
+      );
+    }
+
+    if (isError && error) {
+      return (
+        errorState?.(error, () => refetch()) ?? (
+          <Empty>
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <LinkBreakIcon
+                  weight="duotone"
+                  className="size-5 text-destructive"
+                />
+              </EmptyMedia>
+              <EmptyTitle>This link is not available</EmptyTitle>
+              <EmptyDescription>
+                The conversation may no longer be shared.
+              </EmptyDescription>
+            </EmptyHeader>
+            <EmptyContent>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => refetch()}
+              >
+                Retry
+              </Button>
+            </EmptyContent>
+          </Empty>
+        )
+      );
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    return (
+      <>
+        <header className="flex flex-col gap-1 border-b pb-3">
+          <h1 className="truncate font-semibold text-base">
+            {data.thread.title}
+          </h1>
+          <div className="flex items-center gap-1 text-muted-foreground text-xs">
+            <span>Shared conversation · read-only ·</span>
+            <RelativeTime
+              leading={<span>Updated</span>}
+              timestamp={data.thread.updatedAt}
+            />
+          </div>
+        </header>
+        {data.messages.length === 0 ? (
+          <Empty>
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <ChatSlashIcon
+                  weight="duotone"
+                  className="size-5 text-muted-foreground"
+                />
+              </EmptyMedia>
+              <EmptyTitle>No messages yet</EmptyTitle>
+            </EmptyHeader>
+          </Empty>
+        ) : (
+          <div className="flex flex-col gap-2">
+            {data.messages.map((message, index) => (
+              <ConversationMessage
+                key={message.id}
+                message={message}
+                isLastMessage={index === data.messages.length - 1}
+                status="ready"
+                regenerate={async () => {}}
+                readOnly
+              />
+            ))}
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className={cn("size-full overflow-y-auto", className)} {...props}>
+      <div className="mx-auto flex flex-col gap-4 px-4 py-6 sm:min-w-[390px] sm:max-w-3xl">
+        {renderContent()}
+      </div>
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ FEATURES:
   - Keyboard navigation
   - File tree data storage and expansion tracking
   - Phosphor icon integration
+  - Live updates from sandbox.watch when files change in the sandbox
 SEARCHABLE: file explorer, file browser, directory tree, file navigation, file tree context, animated tree
 agent-frontmatter:end */
 
@@ -47,6 +48,7 @@ import {
   useContext,
   useEffect,
   useMemo,
+  useRef,
   useState,
 } from "react";
 import { Badge } from "@/components/ui/badge";
@@ -131,6 +133,8 @@ export interface FileExplorerProps {
   indent?: number;
   /** Enable expand/collapse animations */
   animateExpand?: boolean;
+  /** Refresh the tree when files change in the sandbox (default: true) - only used when entries is not provided */
+  live?: boolean;
 }
 
 // ============================================================================
@@ -433,8 +437,9 @@ export function FileExplorer({
   showLines = true,
   indent = 20,
   animateExpand = true,
+  live = true,
 }: FileExplorerProps) {
-  const { orpc, threadId } = useAgentStartContext();
+  const { client, orpc, threadId } = useAgentStartContext();
 
   // If entries provided directly, use them; otherwise fetch via API
   const {
@@ -455,6 +460,45 @@ export function FileExplorer({
     enabled: !entries, // Only fetch if entries not provided
   });
 
+  // Refetch when the sandbox reports file changes, e.g. from bash commands
+  const refetchRef = useRef(refetch);
+  refetchRef.current = refetch;
+  const watchPath = query?.path || "/";
+  const watchIgnore = query?.ignore?.join("\n");
+  const watching = !entries && live;
+  useEffect(() => {
+    if (!watching) return;
+
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    (async () => {
+      try {
+        const events = await client.sandbox.watch(
+          {
+            path: watchPath,
+            ignore: watchIgnore?.split("\n"),
+            threadId,
+          },
+          { signal: controller.signal },
+        );
+        for await (const _event of events) {
+          // Events arrive in batches; refetch once per batch
+          clearTimeout(timer);
+          timer = setTimeout(() => refetchRef.current(), 50);
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error("Failed to watch sandbox files:", error);
+        }
+      }
+    })();
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [client, watching, threadId, watchPath, watchIgnore]);
+
   // Use provided entries or fetched entries
   const effectiveEntries = entries || fetchedEntries || [];
 
@@ -513,18 +557,18 @@ export function FileExplorer({
   );
 
   const handleRename = (node: FileNode, newName: string) => {
-    renameMutation.mutate({ path: node.path, newName });
+    renameMutation.mutate({ path: node.path, newName, threadId });
   };
 
   const handleDelete = (node: FileNode) => {
-    deleteMutation.mutate({ path: node.path });
+    deleteMutation.mutate({ path: node.path, threadId });
   };
 
   const handleCreateFile = (parentNode: FileNode) => {
     const fileName = window.prompt("Enter file name:");
     if (fileName) {
       const newPath = `${parentNode.path}/${fileName}`;
-      createFileMutation.mutate({ path: newPath, content: "" });
+      createFileMutation.mutate({ path: newPath, content: "", threadId });
     }
   };
 
@@ -532,12 +576,12 @@ export function FileExplorer({
     const folderName = window.prompt("Enter folder name:");
     if (folderName) {
       const newPath = `${parentNode.path}/${folderName}`;
-      createFolderMutation.mutate({ path: newPath });
+      createFolderMutation.mutate({ path: newPath, threadId });
     }
   };
 
   const handleDownload = (node: FileNode) => {
-    downloadMutation.mutate({ path: node.path });
+    downloadMutation.mutate({ path: node.path, threadId });
   };
 
   const handleRefresh = () => {
@@ -8,6 +8,7 @@ FEATURES:
   - Displays thread title, visibility, and timestamps
   - Provides loading skeleton state
   - Error handling with retry functionality
+  - Copies a read-only share link and revokes it from the settings menu
 SEARCHABLE: thread header, thread title, thread info, orpc header
 agent-frontmatter:end */
 
@@ -15,8 +16,10 @@ agent-frontmatter:end */
 
 import {
   GearIcon,
+  LinkBreakIcon,
   PencilSimpleIcon,
   PencilSimpleLineIcon,
+  ShareNetworkIcon,
   TrashIcon,
   WarningCircleIcon,
 } from "@phosphor-icons/react";
@@ -78,6 +81,12 @@ export type HeaderProps = ComponentProps<"header"> & {
    * Hide the settings button
    */
   hideSettings?: boolean;
+  /**
+   * Build the URL copied by "Copy share link". Render
+   * <SharedConversation token={token} /> on that page.
+   * Defaults to `${window.location.origin}/share/${token}`.
+   */
+  getShareUrl?: (token: string) => string;
 };
 
 export function Header({
@@ -90,6 +99,7 @@ export function Header({
   onRename,
   onDelete,
   hideSettings = false,
+  getShareUrl = (token) => `${window.location.origin}/share/${token}`,
   ...props
 }: HeaderProps) {
   const { orpc, threadId } = useAgentStartContext();
@@ -107,7 +117,24 @@ export function Header({
     orpc.thread.update.mutationOptions({
       onSuccess: () => {
         refetch();
-        queryClient.invalidateQueries(orpc.thread.list.queryOptions());
+        queryClient.invalidateQueries({ queryKey: orpc.thread.list.key() });
+      },
+    }),
+  );
+
+  // Share link mutations
+  const shareMutation = useMutation(
+    orpc.thread.share.mutationOptions({
+      onSuccess: ({ token }) => {
+        refetch();
+        void navigator.clipboard?.writeText(getShareUrl(token));
+      },
+    }),
+  );
+  const unshareMutation = useMutation(
+    orpc.thread.unshare.mutationOptions({
+      onSuccess: () => {
+        refetch();
       },
     }),
   );
@@ -252,6 +279,22 @@ export function Header({
                 <PencilSimpleIcon weight="duotone" className="size-4.5" />{" "}
                 <span>Rename</span>
               </MenuItem>
+              <MenuItem
+                onClick={() => shareMutation.mutate({ threadId: threadId! })}
+              >
+                <ShareNetworkIcon weight="duotone" className="size-4.5" />{" "}
+                <span>Copy share link</span>
+              </MenuItem>
+              {thread.shareToken && (
+                <MenuItem
+                  onClick={() =>
+                    unshareMutation.mutate({ threadId: threadId! })
+                  }
+                >
+                  <LinkBreakIcon weight="duotone" className="size-4.5" />{" "}
+                  <span>Stop sharing</span>
+                </MenuItem>
+              )}
               <MenuItem onClick={handleDelete}>
                 <TrashIcon
                   weight="duotone"
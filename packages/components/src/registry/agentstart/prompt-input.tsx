@@ -6,7 +6,7 @@ EXPORTS: PromptInput, PromptInputProps
 FEATURES:
   - Dual mode: create new thread or send message to existing thread
   - Gets threadId from useAgentStartContext
-  - File attachments via drag-and-drop, paste, or picker
+  - File attachments via drag-and-drop, paste, or picker, with upload progress on the send button
   - Message queue management
   - Usage summary display
   - Integrated state management
@@ -131,6 +131,7 @@ type PromptActionButtonProps = {
   input: string;
   attachmentsCount: number;
   sendState: SendState;
+  uploadProgress?: number | null;
   isPending: boolean;
   hasError: boolean;
   onStop?: () => void | Promise<void>;
@@ -238,6 +239,7 @@ function PromptActionButton({
   input,
   attachmentsCount,
   sendState,
+  uploadProgress,
   isPending,
   hasError,
   onStop,
@@ -254,6 +256,10 @@ function PromptActionButton({
     (!isStreaming && !hasText && !hasAttachments) ||
     isUploading;
   const buttonType = isStopButton ? "button" : "submit";
+  const uploadLabel =
+    isUploading && uploadProgress != null
+      ? `Uploading ${Math.round(uploadProgress * 100)}%`
+      : undefined;
 
   const icon = useMemo(() => {
     if (hasError) return <BugIcon className="size-4.5" weight="duotone" />;
@@ -265,7 +271,8 @@ function PromptActionButton({
 
   return (
     <Button
-      aria-label={isStopButton ? "Stop" : "Submit"}
+      aria-label={isStopButton ? "Stop" : (uploadLabel ?? "Submit")}
+      title={uploadLabel}
       className={className}
       disabled={shouldDisable}
       onClick={isStopButton ? onStop : undefined}
@@ -958,7 +965,8 @@ export function PromptInput({
     processFiles,
     clearFiles,
     isUploading,
-  } = useBlobFiles();
+    uploadProgress,
+  } = useBlobFiles({ threadId });
 
   const createThreadMutation = useMutation(
     orpc.thread.create.mutationOptions(),
@@ -1130,9 +1138,7 @@ export function PromptInput({
         setThreadId(newThreadId);
 
         navigate(`/thread/${newThreadId}`);
-        queryClient.invalidateQueries(
-          orpc.thread.list.queryOptions({ input: {} }),
-        );
+        queryClient.invalidateQueries({ queryKey: orpc.thread.list.key() });
       } catch (error) {
         setNewThreadDraft(null);
         setInput(message.text ?? "");
@@ -1288,6 +1294,7 @@ export function PromptInput({
                   input={input}
                   attachmentsCount={attachments.length}
                   sendState={sendState}
+                  uploadProgress={uploadProgress}
                   isPending={isPending}
                   hasError={hasError}
                   onStop={stop}
@@ -1326,6 +1333,7 @@ export function PromptInput({
                     input={input}
                     attachmentsCount={attachments.length}
                     sendState={sendState}
+                    uploadProgress={uploadProgress}
                     isPending={isPending}
                     hasError={hasError}
                     onStop={stop}
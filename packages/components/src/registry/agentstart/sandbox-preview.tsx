@@ -0,0 +1,150 @@
+/* agent-frontmatter:start
+AGENT: Sandbox preview component
+PURPOSE: Show a live iframe preview of a dev server running in the sandbox
+USAGE: <SandboxPreview />
+EXPORTS: SandboxPreview, SandboxPreviewProps
+FEATURES:
+  - Lists the declared sandbox ports through orpc.sandbox.ports
+  - Switches between ports when several are declared
+  - Reloads the iframe or opens the preview in a new tab
+  - Loads the preview through the agent handler in an opaque-origin iframe
+SEARCHABLE: sandbox preview, dev server preview, port preview, live preview iframe
+agent-frontmatter:end */
+
+"use client";
+
+import {
+  ArrowClockwiseIcon,
+  ArrowSquareOutIcon,
+  BrowserIcon,
+  WarningCircleIcon,
+} from "@phosphor-icons/react";
+import { useQuery } from "@tanstack/react-query";
+import { useAgentStartContext } from "agentstart/client";
+import { type ReactNode, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Empty,
+  EmptyContent,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { cn } from "@/lib/utils";
+
+export interface SandboxPreviewProps {
+  /** Port shown first (default: the first declared port) */
+  defaultPort?: number;
+  /** Optional class name for the container */
+  className?: string;
+  /** Custom empty state, shown when no ports are declared */
+  emptyState?: ReactNode;
+}
+
+export function SandboxPreview({
+  defaultPort,
+  className,
+  emptyState,
+}: SandboxPreviewProps) {
+  const { orpc, threadId } = useAgentStartContext();
+  const [selectedPort, setSelectedPort] = useState(defaultPort);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const { data, error, isError, isLoading, refetch } = useQuery(
+    orpc.sandbox.ports.queryOptions({ input: { threadId } }),
+  );
+
+  const ports = data?.ports ?? [];
+  const current =
+    ports.find((entry) => entry.port === selectedPort) ?? ports[0];
+
+  if (isError) {
+    return (
+      <Empty className={className}>
+        <EmptyMedia>
+          <WarningCircleIcon
+            className="size-12 text-destructive"
+            weight="duotone"
+          />
+        </EmptyMedia>
+        <EmptyHeader>
+          <EmptyTitle>Failed to load preview</EmptyTitle>
+          <EmptyDescription>{error.message}</EmptyDescription>
+        </EmptyHeader>
+        <EmptyContent>
+          <Button onClick={() => refetch()} variant="outline">
+            Try again
+          </Button>
+        </EmptyContent>
+      </Empty>
+    );
+  }
+
+  if (!current) {
+    if (isLoading) return null;
+    return (
+      emptyState ?? (
+        <Empty className={className}>
+          <EmptyMedia>
+            <BrowserIcon className="size-12" weight="duotone" />
+          </EmptyMedia>
+          <EmptyHeader>
+            <EmptyTitle>No preview ports</EmptyTitle>
+            <EmptyDescription>
+              Declare ports in the sandbox config to preview dev servers.
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      )
+    );
+  }
+
+  return (
+    <div
+      data-sandbox-preview
+      className={cn("flex h-full flex-col overflow-hidden", className)}
+    >
+      <div className="flex items-center gap-1 border-b px-2 py-1">
+        {ports.map((entry) => (
+          <Button
+            key={entry.port}
+            type="button"
+            size="sm"
+            variant={entry.port === current.port ? "secondary" : "ghost"}
+            onClick={() => setSelectedPort(entry.port)}
+          >
+            :{entry.port}
+          </Button>
+        ))}
+        <div className="flex-1" />
+        <Button
+          type="button"
+          size="icon-sm"
+          variant="ghost"
+          aria-label="Reload preview"
+          onClick={() => setReloadKey((key) => key + 1)}
+        >
+          <ArrowClockwiseIcon className="size-4" />
+        </Button>
+        <Button
+          type="button"
+          size="icon-sm"
+          variant="ghost"
+          aria-label="Open preview in a new tab"
+          render={<a href={current.path} rel="noreferrer" target="_blank" />}
+        >
+          <ArrowSquareOutIcon className="size-4" />
+        </Button>
+      </div>
+      <iframe
+        key={`${current.port}-${reloadKey}`}
+        src={current.path}
+        title={`Sandbox preview on port ${current.port}`}
+        className="min-h-0 flex-1 bg-white"
+        // Without allow-same-origin the preview cannot reach the app's cookies or storage
+        sandbox="allow-scripts allow-forms allow-popups allow-modals allow-downloads"
+      />
+    </div>
+  );
+}
@@ -1,17 +1,19 @@
 /* agent-frontmatter:start
 AGENT: Sidebar content
 PURPOSE: Render the agent sidebar thread list with scrollable layout
-USAGE: <SidebarContent>{threadList}</SidebarContent>
-EXPORTS: SidebarContent, SidebarContentProps
+USAGE: <SidebarContent><SidebarSection label="Recent threads">{items}</SidebarSection></SidebarContent>
+EXPORTS: SidebarContent, SidebarContentProps, SidebarSection, SidebarSectionProps
 FEATURES:
-  - Displays thread list with scrollable layout
-  - Wraps children in SidebarMenu component
+  - Displays thread sections in one scrollable area
+  - Wraps section children in SidebarMenu component
   - Provides consistent spacing and styling
-SEARCHABLE: agent sidebar, thread list, sidebar content
+  - Collapsible sections, e.g. for archived threads
+SEARCHABLE: agent sidebar, thread list, sidebar content, sidebar section
 agent-frontmatter:end */
 
 "use client";
 
+import { CaretRightIcon } from "@phosphor-icons/react";
 import type { ReactNode } from "react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import {
@@ -22,6 +24,7 @@ import {
   SidebarMenu,
   useSidebar,
 } from "@/components/ui/sidebar";
+import { cn } from "@/lib/utils";
 
 export type SidebarContentProps = {
   children: ReactNode;
@@ -33,16 +36,57 @@ export function SidebarContent({ children }: SidebarContentProps) {
 
   return (
     <ShadcnSidebarContent>
-      <SidebarGroup>
-        <SidebarGroupLabel>Recent threads</SidebarGroupLabel>
+      <ScrollArea className="h-[calc(100vh-12rem)] md:h-[calc(100vh-10rem)]">
+        <div className="w-(--sidebar-width)">{children}</div>
+      </ScrollArea>
+    </ShadcnSidebarContent>
+  );
+}
+
+export type SidebarSectionProps = {
+  label: ReactNode;
+  children?: ReactNode;
+  // Render the label as a toggle; children are hidden while closed
+  collapsible?: boolean;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+};
+
+export function SidebarSection({
+  label,
+  children,
+  collapsible = false,
+  open = true,
+  onOpenChange,
+}: SidebarSectionProps) {
+  const expanded = !collapsible || open;
+
+  return (
+    <SidebarGroup>
+      {collapsible ? (
+        <SidebarGroupLabel
+          render={
+            <button
+              type="button"
+              aria-expanded={expanded}
+              onClick={() => onOpenChange?.(!open)}
+            />
+          }
+          className="cursor-pointer gap-1 hover:text-sidebar-foreground [&>svg]:size-3"
+        >
+          <CaretRightIcon
+            className={cn("transition-transform", expanded && "rotate-90")}
+          />
+          {label}
+        </SidebarGroupLabel>
+      ) : (
+        <SidebarGroupLabel>{label}</SidebarGroupLabel>
+      )}
+      {expanded && (
         <SidebarGroupContent>
-          <ScrollArea className="h-[calc(100vh-14rem)] md:h-[calc(100vh-12rem)]">
-            <SidebarMenu className="w-[calc(var(--sidebar-width)-(var(--spacing)*4))]">
-              {children}
-            </SidebarMenu>
-          </ScrollArea>
+          <SidebarMenu>{children}</SidebarMenu>
         </SidebarGroupContent>
-      </SidebarGroup>
-    </ShadcnSidebarContent>
+      )}
+    </SidebarGroup>
   );
 }
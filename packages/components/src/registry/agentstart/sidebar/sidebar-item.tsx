@@ -7,6 +7,7 @@ FEATURES:
   - Displays title, timestamp, and optional leading/trailing content
   - Supports active and disabled states for navigation
   - Computes human-readable relative timestamps by default
+  - Lists thread tags in the title tooltip
 SEARCHABLE: agent layout, list item, sidebar row
 agent-frontmatter:end */
 
@@ -84,6 +85,11 @@ export const SidebarItem = memo(function SidebarItem({
                   <span className="text-[10px] text-muted-foreground">
                     {computedSecondaryText}
                   </span>
+                  {thread.tags && thread.tags.length > 0 && (
+                    <span className="text-[10px] text-muted-foreground">
+                      {thread.tags.map((tag) => `#${tag}`).join(" ")}
+                    </span>
+                  )}
                 </span>
               </TooltipContent>
             )}
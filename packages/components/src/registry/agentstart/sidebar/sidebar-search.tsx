@@ -0,0 +1,223 @@
+/* agent-frontmatter:start
+AGENT: Sidebar search
+PURPOSE: Search threads from the agent sidebar and show highlighted matches
+USAGE: <SidebarSearch value={query} onChange={setQuery} />
+EXPORTS: SidebarSearch, SidebarSearchProps, SidebarSearchResults, SidebarSearchResultsProps
+FEATURES:
+  - Search box with a clear button, hidden while the sidebar is collapsed
+  - Debounces queries before calling thread.search via TanStack Query
+  - Marks matching title and message text with <mark>
+SEARCHABLE: agent sidebar, thread search, search box, highlighted snippets
+agent-frontmatter:end */
+
+"use client";
+
+import {
+  MagnifyingGlassIcon,
+  WarningCircleIcon,
+  XIcon,
+} from "@phosphor-icons/react";
+import { useQuery } from "@tanstack/react-query";
+import { useAgentStartContext } from "agentstart/client";
+import { Fragment, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+  InputGroupText,
+} from "@/components/ui/input-group";
+import {
+  SidebarGroup,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+  useSidebar,
+} from "@/components/ui/sidebar";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+type Snippet = {
+  text: string;
+  highlights: Array<{ start: number; end: number }>;
+};
+
+export type SidebarSearchProps = {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+};
+
+export function SidebarSearch({
+  value,
+  onChange,
+  placeholder = "Search threads...",
+}: SidebarSearchProps) {
+  const { open } = useSidebar();
+  if (!open) return null;
+
+  return (
+    <SidebarGroup className="pb-0">
+      <InputGroup>
+        <InputGroupAddon align="inline-start">
+          <InputGroupText>
+            <MagnifyingGlassIcon weight="duotone" />
+          </InputGroupText>
+        </InputGroupAddon>
+        <InputGroupInput
+          type="search"
+          aria-label="Search threads"
+          placeholder={placeholder}
+          value={value}
+          onChange={(event) => onChange(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Escape") {
+              onChange("");
+            }
+          }}
+        />
+        {value && (
+          <InputGroupAddon align="inline-end">
+            <Button
+              type="button"
+              onClick={() => onChange("")}
+              variant="ghost"
+              size="icon-sm"
+              className="size-6"
+            >
+              <XIcon className="size-3" />
+              <span className="sr-only">Clear search</span>
+            </Button>
+          </InputGroupAddon>
+        )}
+      </InputGroup>
+    </SidebarGroup>
+  );
+}
+
+export type SidebarSearchResultsProps = {
+  query: string;
+  limit?: number;
+};
+
+export function SidebarSearchResults({
+  query,
+  limit,
+}: SidebarSearchResultsProps) {
+  const { orpc, threadId, navigate } = useAgentStartContext();
+  const debouncedQuery = useDebouncedValue(query.trim(), SEARCH_DEBOUNCE_MS);
+
+  const { data, error, isError, isPending } = useQuery(
+    orpc.thread.search.queryOptions({
+      input: { query: debouncedQuery, limit },
+      enabled: debouncedQuery.length > 0,
+    }),
+  );
+
+  if (isPending || debouncedQuery !== query.trim()) {
+    return Array.from({ length: 3 }).map((_, index) => (
+      <SidebarMenuSkeleton key={`search-skeleton-${index}`} />
+    ));
+  }
+
+  if (isError) {
+    return (
+      <Empty>
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <WarningCircleIcon
+              weight="duotone"
+              className="size-5 text-destructive"
+            />
+          </EmptyMedia>
+          <EmptyTitle>Search failed</EmptyTitle>
+          <EmptyDescription>{error.message}</EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    );
+  }
+
+  if (data.results.length === 0) {
+    return (
+      <Empty>
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <MagnifyingGlassIcon
+              weight="duotone"
+              className="size-5 text-muted-foreground"
+            />
+          </EmptyMedia>
+          <EmptyTitle>No matches</EmptyTitle>
+          <EmptyDescription>
+            No thread title or message contains every search term.
+          </EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    );
+  }
+
+  return data.results.map(({ thread, title, messages }) => {
+    const [message] = messages;
+    return (
+      <SidebarMenuItem key={thread.id}>
+        <SidebarMenuButton
+          type="button"
+          isActive={thread.id === threadId}
+          onClick={() => navigate(`/thread/${thread.id}`)}
+          className="h-auto cursor-pointer flex-col items-start gap-0.5 py-1.5"
+        >
+          <span className="w-full truncate font-medium text-sm">
+            {title ? (
+              <HighlightedText snippet={title} />
+            ) : (
+              thread.title || "Untitled thread"
+            )}
+          </span>
+          {message && (
+            <span className="line-clamp-2 w-full text-muted-foreground text-xs">
+              <HighlightedText snippet={message.snippet} />
+            </span>
+          )}
+        </SidebarMenuButton>
+      </SidebarMenuItem>
+    );
+  });
+}
+
+function HighlightedText({ snippet }: { snippet: Snippet }) {
+  let cursor = 0;
+  const segments = snippet.highlights.map(({ start, end }) => {
+    const before = snippet.text.slice(cursor, start);
+    cursor = end;
+    return (
+      <Fragment key={start}>
+        {before}
+        <mark className="rounded-sm bg-yellow-200/70 text-inherit dark:bg-yellow-500/30">
+          {snippet.text.slice(start, end)}
+        </mark>
+      </Fragment>
+    );
+  });
+  return (
+    <>
+      {segments}
+      {snippet.text.slice(cursor)}
+    </>
+  );
+}
+
+function useDebouncedValue<T>(value: T, delay: number) {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+  return debounced;
+}
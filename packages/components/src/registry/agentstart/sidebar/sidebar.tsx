@@ -6,6 +6,8 @@ EXPORTS: Sidebar, SidebarProps
 FEATURES:
   - Fetches threads via TanStack Query with automatic caching and refetching
   - Supports infinite scroll pagination and thread actions
+  - Pinned, recent and collapsible archived sections with pin, archive and tag actions
+  - Search box that swaps the list for highlighted thread.search matches
   - Wraps children inside <SidebarInset> for a ready-to-use layout
 SEARCHABLE: agent layout, sidebar, agent threads list, tanstack query
 agent-frontmatter:end */
@@ -13,16 +15,24 @@ agent-frontmatter:end */
 "use client";
 
 import {
+  ArchiveIcon,
   DotsThreeIcon,
   EmptyIcon,
   PencilSimpleIcon,
+  PushPinIcon,
+  PushPinSlashIcon,
+  TagIcon,
   TrashIcon,
   WarningCircleIcon,
 } from "@phosphor-icons/react";
-import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
 import { useAgentStartContext } from "agentstart/client";
 import type { DBThread } from "agentstart/memory";
-import { type ReactNode, useMemo } from "react";
+import { type ReactNode, useEffect, useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Empty,
@@ -47,10 +57,11 @@ import {
 } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
 import { SimpleThemeSwitch } from "../theme-switch";
-import { SidebarContent } from "./sidebar-content";
+import { SidebarContent, SidebarSection } from "./sidebar-content";
 import { SidebarFooter } from "./sidebar-footer";
 import { SidebarHeader } from "./sidebar-header";
 import { SidebarItem } from "./sidebar-item";
+import { SidebarSearch, SidebarSearchResults } from "./sidebar-search";
 
 export type SidebarProps = {
   children?: ReactNode;
@@ -87,49 +98,73 @@ export function Sidebar({
   sidebar,
 }: SidebarProps) {
   const { orpc, threadId, navigate } = useAgentStartContext();
+  const queryClient = useQueryClient();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const isSearching = searchQuery.trim().length > 0;
 
-  // Infinite query for thread list with pagination
-  const { data, error, isLoading, isError, refetch } = useQuery(
-    orpc.thread.list.queryOptions({
-      input: { pageSize },
-    }),
+  const pinned = useThreadPages(
+    { pinned: true, archived: false },
+    { pageSize, enabled: !isSearching },
+  );
+  const recent = useThreadPages(
+    { pinned: false, archived: false },
+    { pageSize, enabled: !isSearching },
   );
+  const archived = useThreadPages(
+    { archived: true },
+    { pageSize, enabled: !isSearching && showArchived },
+  );
+
+  // Pinning and archiving move threads between sections, so every list
+  // query is refreshed
+  const invalidateThreads = () =>
+    queryClient.invalidateQueries({ queryKey: orpc.thread.list.key() });
 
-  // Rename mutation
+  // Rename, pin, archive and tag mutation
   const updateMutation = useMutation(
     orpc.thread.update.mutationOptions({
-      onSuccess: () => {
-        refetch();
-      },
+      onSuccess: invalidateThreads,
     }),
   );
 
   // Delete mutation
   const deleteMutation = useMutation(
     orpc.thread.delete.mutationOptions({
-      onSuccess: () => {
-        // Invalidate and refetch the thread list
-        refetch();
-      },
+      onSuccess: invalidateThreads,
     }),
   );
 
-  // Flatten all pages into a single array of threads
-  const threads = useMemo(() => {
-    if (!data) return [];
-    return data.threads.map((thread) => normalizeThread(thread));
-  }, [data]);
+  const renderItem = (thread: DBThread) => (
+    <SidebarItem
+      key={thread.id}
+      thread={thread}
+      isActive={thread.id === threadId}
+      onSelect={({ id }) => navigate(`/thread/${id}`)}
+      leading={<ThreadAvatar title={thread.title} />}
+      trailing={
+        <MoreOptions
+          thread={thread}
+          onUpdate={(data) =>
+            updateMutation.mutate({ threadId: thread.id, data })
+          }
+          onDelete={() => deleteMutation.mutate({ threadId: thread.id })}
+        />
+      }
+    />
+  );
 
-  const renderThreads = useMemo(() => {
-    if (isLoading && threads.length === 0) {
+  const renderRecent = () => {
+    const { threads, query } = recent;
+    if (query.isLoading && threads.length === 0) {
       return Array.from({ length: 6 }).map((_, index) => (
         <SidebarMenuSkeleton key={`thread-skeleton-${index}`} showIcon />
       ));
     }
 
-    if (isError && error) {
+    if (query.isError && query.error) {
       if (errorState) {
-        return errorState(error, refetch);
+        return errorState(query.error, query.refetch);
       }
       return (
         <Empty>
@@ -141,14 +176,14 @@ export function Sidebar({
               />
             </EmptyMedia>
             <EmptyTitle>Failed to load threads</EmptyTitle>
-            <EmptyDescription>{error.message}</EmptyDescription>
+            <EmptyDescription>{query.error.message}</EmptyDescription>
           </EmptyHeader>
           <EmptyContent>
             <Button
               type="button"
               variant="ghost"
               size="sm"
-              onClick={() => refetch()}
+              onClick={() => query.refetch()}
             >
               Retry
             </Button>
@@ -157,7 +192,7 @@ export function Sidebar({
       );
     }
 
-    if (threads.length === 0) {
+    if (threads.length === 0 && pinned.threads.length === 0) {
       if (emptyState) {
         return emptyState;
       }
@@ -179,40 +214,13 @@ export function Sidebar({
       );
     }
 
-    const items = threads.map((thread) => (
-      <SidebarItem
-        key={thread.id}
-        thread={thread}
-        isActive={thread.id === threadId}
-        onSelect={({ id }) => navigate(`/thread/${id}`)}
-        leading={<ThreadAvatar title={thread.title} />}
-        trailing={
-          <MoreOptions
-            threadTitle={thread.title ?? "Thread"}
-            onRename={(title) =>
-              updateMutation.mutate({
-                threadId: thread.id,
-                data: { title },
-              })
-            }
-            onDelete={() => deleteMutation.mutate({ threadId: thread.id })}
-          />
-        }
-      />
-    ));
-
-    return items;
-  }, [
-    emptyState,
-    error,
-    errorState,
-    refetch,
-    isError,
-    isLoading,
-    threads,
-    deleteMutation.mutate,
-    updateMutation.mutate,
-  ]);
+    return (
+      <>
+        {threads.map(renderItem)}
+        <LoadMoreSentinel query={query} />
+      </>
+    );
+  };
 
   return (
     <SidebarProvider
@@ -232,7 +240,41 @@ export function Sidebar({
         )}
       >
         <SidebarHeader title={header?.title} />
-        <SidebarContent>{renderThreads}</SidebarContent>
+        <SidebarSearch value={searchQuery} onChange={setSearchQuery} />
+        <SidebarContent>
+          {isSearching ? (
+            <SidebarSection label="Search results">
+              <SidebarSearchResults query={searchQuery} />
+            </SidebarSection>
+          ) : (
+            <>
+              {pinned.threads.length > 0 && (
+                <SidebarSection label="Pinned">
+                  {pinned.threads.map(renderItem)}
+                  <LoadMoreSentinel query={pinned.query} />
+                </SidebarSection>
+              )}
+              <SidebarSection label="Recent threads">
+                {renderRecent()}
+              </SidebarSection>
+              <SidebarSection
+                label="Archived"
+                collapsible
+                open={showArchived}
+                onOpenChange={setShowArchived}
+              >
+                {archived.query.isLoading && <SidebarMenuSkeleton showIcon />}
+                {archived.query.isSuccess && archived.threads.length === 0 && (
+                  <li className="px-2 py-1 text-muted-foreground text-xs">
+                    No archived threads
+                  </li>
+                )}
+                {archived.threads.map(renderItem)}
+                <LoadMoreSentinel query={archived.query} />
+              </SidebarSection>
+            </>
+          )}
+        </SidebarContent>
         <SidebarFooter footer={footer} />
         <SidebarRail />
       </ShadcnSidebar>
@@ -243,6 +285,74 @@ export function Sidebar({
   );
 }
 
+/**
+ * Infinite thread list query for one sidebar section, paged by cursor
+ */
+function useThreadPages(
+  filter: { pinned?: boolean; archived?: boolean },
+  { pageSize, enabled }: { pageSize: number; enabled: boolean },
+) {
+  const { orpc } = useAgentStartContext();
+  const query = useInfiniteQuery({
+    ...orpc.thread.list.infiniteOptions({
+      input: (cursor: string | undefined) => ({ ...filter, pageSize, cursor }),
+      initialPageParam: undefined,
+      getNextPageParam: (lastPage) => lastPage.pageInfo.nextCursor ?? undefined,
+    }),
+    enabled,
+  });
+
+  // Flatten all pages into a single array of threads
+  const threads = useMemo(() => {
+    if (!query.data) return [];
+    return query.data.pages.flatMap((page) =>
+      page.threads.map((thread) => normalizeThread(thread)),
+    );
+  }, [query.data]);
+
+  return { threads, query };
+}
+
+/**
+ * Loads the next page once the end of a list scrolls into view. The
+ * observer is recreated after each page, so a sentinel still in view keeps
+ * loading
+ */
+function LoadMoreSentinel({
+  query: { hasNextPage, isFetchingNextPage, fetchNextPage },
+}: {
+  query: Pick<
+    ReturnType<typeof useThreadPages>["query"],
+    "hasNextPage" | "isFetchingNextPage" | "fetchNextPage"
+  >;
+}) {
+  const [target, setTarget] = useState<HTMLLIElement | null>(null);
+  useEffect(() => {
+    if (
+      !target ||
+      !hasNextPage ||
+      isFetchingNextPage ||
+      typeof IntersectionObserver === "undefined"
+    ) {
+      return;
+    }
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        void fetchNextPage();
+      }
+    });
+    observer.observe(target);
+    return () => observer.disconnect();
+  }, [target, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  if (!hasNextPage) return null;
+  return (
+    <li ref={setTarget} className="list-none">
+      {isFetchingNextPage && <SidebarMenuSkeleton showIcon />}
+    </li>
+  );
+}
+
 function normalizeThread(thread: DBThread): DBThread {
   return {
     ...thread,
@@ -273,22 +383,45 @@ function ThreadAvatar({ title }: { title?: string | null }) {
   );
 }
 
+type ThreadUpdate = {
+  title?: string;
+  pinned?: boolean;
+  archived?: boolean;
+  tags?: string[];
+};
+
 function MoreOptions({
-  threadTitle,
-  onRename,
+  thread,
+  onUpdate,
   onDelete,
 }: {
-  threadTitle: string;
-  onRename: (title: string) => void;
+  thread: DBThread;
+  onUpdate: (data: ThreadUpdate) => void;
   onDelete: () => void;
 }) {
+  const threadTitle = thread.title ?? "Thread";
+
   const handleRename = () => {
     const newTitle = window.prompt("Enter new thread title:", threadTitle);
     if (newTitle?.trim() && newTitle !== threadTitle) {
-      onRename(newTitle.trim());
+      onUpdate({ title: newTitle.trim() });
     }
   };
 
+  const handleEditTags = () => {
+    const input = window.prompt(
+      "Enter tags, separated by commas:",
+      (thread.tags ?? []).join(", "),
+    );
+    if (input === null) return;
+    onUpdate({
+      tags: input
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+    });
+  };
+
   const handleDelete = () => {
     if (window.confirm(`Are you sure you want to delete "${threadTitle}"?`)) {
       onDelete();
@@ -319,6 +452,22 @@ function MoreOptions({
           <PencilSimpleIcon weight="duotone" className="size-4.5" />{" "}
           <span>Rename</span>
         </MenuItem>
+        <MenuItem onClick={() => onUpdate({ pinned: !thread.pinned })}>
+          {thread.pinned ? (
+            <PushPinSlashIcon weight="duotone" className="size-4.5" />
+          ) : (
+            <PushPinIcon weight="duotone" className="size-4.5" />
+          )}{" "}
+          <span>{thread.pinned ? "Unpin" : "Pin"}</span>
+        </MenuItem>
+        <MenuItem onClick={handleEditTags}>
+          <TagIcon weight="duotone" className="size-4.5" />{" "}
+          <span>Edit tags</span>
+        </MenuItem>
+        <MenuItem onClick={() => onUpdate({ archived: !thread.archived })}>
+          <ArchiveIcon weight="duotone" className="size-4.5" />{" "}
+          <span>{thread.archived ? "Unarchive" : "Archive"}</span>
+        </MenuItem>
         <MenuItem onClick={handleDelete}>
           <TrashIcon
             weight="duotone"
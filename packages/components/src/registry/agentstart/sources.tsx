@@ -6,6 +6,7 @@ EXPORTS: Sources, SourcesTrigger, SourcesContent, Source
 FEATURES:
   - Collapsible list of used sources
   - Provides default trigger and link styling
+  - Shows the cited site's hostname next to each source title
 SEARCHABLE: citations, sources list, collapsible references, agent sources
 agent-frontmatter:end */
 
@@ -70,19 +71,37 @@ export const SourcesContent = ({
 
 export type SourceProps = ComponentProps<"a">;
 
-export const Source = ({ href, title, children, ...props }: SourceProps) => (
-  <a
-    className="flex items-center gap-2"
-    href={href}
-    rel="noreferrer"
-    target="_blank"
-    {...props}
-  >
-    {children ?? (
-      <>
-        <BookIcon className="size-4" weight="duotone" />
-        <span className="block font-medium">{title}</span>
-      </>
-    )}
-  </a>
-);
+const getHostname = (href?: string) => {
+  if (!href) {
+    return null;
+  }
+  try {
+    return new URL(href).hostname.replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+};
+
+export const Source = ({ href, title, children, ...props }: SourceProps) => {
+  const hostname = getHostname(href);
+
+  return (
+    <a
+      className="flex items-center gap-2"
+      href={href}
+      rel="noreferrer"
+      target="_blank"
+      {...props}
+    >
+      {children ?? (
+        <>
+          <BookIcon className="size-4 shrink-0" weight="duotone" />
+          <span className="block truncate font-medium">{title}</span>
+          {hostname && hostname !== title && (
+            <span className="shrink-0 text-muted-foreground">{hostname}</span>
+          )}
+        </>
+      )}
+    </a>
+  );
+};
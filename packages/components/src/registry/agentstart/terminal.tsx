@@ -0,0 +1,203 @@
+/* agent-frontmatter:start
+AGENT: Terminal output component
+PURPOSE: Render command output with ANSI colors, following new output while a command runs
+USAGE: <Terminal output={stdout} live={isRunning} />
+EXPORTS: Terminal, TerminalProps, parseAnsi, AnsiSpan, AnsiStyle
+FEATURES:
+  - Renders SGR styles: 16, 256 and true colors, bold, dim, italic and underline
+  - Drops cursor movement and other control sequences
+  - Collapses carriage-return redraws such as progress bars to their last state
+  - Sticks to the bottom while live unless the user scrolled up
+SEARCHABLE: terminal, ansi colors, command output, live output, console view
+agent-frontmatter:end */
+
+"use client";
+
+import {
+  type CSSProperties,
+  type HTMLAttributes,
+  useEffect,
+  useMemo,
+  useRef,
+} from "react";
+import { cn } from "@/lib/utils";
+
+export interface AnsiStyle {
+  color?: string;
+  background?: string;
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+export interface AnsiSpan {
+  text: string;
+  style: AnsiStyle;
+}
+
+// Standard and bright colors, in SGR order
+const ANSI_COLORS = [
+  "#4b5563",
+  "#dc2626",
+  "#16a34a",
+  "#ca8a04",
+  "#2563eb",
+  "#c026d3",
+  "#0891b2",
+  "#d1d5db",
+  "#6b7280",
+  "#ef4444",
+  "#22c55e",
+  "#eab308",
+  "#3b82f6",
+  "#d946ef",
+  "#06b6d4",
+  "#f9fafb",
+];
+
+// Matches escape sequences: CSI (captured), OSC and single-character escapes
+const ESCAPE_PATTERN =
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: escape sequences are what we parse
+  /\u001b\[([0-?]*)[ -/]*([@-~])|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)|\u001b[@-Z\\-_]/g;
+
+function get256Color(index: number) {
+  if (index < 16) return ANSI_COLORS[index];
+  if (index < 232) {
+    const value = index - 16;
+    const channel = (n: number) => (n === 0 ? 0 : 55 + n * 40);
+    return `rgb(${channel(Math.floor(value / 36))}, ${channel(Math.floor(value / 6) % 6)}, ${channel(value % 6)})`;
+  }
+  const gray = 8 + (index - 232) * 10;
+  return `rgb(${gray}, ${gray}, ${gray})`;
+}
+
+function applySgr(style: AnsiStyle, params: number[]): AnsiStyle {
+  let next = { ...style };
+  for (let i = 0; i < params.length; i++) {
+    const code = params[i] ?? 0;
+    if (code === 0) next = {};
+    else if (code === 1) next.bold = true;
+    else if (code === 2) next.dim = true;
+    else if (code === 3) next.italic = true;
+    else if (code === 4) next.underline = true;
+    else if (code === 22) {
+      next.bold = undefined;
+      next.dim = undefined;
+    } else if (code === 23) next.italic = undefined;
+    else if (code === 24) next.underline = undefined;
+    else if (code >= 30 && code <= 37) next.color = ANSI_COLORS[code - 30];
+    else if (code >= 90 && code <= 97) next.color = ANSI_COLORS[code - 82];
+    else if (code === 39) next.color = undefined;
+    else if (code >= 40 && code <= 47) next.background = ANSI_COLORS[code - 40];
+    else if (code >= 100 && code <= 107)
+      next.background = ANSI_COLORS[code - 92];
+    else if (code === 49) next.background = undefined;
+    else if (code === 38 || code === 48) {
+      const key = code === 38 ? "color" : "background";
+      if (params[i + 1] === 5 && params[i + 2] !== undefined) {
+        next[key] = get256Color(params[i + 2] as number);
+        i += 2;
+      } else if (params[i + 1] === 2 && params[i + 4] !== undefined) {
+        next[key] = `rgb(${params[i + 2]}, ${params[i + 3]}, ${params[i + 4]})`;
+        i += 4;
+      }
+    }
+  }
+  return next;
+}
+
+/**
+ * Split ANSI-colored text into styled spans
+ */
+export function parseAnsi(text: string): AnsiSpan[] {
+  // Keep only the last redraw of lines rewritten with carriage returns
+  const normalized = text
+    .replace(/\r\n/g, "\n")
+    .split("\n")
+    .map((line) => line.slice(line.lastIndexOf("\r") + 1))
+    .join("\n");
+
+  const spans: AnsiSpan[] = [];
+  let style: AnsiStyle = {};
+  let lastIndex = 0;
+  const push = (value: string) => {
+    if (!value) return;
+    const previous = spans[spans.length - 1];
+    if (previous && previous.style === style) {
+      previous.text += value;
+    } else {
+      spans.push({ text: value, style });
+    }
+  };
+
+  for (const match of normalized.matchAll(ESCAPE_PATTERN)) {
+    push(normalized.slice(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+    if (match[2] === "m") {
+      style = applySgr(
+        style,
+        (match[1] || "0").split(";").map((param) => Number(param) || 0),
+      );
+    }
+  }
+  push(normalized.slice(lastIndex));
+  return spans;
+}
+
+function toCss(style: AnsiStyle): CSSProperties | undefined {
+  if (Object.values(style).every((value) => value === undefined)) {
+    return undefined;
+  }
+  return {
+    color: style.color,
+    backgroundColor: style.background,
+    fontWeight: style.bold ? 600 : undefined,
+    opacity: style.dim ? 0.7 : undefined,
+    fontStyle: style.italic ? "italic" : undefined,
+    textDecoration: style.underline ? "underline" : undefined,
+  };
+}
+
+export type TerminalProps = HTMLAttributes<HTMLPreElement> & {
+  output: string;
+  /** Follow new output as it arrives */
+  live?: boolean;
+};
+
+export function Terminal({ output, live, className, ...props }: TerminalProps) {
+  const ref = useRef<HTMLPreElement>(null);
+  const stickToBottom = useRef(true);
+  const spans = useMemo(() => parseAnsi(output), [output]);
+
+  // Scroll again whenever the output grows
+  useEffect(() => {
+    const element = ref.current;
+    if (live && element && stickToBottom.current) {
+      element.scrollTop = element.scrollHeight;
+    }
+  }, [live, spans]);
+
+  return (
+    <pre
+      ref={ref}
+      data-terminal
+      onScroll={(event) => {
+        const element = event.currentTarget;
+        stickToBottom.current =
+          element.scrollHeight - element.scrollTop - element.clientHeight < 16;
+      }}
+      className={cn(
+        "max-h-[200px] overflow-auto whitespace-pre-wrap break-words rounded-lg border bg-background px-4 py-2 font-mono text-foreground text-xs leading-normal",
+        className,
+      )}
+      {...props}
+    >
+      {spans.map((span, index) => (
+        <span key={index} style={toCss(span.style)}>
+          {span.text}
+        </span>
+      ))}
+    </pre>
+  );
+}
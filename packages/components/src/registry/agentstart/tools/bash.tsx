@@ -5,9 +5,10 @@ USAGE: <Bash part={toolPart} />
 EXPORTS: Bash, BashProps
 FEATURES:
   - Shows executed command with description
-  - Renders stdout and stderr with syntax highlighting
+  - Streams stdout and stderr into a live terminal with ANSI colors
   - Displays execution duration and exit code
   - Distinguishes between success and error states
+  - Labels background commands with their process ID
 SEARCHABLE: bash tool, shell command ui, terminal output view
 agent-frontmatter:end */
 
@@ -20,26 +21,29 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { CodeBlock } from "../code-block";
 import { Steps, StepsContent, StepsItem, StepsTrigger } from "../steps";
+import { Terminal } from "../terminal";
 
 export interface BashProps {
   part: ToolUIPart<InferUITools<Pick<Tools, "bash">>>;
 }
 
-export function Bash({ part: { state, input, output } }: BashProps) {
+export function Bash({ part }: BashProps) {
+  const { state, input, output } = part;
   const hasOutput = output?.metadata?.stdout || output?.metadata?.stderr;
   const formatDuration = (ms?: number) => {
     if (!ms) return "";
     return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(2)}s`;
   };
   const isLoading = ["input-streaming", "input-available"].includes(state);
+  // Preliminary outputs carry the output tail while the command runs
+  const isRunning = isLoading || output?.status === "pending";
 
   const title = useMemo(() => {
     if (!input?.command) return <span>Ran command</span>;
     return (
       <div className="flex w-full items-center gap-2 overflow-hidden">
-        Ran command:
+        {input.background ? "Started process:" : "Ran command:"}
         <Tooltip>
           <TooltipTrigger
             render={
@@ -70,6 +74,9 @@ export function Bash({ part: { state, input, output } }: BashProps) {
                       Exit code: {output.metadata.exitCode}
                     </span>
                   )}
+                  {output.metadata?.processId && (
+                    <span>Process: {output.metadata.processId}</span>
+                  )}
                   {output.metadata?.duration && (
                     <span>
                       Duration: {formatDuration(output.metadata.duration)}
@@ -85,12 +92,12 @@ export function Bash({ part: { state, input, output } }: BashProps) {
         </Tooltip>
       </div>
     );
-  }, [input?.command, input?.description, output, state]);
+  }, [input?.command, input?.description, input?.background, output, state]);
 
   return (
     <Steps data-tool-bash>
       <StepsTrigger
-        loading={isLoading}
+        loading={isRunning}
         error={output?.status === "error" || Boolean(output?.error)}
         leftIcon={<CommandIcon weight="duotone" className="size-4" />}
       >
@@ -107,7 +114,7 @@ export function Bash({ part: { state, input, output } }: BashProps) {
         </StepsItem>
 
         {/* Status indicators */}
-        {isLoading && (
+        {isRunning && !hasOutput && (
           <StepsItem className="flex items-center gap-2 text-muted-foreground text-xs">
             <span>Executing command...</span>
           </StepsItem>
@@ -116,22 +123,22 @@ export function Bash({ part: { state, input, output } }: BashProps) {
         {/* Standard output */}
         {output?.metadata?.stdout && (
           <StepsItem>
-            <CodeBlock code={output.metadata.stdout} language="bash" />
+            <Terminal output={output.metadata.stdout} live={isRunning} />
           </StepsItem>
         )}
 
         {/* No output message */}
-        {state === "output-available" && output && !hasOutput && (
+        {output?.status === "done" && !hasOutput && (
           <StepsItem>Command executed successfully (no output)</StepsItem>
         )}
 
         {/* Standard error */}
         {output?.metadata?.stderr && (
           <StepsItem>
-            <CodeBlock
-              code={output.metadata.stderr}
-              language="bash"
-              className="border-red-200 text-xs dark:border-red-900"
+            <Terminal
+              output={output.metadata.stderr}
+              live={isRunning}
+              className="border-red-200 dark:border-red-900"
             />
           </StepsItem>
         )}
@@ -0,0 +1,95 @@
+/* agent-frontmatter:start
+AGENT: MCP tool UI component
+PURPOSE: Display calls to tools provided by MCP servers
+USAGE: <McpTool part={dynamicToolPart} />
+EXPORTS: McpTool, McpToolProps
+FEATURES:
+  - Shows the MCP server and tool name parsed from the namespaced tool name
+  - Renders the call arguments as JSON
+  - Renders text and image content returned by the server
+SEARCHABLE: mcp tool, model context protocol ui, dynamic tool view
+agent-frontmatter:end */
+
+import { PlugsConnectedIcon } from "@phosphor-icons/react";
+import type { MCPToolOutput } from "agentstart/agent";
+import type { DynamicToolUIPart } from "ai";
+import { Shimmer } from "../shimmer";
+import { Steps, StepsContent, StepsItem, StepsTrigger } from "../steps";
+
+export interface McpToolProps {
+  part: DynamicToolUIPart;
+}
+
+const parseToolName = (toolName: string) => {
+  const [, server, ...rest] = toolName.split("__");
+  return rest.length > 0
+    ? { server, tool: rest.join("__") }
+    : { server: undefined, tool: toolName };
+};
+
+export function McpTool({ part }: McpToolProps) {
+  const isLoading = ["input-streaming", "input-available"].includes(part.state);
+  const output =
+    part.state === "output-available"
+      ? (part.output as MCPToolOutput | undefined)
+      : undefined;
+  const errorMessage =
+    part.state === "output-error" ? part.errorText : output?.error?.message;
+  const { server, tool } = parseToolName(part.toolName);
+  const metadata = output?.metadata;
+  const hasInput =
+    part.input !== undefined && Object.keys(part.input ?? {}).length > 0;
+
+  return (
+    <Steps data-tool-mcp>
+      <StepsTrigger
+        leftIcon={<PlugsConnectedIcon weight="duotone" className="size-4" />}
+        loading={isLoading}
+        error={Boolean(errorMessage) || output?.status === "error"}
+      >
+        <div className="flex items-center gap-2">
+          {server && (
+            <code className="rounded bg-muted/50 px-1 py-0.5 font-mono text-xs">
+              {metadata?.server ?? server}
+            </code>
+          )}
+          <span>{metadata?.tool ?? tool}</span>
+        </div>
+      </StepsTrigger>
+      <StepsContent>
+        {hasInput && (
+          <StepsItem>
+            <pre className="max-h-[200px] overflow-auto rounded bg-muted/50 p-2 font-mono text-xs">
+              {JSON.stringify(part.input, null, 2)}
+            </pre>
+          </StepsItem>
+        )}
+        {isLoading && (
+          <StepsItem className="flex items-center gap-2 text-muted-foreground text-xs">
+            <Shimmer>Calling tool...</Shimmer>
+          </StepsItem>
+        )}
+        {output?.status === "done" && (
+          <StepsItem className="flex flex-col gap-2">
+            {metadata?.content
+              ?.filter((item) => item.type === "image")
+              .map((item, index) => (
+                <img
+                  key={`${part.toolCallId}-image-${index}`}
+                  alt={`${tool} result`}
+                  className="max-h-[300px] w-fit rounded border"
+                  src={`data:${item.mimeType};base64,${item.data}`}
+                />
+              ))}
+            <pre className="max-h-[300px] overflow-y-auto whitespace-pre-wrap border-muted border-l-2 pl-2 text-muted-foreground text-xs">
+              {output.prompt}
+            </pre>
+          </StepsItem>
+        )}
+        {errorMessage && (
+          <StepsItem className="text-red-600 text-xs">{errorMessage}</StepsItem>
+        )}
+      </StepsContent>
+    </Steps>
+  );
+}
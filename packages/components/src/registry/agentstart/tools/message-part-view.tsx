@@ -8,11 +8,17 @@ FEATURES:
   - Renders text content with markdown support
   - Handles reasoning blocks with collapsible UI
   - Supports all AgentStart tool visualizations
+  - Renders sub-agent tasks with their nested steps
+  - Renders web fetches and web search results
+  - Renders MCP server tools through a generic view
+  - Renders background process listings, logs and kills
+  - Shows Approve/Reject buttons under any tool call awaiting approval
 SEARCHABLE: message view, tool renderer, part dispatcher, ui orchestrator
 agent-frontmatter:end */
 
 import type { AgentStartToolSet, BaseMessagePart } from "agentstart/agent";
-import { memo } from "react";
+import { isToolOrDynamicToolUIPart } from "ai";
+import { memo, type ReactNode } from "react";
 import isEqual from "react-fast-compare";
 import { Response } from "../response";
 import { Bash } from "./bash";
@@ -20,6 +26,8 @@ import { EditFile } from "./edit";
 import { Glob } from "./glob";
 import { Grep } from "./grep";
 import { Ls } from "./ls";
+import { McpTool } from "./mcp-tool";
+import { Process } from "./process";
 import { ReadFile } from "./read";
 import {
   Reasoning as BaseReasoning,
@@ -27,7 +35,11 @@ import {
   ReasoningContent,
   ReasoningTrigger,
 } from "./reasoning";
+import { Task } from "./task";
 import { Todo } from "./todo";
+import { ToolApproval } from "./tool-approval";
+import { WebFetch } from "./web-fetch";
+import { WebSearch } from "./web-search";
 import { WriteFile } from "./write";
 
 // ========= Add your custom tool types here =========
@@ -45,6 +57,23 @@ interface Props {
 }
 
 export const MessagePart = memo<Props>(({ part, isStreaming }) => {
+  const view = renderPart(part, isStreaming);
+  // Any tool can require approval, so the buttons are not left to each view
+  if (isToolOrDynamicToolUIPart(part) && part.approval) {
+    return (
+      <>
+        {view}
+        <ToolApproval part={part} />
+      </>
+    );
+  }
+  return view;
+}, isEqual);
+
+function renderPart(
+  part: BaseMessagePart<ExtendedToolSet>,
+  isStreaming: boolean,
+): ReactNode {
   switch (part.type) {
     case "tool-read": {
       return <ReadFile part={part} />;
@@ -61,9 +90,22 @@ export const MessagePart = memo<Props>(({ part, isStreaming }) => {
       return <Grep part={part} />;
     case "tool-ls":
       return <Ls part={part} />;
+    case "tool-processList":
+    case "tool-processLogs":
+    case "tool-processKill":
+      return <Process part={part} />;
+    case "tool-task":
+      return <Task part={part} />;
     case "tool-todoRead":
     case "tool-todoWrite":
       return <Todo part={part} />;
+    case "tool-webFetch":
+      return <WebFetch part={part} />;
+    case "tool-webSearch":
+      return <WebSearch part={part} />;
+    case "dynamic-tool":
+      // Tools discovered on MCP servers are namespaced as mcp__<server>__<tool>
+      return part.toolName.startsWith("mcp__") ? <McpTool part={part} /> : null;
 
     case "reasoning":
       return (
@@ -78,7 +120,7 @@ export const MessagePart = memo<Props>(({ part, isStreaming }) => {
     default:
       return null;
   }
-}, isEqual);
+}
 
 function Reasoning({
   className,
@@ -0,0 +1,127 @@
+/* agent-frontmatter:start
+AGENT: Process tools UI component
+PURPOSE: Display background processes listed, read and stopped by the agent
+USAGE: <Process part={toolPart} />
+EXPORTS: Process, ProcessProps
+FEATURES:
+  - Lists background processes with their state and command
+  - Shows the stdout and stderr tail of a process
+  - Reports processes stopped by processKill
+SEARCHABLE: process tool, background process ui, process logs view
+agent-frontmatter:end */
+
+import { TerminalWindowIcon } from "@phosphor-icons/react";
+import type { Tools } from "agentstart/agent";
+import type { InferUITools, ToolUIPart } from "ai";
+import { CodeBlock } from "../code-block";
+import { Steps, StepsContent, StepsItem, StepsTrigger } from "../steps";
+
+export interface ProcessProps {
+  part: ToolUIPart<
+    InferUITools<Pick<Tools, "processList" | "processLogs" | "processKill">>
+  >;
+}
+
+function getTitle(part: ProcessProps["part"]) {
+  switch (part.type) {
+    case "tool-processList":
+      return "List processes";
+    case "tool-processLogs":
+      return "Read process logs";
+    case "tool-processKill":
+      return "Stop process";
+  }
+}
+
+export function Process({ part }: ProcessProps) {
+  const { state, output } = part;
+  const isLoading = ["input-streaming", "input-available"].includes(state);
+  const processId =
+    part.type === "tool-processList" ? undefined : part.input?.processId;
+
+  return (
+    <Steps data-tool-process>
+      <StepsTrigger
+        loading={isLoading}
+        error={output?.status === "error" || Boolean(output?.error)}
+        leftIcon={<TerminalWindowIcon weight="duotone" className="size-4" />}
+      >
+        <div className="flex min-w-0 items-center gap-2">
+          <span className="shrink-0">{getTitle(part)}</span>
+          {processId && (
+            <span className="truncate font-mono text-muted-foreground">
+              {processId}
+            </span>
+          )}
+        </div>
+      </StepsTrigger>
+      <StepsContent>
+        {output?.status === "error" && (
+          <StepsItem className="text-muted-foreground text-xs">
+            {output.error?.message ?? output.prompt}
+          </StepsItem>
+        )}
+
+        {part.type === "tool-processList" &&
+          part.output?.metadata &&
+          (part.output.metadata.processes.length ? (
+            part.output.metadata.processes.map((process) => (
+              <StepsItem key={process.id} className="flex flex-col gap-0.5">
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="font-mono">{process.id}</span>
+                  <span
+                    className={
+                      process.running
+                        ? "text-green-600"
+                        : "text-muted-foreground"
+                    }
+                  >
+                    {process.running
+                      ? "running"
+                      : `exited (${process.exitCode})`}
+                  </span>
+                </div>
+                <span className="truncate font-mono text-muted-foreground text-xs">
+                  {process.command}
+                </span>
+              </StepsItem>
+            ))
+          ) : (
+            <StepsItem className="text-muted-foreground text-xs">
+              No background processes
+            </StepsItem>
+          ))}
+
+        {part.type === "tool-processLogs" && part.output?.metadata && (
+          <>
+            <StepsItem className="text-muted-foreground text-xs">
+              {part.output.metadata.running
+                ? "Running"
+                : `Exited with code ${part.output.metadata.exitCode}`}
+            </StepsItem>
+            {part.output.metadata.stdout && (
+              <StepsItem>
+                <CodeBlock code={part.output.metadata.stdout} language="bash" />
+              </StepsItem>
+            )}
+            {part.output.metadata.stderr && (
+              <StepsItem>
+                <CodeBlock
+                  code={part.output.metadata.stderr}
+                  language="bash"
+                  className="border-red-200 text-xs dark:border-red-900"
+                />
+              </StepsItem>
+            )}
+          </>
+        )}
+
+        {part.type === "tool-processKill" && part.output?.status === "done" && (
+          <StepsItem className="text-muted-foreground text-xs">
+            {part.output.prompt}
+          </StepsItem>
+        )}
+      </StepsContent>
+    </Steps>
+  );
+}
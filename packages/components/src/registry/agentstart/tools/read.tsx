@@ -8,6 +8,8 @@ FEATURES:
   - Syntax highlighting based on file extension
   - Displays file content with line numbers
   - Handles partial file reads with range indicators
+  - Previews images returned to vision models with their dimensions
+  - Shows the page range of PDF reads
 SEARCHABLE: read tool, file view ui, code viewer
 agent-frontmatter:end */
 
@@ -31,14 +33,50 @@ export interface ReadFileProps {
 
 export function ReadFile({ part: { state, input, output } }: ReadFileProps) {
   const fileName = input?.filePath?.split("/").pop() || input?.filePath;
+  const pdf = output?.metadata?.pdf;
   const readingRange = useMemo(() => {
+    if (pdf) {
+      const pages =
+        pdf.first === pdf.last
+          ? `Page ${pdf.first}`
+          : `Pages ${pdf.first} - ${pdf.last}`;
+      return pdf.totalPages ? `${pages} of ${pdf.totalPages}` : pages;
+    }
+    if (input?.pages) {
+      return `Pages ${input.pages}`;
+    }
     if (input?.offset === undefined && input?.limit === undefined) {
       return null;
     }
     const start = input.offset ?? 0;
     const end = input.limit ? start + input.limit : "end";
     return `Lines ${start + 1} - ${end}`;
-  }, [input]);
+  }, [input, pdf]);
+
+  const image = output?.metadata?.image;
+  const imagePreview = useMemo(() => {
+    if (!image) return null;
+    const dimensions =
+      image.width && image.height ? `${image.width} × ${image.height}` : null;
+    const resizedFrom = image.originalSize
+      ? `downscaled from ${image.originalSize.width} × ${image.originalSize.height}`
+      : null;
+
+    return (
+      <figure className="flex flex-col gap-1">
+        <img
+          alt={fileName}
+          className="max-h-[300px] w-fit rounded border bg-muted object-contain"
+          src={`data:${image.mediaType};base64,${image.data}`}
+        />
+        {(dimensions || resizedFrom) && (
+          <figcaption className="text-muted-foreground text-xs">
+            {[dimensions, resizedFrom].filter(Boolean).join(", ")}
+          </figcaption>
+        )}
+      </figure>
+    );
+  }, [image, fileName]);
 
   const preview = useMemo(() => {
     if (!output?.metadata?.content) return null;
@@ -98,6 +136,7 @@ export function ReadFile({ part: { state, input, output } }: ReadFileProps) {
             <Shimmer>Reading file...</Shimmer>
           </StepsItem>
         )}
+        {imagePreview && <StepsItem>{imagePreview}</StepsItem>}
         {preview && <StepsItem>{preview}</StepsItem>}
         {output?.error?.message && (
           <StepsItem className="text-red-600 text-xs">
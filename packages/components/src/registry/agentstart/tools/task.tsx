@@ -0,0 +1,123 @@
+/* agent-frontmatter:start
+AGENT: Task tool UI component
+PURPOSE: Display sub-agent delegation from the task tool with its nested steps
+USAGE: <Task part={toolPart} />
+EXPORTS: Task, TaskProps
+FEATURES:
+  - Shows the sub-agent name and task description
+  - Lists nested sub-agent steps collapsed by default
+  - Follows live progress through task_progress data parts
+  - Renders the sub-agent's final report
+SEARCHABLE: task tool, sub-agent ui, delegate view, nested steps
+agent-frontmatter:end */
+
+"use client";
+
+import {
+  ChatTextIcon,
+  RobotIcon,
+  WrenchIcon,
+  XCircleIcon,
+} from "@phosphor-icons/react";
+import type { Tools } from "agentstart/agent";
+import { useAgentStartContext, useDataParts } from "agentstart/client";
+import type { InferUITools, ToolUIPart } from "ai";
+import { useMemo } from "react";
+import { Response } from "../response";
+import { Shimmer } from "../shimmer";
+import { Steps, StepsContent, StepsItem, StepsTrigger } from "../steps";
+
+export interface TaskProps {
+  part: ToolUIPart<InferUITools<Pick<Tools, "task">>>;
+}
+
+export function Task({
+  part: { state, input, output, toolCallId },
+}: TaskProps) {
+  const { threadId } = useAgentStartContext();
+  const dataParts = useDataParts(threadId ?? "default");
+  const isLoading =
+    ["input-streaming", "input-available"].includes(state) ||
+    output?.status === "pending";
+
+  const progress = useMemo(() => {
+    for (let index = dataParts.length - 1; index >= 0; index -= 1) {
+      const dataPart = dataParts[index];
+      if (
+        dataPart?.type === "data-agentstart-task_progress" &&
+        dataPart.data.toolCallId === toolCallId
+      ) {
+        return dataPart.data;
+      }
+    }
+    return null;
+  }, [dataParts, toolCallId]);
+
+  const steps = progress?.steps ?? [];
+  const report = output?.status === "done" ? output.prompt : null;
+
+  return (
+    <Steps data-tool-task>
+      <StepsTrigger
+        leftIcon={<RobotIcon weight="duotone" className="size-4" />}
+        loading={isLoading}
+        error={output?.status === "error" || Boolean(output?.error)}
+      >
+        <div className="flex items-center gap-2">
+          <code className="rounded bg-muted/50 px-1 py-0.5 font-mono text-xs">
+            {input?.agent}
+          </code>
+          <span className="truncate">{input?.description}</span>
+          {steps.length > 0 && (
+            <span className="text-muted-foreground text-xs">
+              {steps.length} step{steps.length !== 1 && "s"}
+            </span>
+          )}
+        </div>
+      </StepsTrigger>
+      <StepsContent>
+        {steps.map((step) => (
+          <StepsItem
+            key={step.id}
+            className="flex items-center gap-2 text-muted-foreground text-xs"
+          >
+            {step.status === "error" ? (
+              <XCircleIcon className="size-4 shrink-0 text-red-600" />
+            ) : step.type === "tool" ? (
+              <WrenchIcon className="size-4 shrink-0" weight="duotone" />
+            ) : (
+              <ChatTextIcon className="size-4 shrink-0" weight="duotone" />
+            )}
+            {step.toolName && (
+              <span className="font-medium text-foreground">
+                {step.toolName}
+              </span>
+            )}
+            {step.status === "running" ? (
+              <Shimmer as="span" className="truncate">
+                {step.title}
+              </Shimmer>
+            ) : (
+              <span className="truncate">{step.title}</span>
+            )}
+          </StepsItem>
+        ))}
+        {isLoading && steps.length === 0 && (
+          <StepsItem className="flex items-center gap-2 text-muted-foreground text-xs">
+            <Shimmer>Starting sub-agent...</Shimmer>
+          </StepsItem>
+        )}
+        {report && (
+          <StepsItem className="mt-1 border-muted border-l-2 pl-2 text-sm">
+            <Response>{report}</Response>
+          </StepsItem>
+        )}
+        {output?.error?.message && (
+          <StepsItem className="text-red-600 text-xs">
+            {output.error.message}
+          </StepsItem>
+        )}
+      </StepsContent>
+    </Steps>
+  );
+}
@@ -0,0 +1,79 @@
+/* agent-frontmatter:start
+AGENT: Tool approval UI component
+PURPOSE: Let users approve or reject tool calls that require a decision
+USAGE: <ToolApproval part={toolPart} />
+EXPORTS: ToolApproval, ToolApprovalProps
+FEATURES:
+  - Renders Approve/Reject buttons for approval-requested tool calls
+  - Sends the decision through the thread store to resume the run
+  - Shows the recorded decision once the user has responded
+SEARCHABLE: tool approval, approve reject buttons, human in the loop ui
+agent-frontmatter:end */
+
+"use client";
+
+import { CheckIcon, XIcon } from "@phosphor-icons/react";
+import { useAgentStartContext, useAgentStore } from "agentstart/client";
+import type { ToolUIPart } from "ai";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+
+export interface ToolApprovalProps {
+  part: Pick<ToolUIPart, "state" | "approval">;
+}
+
+export function ToolApproval({ part: { state, approval } }: ToolApprovalProps) {
+  const { threadId } = useAgentStartContext();
+  const storeId = threadId ?? "default";
+  const addToolApprovalResponse = useAgentStore(
+    (state) => state.addToolApprovalResponse,
+    storeId,
+  );
+  const [pending, setPending] = useState(false);
+
+  if (!approval) {
+    return null;
+  }
+
+  if (state === "approval-requested") {
+    const respond = async (approved: boolean) => {
+      setPending(true);
+      try {
+        await addToolApprovalResponse({ id: approval.id, approved });
+      } finally {
+        setPending(false);
+      }
+    };
+
+    return (
+      <div className="mt-2 flex items-center gap-2">
+        <span className="flex-1 text-muted-foreground text-xs">
+          This action requires your approval.
+        </span>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={pending}
+          onClick={() => respond(false)}
+        >
+          <XIcon className="size-3.5" />
+          Reject
+        </Button>
+        <Button size="sm" disabled={pending} onClick={() => respond(true)}>
+          <CheckIcon className="size-3.5" />
+          Approve
+        </Button>
+      </div>
+    );
+  }
+
+  if (approval.approved === false) {
+    return (
+      <div className="mt-2 text-muted-foreground text-xs">
+        Rejected{approval.reason ? `: ${approval.reason}` : ""}
+      </div>
+    );
+  }
+
+  return null;
+}
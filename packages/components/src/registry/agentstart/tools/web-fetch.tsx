@@ -0,0 +1,77 @@
+/* agent-frontmatter:start
+AGENT: Web fetch tool UI component
+PURPOSE: Display pages fetched by the webFetch tool
+USAGE: <WebFetch part={toolPart} />
+EXPORTS: WebFetch, WebFetchProps
+FEATURES:
+  - Shows the fetched URL and page title
+  - Indicates content type, status and truncation
+  - Previews the converted markdown
+SEARCHABLE: web fetch tool, fetch url ui, page fetch view
+agent-frontmatter:end */
+
+import { GlobeIcon } from "@phosphor-icons/react";
+import type { Tools } from "agentstart/agent";
+import type { InferUITools, ToolUIPart } from "ai";
+import { Shimmer } from "../shimmer";
+import { Steps, StepsContent, StepsItem, StepsTrigger } from "../steps";
+
+export interface WebFetchProps {
+  part: ToolUIPart<InferUITools<Pick<Tools, "webFetch">>>;
+}
+
+export function WebFetch({ part: { state, input, output } }: WebFetchProps) {
+  const isLoading =
+    ["input-streaming", "input-available"].includes(state) ||
+    output?.status === "pending";
+  const metadata = output?.metadata;
+  const url = metadata?.url ?? input?.url;
+
+  return (
+    <Steps data-tool-web-fetch>
+      <StepsTrigger
+        leftIcon={<GlobeIcon weight="duotone" className="size-4" />}
+        loading={isLoading}
+        error={output?.status === "error" || Boolean(output?.error)}
+      >
+        <div className="flex min-w-0 items-center gap-2">
+          <span className="shrink-0">Fetch</span>
+          <span className="truncate text-muted-foreground">
+            {metadata?.title || url}
+          </span>
+        </div>
+      </StepsTrigger>
+      <StepsContent>
+        {isLoading && (
+          <StepsItem className="flex items-center gap-2 text-muted-foreground text-xs">
+            <Shimmer>Fetching page...</Shimmer>
+          </StepsItem>
+        )}
+        {output?.status === "done" && (
+          <StepsItem className="flex flex-col gap-2">
+            <div className="flex flex-wrap items-center gap-2 text-muted-foreground text-xs">
+              <a
+                className="truncate font-mono text-primary hover:underline"
+                href={url}
+                rel="noreferrer"
+                target="_blank"
+              >
+                {url}
+              </a>
+              {metadata?.contentType && <span>{metadata.contentType}</span>}
+              {metadata?.truncated && <span>(truncated)</span>}
+            </div>
+            <pre className="max-h-[300px] overflow-y-auto whitespace-pre-wrap border-muted border-l-2 pl-2 text-muted-foreground text-xs">
+              {output.prompt}
+            </pre>
+          </StepsItem>
+        )}
+        {output?.error?.message && (
+          <StepsItem className="text-red-600 text-xs">
+            {output.error.message}
+          </StepsItem>
+        )}
+      </StepsContent>
+    </Steps>
+  );
+}
@@ -0,0 +1,92 @@
+/* agent-frontmatter:start
+AGENT: Web search tool UI component
+PURPOSE: Display search results from the webSearch tool
+USAGE: <WebSearch part={toolPart} />
+EXPORTS: WebSearch, WebSearchProps
+FEATURES:
+  - Shows the search query and result count
+  - Lists result titles, hostnames and snippets as links
+SEARCHABLE: web search tool, search results ui, web search view
+agent-frontmatter:end */
+
+import { MagnifyingGlassIcon } from "@phosphor-icons/react";
+import type { Tools } from "agentstart/agent";
+import type { InferUITools, ToolUIPart } from "ai";
+import { Shimmer } from "../shimmer";
+import { Steps, StepsContent, StepsItem, StepsTrigger } from "../steps";
+
+export interface WebSearchProps {
+  part: ToolUIPart<InferUITools<Pick<Tools, "webSearch">>>;
+}
+
+const getHostname = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+};
+
+export function WebSearch({ part: { state, input, output } }: WebSearchProps) {
+  const isLoading =
+    ["input-streaming", "input-available"].includes(state) ||
+    output?.status === "pending";
+  const results = output?.metadata?.results ?? [];
+
+  return (
+    <Steps data-tool-web-search>
+      <StepsTrigger
+        leftIcon={<MagnifyingGlassIcon weight="duotone" className="size-4" />}
+        loading={isLoading}
+        error={output?.status === "error" || Boolean(output?.error)}
+      >
+        <div className="flex min-w-0 items-center gap-2">
+          <span className="shrink-0">Search</span>
+          <span className="truncate text-muted-foreground">{input?.query}</span>
+          {output?.status === "done" && (
+            <span className="shrink-0 text-muted-foreground text-xs">
+              {results.length} result{results.length !== 1 && "s"}
+            </span>
+          )}
+        </div>
+      </StepsTrigger>
+      <StepsContent>
+        {isLoading && (
+          <StepsItem className="flex items-center gap-2 text-muted-foreground text-xs">
+            <Shimmer>Searching the web...</Shimmer>
+          </StepsItem>
+        )}
+        {output?.status === "done" && results.length === 0 && (
+          <StepsItem className="text-muted-foreground text-xs italic">
+            No results found
+          </StepsItem>
+        )}
+        {results.map((result) => (
+          <StepsItem key={result.url} className="flex flex-col gap-0.5 text-xs">
+            <a
+              className="flex items-center gap-2 hover:underline"
+              href={result.url}
+              rel="noreferrer"
+              target="_blank"
+            >
+              <span className="truncate font-medium">{result.title}</span>
+              <span className="shrink-0 text-muted-foreground">
+                {getHostname(result.url)}
+              </span>
+            </a>
+            {result.snippet && (
+              <p className="line-clamp-2 text-muted-foreground">
+                {result.snippet}
+              </p>
+            )}
+          </StepsItem>
+        ))}
+        {output?.error?.message && (
+          <StepsItem className="text-red-600 text-xs">
+            {output.error.message}
+          </StepsItem>
+        )}
+      </StepsContent>
+    </Steps>
+  );
+}
@@ -29,7 +29,8 @@ export interface WriteFileProps {
   part: ToolUIPart<InferUITools<Pick<Tools, "write">>>;
 }
 
-export function WriteFile({ part: { state, input, output } }: WriteFileProps) {
+export function WriteFile({ part }: WriteFileProps) {
+  const { state, input, output } = part;
   const fileName = input?.filePath?.split("/").pop() || input?.filePath;
   const fileContent = input?.content?.replace(/\\n/g, "\n");
   const isLoading = ["input-streaming", "input-available"].includes(state);
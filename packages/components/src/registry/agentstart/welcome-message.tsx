@@ -89,9 +89,7 @@ export function WelcomeMessage({ className }: WelcomeMessageProps) {
         // Update context state (single source of truth)
         setThreadId(newThreadId);
 
-        queryClient.invalidateQueries(
-          orpc.thread.list.queryOptions({ input: {} }),
-        );
+        queryClient.invalidateQueries({ queryKey: orpc.thread.list.key() });
 
         navigate(`/thread/${newThreadId}`);
 
@@ -6,6 +6,7 @@ EXPORTS: DB, DrizzleAdapterConfig, drizzleMemoryAdapter
 FEATURES:
   - Translates AgentStart filters into Drizzle query builders
   - Normalizes date handling across Postgres and SQLite providers
+  - Full-text search with Postgres tsvector or SQLite FTS5, LIKE elsewhere
 SEARCHABLE: packages, agentstart, src, memory, adapter, drizzle, persistence
 agent-frontmatter:end */
 
@@ -44,6 +45,7 @@ import {
   sql,
 } from "drizzle-orm";
 import { getTables } from "../get-tables";
+import { getSearchIndexName, getSearchTerms, toFtsQuery } from "../search";
 import { createGetFieldFunction, validateTable } from "../shared";
 import { withApplyDefault } from "../utils";
 
@@ -571,6 +573,20 @@ export const drizzleMemoryAdapter =
       getField,
       getModelName,
     } = createTransform(db, config, options);
+    const searchIndexes = new Map<string, Promise<boolean>>();
+    // Migrations create FTS5 tables on SQLite; older databases may lack them
+    const hasSearchIndex = (tableName: string) => {
+      let exists = searchIndexes.get(tableName);
+      if (!exists) {
+        exists = Promise.resolve(
+          db.all(
+            sql`select name from sqlite_master where type = 'table' and name = ${getSearchIndexName(tableName)}`,
+          ),
+        ).then((rows: unknown[]) => rows.length > 0);
+        searchIndexes.set(tableName, exists);
+      }
+      return exists;
+    };
     return {
       id: "drizzle",
       async create<T extends Record<string, unknown>, R = T>({
@@ -668,6 +684,70 @@ export const drizzleMemoryAdapter =
         const first = result[0];
         return first ? Number(first.count) : 0;
       },
+      async search<T>({
+        model,
+        fields,
+        query,
+        where,
+        limit,
+      }: {
+        model: string;
+        fields: string[];
+        query: string;
+        where?: Where[];
+        limit?: number;
+      }): Promise<T[]> {
+        const terms = getSearchTerms(query);
+        if (!terms.length) return [];
+        const schemaModel = getSchema(model);
+        const tableName = getModelName(model);
+        const columns = fields.map(
+          (field) => schemaModel[getField(model, field)],
+        );
+        const clause = where?.length ? convertWhereClause(where, model) : [];
+        const conditions: SQL[] = [...clause];
+        let rank: SQL | undefined;
+
+        if (config.provider === "postgresql") {
+          const document = sql.join(
+            columns.map((column) => sql`coalesce(${column}::text, '')`),
+            sql` || ' ' || `,
+          );
+          const vector = sql`to_tsvector('simple', ${document})`;
+          const tsquery = sql`plainto_tsquery('simple', ${terms.join(" ")})`;
+          conditions.push(sql`${vector} @@ ${tsquery}`);
+          rank = desc(sql`ts_rank(${vector}, ${tsquery})`);
+        } else if (
+          config.provider === "sqlite" &&
+          (await hasSearchIndex(tableName))
+        ) {
+          const index = sql.identifier(getSearchIndexName(tableName));
+          conditions.push(
+            sql`${schemaModel.id} in (select "id" from ${index} where ${index} match ${toFtsQuery(terms)})`,
+          );
+        } else {
+          // No native index: every term must appear in one of the fields
+          for (const term of terms) {
+            const matches = or(
+              ...columns.map((column) => like(column, `%${term}%`)),
+            );
+            if (matches) conditions.push(matches);
+          }
+        }
+
+        const builder = db
+          .select()
+          .from(schemaModel)
+          .where(and(...conditions))
+          .limit(limit ?? 20);
+        if (rank) {
+          builder.orderBy(rank);
+        }
+        const rows = (await builder) as Array<Record<string, unknown>>;
+        return rows
+          .map((row) => transformOutput(row, model))
+          .filter((row): row is Record<string, unknown> => row !== null) as T[];
+      },
       async update<T>({
         model,
         where,
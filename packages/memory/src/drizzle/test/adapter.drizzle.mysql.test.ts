@@ -80,6 +80,11 @@ describeFn("Drizzle Adapter Tests (MySQL)", async () => {
         userId VARCHAR(255) NOT NULL,
         visibility VARCHAR(32) NOT NULL,
         lastContext JSON NULL,
+        compaction JSON NULL,
+        pinned BOOLEAN NOT NULL DEFAULT FALSE,
+        archived BOOLEAN NOT NULL DEFAULT FALSE,
+        tags JSON NULL,
+        shareToken VARCHAR(255) NULL,
         createdAt DATETIME NOT NULL,
         updatedAt DATETIME NOT NULL
       ) ENGINE=InnoDB;
@@ -88,6 +93,7 @@ describeFn("Drizzle Adapter Tests (MySQL)", async () => {
       CREATE TABLE message (
         id VARCHAR(255) PRIMARY KEY,
         threadId VARCHAR(255) NOT NULL,
+        parentId VARCHAR(255) NULL,
         role VARCHAR(64) NOT NULL,
         parts JSON NOT NULL,
         attachments JSON NULL,
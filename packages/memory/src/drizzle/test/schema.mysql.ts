@@ -8,7 +8,13 @@ FEATURES:
 SEARCHABLE: drizzle schema, mysql test schema, thread message
 agent-frontmatter:end */
 
-import { datetime, json, mysqlTable, varchar } from "drizzle-orm/mysql-core";
+import {
+  boolean,
+  datetime,
+  json,
+  mysqlTable,
+  varchar,
+} from "drizzle-orm/mysql-core";
 
 export const thread = mysqlTable("thread", {
   id: varchar("id", { length: 255 }).primaryKey(),
@@ -16,6 +22,11 @@ export const thread = mysqlTable("thread", {
   userId: varchar("userId", { length: 255 }).notNull(),
   visibility: varchar("visibility", { length: 32 }).notNull(),
   lastContext: json("lastContext"),
+  compaction: json("compaction"),
+  pinned: boolean("pinned").notNull().default(false),
+  archived: boolean("archived").notNull().default(false),
+  tags: json("tags"),
+  shareToken: varchar("shareToken", { length: 255 }),
   createdAt: datetime("createdAt", { mode: "date" }).notNull(),
   updatedAt: datetime("updatedAt", { mode: "date" }).notNull(),
 });
@@ -25,6 +36,7 @@ export const message = mysqlTable("message", {
   threadId: varchar("threadId", { length: 255 })
     .notNull()
     .references(() => thread.id, { onDelete: "cascade" }),
+  parentId: varchar("parentId", { length: 255 }),
   role: varchar("role", { length: 64 }).notNull(),
   parts: json("parts").notNull(),
   attachments: json("attachments"),
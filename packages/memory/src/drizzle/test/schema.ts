@@ -8,7 +8,7 @@ FEATURES:
 SEARCHABLE: drizzle schema, postgres test schema, thread message
 agent-frontmatter:end */
 
-import { jsonb, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+import { boolean, jsonb, pgTable, text, timestamp } from "drizzle-orm/pg-core";
 
 export const thread = pgTable("thread", {
   id: text("id").primaryKey(),
@@ -16,6 +16,11 @@ export const thread = pgTable("thread", {
   userId: text("userId").notNull(),
   visibility: text("visibility").notNull(),
   lastContext: jsonb("lastContext"),
+  compaction: jsonb("compaction"),
+  pinned: boolean("pinned").notNull().default(false),
+  archived: boolean("archived").notNull().default(false),
+  tags: jsonb("tags"),
+  shareToken: text("shareToken"),
   createdAt: timestamp("createdAt").notNull(),
   updatedAt: timestamp("updatedAt").notNull(),
 });
@@ -25,6 +30,7 @@ export const message = pgTable("message", {
   threadId: text("threadId")
     .notNull()
     .references(() => thread.id, { onDelete: "cascade" }),
+  parentId: text("parentId"),
   role: text("role").notNull(),
   parts: jsonb("parts").notNull(),
   attachments: jsonb("attachments"),
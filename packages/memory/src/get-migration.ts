@@ -6,6 +6,9 @@ EXPORTS: matchType, getMigrations
 FEATURES:
   - Maps field definitions to SQL column types for multiple dialects
   - Produces helpers to run or compile schema migrations
+  - Creates FTS5 tables and sync triggers for searchable fields on SQLite
+  - Gives boolean and number columns a database default, so new NOT NULL
+    flags can be added to tables that already hold rows
 SEARCHABLE: migration helper, kysely migration, adapter schema diff
 agent-frontmatter:end */
 
@@ -22,6 +25,8 @@ import type {
 import { sql } from "kysely";
 import { getSchema } from "./get-schema";
 import { createKyselyAdapter } from "./kysely/dialect";
+import { getSearchableFields, getSearchIndexName } from "./search";
+import { getColumnDefault } from "./utils";
 
 const postgresMap = {
   string: ["character varying", "text"],
@@ -122,7 +127,17 @@ export async function getMigrations(config: Omit<AgentStartOptions, "agent">) {
     order: number;
   }[] = [];
 
+  const toBeIndexed: { table: string; fields: string[] }[] = [];
+
   for (const [key, value] of Object.entries(agentStartSchema)) {
+    const searchableFields = getSearchableFields(value);
+    if (
+      dbType === "sqlite" &&
+      searchableFields.length &&
+      !tableMetadata.some((t) => t.name === getSearchIndexName(key))
+    ) {
+      toBeIndexed.push({ table: key, fields: searchableFields });
+    }
     const table = tableMetadata.find((t) => t.name === key);
     if (!table) {
       const tIndex = toBeCreated.findIndex((t) => t.table === key);
@@ -180,6 +195,7 @@ export async function getMigrations(config: Omit<AgentStartOptions, "agent">) {
   const migrations: (
     | AlterTableColumnAlteringBuilder
     | CreateTableBuilder<string, string>
+    | { execute(): Promise<unknown>; compile(): { sql: string } }
   )[] = [];
 
   function getType(field: FieldAttribute) {
@@ -239,6 +255,17 @@ export async function getMigrations(config: Omit<AgentStartOptions, "agent">) {
     const database = (dbType || "sqlite") as KyselyDatabaseType;
     return typeMap[baseType][database];
   }
+  function getDefault(field: FieldAttribute) {
+    const value = getColumnDefault(field);
+    // SQLite and MSSQL store booleans as integers
+    if (
+      typeof value === "boolean" &&
+      (dbType === "sqlite" || dbType === "mssql")
+    ) {
+      return value ? 1 : 0;
+    }
+    return value;
+  }
   if (toBeAdded.length) {
     for (const table of toBeAdded) {
       for (const [fieldName, field] of Object.entries(table.fields)) {
@@ -247,6 +274,10 @@ export async function getMigrations(config: Omit<AgentStartOptions, "agent">) {
           .alterTable(table.table)
           .addColumn(fieldName, sql.raw(type), (col) => {
             col = field.required !== false ? col.notNull() : col;
+            const defaultValue = getDefault(field);
+            if (defaultValue !== undefined) {
+              col = col.defaultTo(defaultValue);
+            }
             if (field.references) {
               col = col.references(
                 `${field.references.model}.${field.references.field}`,
@@ -280,6 +311,10 @@ export async function getMigrations(config: Omit<AgentStartOptions, "agent">) {
         const type = getType(field);
         dbT = dbT.addColumn(fieldName, sql.raw(type), (col) => {
           col = field.required !== false ? col.notNull() : col;
+          const defaultValue = getDefault(field);
+          if (defaultValue !== undefined) {
+            col = col.defaultTo(defaultValue);
+          }
           if (field.references) {
             col = col.references(
               `${field.references.model}.${field.references.field}`,
@@ -294,6 +329,42 @@ export async function getMigrations(config: Omit<AgentStartOptions, "agent">) {
       migrations.push(dbT);
     }
   }
+  if (toBeIndexed.length) {
+    const kysely = db;
+    const raw = (statement: string) => {
+      const query = sql.raw(statement);
+      return {
+        execute: () => query.execute(kysely),
+        compile: () => query.compile(kysely),
+      };
+    };
+    for (const { table, fields } of toBeIndexed) {
+      // The index keeps its own copy keyed by id; rowids of tables without
+      // an integer primary key may change on VACUUM
+      const index = getSearchIndexName(table);
+      const columns = fields.map((field) => `"${field}"`).join(", ");
+      const values = ["id", ...fields]
+        .map((field) => `new."${field}"`)
+        .join(", ");
+      migrations.push(
+        raw(
+          `create virtual table "${index}" using fts5("id" unindexed, ${columns})`,
+        ),
+        raw(
+          `create trigger "${index}_insert" after insert on "${table}" begin insert into "${index}"("id", ${columns}) values (${values}); end`,
+        ),
+        raw(
+          `create trigger "${index}_delete" after delete on "${table}" begin delete from "${index}" where "id" = old."id"; end`,
+        ),
+        raw(
+          `create trigger "${index}_update" after update on "${table}" begin delete from "${index}" where "id" = old."id"; insert into "${index}"("id", ${columns}) values (${values}); end`,
+        ),
+        raw(
+          `insert into "${index}"("id", ${columns}) select "id", ${columns} from "${table}"`,
+        ),
+      );
+    }
+  }
   async function runMigrations() {
     for (const migration of migrations) {
       await migration.execute();
@@ -303,5 +374,11 @@ export async function getMigrations(config: Omit<AgentStartOptions, "agent">) {
     const compiled = migrations.map((m) => m.compile().sql);
     return `${compiled.join(";\n\n")};`;
   }
-  return { toBeCreated, toBeAdded, runMigrations, compileMigrations };
+  return {
+    toBeCreated,
+    toBeAdded,
+    toBeIndexed,
+    runMigrations,
+    compileMigrations,
+  };
 }
@@ -6,6 +6,7 @@ EXPORTS: getTables
 FEATURES:
   - Defines thread/message structures used by Agent Start
   - Allows field renaming and additional fields via options
+  - Marks thread titles and message parts as searchable
   - Mirrors Agent Start table generation without plugin logic
 SEARCHABLE: memory adapter schema, table metadata, getTables, thread schema
 agent-frontmatter:end */
@@ -31,6 +32,7 @@ export const getTables = (
         title: {
           type: "string",
           required: true,
+          searchable: true,
           fieldName: options.thread?.fields?.title || "title",
         },
         userId: {
@@ -49,6 +51,33 @@ export const getTables = (
           required: false,
           fieldName: options.thread?.fields?.lastContext || "lastContext",
         },
+        compaction: {
+          type: "json",
+          required: false,
+          fieldName: options.thread?.fields?.compaction || "compaction",
+        },
+        pinned: {
+          type: "boolean",
+          required: true,
+          defaultValue: () => false,
+          fieldName: options.thread?.fields?.pinned || "pinned",
+        },
+        archived: {
+          type: "boolean",
+          required: true,
+          defaultValue: () => false,
+          fieldName: options.thread?.fields?.archived || "archived",
+        },
+        tags: {
+          type: "json",
+          required: false,
+          fieldName: options.thread?.fields?.tags || "tags",
+        },
+        shareToken: {
+          type: "string",
+          required: false,
+          fieldName: options.thread?.fields?.shareToken || "shareToken",
+        },
         createdAt: {
           type: "date",
           required: true,
@@ -77,6 +106,11 @@ export const getTables = (
             onDelete: "cascade",
           },
         },
+        parentId: {
+          type: "string",
+          required: false,
+          fieldName: options.message?.fields?.parentId || "parentId",
+        },
         role: {
           type: "string",
           required: true,
@@ -85,6 +119,7 @@ export const getTables = (
         parts: {
           type: "json",
           required: true,
+          searchable: true,
           fieldName: options.message?.fields?.parts || "parts",
         },
         attachments: {
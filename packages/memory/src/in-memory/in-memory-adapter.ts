@@ -6,6 +6,7 @@ EXPORTS: MemoryDB, inMemoryAdapter
 FEATURES:
   - Stores agent data in process-local maps
   - Implements query helpers for quick lookups and filtering
+  - Case-insensitive substring search across searchable fields
 SEARCHABLE: packages, agentstart, src, memory, adapter, in-memory, persistence
 agent-frontmatter:end */
 
@@ -16,6 +17,7 @@ import type {
 } from "@agentstart/types";
 import { generateId } from "@agentstart/utils";
 import { getTables } from "../get-tables";
+import { getSearchTerms } from "../search";
 import { createGetFieldFunction, toComparable } from "../shared";
 import { withApplyDefault } from "../utils";
 
@@ -297,6 +299,49 @@ export const inMemoryAdapter =
           );
         return results as T[];
       },
+      async search<T>({
+        model,
+        fields,
+        query,
+        where,
+        limit = 20,
+      }: {
+        model: string;
+        fields: string[];
+        query: string;
+        where?: Where[];
+        limit?: number;
+      }): Promise<T[]> {
+        ensureTable(model);
+        const terms = getSearchTerms(query).map((term) => term.toLowerCase());
+        if (!terms.length) return [];
+        let table = db[model]!;
+        if (where?.length) {
+          table = convertWhereClause(where, table, model);
+        }
+        const columns = fields.map((field) => getField(model, field));
+        const results = table
+          .filter((record) => {
+            const text = columns
+              .map((column) => {
+                const value = record[column];
+                return typeof value === "string"
+                  ? value
+                  : JSON.stringify(value);
+              })
+              .join(" ")
+              .toLowerCase();
+            return terms.every((term) => text.includes(term));
+          })
+          // Most recently inserted first
+          .reverse()
+          .slice(0, limit)
+          .map((record) => transformOutput(record, model))
+          .filter(
+            (record): record is Record<string, unknown> => record !== null,
+          );
+        return results as T[];
+      },
       async count({
         model,
         where,
@@ -2,7 +2,7 @@
 AGENT: Memory helper exports
 PURPOSE: Re-export shared memory helpers and types (NO adapters to avoid barrel export issues)
 USAGE: import { getTables, DBThread } from "agentstart/memory"
-EXPORTS: field helpers, getTables, toZodSchema, getMigrations, getSchema, convert utilities, schema types
+EXPORTS: field helpers, getTables, toZodSchema, getMigrations, getSchema, convert utilities, schema types, search helpers
 FEATURES:
   - Centralizes memory helper exports for adapters and tests
   - Exports types and utilities only (adapters are in separate subpaths)
@@ -13,5 +13,6 @@ export * from "./get-migration";
 export * from "./get-schema";
 export * from "./get-tables";
 export * from "./schema";
+export * from "./search";
 export * from "./to-zod";
 export * from "./utils";
@@ -6,6 +6,7 @@ EXPORTS: kyselyMemoryAdapter
 FEATURES:
   - Serializes values according to the configured SQL dialect
   - Hydrates query results back into AgentStart models
+  - Full-text search with Postgres tsvector or SQLite FTS5, LIKE elsewhere
 SEARCHABLE: packages, agentstart, src, memory, adapter, kysely, persistence
 agent-frontmatter:end */
 
@@ -35,6 +36,13 @@ import {
   type UpdateQueryBuilder,
 } from "kysely";
 import { getTables } from "../get-tables";
+import {
+  escapeLikePattern,
+  getSearchIndexName,
+  getSearchTerms,
+  LIKE_ESCAPE_CHARACTER,
+  toFtsQuery,
+} from "../search";
 import { createGetFieldFunction, validateTable } from "../shared";
 import { withApplyDefault } from "../utils";
 
@@ -219,10 +227,11 @@ const createTransform = (
         if (value === undefined && fieldAttr.defaultValue === undefined) {
           continue;
         }
-        transformedData[fieldAttr.fieldName || field] = withApplyDefault(
-          transformValueToDB(value, model, field),
-          fieldAttr,
-          action,
+        // Defaults go through the same conversion, e.g. booleans on SQLite
+        transformedData[fieldAttr.fieldName || field] = transformValueToDB(
+          withApplyDefault(value, fieldAttr, action),
+          model,
+          field,
         );
       }
       return transformedData;
@@ -382,6 +391,22 @@ export const kyselyMemoryAdapter =
       getModelName,
       getField,
     } = createTransform(db, opts, config);
+    const searchIndexes = new Map<string, Promise<boolean>>();
+    // Migrations create FTS5 tables on SQLite; older databases may lack them
+    const hasSearchIndex = (tableName: string) => {
+      let exists = searchIndexes.get(tableName);
+      if (!exists) {
+        exists = db
+          .selectFrom("sqlite_master")
+          .select("name")
+          .where("type", "=", "table")
+          .where("name", "=", getSearchIndexName(tableName))
+          .executeTakeFirst()
+          .then(Boolean);
+        searchIndexes.set(tableName, exists);
+      }
+      return exists;
+    };
     return {
       id: "kysely",
       async create(data) {
@@ -620,6 +645,62 @@ export const kyselyMemoryAdapter =
         }
         return firstResult.count as number;
       },
+      async search(data) {
+        const { model, fields, where, limit = 20 } = data;
+        const terms = getSearchTerms(data.query);
+        if (!terms.length) return [];
+        const type = config?.type ?? "sqlite";
+        const tableName = getModelName(model);
+        const columns = fields.map((field) =>
+          sql.ref(`${tableName}.${getField(model, field)}`),
+        );
+        const { and, or } = convertWhereClause(model, where);
+        let query: any = db.selectFrom(tableName).selectAll(tableName);
+        if (and) {
+          query = query.where((eb: any) => eb.and(and.map((expr) => expr(eb))));
+        }
+        if (or) {
+          query = query.where((eb: any) => eb.or(or.map((expr) => expr(eb))));
+        }
+
+        if (type === "postgres") {
+          const document = sql.join(
+            columns.map((column) => sql`coalesce(${column}::text, '')`),
+            sql` || ' ' || `,
+          );
+          const vector = sql`to_tsvector('simple', ${document})`;
+          const tsquery = sql`plainto_tsquery('simple', ${terms.join(" ")})`;
+          query = query
+            .where(sql<boolean>`${vector} @@ ${tsquery}`)
+            .orderBy(sql`ts_rank(${vector}, ${tsquery})`, "desc");
+        } else if (type === "sqlite" && (await hasSearchIndex(tableName))) {
+          const indexName = getSearchIndexName(tableName);
+          query = query
+            .innerJoin(indexName, `${indexName}.id`, `${tableName}.id`)
+            .where(
+              sql<boolean>`${sql.table(indexName)} match ${toFtsQuery(terms)}`,
+            )
+            .orderBy(sql.ref(`${indexName}.rank`));
+        } else {
+          // No native index: every term must appear in one of the fields
+          for (const term of terms) {
+            const pattern = `%${escapeLikePattern(term)}%`;
+            query = query.where((eb: any) =>
+              eb.or(
+                columns.map(
+                  (column) =>
+                    sql<boolean>`${column} like ${pattern} escape ${LIKE_ESCAPE_CHARACTER}`,
+                ),
+              ),
+            );
+          }
+        }
+
+        query =
+          config?.type === "mssql" ? query.top(limit) : query.limit(limit);
+        const res = await query.execute();
+        return res.map((r: Record<string, any>) => transformOutput(r, model));
+      },
       async delete(data) {
         const { model, where } = data;
         const { and, or } = convertWhereClause(model, where);
@@ -262,4 +262,49 @@ describe("adapter test", async () => {
       expect(updated?.parts).toEqual(updatedParts);
     },
   );
+
+  test.skipIf(!sqlite)(
+    "adds new thread columns to an existing database (sqlite)",
+    async () => {
+      const legacy = new Kysely({
+        dialect: new SqliteDialect({ database: new Database(":memory:") }),
+      });
+      const options = createOptions({ db: legacy, type: "sqlite" });
+      await legacy.schema
+        .createTable("thread")
+        .addColumn("id", "text", (col) => col.primaryKey())
+        .addColumn("title", "text", (col) => col.notNull())
+        .addColumn("userId", "text", (col) => col.notNull())
+        .addColumn("visibility", "text", (col) => col.notNull())
+        .addColumn("lastContext", "text")
+        .addColumn("createdAt", "date", (col) => col.notNull())
+        .addColumn("updatedAt", "date", (col) => col.notNull())
+        .execute();
+      await legacy
+        .insertInto("thread" as never)
+        .values({
+          id: "thread-legacy",
+          title: "Before pins",
+          userId: "user-legacy",
+          visibility: "private",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        } as never)
+        .execute();
+
+      const { toBeAdded, runMigrations } = await getMigrations(options);
+      expect(
+        Object.keys(toBeAdded.find((t) => t.table === "thread")?.fields ?? {}),
+      ).toEqual(["compaction", "pinned", "archived", "tags", "shareToken"]);
+      await runMigrations();
+
+      const adapter = kyselyMemoryAdapter(legacy, { type: "sqlite" })(options);
+      const thread = await adapter.findOne({
+        model: "thread",
+        where: [{ field: "id", value: "thread-legacy" }],
+      });
+      expect(thread).toMatchObject({ pinned: false, archived: false });
+      await legacy.destroy();
+    },
+  );
 });
@@ -6,6 +6,7 @@ EXPORTS: mongodbMemoryAdapter
 FEATURES:
   - Maps agent schema into MongoDB collections
   - Handles serialization quirks for document storage
+  - Full-text search through a lazily created $text index
 SEARCHABLE: packages, agentstart, src, memory, adapter, mongodb, persistence
 agent-frontmatter:end */
 
@@ -16,6 +17,7 @@ import type {
 } from "@agentstart/types";
 import { type Db, ObjectId } from "mongodb";
 import { getTables } from "../get-tables";
+import { getSearchTerms } from "../search";
 import { validateTable } from "../shared";
 import { withApplyDefault } from "../utils";
 
@@ -286,6 +288,22 @@ export const mongodbMemoryAdapter =
   (db: Db) => (options: Omit<AgentStartOptions, "agent">) => {
     const transform = createTransform(options);
     const hasCustomId = options.advanced?.generateId;
+    const searchIndexes = new Map<string, Promise<string>>();
+    // MongoDB allows a single text index per collection
+    const ensureSearchIndex = (collection: string, fields: string[]) => {
+      let index = searchIndexes.get(collection);
+      if (!index) {
+        index = db
+          .collection(collection)
+          .createIndex(
+            Object.fromEntries(fields.map((field) => [field, "text"])),
+            { name: "agentstart_search" },
+          );
+        index.catch(() => searchIndexes.delete(collection));
+        searchIndexes.set(collection, index);
+      }
+      return index;
+    };
     return {
       id: "mongodb-adapter",
       async create<T extends Record<string, unknown>, R = T>(data: {
@@ -358,6 +376,38 @@ export const mongodbMemoryAdapter =
           transform.transformOutput(r as Record<string, unknown>, model),
         ) as T[];
       },
+      async search<T>(data: {
+        model: string;
+        fields: string[];
+        query: string;
+        where?: Where[];
+        limit?: number;
+      }): Promise<T[]> {
+        const { model, fields, where, limit = 20 } = data;
+        const terms = getSearchTerms(data.query);
+        if (!terms.length) return [];
+        const collection = transform.getModelName(model);
+        await ensureSearchIndex(
+          collection,
+          fields.map((field) => transform.getField(field, model)),
+        );
+        const clause = where ? transform.convertWhereClause(where, model) : {};
+        // Quoted terms are required phrases; bare terms would be OR-ed
+        const search = terms.map((term) => `"${term}"`).join(" ");
+        const res = await db
+          .collection(collection)
+          .find(
+            { $and: [clause, { $text: { $search: search } }] },
+            { projection: { score: { $meta: "textScore" } } },
+          )
+          .sort({ score: { $meta: "textScore" } })
+          .limit(limit)
+          .toArray();
+        return res.map((r) => {
+          const { score: _score, ...doc } = r;
+          return transform.transformOutput(doc, model);
+        }) as T[];
+      },
       async count(data) {
         const { model, where } = data;
         const clause = where ? transform.convertWhereClause(where, model) : {};
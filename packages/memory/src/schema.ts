@@ -18,6 +18,11 @@ export const threadSchema = z.object({
   userId: z.string(),
   visibility: z.enum(["public", "private"]).default("private"),
   lastContext: z.any().nullish(),
+  compaction: z.any().nullish(),
+  pinned: z.boolean().default(false),
+  archived: z.boolean().default(false),
+  tags: z.array(z.string()).nullish(),
+  shareToken: z.string().nullish(),
   createdAt: z.date().default(() => new Date()),
   updatedAt: z.date().default(() => new Date()),
 });
@@ -27,6 +32,10 @@ export type DBThread = z.infer<typeof threadSchema>;
 export const messageSchema = z.object({
   id: z.string(),
   threadId: z.string().describe("The ID of the thread this message belongs to"),
+  parentId: z
+    .string()
+    .nullish()
+    .describe("The message this one replies to; siblings form branches"),
   role: z.enum(["system", "user", "assistant"]),
   parts: z.any(),
   attachments: z.any().optional(),
@@ -0,0 +1,74 @@
+/* agent-frontmatter:start
+AGENT: Memory search helpers
+PURPOSE: Share query parsing and index naming between full-text search implementations
+USAGE: const terms = getSearchTerms(query)
+EXPORTS: getSearchTerms, getSearchIndexName, getSearchableFields, toFtsQuery, escapeLikePattern, LIKE_ESCAPE_CHARACTER
+FEATURES:
+  - Splits user queries into deduplicated terms
+  - Builds SQLite FTS5 match expressions that cannot raise syntax errors
+  - Names the FTS5 tables that migrations create for searchable models
+  - Escapes LIKE wildcards so terms match literally
+SEARCHABLE: full-text search, fts5, search terms, search index
+agent-frontmatter:end */
+
+import type { FieldAttribute } from "@agentstart/types";
+
+// Terms beyond this add cost without narrowing results meaningfully
+const MAX_SEARCH_TERMS = 8;
+
+/**
+ * Split a user query into terms, dropping quotes and case-insensitive
+ * duplicates. Casing is kept for adapters whose `contains` is case-sensitive.
+ */
+export function getSearchTerms(query: string): string[] {
+  const terms = new Map<string, string>();
+  for (const term of query.replace(/["'`]/g, " ").split(/\s+/)) {
+    const key = term.toLowerCase();
+    if (term && !terms.has(key)) {
+      terms.set(key, term);
+    }
+  }
+  return [...terms.values()].slice(0, MAX_SEARCH_TERMS);
+}
+
+/**
+ * Name of the FTS5 table that indexes the searchable fields of a table
+ */
+export function getSearchIndexName(tableName: string): string {
+  return `${tableName}_fts`;
+}
+
+/**
+ * Logical names of the fields a table marks as searchable
+ */
+export function getSearchableFields(table: {
+  fields: Record<string, FieldAttribute>;
+}): string[] {
+  return Object.entries(table.fields)
+    .filter(([, field]) => field.searchable)
+    .map(([name]) => name);
+}
+
+/**
+ * FTS5 match expression requiring every term. Terms are quoted so
+ * operators such as `OR`, `-` or `*` in user input are matched literally.
+ */
+export function toFtsQuery(terms: string[]): string {
+  return terms.map((term) => `"${term.replace(/"/g, '""')}"`).join(" ");
+}
+
+/**
+ * Escape character used with `escapeLikePattern` in a LIKE ... ESCAPE clause
+ */
+export const LIKE_ESCAPE_CHARACTER = "\\";
+
+/**
+ * Escape `%`, `_` and the escape character so a term matches literally
+ * inside a LIKE pattern
+ */
+export function escapeLikePattern(term: string): string {
+  return term.replace(
+    /[\\%_]/g,
+    (character) => `${LIKE_ESCAPE_CHARACTER}${character}`,
+  );
+}
@@ -6,6 +6,7 @@ EXPORTS: runAdapterTest
 FEATURES:
   - Exercises CRUD flows across thread and message entities
   - Covers filtering, sorting, pagination, counting, and custom ID generation
+  - Checks boolean flag defaults and JSON tags on threads
 SEARCHABLE: memory adapter test suite, thread message validation
 agent-frontmatter:end */
 
@@ -29,6 +30,8 @@ export async function runAdapterTest(opts: AdapterTestOptions) {
     userId: "author-1",
     visibility: "private",
     lastContext: null,
+    pinned: false,
+    archived: false,
     createdAt: new Date(),
     updatedAt: new Date(),
   };
@@ -96,11 +99,15 @@ export async function runAdapterTest(opts: AdapterTestOptions) {
         userId: "author-1",
         visibility: "public",
         lastContext: null,
+        pinned: true,
+        archived: false,
+        tags: ["alpha", "room"],
         createdAt: new Date(),
         updatedAt: new Date(),
       },
     });
-    const beta = await adapter.create<DBThread>({
+    // Flags are left to their defaults
+    const beta = await adapter.create({
       model: "thread",
       data: {
         id: "thread-beta",
@@ -116,6 +123,21 @@ export async function runAdapterTest(opts: AdapterTestOptions) {
     expect(createdThreads.length).toBeGreaterThanOrEqual(3);
   });
 
+  test("should default and filter thread flags", async () => {
+    const beta = await adapter.findOne<DBThread>({
+      model: "thread",
+      where: [{ field: "id", value: "thread-beta" }],
+    });
+    expect(beta).toMatchObject({ pinned: false, archived: false });
+
+    const pinned = await adapter.findMany<DBThread>({
+      model: "thread",
+      where: [{ field: "pinned", value: true }],
+    });
+    expect(pinned.map((item) => item.id)).toEqual(["thread-alpha"]);
+    expect(pinned[0]?.tags).toEqual(["alpha", "room"]);
+  });
+
   test("should find many threads with IN operator", async () => {
     const res = await adapter.findMany<DBThread>({
       model: "thread",
@@ -0,0 +1,48 @@
+/* agent-frontmatter:start
+AGENT: Memory search test
+PURPOSE: Validates the helpers shared by full-text search implementations.
+USAGE: Run with Vitest to ensure search queries are parsed safely.
+EXPORTS: None
+FEATURES:
+  - Covers term splitting and deduplication
+  - Checks FTS5 match expressions escape user input
+  - Verifies searchable fields follow custom field names
+  - Escapes LIKE wildcards in search terms
+SEARCHABLE: packages, agentstart, src, memory, test, vitest, search
+agent-frontmatter:end */
+
+import { describe, expect, it } from "vitest";
+import { getTables } from "..";
+import {
+  escapeLikePattern,
+  getSearchableFields,
+  getSearchTerms,
+  toFtsQuery,
+} from "../search";
+
+describe("search helpers", () => {
+  it("splits queries into unique terms", () => {
+    expect(getSearchTerms('  Deploy "Vercel" deploy\tlogs ')).toEqual([
+      "Deploy",
+      "Vercel",
+      "logs",
+    ]);
+    expect(getSearchTerms("   ")).toEqual([]);
+  });
+
+  it("quotes every term of an FTS5 query", () => {
+    expect(toFtsQuery(["foo", "or", "a*b"])).toBe('"foo" "or" "a*b"');
+    expect(toFtsQuery(['say"hi'])).toBe('"say""hi"');
+  });
+
+  it("escapes LIKE wildcards and the escape character", () => {
+    expect(escapeLikePattern("100%_done\\now")).toBe("100\\%\\_done\\\\now");
+    expect(escapeLikePattern("plain")).toBe("plain");
+  });
+
+  it("lists searchable fields of thread and message tables", () => {
+    const tables = getTables({});
+    expect(getSearchableFields(tables.thread!)).toEqual(["title"]);
+    expect(getSearchableFields(tables.message!)).toEqual(["parts"]);
+  });
+});
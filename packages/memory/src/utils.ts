@@ -90,6 +90,24 @@ export function convertFromDB<T extends Record<string, unknown>>(
   return result as T;
 }
 
+/**
+ * Database default for boolean and number fields, so migrations can add
+ * NOT NULL flags to tables that already hold rows. String defaults are left
+ * to the adapters because MySQL TEXT columns cannot have one.
+ */
+export function getColumnDefault(field: FieldAttribute) {
+  if (field.type !== "boolean" && field.type !== "number") {
+    return undefined;
+  }
+  const value =
+    typeof field.defaultValue === "function"
+      ? field.defaultValue()
+      : field.defaultValue;
+  return typeof value === "boolean" || typeof value === "number"
+    ? value
+    : undefined;
+}
+
 export function withApplyDefault(
   value: unknown,
   field: FieldAttribute,
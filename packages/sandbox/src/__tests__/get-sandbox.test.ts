@@ -0,0 +1,203 @@
+/* agent-frontmatter:start
+AGENT: Sandbox resolver test
+PURPOSE: Validates sandbox pooling in getSandbox using Vitest.
+USAGE: Run during test suites to ensure scoped sandboxes stay isolated.
+EXPORTS: None
+FEATURES:
+  - Covers global, thread, user, and custom scope keys
+  - Guards idle eviction and the live instance cap
+  - Keeps leased sandboxes alive until their runs release them
+  - Verifies per-key workspace directories for the Node.js adapter
+SEARCHABLE: packages, sandbox, get-sandbox, pool, scope, tests, vitest
+agent-frontmatter:end */
+
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type {
+  AgentStartOptions,
+  SandboxAdapterFactory,
+  SandboxAPI,
+} from "@agentstart/types";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { nodeSandboxAdapter } from "../factory/nodejs";
+import { acquireSandbox, disposeSandboxes, getSandbox } from "../get-sandbox";
+
+function createFakeFactory() {
+  const created: { key?: string; dispose: ReturnType<typeof vi.fn> }[] = [];
+  const factory = vi.fn<SandboxAdapterFactory>((_options, scope) => {
+    const dispose = vi.fn(async () => {});
+    created.push({ key: scope?.key, dispose });
+    return {
+      fs: {},
+      bash: {},
+      git: {},
+      isActive: () => true,
+      dispose,
+    } as unknown as SandboxAPI;
+  });
+  return { factory, created };
+}
+
+function createOptions(
+  sandbox: SandboxAdapterFactory,
+  sandboxPool?: AgentStartOptions["sandboxPool"],
+): AgentStartOptions {
+  return { sandbox, sandboxPool } as AgentStartOptions;
+}
+
+describe("getSandbox", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("shares one sandbox across threads with the default global scope", async () => {
+    const { factory } = createFakeFactory();
+    const options = createOptions(factory);
+
+    const first = await getSandbox(options, { threadId: "t1" });
+    const second = await getSandbox(options, { threadId: "t2" });
+
+    expect(first).toBe(second);
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(factory.mock.calls[0]?.[1]).toBeUndefined();
+  });
+
+  it("isolates sandboxes per thread", async () => {
+    const { factory, created } = createFakeFactory();
+    const options = createOptions(factory, { scope: "thread" });
+
+    const first = await getSandbox(options, { threadId: "t1" });
+    const again = await getSandbox(options, { threadId: "t1" });
+    const second = await getSandbox(options, { threadId: "t2" });
+
+    expect(first).toBe(again);
+    expect(first).not.toBe(second);
+    expect(created.map((entry) => entry.key)).toEqual([
+      "thread:t1",
+      "thread:t2",
+    ]);
+  });
+
+  it("isolates sandboxes per user and custom keys", async () => {
+    const user = createFakeFactory();
+    const userOptions = createOptions(user.factory, { scope: "user" });
+    await getSandbox(userOptions, { threadId: "t1", userId: "u1" });
+    await getSandbox(userOptions, { threadId: "t2", userId: "u1" });
+    expect(user.created.map((entry) => entry.key)).toEqual(["user:u1"]);
+
+    const custom = createFakeFactory();
+    const customOptions = createOptions(custom.factory, {
+      scope: ({ userId, threadId }) => `${userId}/${threadId}`,
+    });
+    await getSandbox(customOptions, { threadId: "t1", userId: "u1" });
+    expect(custom.created.map((entry) => entry.key)).toEqual(["custom:u1/t1"]);
+  });
+
+  it("throws when the scope key is missing", async () => {
+    const { factory } = createFakeFactory();
+    const options = createOptions(factory, { scope: "user" });
+
+    await expect(getSandbox(options, { threadId: "t1" })).rejects.toThrow(
+      /requires a userId/,
+    );
+  });
+
+  it("evicts the least recently used sandbox when the cap is reached", async () => {
+    const { factory, created } = createFakeFactory();
+    const options = createOptions(factory, {
+      scope: "thread",
+      maxInstances: 2,
+    });
+
+    await getSandbox(options, { threadId: "t1" });
+    await getSandbox(options, { threadId: "t2" });
+    await getSandbox(options, { threadId: "t1" });
+    await getSandbox(options, { threadId: "t3" });
+    await vi.waitFor(() => expect(created[1]?.dispose).toHaveBeenCalled());
+
+    expect(created[0]?.dispose).not.toHaveBeenCalled();
+    await getSandbox(options, { threadId: "t1" });
+    expect(factory).toHaveBeenCalledTimes(3);
+
+    await disposeSandboxes(options);
+    expect(created[0]?.dispose).toHaveBeenCalled();
+    expect(created[2]?.dispose).toHaveBeenCalled();
+  });
+
+  it("disposes sandboxes after the idle timeout", async () => {
+    vi.useFakeTimers();
+    const { factory, created } = createFakeFactory();
+    const options = createOptions(factory, {
+      scope: "thread",
+      idleTimeout: 1000,
+    });
+
+    await getSandbox(options, { threadId: "t1" });
+    await vi.advanceTimersByTimeAsync(500);
+    await getSandbox(options, { threadId: "t1" });
+    await vi.advanceTimersByTimeAsync(800);
+    expect(created[0]?.dispose).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(300);
+    expect(created[0]?.dispose).toHaveBeenCalled();
+
+    await getSandbox(options, { threadId: "t1" });
+    expect(factory).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps leased sandboxes alive until they are released", async () => {
+    vi.useFakeTimers();
+    const { factory, created } = createFakeFactory();
+    const options = createOptions(factory, {
+      scope: "thread",
+      idleTimeout: 1000,
+      maxInstances: 1,
+    });
+
+    const lease = await acquireSandbox(options, { threadId: "t1" });
+    await getSandbox(options, { threadId: "t2" });
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(created[0]?.dispose).not.toHaveBeenCalled();
+    expect(created[1]?.dispose).toHaveBeenCalled();
+
+    lease?.release();
+    lease?.release();
+    await vi.advanceTimersByTimeAsync(999);
+    expect(created[0]?.dispose).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(created[0]?.dispose).toHaveBeenCalled();
+  });
+});
+
+describe("nodeSandboxAdapter scoped workspaces", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "sandbox-pool-test-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("gives each key its own workspace subdirectory", async () => {
+    const options = createOptions(
+      nodeSandboxAdapter({ workspacePath: tempDir }),
+      { scope: "thread" },
+    );
+
+    const first = await getSandbox(options, { threadId: "../t1" });
+    const second = await getSandbox(options, { threadId: "t2" });
+    await first?.fs.writeFile("secret.txt", "t1 only");
+
+    expect(await first?.fs.exists("secret.txt")).toBe(true);
+    expect(await second?.fs.exists("secret.txt")).toBe(false);
+
+    const directories = await fs.readdir(tempDir);
+    expect(directories).toHaveLength(2);
+    expect(directories.every((name) => !name.includes("."))).toBe(true);
+
+    await disposeSandboxes(options);
+  });
+});
@@ -6,6 +6,7 @@ EXPORTS: Bash
 FEATURES:
   - Executes templated shell commands within the remote sandbox
   - Streams stdout/stderr while preserving command metadata
+  - Starts background commands and tracks their handles
 SEARCHABLE: packages, agentstart, src, sandbox, adapter, e2b, bash
 agent-frontmatter:end */
 
@@ -14,11 +15,18 @@ import type {
   GrepFileResult,
   GrepLineMatch,
   GrepResult,
+  ShellCommandHandle,
   ShellCommandOptions,
   ShellCommandPromise,
   ShellCommandResult,
 } from "@agentstart/types";
 import type { Sandbox } from "@e2b/code-interpreter";
+import {
+  createProcessId,
+  MAX_PROCESS_OUTPUT,
+  OutputBuffer,
+  ProcessRegistry,
+} from "../../utils/processes";
 import { interpolateTemplate } from "../../utils/text";
 import { DEFAULT_WORKING_DIRECTORY } from "./constants";
 
@@ -27,6 +35,8 @@ import { DEFAULT_WORKING_DIRECTORY } from "./constants";
  * Automatically refreshes sandbox heartbeat on each operation
  */
 export class Bash implements BashAPI {
+  private readonly processes = new ProcessRegistry();
+
   constructor(
     private readonly sandbox: Sandbox,
     private readonly manager?: { keepAlive: () => Promise<void> | void },
@@ -62,6 +72,100 @@ export class Bash implements BashAPI {
     return this.run(interpolateTemplate(strings, values));
   }
 
+  /**
+   * Start a command in the background with E2B and track its handle
+   */
+  async spawn(
+    command: string,
+    options: Omit<ShellCommandOptions, "background"> = {},
+  ): Promise<ShellCommandHandle> {
+    await this.manager?.keepAlive();
+
+    const start = Date.now();
+    const stdout = new OutputBuffer(MAX_PROCESS_OUTPUT);
+    const stderr = new OutputBuffer(MAX_PROCESS_OUTPUT);
+
+    const commandHandle = await this.sandbox.commands.run(command, {
+      background: true,
+      cwd: options.cwd ?? DEFAULT_WORKING_DIRECTORY,
+      envs: options.env,
+      // E2B stops commands after 60 seconds unless told otherwise
+      timeoutMs: options.timeout ?? 0,
+      ...(typeof options.requestTimeoutMs === "number"
+        ? { requestTimeoutMs: options.requestTimeoutMs }
+        : {}),
+      onStdout: (data) => {
+        stdout.append(data);
+        options.onStdout?.(data);
+      },
+      onStderr: (data) => {
+        stderr.append(data);
+        options.onStderr?.(data);
+      },
+    });
+
+    let exitCode: number | undefined;
+    const settled = commandHandle.wait().then(
+      (result): ShellCommandResult => {
+        exitCode = result.exitCode;
+        return {
+          exitCode: result.exitCode,
+          stdout: stdout.toString(),
+          stderr: stderr.toString(),
+          error: result.error,
+          command,
+          duration: Date.now() - start,
+        };
+      },
+      // Non-zero exits reject with a CommandExitError carrying the result
+      (error: unknown): ShellCommandResult => {
+        const failed = error as { exitCode?: number; error?: string };
+        exitCode = typeof failed.exitCode === "number" ? failed.exitCode : 1;
+        return {
+          exitCode,
+          stdout: stdout.toString(),
+          stderr: stderr.toString(),
+          error:
+            failed.error ??
+            (error instanceof Error ? error.message : String(error)),
+          command,
+          duration: Date.now() - start,
+        };
+      },
+    );
+
+    const handle: ShellCommandHandle = {
+      id: createProcessId(),
+      pid: commandHandle.pid,
+      command,
+      startedAt: start,
+      get exitCode() {
+        return exitCode;
+      },
+      get stdout() {
+        return stdout.toString();
+      },
+      get stderr() {
+        return stderr.toString();
+      },
+      wait: () => settled,
+      // E2B always sends SIGKILL
+      kill: () =>
+        exitCode === undefined ? commandHandle.kill() : Promise.resolve(false),
+    };
+
+    this.processes.add(handle);
+    return handle;
+  }
+
+  listProcesses(): ShellCommandHandle[] {
+    return this.processes.list();
+  }
+
+  getProcess(id: string): ShellCommandHandle | undefined {
+    return this.processes.get(id);
+  }
+
   /**
    * Execute command using E2B
    */
@@ -92,7 +196,7 @@ export class Bash implements BashAPI {
 
     if (options.background) {
       throw new Error(
-        "Background commands are not supported by the E2B Bash adapter",
+        "Use bash.spawn to start background commands with the E2B Bash adapter",
       );
     }
 
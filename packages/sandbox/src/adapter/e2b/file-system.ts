@@ -6,6 +6,7 @@ EXPORTS: FileSystem
 FEATURES:
   - Provides helpers for reading and writing sandbox files
   - Supports directory creation and metadata queries
+  - Watches directories recursively, honoring ignore, debounce and initial scan options
 SEARCHABLE: packages, agentstart, src, sandbox, adapter, e2b, file, system
 agent-frontmatter:end */
 
@@ -19,6 +20,7 @@ import type {
 } from "@agentstart/types";
 import type { Sandbox } from "@e2b/code-interpreter";
 import path from "pathe";
+import { isIgnoredPath, WatchEventQueue } from "../../utils/watch";
 import { DEFAULT_WORKING_DIRECTORY } from "./constants";
 
 const GLOB_SPECIAL_CHARS_REGEX = /([.+^=!:${}()|[\]\\])/g;
@@ -64,6 +66,14 @@ export class FileSystem implements FileSystemAPI {
     return path.join(this.workingDirectory, filePath);
   }
 
+  // Path below the workspace without a leading "/"
+  private toWorkspaceRelativePath(absolutePath: string): string {
+    const relative = absolutePath.startsWith(this.workingDirectory)
+      ? absolutePath.slice(this.workingDirectory.length)
+      : absolutePath;
+    return relative.replace(/^\/+/, "");
+  }
+
   /**
    * Reads the contents of a directory
    */
@@ -569,14 +579,14 @@ export class FileSystem implements FileSystemAPI {
    * Watches a directory for file system changes
    */
   async watch(
-    path: string,
+    dirPath: string,
     callback: (event: FileSystemEvent) => void,
     options?: WatchOptions,
   ): Promise<WatchHandle> {
     // Auto-refresh heartbeat before operation
     await this.manager?.keepAlive();
 
-    const absolutePath = this.resolvePath(path);
+    const absolutePath = this.resolvePath(dirPath);
     const watchId = `watch-${++this.watchIdCounter}`;
 
     // Map E2B event types to our FileSystemEventType
@@ -599,51 +609,25 @@ export class FileSystem implements FileSystemAPI {
     const ignoreRegexes =
       options?.ignore?.map((pattern) => globToRegex(pattern)) ?? [];
 
-    // Check if path should be ignored
-    const shouldIgnore = (filePath: string): boolean => {
-      if (ignoreRegexes.length === 0) return false;
-
-      const relativePath = filePath.startsWith(absolutePath)
-        ? filePath.slice(absolutePath.length).replace(/^\//, "")
-        : filePath;
+    // Ignore patterns match workspace-relative paths, like readdir ignores
+    const shouldIgnore = (filePath: string): boolean =>
+      isIgnoredPath(this.toWorkspaceRelativePath(filePath), ignoreRegexes);
 
-      return ignoreRegexes.some((regex) => regex.test(relativePath));
-    };
-
-    let debounceTimer: NodeJS.Timeout | null = null;
-    const debounceMs = options?.debounceMs || 100;
-    const eventQueue: FileSystemEvent[] = [];
-
-    const flushEvents = () => {
-      const events = [...eventQueue];
-      eventQueue.length = 0;
-      for (const event of events) {
-        void this.manager?.keepAlive();
-        callback(event);
-      }
-    };
-
-    const handleEvent = (event: FileSystemEvent) => {
-      if (debounceMs > 0) {
-        eventQueue.push(event);
-        if (debounceTimer) clearTimeout(debounceTimer);
-        debounceTimer = setTimeout(flushEvents, debounceMs);
-      } else {
-        void this.manager?.keepAlive();
-        callback(event);
-      }
-    };
+    const queue = new WatchEventQueue((event) => {
+      void this.manager?.keepAlive();
+      callback(event);
+    }, options?.debounceMs);
+    let handle: WatchHandleImpl | undefined;
 
     try {
       // Use E2B's watchDir API
       const e2bHandle = await this.sandbox.files.watchDir(
         absolutePath,
         async (e2bEvent) => {
-          // E2B event structure might vary, handle gracefully
-          let eventPath = e2bEvent.name || absolutePath;
-          if (!eventPath.startsWith("/")) {
-            eventPath = this.resolvePath(eventPath);
-          }
+          // Event names are relative to the watched directory
+          const eventPath = e2bEvent.name
+            ? path.join(absolutePath, e2bEvent.name)
+            : absolutePath;
 
           // Filter out ignored paths
           if (shouldIgnore(eventPath)) {
@@ -677,9 +661,7 @@ export class FileSystem implements FileSystemAPI {
 
           const fsEvent: FileSystemEvent = {
             type: eventType,
-            path: eventPath.startsWith(this.workingDirectory)
-              ? eventPath.slice(this.workingDirectory.length) || "/"
-              : eventPath,
+            path: `/${this.toWorkspaceRelativePath(eventPath)}`,
             isDirectory: isDirectory,
             timestamp: Date.now(),
           };
@@ -692,33 +674,40 @@ export class FileSystem implements FileSystemAPI {
             this.pathTypeCache.set(eventPath, isDirectory ? "dir" : "file");
           }
 
-          handleEvent(fsEvent);
+          if (handle?.isActive() !== false) {
+            queue.push(fsEvent);
+          }
         },
         {
-          recursive: options?.recursive,
+          recursive: options?.recursive ?? true,
+          // Keep watching until the handle is stopped
+          timeoutMs: 0,
+          onExit: (error) => {
+            if (error) {
+              console.warn(`File watch for ${absolutePath} ended:`, error);
+            }
+            void handle?.stop();
+          },
         },
       );
 
       // Create the watch handle
-      const handle = new WatchHandleImpl(
-        watchId,
-        absolutePath,
-        e2bHandle,
-        () => {
-          // Cleanup
-          if (debounceTimer) {
-            clearTimeout(debounceTimer);
-            flushEvents(); // Flush any pending events
-          }
-          this.activeWatches.delete(watchId);
-        },
-      );
+      handle = new WatchHandleImpl(watchId, absolutePath, e2bHandle, () => {
+        // Deliver pending events before the handle goes away
+        queue.flush();
+        this.activeWatches.delete(watchId);
+      });
 
       this.activeWatches.set(watchId, handle);
 
       // Perform initial scan if requested
       if (options?.initialScan) {
-        await this.performInitialScan(absolutePath, callback, options);
+        await this.performInitialScan(
+          absolutePath,
+          (event) => queue.push(event),
+          shouldIgnore,
+          options.recursive ?? true,
+        );
       }
 
       return handle;
@@ -728,59 +717,45 @@ export class FileSystem implements FileSystemAPI {
   }
 
   /**
-   * Performs an initial scan of the directory
+   * Performs an initial scan of the directory, reporting existing entries as
+   * create events. Ignored directories are not descended into.
    */
   private async performInitialScan(
-    filePath: string,
-    callback: (event: FileSystemEvent) => void,
-    options?: WatchOptions,
+    directory: string,
+    emit: (event: FileSystemEvent) => void,
+    shouldIgnore: (filePath: string) => boolean,
+    recursive: boolean,
   ): Promise<void> {
-    await this.manager?.keepAlive();
+    const pending = [directory];
 
     try {
-      const entries = await this.readdir(filePath, {
-        recursive: options?.recursive,
-      });
-
-      const initialIgnoreRegexes =
-        options?.ignore?.map((pattern) => globToRegex(pattern)) ?? [];
+      while (pending.length) {
+        await this.manager?.keepAlive();
+        const current = pending.shift() as string;
+        const entries = await this.sandbox.files.list(current);
 
-      for (const entry of entries) {
-        const fullPath = `${entry.parentPath}/${entry.name}`.replace(
-          /\/+/g,
-          "/",
-        );
-        const absoluteEntryPath = path.join(
-          this.workingDirectory,
-          fullPath.replace(/^\//, ""),
-        );
-        this.pathTypeCache.set(
-          absoluteEntryPath,
-          entry.isDirectory() ? "dir" : "file",
-        );
+        for (const entry of entries) {
+          if (shouldIgnore(entry.path)) {
+            continue;
+          }
 
-        // Check if should ignore
-        if (initialIgnoreRegexes.length > 0) {
-          const relativePath = absoluteEntryPath.startsWith(filePath)
-            ? absoluteEntryPath.slice(filePath.length).replace(/^\//, "")
-            : fullPath.replace(/^\//, "");
-          const shouldIgnore = initialIgnoreRegexes.some((regex) =>
-            regex.test(relativePath),
-          );
+          const isDirectory = entry.type === "dir";
+          this.pathTypeCache.set(entry.path, isDirectory ? "dir" : "file");
+          emit({
+            type: "create",
+            path: `/${this.toWorkspaceRelativePath(entry.path)}`,
+            isDirectory,
+            timestamp: Date.now(),
+          });
 
-          if (shouldIgnore) continue;
+          if (isDirectory && recursive) {
+            pending.push(entry.path);
+          }
         }
-
-        callback({
-          type: "create",
-          path: fullPath,
-          isDirectory: entry.isDirectory(),
-          timestamp: Date.now(),
-        });
       }
     } catch (error) {
       // Directory might not exist, ignore error for initial scan
-      console.warn(`Initial scan failed for ${filePath}:`, error);
+      console.warn(`Initial scan failed for ${directory}:`, error);
     }
   }
 
@@ -6,6 +6,10 @@ EXPORTS: E2BSandbox
 FEATURES:
   - Reconnects to existing sandboxes via secondaryMemory heartbeat tracking
   - Initializes bash, git, and file-system adapters for downstream tools
+  - Snapshots the workspace as a git commit bundled for restoring elsewhere
+  - Deletes snapshot branches and bundles once they are restored
+  - Resolves declared ports to their public E2B hosts for live previews
+  - Stops file watchers before the sandbox is killed
 SEARCHABLE: packages, agentstart, src, sandbox, adapter, e2b, lifecycle, manager
 agent-frontmatter:end */
 
@@ -15,9 +19,11 @@ import type {
   FileSystemAPI,
   GitAPI,
   SandboxAPI,
+  SandboxSnapshot,
   SandboxStatus,
   SecondaryMemoryAdapter,
 } from "@agentstart/types";
+import { AgentStartError } from "@agentstart/utils";
 import { Sandbox, type SandboxOpts } from "@e2b/code-interpreter";
 import { Bash } from "./bash";
 import { DEFAULT_CONFIG, DEFAULT_WORKING_DIRECTORY } from "./constants";
@@ -199,6 +205,9 @@ export class E2BSandbox implements SandboxAPI {
   async stop(): Promise<void> {
     if (this.sandbox && this.active) {
       try {
+        if (this.fs instanceof FileSystem) {
+          await this.fs.stopAllWatches();
+        }
         await this.sandbox.kill();
         // Remove the heartbeat from secondaryMemory
         if (this.sandboxId) {
@@ -350,6 +359,119 @@ export class E2BSandbox implements SandboxAPI {
     }
   }
 
+  /**
+   * Commit the workspace to `agentstart/snapshots/<name>` without touching
+   * the checked out branch or index, and bundle it for other sandboxes
+   */
+  async snapshot(name: string): Promise<SandboxSnapshot> {
+    const sandbox = await this.getSandbox();
+    const safeName = name.replace(/[^a-zA-Z0-9_-]/g, "_");
+    const ref = `agentstart/snapshots/${safeName}`;
+    const bundlePath = `/tmp/${safeName}.bundle`;
+
+    const result = await sandbox.commands.run(
+      [
+        "set -e",
+        "git rev-parse --git-dir >/dev/null 2>&1 || git init -q",
+        `export GIT_INDEX_FILE=/tmp/${safeName}.index`,
+        "git add -A",
+        "tree=$(git write-tree)",
+        "parent=$(git rev-parse -q --verify HEAD || true)",
+        `commit=$(git -c user.name=agentstart -c user.email=agentstart@localhost commit-tree "$tree" \${parent:+-p "$parent"} -m "Snapshot ${safeName}")`,
+        `rm -f "$GIT_INDEX_FILE"`,
+        `git branch -f ${ref} "$commit"`,
+        `git bundle create -q ${bundlePath} ${ref}`,
+        `echo "$commit"`,
+      ].join("\n"),
+      { cwd: DEFAULT_WORKING_DIRECTORY },
+    );
+    const bundle = await sandbox.files.read(bundlePath, { format: "bytes" });
+    await this.keepAlive();
+
+    return {
+      type: "git",
+      ref,
+      commit: result.stdout.trim(),
+      bundle,
+    };
+  }
+
+  /**
+   * Check out a git snapshot, fetching it from its bundle when the
+   * snapshot was taken in another sandbox
+   */
+  async restore(snapshot: SandboxSnapshot): Promise<void> {
+    if (snapshot.type !== "git") {
+      throw new AgentStartError(
+        "SANDBOX_SNAPSHOT_UNSUPPORTED",
+        `The E2B sandbox cannot restore ${snapshot.type} snapshots`,
+      );
+    }
+
+    const sandbox = await this.getSandbox();
+    const commands = [
+      "set -e",
+      "git rev-parse --git-dir >/dev/null 2>&1 || git init -q",
+    ];
+    if (snapshot.bundle) {
+      const bundlePath = `/tmp/restore-${Date.now()}.bundle`;
+      await sandbox.files.write(
+        bundlePath,
+        new Blob([new Uint8Array(snapshot.bundle)]),
+      );
+      commands.push(
+        `git fetch -q ${bundlePath} "+refs/heads/${snapshot.ref}:refs/heads/${snapshot.ref}"`,
+        `rm -f ${bundlePath}`,
+      );
+    }
+    commands.push(`git checkout -q -f "${snapshot.ref}"`, "git clean -fdq");
+
+    await sandbox.commands.run(commands.join("\n"), {
+      cwd: DEFAULT_WORKING_DIRECTORY,
+    });
+    await this.keepAlive();
+  }
+
+  /**
+   * Delete the snapshot branch and bundle, unless the branch is checked out
+   */
+  async deleteSnapshot(snapshot: SandboxSnapshot): Promise<void> {
+    if (snapshot.type !== "git") {
+      return;
+    }
+
+    const sandbox = await this.getSandbox();
+    const safeName = snapshot.ref.split("/").pop();
+    await sandbox.commands.run(
+      [
+        `rm -f /tmp/${safeName}.bundle`,
+        `[ "$(git symbolic-ref -q --short HEAD)" = "${snapshot.ref}" ] || git branch -D -q "${snapshot.ref}" 2>/dev/null || true`,
+      ].join("\n"),
+      { cwd: DEFAULT_WORKING_DIRECTORY },
+    );
+  }
+
+  /**
+   * Ports declared in the config
+   */
+  getPorts(): number[] {
+    return this.config.ports ?? [];
+  }
+
+  /**
+   * Public URL E2B serves for a declared port
+   */
+  async getPortUrl(port: number): Promise<string> {
+    if (!this.getPorts().includes(port)) {
+      throw new AgentStartError(
+        "SANDBOX_PORT_NOT_DECLARED",
+        `Port ${port} is not declared in the sandbox ports`,
+      );
+    }
+    const sandbox = await this.getSandbox();
+    return `https://${sandbox.getHost(port)}`;
+  }
+
   /**
    * Dispose of the sandbox manager
    */
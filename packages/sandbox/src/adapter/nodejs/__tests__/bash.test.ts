@@ -5,6 +5,7 @@ USAGE: Run during test suites to ensure local sandbox implementations stay compl
 EXPORTS: None
 FEATURES:
   - Covers Node.js sandbox scenario: bash.test.ts
+  - Starts, tracks and kills background processes
   - Guards regression on file system and git interactions
 SEARCHABLE: packages, agentstart, src, sandbox, adapter, nodejs, tests, bash, test, vitest
 agent-frontmatter:end */
@@ -93,6 +94,34 @@ describe("Bash", () => {
     });
   });
 
+  describe("spawn - Background processes", () => {
+    it("should return a handle before the command finishes", async () => {
+      const handle = await bash.spawn(
+        `printf "ready"; sleep 0.2; printf " done"`,
+      );
+
+      expect(handle.id).toMatch(/^proc_/);
+      expect(handle.exitCode).toBeUndefined();
+      expect(bash.getProcess(handle.id)).toBe(handle);
+
+      const result = await handle.wait();
+      expect(result.exitCode).toBe(0);
+      expect(handle.exitCode).toBe(0);
+      expect(handle.stdout).toBe("ready done");
+    });
+
+    it("should kill the process group of a background command", async () => {
+      const handle = await bash.spawn(`sleep 30 & sleep 30; wait`);
+
+      expect(bash.listProcesses()).toEqual([handle]);
+      expect(await handle.kill()).toBe(true);
+
+      const result = await handle.wait();
+      expect(result.exitCode).not.toBe(0);
+      expect(await handle.kill()).toBe(false);
+    });
+  });
+
   describe("grep - File content search", () => {
     beforeEach(async () => {
       await fs.writeFile(
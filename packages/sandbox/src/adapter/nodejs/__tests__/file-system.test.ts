@@ -12,8 +12,8 @@ agent-frontmatter:end */
 import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
-import type { Dirent } from "@agentstart/types";
-import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { Dirent, FileSystemEvent } from "@agentstart/types";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { FileSystem } from "../../../adapter/nodejs/file-system";
 
 describe("FileSystem", () => {
@@ -268,4 +268,82 @@ describe("FileSystem", () => {
       expect((matches[0] as Dirent).isFile()).toBe(true);
     });
   });
+
+  describe("watch", () => {
+    it("should report recursive changes in one debounced batch per path", async () => {
+      await fs.mkdir(path.join(tempDir, "src"));
+      const events: FileSystemEvent[] = [];
+      const handle = await fileSystem.watch(
+        "/",
+        (event) => events.push(event),
+        { debounceMs: 200 },
+      );
+
+      await fs.writeFile(path.join(tempDir, "src", "index.ts"), "one");
+      await fs.mkdir(path.join(tempDir, "src", "nested"));
+      await fs.writeFile(path.join(tempDir, "src", "nested", "a.ts"), "a");
+
+      await vi.waitFor(
+        () => {
+          expect(events.map((event) => event.path).sort()).toEqual([
+            "/src/index.ts",
+            "/src/nested",
+            "/src/nested/a.ts",
+          ]);
+        },
+        { timeout: 5000, interval: 50 },
+      );
+      expect(events.every((event) => event.type === "create")).toBe(true);
+      expect(
+        events.find((event) => event.path === "/src/nested")?.isDirectory,
+      ).toBe(true);
+
+      await fs.rm(path.join(tempDir, "src", "index.ts"));
+      await vi.waitFor(
+        () => {
+          expect(events.at(-1)).toMatchObject({
+            type: "delete",
+            path: "/src/index.ts",
+          });
+        },
+        { timeout: 5000, interval: 50 },
+      );
+
+      await handle.stop();
+      expect(handle.isActive()).toBe(false);
+    });
+
+    it("should skip ignored paths and report existing entries on initial scan", async () => {
+      await fs.mkdir(path.join(tempDir, "node_modules", "pkg"), {
+        recursive: true,
+      });
+      await fs.writeFile(path.join(tempDir, "node_modules", "pkg", "x.js"), "");
+      await fs.writeFile(path.join(tempDir, "README.md"), "# Hi");
+
+      const events: FileSystemEvent[] = [];
+      const handle = await fileSystem.watch(
+        "/",
+        (event) => events.push(event),
+        { ignore: ["node_modules"], initialScan: true, debounceMs: 0 },
+      );
+
+      expect(events).toEqual([
+        expect.objectContaining({ type: "create", path: "/README.md" }),
+      ]);
+
+      await fs.writeFile(path.join(tempDir, "node_modules", "pkg", "y.js"), "");
+      await fs.writeFile(path.join(tempDir, "notes.txt"), "notes");
+      await vi.waitFor(
+        () => {
+          expect(events.map((event) => event.path)).toContain("/notes.txt");
+        },
+        { timeout: 5000, interval: 50 },
+      );
+      expect(
+        events.some((event) => event.path.startsWith("/node_modules")),
+      ).toBe(false);
+
+      await handle.stop();
+    });
+  });
 });
@@ -0,0 +1,101 @@
+/* agent-frontmatter:start
+AGENT: Sandbox adapter test
+PURPOSE: Validates OS-level isolation of Node.js sandbox commands using Vitest.
+USAGE: Run during test suites on Linux hosts with user namespaces; skipped elsewhere.
+EXPORTS: None
+FEATURES:
+  - Covers Node.js sandbox scenario: isolation.test.ts
+  - Confines writes to the workspace and turns the network off
+  - Applies rlimits and drops the host environment
+  - Reports hosts without namespace support clearly
+SEARCHABLE: packages, sandbox, adapter, nodejs, tests, isolation, bubblewrap, unshare, vitest
+agent-frontmatter:end */
+
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { Bash } from "../../../adapter/nodejs/bash";
+import { detectIsolationBackend } from "../../../adapter/nodejs/isolation";
+
+const supported = await detectIsolationBackend({}).then(
+  () => true,
+  () => false,
+);
+
+describe.skipIf(!supported)("Bash isolation", () => {
+  let tempDir: string;
+  let outsideDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "bash-isolation-"));
+    outsideDir = await fs.mkdtemp(path.join(os.tmpdir(), "bash-outside-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+    await fs.rm(outsideDir, { recursive: true, force: true });
+  });
+
+  it("only writes inside the workspace", async () => {
+    const bash = new Bash(tempDir, true);
+
+    const inside = await bash.$`echo ok > inside.txt && cat inside.txt`;
+    const outside = await bash.$`echo no > ${outsideDir}/outside.txt`;
+
+    expect(inside.stdout.trim()).toBe("ok");
+    expect(outside.exitCode).not.toBe(0);
+    await expect(
+      fs.readFile(path.join(tempDir, "inside.txt"), "utf8"),
+    ).resolves.toBe("ok\n");
+    await expect(
+      fs.access(path.join(outsideDir, "outside.txt")),
+    ).rejects.toThrow();
+  });
+
+  it("turns the network off unless allowed", async () => {
+    const offline = new Bash(tempDir, true);
+    const online = new Bash(tempDir, { network: true });
+    const countInterfaces = "grep -c : /proc/net/dev";
+
+    const isolated = await offline.$({})`${countInterfaces}`;
+    const shared = await online.$({})`${countInterfaces}`;
+
+    // Only the loopback device exists in a fresh network namespace
+    expect(isolated.stdout.trim()).toBe("1");
+    expect(Number(shared.stdout.trim())).toBeGreaterThanOrEqual(1);
+  });
+
+  it("applies limits and drops the host environment", async () => {
+    process.env.AGENTSTART_TEST_SECRET = "secret";
+    try {
+      const bash = new Bash(tempDir, {
+        limits: { cpuSeconds: 5, processes: 512 },
+        env: { GREETING: "hi" },
+      });
+
+      const result =
+        await bash.$`echo "$GREETING:$AGENTSTART_TEST_SECRET:$(ulimit -t):$HOME"`;
+
+      expect(result.stdout.trim()).toBe(`hi::5:${tempDir}`);
+    } finally {
+      delete process.env.AGENTSTART_TEST_SECRET;
+    }
+  });
+});
+
+describe("Bash isolation support", () => {
+  it("fails clearly when the host cannot isolate commands", async () => {
+    const originalPath = process.env.PATH;
+    process.env.PATH = "";
+    try {
+      const bash = new Bash(os.tmpdir(), { backend: "bubblewrap" });
+
+      await expect(bash.$`true`).rejects.toThrow(
+        "Sandbox isolation is not supported on this host",
+      );
+    } finally {
+      process.env.PATH = originalPath;
+    }
+  });
+});
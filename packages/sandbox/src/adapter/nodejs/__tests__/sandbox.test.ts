@@ -0,0 +1,79 @@
+/* agent-frontmatter:start
+AGENT: Sandbox adapter test
+PURPOSE: Validates workspace snapshots of the Node.js sandbox using Vitest.
+USAGE: Run during test suites to ensure local sandbox implementations stay compliant.
+EXPORTS: None
+FEATURES:
+  - Covers Node.js sandbox scenario: sandbox.test.ts
+  - Snapshots a workspace and restores it into another sandbox
+  - Deletes only snapshot directories the sandbox created
+SEARCHABLE: packages, agentstart, src, sandbox, adapter, nodejs, tests, snapshot, restore, fork, vitest
+agent-frontmatter:end */
+
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { NodeSandbox } from "../../../adapter/nodejs/sandbox";
+
+describe("NodeSandbox snapshots", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "sandbox-test-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("restores a snapshot into another workspace", async () => {
+    const source = new NodeSandbox("snapshot-source", {
+      workspacePath: path.join(tempDir, "source"),
+    });
+    const target = new NodeSandbox("snapshot-target", {
+      workspacePath: path.join(tempDir, "target"),
+    });
+    await source.fs.mkdir("src", { recursive: true });
+    await source.fs.writeFile("src/index.ts", "export {};");
+    await target.fs.writeFile("stale.txt", "old");
+
+    const snapshot = await source.snapshot("fork/1");
+    // Later changes to the source do not leak into the snapshot
+    await source.fs.writeFile("src/index.ts", "changed");
+    await target.restore(snapshot);
+
+    expect(snapshot).toEqual({
+      type: "directory",
+      ref: path.join(tempDir, "source-snapshots", "fork_1"),
+    });
+    expect(await target.fs.readFile("src/index.ts")).toBe("export {};");
+    expect(await target.fs.exists("stale.txt")).toBe(false);
+  });
+
+  it("deletes snapshot directories it created", async () => {
+    const sandbox = new NodeSandbox("snapshot-delete", {
+      workspacePath: path.join(tempDir, "workspace"),
+    });
+    await sandbox.fs.writeFile("notes.txt", "hello");
+    const outside = path.join(tempDir, "outside");
+    await fs.mkdir(outside);
+
+    const snapshot = await sandbox.snapshot("fork-1");
+    await sandbox.deleteSnapshot(snapshot);
+    await sandbox.deleteSnapshot({ type: "directory", ref: outside });
+
+    await expect(fs.stat(snapshot.ref)).rejects.toThrow();
+    expect((await fs.stat(outside)).isDirectory()).toBe(true);
+  });
+
+  it("rejects git snapshots", async () => {
+    const sandbox = new NodeSandbox("snapshot-git", {
+      workspacePath: path.join(tempDir, "workspace"),
+    });
+
+    await expect(
+      sandbox.restore({ type: "git", ref: "agentstart/snapshots/x" }),
+    ).rejects.toThrow("cannot restore git snapshots");
+  });
+});
@@ -7,6 +7,8 @@ FEATURES:
   - Streams stdout/stderr through typed callbacks
   - Returns normalized ShellCommandResult envelopes
   - Provides filesystem-based grep fallbacks
+  - Optionally runs commands in Linux namespaces limited to the workspace
+  - Starts background processes in their own process group and tracks their handles
 SEARCHABLE: nodejs sandbox bash, command runner, grep implementation, shell adapter
 agent-frontmatter:end */
 
@@ -19,12 +21,21 @@ import type {
   GrepFileResult,
   GrepLineMatch,
   GrepResult,
+  NodeJSSandboxIsolation,
+  ShellCommandHandle,
   ShellCommandOptions,
   ShellCommandPromise,
   ShellCommandResult,
 } from "@agentstart/types";
 import glob from "fast-glob";
-import { chunkToString, interpolateTemplate } from "../../utils/text";
+import {
+  createProcessId,
+  MAX_PROCESS_OUTPUT,
+  OutputBuffer,
+  ProcessRegistry,
+} from "../../utils/processes";
+import { interpolateTemplate } from "../../utils/text";
+import { createIsolatedCommand, resolveIsolation } from "./isolation";
 
 /**
  * Node.js implementation of BashAPI
@@ -32,9 +43,17 @@ import { chunkToString, interpolateTemplate } from "../../utils/text";
  */
 export class Bash implements BashAPI {
   private workingDirectory: string;
-
-  constructor(workingDirectory?: string) {
+  private isolation?: NodeJSSandboxIsolation;
+  private processes: ProcessRegistry;
+
+  constructor(
+    workingDirectory?: string,
+    isolation?: boolean | NodeJSSandboxIsolation,
+    processes?: ProcessRegistry,
+  ) {
     this.workingDirectory = workingDirectory || process.cwd();
+    this.isolation = resolveIsolation(isolation);
+    this.processes = processes ?? new ProcessRegistry();
   }
 
   /**
@@ -74,10 +93,86 @@ export class Bash implements BashAPI {
     return execute(stringsOrOptions as TemplateStringsArray, values);
   }
 
+  /**
+   * Start a command in the background and track it as a process handle
+   */
+  async spawn(
+    command: string,
+    options: Omit<ShellCommandOptions, "background"> = {},
+  ): Promise<ShellCommandHandle> {
+    const { child, stdout, stderr, result } = await this.launch(command, {
+      ...options,
+      background: true,
+    });
+
+    let exitCode: number | undefined;
+    const settled = result.then(
+      (value) => {
+        exitCode = value.exitCode;
+        return value;
+      },
+      (error: unknown) => {
+        exitCode = 1;
+        throw error;
+      },
+    );
+    // Callers may never wait for a background process
+    settled.catch(() => {});
+
+    const handle: ShellCommandHandle = {
+      id: createProcessId(),
+      pid: child.pid,
+      command,
+      startedAt: Date.now(),
+      get exitCode() {
+        return exitCode;
+      },
+      get stdout() {
+        return stdout.toString();
+      },
+      get stderr() {
+        return stderr.toString();
+      },
+      wait: () => settled,
+      kill: (signal: NodeJS.Signals = "SIGTERM") => {
+        if (exitCode !== undefined || !child.pid) {
+          return false;
+        }
+        // Background commands lead their own process group, so dev servers
+        // and watchers they started are stopped with them
+        try {
+          if (process.platform !== "win32") {
+            process.kill(-child.pid, signal);
+            return true;
+          }
+        } catch {
+          // Fall back to the shell process
+        }
+        return child.kill(signal);
+      },
+    };
+
+    this.processes.add(handle);
+    return handle;
+  }
+
+  listProcesses(): ShellCommandHandle[] {
+    return this.processes.list();
+  }
+
+  getProcess(id: string): ShellCommandHandle | undefined {
+    return this.processes.get(id);
+  }
+
   private async run(
     command: string,
     options: ShellCommandOptions = {},
   ): Promise<ShellCommandResult> {
+    const { result } = await this.launch(command, options);
+    return result;
+  }
+
+  private async launch(command: string, options: ShellCommandOptions = {}) {
     const start = Date.now();
 
     const shellExecutable =
@@ -94,10 +189,31 @@ export class Bash implements BashAPI {
       env: { ...process.env, ...(options.env ?? {}) },
       windowsHide: true,
       windowsVerbatimArguments: process.platform === "win32",
-      ...(options.background ? { detached: true } : {}),
+      ...(options.background
+        ? { detached: true, stdio: ["ignore", "pipe", "pipe"] }
+        : {}),
     };
 
-    const child = spawn(shellExecutable, shellArgs, spawnOptions);
+    // Isolated commands start in the workspace; the wrapper changes directory
+    // once the namespaces are set up
+    const isolated = this.isolation
+      ? await createIsolatedCommand({
+          isolation: this.isolation,
+          workspace: this.workingDirectory,
+          cwd: options.cwd ?? this.workingDirectory,
+          shell: shellExecutable,
+          command,
+          env: options.env,
+        })
+      : undefined;
+    if (isolated) {
+      spawnOptions.cwd = this.workingDirectory;
+      spawnOptions.env = isolated.env;
+    }
+
+    const child = isolated
+      ? spawn(isolated.file, isolated.args, spawnOptions)
+      : spawn(shellExecutable, shellArgs, spawnOptions);
 
     if (options.background) {
       child.unref?.();
@@ -133,9 +249,8 @@ export class Bash implements BashAPI {
 
     const createStreamHandler =
       (callback?: (text: string) => void | Promise<void>) =>
-      (chunk: unknown): void => {
+      (text: string): void => {
         if (!callback) return;
-        const text = chunkToString(chunk);
         if (text) {
           Promise.resolve(callback(text)).catch((error) => {
             console.warn(
@@ -146,39 +261,36 @@ export class Bash implements BashAPI {
         }
       };
 
-    // Collect stdout and stderr
-    const stdoutChunks: Buffer[] = [];
-    const stderrChunks: Buffer[] = [];
+    // Collect stdout and stderr; background commands keep only recent output
+    const outputLimit = options.background ? MAX_PROCESS_OUTPUT : undefined;
+    const stdout = new OutputBuffer(outputLimit);
+    const stderr = new OutputBuffer(outputLimit);
 
     if (child.stdout) {
       child.stdout.on("data", (chunk) => {
-        stdoutChunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-        createStreamHandler(options.onStdout)(chunk);
+        createStreamHandler(options.onStdout)(stdout.append(chunk));
       });
     }
 
     if (child.stderr) {
       child.stderr.on("data", (chunk) => {
-        stderrChunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-        createStreamHandler(options.onStderr)(chunk);
+        createStreamHandler(options.onStderr)(stderr.append(chunk));
       });
     }
 
     const buildResult = (
-      stdout: string,
-      stderr: string,
       exitCode: number,
       errorMessage?: string,
     ): ShellCommandResult => ({
       exitCode,
-      stdout,
-      stderr,
-      error: errorMessage || (exitCode === 0 ? undefined : stderr),
+      stdout: stdout.toString(),
+      stderr: stderr.toString(),
+      error: errorMessage || (exitCode === 0 ? undefined : stderr.toString()),
       command,
       duration: Date.now() - start,
     });
 
-    return new Promise((resolve, reject) => {
+    const result = new Promise<ShellCommandResult>((resolve, reject) => {
       let resolved = false;
 
       const cleanup = () => {
@@ -190,9 +302,7 @@ export class Bash implements BashAPI {
         cleanup();
         if (!resolved) {
           resolved = true;
-          const stdout = Buffer.concat(stdoutChunks).toString("utf8");
-          const stderr = Buffer.concat(stderrChunks).toString("utf8");
-          resolve(buildResult(stdout, stderr, 1, error.message));
+          resolve(buildResult(1, error.message));
         }
       });
 
@@ -200,8 +310,6 @@ export class Bash implements BashAPI {
         cleanup();
         if (!resolved) {
           resolved = true;
-          const stdout = Buffer.concat(stdoutChunks).toString("utf8");
-          const stderr = Buffer.concat(stderrChunks).toString("utf8");
           const exitCode = code ?? (signal ? 1 : 0);
 
           // Check if the command was killed due to timeout
@@ -212,10 +320,12 @@ export class Bash implements BashAPI {
             }
           }
 
-          resolve(buildResult(stdout, stderr, exitCode));
+          resolve(buildResult(exitCode));
         }
       });
     });
+
+    return { child, stdout, stderr, result };
   }
 
   /**
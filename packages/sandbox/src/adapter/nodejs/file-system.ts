@@ -6,6 +6,7 @@ EXPORTS: FileSystem
 FEATURES:
   - Resolves and validates workspace-relative paths
   - Implements typed glob, read, write, and watch helpers
+  - Watches directories recursively with chokidar, honoring ignore, debounce and initial scan options
   - Mirrors shared FileSystemAPI contract
 SEARCHABLE: nodejs sandbox filesystem, file operations adapter, glob and watch implementation
 agent-frontmatter:end */
@@ -23,6 +24,7 @@ import type {
 import chokidar from "chokidar";
 import fg, { type Entry } from "fast-glob";
 import { nanoid } from "nanoid";
+import { isIgnoredPath, WatchEventQueue } from "../../utils/watch";
 
 /**
  * Node.js implementation of FileSystemAPI
@@ -31,6 +33,7 @@ import { nanoid } from "nanoid";
 export class FileSystem implements FileSystemAPI {
   private workingDirectory: string;
   private normalizedWorkingDirectory: string;
+  private activeWatches = new Map<string, WatchHandle>();
 
   constructor(workingDirectory?: string) {
     this.workingDirectory = path.resolve(workingDirectory || process.cwd());
@@ -462,9 +465,9 @@ export class FileSystem implements FileSystemAPI {
   }
 
   /**
-   * Watches a directory for file system changes
-   * NOTE: This is a stub implementation for Node.js adapter.
-   * Real implementation would use fs.watch or chokidar.
+   * Watches a directory for file system changes.
+   * Ignore patterns match workspace-relative paths, and a matching directory
+   * is skipped together with everything below it.
    */
   async watch(
     targetPath: string,
@@ -473,62 +476,39 @@ export class FileSystem implements FileSystemAPI {
   ): Promise<WatchHandle> {
     const absoluteTarget = this.resolvePath(targetPath);
     const watchId = nanoid();
+    const ignoreRules = this.compileIgnoreGlobs(options?.ignore);
 
-    const debounceMs = options?.debounceMs ?? 100;
-    let pendingEvents: FileSystemEvent[] = [];
-    let debounceTimer: NodeJS.Timeout | null = null;
     let active = true;
-    const flushEvents = (): void => {
-      if (!pendingEvents.length) {
-        return;
-      }
-
-      const events = pendingEvents;
-      pendingEvents = [];
-      events.forEach((event) => {
-        if (active) {
-          callback(event);
-        }
-      });
-    };
-
-    const enqueueEvent = (event: FileSystemEvent): void => {
-      if (!active) {
-        return;
-      }
-
-      if (debounceMs <= 0) {
+    const queue = new WatchEventQueue((event) => {
+      if (active) {
         callback(event);
-        return;
-      }
-
-      pendingEvents.push(event);
-
-      if (debounceTimer) {
-        clearTimeout(debounceTimer);
       }
+    }, options?.debounceMs);
 
-      debounceTimer = setTimeout(() => {
-        debounceTimer = null;
-        flushEvents();
-      }, debounceMs);
-    };
-
-    const toEvent = (
+    const enqueueEvent = (
       type: FileSystemEvent["type"],
       filePath: string,
       isDirectory: boolean,
-    ): FileSystemEvent => ({
-      type,
-      path: this.toWorkspacePath(filePath),
-      isDirectory,
-      timestamp: Date.now(),
-    });
+    ): void => {
+      // The watched directory itself is reported by the initial scan only
+      if (!active || path.resolve(filePath) === absoluteTarget) {
+        return;
+      }
+
+      queue.push({
+        type,
+        path: this.toWorkspacePath(filePath),
+        isDirectory,
+        timestamp: Date.now(),
+      });
+    };
 
     const watcher = chokidar.watch(absoluteTarget, {
       persistent: true,
       ignoreInitial: !(options?.initialScan ?? false),
-      ignored: options?.ignore,
+      ignored: (filePath: string) =>
+        path.resolve(filePath) !== absoluteTarget &&
+        isIgnoredPath(this.toWorkspacePath(filePath), ignoreRules),
       depth: options?.recursive === false ? 0 : undefined,
       awaitWriteFinish: {
         stabilityThreshold: 50,
@@ -538,19 +518,19 @@ export class FileSystem implements FileSystemAPI {
 
     watcher
       .on("add", (filepath: string) => {
-        enqueueEvent(toEvent("create", filepath, false));
+        enqueueEvent("create", filepath, false);
       })
       .on("addDir", (filepath: string) => {
-        enqueueEvent(toEvent("create", filepath, true));
+        enqueueEvent("create", filepath, true);
       })
       .on("change", (filepath: string) => {
-        enqueueEvent(toEvent("modify", filepath, false));
+        enqueueEvent("modify", filepath, false);
       })
       .on("unlink", (filepath: string) => {
-        enqueueEvent(toEvent("delete", filepath, false));
+        enqueueEvent("delete", filepath, false);
       })
       .on("unlinkDir", (filepath: string) => {
-        enqueueEvent(toEvent("delete", filepath, true));
+        enqueueEvent("delete", filepath, true);
       })
       .on("error", (error: unknown) => {
         console.warn(`File watch error for ${absoluteTarget}:`, error);
@@ -563,22 +543,29 @@ export class FileSystem implements FileSystemAPI {
         return;
       }
 
-      if (debounceTimer) {
-        clearTimeout(debounceTimer);
-        debounceTimer = null;
-        flushEvents();
-      }
-
+      queue.flush();
       active = false;
+      this.activeWatches.delete(watchId);
 
       await watcher.close();
     };
 
-    return {
+    const handle: WatchHandle = {
       id: watchId,
       path: targetPath,
       stop,
       isActive: () => active,
     };
+    this.activeWatches.set(watchId, handle);
+    return handle;
+  }
+
+  /**
+   * Stop all active watches (cleanup method)
+   */
+  async stopAllWatches(): Promise<void> {
+    const handles = Array.from(this.activeWatches.values());
+    await Promise.all(handles.map((handle) => handle.stop()));
+    this.activeWatches.clear();
   }
 }
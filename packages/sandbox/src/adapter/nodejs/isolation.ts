@@ -0,0 +1,279 @@
+/* agent-frontmatter:start
+AGENT: Node.js sandbox isolation
+PURPOSE: Wrap shell commands in Linux namespaces so they can only write to the workspace
+USAGE: const { file, args, env } = await createIsolatedCommand({ isolation, workspace, cwd, shell, command })
+EXPORTS: IsolationBackend, resolveIsolation, detectIsolationBackend, createIsolatedCommand
+FEATURES:
+  - Runs commands through bubblewrap or util-linux unshare
+  - Mounts the host read-only with the workspace as the only writable bind mount
+  - Private /tmp, process, IPC and hostname namespaces; network off by default
+  - Applies CPU, memory and process limits with ulimit
+  - Probes host support once and fails with SANDBOX_ISOLATION_UNSUPPORTED
+SEARCHABLE: sandbox isolation, bubblewrap, bwrap, unshare, namespaces, rlimit
+agent-frontmatter:end */
+
+import { spawn } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { NodeJSSandboxIsolation } from "@agentstart/types";
+import { AgentStartError } from "@agentstart/utils";
+
+export type IsolationBackend = "bubblewrap" | "unshare";
+
+const PASSTHROUGH_ENV = ["PATH", "LANG", "TERM"];
+
+// Remounts every mount read-only except the workspace bind mount ($3), then
+// gives the command a private /tmp unless the workspace lives there
+const UNSHARE_SETUP = `set -e
+mount --bind "$3" "$3"
+while read -r _ _ _ _ target options _; do
+  [ "$target" = "$3" ] && continue
+  if [ "$target" = / ]; then
+    mount -o "remount,bind,ro,\${options#rw,}" /
+  else
+    mount -o "remount,bind,ro,\${options#rw,}" "$target" 2>/dev/null || true
+  fi
+done < /proc/self/mountinfo
+case "$3" in
+  /tmp|/tmp/*) ;;
+  *) mount -t tmpfs -o nosuid,nodev tmpfs /tmp ;;
+esac
+cd "$4"
+set +e`;
+
+// Probe results per backend and network setting, resolved to an error
+// message when the host cannot create the namespaces
+const probes = new Map<string, Promise<string | undefined>>();
+
+/**
+ * Normalize the `isolation` option; undefined means isolation is off
+ */
+export function resolveIsolation(
+  isolation?: boolean | NodeJSSandboxIsolation,
+): NodeJSSandboxIsolation | undefined {
+  if (!isolation) {
+    return undefined;
+  }
+  return isolation === true ? {} : isolation;
+}
+
+function findExecutable(name: string) {
+  for (const directory of (process.env.PATH ?? "").split(path.delimiter)) {
+    if (!directory) {
+      continue;
+    }
+    const candidate = path.join(directory, name);
+    try {
+      fs.accessSync(candidate, fs.constants.X_OK);
+      return candidate;
+    } catch {
+      // Not in this directory
+    }
+  }
+  return undefined;
+}
+
+function toLimitValue(value: number) {
+  return String(Math.max(1, Math.floor(value)));
+}
+
+function createLimitScript(limits: NodeJSSandboxIsolation["limits"] = {}) {
+  const lines: string[] = [];
+  if (limits.cpuSeconds) {
+    lines.push(`ulimit -t ${toLimitValue(limits.cpuSeconds)}`);
+  }
+  if (limits.memoryBytes) {
+    lines.push(`ulimit -v ${toLimitValue(limits.memoryBytes / 1024)}`);
+  }
+  if (limits.processes) {
+    lines.push(`ulimit -u ${toLimitValue(limits.processes)}`);
+  }
+  return lines;
+}
+
+function buildArgs(
+  backend: IsolationBackend,
+  isolation: NodeJSSandboxIsolation,
+  options: { workspace: string; cwd: string; shell: string; command: string },
+) {
+  const launch = [
+    ...createLimitScript(isolation.limits),
+    'exec "$1" -lc "$2"',
+  ].join("\n");
+
+  if (backend === "bubblewrap") {
+    return [
+      "--die-with-parent",
+      "--new-session",
+      "--unshare-user",
+      "--unshare-pid",
+      "--unshare-ipc",
+      "--unshare-uts",
+      "--unshare-cgroup-try",
+      ...(isolation.network ? [] : ["--unshare-net"]),
+      "--ro-bind",
+      "/",
+      "/",
+      "--dev",
+      "/dev",
+      "--proc",
+      "/proc",
+      "--tmpfs",
+      "/tmp",
+      "--bind",
+      options.workspace,
+      options.workspace,
+      "--chdir",
+      options.cwd,
+      "--",
+      "/bin/sh",
+      "-c",
+      launch,
+      "sh",
+      options.shell,
+      options.command,
+    ];
+  }
+
+  return [
+    "--user",
+    "--map-root-user",
+    "--mount",
+    "--pid",
+    "--fork",
+    "--kill-child",
+    "--mount-proc",
+    "--ipc",
+    "--uts",
+    ...(isolation.network ? [] : ["--net"]),
+    "--",
+    "/bin/sh",
+    "-c",
+    `${UNSHARE_SETUP}\n${launch}`,
+    "sh",
+    options.shell,
+    options.command,
+    options.workspace,
+    options.cwd,
+  ];
+}
+
+function probe(file: string, args: string[]): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    const child = spawn(file, args, {
+      cwd: os.tmpdir(),
+      stdio: ["ignore", "ignore", "pipe"],
+    });
+    let stderr = "";
+    child.stderr?.on("data", (chunk) => {
+      stderr += String(chunk);
+    });
+    child.on("error", (error) => resolve(error.message));
+    child.on("close", (code) =>
+      resolve(
+        code === 0 ? undefined : stderr.trim() || `exited with code ${code}`,
+      ),
+    );
+  });
+}
+
+function unsupported(reason: string): never {
+  throw new AgentStartError(
+    "SANDBOX_ISOLATION_UNSUPPORTED",
+    `Sandbox isolation is not supported on this host: ${reason}. Isolation needs Linux with bubblewrap (bwrap) or util-linux unshare and unprivileged user namespaces enabled, or set isolation: false.`,
+  );
+}
+
+/**
+ * Pick the namespace tool for `isolation` and make sure it works on this host.
+ * The check runs once per backend and network setting.
+ */
+export async function detectIsolationBackend(
+  isolation: NodeJSSandboxIsolation,
+): Promise<{ backend: IsolationBackend; executable: string }> {
+  if (process.platform !== "linux") {
+    unsupported(`${process.platform} has no Linux namespaces`);
+  }
+
+  const preferred = isolation.backend ?? "auto";
+  const candidates: IsolationBackend[] =
+    preferred === "auto" ? ["bubblewrap", "unshare"] : [preferred];
+  const failures: string[] = [];
+
+  for (const backend of candidates) {
+    const executable = findExecutable(
+      backend === "bubblewrap" ? "bwrap" : "unshare",
+    );
+    if (!executable) {
+      failures.push(
+        `${backend === "bubblewrap" ? "bwrap" : "unshare"} was not found in PATH`,
+      );
+      continue;
+    }
+
+    const key = `${executable}:${isolation.network ? "net" : "nonet"}`;
+    let result = probes.get(key);
+    if (!result) {
+      const workspace = os.tmpdir();
+      result = probe(
+        executable,
+        buildArgs(
+          backend,
+          { network: isolation.network },
+          {
+            workspace,
+            cwd: workspace,
+            shell: "/bin/sh",
+            command: "true",
+          },
+        ),
+      );
+      probes.set(key, result);
+    }
+
+    const error = await result;
+    if (!error) {
+      return { backend, executable };
+    }
+    failures.push(`${backend} failed (${error})`);
+  }
+
+  return unsupported(failures.join("; "));
+}
+
+/**
+ * Build the process to spawn for `command` inside the sandbox namespaces.
+ * The host environment is replaced by PATH, LANG, TERM and `isolation.env`.
+ */
+export async function createIsolatedCommand(options: {
+  isolation: NodeJSSandboxIsolation;
+  workspace: string;
+  cwd: string;
+  shell: string;
+  command: string;
+  env?: Record<string, string>;
+}): Promise<{ file: string; args: string[]; env: NodeJS.ProcessEnv }> {
+  const { backend, executable } = await detectIsolationBackend(
+    options.isolation,
+  );
+  const workspace = path.resolve(options.workspace);
+
+  const env: NodeJS.ProcessEnv = { HOME: workspace };
+  for (const name of PASSTHROUGH_ENV) {
+    if (process.env[name]) {
+      env[name] = process.env[name];
+    }
+  }
+
+  return {
+    file: executable,
+    args: buildArgs(backend, options.isolation, {
+      workspace,
+      cwd: path.resolve(workspace, options.cwd),
+      shell: options.shell,
+      command: options.command,
+    }),
+    env: { ...env, ...options.isolation.env, ...options.env },
+  };
+}
@@ -7,6 +7,10 @@ FEATURES:
   - Reuses adapters scoped to a configurable workspace directory
   - Tracks lifecycle metadata and exposes status helpers
   - Supports configuration updates with live tool reinitialization
+  - Snapshots and restores the workspace as a directory copy, and deletes the copy
+  - Opt-in OS-level isolation of bash commands on Linux
+  - Kills background processes on stop and resolves declared ports on localhost
+  - Stops file watchers on stop and dispose
 SEARCHABLE: nodejs sandbox, local sandbox implementation, adapter lifecycle
 agent-frontmatter:end */
 
@@ -17,9 +21,12 @@ import type {
   GitAPI,
   NodeJSSandboxConfig,
   SandboxAPI,
+  SandboxSnapshot,
   SandboxStatus,
 } from "@agentstart/types";
+import { AgentStartError } from "@agentstart/utils";
 import fs from "fs-extra";
+import { ProcessRegistry } from "../../utils/processes";
 import { Bash } from "./bash";
 import { FileSystem } from "./file-system";
 import { Git } from "./git";
@@ -52,8 +59,9 @@ const instances = new Map<string, NodeSandbox>();
  * await sandbox.dispose();
  * ```
  *
- * Note: In Node.js environment, we don't need actual sandboxing.
- * This implementation provides compatibility with the E2B API.
+ * Note: Commands run directly on the host unless `isolation` is set, which
+ * confines them to Linux namespaces with the workspace as the only writable
+ * mount. This implementation provides compatibility with the E2B API.
  */
 export class NodeSandbox implements SandboxAPI {
   static readonly DEFAULT_CONFIG: NodeJSSandboxConfig = {
@@ -69,6 +77,7 @@ export class NodeSandbox implements SandboxAPI {
   private lastActivityTime: number = Date.now();
   private config: NodeJSSandboxConfig;
   private workingDirectory: string;
+  private processes = new ProcessRegistry();
 
   constructor(sandboxId: string, config?: NodeJSSandboxConfig) {
     this.sandboxId = sandboxId;
@@ -79,7 +88,11 @@ export class NodeSandbox implements SandboxAPI {
 
     // Initialize tools (Node.js doesn't need a real sandbox)
     this.fs = new FileSystem(this.workingDirectory);
-    this.bash = new Bash(this.workingDirectory);
+    this.bash = new Bash(
+      this.workingDirectory,
+      this.config.isolation,
+      this.processes,
+    );
     this.git = new Git(this.workingDirectory);
 
     instances.set(this.sandboxId, this);
@@ -200,12 +213,14 @@ export class NodeSandbox implements SandboxAPI {
   }
 
   /**
-   * Stop (no-op in Node.js)
+   * Stop background processes; the workspace is kept
    */
   async stop(): Promise<void> {
-    console.log(
-      `NodeSandbox.stop() called for project ${this.sandboxId} (no-op in Node.js)`,
-    );
+    console.log(`NodeSandbox.stop() called for project ${this.sandboxId}`);
+    await this.processes.killAll();
+    if (this.fs instanceof FileSystem) {
+      await this.fs.stopAllWatches();
+    }
     instances.delete(this.sandboxId);
   }
 
@@ -265,6 +280,9 @@ export class NodeSandbox implements SandboxAPI {
       nextConfig.workspacePath ?? this.workingDirectory;
     const workingDirectoryChanged =
       nextWorkingDirectory !== this.workingDirectory;
+    const isolationChanged =
+      JSON.stringify(nextConfig.isolation) !==
+      JSON.stringify(this.config.isolation);
 
     this.config = nextConfig;
     this.workingDirectory = nextWorkingDirectory;
@@ -273,18 +291,99 @@ export class NodeSandbox implements SandboxAPI {
       (this as { fs: FileSystemAPI }).fs = new FileSystem(
         this.workingDirectory,
       );
-      (this as { bash: BashAPI }).bash = new Bash(this.workingDirectory);
       (this as { git: GitAPI }).git = new Git(this.workingDirectory);
     }
+    if (workingDirectoryChanged || isolationChanged) {
+      (this as { bash: BashAPI }).bash = new Bash(
+        this.workingDirectory,
+        this.config.isolation,
+        this.processes,
+      );
+    }
+  }
+
+  private get snapshotsDirectory() {
+    return path.join(
+      path.dirname(this.workingDirectory),
+      `${path.basename(this.workingDirectory)}-snapshots`,
+    );
   }
 
   /**
-   * Dispose (no-op in Node.js)
+   * Copy the workspace into a sibling `<workspace>-snapshots/<name>` directory
    */
-  async dispose(): Promise<void> {
-    console.log(
-      `NodeSandbox.dispose() called for project ${this.sandboxId} (no-op in Node.js)`,
+  async snapshot(name: string): Promise<SandboxSnapshot> {
+    const snapshotDirectory = path.join(
+      this.snapshotsDirectory,
+      name.replace(/[^a-zA-Z0-9_-]/g, "_"),
     );
+
+    await fs.ensureDir(this.workingDirectory);
+    await fs.emptyDir(snapshotDirectory);
+    await fs.copy(this.workingDirectory, snapshotDirectory);
+    this.keepAlive();
+
+    return { type: "directory", ref: snapshotDirectory };
+  }
+
+  /**
+   * Replace the workspace with a directory snapshot
+   */
+  async restore(snapshot: SandboxSnapshot): Promise<void> {
+    if (snapshot.type !== "directory") {
+      throw new AgentStartError(
+        "SANDBOX_SNAPSHOT_UNSUPPORTED",
+        `The Node.js sandbox cannot restore ${snapshot.type} snapshots`,
+      );
+    }
+
+    await fs.emptyDir(this.workingDirectory);
+    await fs.copy(snapshot.ref, this.workingDirectory);
+    this.keepAlive();
+  }
+
+  /**
+   * Remove the directory of a snapshot
+   */
+  async deleteSnapshot(snapshot: SandboxSnapshot): Promise<void> {
+    // Only remove directories this sandbox created
+    if (
+      snapshot.type === "directory" &&
+      path.dirname(snapshot.ref) === this.snapshotsDirectory
+    ) {
+      await fs.remove(snapshot.ref);
+    }
+  }
+
+  /**
+   * Ports declared in the config
+   */
+  getPorts(): number[] {
+    return this.config.ports ?? [];
+  }
+
+  /**
+   * Declared ports are served by processes on this host
+   */
+  async getPortUrl(port: number): Promise<string> {
+    if (!this.getPorts().includes(port)) {
+      throw new AgentStartError(
+        "SANDBOX_PORT_NOT_DECLARED",
+        `Port ${port} is not declared in the sandbox ports`,
+      );
+    }
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Dispose (kills background processes in Node.js)
+   */
+  async dispose(): Promise<void> {
+    console.log(`NodeSandbox.dispose() called for project ${this.sandboxId}`);
+    await this.processes.killAll();
+    if (this.fs instanceof FileSystem) {
+      await this.fs.stopAllWatches();
+    }
     instances.delete(this.sandboxId);
   }
 }
@@ -7,6 +7,7 @@ FEATURES:
   - Returns factory function compatible with AgentStartOptions
   - Wraps E2BSandbox.connectOrCreate with cleaner config interface
   - Supports cloud-based isolated execution environment
+  - Remembers pooled sandbox IDs per scope key in secondaryMemory
 SEARCHABLE: e2b sandbox adapter factory, cloud sandbox
 agent-frontmatter:end */
 
@@ -14,6 +15,7 @@ import type {
   AgentStartOptions,
   SandboxAdapterFactory,
   SandboxAPI,
+  SandboxFactoryScope,
 } from "@agentstart/types";
 import { AgentStartError } from "@agentstart/utils";
 import { E2BSandbox } from "../adapter/e2b";
@@ -40,7 +42,7 @@ export interface E2BSandboxConfig {
    */
   maxLifetime?: number;
   /**
-   * Ports to expose from the sandbox
+   * Ports to expose from the sandbox and preview through the sandbox router
    */
   ports?: number[];
   /**
@@ -62,7 +64,10 @@ export interface E2BSandboxConfig {
 export function e2bSandboxAdapter(
   config: E2BSandboxConfig,
 ): SandboxAdapterFactory {
-  return async (options: AgentStartOptions): Promise<SandboxAPI> => {
+  return async (
+    options: AgentStartOptions,
+    scope?: SandboxFactoryScope,
+  ): Promise<SandboxAPI> => {
     if (!config.apiKey) {
       throw new AgentStartError(
         "SANDBOX_API_KEY_MISSING",
@@ -82,9 +87,15 @@ export function e2bSandboxAdapter(
       );
     }
 
-    return E2BSandbox.connectOrCreate({
+    // Pooled sandboxes reconnect to the sandbox last used for their key
+    const scopeKey = scope ? `sandbox:scope:${scope.key}` : undefined;
+    const sandboxId = scopeKey
+      ? ((await secondaryMemory.get(scopeKey)) ?? undefined)
+      : config.sandboxId;
+
+    const sandbox = await E2BSandbox.connectOrCreate({
       secondaryMemory,
-      sandboxId: config.sandboxId,
+      sandboxId,
       githubToken: config.githubToken,
       timeout: config.timeout,
       maxLifetime: config.maxLifetime,
@@ -93,5 +104,12 @@ export function e2bSandboxAdapter(
       resources: config.resources,
       autoStopDelay: config.autoStopDelay,
     });
+
+    const currentId = sandbox.getSandboxId();
+    if (scopeKey && currentId && currentId !== sandboxId) {
+      await secondaryMemory.set(scopeKey, currentId);
+    }
+
+    return sandbox;
   };
 }
@@ -7,13 +7,20 @@ FEATURES:
   - Returns factory function compatible with AgentStartOptions
   - Wraps NodeSandbox.connectOrCreate with cleaner config interface
   - Supports local file system operations
+  - Isolates pooled sandboxes in per-key workspace subdirectories
+  - Passes the opt-in OS-level isolation settings to every sandbox
+  - Declares the localhost ports that may be previewed
 SEARCHABLE: nodejs sandbox adapter factory, local sandbox
 agent-frontmatter:end */
 
+import { createHash } from "node:crypto";
+import path from "node:path";
 import type {
   AgentStartOptions,
+  NodeJSSandboxIsolation,
   SandboxAdapterFactory,
   SandboxAPI,
+  SandboxFactoryScope,
 } from "@agentstart/types";
 import { NodeSandbox } from "../adapter/nodejs";
 
@@ -34,19 +41,60 @@ export interface NodeSandboxConfig {
    * Maximum sandbox lifetime in milliseconds
    */
   maxLifetime?: number;
+  /**
+   * Run bash commands in Linux namespaces limited to the workspace
+   */
+  isolation?: boolean | NodeJSSandboxIsolation;
+  /**
+   * Localhost ports that may be previewed through the sandbox router.
+   * Pooled sandboxes share the host network, so each port serves one of them.
+   */
+  ports?: number[];
 }
 
 export function nodeSandboxAdapter(
   config?: NodeSandboxConfig,
 ): SandboxAdapterFactory {
-  return async (options: AgentStartOptions): Promise<SandboxAPI> => {
+  return async (
+    options: AgentStartOptions,
+    scope?: SandboxFactoryScope,
+  ): Promise<SandboxAPI> => {
     const secondaryMemory = options.secondaryMemory;
 
+    if (scope) {
+      const directory = toDirectoryName(scope.key);
+      const basePath =
+        config?.workspacePath ?? path.resolve(process.cwd(), ".agentstart");
+
+      return NodeSandbox.connectOrCreate(
+        `${config?.sandboxId ?? "nodejs"}-${directory}`,
+        {
+          workspacePath: path.join(basePath, directory),
+          timeout: config?.timeout,
+          maxLifetime: config?.maxLifetime,
+          isolation: config?.isolation,
+          ports: config?.ports,
+          secondaryMemory,
+        },
+      );
+    }
+
     return NodeSandbox.connectOrCreate(config?.sandboxId, {
       workspacePath: config?.workspacePath,
       timeout: config?.timeout,
       maxLifetime: config?.maxLifetime,
+      isolation: config?.isolation,
+      ports: config?.ports,
       secondaryMemory,
     });
   };
 }
+
+/**
+ * Convert a pool key into a safe, collision-free directory name
+ */
+function toDirectoryName(key: string): string {
+  const safe = key.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 64);
+  const hash = createHash("sha256").update(key).digest("hex").slice(0, 8);
+  return `${safe}-${hash}`;
+}
@@ -1,25 +1,106 @@
 /* agent-frontmatter:start
 AGENT: Sandbox resolver
 PURPOSE: Resolve SandboxAPI instance from AgentStartOptions configuration
-USAGE: const sandbox = await getSandbox(agentOptions)
-EXPORTS: getSandbox
+USAGE: const sandbox = await getSandbox(agentOptions, { threadId, userId })
+EXPORTS: getSandbox, acquireSandbox, SandboxLease, disposeSandboxes
 FEATURES:
   - Accepts SandboxAPI instance or SandboxAdapterFactory
   - Returns undefined if no sandbox configured
-  - Caches initialized sandboxes for reuse
-SEARCHABLE: sandbox resolver, getSandbox, sandbox initialization
+  - Pools sandboxes per scope key (global, thread, user, or custom)
+  - Evicts idle sandboxes and caps the number of live instances
+  - Leases sandboxes to runs so eviction skips sandboxes in use
+SEARCHABLE: sandbox resolver, getSandbox, sandbox initialization, sandbox pool
 agent-frontmatter:end */
 
-import type { AgentStartOptions, SandboxAPI } from "@agentstart/types";
+import type {
+  AgentStartOptions,
+  SandboxAdapterFactory,
+  SandboxAPI,
+  SandboxScopeContext,
+} from "@agentstart/types";
+import { AgentStartError } from "@agentstart/utils";
 
-const sandboxCache = new WeakMap<
-  (options: AgentStartOptions) => Promise<SandboxAPI> | SandboxAPI,
-  Promise<SandboxAPI>
+const GLOBAL_KEY = "global";
+
+interface PoolEntry {
+  promise: Promise<SandboxAPI>;
+  idleTimer?: ReturnType<typeof setTimeout>;
+  /** Number of runs currently holding the sandbox */
+  leases: number;
+}
+
+export interface SandboxLease {
+  sandbox: SandboxAPI;
+  /** Hand the sandbox back to the pool; safe to call more than once */
+  release: () => void;
+}
+
+// One pool per factory; entries are kept in least-recently-used order
+const sandboxPools = new WeakMap<
+  SandboxAdapterFactory,
+  Map<string, PoolEntry>
 >();
 
 export async function getSandbox(
   options: AgentStartOptions,
+  context: SandboxScopeContext = {},
 ): Promise<SandboxAPI | undefined> {
+  return (await resolveSandbox(options, context))?.sandbox;
+}
+
+/**
+ * Resolve a sandbox and hold it until `release` is called. Idle and
+ * instance-cap eviction skip leased sandboxes, so long-running commands are
+ * not disposed mid-run.
+ */
+export async function acquireSandbox(
+  options: AgentStartOptions,
+  context: SandboxScopeContext = {},
+): Promise<SandboxLease | undefined> {
+  const resolved = await resolveSandbox(options, context);
+  if (!resolved) {
+    return undefined;
+  }
+
+  const { sandbox, pooled } = resolved;
+  if (!pooled) {
+    return { sandbox, release: () => {} };
+  }
+
+  const { pool, key, entry } = pooled;
+  entry.leases++;
+  if (entry.idleTimer) {
+    clearTimeout(entry.idleTimer);
+    entry.idleTimer = undefined;
+  }
+
+  let released = false;
+  return {
+    sandbox,
+    release: () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      entry.leases--;
+      // Restart the idle timer once the last run lets go
+      if (entry.leases === 0 && pool.get(key) === entry) {
+        touch(options, pool, key, entry);
+      }
+    },
+  };
+}
+
+async function resolveSandbox(
+  options: AgentStartOptions,
+  context: SandboxScopeContext,
+): Promise<
+  | {
+      sandbox: SandboxAPI;
+      pooled?: { pool: Map<string, PoolEntry>; key: string; entry: PoolEntry };
+    }
+  | undefined
+> {
   if (!options.sandbox) {
     // No sandbox configured, return undefined
     return undefined;
@@ -27,49 +108,192 @@ export async function getSandbox(
 
   // If already a SandboxAPI instance
   if (isSandboxAPI(options.sandbox)) {
-    return options.sandbox;
+    return { sandbox: options.sandbox };
   }
 
   // If it's a factory function
   const factory = options.sandbox;
-  const cached = sandboxCache.get(factory);
+  const key = resolveScopeKey(options, context);
+  let pool = sandboxPools.get(factory);
+  if (!pool) {
+    pool = new Map();
+    sandboxPools.set(factory, pool);
+  }
+
+  const cached = pool.get(key);
   if (cached) {
     try {
-      const sandbox = await cached;
+      const sandbox = await cached.promise;
       // Check if cached sandbox is still active
       const isActive = await sandbox.isActive();
       if (isActive) {
-        return sandbox;
+        touch(options, pool, key, cached);
+        return { sandbox, pooled: { pool, key, entry: cached } };
       }
       // Sandbox is inactive, clean up and recreate
       console.warn(
-        "[getSandbox] Cached sandbox is inactive, disposing and recreating...",
+        `[getSandbox] Cached sandbox "${key}" is inactive, disposing and recreating...`,
       );
-      await sandbox.dispose().catch((err) => {
-        console.error("[getSandbox] Failed to dispose inactive sandbox:", err);
-      });
-      sandboxCache.delete(factory);
+      await evict(pool, key, cached);
     } catch (error) {
       // If checking status fails, clear cache and recreate
       console.error(
-        "[getSandbox] Failed to check cached sandbox status:",
+        `[getSandbox] Failed to check cached sandbox "${key}" status:`,
         error,
       );
-      sandboxCache.delete(factory);
+      removeEntry(pool, key, cached);
     }
   }
 
-  const promise = Promise.resolve(factory(options));
-  sandboxCache.set(factory, promise);
+  enforceMaxInstances(options, pool);
+
+  const entry: PoolEntry = {
+    promise: Promise.resolve(
+      key === GLOBAL_KEY ? factory(options) : factory(options, { key }),
+    ),
+    leases: 0,
+  };
+  touch(options, pool, key, entry);
 
   try {
-    return await promise;
+    return { sandbox: await entry.promise, pooled: { pool, key, entry } };
   } catch (error) {
-    sandboxCache.delete(factory);
+    removeEntry(pool, key, entry);
     throw error;
   }
 }
 
+/**
+ * Dispose every pooled sandbox created by the configured factory.
+ */
+export async function disposeSandboxes(
+  options: AgentStartOptions,
+): Promise<void> {
+  if (!options.sandbox || isSandboxAPI(options.sandbox)) {
+    return;
+  }
+
+  const pool = sandboxPools.get(options.sandbox);
+  if (!pool) {
+    return;
+  }
+
+  await Promise.all(
+    [...pool.entries()].map(([key, entry]) => evict(pool, key, entry)),
+  );
+}
+
+function resolveScopeKey(
+  options: AgentStartOptions,
+  context: SandboxScopeContext,
+): string {
+  const scope = options.sandboxPool?.scope ?? "global";
+
+  if (scope === "global") {
+    return GLOBAL_KEY;
+  }
+
+  const key =
+    scope === "thread"
+      ? context.threadId
+      : scope === "user"
+        ? context.userId
+        : scope(context);
+
+  if (!key) {
+    throw new AgentStartError(
+      "SANDBOX_SCOPE_MISSING",
+      typeof scope === "string"
+        ? `Sandbox scope "${scope}" requires a ${scope}Id`
+        : "Custom sandbox scope did not return a key",
+    );
+  }
+
+  return `${typeof scope === "string" ? scope : "custom"}:${key}`;
+}
+
+/**
+ * Mark an entry as most recently used and restart its idle timer.
+ * Leased entries get no idle timer until their last lease is released.
+ */
+function touch(
+  options: AgentStartOptions,
+  pool: Map<string, PoolEntry>,
+  key: string,
+  entry: PoolEntry,
+) {
+  pool.delete(key);
+  pool.set(key, entry);
+
+  if (entry.idleTimer) {
+    clearTimeout(entry.idleTimer);
+    entry.idleTimer = undefined;
+  }
+
+  const idleTimeout = options.sandboxPool?.idleTimeout;
+  if (!idleTimeout || entry.leases > 0) {
+    return;
+  }
+
+  entry.idleTimer = setTimeout(() => {
+    void evict(pool, key, entry);
+  }, idleTimeout);
+  entry.idleTimer.unref?.();
+}
+
+function enforceMaxInstances(
+  options: AgentStartOptions,
+  pool: Map<string, PoolEntry>,
+) {
+  const maxInstances = options.sandboxPool?.maxInstances;
+  if (!maxInstances) {
+    return;
+  }
+
+  // Map iteration order is insertion order, so the first entry is the LRU one
+  for (const [key, entry] of pool) {
+    if (pool.size < maxInstances) {
+      break;
+    }
+    // Sandboxes held by a run stay alive; the pool may exceed the cap briefly
+    if (entry.leases > 0) {
+      continue;
+    }
+    console.warn(
+      `[getSandbox] Sandbox pool limit (${maxInstances}) reached, evicting "${key}"`,
+    );
+    void evict(pool, key, entry);
+  }
+}
+
+function removeEntry(
+  pool: Map<string, PoolEntry>,
+  key: string,
+  entry: PoolEntry,
+) {
+  if (entry.idleTimer) {
+    clearTimeout(entry.idleTimer);
+  }
+  if (pool.get(key) === entry) {
+    pool.delete(key);
+  }
+}
+
+async function evict(
+  pool: Map<string, PoolEntry>,
+  key: string,
+  entry: PoolEntry,
+): Promise<void> {
+  removeEntry(pool, key, entry);
+
+  try {
+    const sandbox = await entry.promise;
+    await sandbox.dispose();
+  } catch (err) {
+    console.error(`[getSandbox] Failed to dispose sandbox "${key}":`, err);
+  }
+}
+
 function isSandboxAPI(value: unknown): value is SandboxAPI {
   return (
     typeof value === "object" &&
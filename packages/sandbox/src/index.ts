@@ -2,7 +2,7 @@
 AGENT: Sandbox package exports
 PURPOSE: Export sandbox types and utilities (types only, no adapters)
 USAGE: import { getSandbox } from "@agentstart/sandbox"
-EXPORTS: getSandbox utility, Sandbox types
+EXPORTS: getSandbox and acquireSandbox utilities, Sandbox types
 FEATURES:
   - Unified sandbox abstraction for local and cloud execution
   - Type-safe configuration
@@ -10,4 +10,9 @@ FEATURES:
 SEARCHABLE: sandbox exports, sandbox types, sandbox utility
 agent-frontmatter:end */
 
-export { getSandbox } from "./get-sandbox";
+export {
+  acquireSandbox,
+  disposeSandboxes,
+  getSandbox,
+  type SandboxLease,
+} from "./get-sandbox";
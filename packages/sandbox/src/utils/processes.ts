@@ -0,0 +1,100 @@
+/* agent-frontmatter:start
+AGENT: Sandbox process helpers
+PURPOSE: Track background commands and keep a bounded tail of their output
+USAGE: const processes = new ProcessRegistry(); processes.add(handle)
+EXPORTS: MAX_PROCESS_OUTPUT, OutputBuffer, ProcessRegistry, createProcessId
+FEATURES:
+  - Keeps the most recent output of long-running commands in memory
+  - Decodes split multi-byte characters across chunks
+  - Drops the oldest finished handles once the registry is full
+  - Kills every running process when the sandbox stops
+SEARCHABLE: sandbox processes, background command, process registry, output buffer
+agent-frontmatter:end */
+
+import { StringDecoder } from "node:string_decoder";
+import type { ShellCommandHandle } from "@agentstart/types";
+import { nanoid } from "nanoid";
+
+/** Characters of stdout and stderr kept per background process */
+export const MAX_PROCESS_OUTPUT = 100_000;
+
+// Finished handles kept for process listings and logs
+const MAX_FINISHED_PROCESSES = 20;
+
+/**
+ * Text accumulator that keeps at most `limit` trailing characters
+ */
+export class OutputBuffer {
+  private value = "";
+  private readonly decoder = new StringDecoder("utf8");
+
+  constructor(private readonly limit = Number.POSITIVE_INFINITY) {}
+
+  append(chunk: unknown) {
+    const text =
+      typeof chunk === "string"
+        ? chunk
+        : chunk instanceof Uint8Array
+          ? this.decoder.write(Buffer.from(chunk))
+          : String(chunk ?? "");
+    this.value += text;
+    if (this.value.length > this.limit) {
+      this.value = this.value.slice(-this.limit);
+    }
+    return text;
+  }
+
+  toString() {
+    return this.value;
+  }
+}
+
+export function createProcessId() {
+  return `proc_${nanoid(10)}`;
+}
+
+/**
+ * Background processes of a single sandbox
+ */
+export class ProcessRegistry {
+  private readonly handles = new Map<string, ShellCommandHandle>();
+
+  add(handle: ShellCommandHandle) {
+    this.handles.set(handle.id, handle);
+
+    const finished = this.list().filter(
+      (process) => process.exitCode !== undefined,
+    );
+    for (const process of finished.slice(
+      0,
+      Math.max(0, finished.length - MAX_FINISHED_PROCESSES),
+    )) {
+      this.handles.delete(process.id);
+    }
+  }
+
+  get(id: string) {
+    return this.handles.get(id);
+  }
+
+  list() {
+    return Array.from(this.handles.values());
+  }
+
+  /**
+   * Kill every process that is still running
+   */
+  async killAll() {
+    await Promise.all(
+      this.list()
+        .filter((process) => process.exitCode === undefined)
+        .map(async (process) => {
+          try {
+            await process.kill();
+          } catch (error) {
+            console.warn(`Failed to kill process ${process.id}:`, error);
+          }
+        }),
+    );
+  }
+}
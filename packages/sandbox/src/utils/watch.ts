@@ -0,0 +1,97 @@
+/* agent-frontmatter:start
+AGENT: Sandbox watch helpers
+PURPOSE: Share ignore matching and event batching between the file watchers of sandbox adapters
+USAGE: const queue = new WatchEventQueue(callback, options?.debounceMs)
+EXPORTS: DEFAULT_WATCH_DEBOUNCE, WatchEventQueue, isIgnoredPath
+FEATURES:
+  - Ignores paths whose own path or a parent directory matches a pattern
+  - Delivers events once the workspace has been quiet for the debounce delay
+  - Keeps a single event per path in each batch
+SEARCHABLE: sandbox watch, file watcher, watch debounce, ignore patterns
+agent-frontmatter:end */
+
+import type { FileSystemEvent } from "@agentstart/types";
+
+/** Delay in milliseconds used when `debounceMs` is not set */
+export const DEFAULT_WATCH_DEBOUNCE = 100;
+
+/**
+ * Whether a workspace-relative path, or one of its parent directories,
+ * matches an ignore rule. Rules match paths without a leading "/".
+ */
+export function isIgnoredPath(relativePath: string, rules: RegExp[]): boolean {
+  if (!rules.length) {
+    return false;
+  }
+  const segments = relativePath.split("/").filter(Boolean);
+  for (let length = segments.length; length > 0; length--) {
+    const candidate = segments.slice(0, length).join("/");
+    if (rules.some((rule) => rule.test(candidate))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Combine two events for the same path; null means they cancel out
+function mergeEvents(
+  previous: FileSystemEvent,
+  next: FileSystemEvent,
+): FileSystemEvent | null {
+  if (previous.type === "create" && next.type === "delete") {
+    return null;
+  }
+  if (previous.type === "create" && next.type === "modify") {
+    return { ...next, type: "create" };
+  }
+  if (previous.type === "delete" && next.type === "create") {
+    return { ...next, type: "modify" };
+  }
+  return next;
+}
+
+/**
+ * Batches watch events and delivers them after `debounceMs` without new events.
+ * Events for the same path within a batch are merged, so a file created and
+ * written several times is reported once.
+ */
+export class WatchEventQueue {
+  private pending = new Map<string, FileSystemEvent>();
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(
+    private readonly callback: (event: FileSystemEvent) => void,
+    private readonly debounceMs = DEFAULT_WATCH_DEBOUNCE,
+  ) {}
+
+  push(event: FileSystemEvent) {
+    if (this.debounceMs <= 0) {
+      this.callback(event);
+      return;
+    }
+
+    const previous = this.pending.get(event.path);
+    const merged = previous ? mergeEvents(previous, event) : event;
+    // Re-insert so batches stay ordered by the latest change
+    this.pending.delete(event.path);
+    if (merged) {
+      this.pending.set(event.path, merged);
+    }
+
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), this.debounceMs);
+  }
+
+  /**
+   * Deliver pending events right away
+   */
+  flush() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    const events = Array.from(this.pending.values());
+    this.pending.clear();
+    for (const event of events) {
+      this.callback(event);
+    }
+  }
+}
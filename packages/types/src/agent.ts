@@ -1,18 +1,35 @@
-import type { ModelMessage, UIMessage, UIMessageStreamWriter } from "ai";
+import type { Agent, ModelMessage, UIMessage, UIMessageStreamWriter } from "ai";
 import type { MemoryAdapter } from "./memory";
+import type { BashCommandPolicy } from "./options";
 import type { SandboxAPI } from "./sandbox";
+import type { WebFetchOptions, WebSearchProvider } from "./web";
 
 export interface RuntimeContext {
   writer: UIMessageStreamWriter<UIMessage>;
   threadId: string;
+  userId?: string;
   sandbox?: SandboxAPI;
   memory: MemoryAdapter;
+  webSearch?: WebSearchProvider;
+  webFetch?: WebFetchOptions;
+  bashPolicy?: BashCommandPolicy;
 }
 
 export interface CallOptions {
   runtimeContext: RuntimeContext;
 }
 
+/**
+ * A named sub-agent the main agent can delegate focused subtasks to through
+ * the `task` tool. Instructions, tool subset and step budget (`stopWhen`)
+ * come from the agent's own settings.
+ */
+export interface SubAgentDefinition {
+  /** When the main agent should use this sub-agent */
+  description: string;
+  agent: Agent<CallOptions, any, any>;
+}
+
 export type AgentCallParameters<CALL_OPTIONS> = ([CALL_OPTIONS] extends [never]
   ? { options?: never }
   : { options: CALL_OPTIONS }) &
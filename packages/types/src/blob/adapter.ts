@@ -2,11 +2,14 @@
 AGENT: Blob adapter interfaces
 PURPOSE: Mirror the @vercel/blob server SDK for provider-specific implementations
 USAGE: Implement BlobAdapter to surface blob helpers with provider defaults
-EXPORTS: BlobAdapter, BlobAdapterFactory, BlobCommandOptions
+EXPORTS: BlobAdapter, BlobAdapterFactory, BlobCommandOptions, BlobSignedUrlOptions, BlobUploadUrlOptions, BlobUploadUrl
 FEATURES:
   - Reuses canonical @vercel/blob command signatures
   - Adds constraint accessors for UI & validation
   - Supports async factory resolution per provider
+  - Lets adapters without their own public URLs serve blobs over HTTP
+  - Issues short-lived signed URLs for private blobs
+  - Presigns direct uploads, whole objects or multipart parts, from the browser
 SEARCHABLE: blob adapter, vercel blob api, storage provider
 agent-frontmatter:end */
 
@@ -21,7 +24,7 @@ import type {
   UploadPartCommandOptions,
 } from "@vercel/blob";
 import type { AgentStartOptions } from "../options";
-import type { BlobConstraints, BlobProvider } from "./provider";
+import type { BlobAccess, BlobConstraints, BlobProvider } from "./provider";
 
 /**
  * Base options shared by all blob commands
@@ -30,9 +33,62 @@ export interface BlobCommandOptions {
   token?: string;
 }
 
+/**
+ * Options for signing a URL to a private blob
+ */
+export interface BlobSignedUrlOptions {
+  /**
+   * Seconds until the URL stops working
+   */
+  expiresIn?: number;
+  /**
+   * Ask the browser to download the file instead of displaying it
+   */
+  download?: boolean;
+}
+
+/**
+ * Options for presigning a direct upload
+ */
+export interface BlobUploadUrlOptions {
+  contentType?: string;
+  /**
+   * Seconds until the URL stops working
+   */
+  expiresIn?: number;
+  /**
+   * Presign one part of a multipart upload instead of the whole object
+   */
+  part?: { key: string; uploadId: string; partNumber: number };
+}
+
+/**
+ * A presigned request the browser sends the file (or part) with.
+ * Responses carry the part's ETag header for multipart uploads.
+ */
+export interface BlobUploadUrl {
+  url: string;
+  method: "PUT";
+  /**
+   * Headers the request must include unchanged
+   */
+  headers: Record<string, string>;
+}
+
 export interface BlobAdapter {
   readonly provider: BlobProvider["provider"];
   getConstraints(): BlobConstraints | undefined;
+  /**
+   * Who can read stored blobs. Adapters without it only store public blobs.
+   */
+  getAccess?(): BlobAccess;
+  /**
+   * Create a short-lived URL that grants read access to a private blob.
+   */
+  getSignedUrl?(
+    urlOrPathname: string,
+    options?: BlobSignedUrlOptions,
+  ): Promise<string>;
   put(
     pathname: string,
     body: unknown,
@@ -66,6 +122,19 @@ export interface BlobAdapter {
     parts: { etag: string; partNumber: number }[],
     options: CompleteMultipartUploadCommandOptions,
   ): Promise<PutBlobResult>;
+  /**
+   * Serve a stored blob over HTTP, honoring `Range` headers, and accept
+   * presigned `PUT` uploads. Only implemented by adapters whose URLs point at `agentStart()` itself.
+   */
+  serve?(pathname: string, request: Request): Promise<Response>;
+  /**
+   * Presign a request that uploads a blob, or one part of a multipart
+   * upload, straight to storage without passing through the server.
+   */
+  createUploadUrl?(
+    pathname: string,
+    options?: BlobUploadUrlOptions,
+  ): Promise<BlobUploadUrl>;
 }
 
 /**
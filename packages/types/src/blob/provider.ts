@@ -2,11 +2,12 @@
 AGENT: Blob provider options
 PURPOSE: Define configuration types for blob storage providers and constraints
 USAGE: import type { BlobOptions, BlobProvider } from "@agentstart/blob"
-EXPORTS: BlobConstraints, BlobProviderVercelBlob, BlobProviderAwsS3, BlobProviderCloudflareR2, BlobProvider, BlobOptions, BlobS3Credentials, BlobS3ACL
+EXPORTS: BlobAccess, BlobConstraints, BlobProviderVercelBlob, BlobProviderAwsS3, BlobProviderCloudflareR2, BlobProviderLocal, BlobProvider, BlobOptions, BlobS3Credentials, BlobS3ACL
 FEATURES:
   - Provider-agnostic blob storage configuration
   - Constraint types for file size, MIME types, and file count limits
-  - Support for Vercel Blob, AWS S3, and Cloudflare R2
+  - Support for Vercel Blob, AWS S3, Cloudflare R2, and the local filesystem
+  - Public or private access for uploaded blobs
 SEARCHABLE: blob options, storage configuration, provider types
 agent-frontmatter:end */
 
@@ -24,6 +25,14 @@ agent-frontmatter:end */
  */
 export type BlobUploadTiming = "immediate" | "onSubmit";
 
+/**
+ * Who can read uploaded blobs.
+ *
+ * - `public`: blob URLs work for anyone who has them
+ * - `private`: blobs are only reachable through short-lived signed URLs
+ */
+export type BlobAccess = "public" | "private";
+
 export interface BlobConstraints {
   /**
    * Maximum file size in bytes permitted per blob upload.
@@ -108,10 +117,29 @@ export interface BlobProviderCloudflareR2 extends BlobProviderS3Base {
   accountId?: string;
 }
 
+export interface BlobProviderLocal {
+  provider: "local";
+  /**
+   * Directory blobs are stored in.
+   */
+  root: string;
+  /**
+   * Absolute URL the blob route of `agentStart()` is served from,
+   * e.g. `http://localhost:3000/api/agent/blob/files`.
+   */
+  publicBaseURL: string;
+  /**
+   * Key used to sign URLs of private blobs. Defaults to a random key,
+   * which invalidates signed URLs whenever the server restarts.
+   */
+  secret?: string;
+}
+
 export type BlobProvider =
   | BlobProviderVercelBlob
   | BlobProviderAwsS3
-  | BlobProviderCloudflareR2;
+  | BlobProviderCloudflareR2
+  | BlobProviderLocal;
 
 export interface BlobOptions {
   /**
@@ -122,4 +150,8 @@ export interface BlobOptions {
    * Constraints enforced before blob requests are dispatched.
    */
   constraints?: BlobConstraints;
+  /**
+   * Who can read uploaded blobs. Defaults to `public`.
+   */
+  access?: BlobAccess;
 }
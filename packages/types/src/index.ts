@@ -2,7 +2,7 @@
 AGENT: Shared types entry
 PURPOSE: Re-export Agent Start shared type definitions for all packages
 USAGE: import type { AgentStartOptions } from "@agentstart/types"
-EXPORTS: adapter types, field helpers, kysely helpers
+EXPORTS: adapter types, field helpers, kysely helpers, MCP server configs, web search provider types
 FEATURES:
   - Centralizes cross-package interfaces to prevent circular dependencies
   - Provides reusable schema helpers for adapters and runtimes
@@ -11,6 +11,8 @@ agent-frontmatter:end */
 
 export * from "./agent";
 export * from "./blob";
+export * from "./mcp";
 export * from "./memory";
 export * from "./options";
 export * from "./sandbox";
+export * from "./web";
@@ -0,0 +1,55 @@
+/* agent-frontmatter:start
+AGENT: MCP server configuration
+PURPOSE: Describe Model Context Protocol servers whose tools are exposed to the agent
+USAGE: mcpServers: [{ name: "github", command: "npx", args: ["-y", "@modelcontextprotocol/server-github"] }]
+EXPORTS: MCPServerConfig, MCPStdioServerConfig, MCPHttpServerConfig, MCPRestartOptions
+FEATURES:
+  - stdio servers launched as child processes
+  - Streamable HTTP servers reached by URL
+  - Restart limits for servers that exit or drop the connection
+SEARCHABLE: mcp server config, model context protocol, stdio server, http server
+agent-frontmatter:end */
+
+export interface MCPRestartOptions {
+  /**
+   * Reconnect attempts after the server exits, before it is marked failed
+   * @default 3
+   */
+  maxRetries?: number;
+  /**
+   * Delay before the first reconnect, doubled on every further attempt
+   * @default 1000
+   */
+  delayMs?: number;
+}
+
+interface MCPBaseServerConfig {
+  /**
+   * Server name, used to namespace its tools as `mcp__<name>__<tool>`
+   */
+  name: string;
+  /**
+   * Only expose these tools (original MCP tool names)
+   */
+  includeTools?: string[];
+  restart?: MCPRestartOptions;
+}
+
+export interface MCPStdioServerConfig extends MCPBaseServerConfig {
+  type?: "stdio";
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
+export interface MCPHttpServerConfig extends MCPBaseServerConfig {
+  type: "http";
+  /**
+   * Streamable HTTP endpoint of the server
+   */
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export type MCPServerConfig = MCPStdioServerConfig | MCPHttpServerConfig;
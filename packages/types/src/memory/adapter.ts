@@ -7,6 +7,7 @@ FEATURES:
   - Defines the adapter contract consumed by Agent Start adapters
   - Provides helper types for memory configuration
   - Includes shared record models used in adapter tests
+  - Optional full-text search that adapters back with native indexes
 SEARCHABLE: memory adapter types, agent start options, database models
 agent-frontmatter:end */
 
@@ -65,6 +66,18 @@ export type MemoryAdapter = {
   }) => Promise<number>;
   delete: (data: { model: string; where: Where[] }) => Promise<void>;
   deleteMany: (data: { model: string; where: Where[] }) => Promise<number>;
+  /**
+   * Full-text search over `fields` of a model, best matches first. Records
+   * must contain every term of `query`. Adapters without native search
+   * leave it out and callers fall back to `contains` filters.
+   */
+  search?: <T>(data: {
+    model: string;
+    fields: string[];
+    query: string;
+    where?: Where[];
+    limit?: number;
+  }) => Promise<T[]>;
   upsert: <T>(data: {
     model: string;
     where: Where[];
@@ -57,6 +57,10 @@ export type FieldAttributeConfig<_T extends FieldType = FieldType> = {
   };
   fieldName?: string;
   sortable?: boolean;
+  /**
+   * Include the field in full-text search (`MemoryAdapter.search`)
+   */
+  searchable?: boolean;
 };
 
 export type FieldAttribute<T extends FieldType = FieldType> = {
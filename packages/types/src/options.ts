@@ -2,7 +2,7 @@
 AGENT: Agent options contract
 PURPOSE: Provide the shared Agent Start configuration surface needed across packages without introducing circular dependencies
 USAGE: import type { AgentStartOptions } from "@agentstart/types"
-EXPORTS: AgentStartOptions, AgentAdvancedOptions, AgentGenerateTitleOptions, AgentGenerateSuggestionsOptions, Blob, Sandbox, SandboxBaseOptions
+EXPORTS: AgentStartOptions, AgentAdvancedOptions, AgentGenerateTitleOptions, AgentGenerateSuggestionsOptions, Blob, Sandbox, SandboxBaseOptions, ToolApprovalPolicy, ToolApprovalContext, BashCommandPolicy, BashPolicyRule, BashPolicyAction, BashPolicyDecision, BashPolicyAuditContext, ContextCompactionOptions, ContextCompactionStrategy, ThreadShareOptions
 FEATURES:
   - Encapsulates the option fields required by adapters and runtime helpers
   - Uses adapter pattern for blob and sandbox configuration
@@ -11,15 +11,21 @@ SEARCHABLE: agent options, sandbox configuration, blob configuration, advanced o
 agent-frontmatter:end */
 import type { AnyMiddleware } from "@orpc/server";
 import type { Agent, LanguageModel } from "ai";
-import type { CallOptions } from "./agent";
+import type { CallOptions, SubAgentDefinition } from "./agent";
 import type { BlobAdapter, BlobAdapterFactory } from "./blob";
+import type { MCPServerConfig } from "./mcp";
 import type {
   FieldAttribute,
   Memory,
   ModelOptions,
   SecondaryMemoryAdapter,
 } from "./memory";
-import type { SandboxAdapterFactory, SandboxAPI } from "./sandbox";
+import type {
+  SandboxAdapterFactory,
+  SandboxAPI,
+  SandboxPoolOptions,
+} from "./sandbox";
+import type { WebFetchOptions, WebSearchProvider } from "./web";
 
 /**
  * Base options shared by all sandbox implementations.
@@ -86,6 +92,205 @@ export interface ModelsConfig {
   available?: LanguageModel[];
 }
 
+/**
+ * Context passed to tool approval predicates.
+ */
+export interface ToolApprovalContext {
+  /** Name of the tool being called */
+  toolName: string;
+  /** ID of the tool call awaiting a decision */
+  toolCallId: string;
+  /** Thread the tool call belongs to */
+  threadId: string;
+  /** User that owns the thread, when known */
+  userId?: string;
+}
+
+/**
+ * Approval policy for a single tool.
+ * - `always`: every call waits for the user to approve or reject it
+ * - `never`: calls run immediately (default)
+ * - function: calls wait for a decision when the predicate returns true
+ *
+ * Predicates receive the raw tool input, so narrow it before reading fields.
+ *
+ * @example
+ * ```ts
+ * bash: (input) => /\b(rm|curl)\b/.test((input as { command: string }).command)
+ * ```
+ */
+export type ToolApprovalPolicy<INPUT = unknown> =
+  | "always"
+  | "never"
+  | ((
+      input: INPUT,
+      context: ToolApprovalContext,
+    ) => boolean | Promise<boolean>);
+
+/**
+ * What the bash policy does with a command.
+ * - `allow`: run it
+ * - `deny`: refuse it and tell the model which rule matched
+ * - `require-approval`: pause the run until the user approves the call
+ */
+export type BashPolicyAction = "allow" | "deny" | "require-approval";
+
+/**
+ * A single bash policy rule. Rules are checked against every simple command
+ * of a pipeline or `&&`/`||`/`;` chain, and the first matching rule wins.
+ * A rule with neither `commands` nor `match` matches every command.
+ *
+ * @example
+ * ```ts
+ * { name: "no-network", action: "deny", commands: ["curl", "wget", "ssh"] }
+ * ```
+ */
+export interface BashPolicyRule {
+  /** Name reported to the model and in audit logs */
+  name?: string;
+  action: BashPolicyAction;
+  /** Program names the rule covers, such as `["curl", "wget"]` */
+  commands?: string[];
+  /**
+   * A string matches commands whose words start with its words, with `*`
+   * standing for any single word (`"npm test"` matches `npm test -- -u`).
+   * Flags match in any order, so `"rm -rf /"` also matches `rm -r -f /`.
+   * A RegExp is tested against the command's words joined by spaces.
+   */
+  match?: string | RegExp;
+  /** Explanation added to the error shown to the model */
+  reason?: string;
+}
+
+/**
+ * Outcome of checking one bash command against the policy.
+ */
+export interface BashPolicyDecision {
+  action: BashPolicyAction;
+  /** Full command produced by the model */
+  command: string;
+  /** Simple command that decided the outcome, when any matched */
+  segment?: string;
+  /** Rule that decided the outcome; absent when the default applied */
+  rule?: BashPolicyRule;
+}
+
+/**
+ * Context passed to the bash policy audit hook.
+ */
+export interface BashPolicyAuditContext {
+  toolCallId: string;
+  threadId: string;
+  userId?: string;
+}
+
+/**
+ * Declarative allow, deny and require-approval rules for the `bash` tool.
+ * A chain is denied when any of its commands is denied, needs approval when
+ * any needs approval, and runs only when every command is allowed.
+ *
+ * The policy is advisory: it reads the command text, and a shell can still
+ * build commands at runtime that no rule sees. Isolate the sandbox for hard
+ * guarantees.
+ *
+ * @example
+ * ```ts
+ * // Only allow the test suite
+ * bashPolicy: { rules: [{ action: "allow", match: "npm test" }], default: "deny" }
+ * ```
+ */
+export interface BashCommandPolicy {
+  rules: BashPolicyRule[];
+  /**
+   * Action for commands no rule matches.
+   * @default "allow"
+   */
+  default?: BashPolicyAction;
+  /**
+   * Receives every decision for auditing. Decisions are not recorded when
+   * omitted.
+   */
+  onDecision?: (
+    decision: BashPolicyDecision,
+    context: BashPolicyAuditContext,
+  ) => void | Promise<void>;
+}
+
+/**
+ * How older turns are condensed once a thread nears the context window.
+ * - `summarize`: replace older turns with a model-written summary
+ * - `drop-tool-outputs`: keep older turns but strip their tool outputs
+ * - `truncate`: drop the oldest turns until the thread fits the budget
+ */
+export type ContextCompactionStrategy =
+  | "summarize"
+  | "drop-tool-outputs"
+  | "truncate";
+
+/**
+ * Context compaction configuration. The stored history is never modified;
+ * only the messages sent to the model are compacted.
+ *
+ * @example
+ * ```ts
+ * compaction: { strategy: "summarize", model: openrouter("openai/gpt-4o-mini"), threshold: 0.8 }
+ * ```
+ */
+export interface ContextCompactionOptions {
+  strategy: ContextCompactionStrategy;
+  /**
+   * Fraction of the context window (0-1) that triggers compaction.
+   * @default 0.8
+   */
+  threshold?: number;
+  /**
+   * Context window size in tokens. Defaults to the limit reported for the
+   * thread's model; compaction is skipped when neither is known.
+   */
+  maxTokens?: number;
+  /**
+   * Number of most recent messages that are always sent verbatim.
+   * @default 6
+   */
+  keepRecentMessages?: number;
+  /**
+   * Model used by the `summarize` strategy. Defaults to the agent model.
+   */
+  model?: LanguageModel;
+  /**
+   * Custom instructions for the `summarize` strategy.
+   */
+  instructions?: string;
+  /**
+   * Tools whose outputs the `drop-tool-outputs` strategy strips.
+   * @default ["read", "grep", "glob", "ls", "bash"]
+   */
+  tools?: string[];
+}
+
+/**
+ * What `thread.getShared` strips from threads opened through a share link.
+ * Provider metadata, tool approval details and sandbox ids are always
+ * removed.
+ *
+ * @example
+ * ```ts
+ * share: { hideToolCalls: true, redactPaths: ["/home/user/project"] }
+ * ```
+ */
+export interface ThreadShareOptions {
+  /**
+   * Remove tool calls and reasoning, leaving only the conversation text.
+   * @default false
+   */
+  hideToolCalls?: boolean;
+  /**
+   * Absolute path prefixes, such as the sandbox workspace, replaced with
+   * "." wherever they appear in shared messages.
+   */
+  redactPaths?: string[];
+}
+
 export interface AgentGenerateTitleOptions {
   model: LanguageModel;
   instructions?: string;
@@ -234,6 +439,21 @@ export interface AgentStartOptions {
    * ```
    */
   sandbox?: Sandbox;
+  /**
+   * Sandbox pooling controlling isolation between threads and users.
+   * Only applies when `sandbox` is an adapter factory.
+   * @type {SandboxPoolOptions | undefined}
+   *
+   * @example
+   * ```ts
+   * // One workspace per thread, at most 20 live, disposed after 15 minutes idle
+   * sandboxPool: { scope: "thread", maxInstances: 20, idleTimeout: 15 * 60 * 1000 }
+   *
+   * // Custom key from the runtime context
+   * sandboxPool: { scope: ({ userId, threadId }) => `${userId}:${threadId}` }
+   * ```
+   */
+  sandboxPool?: SandboxPoolOptions;
   /**
    * Extracts a stable user identifier from inbound request headers.
    * @type {((headers: Headers) => string | Promise<string>) | undefined}
@@ -342,6 +562,113 @@ export interface AgentStartOptions {
    * @type {number | undefined}
    */
   maxTurns?: number;
+  /**
+   * Per-tool approval policies keyed by tool name.
+   * Tool calls that require approval pause the run until the client calls
+   * `thread.approve` or `thread.reject`. Sub-agents cannot pause, so their
+   * calls that require approval fail instead.
+   * @type {Record<string, ToolApprovalPolicy> | undefined}
+   *
+   * @example
+   * ```ts
+   * toolApproval: {
+   *   write: "always",
+   *   bash: (input) =>
+   *     /\b(rm|curl)\b/.test((input as { command: string }).command),
+   * }
+   * ```
+   */
+  toolApproval?: Record<string, ToolApprovalPolicy>;
+  /**
+   * Allow, deny or require approval for commands run by the `bash` tool.
+   * Denied commands return an error naming the matched rule.
+   * @type {BashCommandPolicy | undefined}
+   *
+   * @example
+   * ```ts
+   * bashPolicy: {
+   *   rules: [
+   *     { name: "no-root-delete", action: "deny", match: "rm -rf /" },
+   *     { name: "no-network", action: "deny", commands: ["curl", "wget"] },
+   *     { action: "require-approval", match: "git push" },
+   *   ],
+   * }
+   * ```
+   */
+  bashPolicy?: BashCommandPolicy;
+  /**
+   * Compact long threads before they overflow the model context window.
+   * @type {ContextCompactionOptions | undefined}
+   *
+   * @example
+   * ```ts
+   * // Strip stale read/grep results at 80% of the window
+   * compaction: { strategy: "drop-tool-outputs", threshold: 0.8 }
+   * ```
+   */
+  compaction?: ContextCompactionOptions;
+  /**
+   * Sub-agents available to the `task` tool, keyed by name.
+   * Each runs with the same sandbox and thread; only its final report is
+   * returned to the main agent.
+   * @type {Record<string, SubAgentDefinition> | undefined}
+   *
+   * @example
+   * ```ts
+   * subAgents: {
+   *   explorer: {
+   *     description: "Searches the codebase and reports relevant files",
+   *     agent: new Agent({ model, instructions: "...", tools: { glob, grep, read }, stopWhen: stepCountIs(10) }),
+   *   },
+   * }
+   * ```
+   */
+  subAgents?: Record<string, SubAgentDefinition>;
+  /**
+   * Search backend for the `webSearch` tool.
+   * @type {WebSearchProvider | undefined}
+   *
+   * @example
+   * ```ts
+   * webSearch: { name: "brave", search: (query, options) => searchBrave(query, options) }
+   * ```
+   */
+  webSearch?: WebSearchProvider;
+  /**
+   * Network options for the `webFetch` tool. Private, loopback and
+   * link-local addresses are refused unless their host is allowed here.
+   * @type {WebFetchOptions | undefined}
+   *
+   * @example
+   * ```ts
+   * webFetch: { allowedHosts: ["wiki.internal.example.com"] }
+   * ```
+   */
+  webFetch?: WebFetchOptions;
+  /**
+   * Model Context Protocol servers whose tools are added to the agent.
+   * Tools are namespaced as `mcp__<server>__<tool>`.
+   * @type {MCPServerConfig[] | undefined}
+   *
+   * @example
+   * ```ts
+   * mcpServers: [
+   *   { name: "filesystem", command: "npx", args: ["-y", "@modelcontextprotocol/server-filesystem", "./docs"] },
+   *   { name: "linear", type: "http", url: "https://mcp.linear.app/mcp", headers: { Authorization: `Bearer ${token}` } },
+   * ]
+   * ```
+   */
+  mcpServers?: MCPServerConfig[];
+  /**
+   * Sanitization applied to threads opened through a share link.
+   * @type {ThreadShareOptions | undefined}
+   *
+   * @example
+   * ```ts
+   * share: { hideToolCalls: true, redactPaths: [process.cwd()] }
+   * ```
+   */
+  share?: ThreadShareOptions;
 }
 
 export type AgentStartOptionsWithoutAgent = Omit<AgentStartOptions, "agent"> & {
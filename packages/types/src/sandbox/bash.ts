@@ -6,6 +6,7 @@ EXPORTS: ShellCommandOptions, ShellCommandResult, ShellCommandHandle, ShellComma
 FEATURES:
   - Aligns with E2B command schema
   - Supports streaming callbacks
+  - Tracks background processes through command handles
   - Provides typed grep responses
 SEARCHABLE: bash api, sandbox shell, command execution, grep typings
 agent-frontmatter:end */
@@ -92,20 +93,50 @@ export interface ShellCommandResult {
  * Command handle for background bash processes.
  */
 export interface ShellCommandHandle {
+  /**
+   * Handle ID, unique within the sandbox
+   */
+  id: string;
+
   /**
    * Process ID
    */
   pid?: number;
 
+  /**
+   * The command that was started
+   */
+  command: string;
+
+  /**
+   * Start time in milliseconds since the epoch
+   */
+  startedAt: number;
+
+  /**
+   * Exit code, once the command has finished
+   */
+  readonly exitCode?: number;
+
+  /**
+   * Output captured so far. Only the most recent output is kept.
+   */
+  readonly stdout: string;
+
+  /**
+   * Error output captured so far. Only the most recent output is kept.
+   */
+  readonly stderr: string;
+
   /**
    * Wait for the command to finish and get its result
    */
   wait(): Promise<ShellCommandResult>;
 
   /**
-   * Kill the running command
+   * Kill the running command and the processes it started
    */
-  kill(signal?: NodeJS.Signals): boolean;
+  kill(signal?: NodeJS.Signals): boolean | Promise<boolean>;
 }
 
 /**
@@ -131,6 +162,26 @@ export interface BashAPI {
     ...values: unknown[]
   ) => ShellCommandPromise;
 
+  /**
+   * Start a command in the background and return without waiting for it.
+   * No timeout applies unless `options.timeout` is set.
+   * Optional; adapters without it cannot run background processes.
+   */
+  spawn?(
+    command: string,
+    options?: Omit<ShellCommandOptions, "background">,
+  ): Promise<ShellCommandHandle>;
+
+  /**
+   * Background processes started with `spawn`, including finished ones
+   */
+  listProcesses?(): ShellCommandHandle[];
+
+  /**
+   * Look up a background process by handle ID
+   */
+  getProcess?(id: string): ShellCommandHandle | undefined;
+
   /**
    * Search file contents using grep
    */
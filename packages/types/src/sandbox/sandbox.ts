@@ -2,14 +2,19 @@
 AGENT: Sandbox typing
 PURPOSE: Describe lifecycle and helper APIs for managing sandbox instances
 USAGE: Import to type sandbox implementations across the workspace
-EXPORTS: SandboxStatus, SandboxConfig, SandboxAPI
+EXPORTS: SandboxStatus, SandboxConfig, NodeJSSandboxConfig, NodeJSSandboxIsolation, SandboxSnapshot, SandboxAPI, SandboxScope, SandboxScopeContext, SandboxPoolOptions, SandboxAdapterFactory
 FEATURES:
   - Encapsulates sandbox lifecycle contracts
   - Exposes typed sub-APIs (fs, bash, git, dev)
   - Defines reusable configuration shapes
+  - Describes pool scoping for per-thread and per-user isolation
+  - Snapshots workspaces so forked threads start from the same files, then deletes them
+  - Configures OS-level isolation for commands of the Node.js sandbox
+  - Resolves declared ports to URLs for live previews
 SEARCHABLE: sandbox api, lifecycle typing, sandbox contracts
 agent-frontmatter:end */
 
+import type { RuntimeContext } from "../agent";
 import type { AgentStartOptions, SandboxBaseOptions } from "../options";
 import type { BashAPI } from "./bash";
 import type { FileSystemAPI } from "./file-system";
@@ -38,7 +43,7 @@ export interface SandboxStatus {
 export interface E2BSandboxConfig extends SandboxBaseOptions {
   /** Optional: GitHub token for git operations */
   githubToken?: string;
-  /** Ports to expose from the sandbox */
+  /** Ports to expose from the sandbox and preview through the sandbox router */
   ports?: number[];
   /** Runtime environment (e.g., "node22", "python3.13") */
   runtime?: string;
@@ -57,6 +62,40 @@ export interface E2BSandboxConfig extends SandboxBaseOptions {
 export interface NodeJSSandboxConfig extends SandboxBaseOptions {
   /** Local workspace path for file operations */
   workspacePath?: string;
+  /**
+   * Run bash commands in Linux namespaces with the workspace as the only
+   * writable mount. `true` applies the defaults of NodeJSSandboxIsolation.
+   */
+  isolation?: boolean | NodeJSSandboxIsolation;
+  /** Ports that may be previewed through the sandbox router */
+  ports?: number[];
+}
+
+/**
+ * OS-level isolation for commands of the Node.js sandbox. Linux only; needs
+ * bubblewrap (`bwrap`) or util-linux `unshare` with user namespaces enabled.
+ */
+export interface NodeJSSandboxIsolation {
+  /**
+   * Namespace tool. `auto` (default) prefers bubblewrap over unshare.
+   */
+  backend?: "auto" | "bubblewrap" | "unshare";
+  /** Allow network access (default: false) */
+  network?: boolean;
+  /** Resource limits applied with ulimit before the command starts */
+  limits?: {
+    /** CPU time in seconds */
+    cpuSeconds?: number;
+    /** Address space in bytes */
+    memoryBytes?: number;
+    /** Processes of the sandbox user, counted across the whole host */
+    processes?: number;
+  };
+  /**
+   * Environment of isolated commands. The host environment is not inherited;
+   * only PATH, LANG and TERM are passed through.
+   */
+  env?: Record<string, string>;
 }
 
 /**
@@ -73,6 +112,20 @@ export interface SandboxConfig extends SandboxBaseOptions {
   autoStopDelay?: number;
 }
 
+/**
+ * Captured workspace state that a sandbox can restore.
+ */
+export interface SandboxSnapshot {
+  /** `directory` for a copy on disk, `git` for a commit on a branch */
+  type: "directory" | "git";
+  /** Directory holding the copy, or the branch pointing at the commit */
+  ref: string;
+  /** Commit hash of git snapshots */
+  commit?: string;
+  /** Git bundle of the snapshot branch, so other sandboxes can restore it */
+  bundle?: Uint8Array;
+}
+
 /**
  * Contract for sandbox lifecycle managers bound to a single project.
  */
@@ -136,6 +189,33 @@ export interface SandboxAPI {
    * Dispose manager resources and detach sandbox hooks.
    */
   dispose(): Promise<void>;
+
+  /**
+   * Capture the current workspace without changing it.
+   * Optional; threads forked from sandboxes without it start empty.
+   */
+  snapshot?(name: string): Promise<SandboxSnapshot>;
+
+  /**
+   * Replace the workspace contents with a snapshot.
+   */
+  restore?(snapshot: SandboxSnapshot): Promise<void>;
+
+  /**
+   * Remove the copy or branch a snapshot left in this sandbox.
+   */
+  deleteSnapshot?(snapshot: SandboxSnapshot): Promise<void>;
+
+  /**
+   * Ports declared in the sandbox config that can be previewed.
+   */
+  getPorts?(): number[];
+
+  /**
+   * Base URL the server uses to reach a declared port, such as
+   * `http://127.0.0.1:3000`. Fails for ports that were not declared.
+   */
+  getPortUrl?(port: number): Promise<string>;
 }
 
 /**
@@ -143,10 +223,53 @@ export interface SandboxAPI {
  * callers should consult concrete classes for those factories.
  */
 
+/**
+ * Runtime values available when resolving the pool key for a sandbox.
+ */
+export type SandboxScopeContext = Partial<
+  Omit<RuntimeContext, "writer" | "sandbox">
+>;
+
+/**
+ * Strategy used to partition sandboxes.
+ * - `global`: one sandbox shared by every thread and user (default)
+ * - `thread`: one sandbox per thread
+ * - `user`: one sandbox per user
+ * - function: custom key derived from the runtime context
+ */
+export type SandboxScope =
+  | "global"
+  | "thread"
+  | "user"
+  | ((context: SandboxScopeContext) => string | undefined);
+
+/**
+ * Pooling options controlling how sandboxes are isolated and recycled.
+ */
+export interface SandboxPoolOptions {
+  /** Partitioning strategy for sandboxes (default: "global") */
+  scope?: SandboxScope;
+  /** Dispose sandboxes that have not been requested for this many milliseconds */
+  idleTimeout?: number;
+  /** Maximum number of live sandboxes; least recently used ones are disposed first */
+  maxInstances?: number;
+}
+
+/**
+ * Scope information passed to adapter factories when the pool is keyed.
+ */
+export interface SandboxFactoryScope {
+  /** Pool key resolved from the configured scope */
+  key: string;
+}
+
 /**
  * Factory function that creates a SandboxAPI instance.
  * Receives AgentStartOptions and returns a SandboxAPI (sync or async).
+ * When a non-global scope is configured, the resolved pool key is passed as
+ * the second argument so adapters can isolate their workspaces.
  */
 export type SandboxAdapterFactory = (
   options: AgentStartOptions,
+  scope?: SandboxFactoryScope,
 ) => Promise<SandboxAPI> | SandboxAPI;
@@ -0,0 +1,70 @@
+/* agent-frontmatter:start
+AGENT: Web search provider contract
+PURPOSE: Define the pluggable search backend used by the webSearch tool and the webFetch network options
+USAGE: const provider: WebSearchProvider = { name: "brave", search: async (query, options) => [...] }
+EXPORTS: WebSearchProvider, WebSearchOptions, WebSearchResult, WebFetchOptions
+FEATURES:
+  - Provider-agnostic search result shape
+  - Domain filters and result limits passed through to the provider
+  - Private host allowlist and fetch override for the webFetch tool
+SEARCHABLE: web search provider, search interface, web search result
+agent-frontmatter:end */
+
+export interface WebSearchResult {
+  title: string;
+  url: string;
+  /** Short excerpt describing the result */
+  snippet?: string;
+  /** ISO date the page was published, when known */
+  publishedAt?: string;
+}
+
+export interface WebSearchOptions {
+  /** Maximum number of results to return */
+  maxResults: number;
+  /** Only return results from these domains */
+  allowedDomains?: string[];
+  /** Never return results from these domains */
+  blockedDomains?: string[];
+  signal?: AbortSignal;
+}
+
+/**
+ * Search backend used by the `webSearch` tool.
+ *
+ * @example
+ * ```ts
+ * const braveSearch: WebSearchProvider = {
+ *   name: "brave",
+ *   async search(query, { maxResults, signal }) {
+ *     const response = await fetch(`https://api.search.brave.com/res/v1/web/search?q=${encodeURIComponent(query)}&count=${maxResults}`, {
+ *       headers: { "X-Subscription-Token": process.env.BRAVE_API_KEY! },
+ *       signal,
+ *     });
+ *     const data = await response.json();
+ *     return data.web.results.map((result) => ({ title: result.title, url: result.url, snippet: result.description }));
+ *   },
+ * };
+ * ```
+ */
+export interface WebSearchProvider {
+  name: string;
+  search(query: string, options: WebSearchOptions): Promise<WebSearchResult[]>;
+}
+
+/**
+ * Network options for the `webFetch` tool. Hosts that resolve to loopback,
+ * private or link-local addresses are refused unless they are listed in
+ * `allowedHosts`.
+ *
+ * @example
+ * ```ts
+ * const webFetch: WebFetchOptions = { allowedHosts: ["docs.internal"] };
+ * ```
+ */
+export interface WebFetchOptions {
+  /** Hostnames that may be fetched even when they resolve to private addresses */
+  allowedHosts?: string[];
+  /** Sends the requests instead of the global `fetch`, e.g. through an egress proxy */
+  fetch?: typeof fetch;
+}